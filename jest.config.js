@@ -74,6 +74,8 @@ const config = {
         '<rootDir>/src/shared/**/*.test.ts',
         '<rootDir>/src/__tests__/domain/**/*.test.ts',
         '<rootDir>/src/__tests__/application/**/*.test.ts',
+        '<rootDir>/src/__tests__/infrastructure/**/*.test.ts',
+        '<rootDir>/src/__tests__/ipc/**/*.test.ts',
         '<rootDir>/src/__tests__/shared/**/*.test.ts',
       ],
       transform: {
@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Unit tests for objective answer grading domain service
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Tests option validation, exact-match and partial-credit grading of
+ * multiple-choice, multi-select and true/false answers, and rating mapping.
+ */
+
+import {
+  gradeSelection,
+  gradeToRating,
+  isObjectiveQuestionType,
+  TRUE_FALSE_OPTIONS,
+  validateAnswerOptions,
+} from '../../domain/services/answer-grading.service'
+
+describe('Answer Grading Service', () => {
+  describe('isObjectiveQuestionType', () => {
+    it('should accept choice question types', () => {
+      expect(isObjectiveQuestionType('multiple_choice')).toBe(true)
+      expect(isObjectiveQuestionType('multi_select')).toBe(true)
+      expect(isObjectiveQuestionType('true_false')).toBe(true)
+    })
+
+    it('should reject self-rated and LLM-evaluated types', () => {
+      expect(isObjectiveQuestionType('flashcard')).toBe(false)
+      expect(isObjectiveQuestionType('open_response')).toBe(false)
+    })
+  })
+
+  describe('validateAnswerOptions', () => {
+    it('should accept a valid multiple-choice configuration', () => {
+      expect(validateAnswerOptions('multiple_choice', ['A', 'B', 'C'], [2])).toBeNull()
+    })
+
+    it('should require exactly one correct option for multiple choice', () => {
+      expect(validateAnswerOptions('multiple_choice', ['A', 'B'], [0, 1])).not.toBeNull()
+      expect(validateAnswerOptions('multiple_choice', ['A', 'B'], [])).not.toBeNull()
+    })
+
+    it('should require at least one correct option for multi-select', () => {
+      expect(validateAnswerOptions('multi_select', ['A', 'B', 'C'], [0, 2])).toBeNull()
+      expect(validateAnswerOptions('multi_select', ['A', 'B', 'C'], [])).not.toBeNull()
+    })
+
+    it('should enforce the option count limits', () => {
+      expect(validateAnswerOptions('multiple_choice', ['A'], [0])).not.toBeNull()
+      const nine = ['1', '2', '3', '4', '5', '6', '7', '8', '9']
+      expect(validateAnswerOptions('multiple_choice', nine, [0])).not.toBeNull()
+    })
+
+    it('should reject empty and duplicate options', () => {
+      expect(validateAnswerOptions('multiple_choice', ['A', '  '], [0])).not.toBeNull()
+      expect(validateAnswerOptions('multiple_choice', ['Yes', 'yes'], [0])).not.toBeNull()
+    })
+
+    it('should reject out-of-range and duplicate correct indices', () => {
+      expect(validateAnswerOptions('multiple_choice', ['A', 'B'], [2])).not.toBeNull()
+      expect(validateAnswerOptions('multi_select', ['A', 'B'], [1, 1])).not.toBeNull()
+    })
+
+    it('should require the fixed options for true/false', () => {
+      expect(validateAnswerOptions('true_false', TRUE_FALSE_OPTIONS, [1])).toBeNull()
+      expect(validateAnswerOptions('true_false', ['Yes', 'No'], [0])).not.toBeNull()
+    })
+  })
+
+  describe('gradeSelection', () => {
+    it('should grade a single-answer selection by exact match', () => {
+      expect(gradeSelection('multiple_choice', 4, [2], [2])).toEqual({
+        wasCorrect: true,
+        partialScore: 1,
+        correctAnswers: [2],
+      })
+      expect(gradeSelection('true_false', 2, [0], [1]).partialScore).toBe(0)
+    })
+
+    it('should ignore selection order and duplicates', () => {
+      expect(gradeSelection('multi_select', 4, [0, 2], [2, 0, 2]).wasCorrect).toBe(true)
+    })
+
+    it('should award partial credit for multi-select', () => {
+      const grade = gradeSelection('multi_select', 4, [0, 1, 2, 3], [0, 1, 2])
+      expect(grade.wasCorrect).toBe(false)
+      expect(grade.partialScore).toBeCloseTo(0.75)
+    })
+
+    it('should deduct incorrect picks without going below zero', () => {
+      expect(gradeSelection('multi_select', 4, [0, 2], [0, 1]).partialScore).toBe(0)
+      expect(gradeSelection('multi_select', 4, [0], [1, 2, 3]).partialScore).toBe(0)
+    })
+
+    it('should not credit out-of-range selections', () => {
+      expect(gradeSelection('multiple_choice', 3, [1], [7]).wasCorrect).toBe(false)
+    })
+
+    it('should treat an empty selection as incorrect', () => {
+      expect(gradeSelection('multi_select', 3, [0], []).wasCorrect).toBe(false)
+    })
+  })
+
+  describe('gradeToRating', () => {
+    it('should rate a correct answer good', () => {
+      expect(gradeToRating({ wasCorrect: true, partialScore: 1, correctAnswers: [0] })).toBe('good')
+    })
+
+    it('should rate substantial partial credit hard', () => {
+      expect(gradeToRating({ wasCorrect: false, partialScore: 0.5, correctAnswers: [0, 1] })).toBe(
+        'hard'
+      )
+    })
+
+    it('should rate a wrong answer again', () => {
+      expect(gradeToRating({ wasCorrect: false, partialScore: 0.25, correctAnswers: [0] })).toBe(
+        'again'
+      )
+    })
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Unit tests for blending concept mastery into card selection
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Tests how much the concept-specific mastery counts against the global
+ * mastery for a dimension, and its effect on the weakness boost.
+ */
+
+import {
+  blendConceptMastery,
+  calculateWeaknessBoost,
+} from '../../domain/services/card-selector.service'
+
+import type { DimensionMastery } from '../../shared/types/core'
+
+const strongGlobal: DimensionMastery = { accuracyEwma: 0.9, speedEwma: 0.8, recentCount: 40 }
+
+describe('CardSelector Service', () => {
+  describe('blendConceptMastery', () => {
+    it('should use the global mastery without concept mastery', () => {
+      expect(blendConceptMastery(strongGlobal)).toBe(strongGlobal)
+    })
+
+    it('should use the global mastery when the concept has no reviews', () => {
+      const concept = { accuracyEwma: 0.1, speedEwma: 0.1, recentCount: 0 }
+
+      expect(blendConceptMastery(strongGlobal, concept)).toBe(strongGlobal)
+    })
+
+    it('should weigh the concept mastery by its review count', () => {
+      const concept = { accuracyEwma: 0.4, speedEwma: 0.3, recentCount: 2 }
+
+      const blended = blendConceptMastery(strongGlobal, concept)
+
+      // 2 of 5 reviews: 0.4 * concept + 0.6 * global
+      expect(blended.accuracyEwma).toBeCloseTo(0.7, 5)
+      expect(blended.speedEwma).toBeCloseTo(0.6, 5)
+      expect(blended.recentCount).toBe(40)
+    })
+
+    it('should use the concept mastery alone after enough reviews', () => {
+      const concept = { accuracyEwma: 0.3, speedEwma: 0.4, recentCount: 12 }
+
+      expect(blendConceptMastery(strongGlobal, concept)).toEqual({
+        accuracyEwma: 0.3,
+        speedEwma: 0.4,
+        recentCount: 40,
+      })
+    })
+  })
+
+  describe('calculateWeaknessBoost', () => {
+    it('should boost a dimension that is strong globally but weak for the concept', () => {
+      const concept = { accuracyEwma: 0.3, speedEwma: 0.4, recentCount: 5 }
+
+      expect(calculateWeaknessBoost(strongGlobal)).toBe(0.9)
+      // Combined concept mastery: 0.7 * 0.3 + 0.3 * 0.4 = 0.33
+      expect(calculateWeaknessBoost(strongGlobal, concept)).toBeCloseTo(1.74, 5)
+    })
+  })
+})
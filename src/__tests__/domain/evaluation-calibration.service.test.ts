@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Unit tests for LLM evaluation calibration domain service
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Tests verdict resolution from human and LLM ratings, and the per-model
+ * and per-dimension agreement, bias and error figures.
+ */
+
+import {
+  calibrateEvaluations,
+  getVerdict,
+} from '../../domain/services/evaluation-calibration.service'
+import { asConceptId, asEventId, asVariantId } from '../../shared/types/branded'
+import { DimensionType } from '../../shared/types/core'
+
+import type { ReviewEvent, ReviewResultType } from '../../shared/types/core'
+
+/**
+ * Creates an event evaluated by an LLM with the given score and rating
+ */
+function evaluated(
+  id: string,
+  llmScore: number,
+  llmRating: ReviewResultType,
+  overrides: Partial<ReviewEvent> = {}
+): ReviewEvent {
+  return {
+    id: asEventId(id),
+    conceptId: asConceptId('concept-a'),
+    variantId: asVariantId('variant-a1'),
+    dimension: DimensionType.SCENARIO_APPLICATION,
+    difficulty: 3,
+    result: overrides.humanRating ?? llmRating,
+    timeMs: 30000,
+    hintsUsed: 0,
+    createdAt: new Date('2026-01-10T09:00:00Z'),
+    userResponse: 'An answer',
+    llmScore,
+    llmRating,
+    evaluationModel: 'gpt-4o-mini',
+    ...overrides,
+  }
+}
+
+describe('Evaluation Calibration Service', () => {
+  describe('getVerdict', () => {
+    it('should prefer the human rating over the LLM rating', () => {
+      expect(getVerdict(evaluated('e1', 0.8, 'good', { humanRating: 'again' }))).toBe('again')
+      expect(getVerdict(evaluated('e2', 0.8, 'good'))).toBe('good')
+    })
+  })
+
+  describe('calibrateEvaluations', () => {
+    it('should return nothing when no event was evaluated', () => {
+      const { llmScore: _score, ...unscored } = evaluated('e1', 0.5, 'hard')
+
+      expect(calibrateEvaluations([unscored])).toEqual([])
+    })
+
+    it('should measure agreement and bias against the verdict bands', () => {
+      const groups = calibrateEvaluations([
+        evaluated('e1', 0.8, 'good'),
+        evaluated('e2', 0.8, 'good', { humanRating: 'again' }),
+      ])
+
+      expect(groups).toHaveLength(2)
+      const summary = groups[0]
+      expect(summary?.dimension).toBeNull()
+      expect(summary?.count).toBe(2)
+      expect(summary?.overrideCount).toBe(1)
+      expect(summary?.agreement).toBe(0.5)
+      // Errors are 0 (good) and 0.6 (again band midpoint 0.2)
+      expect(summary?.bias).toBeCloseTo(0.3)
+      expect(summary?.meanAbsoluteError).toBeCloseTo(0.3)
+      expect(groups[1]?.dimension).toBe(DimensionType.SCENARIO_APPLICATION)
+    })
+
+    it('should count a human rating equal to the LLM rating as agreement', () => {
+      const [summary] = calibrateEvaluations([
+        evaluated('e1', 0.5, 'hard', { humanRating: 'hard' }),
+      ])
+
+      expect(summary?.overrideCount).toBe(0)
+      expect(summary?.agreement).toBe(1)
+    })
+
+    it('should group per model, busiest first, with unrecorded models as null', () => {
+      const { evaluationModel: _model, ...legacy } = evaluated('e3', 0.3, 'again')
+      const groups = calibrateEvaluations([
+        legacy,
+        evaluated('e1', 0.95, 'easy', { dimension: DimensionType.DEFINITION_RECALL }),
+        evaluated('e2', 0.6, 'hard', { humanRating: 'good' }),
+      ])
+
+      expect(groups.map((g) => [g.model, g.dimension])).toEqual([
+        ['gpt-4o-mini', null],
+        ['gpt-4o-mini', DimensionType.DEFINITION_RECALL],
+        ['gpt-4o-mini', DimensionType.SCENARIO_APPLICATION],
+        [null, null],
+        [null, DimensionType.SCENARIO_APPLICATION],
+      ])
+      expect(groups[2]?.bias).toBeCloseTo(-0.2)
+    })
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Unit tests for event log replay domain service
+ * @lastmodified 2026-01-27T00:00:00Z
+ *
+ * Tests deterministic mastery and schedule reconstruction from review events,
+ * the stored-versus-replayed diff used for dry runs, and scoped replays that
+ * rebuild only the rows depending on some events.
+ */
+
+import {
+  diffReplay,
+  isEventInScope,
+  replayEventLog,
+  replayMasteryFromEvents,
+  replayScopeOf,
+  replaySchedulesFromEvents,
+  restrictDiffToScope,
+} from '../../domain/services/event-replay.service'
+import { FSRSScheduler } from '../../domain/services/fsrs-scheduler.service'
+import {
+  createInitialMastery,
+  createMasteryConfig,
+  DEFAULT_MASTERY_CONFIG,
+  replayMastery,
+} from '../../domain/services/mastery-calculator.service'
+import { SM2Scheduler } from '../../domain/services/scheduler.service'
+import { asConceptId, asEventId, asVariantId } from '../../shared/types/branded'
+import { DimensionType } from '../../shared/types/core'
+
+import type { ReplaySnapshot } from '../../domain/services/event-replay.service'
+import type { ReviewEvent, ReviewResultType } from '../../shared/types/core'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const start = new Date('2026-01-01T09:00:00Z').getTime()
+
+/**
+ * Creates a review event on the given day
+ */
+function event(
+  id: string,
+  day: number,
+  result: ReviewResultType,
+  overrides: Partial<ReviewEvent> = {}
+): ReviewEvent {
+  return {
+    id: asEventId(id),
+    conceptId: asConceptId('concept-a'),
+    variantId: asVariantId('variant-a1'),
+    dimension: DimensionType.DEFINITION_RECALL,
+    difficulty: 2,
+    result,
+    timeMs: 8000,
+    hintsUsed: 0,
+    createdAt: new Date(start + day * MS_PER_DAY),
+    ...overrides,
+  }
+}
+
+describe('Event Replay Service', () => {
+  const events: ReviewEvent[] = [
+    event('e1', 0, 'good'),
+    event('e2', 0, 'hard', {
+      variantId: asVariantId('variant-b1'),
+      conceptId: asConceptId('concept-b'),
+      dimension: DimensionType.CLOZE_FILL,
+    }),
+    event('e3', 2, 'again'),
+    event('e4', 3, 'easy', { variantId: asVariantId('variant-a2') }),
+    event('e5', 5, 'good'),
+  ]
+
+  describe('replayMasteryFromEvents', () => {
+    it('should fold each dimension in chronological order', () => {
+      const { mastery } = replayMasteryFromEvents(events, DEFAULT_MASTERY_CONFIG)
+      const definitionEvents = events.filter(
+        (e) => e.dimension === DimensionType.DEFINITION_RECALL
+      )
+      expect(mastery[DimensionType.DEFINITION_RECALL]).toEqual(replayMastery(definitionEvents))
+    })
+
+    it('should leave dimensions without events at the initial mastery', () => {
+      const { mastery } = replayMasteryFromEvents(events, DEFAULT_MASTERY_CONFIG)
+      expect(mastery[DimensionType.SCENARIO_APPLICATION]).toEqual(createInitialMastery())
+    })
+
+    it('should build a profile per reviewed concept', () => {
+      const { conceptMastery } = replayMasteryFromEvents(events, DEFAULT_MASTERY_CONFIG)
+      expect([...conceptMastery.keys()].sort()).toEqual(['concept-a', 'concept-b'])
+      expect(conceptMastery.get(asConceptId('concept-b'))?.cloze_fill.recentCount).toBe(1)
+    })
+
+    it('should be independent of input order', () => {
+      const shuffled = [...events].reverse()
+      expect(replayMasteryFromEvents(shuffled, DEFAULT_MASTERY_CONFIG)).toEqual(
+        replayMasteryFromEvents(events, DEFAULT_MASTERY_CONFIG)
+      )
+    })
+
+    it('should use the given configuration', () => {
+      const config = createMasteryConfig({ ewmaAlpha: 0.5, targetTimes: {} })
+      const fast = replayMasteryFromEvents(events, config).mastery
+      const slow = replayMasteryFromEvents(events, DEFAULT_MASTERY_CONFIG).mastery
+      expect(fast.definition_recall.accuracyEwma).not.toBeCloseTo(
+        slow.definition_recall.accuracyEwma,
+        5
+      )
+    })
+  })
+
+  describe('replaySchedulesFromEvents', () => {
+    it('should produce one schedule per reviewed variant', () => {
+      const schedules = replaySchedulesFromEvents(events, SM2Scheduler)
+      expect(schedules.map((s) => s.variantId)).toEqual(['variant-a1', 'variant-a2', 'variant-b1'])
+    })
+
+    it('should schedule from the time of the last review', () => {
+      const schedules = replaySchedulesFromEvents(events, SM2Scheduler)
+      const a1 = schedules.find((s) => s.variantId === 'variant-a1')
+      const lastReview = start + 5 * MS_PER_DAY
+      expect(a1?.dueAt.getTime()).toBe(lastReview + (a1?.intervalDays ?? 0) * MS_PER_DAY)
+    })
+
+    it('should match stepping the scheduler review by review', () => {
+      const a1Events = events.filter((e) => e.variantId === 'variant-a1')
+      let expected = SM2Scheduler.createInitialSchedule(
+        asConceptId('concept-a'),
+        asVariantId('variant-a1')
+      )
+      for (const e of a1Events) {
+        expected = SM2Scheduler.scheduleNextReview(expected, e.result, e.createdAt)
+      }
+      const schedules = replaySchedulesFromEvents(events, SM2Scheduler)
+      expect(schedules[0]).toEqual(expected)
+    })
+
+    it('should carry FSRS memory state when replaying with FSRS', () => {
+      const schedules = replaySchedulesFromEvents(events, FSRSScheduler)
+      expect(schedules.every((s) => s.fsrs !== undefined)).toBe(true)
+    })
+  })
+
+  describe('diffReplay', () => {
+    const replayed = replayEventLog(events, DEFAULT_MASTERY_CONFIG, SM2Scheduler)
+
+    it('should report the number of events replayed', () => {
+      expect(replayed.eventCount).toBe(5)
+    })
+
+    it('should report no changes when stored state matches', () => {
+      const diff = diffReplay(replayed, replayEventLog(events, DEFAULT_MASTERY_CONFIG, SM2Scheduler))
+      expect(diff.masteryChanges).toHaveLength(0)
+      expect(diff.conceptMasteryChanges).toHaveLength(0)
+      expect(diff.scheduleChanges).toHaveLength(0)
+    })
+
+    it('should report changed global mastery', () => {
+      const stored: ReplaySnapshot = {
+        ...replayed,
+        mastery: { ...replayed.mastery, definition_recall: createInitialMastery() },
+      }
+      const diff = diffReplay(stored, replayed)
+      expect(diff.masteryChanges).toHaveLength(1)
+      expect(diff.masteryChanges[0]?.dimension).toBe(DimensionType.DEFINITION_RECALL)
+      expect(diff.masteryChanges[0]?.after).toEqual(replayed.mastery.definition_recall)
+    })
+
+    it('should reset concept mastery that has no events', () => {
+      const orphan = replayed.conceptMastery.get(asConceptId('concept-a'))
+      if (!orphan) throw new Error('expected concept-a profile')
+      const stored: ReplaySnapshot = {
+        ...replayed,
+        conceptMastery: new Map([...replayed.conceptMastery, [asConceptId('concept-x'), orphan]]),
+      }
+      const diff = diffReplay(stored, replayed)
+      expect(diff.conceptMasteryChanges.every((c) => c.conceptId === 'concept-x')).toBe(true)
+      expect(diff.conceptMasteryChanges[0]?.after).toEqual(createInitialMastery())
+    })
+
+    it('should leave schedules of variants without events untouched', () => {
+      const withoutA2 = events.filter((e) => e.variantId !== 'variant-a2')
+      const diff = diffReplay(
+        replayed,
+        replayEventLog(withoutA2, DEFAULT_MASTERY_CONFIG, SM2Scheduler)
+      )
+      expect(diff.scheduleChanges.map((c) => c.variantId)).not.toContain('variant-a2')
+    })
+
+    it('should add schedules missing from stored state', () => {
+      const stored: ReplaySnapshot = { ...replayed, schedules: [] }
+      const diff = diffReplay(stored, replayed)
+      expect(diff.scheduleChanges).toHaveLength(3)
+      expect(diff.scheduleChanges.every((c) => c.before === null)).toBe(true)
+    })
+
+    it('should detect a changed due date', () => {
+      const [first, ...rest] = replayed.schedules
+      if (!first) throw new Error('expected a schedule')
+      const moved = { ...first, dueAt: new Date(first.dueAt.getTime() + MS_PER_DAY) }
+      const diff = diffReplay({ ...replayed, schedules: [moved, ...rest] }, replayed)
+      expect(diff.scheduleChanges.map((c) => c.variantId)).toEqual([first.variantId])
+    })
+
+    it('should ignore due dates a few milliseconds apart', () => {
+      const [first, ...rest] = replayed.schedules
+      if (!first) throw new Error('expected a schedule')
+      const stamped = { ...first, dueAt: new Date(first.dueAt.getTime() + 3) }
+      const diff = diffReplay({ ...replayed, schedules: [stamped, ...rest] }, replayed)
+      expect(diff.scheduleChanges).toHaveLength(0)
+    })
+  })
+
+  describe('scoped replay', () => {
+    const overridden = event('e3', 2, 'good')
+    const scope = replayScopeOf([overridden])
+    const stored = replayEventLog(events, DEFAULT_MASTERY_CONFIG, SM2Scheduler)
+
+    it('should cover the variant, concept and dimension of the events', () => {
+      expect([...scope.variantIds]).toEqual(['variant-a1'])
+      expect([...scope.dimensions]).toEqual([DimensionType.DEFINITION_RECALL])
+      expect([...(scope.conceptDimensions.get(asConceptId('concept-a')) ?? [])]).toEqual([
+        DimensionType.DEFINITION_RECALL,
+      ])
+    })
+
+    it('should replay the events of the dimension and of the variant', () => {
+      const moved = event('e6', 6, 'good', { dimension: DimensionType.DISCRIMINATION })
+
+      expect(events.filter((e) => isEventInScope(e, scope)).map((e) => e.id)).toEqual([
+        'e1',
+        'e3',
+        'e4',
+        'e5',
+      ])
+      expect(isEventInScope(moved, scope)).toBe(true)
+    })
+
+    it('should rebuild the rows of the scope as a full replay would', () => {
+      const corrected = events.map((e) => (e.id === overridden.id ? overridden : e))
+      const full = replayEventLog(corrected, DEFAULT_MASTERY_CONFIG, SM2Scheduler)
+      const scoped = replayEventLog(
+        corrected.filter((e) => isEventInScope(e, scope)),
+        DEFAULT_MASTERY_CONFIG,
+        SM2Scheduler
+      )
+
+      const diff = restrictDiffToScope(diffReplay(stored, scoped), scope)
+
+      expect(diff.masteryChanges.map((c) => c.after)).toEqual([
+        full.mastery[DimensionType.DEFINITION_RECALL],
+      ])
+      expect(diff.conceptMasteryChanges.map((c) => c.after)).toEqual([
+        full.conceptMastery.get(asConceptId('concept-a'))?.[DimensionType.DEFINITION_RECALL],
+      ])
+      expect(diff.scheduleChanges.map((c) => c.after)).toEqual(
+        full.schedules.filter((s) => s.variantId === 'variant-a1')
+      )
+    })
+
+    it('should drop changes to rows outside the scope', () => {
+      const scoped = replayEventLog(
+        events.filter((e) => isEventInScope(e, scope)),
+        DEFAULT_MASTERY_CONFIG,
+        SM2Scheduler
+      )
+      const unscoped = diffReplay(stored, scoped)
+
+      // Without the cloze event, a plain diff would reset concept-b and its dimension
+      expect(unscoped.masteryChanges.map((c) => c.dimension)).toContain(DimensionType.CLOZE_FILL)
+
+      const diff = restrictDiffToScope(unscoped, scope)
+
+      expect(diff.masteryChanges).toHaveLength(0)
+      expect(diff.conceptMasteryChanges).toHaveLength(0)
+      expect(diff.scheduleChanges).toHaveLength(0)
+    })
+  })
+})
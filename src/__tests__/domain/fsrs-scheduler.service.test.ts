@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Unit tests for FSRS scheduler domain service
+ * @lastmodified 2026-01-23T00:00:00Z
+ *
+ * Tests the forgetting curve, stability/difficulty updates, interval
+ * calculation, SM-2 conversion, and scheduler resolution by algorithm.
+ */
+
+import {
+  calculateRetrievability,
+  calculateFsrsInterval,
+  updateFsrsState,
+  easeToFsrsDifficulty,
+  fsrsDifficultyToEase,
+  createFSRSScheduler,
+  DEFAULT_FSRS_PARAMETERS,
+  FSRSScheduler,
+} from '../../domain/services/fsrs-scheduler.service'
+import { getScheduler, SM2Scheduler } from '../../domain/services/scheduler.service'
+import { asConceptId, asVariantId } from '../../shared/types/branded'
+
+import type { FsrsMemoryState, ScheduleEntry } from '../../shared/types/core'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+describe('FSRS Scheduler Service', () => {
+  const testConceptId = asConceptId('test-concept-123')
+  const testVariantId = asVariantId('test-variant-123')
+  const now = new Date('2026-01-20T12:00:00Z')
+
+  describe('calculateRetrievability', () => {
+    it('should be 1 immediately after a review', () => {
+      expect(calculateRetrievability(0, 10)).toBe(1)
+    })
+
+    it('should be 0.9 when elapsed time equals stability', () => {
+      expect(calculateRetrievability(10, 10)).toBeCloseTo(0.9, 5)
+    })
+
+    it('should decrease as time passes', () => {
+      expect(calculateRetrievability(20, 10)).toBeLessThan(calculateRetrievability(5, 10))
+    })
+
+    it('should return 0 for non-positive stability', () => {
+      expect(calculateRetrievability(1, 0)).toBe(0)
+    })
+  })
+
+  describe('calculateFsrsInterval', () => {
+    it('should equal stability at 90% desired retention', () => {
+      expect(calculateFsrsInterval(10)).toBe(10)
+    })
+
+    it('should be shorter for higher desired retention', () => {
+      const strict = calculateFsrsInterval(10, {
+        ...DEFAULT_FSRS_PARAMETERS,
+        desiredRetention: 0.95,
+      })
+      expect(strict).toBeLessThan(10)
+    })
+
+    it('should never be less than 1 day', () => {
+      expect(calculateFsrsInterval(0.1)).toBe(1)
+    })
+
+    it('should respect the maximum interval', () => {
+      const capped = calculateFsrsInterval(1_000_000, {
+        ...DEFAULT_FSRS_PARAMETERS,
+        maximumIntervalDays: 365,
+      })
+      expect(capped).toBe(365)
+    })
+  })
+
+  describe('updateFsrsState', () => {
+    describe('first review', () => {
+      it('should use the initial stability for the grade', () => {
+        const state = updateFsrsState(undefined, 'good', now)
+        expect(state.stability).toBeCloseTo(DEFAULT_FSRS_PARAMETERS.weights[2] ?? 0, 5)
+      })
+
+      it('should give easier grades higher stability', () => {
+        const again = updateFsrsState(undefined, 'again', now)
+        const easy = updateFsrsState(undefined, 'easy', now)
+        expect(easy.stability).toBeGreaterThan(again.stability)
+      })
+
+      it('should give easier grades lower difficulty', () => {
+        const again = updateFsrsState(undefined, 'again', now)
+        const easy = updateFsrsState(undefined, 'easy', now)
+        expect(easy.difficulty).toBeLessThan(again.difficulty)
+      })
+
+      it('should record the review time', () => {
+        const state = updateFsrsState(undefined, 'good', now)
+        expect(state.lastReviewedAt).toBe(now)
+      })
+    })
+
+    describe('subsequent reviews', () => {
+      const previous: FsrsMemoryState = {
+        stability: 10,
+        difficulty: 5,
+        lastReviewedAt: new Date(now.getTime() - 10 * MS_PER_DAY),
+      }
+
+      it('should increase stability on successful recall', () => {
+        const state = updateFsrsState(previous, 'good', now)
+        expect(state.stability).toBeGreaterThan(previous.stability)
+      })
+
+      it('should increase stability more for easy than hard', () => {
+        const hard = updateFsrsState(previous, 'hard', now)
+        const easy = updateFsrsState(previous, 'easy', now)
+        expect(easy.stability).toBeGreaterThan(hard.stability)
+      })
+
+      it('should not increase stability on a lapse', () => {
+        const state = updateFsrsState(previous, 'again', now)
+        expect(state.stability).toBeLessThanOrEqual(previous.stability)
+      })
+
+      it('should increase difficulty on a lapse', () => {
+        const state = updateFsrsState(previous, 'again', now)
+        expect(state.difficulty).toBeGreaterThan(previous.difficulty)
+      })
+
+      it('should keep difficulty within 1-10', () => {
+        let state: FsrsMemoryState = previous
+        for (let i = 0; i < 50; i++) {
+          state = updateFsrsState(state, 'again', now)
+        }
+        expect(state.difficulty).toBeLessThanOrEqual(10)
+        expect(state.difficulty).toBeGreaterThanOrEqual(1)
+      })
+    })
+  })
+
+  describe('FSRSScheduler', () => {
+    const initial = FSRSScheduler.createInitialSchedule(testConceptId, testVariantId)
+
+    it('should identify itself as fsrs', () => {
+      expect(FSRSScheduler.algorithm).toBe('fsrs')
+    })
+
+    it('should create initial schedules without memory state', () => {
+      expect(initial.fsrs).toBeUndefined()
+      expect(initial.variantId).toBe(testVariantId)
+    })
+
+    it('should set memory state after the first review', () => {
+      const next = FSRSScheduler.scheduleNextReview(initial, 'good', now)
+      expect(next.fsrs).toBeDefined()
+      expect(next.fsrs?.lastReviewedAt).toBe(now)
+    })
+
+    it('should schedule the due date one interval after the review', () => {
+      const next = FSRSScheduler.scheduleNextReview(initial, 'good', now)
+      expect(next.dueAt.getTime()).toBe(now.getTime() + next.intervalDays * MS_PER_DAY)
+    })
+
+    it('should grow intervals over consecutive good reviews', () => {
+      const first = FSRSScheduler.scheduleNextReview(initial, 'good', now)
+      const second = FSRSScheduler.scheduleNextReview(first, 'good', first.dueAt)
+      expect(second.intervalDays).toBeGreaterThan(first.intervalDays)
+    })
+
+    it('should honor custom parameters', () => {
+      const lenient = createFSRSScheduler({ ...DEFAULT_FSRS_PARAMETERS, desiredRetention: 0.8 })
+      const strict = createFSRSScheduler({ ...DEFAULT_FSRS_PARAMETERS, desiredRetention: 0.97 })
+      const reviewed = FSRSScheduler.scheduleNextReview(initial, 'easy', now)
+      const lenientNext = lenient.scheduleNextReview(reviewed, 'good', reviewed.dueAt)
+      const strictNext = strict.scheduleNextReview(reviewed, 'good', reviewed.dueAt)
+      expect(lenientNext.intervalDays).toBeGreaterThan(strictNext.intervalDays)
+    })
+  })
+
+  describe('schedule conversion', () => {
+    const sm2Entry: ScheduleEntry = {
+      variantId: testVariantId,
+      conceptId: testConceptId,
+      dueAt: new Date('2026-02-01T00:00:00Z'),
+      intervalDays: 12,
+      easeFactor: 2.5,
+    }
+
+    it('should derive stability from the SM-2 interval', () => {
+      const converted = FSRSScheduler.convertSchedule(sm2Entry)
+      expect(converted.fsrs?.stability).toBe(12)
+    })
+
+    it('should place the last review one interval before the due date', () => {
+      const converted = FSRSScheduler.convertSchedule(sm2Entry)
+      expect(converted.fsrs?.lastReviewedAt.getTime()).toBe(
+        sm2Entry.dueAt.getTime() - 12 * MS_PER_DAY
+      )
+    })
+
+    it('should preserve the due date', () => {
+      const converted = FSRSScheduler.convertSchedule(sm2Entry)
+      expect(converted.dueAt).toBe(sm2Entry.dueAt)
+    })
+
+    it('should drop memory state when converting back to SM-2', () => {
+      const converted = SM2Scheduler.convertSchedule(FSRSScheduler.convertSchedule(sm2Entry))
+      expect(converted.fsrs).toBeUndefined()
+      expect(converted.easeFactor).toBe(2.5)
+    })
+
+    it('should map low ease to high difficulty', () => {
+      expect(easeToFsrsDifficulty(1.3)).toBe(10)
+      expect(easeToFsrsDifficulty(2.5)).toBeLessThan(easeToFsrsDifficulty(1.8))
+    })
+
+    it('should round-trip ease through difficulty', () => {
+      expect(fsrsDifficultyToEase(easeToFsrsDifficulty(1.9))).toBeCloseTo(1.9, 5)
+    })
+  })
+
+  describe('getScheduler', () => {
+    it('should resolve sm2', () => {
+      expect(getScheduler('sm2')).toBe(SM2Scheduler)
+    })
+
+    it('should resolve fsrs', () => {
+      expect(getScheduler('fsrs')).toBe(FSRSScheduler)
+    })
+  })
+})
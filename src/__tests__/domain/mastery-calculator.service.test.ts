@@ -1,9 +1,10 @@
 /**
  * @fileoverview Unit tests for MasteryCalculator domain service
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-26T00:00:00Z
  *
  * Tests EWMA calculations, rating-to-score mapping, speed scoring,
- * mastery updates, and dimension analysis functions.
+ * mastery updates, dimension analysis functions, settings-driven
+ * configuration, and replay from review events.
  */
 
 import {
@@ -15,10 +16,18 @@ import {
   isFragileConfidence,
   isWeakDimension,
   createInitialMastery,
+  createMasteryConfig,
+  replayMastery,
+  DEFAULT_MASTERY_CONFIG,
   MasteryCalculator,
 } from '../../domain/services/mastery-calculator.service'
+import {
+  analyzeWeaknesses,
+  getMinSampleSize,
+} from '../../domain/services/weakness-detector.service'
+import { DimensionType } from '../../shared/types/core'
 
-import type { DimensionMastery } from '../../shared/types/core'
+import type { DimensionMastery, MasteryProfile } from '../../shared/types/core'
 
 describe('MasteryCalculator Service', () => {
   describe('updateEwma', () => {
@@ -495,6 +504,101 @@ describe('MasteryCalculator Service', () => {
     })
   })
 
+  describe('createMasteryConfig', () => {
+    it('should use settings values', () => {
+      const config = createMasteryConfig({
+        ewmaAlpha: 0.3,
+        targetTimes: { 1: 2000, 2: 4000, 3: 8000, 4: 16000, 5: 32000 },
+      })
+      expect(config.ewmaAlpha).toBe(0.3)
+      expect(config.targetTimesMs[3]).toBe(8000)
+    })
+
+    it('should fall back to defaults for invalid values', () => {
+      const config = createMasteryConfig({ ewmaAlpha: 0, targetTimes: { 1: -5, 2: 0 } })
+      expect(config).toEqual(DEFAULT_MASTERY_CONFIG)
+    })
+
+    it('should fill missing difficulty levels from defaults', () => {
+      const config = createMasteryConfig({ ewmaAlpha: 0.15, targetTimes: { 5: 90000 } })
+      expect(config.targetTimesMs[1]).toBe(5000)
+      expect(config.targetTimesMs[5]).toBe(90000)
+    })
+  })
+
+  describe('configured scoring', () => {
+    const fastConfig = createMasteryConfig({ ewmaAlpha: 0.5, targetTimes: { 3: 10000 } })
+
+    it('should score speed against the configured target time', () => {
+      // 10000ms at target 10000ms: 1 - 1/2 = 0.5 (default target 20000ms gives 0.75)
+      expect(calculateSpeedScore(10000, 3, fastConfig)).toBeCloseTo(0.5, 5)
+      expect(calculateSpeedScore(10000, 3)).toBeCloseTo(0.75, 5)
+    })
+
+    it('should update mastery with the configured alpha', () => {
+      // 0.5 * 0.5 + 0.5 * 1.0 = 0.75
+      const result = updateMastery(createInitialMastery(), 'easy', 10000, 3, fastConfig)
+      expect(result.accuracyEwma).toBeCloseTo(0.75, 5)
+    })
+  })
+
+  describe('replayMastery', () => {
+    const events = [
+      { result: 'good' as const, timeMs: 8000, difficulty: 2 as const },
+      { result: 'again' as const, timeMs: 30000, difficulty: 3 as const },
+      { result: 'easy' as const, timeMs: 3000, difficulty: 1 as const },
+    ]
+
+    it('should return initial mastery without events', () => {
+      expect(replayMastery([])).toEqual(createInitialMastery())
+    })
+
+    it('should match applying updateMastery in order', () => {
+      let expected = createInitialMastery()
+      for (const event of events) {
+        expected = updateMastery(expected, event.result, event.timeMs, event.difficulty)
+      }
+      expect(replayMastery(events)).toEqual(expected)
+    })
+
+    it('should count every event', () => {
+      expect(replayMastery(events).recentCount).toBe(3)
+    })
+
+    it('should reflect a different configuration', () => {
+      const config = createMasteryConfig({ ewmaAlpha: 0.5, targetTimes: {} })
+      expect(replayMastery(events, config).accuracyEwma).not.toBeCloseTo(
+        replayMastery(events).accuracyEwma,
+        5
+      )
+    })
+  })
+
+  describe('weakness detection sample size', () => {
+    it('should require five reviews at the default alpha', () => {
+      expect(getMinSampleSize(DEFAULT_MASTERY_CONFIG.ewmaAlpha)).toBe(5)
+    })
+
+    it('should require fewer reviews at a higher alpha', () => {
+      expect(getMinSampleSize(0.5)).toBe(1)
+      expect(getMinSampleSize(0.3)).toBe(2)
+    })
+
+    it('should apply the configured alpha in analyzeWeaknesses', () => {
+      const weak: DimensionMastery = { accuracyEwma: 0.3, speedEwma: 0.3, recentCount: 2 }
+      const profile = Object.fromEntries(
+        Object.values(DimensionType).map((d) => [d, createInitialMastery()])
+      ) as MasteryProfile
+      const withWeak = { ...profile, [DimensionType.CLOZE_FILL]: weak }
+
+      expect(analyzeWeaknesses(withWeak).primaryWeakness).toBeNull()
+      const config = createMasteryConfig({ ewmaAlpha: 0.5, targetTimes: {} })
+      expect(analyzeWeaknesses(withWeak, config).primaryWeakness?.dimension).toBe(
+        DimensionType.CLOZE_FILL
+      )
+    })
+  })
+
   describe('MasteryCalculator namespace', () => {
     it('should expose all public functions', () => {
       expect(MasteryCalculator.updateEwma).toBe(updateEwma)
@@ -505,6 +609,8 @@ describe('MasteryCalculator Service', () => {
       expect(MasteryCalculator.isFragileConfidence).toBe(isFragileConfidence)
       expect(MasteryCalculator.isWeakDimension).toBe(isWeakDimension)
       expect(MasteryCalculator.createInitialMastery).toBe(createInitialMastery)
+      expect(MasteryCalculator.createMasteryConfig).toBe(createMasteryConfig)
+      expect(MasteryCalculator.replayMastery).toBe(replayMastery)
     })
 
     it('should expose constants', () => {
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Unit tests for review queue builder domain service
+ * @lastmodified 2026-01-25T00:00:00Z
+ *
+ * Tests concept grouping, review-before-new ordering, the daily new-concept
+ * allowance, and day boundary calculation.
+ */
+
+import {
+  buildReviewQueue,
+  calculateNewConceptsRemaining,
+  getStartOfDay,
+} from '../../domain/services/review-queue.service'
+import { asConceptId, asVariantId } from '../../shared/types/branded'
+
+import type { ConceptId } from '../../shared/types/branded'
+import type { ScheduleEntry } from '../../shared/types/core'
+
+/**
+ * Creates a due schedule for a variant of a concept
+ */
+function due(conceptId: string, variantId: string, dueAt: string): ScheduleEntry {
+  return {
+    variantId: asVariantId(variantId),
+    conceptId: asConceptId(conceptId),
+    dueAt: new Date(dueAt),
+    intervalDays: 1,
+    easeFactor: 2.5,
+  }
+}
+
+describe('Review Queue Service', () => {
+  // Ordered by due date, as returned by ScheduleRepository.findDue
+  const dueSchedules: ScheduleEntry[] = [
+    due('new-a', 'new-a-1', '2026-01-01T00:00:00Z'),
+    due('studied-a', 'studied-a-1', '2026-01-02T00:00:00Z'),
+    due('new-b', 'new-b-1', '2026-01-03T00:00:00Z'),
+    due('studied-a', 'studied-a-2', '2026-01-04T00:00:00Z'),
+    due('new-c', 'new-c-1', '2026-01-05T00:00:00Z'),
+    due('studied-b', 'studied-b-1', '2026-01-06T00:00:00Z'),
+  ]
+  const reviewed = new Set<ConceptId>([asConceptId('studied-a'), asConceptId('studied-b')])
+
+  describe('buildReviewQueue', () => {
+    it('should group due variants by concept', () => {
+      const queue = buildReviewQueue(dueSchedules, reviewed, 10)
+      const studiedA = queue.concepts.find((c) => c.conceptId === 'studied-a')
+      expect(studiedA?.schedules.map((s) => s.variantId)).toEqual(['studied-a-1', 'studied-a-2'])
+    })
+
+    it('should place studied concepts before new concepts', () => {
+      const queue = buildReviewQueue(dueSchedules, reviewed, 10)
+      expect(queue.concepts.map((c) => c.conceptId)).toEqual([
+        'studied-a',
+        'studied-b',
+        'new-a',
+        'new-b',
+        'new-c',
+      ])
+    })
+
+    it('should flag new concepts', () => {
+      const queue = buildReviewQueue(dueSchedules, reviewed, 10)
+      expect(queue.concepts.filter((c) => c.isNew).map((c) => c.conceptId)).toEqual([
+        'new-a',
+        'new-b',
+        'new-c',
+      ])
+    })
+
+    it('should admit at most the remaining number of new concepts, oldest first', () => {
+      const queue = buildReviewQueue(dueSchedules, reviewed, 2)
+      expect(queue.newCount).toBe(2)
+      expect(queue.concepts.filter((c) => c.isNew).map((c) => c.conceptId)).toEqual([
+        'new-a',
+        'new-b',
+      ])
+    })
+
+    it('should admit no new concepts when the allowance is used up', () => {
+      const queue = buildReviewQueue(dueSchedules, reviewed, 0)
+      expect(queue.newCount).toBe(0)
+      expect(queue.concepts.every((c) => !c.isNew)).toBe(true)
+    })
+
+    it('should count due variants of studied concepts as reviews', () => {
+      const queue = buildReviewQueue(dueSchedules, reviewed, 0)
+      expect(queue.reviewCount).toBe(3)
+    })
+
+    it('should count due variants of admitted new concepts as new cards', () => {
+      const schedules = [...dueSchedules, due('new-a', 'new-a-2', '2026-01-07T00:00:00Z')]
+      const queue = buildReviewQueue(schedules, reviewed, 2)
+      expect(queue.newCount).toBe(2)
+      expect(queue.newCardCount).toBe(3)
+    })
+
+    it('should return an empty queue when nothing is due', () => {
+      const queue = buildReviewQueue([], reviewed, 10)
+      expect(queue.concepts).toHaveLength(0)
+      expect(queue.reviewCount).toBe(0)
+      expect(queue.newCount).toBe(0)
+      expect(queue.newCardCount).toBe(0)
+    })
+  })
+
+  describe('calculateNewConceptsRemaining', () => {
+    it('should subtract concepts introduced today from the limit', () => {
+      expect(calculateNewConceptsRemaining(10, 3)).toBe(7)
+    })
+
+    it('should never be negative', () => {
+      expect(calculateNewConceptsRemaining(10, 12)).toBe(0)
+    })
+  })
+
+  describe('getStartOfDay', () => {
+    it('should return local midnight on the same day', () => {
+      const now = new Date(2026, 0, 20, 15, 30, 45, 123)
+      expect(getStartOfDay(now)).toEqual(new Date(2026, 0, 20, 0, 0, 0, 0))
+    })
+
+    it('should not mutate the input', () => {
+      const now = new Date(2026, 0, 20, 15, 30)
+      getStartOfDay(now)
+      expect(now.getHours()).toBe(15)
+    })
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Unit tests for scheduler optimizer domain service
+ * @lastmodified 2026-01-24T00:00:00Z
+ *
+ * Tests recall prediction scoring over review histories, SM-2 and FSRS
+ * parameter fitting, and the insufficient-data guard.
+ */
+
+import { FSRSScheduler } from '../../domain/services/fsrs-scheduler.service'
+import {
+  evaluateScheduler,
+  optimizeSchedulerParameters,
+  OPTIMIZER_CONFIG,
+} from '../../domain/services/scheduler-optimizer.service'
+import {
+  createSM2Scheduler,
+  DEFAULT_SM2_PARAMETERS,
+  getScheduler,
+  SM2Scheduler,
+} from '../../domain/services/scheduler.service'
+import { asConceptId, asEventId, asVariantId } from '../../shared/types/branded'
+import { DimensionType } from '../../shared/types/core'
+
+import type { ReviewEvent, ReviewResultType } from '../../shared/types/core'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const start = new Date('2026-01-01T09:00:00Z').getTime()
+
+/**
+ * Builds a review history where every variant is reviewed once a day and the
+ * results follow the given pattern (one entry per day).
+ */
+function buildHistory(variantCount: number, pattern: ReviewResultType[]): ReviewEvent[] {
+  const events: ReviewEvent[] = []
+
+  for (let v = 0; v < variantCount; v++) {
+    pattern.forEach((result, day) => {
+      events.push({
+        id: asEventId(`event-${v}-${day}`),
+        conceptId: asConceptId(`concept-${v}`),
+        variantId: asVariantId(`variant-${v}`),
+        dimension: DimensionType.DEFINITION_RECALL,
+        difficulty: 3,
+        result,
+        timeMs: 5000,
+        hintsUsed: 0,
+        createdAt: new Date(start + day * MS_PER_DAY + v * 1000),
+      })
+    })
+  }
+
+  return events
+}
+
+describe('Scheduler Optimizer Service', () => {
+  // Frequent lapses at one-day gaps: SM-2's long intervals overestimate recall
+  const forgetfulHistory = buildHistory(10, ['good', 'again', 'good', 'again', 'good', 'again'])
+
+  describe('evaluateScheduler', () => {
+    it('should not predict the first review of a variant', () => {
+      const metrics = evaluateScheduler(SM2Scheduler, buildHistory(3, ['good']))
+      expect(metrics.count).toBe(0)
+    })
+
+    it('should predict every review after the first', () => {
+      const metrics = evaluateScheduler(SM2Scheduler, forgetfulHistory)
+      expect(metrics.count).toBe(10 * 5)
+    })
+
+    it('should be independent of event order', () => {
+      const shuffled = [...forgetfulHistory].reverse()
+      expect(evaluateScheduler(SM2Scheduler, shuffled)).toEqual(
+        evaluateScheduler(SM2Scheduler, forgetfulHistory)
+      )
+    })
+
+    it('should score a reliable history better than a forgetful one', () => {
+      const reliable = buildHistory(10, ['good', 'good', 'good', 'good', 'good', 'good'])
+      expect(evaluateScheduler(SM2Scheduler, reliable).logLoss).toBeLessThan(
+        evaluateScheduler(SM2Scheduler, forgetfulHistory).logLoss
+      )
+    })
+
+    it('should report RMSE between 0 and 1', () => {
+      const metrics = evaluateScheduler(FSRSScheduler, forgetfulHistory)
+      expect(metrics.rmse).toBeGreaterThan(0)
+      expect(metrics.rmse).toBeLessThan(1)
+    })
+  })
+
+  describe('optimizeSchedulerParameters', () => {
+    it('should leave parameters unchanged with too little history', () => {
+      const result = optimizeSchedulerParameters('sm2', buildHistory(1, ['good', 'again']))
+      expect(result.before.count).toBeLessThan(OPTIMIZER_CONFIG.MIN_REVIEWS)
+      expect(result.improved).toBe(false)
+      expect(result.parameters).toEqual({})
+    })
+
+    it('should lower SM-2 log loss on a forgetful history', () => {
+      const result = optimizeSchedulerParameters('sm2', forgetfulHistory)
+      expect(result.improved).toBe(true)
+      expect(result.after.logLoss).toBeLessThan(result.before.logLoss)
+    })
+
+    it('should shorten SM-2 intervals when recall is overestimated', () => {
+      const result = optimizeSchedulerParameters('sm2', forgetfulHistory)
+      expect(result.parameters.sm2?.intervalModifier).toBeLessThan(
+        DEFAULT_SM2_PARAMETERS.intervalModifier
+      )
+    })
+
+    it('should lower FSRS log loss and keep user preferences', () => {
+      const result = optimizeSchedulerParameters('fsrs', forgetfulHistory)
+      expect(result.improved).toBe(true)
+      expect(result.after.logLoss).toBeLessThan(result.before.logLoss)
+      expect(result.parameters.fsrs?.weights).toHaveLength(17)
+      expect(result.parameters.fsrs?.desiredRetention).toBe(0.9)
+    })
+
+    it('should keep parameters for the other algorithm', () => {
+      const current = { sm2: DEFAULT_SM2_PARAMETERS }
+      const result = optimizeSchedulerParameters('fsrs', forgetfulHistory, current)
+      expect(result.parameters.sm2).toBe(DEFAULT_SM2_PARAMETERS)
+    })
+
+    it('should produce parameters whose metrics match the report', () => {
+      const result = optimizeSchedulerParameters('sm2', forgetfulHistory)
+      const fitted = getScheduler('sm2', result.parameters)
+      expect(evaluateScheduler(fitted, forgetfulHistory).logLoss).toBeCloseTo(
+        result.after.logLoss,
+        10
+      )
+    })
+  })
+
+  describe('parameterized SM-2', () => {
+    it('should scale successful intervals by the interval modifier', () => {
+      const scheduler = createSM2Scheduler({ ...DEFAULT_SM2_PARAMETERS, intervalModifier: 0.5 })
+      const initial = scheduler.createInitialSchedule(asConceptId('c'), asVariantId('v'))
+      const next = scheduler.scheduleNextReview({ ...initial, intervalDays: 10 }, 'good')
+      expect(next.intervalDays).toBe(12.5)
+    })
+
+    it('should return the default scheduler without fitted parameters', () => {
+      expect(getScheduler('sm2', {})).toBe(SM2Scheduler)
+    })
+  })
+})
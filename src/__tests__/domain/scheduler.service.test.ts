@@ -14,12 +14,13 @@ import {
   isOverdue,
   getOverdueDays,
 } from '../../domain/services/scheduler.service'
-import { asConceptId } from '../../shared/types/branded'
+import { asConceptId, asVariantId } from '../../shared/types/branded'
 
 import type { ScheduleEntry } from '../../shared/types/core'
 
 describe('Scheduler Service', () => {
   const testConceptId = asConceptId('test-concept-123')
+  const testVariantId = asVariantId('test-variant-123')
 
   describe('calculateNextInterval', () => {
     describe('good and easy responses', () => {
@@ -181,6 +182,7 @@ describe('Scheduler Service', () => {
 
   describe('scheduleNextReview', () => {
     const mockCurrent: ScheduleEntry = {
+      variantId: testVariantId,
       conceptId: testConceptId,
       dueAt: new Date('2025-01-15'),
       intervalDays: 7,
@@ -192,6 +194,11 @@ describe('Scheduler Service', () => {
       expect(result.conceptId).toBe(mockCurrent.conceptId)
     })
 
+    it('should preserve variantId', () => {
+      const result = scheduleNextReview(mockCurrent, 'good')
+      expect(result.variantId).toBe(mockCurrent.variantId)
+    })
+
     describe('interval updates', () => {
       it('should update interval based on good result', () => {
         const result = scheduleNextReview(mockCurrent, 'good')
@@ -299,7 +306,7 @@ describe('Scheduler Service', () => {
   describe('createInitialSchedule', () => {
     it('should set due date to now', () => {
       const before = Date.now()
-      const schedule = createInitialSchedule(testConceptId)
+      const schedule = createInitialSchedule(testConceptId, testVariantId)
       const after = Date.now()
 
       expect(schedule.dueAt.getTime()).toBeGreaterThanOrEqual(before)
@@ -307,29 +314,35 @@ describe('Scheduler Service', () => {
     })
 
     it('should set initial interval to 1 day', () => {
-      const schedule = createInitialSchedule(testConceptId)
+      const schedule = createInitialSchedule(testConceptId, testVariantId)
       expect(schedule.intervalDays).toBe(1)
     })
 
     it('should set default ease factor to 2.5', () => {
-      const schedule = createInitialSchedule(testConceptId)
+      const schedule = createInitialSchedule(testConceptId, testVariantId)
       expect(schedule.easeFactor).toBe(2.5)
     })
 
     it('should use the provided conceptId', () => {
       const customId = asConceptId('custom-concept-456')
-      const schedule = createInitialSchedule(customId)
+      const schedule = createInitialSchedule(customId, testVariantId)
       expect(schedule.conceptId).toBe(customId)
     })
 
+    it('should use the provided variantId', () => {
+      const customId = asVariantId('custom-variant-456')
+      const schedule = createInitialSchedule(testConceptId, customId)
+      expect(schedule.variantId).toBe(customId)
+    })
+
     it('should return different objects for each call', () => {
-      const first = createInitialSchedule(testConceptId)
-      const second = createInitialSchedule(testConceptId)
+      const first = createInitialSchedule(testConceptId, testVariantId)
+      const second = createInitialSchedule(testConceptId, testVariantId)
       expect(first).not.toBe(second)
     })
 
     it('should create schedule that is immediately due', () => {
-      const schedule = createInitialSchedule(testConceptId)
+      const schedule = createInitialSchedule(testConceptId, testVariantId)
       expect(isOverdue(schedule)).toBe(true)
     })
   })
@@ -337,6 +350,7 @@ describe('Scheduler Service', () => {
   describe('isOverdue', () => {
     it('should return true for past due date', () => {
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: new Date(Date.now() - 1000), // 1 second ago
         intervalDays: 1,
@@ -347,6 +361,7 @@ describe('Scheduler Service', () => {
 
     it('should return false for future due date', () => {
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: new Date(Date.now() + 86400000), // 1 day in future
         intervalDays: 1,
@@ -358,6 +373,7 @@ describe('Scheduler Service', () => {
     it('should return true for due date exactly now', () => {
       const now = new Date()
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: now,
         intervalDays: 1,
@@ -369,6 +385,7 @@ describe('Scheduler Service', () => {
 
     it('should return true for very old due date', () => {
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: new Date('2020-01-01'),
         intervalDays: 1,
@@ -379,6 +396,7 @@ describe('Scheduler Service', () => {
 
     it('should return false for far future due date', () => {
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: new Date('2099-12-31'),
         intervalDays: 1,
@@ -391,6 +409,7 @@ describe('Scheduler Service', () => {
   describe('getOverdueDays', () => {
     it('should return 0 for future due date', () => {
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: new Date(Date.now() + 86400000), // 1 day in future
         intervalDays: 1,
@@ -402,6 +421,7 @@ describe('Scheduler Service', () => {
     it('should return positive number for overdue schedule', () => {
       const fiveDaysAgo = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: fiveDaysAgo,
         intervalDays: 1,
@@ -412,6 +432,7 @@ describe('Scheduler Service', () => {
 
     it('should return approximately 0 for schedule due exactly now', () => {
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: new Date(),
         intervalDays: 1,
@@ -423,6 +444,7 @@ describe('Scheduler Service', () => {
     it('should handle fractional days correctly', () => {
       const twelvHoursAgo = new Date(Date.now() - 12 * 60 * 60 * 1000)
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: twelvHoursAgo,
         intervalDays: 1,
@@ -433,6 +455,7 @@ describe('Scheduler Service', () => {
 
     it('should return 0 for far future due date', () => {
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: new Date('2099-12-31'),
         intervalDays: 1,
@@ -444,6 +467,7 @@ describe('Scheduler Service', () => {
     it('should handle very old due dates', () => {
       const oneYearAgo = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)
       const schedule: ScheduleEntry = {
+        variantId: testVariantId,
         conceptId: testConceptId,
         dueAt: oneYearAgo,
         intervalDays: 1,
@@ -456,7 +480,7 @@ describe('Scheduler Service', () => {
   describe('integration scenarios', () => {
     describe('learning progression', () => {
       it('should show increasing intervals for consistent good performance', () => {
-        let schedule = createInitialSchedule(testConceptId)
+        let schedule = createInitialSchedule(testConceptId, testVariantId)
 
         // Simulate 5 consecutive good reviews
         const intervals: number[] = [schedule.intervalDays]
@@ -478,6 +502,7 @@ describe('Scheduler Service', () => {
       it('should show recovery after failure', () => {
         // Start with established schedule
         let schedule: ScheduleEntry = {
+          variantId: testVariantId,
           conceptId: testConceptId,
           dueAt: new Date(),
           intervalDays: 30,
@@ -500,7 +525,7 @@ describe('Scheduler Service', () => {
 
     describe('ease factor degradation', () => {
       it('should show declining ease factor with struggles', () => {
-        let schedule = createInitialSchedule(testConceptId)
+        let schedule = createInitialSchedule(testConceptId, testVariantId)
         const easeFactors: number[] = [schedule.easeFactor]
 
         // Simulate struggles (hard responses)
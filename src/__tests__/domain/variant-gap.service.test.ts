@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Unit tests for variant gap analysis domain service
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Tests focus dimension detection from the weakness profile and dodging
+ * pattern, exact missing-variant counts per dimension x difficulty cell, and
+ * cloze cells left out unless asked for.
+ */
+
+import {
+  findVariantGaps,
+  getFocusDimensions,
+} from '../../domain/services/variant-gap.service'
+import { createEmptyMasteryProfile, DimensionType } from '../../shared/types/core'
+
+import type { GapTargets, VariantCell } from '../../domain/services/variant-gap.service'
+import type { DimensionMastery, MasteryProfile } from '../../shared/types/core'
+
+const strong: DimensionMastery = { accuracyEwma: 0.95, speedEwma: 0.9, recentCount: 20 }
+const weak: DimensionMastery = { accuracyEwma: 0.3, speedEwma: 0.3, recentCount: 20 }
+
+/**
+ * Creates a profile with the given dimensions overridden
+ */
+function profileWith(overrides: Partial<MasteryProfile>): MasteryProfile {
+  return { ...createEmptyMasteryProfile(), ...overrides }
+}
+
+const targets: GapTargets = { difficulties: [3], perCell: 1, weakPerCell: 3 }
+
+describe('Variant Gap Service', () => {
+  describe('getFocusDimensions', () => {
+    it('should flag weak dimensions with enough reviews', () => {
+      const focus = getFocusDimensions(
+        profileWith({ [DimensionType.SCENARIO_APPLICATION]: weak })
+      )
+
+      expect([...focus]).toEqual([[DimensionType.SCENARIO_APPLICATION, 'weak']])
+    })
+
+    it('should ignore a new concept with default mastery', () => {
+      expect(getFocusDimensions(createEmptyMasteryProfile()).size).toBe(0)
+    })
+
+    it('should flag every other dimension as dodged when the learner dodges', () => {
+      const dodging = profileWith({
+        [DimensionType.DEFINITION_RECALL]: strong,
+        [DimensionType.SCENARIO_APPLICATION]: weak,
+        [DimensionType.DISCRIMINATION]: weak,
+      })
+
+      const focus = getFocusDimensions(createEmptyMasteryProfile(), dodging)
+
+      expect(focus.has(DimensionType.DEFINITION_RECALL)).toBe(false)
+      expect(focus.get(DimensionType.CLOZE_FILL)).toBe('dodged')
+      expect(focus.size).toBe(5)
+    })
+
+    it('should keep weak ahead of dodged for the same dimension', () => {
+      const dodging = profileWith({
+        [DimensionType.DEFINITION_RECALL]: strong,
+        [DimensionType.SCENARIO_APPLICATION]: weak,
+        [DimensionType.DISCRIMINATION]: weak,
+      })
+
+      const focus = getFocusDimensions(dodging, dodging)
+
+      expect(focus.get(DimensionType.SCENARIO_APPLICATION)).toBe('weak')
+      expect(focus.get(DimensionType.PARAPHRASE_RECOGNITION)).toBe('dodged')
+    })
+  })
+
+  describe('findVariantGaps', () => {
+    it('should report one missing variant for every empty cell', () => {
+      const gaps = findVariantGaps([], [], new Map(), { ...targets, difficulties: [2, 4] })
+
+      expect(gaps).toHaveLength(10)
+      expect(gaps.every((g) => g.missing === 1 && g.reason === 'missing')).toBe(true)
+    })
+
+    it('should not report cells that already hold enough variants', () => {
+      const existing: VariantCell[] = Object.values(DimensionType)
+        .filter((d) => d !== DimensionType.DISCRIMINATION)
+        .map((dimension) => ({ dimension, difficulty: 3 }))
+
+      const gaps = findVariantGaps(existing, [], new Map(), targets)
+
+      expect(gaps.map((g) => g.dimension)).toEqual([DimensionType.DISCRIMINATION])
+    })
+
+    it('should request only the remainder for weak dimensions', () => {
+      const existing: VariantCell[] = [
+        { dimension: DimensionType.SCENARIO_APPLICATION, difficulty: 3 },
+      ]
+      const focus = new Map([[DimensionType.SCENARIO_APPLICATION, 'weak' as const]])
+
+      const gaps = findVariantGaps(existing, [], focus, targets)
+      const scenario = gaps.find((g) => g.dimension === DimensionType.SCENARIO_APPLICATION)
+
+      expect(scenario).toMatchObject({ existing: 1, target: 3, missing: 2, reason: 'weak' })
+      expect(gaps[0]).toBe(scenario)
+    })
+
+    it('should count variants already queued for generation', () => {
+      const pending = [{ dimension: DimensionType.DISCRIMINATION, difficulty: 3 as const, count: 2 }]
+      const focus = new Map([[DimensionType.DISCRIMINATION, 'dodged' as const]])
+
+      const gaps = findVariantGaps([], pending, focus, targets)
+      const discrimination = gaps.find((g) => g.dimension === DimensionType.DISCRIMINATION)
+
+      expect(discrimination).toMatchObject({ pending: 2, missing: 1, reason: 'dodged' })
+    })
+
+    it('should only fill focus dimensions when the baseline is zero', () => {
+      const focus = new Map([[DimensionType.EXAMPLE_CLASSIFICATION, 'weak' as const]])
+
+      const gaps = findVariantGaps([], [], focus, { ...targets, perCell: 0 })
+
+      expect(gaps).toHaveLength(1)
+      expect(gaps[0]).toMatchObject({
+        dimension: DimensionType.EXAMPLE_CLASSIFICATION,
+        missing: 3,
+      })
+    })
+
+    it('should leave cloze out unless the targets ask for it', () => {
+      const focus = new Map([[DimensionType.CLOZE_FILL, 'dodged' as const]])
+
+      const defaults = findVariantGaps([], [], focus, targets)
+      const explicit = findVariantGaps([], [], focus, {
+        ...targets,
+        dimensions: [DimensionType.CLOZE_FILL],
+      })
+
+      expect(defaults.some((g) => g.dimension === DimensionType.CLOZE_FILL)).toBe(false)
+      expect(explicit).toHaveLength(1)
+      expect(explicit[0]).toMatchObject({ dimension: DimensionType.CLOZE_FILL, reason: 'dodged' })
+    })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Tests for backup file naming, scheduling and retention
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers reading backups back from their file names, the due check for
+ * scheduled backups, and which backups rotation deletes.
+ */
+
+import {
+  backupFileName,
+  isBackupDue,
+  parseBackupFileName,
+  selectBackupsToPrune,
+} from '../../../main/infrastructure/database/backup-policy'
+
+import type { BackupFile } from '../../../main/infrastructure/database/backup-policy'
+import type { BackupKind } from '../../../shared/types/ipc'
+
+const HOUR_MS = 60 * 60 * 1000
+
+describe('backupFileName', () => {
+  it('should name backups without colons', () => {
+    expect(backupFileName(new Date('2026-01-28T10:05:30.250Z'), 'manual')).toBe(
+      'backup-2026-01-28T10-05-30.250Z-manual.db'
+    )
+  })
+})
+
+describe('parseBackupFileName', () => {
+  it('should read back the time and kind of a backup', () => {
+    const createdAt = new Date('2026-01-28T10:05:30.250Z')
+    const fileName = backupFileName(createdAt, 'pre-restore')
+
+    expect(parseBackupFileName(fileName)).toEqual({ fileName, kind: 'pre-restore', createdAt })
+  })
+
+  it('should ignore files that are not backups', () => {
+    expect(parseBackupFileName('learning.db')).toBeNull()
+    expect(parseBackupFileName('backup-2026-01-28T10-05-30.250Z-manual.db.partial')).toBeNull()
+    expect(parseBackupFileName('backup-2026-01-28T10-05-30.250Z-weekly.db')).toBeNull()
+    expect(parseBackupFileName('backup-2026-13-45T10-05-30.250Z-manual.db')).toBeNull()
+  })
+})
+
+describe('isBackupDue', () => {
+  const now = new Date('2026-01-28T12:00:00.000Z')
+
+  it('should be due without an earlier backup', () => {
+    expect(isBackupDue(null, now, 24)).toBe(true)
+  })
+
+  it('should be due once the interval has passed', () => {
+    expect(isBackupDue(new Date(now.getTime() - 23 * HOUR_MS), now, 24)).toBe(false)
+    expect(isBackupDue(new Date(now.getTime() - 24 * HOUR_MS), now, 24)).toBe(true)
+  })
+})
+
+describe('selectBackupsToPrune', () => {
+  const backup = (hoursAgo: number, kind: BackupKind): BackupFile => {
+    const createdAt = new Date(Date.UTC(2026, 0, 28) - hoursAgo * HOUR_MS)
+    return { fileName: backupFileName(createdAt, kind), kind, createdAt }
+  }
+
+  it('should select the automatic backups beyond the newest ones kept', () => {
+    const backups = [
+      backup(48, 'automatic'),
+      backup(0, 'automatic'),
+      backup(72, 'automatic'),
+      backup(24, 'automatic'),
+    ]
+
+    expect(selectBackupsToPrune(backups, 2)).toEqual([backups[0], backups[2]])
+  })
+
+  it('should keep manual and pre-restore backups', () => {
+    const backups = [backup(0, 'automatic'), backup(24, 'manual'), backup(48, 'pre-restore')]
+
+    expect(selectBackupsToPrune(backups, 1)).toEqual([])
+  })
+
+  it('should always keep at least one automatic backup', () => {
+    const backups = [backup(0, 'automatic'), backup(24, 'automatic')]
+
+    expect(selectBackupsToPrune(backups, 0)).toEqual([backups[1]])
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Tests for the per-concept mastery repository
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers row mapping, the default profile overlay for concepts and dimensions
+ * without reviews, upsert parameters, and the error for unknown concepts.
+ * The connection module is replaced by a stub database, since the native
+ * SQLite module is built for Electron rather than for Node.
+ */
+
+import {
+  ConceptMasteryRepository,
+} from '../../../main/infrastructure/database/repositories/concept-mastery.repository'
+import { asConceptId } from '../../../shared/types/branded'
+import { DimensionType } from '../../../shared/types/core'
+
+import type { DatabaseError } from '../../../main/infrastructure/database/errors'
+
+/** Rows every statement of the stub database returns */
+let mockRows: unknown[] = []
+
+/** Error the stub database throws on writes, if any */
+let mockWriteError: Error | null = null
+
+const mockRun = jest.fn((..._params: unknown[]) => {
+  if (mockWriteError) {
+    throw mockWriteError
+  }
+  return { changes: 1 }
+})
+
+jest.mock('../../../main/infrastructure/database/connection', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      get: () => mockRows[0],
+      all: () => mockRows,
+      run: mockRun,
+    }),
+  }),
+}))
+
+const conceptId = asConceptId('concept-1')
+const dimension = DimensionType.DEFINITION_RECALL
+
+const row = (dimension: string, accuracy: number): unknown => ({
+  concept_id: conceptId,
+  dimension,
+  accuracy_ewma: accuracy,
+  speed_ewma: 0.6,
+  recent_count: 3,
+})
+
+describe('ConceptMasteryRepository', () => {
+  beforeEach(() => {
+    mockRows = []
+    mockWriteError = null
+    mockRun.mockClear()
+  })
+
+  describe('findByConceptAndDimension', () => {
+    it('should map a stored row to mastery', () => {
+      mockRows = [row(dimension, 0.8)]
+
+      expect(ConceptMasteryRepository.findByConceptAndDimension(conceptId, dimension)).toEqual({
+        accuracyEwma: 0.8,
+        speedEwma: 0.6,
+        recentCount: 3,
+      })
+    })
+
+    it('should return null for a dimension without reviews', () => {
+      expect(ConceptMasteryRepository.findByConceptAndDimension(conceptId, dimension)).toBeNull()
+    })
+  })
+
+  describe('findByConceptId', () => {
+    it('should overlay stored dimensions on the default profile', () => {
+      mockRows = [row(DimensionType.SCENARIO_APPLICATION, 0.2), row('unknown', 0.9)]
+
+      const profile = ConceptMasteryRepository.findByConceptId(conceptId)
+
+      expect(profile[DimensionType.SCENARIO_APPLICATION].accuracyEwma).toBe(0.2)
+      expect(profile[DimensionType.DEFINITION_RECALL]).toEqual({
+        accuracyEwma: 0.5,
+        speedEwma: 0.5,
+        recentCount: 0,
+      })
+      expect(Object.keys(profile)).not.toContain('unknown')
+    })
+  })
+
+  describe('findAll', () => {
+    it('should group stored rows into one profile per concept', () => {
+      const other = asConceptId('concept-2')
+      mockRows = [
+        row(DimensionType.DEFINITION_RECALL, 0.8),
+        row(DimensionType.PARAPHRASE_RECOGNITION, 0.4),
+        { ...(row(DimensionType.DEFINITION_RECALL, 0.1) as object), concept_id: other },
+      ]
+
+      const profiles = ConceptMasteryRepository.findAll()
+
+      expect([...profiles.keys()]).toEqual([conceptId, other])
+      expect(profiles.get(conceptId)?.[DimensionType.PARAPHRASE_RECOGNITION].accuracyEwma).toBe(0.4)
+      expect(profiles.get(other)?.[DimensionType.DEFINITION_RECALL].accuracyEwma).toBe(0.1)
+    })
+  })
+
+  describe('save', () => {
+    it('should upsert the mastery for the concept and dimension', () => {
+      ConceptMasteryRepository.save(conceptId, DimensionType.DEFINITION_RECALL, {
+        accuracyEwma: 0.7,
+        speedEwma: 0.4,
+        recentCount: 2,
+      })
+
+      expect(mockRun).toHaveBeenCalledWith(
+        conceptId,
+        DimensionType.DEFINITION_RECALL,
+        0.7,
+        0.4,
+        2,
+        expect.any(String)
+      )
+    })
+
+    it('should report an unknown concept as a constraint violation', () => {
+      mockWriteError = new Error('FOREIGN KEY constraint failed')
+
+      let error: DatabaseError | undefined
+      try {
+        ConceptMasteryRepository.save(conceptId, DimensionType.DEFINITION_RECALL, {
+          accuracyEwma: 0.7,
+          speedEwma: 0.4,
+          recentCount: 2,
+        })
+      } catch (caught) {
+        error = caught as DatabaseError
+      }
+
+      expect(error?.code).toBe('CONSTRAINT_VIOLATION')
+      expect(error?.message).toBe('Concept with id "concept-1" does not exist')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Tests for the schedule repository's due query
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers unscheduled variants, whose due date is their creation time. That
+ * time is stored as SQLite UTC text without a zone, so the query must convert
+ * it to the ISO-8601 form of schedule rows for comparing, sorting and parsing.
+ * The connection module is replaced by a stub database, since the native
+ * SQLite module is built for Electron rather than for Node.
+ */
+
+import { ScheduleRepository } from '../../../main/infrastructure/database/repositories/schedule.repository'
+
+/** Rows every statement of the stub database returns */
+let mockRows: unknown[] = []
+
+/** SQL of every statement the stub database prepared */
+const mockStatements: string[] = []
+
+const mockAll = jest.fn((..._params: unknown[]) => mockRows)
+
+jest.mock('../../../main/infrastructure/database/connection', () => ({
+  getDatabase: () => ({
+    prepare: (sql: string) => {
+      mockStatements.push(sql)
+      return { all: mockAll }
+    },
+  }),
+}))
+
+/** Creation time of a variant as the fallback expression converts it */
+const NORMALISED_CREATED_AT = "COALESCE(s.due_at, strftime('%Y-%m-%dT%H:%M:%fZ', v.created_at))"
+
+describe('ScheduleRepository', () => {
+  const originalTimeZone = process.env.TZ
+
+  beforeEach(() => {
+    mockRows = []
+    mockStatements.length = 0
+    mockAll.mockClear()
+    process.env.TZ = 'America/New_York'
+  })
+
+  afterAll(() => {
+    process.env.TZ = originalTimeZone
+  })
+
+  describe('findDue', () => {
+    it('should compare and sort by the ISO form of the creation time', () => {
+      const before = new Date('2026-10-20T00:00:00.000Z')
+
+      ScheduleRepository.findDue(before)
+
+      const sql = mockStatements[0] ?? ''
+      expect(sql.split(NORMALISED_CREATED_AT)).toHaveLength(3)
+      expect(sql).not.toContain('COALESCE(s.due_at, v.created_at)')
+      expect(mockAll).toHaveBeenCalledWith('2026-10-20T00:00:00.000Z')
+    })
+
+    it('should read an unscheduled and a scheduled variant of the same day as UTC', () => {
+      // As returned by the query: the new card created at 15:00 UTC sorts
+      // after the card scheduled for 10:00 UTC the same day
+      mockRows = [
+        {
+          variant_id: 'variant-scheduled',
+          concept_id: 'concept-1',
+          due_at: '2026-10-19T10:00:00.000Z',
+          interval_days: 3,
+          ease_factor: 2.6,
+          stability: null,
+          difficulty: null,
+          last_reviewed_at: null,
+        },
+        {
+          variant_id: 'variant-new',
+          concept_id: 'concept-1',
+          due_at: '2026-10-19T15:00:00.000Z',
+          interval_days: 1,
+          ease_factor: 2.5,
+          stability: null,
+          difficulty: null,
+          last_reviewed_at: null,
+        },
+      ]
+
+      const due = ScheduleRepository.findDue(new Date('2026-10-20T00:00:00.000Z'))
+
+      expect(due.map((schedule) => [schedule.variantId, schedule.dueAt.toISOString()])).toEqual([
+        ['variant-scheduled', '2026-10-19T10:00:00.000Z'],
+        ['variant-new', '2026-10-19T15:00:00.000Z'],
+      ])
+    })
+  })
+})
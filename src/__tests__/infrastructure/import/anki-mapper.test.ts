@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Tests for mapping Anki collections to concepts, variants and events
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers field text conversion, template rendering, dimension and difficulty
+ * guesses, standard and cloze notes, skipped notes and cards, and review log
+ * conversion.
+ */
+
+import {
+  ankiFieldToText,
+  guessDifficulty,
+  guessDimension,
+  planAnkiImport,
+  renderAnkiTemplate,
+} from '../../../main/infrastructure/import/anki-mapper'
+import { DimensionType } from '../../../shared/types/core'
+
+import type {
+  AnkiCard,
+  AnkiCollection,
+  AnkiNoteType,
+} from '../../../main/infrastructure/import/anki-mapper'
+
+const basicAndReversed: AnkiNoteType = {
+  id: 1,
+  name: 'Basic (and reversed card)',
+  kind: 'standard',
+  fields: ['Front', 'Back'],
+  templates: [
+    { name: 'Card 1', front: '{{Front}}', back: '{{FrontSide}}<hr id=answer>{{Back}}' },
+    { name: 'Card 2', front: '{{Back}}', back: '{{FrontSide}}<hr id=answer>{{Front}}' },
+  ],
+}
+
+const cloze: AnkiNoteType = {
+  id: 2,
+  name: 'Cloze',
+  kind: 'cloze',
+  fields: ['Text', 'Back Extra'],
+  templates: [{ name: 'Cloze', front: '{{cloze:Text}}', back: '{{cloze:Text}}<br>{{Back Extra}}' }],
+}
+
+/**
+ * Builds a card with scheduling defaults of a new card
+ */
+function card(
+  id: number,
+  noteId: number,
+  ord: number,
+  overrides: Partial<AnkiCard> = {}
+): AnkiCard {
+  return { id, noteId, ord, reviews: 0, lapses: 0, easeFactor: 0, ...overrides }
+}
+
+const collection: AnkiCollection = {
+  noteTypes: [basicAndReversed, cloze],
+  notes: [
+    { id: 10, noteTypeId: 1, fields: ['Mitochondria', 'Powerhouse of the <b>cell</b>'], tags: [] },
+    {
+      id: 11,
+      noteTypeId: 2,
+      fields: ['{{c1::Paris}} is the capital of {{c2::France}}', ''],
+      tags: ['geo'],
+    },
+    { id: 12, noteTypeId: 1, fields: ['Osmosis', '<img src="osmosis.png">'], tags: [] },
+    { id: 13, noteTypeId: 99, fields: ['Orphan', 'No type'], tags: [] },
+  ],
+  cards: [
+    card(100, 10, 0, { reviews: 4, easeFactor: 2600 }),
+    card(101, 10, 1),
+    card(110, 11, 0),
+    card(111, 11, 1),
+    card(112, 11, 2),
+    card(120, 12, 0),
+  ],
+  reviews: [
+    { cardId: 100, reviewedAt: new Date(2025, 5, 2), ease: 3, timeMs: 4000, type: 1 },
+    { cardId: 100, reviewedAt: new Date(2025, 5, 1), ease: 1, timeMs: 9000, type: 0 },
+    { cardId: 100, reviewedAt: new Date(2025, 5, 3), ease: 0, timeMs: 0, type: 4 },
+    { cardId: 120, reviewedAt: new Date(2025, 5, 1), ease: 3, timeMs: 2000, type: 0 },
+  ],
+}
+
+describe('ankiFieldToText', () => {
+  it('should turn HTML into plain text with line breaks', () => {
+    expect(
+      ankiFieldToText('A&nbsp;<b>bold</b>  claim<br>second<div>third</div><div>fourth</div>')
+    ).toBe('A bold claim\nsecond\nthird\nfourth')
+  })
+
+  it('should drop media and decode entities', () => {
+    expect(ankiFieldToText('x &lt; y [sound:a.mp3]<img src="b.png"> &#233;')).toBe('x < y é')
+  })
+})
+
+describe('renderAnkiTemplate', () => {
+  const fields = new Map([
+    ['Front', 'Term'],
+    ['Hint', ''],
+  ])
+
+  it('should fill fields and skip sections of empty fields', () => {
+    expect(renderAnkiTemplate('{{Front}}{{#Hint}} ({{Hint}}){{/Hint}}', fields)).toBe('Term')
+    expect(renderAnkiTemplate('{{^Hint}}no hint{{/Hint}}', fields)).toBe('no hint')
+  })
+
+  it('should render FrontSide and drop typing boxes', () => {
+    expect(renderAnkiTemplate('{{FrontSide}}|{{type:Front}}|{{text:Front}}', fields, 'Q')).toBe(
+      'Q||Term'
+    )
+  })
+})
+
+describe('guessDimension', () => {
+  it('should recognize cloze and reversed cards', () => {
+    expect(guessDimension('anything', 'Cloze', true)).toBe(DimensionType.CLOZE_FILL)
+    expect(guessDimension('anything', 'Card 2', false)).toBe(
+      DimensionType.PARAPHRASE_RECOGNITION
+    )
+  })
+
+  it('should read the question wording', () => {
+    expect(guessDimension('Difference between TCP and UDP', 'Card 1', false)).toBe(
+      DimensionType.DISCRIMINATION
+    )
+    expect(guessDimension('Give an example of a monad', 'Card 1', false)).toBe(
+      DimensionType.EXAMPLE_CLASSIFICATION
+    )
+    expect(guessDimension('What would happen if the cache were cold?', 'Card 1', false)).toBe(
+      DimensionType.SCENARIO_APPLICATION
+    )
+    expect(guessDimension('Mitochondria', 'Card 1', false)).toBe(DimensionType.DEFINITION_RECALL)
+  })
+})
+
+describe('guessDifficulty', () => {
+  it('should rate reviewed cards by ease and lapses', () => {
+    expect(guessDifficulty(card(1, 1, 0))).toBe(3)
+    expect(guessDifficulty(card(1, 1, 0, { reviews: 5, easeFactor: 2900 }))).toBe(1)
+    expect(guessDifficulty(card(1, 1, 0, { reviews: 5, easeFactor: 2300 }))).toBe(3)
+    expect(guessDifficulty(card(1, 1, 0, { reviews: 5, easeFactor: 1300 }))).toBe(5)
+    expect(guessDifficulty(card(1, 1, 0, { reviews: 20, lapses: 9, easeFactor: 2900 }))).toBe(5)
+  })
+})
+
+describe('planAnkiImport', () => {
+  const noHistory = { existingNames: new Set<string>(), includeReviewHistory: false }
+
+  it('should map a standard note to a concept with one variant per template', () => {
+    const plan = planAnkiImport(collection, noHistory)
+    const concept = plan.concepts.find((c) => c.ankiNoteId === 10)
+
+    expect(concept).toMatchObject({ name: 'Mitochondria', definition: 'Powerhouse of the cell' })
+    expect(concept?.variants).toEqual([
+      {
+        ankiCardId: 100,
+        dimension: DimensionType.DEFINITION_RECALL,
+        difficulty: 2,
+        front: 'Mitochondria',
+        back: 'Powerhouse of the cell',
+      },
+      {
+        ankiCardId: 101,
+        dimension: DimensionType.PARAPHRASE_RECOGNITION,
+        difficulty: 3,
+        front: 'Powerhouse of the cell',
+        back: 'Mitochondria',
+      },
+    ])
+  })
+
+  it('should map cloze cards to cloze variants sharing the note text', () => {
+    const plan = planAnkiImport(collection, noHistory)
+    const concept = plan.concepts.find((c) => c.ankiNoteId === 11)
+
+    expect(concept?.name).toBe('Paris is the capital of France')
+    expect(concept?.variants.map((v) => [v.dimension, v.clozeIndex, v.front])).toEqual([
+      [DimensionType.CLOZE_FILL, 1, '{{c1::Paris}} is the capital of {{c2::France}}'],
+      [DimensionType.CLOZE_FILL, 2, '{{c1::Paris}} is the capital of {{c2::France}}'],
+    ])
+    expect(plan.skipped).toContainEqual(
+      expect.objectContaining({ kind: 'card', ankiId: 112, reason: expect.stringContaining('c3') })
+    )
+  })
+
+  it('should report skipped notes and cards', () => {
+    const plan = planAnkiImport(collection, noHistory)
+
+    expect(plan.concepts.map((c) => c.ankiNoteId)).toEqual([10, 11])
+    expect(plan.skipped).toContainEqual(
+      expect.objectContaining({ kind: 'card', ankiId: 120, reason: 'The answer is empty' })
+    )
+    expect(plan.skipped).toContainEqual(
+      expect.objectContaining({ kind: 'note', ankiId: 12, reason: 'No cards' })
+    )
+    expect(plan.skipped).toContainEqual(
+      expect.objectContaining({ kind: 'note', ankiId: 13, reason: 'Unknown note type' })
+    )
+  })
+
+  it('should skip notes named like existing concepts or earlier notes', () => {
+    const duplicated: AnkiCollection = {
+      ...collection,
+      notes: [
+        ...collection.notes,
+        { id: 14, noteTypeId: 1, fields: ['mitochondria', 'x'], tags: [] },
+      ],
+      cards: [...collection.cards, card(140, 14, 0)],
+    }
+
+    expect(planAnkiImport(duplicated, noHistory).skipped).toContainEqual(
+      expect.objectContaining({ ankiId: 14, reason: 'Another note in the deck has the same name' })
+    )
+
+    const plan = planAnkiImport(collection, {
+      existingNames: new Set(['MITOCHONDRIA']),
+      includeReviewHistory: false,
+    })
+    expect(plan.concepts.map((c) => c.ankiNoteId)).toEqual([11])
+    expect(plan.skipped).toContainEqual(
+      expect.objectContaining({ ankiId: 10, reason: 'A concept with this name already exists' })
+    )
+  })
+
+  it('should convert reviews of imported cards, oldest first', () => {
+    const plan = planAnkiImport(collection, { ...noHistory, includeReviewHistory: true })
+
+    expect(plan.reviews).toEqual([
+      { ankiCardId: 100, result: 'again', timeMs: 9000, reviewedAt: new Date(2025, 5, 1) },
+      { ankiCardId: 100, result: 'good', timeMs: 4000, reviewedAt: new Date(2025, 5, 2) },
+    ])
+    expect(plan.skippedReviewCount).toBe(2)
+  })
+
+  it('should leave out reviews unless requested', () => {
+    const plan = planAnkiImport(collection, noHistory)
+
+    expect(plan.reviews).toEqual([])
+    expect(plan.skippedReviewCount).toBe(0)
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Tests for mapping CSV rows to concepts and variants
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers column names and mapping guesses, dimension spellings, row grouping
+ * by name, per-row validation errors, duplicate handling and cloze card
+ * counting.
+ */
+
+import {
+  countVariantCards,
+  csvColumnNames,
+  guessCsvMapping,
+  parseCsvDimension,
+  planCsvImport,
+} from '../../../main/infrastructure/import/csv-mapper'
+
+import type { CsvPlanOptions } from '../../../main/infrastructure/import/csv-mapper'
+
+const rows = [
+  ['Term', 'Definition', 'Facts', 'Question', 'Answer', 'Dimension', 'Difficulty'],
+  ['Osmosis', 'Diffusion of water', 'Passive|Membrane', 'What is osmosis?', 'Water', '', ''],
+  ['osmosis', '', 'Passive', 'Osmosis vs diffusion?', 'Water only', 'Discrimination', '4'],
+  ['Mitosis', 'Cell division', '', '', '', '', ''],
+]
+
+const options: CsvPlanOptions = {
+  mapping: guessCsvMapping(csvColumnNames(rows, true), true),
+  hasHeader: true,
+  existing: new Map(),
+  onDuplicate: 'skip',
+}
+
+describe('csvColumnNames', () => {
+  it('should use the header row or numbered names', () => {
+    expect(csvColumnNames([['Name', ' '], ['a', 'b', 'c']], true)).toEqual([
+      'Name',
+      'Column 2',
+      'Column 3',
+    ])
+    expect(csvColumnNames([['a', 'b']], false)).toEqual(['Column 1', 'Column 2'])
+  })
+})
+
+describe('guessCsvMapping', () => {
+  it('should match common header spellings', () => {
+    expect(options.mapping).toEqual({
+      name: 0,
+      definition: 1,
+      facts: 2,
+      front: 3,
+      back: 4,
+      dimension: 5,
+      difficulty: 6,
+    })
+    expect(guessCsvMapping(['Concept', 'Question Type', 'Hint'], true)).toEqual({
+      name: 0,
+      questionType: 1,
+      hints: 2,
+    })
+  })
+
+  it('should take name and definition from the first columns without a header', () => {
+    expect(guessCsvMapping(['Column 1', 'Column 2', 'Column 3'], false)).toEqual({
+      name: 0,
+      definition: 1,
+    })
+  })
+})
+
+describe('parseCsvDimension', () => {
+  it('should accept names, stored values and labels', () => {
+    expect(parseCsvDimension('example')).toBe('example')
+    expect(parseCsvDimension('scenario_application')).toBe('scenario')
+    expect(parseCsvDimension('Cloze Fill')).toBe('cloze')
+    expect(parseCsvDimension('trivia')).toBeNull()
+  })
+})
+
+describe('planCsvImport', () => {
+  it('should group rows by name into concepts with variants', () => {
+    const plan = planCsvImport(rows, options)
+
+    expect(plan.concepts).toEqual([
+      {
+        name: 'Osmosis',
+        existingId: null,
+        definition: 'Diffusion of water',
+        facts: ['Passive', 'Membrane'],
+        variants: [
+          {
+            dimension: 'definition',
+            difficulty: 3,
+            front: 'What is osmosis?',
+            back: 'Water',
+            questionType: 'flashcard',
+          },
+          {
+            dimension: 'discrimination',
+            difficulty: 4,
+            front: 'Osmosis vs diffusion?',
+            back: 'Water only',
+            questionType: 'flashcard',
+          },
+        ],
+      },
+      {
+        name: 'Mitosis',
+        existingId: null,
+        definition: 'Cell division',
+        facts: [],
+        variants: [],
+      },
+    ])
+    expect(plan.rows.map((row) => [row.rowNumber, row.status])).toEqual([
+      [2, 'create'],
+      [3, 'add'],
+      [4, 'create'],
+    ])
+  })
+
+  it('should report every error of a row and leave it out', () => {
+    const plan = planCsvImport(
+      [
+        rows[0] ?? [],
+        ['', 'x', '', 'Q', '', 'trivia', '9'],
+        ['Osmosis', 'Diffusion of water', '', '', '', '', ''],
+        ['Osmosis', 'Something else', '', '', '', '', ''],
+      ],
+      options
+    )
+
+    expect(plan.rows[0]?.errors).toEqual([
+      'The name is empty',
+      'Unknown dimension "trivia"',
+      'Difficulty must be a whole number from 1 to 5',
+      'The answer (back) is empty',
+    ])
+    expect(plan.rows[2]).toMatchObject({
+      status: 'error',
+      errors: ['The definition differs from row 3'],
+    })
+    expect(plan.concepts.map((concept) => concept.name)).toEqual(['Osmosis'])
+  })
+
+  it('should validate question types', () => {
+    const mapping = { name: 0, front: 1, back: 2, questionType: 3 }
+    const plan = planCsvImport(
+      [
+        ['A', 'Water is wet', 'true', 'True/False'],
+        ['B', 'Pick one', 'x', 'multiple choice'],
+        ['C', 'Is it?', 'maybe', 'true_false'],
+      ],
+      { ...options, mapping, hasHeader: false }
+    )
+
+    expect(plan.concepts[0]?.variants[0]).toMatchObject({
+      questionType: 'true_false',
+      correctIndices: [0],
+    })
+    expect(plan.rows[1]?.errors).toEqual([
+      'Choice questions need answer options, which CSV import does not support',
+    ])
+    expect(plan.rows[2]?.errors).toEqual(['True/false answers must be True or False'])
+  })
+
+  it('should skip or merge rows naming existing concepts', () => {
+    const existing = new Map([['osmosis', 'concept-1']])
+
+    const skipped = planCsvImport(rows, { ...options, existing })
+    expect(skipped.concepts.map((concept) => concept.name)).toEqual(['Mitosis'])
+    expect(skipped.rows.map((row) => row.status)).toEqual(['skip', 'skip', 'create'])
+
+    const merged = planCsvImport(rows, { ...options, existing, onDuplicate: 'merge' })
+    expect(merged.concepts[0]).toMatchObject({ existingId: 'concept-1' })
+    expect(merged.concepts[0]?.variants).toHaveLength(2)
+    expect(merged.rows.map((row) => row.status)).toEqual(['merge', 'merge', 'create'])
+  })
+})
+
+describe('countVariantCards', () => {
+  it('should count one card per cloze index', () => {
+    expect(
+      countVariantCards({ dimension: 'cloze', front: '{{c1::Paris}} in {{c2::France}}', back: '' })
+    ).toBe(2)
+    expect(countVariantCards({ dimension: 'definition', front: 'Q', back: 'A' })).toBe(1)
+  })
+})
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Tests for reading and writing versioned data documents
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers JSON and YAML round trips, defaults for version 1 files, dimension
+ * spellings, validation errors with their paths, reference and duplicate
+ * checks, and documents from newer versions.
+ */
+
+import {
+  countDataDocument,
+  dimensionFromLabel,
+  parseDataDocument,
+  serializeDataDocument,
+} from '../../../main/infrastructure/import/data-document'
+import { ImportError } from '../../../main/infrastructure/import/errors'
+import { DimensionType } from '../../../shared/types/core'
+
+import type { DataDocument } from '../../../main/infrastructure/import/data-document'
+
+const document: DataDocument = {
+  schema_version: 2,
+  exported_at: '2026-01-28T10:00:00.000Z',
+  db: {
+    concepts: [
+      {
+        id: 'c1',
+        name: 'Osmosis',
+        definition: 'Diffusion of water across a membrane',
+        facts: ['Passive'],
+        source_path: null,
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-02T00:00:00.000Z',
+      },
+    ],
+    variants: [
+      {
+        id: 'v1',
+        concept_id: 'c1',
+        dimension: 'Scenario Application',
+        difficulty: 4,
+        front: 'Explain why a raisin swells in water',
+        back: 'Water moves into it by osmosis',
+        hints: ['Think about concentration'],
+        last_shown_at: null,
+        question_type: 'open_response',
+        rubric: { keyPoints: ['osmosis', 'concentration'], partialCreditCriteria: 'Half' },
+        max_length: 500,
+        options: null,
+        correct_indices: null,
+        cloze_index: null,
+        created_at: '2026-01-01T00:00:00.000Z',
+      },
+    ],
+    schedule: [
+      {
+        variant_id: 'v1',
+        concept_id: 'c1',
+        due_at: '2026-02-01T00:00:00.000Z',
+        interval_days: 4,
+        ease_factor: 2.5,
+        stability: 3.2,
+        difficulty: 5.1,
+        last_reviewed_at: '2026-01-28T09:00:00.000Z',
+      },
+    ],
+    mastery: [
+      {
+        dimension: 'Scenario Application',
+        accuracy_ewma: 0.7,
+        speed_ewma: 0.4,
+        recent_count: 1,
+        updated_at: '2026-01-28T09:00:00.000Z',
+      },
+    ],
+    concept_mastery: [],
+    events: [
+      {
+        id: 'e1',
+        concept_id: 'c1',
+        variant_id: 'v1',
+        dimension: 'Scenario Application',
+        difficulty: 4,
+        result: 'good',
+        time_ms: 12000,
+        hints_used: 0,
+        created_at: '2026-01-28T09:00:00.000Z',
+        user_response: 'It takes in water',
+        llm_score: 0.8,
+        llm_feedback: 'Mention osmosis',
+        evaluation_confidence: 0.9,
+        evaluation_model: 'gpt-4o-mini',
+        llm_rating: 'good',
+        human_rating: null,
+        overridden_at: null,
+      },
+    ],
+  },
+}
+
+/**
+ * Copies the document with some tables replaced
+ */
+function withTables(tables: Partial<Record<keyof DataDocument['db'], unknown[]>>): unknown {
+  return { ...document, db: { ...document.db, ...tables } }
+}
+
+/**
+ * Returns the message of the error parseDataDocument throws for a document
+ */
+function parseError(value: unknown): string {
+  try {
+    parseDataDocument(JSON.stringify(value))
+  } catch (error) {
+    return error instanceof ImportError ? error.message : 'not an ImportError'
+  }
+  return 'no error'
+}
+
+describe('parseDataDocument', () => {
+  it('should read back JSON and YAML exports unchanged', () => {
+    expect(parseDataDocument(serializeDataDocument(document, 'json'))).toEqual(document)
+    expect(parseDataDocument(serializeDataDocument(document, 'yaml'))).toEqual(document)
+  })
+
+  it('should fill in columns missing from version 1 files', () => {
+    const parsed = parseDataDocument(`
+schema_version: 1
+db:
+  concepts:
+    - { id: c1, name: Osmosis, definition: Water diffusion, facts: [], created_at: null }
+  variants:
+    - { id: v1, concept_id: c1, dimension: definition_recall, difficulty: 2, front: Q, back: A }
+  mastery: []
+  schedule: []
+  events: []
+`)
+
+    expect(parsed.exported_at).toBeNull()
+    expect(parsed.db.concepts[0]).toMatchObject({
+      source_path: null,
+      created_at: null,
+      updated_at: null,
+    })
+    expect(parsed.db.variants[0]).toEqual({
+      id: 'v1',
+      concept_id: 'c1',
+      dimension: 'Definition Recall',
+      difficulty: 2,
+      front: 'Q',
+      back: 'A',
+      hints: [],
+      last_shown_at: null,
+      question_type: 'flashcard',
+      rubric: null,
+      max_length: null,
+      options: null,
+      correct_indices: null,
+      cloze_index: null,
+      created_at: null,
+    })
+    expect(parsed.db.events).toEqual([])
+  })
+
+  it('should tell a file without review history from one with none', () => {
+    const { events: _events, ...tables } = document.db
+
+    expect(parseDataDocument(JSON.stringify({ ...document, db: tables })).db.events).toBe(
+      undefined
+    )
+  })
+
+  it('should name the first invalid value', () => {
+    expect(parseError([])).toBe('The document must be an object')
+    expect(parseError({ schema_version: 2 })).toBe('db must be an object')
+
+    const variant = { ...document.db.variants[0], difficulty: 6 }
+    expect(parseError(withTables({ variants: [variant] }))).toBe(
+      'db.variants[0].difficulty must be at most 5'
+    )
+
+    const event = { ...document.db.events?.[0], result: 'perfect' }
+    expect(parseError(withTables({ events: [event] }))).toBe(
+      'db.events[0].result must be one of again, hard, good, easy'
+    )
+
+    const schedule = { ...document.db.schedule[0], stability: 0 }
+    expect(parseError(withTables({ schedule: [schedule] }))).toBe(
+      'db.schedule[0].stability must be above 0'
+    )
+  })
+
+  it('should reject broken references and repeated records', () => {
+    const orphan = { ...document.db.variants[0], id: 'v2', concept_id: 'missing' }
+    expect(parseError(withTables({ variants: [...document.db.variants, orphan] }))).toBe(
+      'db.variants[1].concept_id refers to a missing concept "missing"'
+    )
+
+    const misplaced = { ...document.db.schedule[0], concept_id: 'c2' }
+    const concepts = [...document.db.concepts, { ...document.db.concepts[0], id: 'c2', name: 'B' }]
+    expect(parseError(withTables({ concepts, schedule: [misplaced] }))).toBe(
+      'db.schedule[0].concept_id does not match the concept of variant "v1"'
+    )
+
+    const twin = { ...document.db.concepts[0], id: 'c3' }
+    expect(parseError(withTables({ concepts: [...document.db.concepts, twin] }))).toBe(
+      'db.concepts[1] repeats "Osmosis"'
+    )
+
+    const linked = { ...document.db.concepts[0], source_path: '/notes/Biology.md#Osmosis' }
+    const moved = { ...linked, id: 'c4', name: 'Diffusion' }
+    expect(parseError(withTables({ concepts: [linked, moved] }))).toBe(
+      'db.concepts[1] repeats "/notes/Biology.md#Osmosis"'
+    )
+  })
+
+  it('should refuse documents from a newer version of the app', () => {
+    expect(() => parseDataDocument('schema_version: 3\ndb: {}')).toThrow(
+      'The file uses schema version 3; update the app to import it'
+    )
+  })
+
+  it('should report text that is neither JSON nor YAML', () => {
+    expect(() => parseDataDocument('{ "schema_version": ')).toThrow(
+      'The file is not valid JSON or YAML'
+    )
+  })
+})
+
+describe('countDataDocument', () => {
+  it('should count the records of every table', () => {
+    expect(countDataDocument(document)).toEqual({
+      concepts: 1,
+      variants: 1,
+      schedules: 1,
+      mastery: 1,
+      conceptMastery: 0,
+      events: 1,
+    })
+  })
+})
+
+describe('dimensionFromLabel', () => {
+  it('should map labels back to stored dimensions', () => {
+    expect(dimensionFromLabel('Cloze Fill')).toBe(DimensionType.CLOZE_FILL)
+    expect(() => dimensionFromLabel('Trivia')).toThrow('Unknown dimension "Trivia"')
+  })
+})
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Tests for parsing comma-, tab- and semicolon-separated text
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers separator detection, quoted cells, line endings, blank lines and
+ * the byte order mark.
+ */
+
+import {
+  detectDelimiter,
+  parseDelimitedText,
+} from '../../../main/infrastructure/import/delimited-text'
+
+describe('detectDelimiter', () => {
+  it('should pick the most frequent separator of the first row', () => {
+    expect(detectDelimiter('name\tdefinition\tfacts\na,b\tc')).toBe('\t')
+    expect(detectDelimiter('name;definition\n"a;b";c')).toBe(';')
+    expect(detectDelimiter('name,definition\n')).toBe(',')
+  })
+
+  it('should ignore separators inside quotes and prefer commas on ties', () => {
+    expect(detectDelimiter('"a;b;c",d\n')).toBe(',')
+    expect(detectDelimiter('single column')).toBe(',')
+  })
+})
+
+describe('parseDelimitedText', () => {
+  it('should split rows and cells with any line ending', () => {
+    expect(parseDelimitedText('a,b\r\nc,d\ne,f\rg,h\n', ',')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', 'f'],
+      ['g', 'h'],
+    ])
+  })
+
+  it('should read quoted cells with separators, quotes and line breaks', () => {
+    expect(parseDelimitedText('"a, b","say ""hi""","two\nlines"', ',')).toEqual([
+      ['a, b', 'say "hi"', 'two\nlines'],
+    ])
+  })
+
+  it('should keep blank lines and empty cells but drop the final line break', () => {
+    expect(parseDelimitedText('\uFEFFa\t\n\nb\tc\n', '\t')).toEqual([['a', ''], [''], ['b', 'c']])
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Tests for reading Markdown and Obsidian notes as concepts
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers front matter, tagged notes, heading sections, inline cleanup of
+ * Obsidian syntax, and planning creates, updates and skips on re-import.
+ */
+
+import {
+  cleanInlineMarkdown,
+  planMarkdownImport,
+  readMarkdownNote,
+  splitFrontMatter,
+} from '../../../main/infrastructure/import/markdown-notes'
+
+import type { ExistingMarkdownConcept } from '../../../main/infrastructure/import/markdown-notes'
+
+const biology = [
+  '# Biology',
+  '',
+  'Notes from the lecture.',
+  '',
+  '## Osmosis',
+  '',
+  'Diffusion of **water** across a',
+  'semi-permeable membrane.',
+  '',
+  '- Moves toward higher solute concentration',
+  '- [x] Needs no energy',
+  '',
+  '### Example',
+  '',
+  '- Raisins swell in water',
+  '',
+  '## Diffusion',
+  '',
+  '```',
+  '- not a fact',
+  '```',
+  '',
+  'Movement of particles down a gradient. ^def1',
+].join('\n')
+
+const tagged = [
+  '---',
+  'tags: [biology, concept]',
+  'aliases: [ATP]',
+  '---',
+  '# Adenosine triphosphate',
+  '',
+  '> [!note]',
+  '> The energy currency of the cell, see [[Mitochondria|mitochondria]].',
+  '',
+  '## Facts',
+  '',
+  '* Made in [[Mitochondria#Cristae]]',
+  '* Releases energy when hydrolyzed',
+].join('\n')
+
+describe('splitFrontMatter', () => {
+  it('should read YAML front matter and return the rest as body', () => {
+    expect(splitFrontMatter('---\ntitle: Osmosis\n---\nBody')).toEqual({
+      fields: { title: 'Osmosis' },
+      body: 'Body',
+    })
+  })
+
+  it('should leave notes without front matter as they are', () => {
+    expect(splitFrontMatter('Body\n---\n')).toEqual({ fields: {}, body: 'Body\n---\n' })
+  })
+})
+
+describe('cleanInlineMarkdown', () => {
+  it('should keep the text of links and drop embeds', () => {
+    expect(
+      cleanInlineMarkdown('See [[Cell|cells]], [[Mitochondria]] and [docs](https://x.y) ![[a.png]]')
+    ).toBe('See cells, Mitochondria and docs')
+  })
+
+  it('should remove emphasis, code, highlights and comments', () => {
+    expect(cleanInlineMarkdown('**Bold** _it_ `code` ==mark== snake_case %%hidden%%')).toBe(
+      'Bold it code mark snake_case'
+    )
+  })
+})
+
+describe('readMarkdownNote', () => {
+  it('should read one concept per heading of the chosen level', () => {
+    expect(readMarkdownNote({ path: '/vault/Biology.md', content: biology }, 2)).toEqual({
+      concepts: [
+        {
+          sourcePath: '/vault/Biology.md#Osmosis',
+          name: 'Osmosis',
+          definition: 'Diffusion of water across a semi-permeable membrane.',
+          facts: [
+            'Moves toward higher solute concentration',
+            'Needs no energy',
+            'Raisins swell in water',
+          ],
+        },
+        {
+          sourcePath: '/vault/Biology.md#Diffusion',
+          name: 'Diffusion',
+          definition: 'Movement of particles down a gradient.',
+          facts: [],
+        },
+      ],
+    })
+  })
+
+  it('should read a note tagged as a concept as one concept', () => {
+    expect(readMarkdownNote({ path: '/vault/ATP.md', content: tagged }, 2)).toEqual({
+      concepts: [
+        {
+          sourcePath: '/vault/ATP.md',
+          name: 'Adenosine triphosphate',
+          definition: 'The energy currency of the cell, see mitochondria.',
+          facts: ['Made in Mitochondria', 'Releases energy when hydrolyzed'],
+        },
+      ],
+    })
+  })
+
+  it('should prefer front matter fields and fall back to the file name', () => {
+    const content = '---\ntype: concept\ndefinition: A unit\nfacts: [One]\n---\n- Two'
+    expect(readMarkdownNote({ path: '/vault/sub/Gene.md', content }, 2)).toEqual({
+      concepts: [
+        {
+          sourcePath: '/vault/sub/Gene.md',
+          name: 'Gene',
+          definition: 'A unit',
+          facts: ['One', 'Two'],
+        },
+      ],
+    })
+  })
+
+  it('should give the reason a note holds no concept', () => {
+    expect(readMarkdownNote({ path: '/vault/Todo.md', content: 'Just text' }, 2)).toEqual({
+      reason: 'It has no "concept" tag and no level 2 headings',
+    })
+    expect(readMarkdownNote({ path: '/vault/Bad.md', content: '---\n: [\n---\n' }, 2)).toEqual({
+      reason: 'Its front matter is not valid YAML',
+    })
+  })
+})
+
+describe('planMarkdownImport', () => {
+  const stored = (
+    concept: Partial<ExistingMarkdownConcept> & { id: string; name: string }
+  ): ExistingMarkdownConcept => ({ definition: '', facts: [], ...concept })
+
+  it('should create new concepts and report notes without concepts', () => {
+    const plan = planMarkdownImport(
+      [
+        { path: '/vault/Biology.md', content: biology },
+        { path: '/vault/Todo.md', content: 'Just text' },
+      ],
+      { headingLevel: 2, existing: [], sourcePrefix: '/vault/' }
+    )
+
+    expect(plan.concepts.map((concept) => [concept.name, concept.status])).toEqual([
+      ['Osmosis', 'create'],
+      ['Diffusion', 'create'],
+    ])
+    expect(plan.skippedNotes).toEqual([
+      { path: '/vault/Todo.md', reason: 'It has no "concept" tag and no level 2 headings' },
+    ])
+  })
+
+  it('should update changed concepts by source path and report missing ones', () => {
+    const plan = planMarkdownImport([{ path: '/vault/Biology.md', content: biology }], {
+      headingLevel: 2,
+      existing: [
+        stored({
+          id: 'c1',
+          name: 'Osmosis',
+          definition: 'Diffusion of water across a semi-permeable membrane.',
+          facts: [
+            'Moves toward higher solute concentration',
+            'Needs no energy',
+            'Raisins swell in water',
+          ],
+          sourcePath: '/vault/Biology.md#Osmosis',
+        }),
+        stored({ id: 'c2', name: 'Old name', sourcePath: '/vault/Biology.md#Diffusion' }),
+        stored({ id: 'c3', name: 'Active transport', sourcePath: '/vault/Biology.md#Pumps' }),
+        stored({ id: 'c4', name: 'Elsewhere', sourcePath: '/other/Note.md' }),
+      ],
+      sourcePrefix: '/vault/',
+    })
+
+    expect(
+      plan.concepts.map((concept) => [concept.name, concept.status, concept.conceptId])
+    ).toEqual([
+      ['Osmosis', 'unchanged', 'c1'],
+      ['Diffusion', 'update', 'c2'],
+    ])
+    expect(plan.missing.map((concept) => concept.id)).toEqual(['c3'])
+  })
+
+  it('should link unclaimed concepts of the same name and skip taken names', () => {
+    const plan = planMarkdownImport(
+      [
+        { path: '/vault/Biology.md', content: biology },
+        { path: '/vault/More.md', content: '## osmosis\n\nAgain.' },
+      ],
+      {
+        headingLevel: 2,
+        existing: [stored({ id: 'c1', name: 'diffusion' })],
+        sourcePrefix: '/vault/',
+      }
+    )
+
+    expect(
+      plan.concepts.map((concept) => [concept.name, concept.status, concept.reason])
+    ).toEqual([
+      ['Osmosis', 'create', null],
+      ['Diffusion', 'update', null],
+      ['osmosis', 'skip', 'Its name is already used by /vault/Biology.md#Osmosis'],
+    ])
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Tests for the in-memory zip archive reader
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers listing and reading stored and deflated entries, archives with a
+ * trailing comment, and rejecting data that is not a zip archive.
+ */
+
+import { deflateRawSync } from 'zlib'
+
+import { ImportError } from '../../../main/infrastructure/import/errors'
+import { readZipArchive } from '../../../main/infrastructure/import/zip-archive'
+
+interface TestEntry {
+  name: string
+  content: string
+  deflate?: boolean
+}
+
+/**
+ * Builds a zip archive with the given entries (CRCs are left at zero)
+ */
+function buildZip(entries: TestEntry[], comment = ''): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name)
+    const raw = Buffer.from(entry.content)
+    const body = entry.deflate === true ? deflateRawSync(raw) : raw
+    const method = entry.deflate === true ? 8 : 0
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(body.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, body)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(body.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + body.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  end.writeUInt16LE(Buffer.byteLength(comment), 20)
+
+  return Buffer.concat([...locals, directory, end, Buffer.from(comment)])
+}
+
+describe('readZipArchive', () => {
+  it('should list and read stored and deflated entries', () => {
+    const archive = readZipArchive(
+      buildZip([
+        { name: 'media', content: '{}' },
+        { name: 'collection.anki2', content: 'hello '.repeat(50), deflate: true },
+      ])
+    )
+
+    expect(archive.names).toEqual(['media', 'collection.anki2'])
+    expect(archive.has('collection.anki2')).toBe(true)
+    expect(archive.has('collection.anki21')).toBe(false)
+    expect(archive.read('media').toString()).toBe('{}')
+    expect(archive.read('collection.anki2').toString()).toBe('hello '.repeat(50))
+  })
+
+  it('should find the directory behind an archive comment', () => {
+    const archive = readZipArchive(buildZip([{ name: 'a.txt', content: 'a' }], 'exported'))
+
+    expect(archive.read('a.txt').toString()).toBe('a')
+  })
+
+  it('should reject a missing entry', () => {
+    const archive = readZipArchive(buildZip([{ name: 'a.txt', content: 'a' }]))
+
+    expect(() => archive.read('b.txt')).toThrow(ImportError)
+  })
+
+  it('should reject data that is not a zip archive', () => {
+    const read = (): unknown => readZipArchive(Buffer.from('SQLite format 3\0'.repeat(4)))
+
+    expect(read).toThrow(ImportError)
+    expect(read).toThrow('not a valid zip archive')
+  })
+})
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Tests for the background variant generation queue
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers the concurrency limit, rate-limit pauses, retries and permanent
+ * failures, restart recovery, and discarding results of jobs cancelled or
+ * stopped while running.
+ * Uses an in-memory job store and fake timers.
+ */
+
+import { GenerationQueue } from '../../../main/infrastructure/jobs/generation-queue'
+import { LLMNotConfiguredError, LLMRateLimitError } from '../../../main/infrastructure/llm/errors'
+import { asConceptId } from '../../../shared/types/branded'
+
+import type { GenerationJob, GenerationJobStore } from '../../../main/infrastructure/jobs/types'
+import type { GeneratedVariant } from '../../../main/infrastructure/llm/types'
+import type { GenerationJobStatus } from '../../../shared/types/ipc'
+
+/**
+ * In-memory GenerationJobStore with the same guarded transitions as the repository
+ */
+class MemoryJobStore implements GenerationJobStore {
+  readonly jobs = new Map<string, GenerationJob>()
+
+  add(id: string, overrides: Partial<GenerationJob> = {}): void {
+    const now = new Date()
+    this.jobs.set(id, {
+      id,
+      conceptId: asConceptId('concept-1'),
+      dimension: 'definition',
+      difficulty: 3,
+      count: 2,
+      status: 'queued',
+      attempts: 0,
+      runAfter: now,
+      error: null,
+      variantsCreated: 0,
+      createdAt: now,
+      updatedAt: now,
+      ...overrides,
+    })
+  }
+
+  status(id: string): GenerationJobStatus | undefined {
+    return this.jobs.get(id)?.status
+  }
+
+  findRunnable(now: Date, limit: number): GenerationJob[] {
+    return [...this.jobs.values()]
+      .filter((j) => j.status === 'queued' && j.runAfter.getTime() <= now.getTime())
+      .slice(0, limit)
+  }
+
+  findNextRunAt(): Date | null {
+    const times = [...this.jobs.values()]
+      .filter((j) => j.status === 'queued')
+      .map((j) => j.runAfter.getTime())
+    return times.length > 0 ? new Date(Math.min(...times)) : null
+  }
+
+  findById(id: string): GenerationJob | null {
+    return this.jobs.get(id) ?? null
+  }
+
+  markRunning(id: string): GenerationJob | null {
+    return this.update(id, ['queued'], (j) => ({
+      status: 'running',
+      attempts: j.attempts + 1,
+    }))
+  }
+
+  markCompleted(id: string, variantsCreated: number): GenerationJob | null {
+    return this.update(id, ['running'], () => ({ status: 'completed', variantsCreated }))
+  }
+
+  markFailed(id: string, error: string): GenerationJob | null {
+    return this.update(id, ['running'], () => ({ status: 'failed', error }))
+  }
+
+  requeue(id: string, runAfter: Date, error: string): GenerationJob | null {
+    return this.update(id, ['running'], () => ({ status: 'queued', runAfter, error }))
+  }
+
+  requeueInterrupted(): number {
+    let count = 0
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running') {
+        this.update(job.id, ['running'], (j) => ({
+          status: 'queued',
+          attempts: Math.max(j.attempts - 1, 0),
+          runAfter: new Date(),
+        }))
+        count++
+      }
+    }
+    return count
+  }
+
+  cancel(id: string): GenerationJob | null {
+    return this.update(id, ['queued', 'running'], () => ({ status: 'cancelled' }))
+  }
+
+  private update(
+    id: string,
+    from: GenerationJobStatus[],
+    change: (job: GenerationJob) => Partial<GenerationJob>
+  ): GenerationJob | null {
+    const job = this.jobs.get(id)
+    if (!job || !from.includes(job.status)) return null
+    const updated = { ...job, ...change(job), updatedAt: new Date() }
+    this.jobs.set(id, updated)
+    return updated
+  }
+}
+
+/**
+ * A generate call that resolves or rejects when the test says so
+ */
+interface PendingCall {
+  job: GenerationJob
+  resolve: (variants: GeneratedVariant[]) => void
+  reject: (error: unknown) => void
+}
+
+const variant: GeneratedVariant = {
+  front: 'What is a closure?',
+  back: 'A function bundled with its lexical scope',
+  hints: [],
+  dimension: 'definition',
+  difficulty: 3,
+}
+
+describe('GenerationQueue', () => {
+  let store: MemoryJobStore
+  let calls: PendingCall[]
+  let save: jest.Mock<number, [GenerationJob, readonly GeneratedVariant[]]>
+  let queue: GenerationQueue
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    store = new MemoryJobStore()
+    calls = []
+    save = jest.fn((_job: GenerationJob, variants: readonly GeneratedVariant[]) => variants.length)
+    queue = new GenerationQueue({
+      store,
+      generate: (job) =>
+        new Promise((resolve, reject) => {
+          calls.push({ job, resolve, reject })
+        }),
+      save,
+      concurrency: 2,
+    })
+  })
+
+  afterEach(() => {
+    void queue.stop()
+    jest.useRealTimers()
+  })
+
+  it('should run no more jobs at once than the concurrency limit', async () => {
+    store.add('a')
+    store.add('b')
+    store.add('c')
+
+    queue.start()
+
+    expect(calls.map((c) => c.job.id)).toEqual(['a', 'b'])
+    expect(queue.getStats().running).toBe(2)
+
+    calls[0]?.resolve([variant, variant])
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(store.findById('a')?.status).toBe('completed')
+    expect(store.findById('a')?.variantsCreated).toBe(2)
+    expect(calls.map((c) => c.job.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should pause the queue for the retry-after time of a rate limit', async () => {
+    store.add('a')
+    queue.start()
+
+    calls[0]?.reject(new LLMRateLimitError('Rate limited', { retryAfterMs: 10000 }))
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(store.status('a')).toBe('queued')
+    expect(queue.getStats().pausedUntil).not.toBeNull()
+
+    await jest.advanceTimersByTimeAsync(9999)
+    expect(calls).toHaveLength(1)
+
+    await jest.advanceTimersByTimeAsync(1)
+    expect(calls).toHaveLength(2)
+    expect(store.findById('a')?.attempts).toBe(2)
+  })
+
+  it('should pause for the default time when the retry-after hint is not a number', async () => {
+    store.add('a')
+    queue.start()
+
+    calls[0]?.reject(new LLMRateLimitError('Rate limited', { retryAfterMs: Number.NaN }))
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(store.status('a')).toBe('queued')
+    expect(store.findById('a')?.runAfter.getTime()).not.toBeNaN()
+
+    await jest.advanceTimersByTimeAsync(29999)
+    expect(calls).toHaveLength(1)
+
+    await jest.advanceTimersByTimeAsync(1)
+    expect(calls).toHaveLength(2)
+  })
+
+  it('should fail a job at once when the LLM is not configured', async () => {
+    store.add('a')
+    queue.start()
+
+    calls[0]?.reject(new LLMNotConfiguredError('No API key', ['apiKey']))
+    await jest.advanceTimersByTimeAsync(60000)
+
+    expect(store.status('a')).toBe('failed')
+    expect(store.findById('a')?.error).toBe('No API key')
+    expect(calls).toHaveLength(1)
+  })
+
+  it('should retry other errors with backoff until attempts run out', async () => {
+    store.add('a')
+    queue.start()
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      expect(calls).toHaveLength(attempt)
+      calls[attempt - 1]?.reject(new Error('Network error'))
+      await jest.advanceTimersByTimeAsync(60000)
+    }
+
+    expect(store.status('a')).toBe('failed')
+    expect(store.findById('a')?.attempts).toBe(3)
+    expect(calls).toHaveLength(3)
+  })
+
+  it('should re-queue jobs left running by a previous process on start', () => {
+    store.add('a', { status: 'running', attempts: 1 })
+
+    expect(queue.start()).toBe(1)
+
+    expect(calls.map((c) => c.job.id)).toEqual(['a'])
+    expect(store.findById('a')?.attempts).toBe(1)
+  })
+
+  it('should discard the results of a job cancelled while running', async () => {
+    store.add('a')
+    queue.start()
+
+    store.cancel('a')
+    calls[0]?.resolve([variant])
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(save).not.toHaveBeenCalled()
+    expect(store.status('a')).toBe('cancelled')
+    expect(queue.getStats().running).toBe(0)
+  })
+  it('should leave the store alone when a job settles after the queue stopped', async () => {
+    store.add('a')
+    store.add('b')
+    queue.start()
+
+    const stopped = queue.stop()
+    calls[0]?.resolve([variant])
+    calls[1]?.reject(new Error('Network error'))
+    await stopped
+
+    expect(save).not.toHaveBeenCalled()
+    expect(store.status('a')).toBe('running')
+    expect(store.status('b')).toBe('running')
+    expect(queue.getStats().running).toBe(0)
+  })
+
+  it('should re-queue jobs stopped mid-run on the next start', async () => {
+    store.add('a')
+    queue.start()
+
+    const stopped = queue.stop()
+    calls[0]?.resolve([variant])
+    await stopped
+
+    expect(queue.start()).toBe(1)
+    expect(calls.map((c) => c.job.id)).toEqual(['a', 'a'])
+
+    calls[1]?.resolve([variant])
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(store.status('a')).toBe('completed')
+    expect(save).toHaveBeenCalledTimes(1)
+  })
+})
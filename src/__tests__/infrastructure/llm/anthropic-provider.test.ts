@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Integration tests for the Anthropic provider
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Runs the Anthropic generator and evaluator against a stub HTTP server that
+ * speaks the Messages API, covering response parsing, the mapping of HTTP
+ * statuses to LLM errors, and which failures are retried.
+ */
+
+import { createServer } from 'http'
+
+import { createAnthropicEvaluator } from '../../../main/infrastructure/llm/anthropic-evaluator'
+import { createAnthropicGenerator } from '../../../main/infrastructure/llm/anthropic-generator'
+import {
+  LLMAPIError,
+  LLMConfigurationError,
+  LLMRateLimitError,
+} from '../../../main/infrastructure/llm/errors'
+import { isTransientAPIError } from '../../../main/infrastructure/llm/retry'
+
+import type { GeneratedVariant, LLMResult } from '../../../main/infrastructure/llm/types'
+import type { IncomingMessage, Server, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+
+/**
+ * A Messages API request as received by the stub server
+ */
+interface StubRequest {
+  path: string
+  body: Record<string, unknown>
+}
+
+/**
+ * Scripted reply: status plus either text content blocks or an error message
+ */
+interface StubReply {
+  status?: number
+  text?: string[]
+  error?: string
+  headers?: Record<string, string>
+}
+
+/**
+ * Starts a stub server that answers each request with the next scripted reply
+ */
+async function startStubServer(
+  replies: StubReply[]
+): Promise<{ server: Server; baseUrl: string; requests: StubRequest[] }> {
+  const requests: StubRequest[] = []
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = ''
+    req.on('data', (chunk: Buffer) => {
+      raw += chunk.toString()
+    })
+    req.on('end', () => {
+      requests.push({
+        path: req.url ?? '',
+        body: raw === '' ? {} : (JSON.parse(raw) as Record<string, unknown>),
+      })
+
+      const reply = replies.shift() ?? { status: 500, error: 'No scripted reply' }
+      const status = reply.status ?? 200
+
+      res.writeHead(status, { 'Content-Type': 'application/json', ...reply.headers })
+      if (status >= 400) {
+        res.end(
+          JSON.stringify({
+            type: 'error',
+            error: { type: 'api_error', message: reply.error ?? 'error' },
+          })
+        )
+        return
+      }
+      res.end(
+        JSON.stringify({
+          id: `msg_${requests.length}`,
+          type: 'message',
+          role: 'assistant',
+          model: 'stub-model',
+          content: (reply.text ?? []).map((text) => ({ type: 'text', text })),
+          stop_reason: 'end_turn',
+          stop_sequence: null,
+          usage: { input_tokens: 120, output_tokens: 80 },
+        })
+      )
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return { server, baseUrl: `http://127.0.0.1:${port}`, requests }
+}
+
+const concept = {
+  name: 'Photosynthesis',
+  definition: 'Conversion of light energy into chemical energy by plants',
+  facts: ['Occurs in chloroplasts'],
+}
+
+const generationRequest = {
+  concept,
+  dimension: 'definition' as const,
+  difficulty: 2 as const,
+  count: 1,
+}
+
+const variantsJson = JSON.stringify([
+  { front: 'What is photosynthesis?', back: 'Light to chemical energy', hints: ['plants'] },
+])
+
+describe('Anthropic Provider', () => {
+  let server: Server | null = null
+
+  afterEach(async () => {
+    const running = server
+    server = null
+    if (running !== null) {
+      await new Promise<void>((resolve) => running.close(() => resolve()))
+    }
+  })
+
+  /**
+   * Runs one generation against scripted replies and returns the result
+   */
+  async function generate(
+    replies: StubReply[],
+    maxRetries = 0
+  ): Promise<{ result: LLMResult<GeneratedVariant[]>; requests: StubRequest[] }> {
+    const stub = await startStubServer(replies)
+    server = stub.server
+
+    const generator = createAnthropicGenerator({
+      apiKey: 'test-key',
+      baseUrl: stub.baseUrl,
+      model: 'stub-model',
+      maxRetries,
+    })
+    const result = await generator.generateVariants(generationRequest)
+    return { result, requests: stub.requests }
+  }
+
+  describe('response parsing', () => {
+    it('should join the text blocks and parse the generated variants', async () => {
+      const half = Math.floor(variantsJson.length / 2)
+      const { result, requests } = await generate([
+        { text: [variantsJson.slice(0, half), variantsJson.slice(half)] },
+      ])
+
+      expect(result.success).toBe(true)
+      expect(result.success && result.value[0]?.front).toBe('What is photosynthesis?')
+      expect(requests[0]?.path).toBe('/v1/messages')
+      expect(requests[0]?.body.model).toBe('stub-model')
+    })
+
+    it('should extract the variants from prose around a code block', async () => {
+      const { result } = await generate([
+        { text: [`Here are your cards:\n\`\`\`json\n${variantsJson}\n\`\`\``] },
+      ])
+
+      expect(result.success && result.value).toHaveLength(1)
+    })
+
+    it('should report an empty reply as an API error', async () => {
+      const { result } = await generate([{ text: [] }])
+
+      expect(!result.success && result.error).toBeInstanceOf(LLMAPIError)
+      expect(!result.success && result.error.message).toBe('Empty response from Anthropic')
+    })
+
+    it('should parse an evaluation object', async () => {
+      const stub = await startStubServer([
+        { text: ['{"score": 0.8, "feedback": "Mostly right", "keyPointsCovered": ["light"]}'] },
+      ])
+      server = stub.server
+
+      const evaluator = createAnthropicEvaluator({ apiKey: 'test-key', baseUrl: stub.baseUrl })
+      const result = await evaluator.evaluateResponse({
+        question: 'What is photosynthesis?',
+        modelAnswer: 'Conversion of light energy into chemical energy',
+        userResponse: 'Plants turning light into energy',
+        conceptName: 'Photosynthesis',
+        dimension: 'definition',
+      })
+
+      expect(result.success && result.value.score).toBe(0.8)
+      expect(result.success && result.value.suggestedRating).toBe('good')
+    })
+  })
+
+  describe('status mapping', () => {
+    it.each([429, 529])('should map %i to a rate limit with its retry-after', async (status) => {
+      const { result } = await generate([
+        { status, error: 'busy', headers: { 'retry-after': '7' } },
+      ])
+
+      expect(!result.success && result.error).toBeInstanceOf(LLMRateLimitError)
+      expect(!result.success && (result.error as LLMRateLimitError).retryAfterMs).toBe(7000)
+    })
+
+    it.each([401, 403])('should map %i to a configuration error', async (status) => {
+      const { result } = await generate([{ status, error: 'invalid x-api-key' }])
+
+      expect(!result.success && result.error).toBeInstanceOf(LLMConfigurationError)
+      expect(!result.success && (result.error as LLMConfigurationError).missingFields).toEqual([
+        'apiKey',
+      ])
+    })
+
+    it.each([400, 404, 500])('should map %i to an API error with its status', async (status) => {
+      const { result } = await generate([{ status, error: 'failed' }])
+
+      expect(!result.success && result.error).toBeInstanceOf(LLMAPIError)
+      expect(!result.success && (result.error as LLMAPIError).statusCode).toBe(status)
+    })
+  })
+
+  describe('retries', () => {
+    it.each([400, 404])('should not retry a %i response', async (status) => {
+      const { result, requests } = await generate([{ status, error: 'bad request' }], 2)
+
+      expect(result.success).toBe(false)
+      expect(requests).toHaveLength(1)
+    })
+
+    it('should retry a server error', async () => {
+      const { result, requests } = await generate(
+        [{ status: 500, error: 'overloaded' }, { text: [variantsJson] }],
+        1
+      )
+
+      expect(result.success).toBe(true)
+      expect(requests).toHaveLength(2)
+    })
+
+    it('should wait out a rate limit and retry', async () => {
+      const { result, requests } = await generate(
+        [{ status: 429, error: 'busy', headers: { 'retry-after': '0' } }, { text: [variantsJson] }],
+        1
+      )
+
+      expect(result.success).toBe(true)
+      expect(requests).toHaveLength(2)
+    })
+  })
+
+  describe('isTransientAPIError', () => {
+    const apiError = (statusCode?: number): LLMAPIError =>
+      new LLMAPIError('failed', 'anthropic', statusCode === undefined ? {} : { statusCode })
+
+    it('should treat network failures, timeouts and server errors as transient', () => {
+      expect(isTransientAPIError(apiError())).toBe(true)
+      expect(isTransientAPIError(apiError(408))).toBe(true)
+      expect(isTransientAPIError(apiError(429))).toBe(true)
+      expect(isTransientAPIError(apiError(503))).toBe(true)
+    })
+
+    it('should treat other client errors as permanent', () => {
+      expect(isTransientAPIError(apiError(400))).toBe(false)
+      expect(isTransientAPIError(apiError(404))).toBe(false)
+      expect(isTransientAPIError(apiError(422))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Unit tests for LLM distractor prompts and response parsing
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers sibling concept selection, the distractor prompt contents, and
+ * parsing that ranks distractors and never returns a correct answer.
+ */
+
+import { parseDistractorResponse } from '../../../main/infrastructure/llm/generator'
+import {
+  buildDistractorPrompt,
+  selectSiblingConcepts,
+} from '../../../main/infrastructure/llm/prompts'
+
+import type { DistractorRequest } from '../../../main/infrastructure/llm/types'
+
+const request: DistractorRequest = {
+  concept: {
+    name: 'Closure',
+    definition: 'A function bundled with references to its surrounding lexical scope',
+    facts: ['Closures keep captured variables alive', 'Every function in JavaScript is a closure'],
+  },
+  question: 'What is a closure?',
+  correctAnswer: 'A function with its lexical scope',
+  acceptedAnswers: ['Function plus lexical environment'],
+  siblings: [{ name: 'Callback', definition: 'A function passed to another function' }],
+  count: 3,
+}
+
+describe('LLM distractors', () => {
+  describe('selectSiblingConcepts', () => {
+    it('should rank concepts sharing the most distinctive words first', () => {
+      const siblings = selectSiblingConcepts(
+        request.concept,
+        [
+          { name: 'Event loop', definition: 'Schedules queued tasks' },
+          { name: 'Lexical scope', definition: 'Scope determined by where a function is written' },
+          { name: 'Hoisting', definition: 'Declarations move to the top of their scope' },
+        ],
+        2
+      )
+
+      expect(siblings.map((s) => s.name)).toEqual(['Lexical scope', 'Hoisting'])
+    })
+
+    it('should leave out a candidate with the same name as the concept', () => {
+      const siblings = selectSiblingConcepts(
+        request.concept,
+        [{ name: 'closure ', definition: 'Duplicate' }],
+        5
+      )
+
+      expect(siblings).toEqual([])
+    })
+  })
+
+  describe('buildDistractorPrompt', () => {
+    it('should include the facts, related concepts and answers to avoid', () => {
+      const prompt = buildDistractorPrompt(request)
+
+      expect(prompt).toContain('1. Closures keep captured variables alive')
+      expect(prompt).toContain('- Callback: A function passed to another function')
+      expect(prompt).toContain('"Function plus lexical environment"')
+      expect(prompt).toContain('exactly 3 distractor(s)')
+    })
+  })
+
+  describe('parseDistractorResponse', () => {
+    it('should drop options matching the correct or accepted answers', () => {
+      const response = JSON.stringify([
+        { text: 'a function with its LEXICAL scope!', plausibility: 0.9 },
+        { text: 'Function plus lexical environment', plausibility: 0.8 },
+        { text: 'A function passed as an argument', plausibility: 0.7 },
+      ])
+
+      const distractors = parseDistractorResponse(response, request)
+
+      expect(distractors.map((d) => d.text)).toEqual(['A function passed as an argument'])
+    })
+
+    it('should rank by plausibility, remove duplicates and keep at most count', () => {
+      const response = JSON.stringify({
+        distractors: [
+          { text: 'A callback', plausibility: 0.4, confusedWith: 'Callback' },
+          { text: 'A copy of the global scope', plausibility: 0.9 },
+          { text: 'a callback', plausibility: 0.95 },
+          { text: 'An immediately invoked function', plausibility: 0.6 },
+          { text: 'A module', plausibility: 0.2 },
+        ],
+      })
+
+      const distractors = parseDistractorResponse(response, request)
+
+      expect(distractors.map((d) => d.text)).toEqual([
+        'A copy of the global scope',
+        'An immediately invoked function',
+        'A callback',
+      ])
+      expect(distractors[2]?.confusedWith).toBe('Callback')
+    })
+
+    it('should accept plain strings in model order', () => {
+      const distractors = parseDistractorResponse('["A loop", "A class"]', request)
+
+      expect(distractors).toEqual([
+        { text: 'A loop', rationale: '', confusedWith: null, plausibility: 1 },
+        { text: 'A class', rationale: '', confusedWith: null, plausibility: 0.5 },
+      ])
+    })
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tests for the LLM evaluation cache
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers cache key stability and sensitivity to the evaluation input and
+ * evaluator identity, serving repeats from the cache, not caching failures,
+ * and evaluating normally when the cache store fails.
+ */
+
+import {
+  CachingEvaluator,
+  evaluationCacheKey,
+} from '../../../main/infrastructure/llm/evaluation-cache'
+
+import type {
+  EvaluationCacheStore,
+  EvaluatorIdentity,
+} from '../../../main/infrastructure/llm/evaluation-cache'
+import type { LLMEvaluator } from '../../../main/infrastructure/llm/evaluator'
+import type { LLMResult } from '../../../main/infrastructure/llm/types'
+import type { EvaluationRequest, LLMEvaluationResult } from '../../../shared/types/ipc'
+
+const identity: EvaluatorIdentity = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  promptVersion: 'v1',
+}
+
+const request: EvaluationRequest = {
+  question: 'Why do closures keep variables alive?',
+  modelAnswer: 'The function keeps a reference to its lexical environment',
+  userResponse: 'Because the inner function still references the outer scope',
+  rubric: { keyPoints: ['reference to the environment'] },
+  conceptName: 'Closure',
+  dimension: 'scenario',
+}
+
+const evaluation: LLMEvaluationResult = {
+  score: 0.8,
+  feedback: 'Good',
+  keyPointsCovered: ['reference to the environment'],
+  keyPointsMissed: [],
+  confidence: 0.9,
+  suggestedRating: 'good',
+  demonstratesUnderstanding: true,
+}
+
+/**
+ * In-memory EvaluationCacheStore
+ */
+class MemoryCacheStore implements EvaluationCacheStore {
+  readonly entries = new Map<string, LLMEvaluationResult>()
+
+  find(key: string): LLMEvaluationResult | null {
+    return this.entries.get(key) ?? null
+  }
+
+  save(key: string, _identity: EvaluatorIdentity, result: LLMEvaluationResult): void {
+    this.entries.set(key, result)
+  }
+}
+
+describe('Evaluation Cache', () => {
+  describe('evaluationCacheKey', () => {
+    it('should give equal requests the same key', () => {
+      expect(evaluationCacheKey({ ...request }, { ...identity })).toBe(
+        evaluationCacheKey(request, identity)
+      )
+    })
+
+    it('should change the key when the response, rubric, model or prompt version changes', () => {
+      const key = evaluationCacheKey(request, identity)
+
+      expect(evaluationCacheKey({ ...request, userResponse: 'Scope' }, identity)).not.toBe(key)
+      expect(evaluationCacheKey({ ...request, rubric: { keyPoints: [] } }, identity)).not.toBe(key)
+      expect(evaluationCacheKey(request, { ...identity, model: 'gpt-4o' })).not.toBe(key)
+      expect(evaluationCacheKey(request, { ...identity, promptVersion: 'v2' })).not.toBe(key)
+    })
+  })
+
+  describe('CachingEvaluator', () => {
+    let store: MemoryCacheStore
+    let evaluate: jest.Mock<ReturnType<LLMEvaluator['evaluateResponse']>, [EvaluationRequest]>
+    let evaluator: CachingEvaluator
+
+    beforeEach(() => {
+      store = new MemoryCacheStore()
+      evaluate = jest.fn((_request: EvaluationRequest) =>
+        Promise.resolve<LLMResult<LLMEvaluationResult>>({ success: true, value: evaluation })
+      )
+      evaluator = new CachingEvaluator({ evaluateResponse: evaluate }, store, identity)
+    })
+
+    it('should answer a repeated request from the cache', async () => {
+      await evaluator.evaluateResponse(request)
+      const repeat = await evaluator.evaluateResponse({ ...request })
+
+      expect(repeat).toEqual({ success: true, value: evaluation })
+      expect(evaluate).toHaveBeenCalledTimes(1)
+      expect(evaluator.getStats()).toEqual({ hits: 1, misses: 1 })
+    })
+
+    it('should not cache failed evaluations', async () => {
+      evaluate.mockResolvedValueOnce({ success: false, error: new Error('Timeout') })
+
+      await evaluator.evaluateResponse(request)
+      const retry = await evaluator.evaluateResponse(request)
+
+      expect(retry.success).toBe(true)
+      expect(evaluate).toHaveBeenCalledTimes(2)
+    })
+
+    it('should still evaluate when the cache cannot be read or written', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      const broken: EvaluationCacheStore = {
+        find: () => {
+          throw new Error('disk I/O error')
+        },
+        save: () => {
+          throw new Error('disk I/O error')
+        },
+      }
+      evaluator = new CachingEvaluator({ evaluateResponse: evaluate }, broken, identity)
+
+      const result = await evaluator.evaluateResponse(request)
+
+      expect(result).toEqual({ success: true, value: evaluation })
+      expect(warn).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Integration tests for the local OpenAI-compatible provider
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Runs the local generator and evaluator against a stub HTTP server that
+ * speaks the OpenAI chat completions API, covering JSON mode, the fallback
+ * for servers without response_format, rate-limit retries, unreachable
+ * servers, and usage logging.
+ */
+
+import { createServer } from 'http'
+
+import { LLMAPIError } from '../../../main/infrastructure/llm/errors'
+import { resolveLocalBaseUrl } from '../../../main/infrastructure/llm/local-client'
+import { createLocalEvaluator } from '../../../main/infrastructure/llm/local-evaluator'
+import { createLocalGenerator } from '../../../main/infrastructure/llm/local-generator'
+import { UsageMeter } from '../../../main/infrastructure/llm/usage'
+
+import type { LLMUsageEntry } from '../../../main/infrastructure/llm/usage'
+import type { IncomingMessage, Server, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+
+/**
+ * A chat completion request as received by the stub server
+ */
+interface StubRequest {
+  path: string
+  body: Record<string, unknown>
+}
+
+/**
+ * Scripted reply: status plus either completion content or an error message
+ */
+interface StubReply {
+  status?: number
+  content?: string
+  error?: string
+  headers?: Record<string, string>
+}
+
+/**
+ * Starts a stub server that answers each request with the next scripted reply
+ */
+async function startStubServer(
+  replies: Array<StubReply | ((request: StubRequest) => StubReply)>
+): Promise<{ server: Server; baseUrl: string; requests: StubRequest[] }> {
+  const requests: StubRequest[] = []
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = ''
+    req.on('data', (chunk: Buffer) => {
+      raw += chunk.toString()
+    })
+    req.on('end', () => {
+      const request: StubRequest = {
+        path: req.url ?? '',
+        body: raw === '' ? {} : (JSON.parse(raw) as Record<string, unknown>),
+      }
+      requests.push(request)
+
+      const next = replies.shift() ?? { status: 500, error: 'No scripted reply' }
+      const reply = typeof next === 'function' ? next(request) : next
+      const status = reply.status ?? 200
+
+      res.writeHead(status, { 'Content-Type': 'application/json', ...reply.headers })
+      if (status >= 400) {
+        res.end(JSON.stringify({ error: { message: reply.error ?? 'error' } }))
+        return
+      }
+      res.end(
+        JSON.stringify({
+          id: `chatcmpl-${requests.length}`,
+          object: 'chat.completion',
+          created: 0,
+          model: 'stub-model',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: reply.content ?? '' },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: { prompt_tokens: 120, completion_tokens: 80, total_tokens: 200 },
+        })
+      )
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return { server, baseUrl: `http://127.0.0.1:${port}`, requests }
+}
+
+const concept = {
+  name: 'Photosynthesis',
+  definition: 'Conversion of light energy into chemical energy by plants',
+  facts: ['Occurs in chloroplasts'],
+}
+
+const variantsJson = JSON.stringify([
+  { front: 'What is photosynthesis?', back: 'Light to chemical energy', hints: ['plants'] },
+])
+
+describe('Local Provider', () => {
+  let server: Server | null = null
+
+  afterEach(async () => {
+    const running = server
+    server = null
+    if (running !== null) {
+      await new Promise<void>((resolve) => running.close(() => resolve()))
+    }
+  })
+
+  describe('resolveLocalBaseUrl', () => {
+    it('should default to Ollama on localhost', () => {
+      expect(resolveLocalBaseUrl()).toBe('http://localhost:11434/v1')
+      expect(resolveLocalBaseUrl('  ')).toBe('http://localhost:11434/v1')
+    })
+
+    it('should append /v1 to a bare server address', () => {
+      expect(resolveLocalBaseUrl('http://localhost:8080/')).toBe('http://localhost:8080/v1')
+      expect(resolveLocalBaseUrl('http://localhost:8080/v1')).toBe('http://localhost:8080/v1')
+    })
+  })
+
+  describe('LocalGenerator', () => {
+    it('should request JSON mode and parse the generated variants', async () => {
+      const wrapped = JSON.stringify({ variants: JSON.parse(variantsJson) as unknown })
+      const stub = await startStubServer([{ content: wrapped }])
+      server = stub.server
+
+      const generator = createLocalGenerator({ baseUrl: stub.baseUrl, model: 'stub-model' })
+      const result = await generator.generateVariants({
+        concept,
+        dimension: 'definition',
+        difficulty: 2,
+        count: 1,
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.success && result.value[0]?.front).toBe('What is photosynthesis?')
+      expect(stub.requests[0]?.path).toBe('/v1/chat/completions')
+      expect(stub.requests[0]?.body.response_format).toEqual({ type: 'json_object' })
+      expect(stub.requests[0]?.body.model).toBe('stub-model')
+    })
+
+    it('should retry without response_format and extract the array from prose', async () => {
+      const stub = await startStubServer([
+        { status: 400, error: 'response_format is not supported' },
+        (request) =>
+          request.body.response_format === undefined
+            ? { content: `Here are your cards:\n\`\`\`json\n${variantsJson}\n\`\`\`` }
+            : { status: 400, error: 'response_format is not supported' },
+        (request) =>
+          request.body.response_format === undefined
+            ? { content: variantsJson }
+            : { status: 500, error: 'JSON mode requested again' },
+      ])
+      server = stub.server
+
+      const generator = createLocalGenerator({ baseUrl: stub.baseUrl, maxRetries: 0 })
+      const request = { concept, dimension: 'definition' as const, difficulty: 2 as const, count: 1 }
+
+      const first = await generator.generateVariants(request)
+      expect(first.success && first.value).toHaveLength(1)
+
+      // JSON mode stays off after the server rejected it
+      const second = await generator.generateVariants(request)
+      expect(second.success).toBe(true)
+      expect(stub.requests).toHaveLength(3)
+    })
+
+    it('should log every request with its outcome and tokens', async () => {
+      const stub = await startStubServer([
+        { status: 400, error: 'response_format is not supported' },
+        { content: variantsJson },
+      ])
+      server = stub.server
+      const entries: LLMUsageEntry[] = []
+      const usage = new UsageMeter(
+        { record: (entry) => entries.push(entry), getSpendSince: () => 0 },
+        null
+      )
+
+      const generator = createLocalGenerator({ baseUrl: stub.baseUrl, model: 'stub-model', usage })
+      await generator.generateVariants({
+        concept,
+        dimension: 'definition',
+        difficulty: 2,
+        count: 1,
+      })
+
+      expect(entries.map((entry) => entry.outcome)).toEqual(['error', 'success'])
+      expect(entries[1]).toMatchObject({
+        provider: 'local',
+        model: 'stub-model',
+        feature: 'generation',
+        promptTokens: 120,
+        completionTokens: 80,
+        costUsd: 0,
+      })
+    })
+
+    it('should wait out a rate limit and retry', async () => {
+      const stub = await startStubServer([
+        { status: 429, error: 'busy', headers: { 'retry-after': '0' } },
+        { content: variantsJson },
+      ])
+      server = stub.server
+
+      const generator = createLocalGenerator({ baseUrl: stub.baseUrl, maxRetries: 1 })
+      const result = await generator.generateVariants({
+        concept,
+        dimension: 'definition',
+        difficulty: 2,
+        count: 1,
+      })
+
+      expect(result.success).toBe(true)
+      expect(stub.requests).toHaveLength(2)
+    })
+
+    it('should report an unreachable server as an API error', async () => {
+      const stub = await startStubServer([])
+      const { baseUrl } = stub
+      await new Promise<void>((resolve) => stub.server.close(() => resolve()))
+
+      const generator = createLocalGenerator({ baseUrl, maxRetries: 0 })
+      const result = await generator.generateVariants({
+        concept,
+        dimension: 'definition',
+        difficulty: 2,
+        count: 1,
+      })
+
+      expect(result.success).toBe(false)
+      expect(!result.success && result.error).toBeInstanceOf(LLMAPIError)
+      expect(!result.success && result.error.message).toContain('Could not reach local model server')
+    })
+  })
+
+  describe('LocalEvaluator', () => {
+    it('should parse an evaluation object wrapped in prose', async () => {
+      const stub = await startStubServer([
+        {
+          content:
+            'Evaluation:\n{"score": 0.8, "feedback": "Mostly right", "keyPointsCovered": ["light"]}',
+        },
+      ])
+      server = stub.server
+
+      const evaluator = createLocalEvaluator({ baseUrl: stub.baseUrl })
+      const result = await evaluator.evaluateResponse({
+        question: 'What is photosynthesis?',
+        modelAnswer: 'Conversion of light energy into chemical energy',
+        userResponse: 'Plants turning light into energy',
+        conceptName: 'Photosynthesis',
+        dimension: 'definition',
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.success && result.value.score).toBe(0.8)
+      expect(result.success && result.value.suggestedRating).toBe('good')
+      expect(result.success && result.value.keyPointsCovered).toEqual(['light'])
+    })
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Tests for the settings-driven LLM service registry
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers configuration status, the typed "not configured" error for cloud
+ * providers without an API key, rebuilding adapters after settings change, and
+ * the identity of cached evaluators.
+ */
+
+import { LLMNotConfiguredError } from '../../../main/infrastructure/llm/errors'
+import { CachingEvaluator } from '../../../main/infrastructure/llm/evaluation-cache'
+import { EVALUATION_PROMPT_VERSION } from '../../../main/infrastructure/llm/evaluation-prompts'
+import { OpenAIGenerator } from '../../../main/infrastructure/llm/generator'
+import { describeLLMError, llmServices } from '../../../main/infrastructure/llm/registry'
+
+import type { LLMConfigDTO } from '../../../shared/types/ipc'
+
+const openAISettings: LLMConfigDTO = { provider: 'openai', apiKey: '', model: '' }
+
+describe('LLM Service Registry', () => {
+  describe('getStatus', () => {
+    it('should report a cloud provider without an API key as not configured', () => {
+      llmServices.configure(openAISettings)
+
+      const status = llmServices.getStatus()
+
+      expect(status.configured).toBe(false)
+      expect(status.model).toBe('gpt-4o-mini')
+      expect(status.error?.code).toBe('LLM_NOT_CONFIGURED')
+      expect(status.error?.missingFields).toEqual(['apiKey'])
+    })
+
+    it('should report a local server as configured without an API key', () => {
+      llmServices.configure({ provider: 'local', apiKey: '', model: 'mistral' })
+
+      expect(llmServices.getStatus()).toEqual({
+        configured: true,
+        provider: 'local',
+        model: 'mistral',
+      })
+    })
+  })
+
+  describe('getGenerator / getEvaluator', () => {
+    it('should throw LLMNotConfiguredError when the API key is missing', () => {
+      llmServices.configure(openAISettings)
+
+      expect(() => llmServices.getGenerator()).toThrow(LLMNotConfiguredError)
+      expect(() => llmServices.getEvaluator()).toThrow('Add one in Settings')
+    })
+
+    it('should reuse adapters until the settings change', () => {
+      llmServices.configure({ ...openAISettings, apiKey: 'sk-test' })
+      const generator = llmServices.getGenerator()
+
+      expect(generator).toBeInstanceOf(OpenAIGenerator)
+      expect(llmServices.getGenerator()).toBe(generator)
+
+      llmServices.configure({ provider: 'local', apiKey: '', model: '' })
+
+      expect(llmServices.getGenerator()).not.toBe(generator)
+      expect(llmServices.getEvaluator()).toBeInstanceOf(CachingEvaluator)
+    })
+  })
+
+  describe('createEvaluator', () => {
+    it('should identify cached evaluations by provider, model and prompt version', () => {
+      llmServices.configure({ provider: 'local', apiKey: '', model: '' })
+
+      expect(llmServices.createEvaluator().identity).toEqual({
+        provider: 'local',
+        model: 'llama3.1',
+        promptVersion: EVALUATION_PROMPT_VERSION,
+      })
+      expect(llmServices.createEvaluator(' mistral ').identity.model).toBe('mistral')
+    })
+  })
+
+  describe('describeLLMError', () => {
+    it('should describe other failures as request failures', () => {
+      expect(describeLLMError(new Error('socket hang up'))).toEqual({
+        code: 'LLM_REQUEST_FAILED',
+        message: 'socket hang up',
+      })
+    })
+  })
+})
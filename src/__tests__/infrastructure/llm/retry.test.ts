@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Tests for reading retry-after hints
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers both forms of the retry-after header, seconds and HTTP dates, and
+ * headers that cannot be read.
+ */
+
+import { parseRetryAfter } from '../../../main/infrastructure/llm/retry'
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-28T12:00:00Z')
+
+  it('should convert seconds to milliseconds', () => {
+    expect(parseRetryAfter('7', now)).toBe(7000)
+    expect(parseRetryAfter(' 1.5 ', now)).toBe(1500)
+    expect(parseRetryAfter('0', now)).toBe(0)
+  })
+
+  it('should wait until an HTTP date', () => {
+    expect(parseRetryAfter('Wed, 28 Jan 2026 12:00:30 GMT', now)).toBe(30000)
+  })
+
+  it('should not wait for an HTTP date in the past', () => {
+    expect(parseRetryAfter('Wed, 28 Jan 2026 11:59:00 GMT', now)).toBe(0)
+  })
+
+  it('should ignore missing and unreadable headers', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined()
+    expect(parseRetryAfter(null, now)).toBeUndefined()
+    expect(parseRetryAfter('', now)).toBeUndefined()
+    expect(parseRetryAfter('soon', now)).toBeUndefined()
+    expect(parseRetryAfter('-5', now)).toBeUndefined()
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Tests for LLM usage logging and the monthly budget
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers cost estimation from the price table, logging successful, failed
+ * and blocked calls, blocking once the month's spend reaches the budget, and
+ * running calls normally when the usage store fails.
+ */
+
+import { LLMAPIError, LLMBudgetExceededError } from '../../../main/infrastructure/llm/errors'
+import {
+  estimateCostUsd,
+  startOfMonth,
+  UsageMeter,
+} from '../../../main/infrastructure/llm/usage'
+
+import type { LLMUsageEntry, LLMUsageStore } from '../../../main/infrastructure/llm/usage'
+
+const call = { provider: 'openai', model: 'gpt-4o-mini', feature: 'evaluation' } as const
+
+const now = new Date(2026, 0, 20, 12, 0, 0)
+
+/**
+ * In-memory LLMUsageStore
+ */
+class MemoryUsageStore implements LLMUsageStore {
+  readonly entries: LLMUsageEntry[] = []
+
+  record(entry: LLMUsageEntry): void {
+    this.entries.push(entry)
+  }
+
+  getSpendSince(since: Date): number {
+    return this.entries
+      .filter((entry) => entry.createdAt >= since)
+      .reduce((total, entry) => total + (entry.costUsd ?? 0), 0)
+  }
+}
+
+/**
+ * Store whose every operation fails
+ */
+const brokenStore: LLMUsageStore = {
+  record: () => {
+    throw new Error('database is locked')
+  },
+  getSpendSince: () => {
+    throw new Error('database is locked')
+  },
+}
+
+describe('LLM Usage', () => {
+  describe('estimateCostUsd', () => {
+    it('should price tokens with the longest matching model prefix', () => {
+      const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000 }
+
+      expect(estimateCostUsd('openai', 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75)
+      expect(estimateCostUsd('openai', 'gpt-4o', usage)).toBeCloseTo(12.5)
+      expect(estimateCostUsd('anthropic', 'claude-3-5-haiku-latest', usage)).toBeCloseTo(4.8)
+    })
+
+    it('should treat local models as free and unknown models as unpriced', () => {
+      const usage = { promptTokens: 500, completionTokens: 500 }
+
+      expect(estimateCostUsd('local', 'llama3.1', usage)).toBe(0)
+      expect(estimateCostUsd('openai', 'my-fine-tune', usage)).toBeNull()
+    })
+  })
+
+  describe('startOfMonth', () => {
+    it('should return local midnight on the first of the month', () => {
+      expect(startOfMonth(now)).toEqual(new Date(2026, 0, 1))
+    })
+  })
+
+  describe('UsageMeter', () => {
+    it('should log a successful call with its tokens and cost', async () => {
+      const store = new MemoryUsageStore()
+      const meter = new UsageMeter(store, null, () => now)
+
+      const value = await meter.track(call, () =>
+        Promise.resolve({
+          value: 'ok',
+          usage: { promptTokens: 1000, completionTokens: 500 },
+        })
+      )
+
+      expect(value).toBe('ok')
+      expect(store.entries).toHaveLength(1)
+      expect(store.entries[0]).toMatchObject({
+        ...call,
+        promptTokens: 1000,
+        completionTokens: 500,
+        outcome: 'success',
+        error: null,
+        createdAt: now,
+      })
+      expect(store.entries[0]?.costUsd).toBeCloseTo(0.00045)
+    })
+
+    it('should log a failed call and rethrow its error', async () => {
+      const store = new MemoryUsageStore()
+      const meter = new UsageMeter(store, null, () => now)
+      const failure = new LLMAPIError('Server error', 'openai', { statusCode: 500 })
+
+      await expect(meter.track(call, () => Promise.reject(failure))).rejects.toBe(failure)
+      expect(store.entries[0]).toMatchObject({
+        outcome: 'error',
+        error: 'Server error',
+        promptTokens: null,
+        costUsd: null,
+      })
+    })
+
+    it('should block calls once the month has spent the budget', async () => {
+      const store = new MemoryUsageStore()
+      store.record({
+        ...call,
+        promptTokens: 0,
+        completionTokens: 0,
+        latencyMs: 100,
+        outcome: 'success',
+        error: null,
+        costUsd: 5,
+        createdAt: new Date(2026, 0, 5),
+      })
+      const meter = new UsageMeter(store, 5, () => now)
+      const run = jest.fn(() => Promise.resolve({ value: 'ok', usage: null }))
+
+      await expect(meter.track(call, run)).rejects.toBeInstanceOf(LLMBudgetExceededError)
+      expect(run).not.toHaveBeenCalled()
+      expect(store.entries[1]).toMatchObject({ outcome: 'blocked', latencyMs: 0 })
+    })
+
+    it('should ignore spend from previous months', async () => {
+      const store = new MemoryUsageStore()
+      store.record({
+        ...call,
+        promptTokens: 0,
+        completionTokens: 0,
+        latencyMs: 100,
+        outcome: 'success',
+        error: null,
+        costUsd: 50,
+        createdAt: new Date(2025, 11, 31),
+      })
+      const meter = new UsageMeter(store, 5, () => now)
+
+      await expect(
+        meter.track(call, () => Promise.resolve({ value: 'ok', usage: null }))
+      ).resolves.toBe('ok')
+    })
+
+    it('should run calls normally when the usage store fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      const meter = new UsageMeter(brokenStore, 1, () => now)
+
+      await expect(
+        meter.track(call, () => Promise.resolve({ value: 'ok', usage: null }))
+      ).resolves.toBe('ok')
+      expect(warn).toHaveBeenCalledTimes(2)
+      warn.mockRestore()
+    })
+  })
+})
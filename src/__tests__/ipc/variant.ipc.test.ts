@@ -0,0 +1,392 @@
+/**
+ * @fileoverview Tests for the LLM generation and bulk creation handlers for variants
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Covers option validation and the typed "not configured" error of
+ * variants:generate and variants:generateDistractors, failures reported per
+ * dimension and difficulty next to the drafts of the other combinations, the
+ * all-or-nothing batch of variants:createMany, and the answer options
+ * variants:update clears. Handlers are invoked through a stub ipcMain; the
+ * repositories keep their rows in memory and the generator is scripted.
+ */
+
+import { LLMAPIError, LLMNotConfiguredError } from '../../main/infrastructure/llm/errors'
+import { registerVariantHandlers } from '../../main/ipc/variant.ipc'
+import { asConceptId } from '../../shared/types/branded'
+
+import type {
+  GeneratedVariant,
+  GenerationRequest,
+  LLMGateway,
+  LLMResult,
+} from '../../main/infrastructure/llm/types'
+import type { IPCError } from '../../main/ipc'
+import type { Concept, Variant } from '../../shared/types/core'
+import type {
+  CreateVariantDTO,
+  GenerateDistractorsDTO,
+  GenerateDistractorsResultDTO,
+  GenerateVariantsDTO,
+  GenerateVariantsResultDTO,
+  VariantDTO,
+} from '../../shared/types/ipc'
+
+/** Handlers registered through the stub ipcMain, by channel */
+const mockHandlers = new Map<string, (event: unknown, args: unknown) => Promise<unknown>>()
+
+/** Concepts the stub concept repository knows */
+let mockConcepts: Concept[] = []
+
+/** Variants saved through the stub variant repository */
+let mockSaved: Variant[] = []
+
+/** Front of a variant the stub variant repository fails to save, if any */
+let mockFailingFront: string | null = null
+
+/** Returns the generator for the stub LLM registry; throws when not configured */
+let mockGetGenerator: () => LLMGateway
+
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: (channel: string, handler: (event: unknown, args: unknown) => Promise<unknown>) =>
+      mockHandlers.set(channel, handler),
+  },
+}))
+
+// Loaded through the IPC registry; its worker import only resolves in the electron-vite build
+jest.mock('../../main/infrastructure/jobs/optimize-scheduler', () => ({
+  optimizeSchedulerInWorker: jest.fn(),
+}))
+
+jest.mock('../../main/infrastructure/database/connection', () => ({
+  getDatabase: jest.fn(),
+  // Restores the saved variants when the callback throws, like a rollback
+  withTransaction: <T>(fn: () => T): T => {
+    const before = [...mockSaved]
+    try {
+      return fn()
+    } catch (error) {
+      mockSaved = before
+      throw error
+    }
+  },
+}))
+
+jest.mock('../../main/infrastructure/database/repositories/concept.repository', () => ({
+  ConceptRepository: {
+    findById: (id: string) => mockConcepts.find((concept) => concept.id === id) ?? null,
+    findAll: () => mockConcepts,
+  },
+}))
+
+jest.mock('../../main/infrastructure/database/repositories/variant.repository', () => ({
+  VariantRepository: {
+    findByConceptId: () => [],
+    findById: (id: string) => mockSaved.find((variant) => variant.id === id) ?? null,
+    // Keeps the fields the data leaves undefined and removes those it sets to null
+    update: (id: string, data: Record<string, unknown>) => {
+      const existing = mockSaved.find((variant) => variant.id === id)
+      const changes = Object.entries(data).filter(([, value]) => value !== undefined)
+      const updated = Object.fromEntries(
+        Object.entries({ ...existing, ...Object.fromEntries(changes) }).filter(
+          ([, value]) => value !== null
+        )
+      ) as unknown as Variant
+      mockSaved = mockSaved.map((variant) => (variant.id === id ? updated : variant))
+      return updated
+    },
+    create: (data: Omit<Variant, 'id'>) => {
+      if (data.front === mockFailingFront) {
+        throw new Error('disk I/O error')
+      }
+      const created = { ...data, id: `variant-${mockSaved.length + 1}` } as Variant
+      mockSaved = [...mockSaved, created]
+      return created
+    },
+  },
+}))
+
+jest.mock('../../main/infrastructure/llm/registry', () => ({
+  ...jest.requireActual<object>('../../main/infrastructure/llm/registry'),
+  llmServices: { getGenerator: () => mockGetGenerator() },
+}))
+
+/**
+ * Calls a registered handler as the renderer would
+ */
+function invoke<T>(channel: string, args: unknown): Promise<T> {
+  const handler = mockHandlers.get(channel)
+  if (!handler) {
+    throw new Error(`No handler for ${channel}`)
+  }
+  return handler({}, args) as Promise<T>
+}
+
+/**
+ * Calls a handler that should fail and returns its error
+ */
+async function invokeError(channel: string, args: unknown): Promise<IPCError> {
+  return invoke(channel, args).then(
+    () => {
+      throw new Error(`${channel} should have failed`)
+    },
+    (error: unknown) => error as IPCError
+  )
+}
+
+/**
+ * Generator stub that answers each request with the scripted result
+ */
+function stubGenerator(
+  answer: (request: GenerationRequest) => LLMResult<GeneratedVariant[]>
+): LLMGateway & { requests: GenerationRequest[] } {
+  const requests: GenerationRequest[] = []
+  return {
+    requests,
+    generateVariants: (request) => {
+      requests.push(request)
+      return Promise.resolve(answer(request))
+    },
+    generateDistractors: (request) =>
+      Promise.resolve({
+        success: true,
+        value: [
+          {
+            text: 'Respiration',
+            rationale: `Confused with ${request.concept.name}`,
+            confusedWith: 'Respiration',
+            plausibility: 0.8,
+          },
+        ],
+      }),
+    healthCheck: () => Promise.resolve({ success: true, value: true }),
+  }
+}
+
+const concept: Concept = {
+  id: asConceptId('concept-1'),
+  name: 'Photosynthesis',
+  definition: 'Conversion of light energy into chemical energy by plants',
+  facts: ['Occurs in chloroplasts'],
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+}
+
+const generateOptions: GenerateVariantsDTO = {
+  conceptId: concept.id,
+  dimensions: ['definition', 'example'],
+  difficulties: [3, 1],
+  count: 1,
+}
+
+const draftFor = (request: GenerationRequest): GeneratedVariant => ({
+  front: `${request.dimension} question at ${request.difficulty}`,
+  back: 'Light to chemical energy',
+  hints: [],
+  dimension: request.dimension,
+  difficulty: request.difficulty,
+})
+
+const distractorOptions: GenerateDistractorsDTO = {
+  conceptId: concept.id,
+  front: 'What is photosynthesis?',
+  back: 'Light to chemical energy',
+  count: 3,
+}
+
+const card = (front: string, overrides: Partial<CreateVariantDTO> = {}): CreateVariantDTO => ({
+  conceptId: concept.id,
+  dimension: 'definition',
+  front,
+  back: 'Light to chemical energy',
+  ...overrides,
+})
+
+describe('Variant IPC handlers', () => {
+  beforeAll(() => {
+    registerVariantHandlers()
+  })
+
+  beforeEach(() => {
+    mockConcepts = [concept]
+    mockSaved = []
+    mockFailingFront = null
+    mockGetGenerator = () =>
+      stubGenerator((request) => ({ success: true, value: [draftFor(request)] }))
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  describe('variants:generate', () => {
+    it.each([
+      ['no dimensions', { dimensions: [] }, 'Select at least one dimension'],
+      ['no difficulties', { difficulties: [] }, 'Select at least one difficulty level'],
+      ['difficulty 0', { difficulties: [0] }, 'Difficulty levels must be between 1 and 5'],
+      ['difficulty 2.5', { difficulties: [2.5] }, 'Difficulty levels must be between 1 and 5'],
+      ['count 0', { count: 0 }, 'Count must be between 1 and 10'],
+      ['count 11', { count: 11 }, 'Count must be between 1 and 10'],
+    ])('should reject %s before generating', async (_case, overrides, message) => {
+      const generator = stubGenerator(() => ({ success: true, value: [] }))
+      mockGetGenerator = () => generator
+
+      const error = await invokeError('variants:generate', { ...generateOptions, ...overrides })
+
+      expect(error.code).toBe('VALIDATION_ERROR')
+      expect(error.message).toBe(message)
+      expect(generator.requests).toHaveLength(0)
+    })
+
+    it('should report an unknown concept as not found', async () => {
+      const error = await invokeError('variants:generate', {
+        ...generateOptions,
+        conceptId: 'missing',
+      })
+
+      expect(error.code).toBe('NOT_FOUND')
+    })
+
+    it('should map missing LLM settings to LLM_NOT_CONFIGURED', async () => {
+      mockGetGenerator = () => {
+        throw new LLMNotConfiguredError('openai', ['apiKey'])
+      }
+
+      const error = await invokeError('variants:generate', generateOptions)
+
+      expect(error.code).toBe('LLM_NOT_CONFIGURED')
+      expect(error.details).toEqual({ missingFields: ['apiKey'] })
+    })
+
+    it('should generate each dimension and difficulty once, lowest difficulty first', async () => {
+      const generator = stubGenerator((request) => ({ success: true, value: [draftFor(request)] }))
+      mockGetGenerator = () => generator
+
+      const result = await invoke<GenerateVariantsResultDTO>('variants:generate', {
+        ...generateOptions,
+        dimensions: ['definition', 'example', 'definition'],
+      })
+
+      expect(generator.requests.map((r) => [r.dimension, r.difficulty])).toEqual([
+        ['definition', 1],
+        ['definition', 3],
+        ['example', 1],
+        ['example', 3],
+      ])
+      expect(generator.requests[0]?.concept.name).toBe('Photosynthesis')
+      expect(result.drafts).toHaveLength(4)
+      expect(result.failures).toEqual([])
+      expect(mockSaved).toEqual([])
+    })
+
+    it('should report a failed combination and keep the drafts of the others', async () => {
+      mockGetGenerator = () =>
+        stubGenerator((request) =>
+          request.dimension === 'example' && request.difficulty === 3
+            ? {
+                success: false,
+                error: new LLMAPIError('Service unavailable', 'openai', { statusCode: 503 }),
+              }
+            : { success: true, value: [draftFor(request)] }
+        )
+
+      const result = await invoke<GenerateVariantsResultDTO>('variants:generate', generateOptions)
+
+      expect(result.drafts.map((d) => d.front)).toEqual([
+        'definition question at 1',
+        'definition question at 3',
+        'example question at 1',
+      ])
+      expect(result.failures).toHaveLength(1)
+      expect(result.failures[0]).toMatchObject({ dimension: 'example', difficulty: 3 })
+      expect(result.failures[0]?.error.message).toContain('Service unavailable')
+    })
+  })
+
+  describe('variants:createMany', () => {
+    it('should create every variant', async () => {
+      const created = await invoke<VariantDTO[]>('variants:createMany', [
+        card('First'),
+        card('Second', { dimension: 'example', difficulty: 2 }),
+      ])
+
+      expect(created.map((v) => [v.front, v.dimension, v.difficulty])).toEqual([
+        ['First', 'definition', 3],
+        ['Second', 'example', 2],
+      ])
+      expect(mockSaved).toHaveLength(2)
+    })
+
+    it('should reject the batch when one variant is invalid', async () => {
+      const error = await invokeError('variants:createMany', [
+        card('First'),
+        card('Pick one', { questionType: 'multiple_choice', options: ['A'], correctIndices: [0] }),
+      ])
+
+      expect(error.code).toBe('VALIDATION_ERROR')
+      expect(mockSaved).toEqual([])
+    })
+
+    it('should reject the batch when a concept does not exist', async () => {
+      const error = await invokeError('variants:createMany', [
+        card('First'),
+        card('Second', { conceptId: 'missing' }),
+      ])
+
+      expect(error.code).toBe('NOT_FOUND')
+      expect(mockSaved).toEqual([])
+    })
+
+    it('should save none of the variants when one fails to save', async () => {
+      mockFailingFront = 'Second'
+
+      const error = await invokeError('variants:createMany', [card('First'), card('Second')])
+
+      expect(error.code).toBe('INTERNAL_ERROR')
+      expect(mockSaved).toEqual([])
+    })
+  })
+
+  describe('variants:update', () => {
+    it('should remove the answer options when a choice question becomes a flashcard', async () => {
+      const [choice] = await invoke<VariantDTO[]>('variants:createMany', [
+        card('Which energy do plants capture?', {
+          questionType: 'multiple_choice',
+          options: ['Light', 'Heat', 'Sound'],
+          correctIndices: [0],
+        }),
+      ])
+
+      const updated = await invoke<VariantDTO>('variants:update', {
+        id: choice?.id,
+        questionType: 'flashcard',
+      })
+
+      expect(updated.questionType).toBe('flashcard')
+      expect(updated.options).toBeUndefined()
+      expect(updated.correctIndices).toBeUndefined()
+      expect(mockSaved[0]?.options).toBeUndefined()
+      expect(mockSaved[0]?.correctIndices).toBeUndefined()
+    })
+  })
+
+  describe('variants:generateDistractors', () => {
+    it('should return the generated distractors', async () => {
+      const result = await invoke<GenerateDistractorsResultDTO>(
+        'variants:generateDistractors',
+        distractorOptions
+      )
+
+      expect(result.distractors.map((d) => d.text)).toEqual(['Respiration'])
+      expect(result.error).toBeUndefined()
+    })
+
+    it('should map missing LLM settings to LLM_NOT_CONFIGURED', async () => {
+      mockGetGenerator = () => {
+        throw new LLMNotConfiguredError('openai', ['apiKey'])
+      }
+
+      const error = await invokeError('variants:generateDistractors', distractorOptions)
+
+      expect(error.code).toBe('LLM_NOT_CONFIGURED')
+      expect(error.details).toEqual({ missingFields: ['apiKey'] })
+    })
+  })
+})
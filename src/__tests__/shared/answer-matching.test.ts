@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Unit tests for typed-answer fuzzy matching
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Tests normalization, edit distance, scoring, rating suggestions and the
+ * word diff used to highlight typed answers.
+ */
+
+import {
+  diffAnswer,
+  editDistance,
+  normalizeAnswer,
+  scoreTypedAnswer,
+  suggestRating,
+} from '../../shared/utils/answer-matching'
+
+describe('Answer Matching', () => {
+  describe('normalizeAnswer', () => {
+    it('should ignore case, accents, punctuation and extra whitespace', () => {
+      expect(normalizeAnswer('  Café  au-lait! ')).toBe('cafe au lait')
+    })
+  })
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('kitten', 'sitting')).toBe(3)
+      expect(editDistance('', 'abc')).toBe(3)
+      expect(editDistance('same', 'same')).toBe(0)
+    })
+
+    it('should count a swapped pair of letters as one edit', () => {
+      expect(editDistance('mitochondria', 'mitochondira')).toBe(1)
+    })
+  })
+
+  describe('scoreTypedAnswer', () => {
+    it('should score a normalized exact match as 1', () => {
+      const result = scoreTypedAnswer('The Mitochondria', 'the mitochondria.')
+      expect(result.exact).toBe(true)
+      expect(result.score).toBe(1)
+    })
+
+    it('should score an empty answer as 0', () => {
+      expect(scoreTypedAnswer('Paris', '   ').score).toBe(0)
+    })
+
+    it('should tolerate small typos', () => {
+      expect(scoreTypedAnswer('mitochondria', 'mitochondira').score).toBeGreaterThanOrEqual(0.9)
+    })
+
+    it('should tolerate reordered words', () => {
+      const result = scoreTypedAnswer('energy production in cells', 'cells energy production in')
+      expect(result.tokenOverlap).toBe(1)
+      expect(result.score).toBe(1)
+    })
+
+    it('should score unrelated answers low', () => {
+      expect(scoreTypedAnswer('photosynthesis', 'gravity').score).toBeLessThan(0.6)
+    })
+  })
+
+  describe('suggestRating', () => {
+    it('should map scores to good, hard and again', () => {
+      expect(suggestRating(1)).toBe('good')
+      expect(suggestRating(0.9)).toBe('good')
+      expect(suggestRating(0.75)).toBe('hard')
+      expect(suggestRating(0.2)).toBe('again')
+    })
+  })
+
+  describe('diffAnswer', () => {
+    it('should mark matched, missing and extra words', () => {
+      expect(diffAnswer('the powerhouse of the cell', 'The powerhouse of a cell')).toEqual([
+        { kind: 'match', text: 'The' },
+        { kind: 'match', text: 'powerhouse' },
+        { kind: 'match', text: 'of' },
+        { kind: 'missing', text: 'the' },
+        { kind: 'extra', text: 'a' },
+        { kind: 'match', text: 'cell' },
+      ])
+    })
+
+    it('should mark every expected word missing for an empty answer', () => {
+      expect(diffAnswer('Paris France', '')).toEqual([
+        { kind: 'missing', text: 'Paris' },
+        { kind: 'missing', text: 'France' },
+      ])
+    })
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Unit tests for cloze-deletion markup parsing
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Tests deletion parsing, per-index card rendering, and normalized
+ * typed-answer checking.
+ */
+
+import {
+  checkClozeAnswers,
+  generateClozeCards,
+  getClozeIndices,
+  hasClozeMarkup,
+  parseClozeDeletions,
+  renderClozeCard,
+  splitClozeText,
+} from '../../shared/utils/cloze'
+
+describe('Cloze Utilities', () => {
+  const text = '{{c1::Paris}} is the capital of {{c2::France::country}}, on the {{c1::Seine}}.'
+
+  describe('parseClozeDeletions', () => {
+    it('should parse index, answer and hint in order', () => {
+      expect(parseClozeDeletions(text)).toEqual([
+        { index: 1, answer: 'Paris' },
+        { index: 2, answer: 'France', hint: 'country' },
+        { index: 1, answer: 'Seine' },
+      ])
+    })
+
+    it('should ignore malformed markup', () => {
+      expect(parseClozeDeletions('{{c1:Paris}} {{c0::zero}} {{c::x}} {{c2::}}')).toEqual([])
+    })
+
+    it('should treat an empty hint as no hint', () => {
+      expect(parseClozeDeletions('{{c1::Paris::}}')).toEqual([{ index: 1, answer: 'Paris' }])
+    })
+  })
+
+  describe('getClozeIndices', () => {
+    it('should return distinct indices in ascending order', () => {
+      expect(getClozeIndices('{{c3::a}} {{c1::b}} {{c3::c}}')).toEqual([1, 3])
+    })
+
+    it('should return no indices for plain text', () => {
+      expect(getClozeIndices('No deletions here')).toEqual([])
+      expect(hasClozeMarkup('No deletions here')).toBe(false)
+    })
+  })
+
+  describe('splitClozeText', () => {
+    it('should blank the tested index and fill in the others', () => {
+      expect(splitClozeText(text, 2)).toEqual([
+        { kind: 'text', text: 'Paris is the capital of ' },
+        { kind: 'blank', answer: 'France', hint: 'country' },
+        { kind: 'text', text: ', on the Seine.' },
+      ])
+    })
+  })
+
+  describe('renderClozeCard', () => {
+    it('should blank every deletion sharing the index', () => {
+      const card = renderClozeCard(text, 1)
+      expect(card.front).toBe('[...] is the capital of France, on the [...].')
+      expect(card.answers).toEqual(['Paris', 'Seine'])
+    })
+
+    it('should show the hint in place of the answer', () => {
+      expect(renderClozeCard(text, 2).front).toBe('Paris is the capital of [country], on the Seine.')
+    })
+
+    it('should fill in every deletion on the back', () => {
+      expect(renderClozeCard(text, 2).back).toBe('Paris is the capital of France, on the Seine.')
+    })
+  })
+
+  describe('generateClozeCards', () => {
+    it('should generate one card per cloze index', () => {
+      expect(generateClozeCards(text).map((card) => card.index)).toEqual([1, 2])
+    })
+  })
+
+  describe('checkClozeAnswers', () => {
+    it('should check each blank after normalization', () => {
+      expect(checkClozeAnswers(['Paris', 'Seine'], ['paris ', 'Loire'])).toEqual([true, false])
+    })
+
+    it('should mark missing responses incorrect', () => {
+      expect(checkClozeAnswers(['Paris', 'Seine'], ['Paris'])).toEqual([true, false])
+    })
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Objective answer grading domain service
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Grades multiple-choice, multi-select and true/false answers against the
+ * variant's stored correct option indices, and validates option sets when
+ * variants are saved. Grading is objective, so the self-reported rating is
+ * replaced by a rating derived from the grade.
+ *
+ * Multi-select scoring: each correct pick earns 1/|correct|, each incorrect
+ * pick costs the same amount, floored at 0. Only an exact match counts as
+ * correct; a partial score of at least PARTIAL_CREDIT_THRESHOLD rates 'hard'.
+ *
+ * Main APIs: isObjectiveQuestionType, validateAnswerOptions, gradeSelection,
+ *            gradeToRating, TRUE_FALSE_OPTIONS
+ * Constraints: Pure functions, no database calls, TypeScript strict mode
+ * Patterns: Functional programming, immutable data structures
+ */
+
+import type { QuestionType, ReviewResultType } from '../../shared/types/core';
+
+/**
+ * Question types graded against stored correct indices.
+ */
+export type ObjectiveQuestionType = Extract<
+  QuestionType,
+  'multiple_choice' | 'multi_select' | 'true_false'
+>;
+
+/**
+ * Outcome of grading a selection.
+ */
+export interface ObjectiveGrade {
+  /** True only when the selection matches the correct indices exactly */
+  readonly wasCorrect: boolean;
+  /** Score between 0 and 1 (0 or 1 for single-answer types) */
+  readonly partialScore: number;
+  /** Correct option indices, ascending */
+  readonly correctAnswers: readonly number[];
+}
+
+/** Fixed options for true/false variants (index 0 = True, 1 = False) */
+export const TRUE_FALSE_OPTIONS: readonly string[] = ['True', 'False'];
+
+/** Minimum and maximum number of options for choice questions */
+export const OPTION_LIMITS = {
+  MIN: 2,
+  MAX: 8,
+} as const;
+
+/** Minimum multi-select partial score rated 'hard' instead of 'again' */
+const PARTIAL_CREDIT_THRESHOLD = 0.5;
+
+/**
+ * Checks whether a question type is graded objectively.
+ *
+ * @param questionType - The variant's question type
+ * @returns True for multiple_choice, multi_select and true_false
+ */
+export function isObjectiveQuestionType(
+  questionType: QuestionType
+): questionType is ObjectiveQuestionType {
+  return (
+    questionType === 'multiple_choice' ||
+    questionType === 'multi_select' ||
+    questionType === 'true_false'
+  );
+}
+
+/**
+ * Returns the unique, sorted indices that fall within the option list.
+ */
+function normalizeIndices(indices: readonly number[], optionCount: number): number[] {
+  const valid = indices.filter((i) => Number.isInteger(i) && i >= 0 && i < optionCount);
+  return [...new Set(valid)].sort((a, b) => a - b);
+}
+
+/**
+ * Validates options and correct indices for an objective question type.
+ *
+ * @param questionType - The variant's question type
+ * @param options - Answer options shown to the learner
+ * @param correctIndices - Indices of the correct options
+ * @returns An error message, or null if the configuration is valid
+ *
+ * @example
+ * validateAnswerOptions('multiple_choice', ['A', 'B'], [0, 1]);
+ * // 'Multiple choice questions need exactly one correct option'
+ */
+export function validateAnswerOptions(
+  questionType: ObjectiveQuestionType,
+  options: readonly string[],
+  correctIndices: readonly number[]
+): string | null {
+  if (questionType === 'true_false') {
+    if (
+      options.length !== TRUE_FALSE_OPTIONS.length ||
+      options.some((option, i) => option !== TRUE_FALSE_OPTIONS[i])
+    ) {
+      return 'True/false questions must use the options True and False';
+    }
+  } else {
+    if (options.length < OPTION_LIMITS.MIN || options.length > OPTION_LIMITS.MAX) {
+      return `Choice questions need between ${OPTION_LIMITS.MIN} and ${OPTION_LIMITS.MAX} options`;
+    }
+    if (options.some((option) => option.trim().length === 0)) {
+      return 'Answer options cannot be empty';
+    }
+    const distinct = new Set(options.map((option) => option.trim().toLowerCase()));
+    if (distinct.size !== options.length) {
+      return 'Answer options must be distinct';
+    }
+  }
+
+  const normalized = normalizeIndices(correctIndices, options.length);
+  if (normalized.length !== correctIndices.length) {
+    return 'Correct answers must be distinct indices of existing options';
+  }
+
+  if (questionType === 'multi_select') {
+    if (normalized.length === 0) {
+      return 'Multi-select questions need at least one correct option';
+    }
+  } else if (normalized.length !== 1) {
+    return questionType === 'true_false'
+      ? 'True/false questions need exactly one correct answer'
+      : 'Multiple choice questions need exactly one correct option';
+  }
+
+  return null;
+}
+
+/**
+ * Grades a learner's selection.
+ *
+ * Out-of-range and duplicate selections are ignored. Single-answer types
+ * score 1 or 0; multi-select earns partial credit as described above.
+ *
+ * @param questionType - The variant's question type
+ * @param optionCount - Number of options shown
+ * @param correctIndices - Stored correct option indices
+ * @param selectedIndices - Indices the learner selected
+ * @returns The grade with the correct answers for feedback
+ *
+ * @example
+ * gradeSelection('multi_select', 4, [0, 2], [0, 1]);
+ * // { wasCorrect: false, partialScore: 0, correctAnswers: [0, 2] }
+ */
+export function gradeSelection(
+  questionType: ObjectiveQuestionType,
+  optionCount: number,
+  correctIndices: readonly number[],
+  selectedIndices: readonly number[]
+): ObjectiveGrade {
+  const correct = normalizeIndices(correctIndices, optionCount);
+  const selected = normalizeIndices(selectedIndices, optionCount);
+  const correctSet = new Set(correct);
+
+  const wasCorrect =
+    correct.length > 0 &&
+    selected.length === correct.length &&
+    selected.every((i) => correctSet.has(i));
+
+  if (questionType !== 'multi_select' || correct.length === 0) {
+    return { wasCorrect, partialScore: wasCorrect ? 1 : 0, correctAnswers: correct };
+  }
+
+  const hits = selected.filter((i) => correctSet.has(i)).length;
+  const misses = selected.length - hits;
+  const partialScore = Math.max(0, (hits - misses) / correct.length);
+
+  return { wasCorrect, partialScore, correctAnswers: correct };
+}
+
+/**
+ * Converts a grade into the rating used for mastery and scheduling.
+ *
+ * @param grade - The objective grade
+ * @returns 'good' when correct, 'hard' for substantial partial credit, else 'again'
+ */
+export function gradeToRating(grade: ObjectiveGrade): ReviewResultType {
+  if (grade.wasCorrect) {
+    return 'good';
+  }
+  return grade.partialScore >= PARTIAL_CREDIT_THRESHOLD ? 'hard' : 'again';
+}
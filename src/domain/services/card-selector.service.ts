@@ -5,7 +5,8 @@
  *
  * Implements intelligent variant selection based on mastery profile, novelty,
  * and anti-frustration mechanics. The selection algorithm biases toward:
- * - Weak dimensions (higher boost for areas needing practice)
+ * - Weak dimensions (higher boost for areas needing practice), optionally
+ *   refined by the concept-specific mastery for that dimension
  * - Novel or stale cards (encourage spaced repetition)
  * - Appropriate difficulty (prevent frustration spirals)
  *
@@ -13,6 +14,7 @@
  * - selectVariantForConcept() - Primary selection function
  * - calculateVariantWeight() - Weight calculation for a single variant
  * - weightedRandomSelect() - Generic weighted random utility
+ * - blendConceptMastery() - Combine global and concept-specific mastery
  *
  * Safety Rails:
  * - enforceSessionDimensionCap() - Prevent dimension over-representation
@@ -27,14 +29,61 @@ import type {
   Variant,
 } from '../../shared/types/core';
 
+/**
+ * Configuration for blending concept-specific mastery into selection
+ */
+const CONCEPT_MASTERY_CONFIG = {
+  /** Reviews after which the concept-specific score fully replaces the global one */
+  fullTrustCount: 5,
+};
+
+/**
+ * Blends global dimension mastery with the mastery recorded for one concept.
+ *
+ * The concept-specific score is trusted in proportion to how many reviews
+ * back it: with no reviews the global score is used unchanged, and after
+ * `fullTrustCount` reviews the concept-specific score is used on its own.
+ * This keeps a single lucky or unlucky answer from swinging selection.
+ *
+ * @param global - Mastery for the dimension across all concepts
+ * @param concept - Mastery for the dimension within one concept, if known
+ * @returns Blended mastery (recentCount is taken from the global record)
+ *
+ * @example
+ * // Globally strong at discrimination, but weak for this concept
+ * blendConceptMastery(
+ *   { accuracyEwma: 0.9, speedEwma: 0.8, recentCount: 40 },
+ *   { accuracyEwma: 0.3, speedEwma: 0.4, recentCount: 5 }
+ * )
+ * // Returns: { accuracyEwma: 0.3, speedEwma: 0.4, recentCount: 40 }
+ */
+export function blendConceptMastery(
+  global: DimensionMastery,
+  concept?: DimensionMastery
+): DimensionMastery {
+  if (!concept || concept.recentCount <= 0) {
+    return global;
+  }
+
+  const weight = Math.min(1, concept.recentCount / CONCEPT_MASTERY_CONFIG.fullTrustCount);
+
+  return {
+    accuracyEwma: weight * concept.accuracyEwma + (1 - weight) * global.accuracyEwma,
+    speedEwma: weight * concept.speedEwma + (1 - weight) * global.speedEwma,
+    recentCount: global.recentCount,
+  };
+}
+
 /**
  * Calculates a boost factor for weak dimensions to prioritize practice.
  *
  * Weak areas (combined mastery < 0.7) receive a multiplicative boost
  * that increases as mastery decreases. Strong areas receive a slight
- * penalty to balance selection.
+ * penalty to balance selection. When concept-specific mastery is given,
+ * it is blended in via blendConceptMastery() before scoring.
  *
  * @param mastery - The dimension mastery metrics
+ * @param conceptMastery - Optional mastery for the dimension within the current concept
  * @returns Boost factor (0.9 for strong, up to 2.4 for very weak)
  *
  * @example
@@ -47,8 +96,12 @@ import type {
  * calculateWeaknessBoost({ accuracyEwma: 0.95, speedEwma: 0.8, recentCount: 10 })
  * // Returns: 0.9 (slight penalty)
  */
-export function calculateWeaknessBoost(mastery: DimensionMastery): number {
-  const combinedMastery = 0.7 * mastery.accuracyEwma + 0.3 * mastery.speedEwma;
+export function calculateWeaknessBoost(
+  mastery: DimensionMastery,
+  conceptMastery?: DimensionMastery
+): number {
+  const effective = blendConceptMastery(mastery, conceptMastery);
+  const combinedMastery = 0.7 * effective.accuracyEwma + 0.3 * effective.speedEwma;
 
   if (combinedMastery < 0.7) {
     return 1 + 2 * (0.7 - combinedMastery);
@@ -186,6 +239,7 @@ function calculateDifficultyAlignment(
  * @param variant - The variant to evaluate
  * @param mastery - The learner's full mastery profile
  * @param consecutiveFailures - Number of recent consecutive failures
+ * @param conceptMastery - Optional mastery profile for the variant's concept
  * @returns Combined weight (higher = more likely to be selected)
  *
  * @example
@@ -202,16 +256,18 @@ function calculateDifficultyAlignment(
 export function calculateVariantWeight(
   variant: Variant,
   mastery: MasteryProfile,
-  consecutiveFailures: number
+  consecutiveFailures: number,
+  conceptMastery?: MasteryProfile
 ): number {
   const dimensionMastery = mastery[variant.dimension];
+  const conceptDimensionMastery = conceptMastery?.[variant.dimension];
 
-  const weaknessBoost = calculateWeaknessBoost(dimensionMastery);
+  const weaknessBoost = calculateWeaknessBoost(dimensionMastery, conceptDimensionMastery);
   const noveltyBoost = calculateNoveltyBoost(variant.lastShownAt);
   const frustrationPenalty = calculateAntiFrustrationPenalty(consecutiveFailures);
   const difficultyAlignment = calculateDifficultyAlignment(
     variant.difficulty,
-    dimensionMastery
+    blendConceptMastery(dimensionMastery, conceptDimensionMastery)
   );
 
   return weaknessBoost * noveltyBoost * frustrationPenalty * difficultyAlignment;
@@ -274,6 +330,7 @@ export function weightedRandomSelect<T>(
  * @param variants - Available variants for the concept
  * @param mastery - The learner's mastery profile
  * @param recentFailures - Count of consecutive recent failures
+ * @param conceptMastery - Optional mastery profile for the concept being reviewed
  * @returns Selected variant, or null if no variants available
  *
  * @example
@@ -289,14 +346,15 @@ export function weightedRandomSelect<T>(
 export function selectVariantForConcept(
   variants: Variant[],
   mastery: MasteryProfile,
-  recentFailures: number
+  recentFailures: number,
+  conceptMastery?: MasteryProfile
 ): Variant | null {
   if (variants.length === 0) {
     return null;
   }
 
   const weights = variants.map((variant) =>
-    calculateVariantWeight(variant, mastery, recentFailures)
+    calculateVariantWeight(variant, mastery, recentFailures, conceptMastery)
   );
 
   return weightedRandomSelect(variants, weights);
@@ -454,6 +512,7 @@ export function getStrongDimensions(mastery: MasteryProfile): DimensionType[] {
  * @param mastery - The learner's mastery profile
  * @param recentFailures - Count of consecutive recent failures
  * @param sessionDimensions - Dimensions already selected in this session
+ * @param conceptMastery - Optional mastery profile for the concept being reviewed
  * @returns Selected variant, or null if no variants available
  *
  * @example
@@ -461,14 +520,16 @@ export function getStrongDimensions(mastery: MasteryProfile): DimensionType[] {
  *   concept.variants,
  *   userMasteryProfile,
  *   sessionFailureCount,
- *   sessionDimensionHistory
+ *   sessionDimensionHistory,
+ *   conceptMasteryProfile
  * );
  */
 export function selectVariantWithMaintenance(
   variants: Variant[],
   mastery: MasteryProfile,
   recentFailures: number,
-  sessionDimensions: DimensionType[]
+  sessionDimensions: DimensionType[],
+  conceptMastery?: MasteryProfile
 ): Variant | null {
   if (variants.length === 0) {
     return null;
@@ -486,12 +547,12 @@ export function selectVariantWithMaintenance(
     if (strongVariants.length > 0) {
       // Use weighted selection within strong variants
       const weights = strongVariants.map((variant) =>
-        calculateVariantWeight(variant, mastery, recentFailures)
+        calculateVariantWeight(variant, mastery, recentFailures, conceptMastery)
       );
       return weightedRandomSelect(strongVariants, weights);
     }
   }
 
   // Standard weighted selection across all variants
-  return selectVariantForConcept(variants, mastery, recentFailures);
+  return selectVariantForConcept(variants, mastery, recentFailures, conceptMastery);
 }
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Calibration of LLM evaluations against human verdicts
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Compares the scores and ratings an LLM gave open responses with the
+ * ratings the user settled on. An evaluation the user never disputed counts
+ * as confirmed, so the verdict is the human rating when there is one and
+ * the LLM's own rating otherwise. Results are grouped per model and
+ * dimension, with an all-dimensions summary per model.
+ *
+ * Main APIs: VERDICT_SCORES, getVerdict, calibrateEvaluations
+ * Constraints: Pure functions, no database calls, TypeScript strict mode
+ * Patterns: Functional programming, events in, report out
+ */
+
+import { DimensionType } from '../../shared/types/core';
+
+import type { ReviewEvent, ReviewResultType } from '../../shared/types/core';
+
+/**
+ * Midpoint of the LLM score band each rating is given for
+ *
+ * The evaluator rates scores of 0.9 and up as easy, 0.7 as good, 0.4 as
+ * hard and anything lower as again, so a verdict maps back to the middle of
+ * its band when measuring how far off a score was.
+ */
+export const VERDICT_SCORES: Record<ReviewResultType, number> = {
+  again: 0.2,
+  hard: 0.55,
+  good: 0.8,
+  easy: 0.95,
+};
+
+/**
+ * Agreement between LLM evaluations and human verdicts for one group.
+ */
+export interface CalibrationGroup {
+  /** Model that evaluated, or null for evaluations logged before it was recorded */
+  readonly model: string | null;
+  /** Dimension of the group, or null for all dimensions of the model */
+  readonly dimension: DimensionType | null;
+  /** Evaluated responses in the group */
+  readonly count: number;
+  /** Responses whose verdict differs from the LLM's rating */
+  readonly overrideCount: number;
+  /** Fraction of responses where the LLM's rating matches the verdict */
+  readonly agreement: number;
+  /** Average LLM score */
+  readonly meanScore: number;
+  /** Average of LLM score minus verdict score; positive means too generous */
+  readonly bias: number;
+  /** Average distance between LLM score and verdict score */
+  readonly meanAbsoluteError: number;
+}
+
+/**
+ * The rating an evaluated event is judged by: the human rating when the
+ * user gave one, otherwise the LLM's rating.
+ *
+ * @param event - An evaluated review event
+ * @returns The verdict rating
+ */
+export function getVerdict(event: ReviewEvent): ReviewResultType {
+  return event.humanRating ?? event.llmRating ?? event.result;
+}
+
+/**
+ * Summarizes a non-empty list of evaluated events.
+ */
+function summarize(
+  model: string | null,
+  dimension: DimensionType | null,
+  events: readonly ReviewEvent[]
+): CalibrationGroup {
+  let overrides = 0;
+  let agreements = 0;
+  let scoreSum = 0;
+  let errorSum = 0;
+  let absoluteErrorSum = 0;
+
+  for (const event of events) {
+    const score = event.llmScore ?? 0;
+    const llmRating = event.llmRating ?? event.result;
+    const verdict = getVerdict(event);
+    const error = score - VERDICT_SCORES[verdict];
+
+    if (verdict === llmRating) {
+      agreements++;
+    } else {
+      overrides++;
+    }
+    scoreSum += score;
+    errorSum += error;
+    absoluteErrorSum += Math.abs(error);
+  }
+
+  return {
+    model,
+    dimension,
+    count: events.length,
+    overrideCount: overrides,
+    agreement: agreements / events.length,
+    meanScore: scoreSum / events.length,
+    bias: errorSum / events.length,
+    meanAbsoluteError: absoluteErrorSum / events.length,
+  };
+}
+
+/**
+ * Builds the calibration report for a set of events.
+ *
+ * Events without an LLM score are ignored. Models are ordered by the number
+ * of evaluations, most first; each model's summary (dimension null) is
+ * followed by its dimensions in DimensionType order.
+ *
+ * @param events - Review events, typically every evaluated event
+ * @returns Calibration groups, empty when nothing was evaluated
+ */
+export function calibrateEvaluations(events: readonly ReviewEvent[]): CalibrationGroup[] {
+  const byModel = new Map<string | null, ReviewEvent[]>();
+  for (const event of events) {
+    if (event.llmScore === undefined) {
+      continue;
+    }
+    const model = event.evaluationModel ?? null;
+    const group = byModel.get(model) ?? [];
+    group.push(event);
+    byModel.set(model, group);
+  }
+
+  const models = [...byModel.entries()].sort((a, b) => b[1].length - a[1].length);
+  const groups: CalibrationGroup[] = [];
+  for (const [model, modelEvents] of models) {
+    groups.push(summarize(model, null, modelEvents));
+    for (const dimension of Object.values(DimensionType)) {
+      const dimensionEvents = modelEvents.filter((event) => event.dimension === dimension);
+      if (dimensionEvents.length > 0) {
+        groups.push(summarize(model, dimension, dimensionEvents));
+      }
+    }
+  }
+  return groups;
+}
@@ -0,0 +1,391 @@
+/**
+ * @fileoverview Event log replay domain service
+ * @lastmodified 2026-01-27T00:00:00Z
+ *
+ * Rebuilds mastery and schedule state from the append-only review event log.
+ * Mastery and schedule rows are mutable snapshots derived from events; replaying
+ * every event in chronological order with the current mastery configuration and
+ * scheduler reproduces them deterministically. Used after settings changes,
+ * after removing bad events, or to repair a corrupted snapshot.
+ *
+ * Dimensions without events return to the initial mastery. Variants without
+ * events are left alone: their schedules may come from seeding, imports or
+ * manual edits, which the event log knows nothing about.
+ *
+ * A scoped replay rebuilds only the rows that depend on a few events, e.g. after
+ * a rating override or an import of review history, and leaves every other row
+ * as stored.
+ *
+ * Main APIs: replayMasteryFromEvents, replaySchedulesFromEvents, replayEventLog,
+ *            diffReplay, replayScopeOf, isEventInScope, restrictDiffToScope
+ * Constraints: Pure functions, no database calls, TypeScript strict mode
+ * Patterns: Functional programming, immutable data structures
+ */
+
+import { createInitialMastery, updateMastery } from './mastery-calculator.service';
+import { DimensionType } from '../../shared/types/core';
+
+import type { MasteryConfig } from './mastery-calculator.service';
+import type { Scheduler } from './scheduler.service';
+import type { ConceptId, VariantId } from '../../shared/types/branded';
+import type {
+  DimensionMastery,
+  MasteryProfile,
+  ReviewEvent,
+  ScheduleEntry,
+} from '../../shared/types/core';
+
+/**
+ * Mastery and schedule state, either as stored or as rebuilt by replay.
+ */
+export interface ReplaySnapshot {
+  /** Global mastery per dimension */
+  readonly mastery: MasteryProfile;
+  /** Mastery profiles for concepts with recorded mastery */
+  readonly conceptMastery: ReadonlyMap<ConceptId, MasteryProfile>;
+  /** Schedules for variants that have been reviewed */
+  readonly schedules: readonly ScheduleEntry[];
+}
+
+/**
+ * Result of replaying the event log.
+ */
+export interface ReplayResult extends ReplaySnapshot {
+  /** Number of events replayed */
+  readonly eventCount: number;
+}
+
+/**
+ * Change to a global dimension mastery row.
+ */
+export interface MasteryChange {
+  readonly dimension: DimensionType;
+  readonly before: DimensionMastery;
+  readonly after: DimensionMastery;
+}
+
+/**
+ * Change to a concept's mastery for one dimension.
+ */
+export interface ConceptMasteryChange extends MasteryChange {
+  readonly conceptId: ConceptId;
+}
+
+/**
+ * Change to a variant schedule; a null before means no schedule row yet.
+ */
+export interface ScheduleChange {
+  readonly variantId: VariantId;
+  readonly conceptId: ConceptId;
+  readonly before: ScheduleEntry | null;
+  readonly after: ScheduleEntry;
+}
+
+/**
+ * Differences between stored state and the replayed state.
+ */
+export interface ReplayDiff {
+  readonly masteryChanges: readonly MasteryChange[];
+  readonly conceptMasteryChanges: readonly ConceptMasteryChange[];
+  readonly scheduleChanges: readonly ScheduleChange[];
+}
+
+/**
+ * Rows that depend on a set of events: the schedules of their variants, the
+ * mastery of their concepts in their dimensions, and the global mastery of
+ * their dimensions.
+ */
+export interface ReplayScope {
+  readonly variantIds: ReadonlySet<VariantId>;
+  readonly conceptDimensions: ReadonlyMap<ConceptId, ReadonlySet<DimensionType>>;
+  readonly dimensions: ReadonlySet<DimensionType>;
+}
+
+/** Tolerance for comparing floating-point mastery and schedule values */
+const VALUE_EPSILON = 1e-9;
+
+/**
+ * Tolerance for comparing schedule timestamps. Reviews recorded before the
+ * schedule and event shared one timestamp differ by a few milliseconds.
+ */
+const TIME_TOLERANCE_MS = 1000;
+
+/**
+ * Creates a profile with every dimension at the initial mastery.
+ */
+function createInitialProfile(): Record<DimensionType, DimensionMastery> {
+  const profile = {} as Record<DimensionType, DimensionMastery>;
+  for (const dimension of Object.values(DimensionType)) {
+    profile[dimension] = createInitialMastery();
+  }
+  return profile;
+}
+
+/**
+ * Orders events oldest first, breaking timestamp ties by ID so the
+ * replay is deterministic regardless of input order.
+ */
+function sortChronologically(events: readonly ReviewEvent[]): ReviewEvent[] {
+  return [...events].sort((a, b) => {
+    const timeDiff = a.createdAt.getTime() - b.createdAt.getTime();
+    if (timeDiff !== 0) {
+      return timeDiff;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  });
+}
+
+/**
+ * Rebuilds global and per-concept mastery from review events.
+ *
+ * @param events - Review events in any order
+ * @param config - Mastery configuration to score with
+ * @returns Global profile and a full profile for every concept with events
+ *
+ * @example
+ * const { mastery } = replayMasteryFromEvents(EventRepository.findAll(), config);
+ */
+export function replayMasteryFromEvents(
+  events: readonly ReviewEvent[],
+  config: MasteryConfig
+): Pick<ReplaySnapshot, 'mastery' | 'conceptMastery'> {
+  const mastery = createInitialProfile();
+  const conceptMastery = new Map<ConceptId, Record<DimensionType, DimensionMastery>>();
+
+  for (const event of sortChronologically(events)) {
+    mastery[event.dimension] = updateMastery(
+      mastery[event.dimension],
+      event.result,
+      event.timeMs,
+      event.difficulty,
+      config
+    );
+
+    const profile = conceptMastery.get(event.conceptId) ?? createInitialProfile();
+    profile[event.dimension] = updateMastery(
+      profile[event.dimension],
+      event.result,
+      event.timeMs,
+      event.difficulty,
+      config
+    );
+    conceptMastery.set(event.conceptId, profile);
+  }
+
+  return { mastery, conceptMastery };
+}
+
+/**
+ * Rebuilds variant schedules from review events.
+ *
+ * Each variant starts from the scheduler's initial schedule and is advanced
+ * once per event, using the event's timestamp as the review time.
+ *
+ * @param events - Review events in any order
+ * @param scheduler - Scheduler (algorithm and parameters) to replay with
+ * @returns One schedule per reviewed variant, ordered by variant ID
+ */
+export function replaySchedulesFromEvents(
+  events: readonly ReviewEvent[],
+  scheduler: Scheduler
+): ScheduleEntry[] {
+  const schedules = new Map<VariantId, ScheduleEntry>();
+
+  for (const event of sortChronologically(events)) {
+    const current =
+      schedules.get(event.variantId) ??
+      scheduler.createInitialSchedule(event.conceptId, event.variantId);
+    schedules.set(
+      event.variantId,
+      scheduler.scheduleNextReview(current, event.result, event.createdAt)
+    );
+  }
+
+  return [...schedules.values()].sort((a, b) =>
+    a.variantId < b.variantId ? -1 : a.variantId > b.variantId ? 1 : 0
+  );
+}
+
+/**
+ * Rebuilds all mastery and schedule state from the event log.
+ *
+ * @param events - Every review event, in any order
+ * @param config - Mastery configuration to score with
+ * @param scheduler - Scheduler to replay reviews with
+ * @returns The replayed snapshot and the number of events replayed
+ *
+ * @example
+ * const replayed = replayEventLog(events, getMasteryConfig(), getScheduler('sm2'));
+ * const diff = diffReplay(current, replayed);
+ */
+export function replayEventLog(
+  events: readonly ReviewEvent[],
+  config: MasteryConfig,
+  scheduler: Scheduler
+): ReplayResult {
+  return {
+    ...replayMasteryFromEvents(events, config),
+    schedules: replaySchedulesFromEvents(events, scheduler),
+    eventCount: events.length,
+  };
+}
+
+/**
+ * Compares two numbers within the replay tolerance.
+ */
+function nearlyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= VALUE_EPSILON;
+}
+
+/**
+ * Compares two times within the timestamp tolerance.
+ */
+function nearlySameTime(a: Date, b: Date): boolean {
+  return Math.abs(a.getTime() - b.getTime()) <= TIME_TOLERANCE_MS;
+}
+
+/**
+ * Checks whether two mastery values are the same.
+ */
+function isSameMastery(a: DimensionMastery, b: DimensionMastery): boolean {
+  return (
+    nearlyEqual(a.accuracyEwma, b.accuracyEwma) &&
+    nearlyEqual(a.speedEwma, b.speedEwma) &&
+    a.recentCount === b.recentCount
+  );
+}
+
+/**
+ * Checks whether two schedules are the same, including FSRS state.
+ */
+function isSameSchedule(a: ScheduleEntry, b: ScheduleEntry): boolean {
+  if (
+    a.conceptId !== b.conceptId ||
+    !nearlySameTime(a.dueAt, b.dueAt) ||
+    !nearlyEqual(a.intervalDays, b.intervalDays) ||
+    !nearlyEqual(a.easeFactor, b.easeFactor)
+  ) {
+    return false;
+  }
+
+  if (a.fsrs === undefined || b.fsrs === undefined) {
+    return a.fsrs === b.fsrs;
+  }
+
+  return (
+    nearlyEqual(a.fsrs.stability, b.fsrs.stability) &&
+    nearlyEqual(a.fsrs.difficulty, b.fsrs.difficulty) &&
+    nearlySameTime(a.fsrs.lastReviewedAt, b.fsrs.lastReviewedAt)
+  );
+}
+
+/**
+ * Lists every difference between a stored snapshot and a replayed one.
+ *
+ * Concepts missing from either side are treated as having initial mastery.
+ * Only variants with replayed schedules are compared; stored schedules of
+ * variants without events are not changes. Applying each change's `after`
+ * value makes the stored state match the replay for every reviewed variant.
+ *
+ * @param current - State as currently stored
+ * @param replayed - State rebuilt from the event log
+ * @returns Mastery, concept mastery, and schedule changes (empty if in sync)
+ */
+export function diffReplay(current: ReplaySnapshot, replayed: ReplaySnapshot): ReplayDiff {
+  const dimensions = Object.values(DimensionType);
+
+  const masteryChanges: MasteryChange[] = [];
+  for (const dimension of dimensions) {
+    const before = current.mastery[dimension];
+    const after = replayed.mastery[dimension];
+    if (!isSameMastery(before, after)) {
+      masteryChanges.push({ dimension, before, after });
+    }
+  }
+
+  const conceptMasteryChanges: ConceptMasteryChange[] = [];
+  const conceptIds = new Set([...current.conceptMastery.keys(), ...replayed.conceptMastery.keys()]);
+  for (const conceptId of [...conceptIds].sort()) {
+    for (const dimension of dimensions) {
+      const before = current.conceptMastery.get(conceptId)?.[dimension] ?? createInitialMastery();
+      const after = replayed.conceptMastery.get(conceptId)?.[dimension] ?? createInitialMastery();
+      if (!isSameMastery(before, after)) {
+        conceptMasteryChanges.push({ conceptId, dimension, before, after });
+      }
+    }
+  }
+
+  const currentSchedules = new Map(current.schedules.map((s) => [s.variantId, s]));
+  const replayedSchedules = [...replayed.schedules].sort((a, b) =>
+    a.variantId < b.variantId ? -1 : a.variantId > b.variantId ? 1 : 0
+  );
+
+  const scheduleChanges: ScheduleChange[] = [];
+  for (const after of replayedSchedules) {
+    const before = currentSchedules.get(after.variantId) ?? null;
+    if (before === null || !isSameSchedule(before, after)) {
+      const { variantId, conceptId } = after;
+      scheduleChanges.push({ variantId, conceptId, before, after });
+    }
+  }
+
+  return { masteryChanges, conceptMasteryChanges, scheduleChanges };
+}
+
+/**
+ * Collects the rows that depend on the given events.
+ *
+ * @param events - Changed or added events
+ * @returns The scope to replay and apply
+ */
+export function replayScopeOf(events: readonly ReviewEvent[]): ReplayScope {
+  const variantIds = new Set<VariantId>();
+  const conceptDimensions = new Map<ConceptId, Set<DimensionType>>();
+  const dimensions = new Set<DimensionType>();
+
+  for (const event of events) {
+    variantIds.add(event.variantId);
+    dimensions.add(event.dimension);
+    const conceptScope = conceptDimensions.get(event.conceptId) ?? new Set<DimensionType>();
+    conceptScope.add(event.dimension);
+    conceptDimensions.set(event.conceptId, conceptScope);
+  }
+
+  return { variantIds, conceptDimensions, dimensions };
+}
+
+/**
+ * Checks whether replaying a scope needs an event.
+ *
+ * Global mastery of a scope dimension depends on every event in that
+ * dimension, which also covers the scope's concept mastery. Events of the
+ * scope's variants are needed for their schedules even when the variant's
+ * dimension has changed since.
+ */
+export function isEventInScope(event: ReviewEvent, scope: ReplayScope): boolean {
+  return scope.dimensions.has(event.dimension) || scope.variantIds.has(event.variantId);
+}
+
+/**
+ * Keeps the changes to rows within a scope.
+ *
+ * Replaying only the events of a scope leaves the rows outside it wrong, so
+ * their changes must be dropped rather than applied.
+ *
+ * @param diff - Diff between the stored state and a replay of the scope's events
+ * @param scope - Rows that may change
+ * @returns The diff without changes outside the scope
+ */
+export function restrictDiffToScope(diff: ReplayDiff, scope: ReplayScope): ReplayDiff {
+  return {
+    masteryChanges: diff.masteryChanges.filter((change) =>
+      scope.dimensions.has(change.dimension)
+    ),
+    conceptMasteryChanges: diff.conceptMasteryChanges.filter(
+      (change) => scope.conceptDimensions.get(change.conceptId)?.has(change.dimension) === true
+    ),
+    scheduleChanges: diff.scheduleChanges.filter((change) =>
+      scope.variantIds.has(change.variantId)
+    ),
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * @fileoverview FSRS (Free Spaced Repetition Scheduler) domain service
+ * @lastmodified 2026-01-23T00:00:00Z
+ *
+ * Implements the FSRS-4.5 memory model as an alternative to SM-2. Each item
+ * carries a stability (days until recall probability falls to 90%) and a
+ * difficulty (1-10). Retrievability is derived from the time elapsed since
+ * the last review, and intervals are chosen so that retrievability at the
+ * due date equals the desired retention.
+ *
+ * Main APIs: createFSRSScheduler, FSRSScheduler, calculateRetrievability,
+ *   easeToFsrsDifficulty, fsrsDifficultyToEase
+ * Constraints: Pure functions, no database calls, TypeScript strict mode
+ * Patterns: Functional programming, immutable data structures, Scheduler strategy
+ */
+
+import type { Scheduler } from './scheduler.service';
+import type { ConceptId, VariantId } from '../../shared/types/branded';
+import type {
+  FsrsMemoryState,
+  ReviewResultType,
+  ScheduleEntry,
+} from '../../shared/types/core';
+
+/**
+ * Tunable FSRS parameters.
+ */
+export interface FSRSParameters {
+  /** The 17 FSRS-4.5 model weights (w0-w16) */
+  readonly weights: readonly number[];
+  /** Target probability of recall at the due date (0-1) */
+  readonly desiredRetention: number;
+  /** Upper bound on any scheduled interval in days */
+  readonly maximumIntervalDays: number;
+}
+
+/**
+ * Default FSRS-4.5 weights, fitted by the FSRS authors on a large
+ * population of review logs.
+ */
+export const DEFAULT_FSRS_PARAMETERS: FSRSParameters = {
+  weights: [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+    0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+  ],
+  desiredRetention: 0.9,
+  maximumIntervalDays: 36500,
+};
+
+/**
+ * Shape constants of the FSRS-4.5 forgetting curve.
+ * FACTOR is chosen so that retrievability is exactly 0.9 when elapsed == stability.
+ */
+const FORGETTING_CURVE = {
+  DECAY: -0.5,
+  FACTOR: 19 / 81,
+} as const;
+
+/** Difficulty bounds */
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+
+/** Ease factor range used when converting to and from SM-2 */
+const SM2_EASE_RANGE = { MIN: 1.3, MAX: 2.5 } as const;
+
+/** Milliseconds per day */
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Maps review results to FSRS grades (1 = again ... 4 = easy).
+ */
+const GRADES: Record<ReviewResultType, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+/**
+ * Reads a weight by index, falling back to the default model.
+ */
+function weight(params: FSRSParameters, index: number): number {
+  return params.weights[index] ?? DEFAULT_FSRS_PARAMETERS.weights[index] ?? 0;
+}
+
+/**
+ * Clamps a difficulty value to the valid 1-10 range.
+ */
+function clampDifficulty(difficulty: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty));
+}
+
+/**
+ * Calculates the probability of recall after a given number of days.
+ *
+ * @param elapsedDays - Days since the last review
+ * @param stability - Current stability in days
+ * @returns Retrievability between 0 and 1
+ *
+ * @example
+ * calculateRetrievability(10, 10) // Returns 0.9
+ * calculateRetrievability(0, 10)  // Returns 1
+ */
+export function calculateRetrievability(elapsedDays: number, stability: number): number {
+  if (stability <= 0) {
+    return 0;
+  }
+
+  return Math.pow(
+    1 + (FORGETTING_CURVE.FACTOR * Math.max(0, elapsedDays)) / stability,
+    FORGETTING_CURVE.DECAY
+  );
+}
+
+/**
+ * Calculates the interval at which retrievability drops to the desired retention.
+ *
+ * @param stability - Current stability in days
+ * @param params - FSRS parameters
+ * @returns Interval in whole days, between 1 and the maximum interval
+ */
+export function calculateFsrsInterval(
+  stability: number,
+  params: FSRSParameters = DEFAULT_FSRS_PARAMETERS
+): number {
+  const interval =
+    (stability / FORGETTING_CURVE.FACTOR) *
+    (Math.pow(params.desiredRetention, 1 / FORGETTING_CURVE.DECAY) - 1);
+
+  return Math.min(params.maximumIntervalDays, Math.max(1, Math.round(interval)));
+}
+
+/**
+ * Initial stability after the first review with the given grade.
+ */
+function initialStability(grade: number, params: FSRSParameters): number {
+  return Math.max(0.1, weight(params, grade - 1));
+}
+
+/**
+ * Initial difficulty after the first review with the given grade.
+ */
+function initialDifficulty(grade: number, params: FSRSParameters): number {
+  return clampDifficulty(weight(params, 4) - (grade - 3) * weight(params, 5));
+}
+
+/**
+ * Difficulty after a review, with mean reversion toward the "good" default.
+ */
+function nextDifficulty(difficulty: number, grade: number, params: FSRSParameters): number {
+  const shifted = difficulty - weight(params, 6) * (grade - 3);
+  const reverted =
+    weight(params, 7) * initialDifficulty(3, params) + (1 - weight(params, 7)) * shifted;
+
+  return clampDifficulty(reverted);
+}
+
+/**
+ * Stability after a successful recall (grade 2-4).
+ */
+function nextRecallStability(
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  grade: number,
+  params: FSRSParameters
+): number {
+  const hardPenalty = grade === 2 ? weight(params, 15) : 1;
+  const easyBonus = grade === 4 ? weight(params, 16) : 1;
+
+  return (
+    stability *
+    (1 +
+      Math.exp(weight(params, 8)) *
+        (11 - difficulty) *
+        Math.pow(stability, -weight(params, 9)) *
+        (Math.exp(weight(params, 10) * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+/**
+ * Stability after a lapse (grade 1). Never exceeds the previous stability.
+ */
+function nextForgetStability(
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  params: FSRSParameters
+): number {
+  const forgotten =
+    weight(params, 11) *
+    Math.pow(difficulty, -weight(params, 12)) *
+    (Math.pow(stability + 1, weight(params, 13)) - 1) *
+    Math.exp(weight(params, 14) * (1 - retrievability));
+
+  return Math.max(0.1, Math.min(stability, forgotten));
+}
+
+/**
+ * Computes the FSRS memory state after a review.
+ *
+ * @param state - Memory state before the review, or undefined for a first review
+ * @param result - User's response quality
+ * @param now - Time of the review
+ * @param params - FSRS parameters
+ * @returns New memory state
+ */
+export function updateFsrsState(
+  state: FsrsMemoryState | undefined,
+  result: ReviewResultType,
+  now: Date,
+  params: FSRSParameters = DEFAULT_FSRS_PARAMETERS
+): FsrsMemoryState {
+  const grade = GRADES[result];
+
+  if (!state) {
+    return {
+      stability: initialStability(grade, params),
+      difficulty: initialDifficulty(grade, params),
+      lastReviewedAt: now,
+    };
+  }
+
+  const elapsedDays = (now.getTime() - state.lastReviewedAt.getTime()) / MS_PER_DAY;
+  const retrievability = calculateRetrievability(elapsedDays, state.stability);
+
+  const stability =
+    grade === 1
+      ? nextForgetStability(state.difficulty, state.stability, retrievability, params)
+      : nextRecallStability(state.difficulty, state.stability, retrievability, grade, params);
+
+  return {
+    stability,
+    difficulty: nextDifficulty(state.difficulty, grade, params),
+    lastReviewedAt: now,
+  };
+}
+
+/**
+ * Converts an SM-2 ease factor to an FSRS difficulty.
+ *
+ * Heuristic linear mapping: the default ease (2.5) maps to the FSRS
+ * "good" starting difficulty, the minimum ease (1.3) to the hardest value.
+ *
+ * @param easeFactor - SM-2 ease factor (1.3-2.5)
+ * @param params - FSRS parameters
+ * @returns FSRS difficulty (1-10)
+ */
+export function easeToFsrsDifficulty(
+  easeFactor: number,
+  params: FSRSParameters = DEFAULT_FSRS_PARAMETERS
+): number {
+  const base = initialDifficulty(3, params);
+  const clampedEase = Math.min(SM2_EASE_RANGE.MAX, Math.max(SM2_EASE_RANGE.MIN, easeFactor));
+  const hardness = (SM2_EASE_RANGE.MAX - clampedEase) / (SM2_EASE_RANGE.MAX - SM2_EASE_RANGE.MIN);
+
+  return clampDifficulty(base + hardness * (MAX_DIFFICULTY - base));
+}
+
+/**
+ * Converts an FSRS difficulty back to an SM-2 ease factor.
+ * Inverse of easeToFsrsDifficulty() for difficulties at or above the default.
+ *
+ * @param difficulty - FSRS difficulty (1-10)
+ * @param params - FSRS parameters
+ * @returns SM-2 ease factor (1.3-2.5)
+ */
+export function fsrsDifficultyToEase(
+  difficulty: number,
+  params: FSRSParameters = DEFAULT_FSRS_PARAMETERS
+): number {
+  const base = initialDifficulty(3, params);
+  const hardness = Math.max(0, (difficulty - base) / (MAX_DIFFICULTY - base));
+  const ease = SM2_EASE_RANGE.MAX - hardness * (SM2_EASE_RANGE.MAX - SM2_EASE_RANGE.MIN);
+
+  return Math.min(SM2_EASE_RANGE.MAX, Math.max(SM2_EASE_RANGE.MIN, ease));
+}
+
+/**
+ * Creates an FSRS scheduler with the given parameters.
+ *
+ * @param params - FSRS parameters (defaults to the published FSRS-4.5 weights)
+ * @returns Scheduler implementation backed by the FSRS memory model
+ *
+ * @example
+ * const scheduler = createFSRSScheduler({ ...DEFAULT_FSRS_PARAMETERS, desiredRetention: 0.85 });
+ * const next = scheduler.scheduleNextReview(current, 'good');
+ */
+export function createFSRSScheduler(
+  params: FSRSParameters = DEFAULT_FSRS_PARAMETERS
+): Scheduler {
+  return {
+    algorithm: 'fsrs',
+
+    scheduleNextReview(
+      current: ScheduleEntry,
+      result: ReviewResultType,
+      now: Date = new Date()
+    ): ScheduleEntry {
+      const fsrs = updateFsrsState(current.fsrs, result, now, params);
+      const intervalDays = calculateFsrsInterval(fsrs.stability, params);
+
+      return {
+        variantId: current.variantId,
+        conceptId: current.conceptId,
+        dueAt: new Date(now.getTime() + intervalDays * MS_PER_DAY),
+        intervalDays,
+        easeFactor: fsrsDifficultyToEase(fsrs.difficulty, params),
+        fsrs,
+      };
+    },
+
+    createInitialSchedule(conceptId: ConceptId, variantId: VariantId): ScheduleEntry {
+      // Memory state is created on the first review, when the grade is known
+      return {
+        variantId,
+        conceptId,
+        dueAt: new Date(),
+        intervalDays: 1,
+        easeFactor: SM2_EASE_RANGE.MAX,
+      };
+    },
+
+    convertSchedule(entry: ScheduleEntry): ScheduleEntry {
+      if (entry.fsrs) {
+        return entry;
+      }
+
+      // SM-2 targets recall at the due date, so treat the current interval as
+      // the stability and the previous review as one interval before due
+      const lastReviewedAt = new Date(entry.dueAt.getTime() - entry.intervalDays * MS_PER_DAY);
+
+      return {
+        ...entry,
+        fsrs: {
+          stability: Math.max(0.1, entry.intervalDays),
+          difficulty: easeToFsrsDifficulty(entry.easeFactor, params),
+          lastReviewedAt,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * FSRS scheduler with the default FSRS-4.5 parameters.
+ */
+export const FSRSScheduler: Scheduler = createFSRSScheduler();
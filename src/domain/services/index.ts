@@ -6,8 +6,10 @@
  */
 
 // Mastery calculation service
+export type { MasteryConfig } from './mastery-calculator.service'
 export {
   MasteryCalculator,
+  DEFAULT_MASTERY_CONFIG,
   updateEwma,
   ratingToScore,
   calculateSpeedScore,
@@ -16,9 +18,12 @@ export {
   isFragileConfidence,
   isWeakDimension,
   createInitialMastery,
+  createMasteryConfig,
+  replayMastery,
 } from './mastery-calculator.service'
 
 // SM-2 Scheduler service
+export type { Scheduler, SchedulerParameters, SM2Parameters } from './scheduler.service'
 export {
   calculateNextInterval,
   updateEaseFactor,
@@ -26,10 +31,74 @@ export {
   createInitialSchedule,
   isOverdue,
   getOverdueDays,
+  DEFAULT_SM2_PARAMETERS,
+  SM2Scheduler,
+  createSM2Scheduler,
+  getScheduler,
 } from './scheduler.service'
 
+// FSRS Scheduler service
+export type { FSRSParameters } from './fsrs-scheduler.service'
+export {
+  DEFAULT_FSRS_PARAMETERS,
+  FSRSScheduler,
+  createFSRSScheduler,
+  calculateRetrievability,
+  calculateFsrsInterval,
+  updateFsrsState,
+  easeToFsrsDifficulty,
+  fsrsDifficultyToEase,
+} from './fsrs-scheduler.service'
+
+// Scheduler optimizer service
+export type {
+  PredictionMetrics,
+  SchedulerOptimizationResult,
+} from './scheduler-optimizer.service'
+export {
+  OPTIMIZER_CONFIG,
+  evaluateScheduler,
+  optimizeSchedulerParameters,
+} from './scheduler-optimizer.service'
+
+// Review queue service
+export type { QueuedConcept, ReviewQueue } from './review-queue.service'
+export {
+  buildReviewQueue,
+  calculateNewConceptsRemaining,
+  getStartOfDay,
+} from './review-queue.service'
+
+// Objective answer grading service
+export type { ObjectiveQuestionType, ObjectiveGrade } from './answer-grading.service'
+export {
+  TRUE_FALSE_OPTIONS,
+  OPTION_LIMITS,
+  isObjectiveQuestionType,
+  validateAnswerOptions,
+  gradeSelection,
+  gradeToRating,
+} from './answer-grading.service'
+
+// Event log replay service
+export type {
+  ReplaySnapshot,
+  ReplayResult,
+  MasteryChange,
+  ConceptMasteryChange,
+  ScheduleChange,
+  ReplayDiff,
+} from './event-replay.service'
+export {
+  replayMasteryFromEvents,
+  replaySchedulesFromEvents,
+  replayEventLog,
+  diffReplay,
+} from './event-replay.service'
+
 // Card selector service
 export {
+  blendConceptMastery,
   calculateWeaknessBoost,
   calculateNoveltyBoost,
   calculateAntiFrustrationPenalty,
@@ -47,6 +116,8 @@ export {
 export type { Weakness, WeaknessProfile } from './weakness-detector.service'
 export {
   calculateCombinedScore,
+  classifyWeaknessSeverity,
+  getMinSampleSize,
   detectWeakDimension,
   detectFragileConfidence,
   detectDodgingPattern,
@@ -54,3 +125,26 @@ export {
   getSuggestion,
   shouldPrioritizeDimension,
 } from './weakness-detector.service'
+
+// Variant gap analysis service
+export type {
+  FocusReason,
+  GapReason,
+  VariantCell,
+  PendingCell,
+  GapTargets,
+  VariantGap,
+} from './variant-gap.service'
+export {
+  DEFAULT_GAP_TARGETS,
+  getFocusDimensions,
+  findVariantGaps,
+} from './variant-gap.service'
+
+// LLM evaluation calibration service
+export type { CalibrationGroup } from './evaluation-calibration.service'
+export {
+  VERDICT_SCORES,
+  getVerdict,
+  calibrateEvaluations,
+} from './evaluation-calibration.service'
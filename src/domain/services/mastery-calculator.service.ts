@@ -1,16 +1,23 @@
 /**
  * @fileoverview Mastery calculation service using EWMA (Exponentially Weighted Moving Average)
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-26T00:00:00Z
  * @anchor MasteryCalculator
  *
- * Features: EWMA updates, rating-to-score mapping, speed scoring, mastery analysis
+ * Features: EWMA updates, rating-to-score mapping, speed scoring, mastery analysis,
+ *           settings-driven configuration (EWMA alpha, target times), replay from events
  * Main APIs: updateEwma(), ratingToScore(), calculateSpeedScore(), updateMastery(),
- *            calculateCombinedMastery(), isFragileConfidence(), isWeakDimension()
+ *            calculateCombinedMastery(), isFragileConfidence(), isWeakDimension(),
+ *            createMasteryConfig(), replayMastery()
  * Constraints: Pure functions only, no side effects, all inputs validated
  * Patterns: Domain service pattern with functional composition
  */
 
-import type { DifficultyLevel, DimensionMastery, ReviewResultType } from '../../shared/types/core'
+import type {
+  DifficultyLevel,
+  DimensionMastery,
+  ReviewEvent,
+  ReviewResultType,
+} from '../../shared/types/core'
 
 /**
  * Default EWMA smoothing factor (alpha).
@@ -46,6 +53,24 @@ const TARGET_TIMES_MS: Record<DifficultyLevel, number> = {
   5: 60000,
 }
 
+/**
+ * Tunable inputs to the mastery math, normally built from user settings.
+ */
+export interface MasteryConfig {
+  /** EWMA smoothing factor (0 < alpha <= 1) */
+  readonly ewmaAlpha: number
+  /** Target response time per difficulty level in milliseconds */
+  readonly targetTimesMs: Readonly<Record<DifficultyLevel, number>>
+}
+
+/**
+ * Configuration matching the MVP defaults.
+ */
+export const DEFAULT_MASTERY_CONFIG: MasteryConfig = {
+  ewmaAlpha: DEFAULT_ALPHA,
+  targetTimesMs: TARGET_TIMES_MS,
+}
+
 /**
  * Score mappings for each review result type.
  * Maps user self-assessment to a numeric score for EWMA calculations.
@@ -65,6 +90,37 @@ function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value))
 }
 
+/**
+ * Builds a mastery configuration from settings values.
+ *
+ * Invalid values (alpha outside (0, 1], non-positive or missing target
+ * times) fall back to the defaults so a bad settings file cannot break scoring.
+ *
+ * @anchor createMasteryConfig
+ * @param settings - ewmaAlpha and targetTimes as stored in settings (keys 1-5)
+ * @returns A complete, validated MasteryConfig
+ */
+export function createMasteryConfig(settings: {
+  readonly ewmaAlpha?: number
+  readonly targetTimes?: Readonly<Record<number, number>>
+}): MasteryConfig {
+  const alpha = settings.ewmaAlpha
+  const ewmaAlpha =
+    alpha !== undefined && Number.isFinite(alpha) && alpha > 0 && alpha <= 1
+      ? alpha
+      : DEFAULT_ALPHA
+
+  const targetTimesMs = { ...TARGET_TIMES_MS }
+  for (const level of [1, 2, 3, 4, 5] as const) {
+    const target = settings.targetTimes?.[level]
+    if (target !== undefined && Number.isFinite(target) && target > 0) {
+      targetTimesMs[level] = target
+    }
+  }
+
+  return { ewmaAlpha, targetTimesMs }
+}
+
 /**
  * Updates an EWMA value with a new observation.
  *
@@ -128,10 +184,15 @@ export function ratingToScore(result: ReviewResultType): number {
  * @anchor calculateSpeedScore
  * @param timeMs - Response time in milliseconds
  * @param difficulty - The difficulty level (1-5)
+ * @param config - Mastery configuration providing the target times
  * @returns A speed score between 0 and 1 (faster = higher)
  */
-export function calculateSpeedScore(timeMs: number, difficulty: DifficultyLevel): number {
-  const targetMs = TARGET_TIMES_MS[difficulty]
+export function calculateSpeedScore(
+  timeMs: number,
+  difficulty: DifficultyLevel,
+  config: MasteryConfig = DEFAULT_MASTERY_CONFIG
+): number {
+  const targetMs = config.targetTimesMs[difficulty]
   const normalizedTime = clamp(timeMs / targetMs, 0, 2)
   return 1 - normalizedTime / 2
 }
@@ -152,20 +213,22 @@ export function calculateSpeedScore(timeMs: number, difficulty: DifficultyLevel)
  * @param result - The user's review result (again/hard/good/easy)
  * @param timeMs - Response time in milliseconds
  * @param difficulty - The difficulty level of the reviewed variant
+ * @param config - Mastery configuration (EWMA alpha and target times)
  * @returns A new DimensionMastery object with updated values
  */
 export function updateMastery(
   current: DimensionMastery,
   result: ReviewResultType,
   timeMs: number,
-  difficulty: DifficultyLevel
+  difficulty: DifficultyLevel,
+  config: MasteryConfig = DEFAULT_MASTERY_CONFIG
 ): DimensionMastery {
   const accuracyScore = ratingToScore(result)
-  const speedScore = calculateSpeedScore(timeMs, difficulty)
+  const speedScore = calculateSpeedScore(timeMs, difficulty, config)
 
   return {
-    accuracyEwma: updateEwma(current.accuracyEwma, accuracyScore),
-    speedEwma: updateEwma(current.speedEwma, speedScore),
+    accuracyEwma: updateEwma(current.accuracyEwma, accuracyScore, config.ewmaAlpha),
+    speedEwma: updateEwma(current.speedEwma, speedScore, config.ewmaAlpha),
     recentCount: current.recentCount + 1,
   }
 }
@@ -235,6 +298,29 @@ export function createInitialMastery(): DimensionMastery {
   }
 }
 
+/**
+ * Rebuilds a dimension's mastery by replaying review events.
+ *
+ * Starts from the initial mastery and applies updateMastery() for each
+ * event in the order given, so callers must pass events oldest first.
+ * Used to recompute stored mastery after the configuration changes.
+ *
+ * @anchor replayMastery
+ * @param events - Review events for one dimension, in chronological order
+ * @param config - Mastery configuration to score with
+ * @returns The mastery after the last event
+ */
+export function replayMastery(
+  events: readonly Pick<ReviewEvent, 'result' | 'timeMs' | 'difficulty'>[],
+  config: MasteryConfig = DEFAULT_MASTERY_CONFIG
+): DimensionMastery {
+  return events.reduce(
+    (mastery, event) =>
+      updateMastery(mastery, event.result, event.timeMs, event.difficulty, config),
+    createInitialMastery()
+  )
+}
+
 /**
  * MasteryCalculator provides domain service methods for mastery calculations.
  *
@@ -252,6 +338,8 @@ export const MasteryCalculator = {
   isFragileConfidence,
   isWeakDimension,
   createInitialMastery,
+  createMasteryConfig,
+  replayMastery,
 
   /**
    * Constants exposed for external use if needed.
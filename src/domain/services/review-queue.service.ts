@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Review queue builder domain service
+ * @lastmodified 2026-01-25T00:00:00Z
+ *
+ * Turns the list of due variant schedules into an ordered review queue that
+ * respects the daily new-concept limit. A concept is "new" until any of its
+ * variants has been reviewed; the first review introduces the whole concept,
+ * after which its remaining due variants are ordinary review cards.
+ *
+ * Queue order: concepts already being studied come first (most overdue
+ * first), followed by as many new concepts as today's limit allows (oldest
+ * first, since unscheduled variants are due from their creation time).
+ *
+ * Main APIs: buildReviewQueue, calculateNewConceptsRemaining, getStartOfDay
+ * Constraints: Pure functions, no database calls, TypeScript strict mode
+ * Patterns: Functional programming, immutable data structures
+ */
+
+import type { ConceptId } from '../../shared/types/branded';
+import type { ScheduleEntry } from '../../shared/types/core';
+
+/**
+ * A concept in the review queue with its due variant schedules.
+ */
+export interface QueuedConcept {
+  readonly conceptId: ConceptId;
+  /** Due variant schedules, most overdue first */
+  readonly schedules: readonly ScheduleEntry[];
+  /** True if the concept has never been reviewed */
+  readonly isNew: boolean;
+}
+
+/**
+ * Ordered review queue with remaining counts.
+ */
+export interface ReviewQueue {
+  /** Studied concepts first, then admitted new concepts */
+  readonly concepts: readonly QueuedConcept[];
+  /** Number of due variants belonging to studied concepts */
+  readonly reviewCount: number;
+  /** Number of new concepts admitted to the queue */
+  readonly newCount: number;
+  /** Number of due variants belonging to admitted new concepts */
+  readonly newCardCount: number;
+}
+
+/**
+ * Calculates how many new concepts may still be introduced today.
+ *
+ * @param newCardsPerDay - Daily limit from settings
+ * @param introducedToday - Concepts whose first review happened today
+ * @returns Remaining allowance (never negative)
+ *
+ * @example
+ * calculateNewConceptsRemaining(10, 3)  // Returns 7
+ * calculateNewConceptsRemaining(10, 12) // Returns 0
+ */
+export function calculateNewConceptsRemaining(
+  newCardsPerDay: number,
+  introducedToday: number
+): number {
+  return Math.max(0, Math.floor(newCardsPerDay) - introducedToday);
+}
+
+/**
+ * Returns local midnight for the given time, the boundary of a review day.
+ *
+ * @param now - Reference time
+ * @returns A new Date at 00:00:00.000 local time on the same day
+ */
+export function getStartOfDay(now: Date): Date {
+  const start = new Date(now.getTime());
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Builds the review queue from due schedules.
+ *
+ * @param dueSchedules - Due variant schedules, ordered by due date
+ * @param reviewedConceptIds - Concepts with at least one recorded review
+ * @param newConceptsRemaining - New concepts that may still be introduced today
+ * @returns Ordered queue with review, new concept and new card counts
+ *
+ * @example
+ * const queue = buildReviewQueue(ScheduleRepository.findDue(now), reviewedIds, 5);
+ * const first = queue.concepts[0]; // most overdue studied concept
+ */
+export function buildReviewQueue(
+  dueSchedules: readonly ScheduleEntry[],
+  reviewedConceptIds: ReadonlySet<ConceptId>,
+  newConceptsRemaining: number
+): ReviewQueue {
+  // Group by concept, preserving due-date order of first appearance
+  const grouped = new Map<ConceptId, ScheduleEntry[]>();
+  for (const schedule of dueSchedules) {
+    const existing = grouped.get(schedule.conceptId);
+    if (existing) {
+      existing.push(schedule);
+    } else {
+      grouped.set(schedule.conceptId, [schedule]);
+    }
+  }
+
+  const reviewConcepts: QueuedConcept[] = [];
+  const newConcepts: QueuedConcept[] = [];
+  let reviewCount = 0;
+  let newCardCount = 0;
+
+  for (const [conceptId, schedules] of grouped) {
+    if (reviewedConceptIds.has(conceptId)) {
+      reviewConcepts.push({ conceptId, schedules, isNew: false });
+      reviewCount += schedules.length;
+    } else if (newConcepts.length < newConceptsRemaining) {
+      newConcepts.push({ conceptId, schedules, isNew: true });
+      newCardCount += schedules.length;
+    }
+  }
+
+  return {
+    concepts: [...reviewConcepts, ...newConcepts],
+    reviewCount,
+    newCount: newConcepts.length,
+    newCardCount,
+  };
+}
@@ -0,0 +1,383 @@
+/**
+ * @fileoverview Scheduler parameter optimizer domain service
+ * @lastmodified 2026-01-24T00:00:00Z
+ *
+ * Fits scheduler parameters to the user's own review history. The history is
+ * replayed in chronological order through a candidate scheduler; before every
+ * review of a previously seen variant the scheduler's state is turned into a
+ * predicted probability of recall, which is compared with what actually
+ * happened ('again' = forgotten, anything else = recalled).
+ *
+ * Recall is predicted with the FSRS forgetting curve. FSRS entries use their
+ * stability; SM-2 entries use their interval as the stability, matching the
+ * conversion in FSRSScheduler.convertSchedule (SM-2 intervals are assumed to
+ * target ~90% recall at the due date).
+ *
+ * Parameters are fitted by bounded coordinate descent on log loss.
+ *
+ * Main APIs: evaluateScheduler, optimizeSchedulerParameters, OPTIMIZER_CONFIG
+ * Constraints: Pure functions, no database calls, deterministic output
+ * Patterns: Functional programming, immutable data structures
+ */
+
+import { calculateRetrievability, DEFAULT_FSRS_PARAMETERS } from './fsrs-scheduler.service';
+import { DEFAULT_SM2_PARAMETERS, getScheduler } from './scheduler.service';
+
+import type { FSRSParameters } from './fsrs-scheduler.service';
+import type { Scheduler, SchedulerParameters, SM2Parameters } from './scheduler.service';
+import type { VariantId } from '../../shared/types/branded';
+import type { ReviewEvent, ScheduleEntry, SchedulerAlgorithm } from '../../shared/types/core';
+
+/**
+ * Optimizer configuration.
+ */
+export const OPTIMIZER_CONFIG = {
+  /** Minimum number of predicted reviews before fitting is attempted */
+  MIN_REVIEWS: 20,
+  /** Maximum number of coordinate descent passes */
+  MAX_PASSES: 30,
+  /** Initial step size as a fraction of each parameter's range */
+  INITIAL_STEP_FRACTION: 0.1,
+  /** Stop once every step is smaller than this fraction of its range */
+  MIN_STEP_FRACTION: 0.001,
+  /** Probabilities are clamped away from 0 and 1 to keep log loss finite */
+  PROBABILITY_EPSILON: 1e-4,
+  /** Decimal places kept in fitted parameters */
+  PRECISION: 4,
+} as const;
+
+/** Milliseconds per day */
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Inclusive [min, max] range for a single parameter.
+ */
+type Bounds = readonly [number, number];
+
+/**
+ * Search bounds for SM-2 parameters, in vector order:
+ * easy, good, hard, again ease adjustments, hard multiplier, interval modifier.
+ */
+const SM2_BOUNDS: readonly Bounds[] = [
+  [0, 0.3],
+  [-0.1, 0.1],
+  [-0.3, 0],
+  [-0.5, 0],
+  [1, 2],
+  [0.5, 2],
+];
+
+/**
+ * Search bounds for the 17 FSRS-4.5 weights (from the reference optimizer).
+ */
+const FSRS_BOUNDS: readonly Bounds[] = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.1, 5],
+  [0.1, 5],
+  [0, 0.75],
+  [0, 4],
+  [0, 0.8],
+  [0.01, 3],
+  [0.5, 5],
+  [0.01, 0.2],
+  [0.01, 0.9],
+  [0.01, 3],
+  [0, 1],
+  [1, 6],
+];
+
+/**
+ * How well a scheduler's recall predictions match the review history.
+ */
+export interface PredictionMetrics {
+  /** Mean binary cross-entropy (lower is better) */
+  readonly logLoss: number;
+  /** Root mean squared error of predicted recall (lower is better) */
+  readonly rmse: number;
+  /** Number of reviews that were predicted */
+  readonly count: number;
+}
+
+/**
+ * Outcome of fitting parameters for one algorithm.
+ */
+export interface SchedulerOptimizationResult {
+  readonly algorithm: SchedulerAlgorithm;
+  /** Metrics with the parameters in use before optimization */
+  readonly before: PredictionMetrics;
+  /** Metrics with the fitted parameters */
+  readonly after: PredictionMetrics;
+  /** Fitted parameters (unchanged from the input when not improved) */
+  readonly parameters: SchedulerParameters;
+  /** Whether the fitted parameters predict the history better */
+  readonly improved: boolean;
+}
+
+/**
+ * Replay state for a single variant.
+ */
+interface ReplayState {
+  entry: ScheduleEntry;
+  lastReviewedAt: Date;
+}
+
+/**
+ * Predicts the probability of recalling a variant at the given time.
+ */
+function predictRecall(state: ReplayState, at: Date): number {
+  const elapsedDays = (at.getTime() - state.lastReviewedAt.getTime()) / MS_PER_DAY;
+  const stability = state.entry.fsrs?.stability ?? state.entry.intervalDays;
+
+  return calculateRetrievability(elapsedDays, stability);
+}
+
+/**
+ * Sorts events oldest first without mutating the input.
+ */
+function sortChronologically(events: readonly ReviewEvent[]): ReviewEvent[] {
+  return [...events].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Replays chronologically sorted events and scores the scheduler's predictions.
+ */
+function scoreSortedHistory(
+  scheduler: Scheduler,
+  events: readonly ReviewEvent[]
+): PredictionMetrics {
+  const states = new Map<VariantId, ReplayState>();
+  const epsilon = OPTIMIZER_CONFIG.PROBABILITY_EPSILON;
+  let logLossSum = 0;
+  let squaredErrorSum = 0;
+  let count = 0;
+
+  for (const event of events) {
+    const state = states.get(event.variantId);
+
+    // The first review of a variant has nothing to predict from
+    if (state) {
+      const predicted = Math.min(
+        1 - epsilon,
+        Math.max(epsilon, predictRecall(state, event.createdAt))
+      );
+      const recalled = event.result === 'again' ? 0 : 1;
+
+      logLossSum -= recalled * Math.log(predicted) + (1 - recalled) * Math.log(1 - predicted);
+      squaredErrorSum += (recalled - predicted) ** 2;
+      count++;
+    }
+
+    const current =
+      state?.entry ?? scheduler.createInitialSchedule(event.conceptId, event.variantId);
+    states.set(event.variantId, {
+      entry: scheduler.scheduleNextReview(current, event.result, event.createdAt),
+      lastReviewedAt: event.createdAt,
+    });
+  }
+
+  if (count === 0) {
+    return { logLoss: 0, rmse: 0, count: 0 };
+  }
+
+  return {
+    logLoss: logLossSum / count,
+    rmse: Math.sqrt(squaredErrorSum / count),
+    count,
+  };
+}
+
+/**
+ * Scores how well a scheduler predicts recall over a review history.
+ *
+ * @param scheduler - Scheduler to evaluate
+ * @param events - Review events in any order
+ * @returns Prediction metrics over every review after a variant's first
+ *
+ * @example
+ * const metrics = evaluateScheduler(SM2Scheduler, EventRepository.findAll());
+ * // metrics.logLoss === 0.41, metrics.count === 812
+ */
+export function evaluateScheduler(
+  scheduler: Scheduler,
+  events: readonly ReviewEvent[]
+): PredictionMetrics {
+  return scoreSortedHistory(scheduler, sortChronologically(events));
+}
+
+/**
+ * Clamps a value to a range.
+ */
+function clamp(value: number, [min, max]: Bounds): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Rounds a value to the configured precision.
+ */
+function round(value: number): number {
+  const factor = 10 ** OPTIMIZER_CONFIG.PRECISION;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Bounded coordinate descent.
+ *
+ * Each pass tries moving every coordinate one step up and down and keeps any
+ * move that lowers the loss. Steps are halved after a pass without progress.
+ *
+ * @param initial - Starting point (clamped into bounds)
+ * @param bounds - Range for each coordinate
+ * @param loss - Function to minimize
+ * @returns The best point found
+ */
+function coordinateDescent(
+  initial: readonly number[],
+  bounds: readonly Bounds[],
+  loss: (values: readonly number[]) => number
+): number[] {
+  const values = bounds.map((range, i) => clamp(initial[i] ?? range[0], range));
+  const steps = bounds.map(([min, max]) => (max - min) * OPTIMIZER_CONFIG.INITIAL_STEP_FRACTION);
+  const minSteps = bounds.map(([min, max]) => (max - min) * OPTIMIZER_CONFIG.MIN_STEP_FRACTION);
+  let best = loss(values);
+
+  for (let pass = 0; pass < OPTIMIZER_CONFIG.MAX_PASSES; pass++) {
+    let improved = false;
+
+    bounds.forEach((range, i) => {
+      const original = values[i] ?? range[0];
+      const step = steps[i] ?? 0;
+
+      for (const candidate of [original + step, original - step]) {
+        const clamped = clamp(candidate, range);
+        if (clamped === original) {
+          continue;
+        }
+
+        values[i] = clamped;
+        const candidateLoss = loss(values);
+        if (candidateLoss < best) {
+          best = candidateLoss;
+          improved = true;
+          return;
+        }
+        values[i] = original;
+      }
+    });
+
+    if (!improved) {
+      steps.forEach((step, i) => {
+        steps[i] = step / 2;
+      });
+      if (steps.every((step, i) => step < (minSteps[i] ?? 0))) {
+        break;
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Flattens SM-2 parameters into the SM2_BOUNDS vector order.
+ */
+function sm2ToVector(params: SM2Parameters): number[] {
+  return [
+    params.easeAdjustments.easy,
+    params.easeAdjustments.good,
+    params.easeAdjustments.hard,
+    params.easeAdjustments.again,
+    params.hardIntervalMultiplier,
+    params.intervalModifier,
+  ];
+}
+
+/**
+ * Builds SM-2 parameters from the SM2_BOUNDS vector order.
+ */
+function vectorToSm2(values: readonly number[]): SM2Parameters {
+  const defaults = sm2ToVector(DEFAULT_SM2_PARAMETERS);
+  const at = (i: number): number => values[i] ?? defaults[i] ?? 0;
+
+  return {
+    easeAdjustments: { easy: at(0), good: at(1), hard: at(2), again: at(3) },
+    hardIntervalMultiplier: at(4),
+    intervalModifier: at(5),
+  };
+}
+
+/**
+ * Builds FSRS parameters from a weight vector, keeping user preferences.
+ */
+function vectorToFsrs(values: readonly number[], base: FSRSParameters): FSRSParameters {
+  return { ...base, weights: [...values] };
+}
+
+/**
+ * Fits parameters for the given algorithm to a review history.
+ *
+ * Only the model parameters are fitted. FSRS desired retention and maximum
+ * interval are user preferences and are carried over unchanged. When the
+ * history holds fewer than OPTIMIZER_CONFIG.MIN_REVIEWS predicted reviews, or
+ * fitting does not lower the log loss, the current parameters are returned.
+ *
+ * @param algorithm - Algorithm to fit
+ * @param events - Review events in any order
+ * @param current - Parameters currently in use
+ * @returns Before/after metrics and the resulting parameters
+ *
+ * @example
+ * const result = optimizeSchedulerParameters('fsrs', events, settings.schedulerParameters);
+ * if (result.improved) {
+ *   saveParameters(result.parameters);
+ * }
+ */
+export function optimizeSchedulerParameters(
+  algorithm: SchedulerAlgorithm,
+  events: readonly ReviewEvent[],
+  current: SchedulerParameters = {}
+): SchedulerOptimizationResult {
+  const sorted = sortChronologically(events);
+  const before = scoreSortedHistory(getScheduler(algorithm, current), sorted);
+
+  const unchanged: SchedulerOptimizationResult = {
+    algorithm,
+    before,
+    after: before,
+    parameters: current,
+    improved: false,
+  };
+
+  if (before.count < OPTIMIZER_CONFIG.MIN_REVIEWS) {
+    return unchanged;
+  }
+
+  let fitted: SchedulerParameters;
+
+  if (algorithm === 'fsrs') {
+    const base = current.fsrs ?? DEFAULT_FSRS_PARAMETERS;
+    const values = coordinateDescent(base.weights, FSRS_BOUNDS, (candidate) => {
+      const scheduler = getScheduler('fsrs', { fsrs: vectorToFsrs(candidate, base) });
+      return scoreSortedHistory(scheduler, sorted).logLoss;
+    });
+    fitted = { ...current, fsrs: vectorToFsrs(values.map(round), base) };
+  } else {
+    const base = current.sm2 ?? DEFAULT_SM2_PARAMETERS;
+    const values = coordinateDescent(sm2ToVector(base), SM2_BOUNDS, (candidate) => {
+      const scheduler = getScheduler('sm2', { sm2: vectorToSm2(candidate) });
+      return scoreSortedHistory(scheduler, sorted).logLoss;
+    });
+    fitted = { ...current, sm2: vectorToSm2(values.map(round)) };
+  }
+
+  const after = scoreSortedHistory(getScheduler(algorithm, fitted), sorted);
+
+  if (after.logLoss >= before.logLoss) {
+    return unchanged;
+  }
+
+  return { algorithm, before, after, parameters: fitted, improved: true };
+}
@@ -2,7 +2,7 @@
  * @fileoverview SM-2 spaced repetition scheduler domain service
  * @lastmodified 2025-01-16T00:00:00Z
  *
- * Implements the SM-2 (SuperMemo 2) algorithm for scheduling concept reviews.
+ * Implements the SM-2 (SuperMemo 2) algorithm for scheduling variant reviews.
  * This is a pure domain service with no side effects - all functions operate
  * on immutable data and return new values.
  *
@@ -12,13 +12,25 @@
  * - Failed recalls reset interval to 1 day
  * - Ease factor adjusts based on response quality
  *
- * Main APIs: calculateNextInterval, updateEaseFactor, scheduleNextReview
+ * Also defines the pluggable Scheduler interface: SM2Scheduler wraps the
+ * functions below, and getScheduler() resolves the algorithm chosen in settings
+ * (see fsrs-scheduler.service.ts for the FSRS implementation).
+ *
+ * Main APIs: calculateNextInterval, updateEaseFactor, scheduleNextReview,
+ *   Scheduler, SM2Scheduler, createSM2Scheduler, getScheduler
  * Constraints: Pure functions, no database calls, TypeScript strict mode
  * Patterns: Functional programming, immutable data structures
  */
 
-import type { ConceptId } from '../../shared/types/branded';
-import type { ReviewResultType, ScheduleEntry } from '../../shared/types/core';
+import { createFSRSScheduler, FSRSScheduler } from './fsrs-scheduler.service';
+
+import type { FSRSParameters } from './fsrs-scheduler.service';
+import type { ConceptId, VariantId } from '../../shared/types/branded';
+import type {
+  ReviewResultType,
+  ScheduleEntry,
+  SchedulerAlgorithm,
+} from '../../shared/types/core';
 
 /**
  * SM-2 algorithm constants.
@@ -29,11 +41,11 @@ const SM2_CONSTANTS = {
   MIN_EASE_FACTOR: 1.3,
   /** Maximum ease factor to prevent intervals from becoming too long */
   MAX_EASE_FACTOR: 2.5,
-  /** Default ease factor for new concepts */
+  /** Default ease factor for new variants */
   DEFAULT_EASE_FACTOR: 2.5,
   /** Minimum interval in days (never schedule sooner than this) */
   MIN_INTERVAL_DAYS: 1,
-  /** Default starting interval for new concepts */
+  /** Default starting interval for new variants */
   DEFAULT_INTERVAL_DAYS: 1,
   /** Interval multiplier for 'hard' responses */
   HARD_INTERVAL_MULTIPLIER: 1.2,
@@ -50,6 +62,30 @@ const EASE_ADJUSTMENTS: Record<ReviewResultType, number> = {
   again: -0.2,
 };
 
+/**
+ * Tunable SM-2 parameters.
+ *
+ * The defaults reproduce classic SM-2. Fitted values come from the
+ * scheduler optimizer (see scheduler-optimizer.service.ts).
+ */
+export interface SM2Parameters {
+  /** Ease factor change applied for each response type */
+  readonly easeAdjustments: Readonly<Record<ReviewResultType, number>>;
+  /** Interval multiplier for 'hard' responses */
+  readonly hardIntervalMultiplier: number;
+  /** Scales every successful interval (1 = unchanged) */
+  readonly intervalModifier: number;
+}
+
+/**
+ * Classic SM-2 parameters.
+ */
+export const DEFAULT_SM2_PARAMETERS: SM2Parameters = {
+  easeAdjustments: EASE_ADJUSTMENTS,
+  hardIntervalMultiplier: SM2_CONSTANTS.HARD_INTERVAL_MULTIPLIER,
+  intervalModifier: 1,
+};
+
 /**
  * Calculates the next review interval in days based on the SM-2 algorithm.
  *
@@ -61,6 +97,7 @@ const EASE_ADJUSTMENTS: Record<ReviewResultType, number> = {
  * @param currentInterval - Current interval in days
  * @param easeFactor - Current ease factor (1.3-2.5)
  * @param result - User's response quality
+ * @param params - SM-2 parameters (defaults to classic SM-2)
  * @returns New interval in days (minimum 1)
  *
  * @example
@@ -78,7 +115,8 @@ const EASE_ADJUSTMENTS: Record<ReviewResultType, number> = {
 export function calculateNextInterval(
   currentInterval: number,
   easeFactor: number,
-  result: ReviewResultType
+  result: ReviewResultType,
+  params: SM2Parameters = DEFAULT_SM2_PARAMETERS
 ): number {
   let newInterval: number;
 
@@ -89,12 +127,12 @@ export function calculateNextInterval(
       break;
     case 'hard':
       // Difficult but successful - use smaller multiplier
-      newInterval = currentInterval * SM2_CONSTANTS.HARD_INTERVAL_MULTIPLIER;
+      newInterval = currentInterval * params.hardIntervalMultiplier * params.intervalModifier;
       break;
     case 'good':
     case 'easy':
       // Successful recall - use full ease factor
-      newInterval = currentInterval * easeFactor;
+      newInterval = currentInterval * easeFactor * params.intervalModifier;
       break;
   }
 
@@ -117,6 +155,7 @@ export function calculateNextInterval(
  *
  * @param current - Current ease factor
  * @param result - User's response quality
+ * @param params - SM-2 parameters (defaults to classic SM-2)
  * @returns New ease factor, clamped between 1.3 and 2.5
  *
  * @example
@@ -133,9 +172,10 @@ export function calculateNextInterval(
  */
 export function updateEaseFactor(
   current: number,
-  result: ReviewResultType
+  result: ReviewResultType,
+  params: SM2Parameters = DEFAULT_SM2_PARAMETERS
 ): number {
-  const adjustment = EASE_ADJUSTMENTS[result];
+  const adjustment = params.easeAdjustments[result];
   const newEaseFactor = current + adjustment;
 
   // Clamp between minimum and maximum
@@ -146,18 +186,21 @@ export function updateEaseFactor(
 }
 
 /**
- * Schedules the next review for a concept based on review results.
+ * Schedules the next review for a variant based on review results.
  *
  * This is the main scheduling function that combines interval calculation
  * and ease factor updates to produce a new schedule entry. The function
  * is pure - it creates a new ScheduleEntry without modifying the input.
  *
- * @param current - Current schedule entry for the concept
+ * @param current - Current schedule entry for the variant
  * @param result - User's response quality from the review
+ * @param now - Time of the review (defaults to the current time)
+ * @param params - SM-2 parameters (defaults to classic SM-2)
  * @returns New ScheduleEntry with updated interval, ease factor, and due date
  *
  * @example
  * const current: ScheduleEntry = {
+ *   variantId: asVariantId('var-456'),
  *   conceptId: asConceptId('abc-123'),
  *   dueAt: new Date('2025-01-15'),
  *   intervalDays: 7,
@@ -170,7 +213,7 @@ export function updateEaseFactor(
  * // updated.easeFactor === 2.5 (unchanged for 'good')
  *
  * @example
- * // Failed review resets interval but keeps same concept
+ * // Failed review resets interval but keeps same variant
  * const failed = scheduleNextReview(current, 'again');
  * // failed.intervalDays === 1
  * // failed.dueAt === new Date() + 1 day
@@ -178,20 +221,23 @@ export function updateEaseFactor(
  */
 export function scheduleNextReview(
   current: ScheduleEntry,
-  result: ReviewResultType
+  result: ReviewResultType,
+  now: Date = new Date(),
+  params: SM2Parameters = DEFAULT_SM2_PARAMETERS
 ): ScheduleEntry {
-  const newEaseFactor = updateEaseFactor(current.easeFactor, result);
+  const newEaseFactor = updateEaseFactor(current.easeFactor, result, params);
   const newInterval = calculateNextInterval(
     current.intervalDays,
     newEaseFactor,
-    result
+    result,
+    params
   );
 
-  // Calculate new due date from now
-  const now = new Date();
+  // Calculate new due date from the review time
   const dueAt = new Date(now.getTime() + newInterval * 24 * 60 * 60 * 1000);
 
   return {
+    variantId: current.variantId,
     conceptId: current.conceptId,
     dueAt,
     intervalDays: newInterval,
@@ -200,22 +246,30 @@ export function scheduleNextReview(
 }
 
 /**
- * Creates an initial schedule entry for a new concept.
+ * Creates an initial schedule entry for a new variant.
  *
- * New concepts are due immediately (now) with default SM-2 parameters.
+ * New variants are due immediately (now) with default SM-2 parameters.
  * This ensures new material enters the review queue right away.
  *
- * @param conceptId - The concept to create a schedule for
+ * @param conceptId - The concept the variant belongs to
+ * @param variantId - The variant to create a schedule for
  * @returns Initial ScheduleEntry with default values
  *
  * @example
- * const schedule = createInitialSchedule(asConceptId('new-concept-123'));
+ * const schedule = createInitialSchedule(
+ *   asConceptId('new-concept-123'),
+ *   asVariantId('new-variant-456')
+ * );
  * // schedule.dueAt === now
  * // schedule.intervalDays === 1
  * // schedule.easeFactor === 2.5
  */
-export function createInitialSchedule(conceptId: ConceptId): ScheduleEntry {
+export function createInitialSchedule(
+  conceptId: ConceptId,
+  variantId: VariantId
+): ScheduleEntry {
   return {
+    variantId,
     conceptId,
     dueAt: new Date(),
     intervalDays: SM2_CONSTANTS.DEFAULT_INTERVAL_DAYS,
@@ -226,7 +280,7 @@ export function createInitialSchedule(conceptId: ConceptId): ScheduleEntry {
 /**
  * Checks if a schedule entry is overdue for review.
  *
- * A concept is overdue if its due date has passed. This is used
+ * A variant is overdue if its due date has passed. This is used
  * to prioritize cards in the review queue.
  *
  * @param schedule - The schedule entry to check
@@ -234,6 +288,7 @@ export function createInitialSchedule(conceptId: ConceptId): ScheduleEntry {
  *
  * @example
  * const overdueSchedule: ScheduleEntry = {
+ *   variantId: asVariantId('v-abc'),
  *   conceptId: asConceptId('abc'),
  *   dueAt: new Date('2025-01-01'), // In the past
  *   intervalDays: 7,
@@ -243,6 +298,7 @@ export function createInitialSchedule(conceptId: ConceptId): ScheduleEntry {
  *
  * @example
  * const futureSchedule: ScheduleEntry = {
+ *   variantId: asVariantId('v-xyz'),
  *   conceptId: asConceptId('xyz'),
  *   dueAt: new Date('2099-12-31'), // In the future
  *   intervalDays: 7,
@@ -267,6 +323,7 @@ export function isOverdue(schedule: ScheduleEntry): boolean {
  * // 5 days overdue
  * const fiveDaysAgo = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000);
  * const overdueSchedule: ScheduleEntry = {
+ *   variantId: asVariantId('v-abc'),
  *   conceptId: asConceptId('abc'),
  *   dueAt: fiveDaysAgo,
  *   intervalDays: 7,
@@ -278,6 +335,7 @@ export function isOverdue(schedule: ScheduleEntry): boolean {
  * // Not overdue (due in the future)
  * const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
  * const futureSchedule: ScheduleEntry = {
+ *   variantId: asVariantId('v-xyz'),
  *   conceptId: asConceptId('xyz'),
  *   dueAt: tomorrow,
  *   intervalDays: 7,
@@ -299,6 +357,107 @@ export function getOverdueDays(schedule: ScheduleEntry): number {
   return overdueMs / msPerDay;
 }
 
+/**
+ * Pluggable scheduling strategy.
+ *
+ * Implementations are pure: they take the current schedule entry and return
+ * a new one without side effects. Callers resolve the active implementation
+ * from settings with getScheduler().
+ */
+export interface Scheduler {
+  /** Algorithm identifier, as stored in settings */
+  readonly algorithm: SchedulerAlgorithm;
+
+  /** Computes the schedule entry after a review */
+  scheduleNextReview(
+    current: ScheduleEntry,
+    result: ReviewResultType,
+    now?: Date
+  ): ScheduleEntry;
+
+  /** Creates the schedule for a variant that has never been reviewed */
+  createInitialSchedule(conceptId: ConceptId, variantId: VariantId): ScheduleEntry;
+
+  /**
+   * Converts an entry last written by another algorithm into this
+   * algorithm's representation. Due dates are preserved so switching
+   * algorithms never makes cards due earlier or later.
+   */
+  convertSchedule(entry: ScheduleEntry): ScheduleEntry;
+}
+
+/**
+ * Per-algorithm parameter overrides, as persisted in settings.
+ * Algorithms without an entry use their defaults.
+ */
+export interface SchedulerParameters {
+  readonly sm2?: SM2Parameters;
+  readonly fsrs?: FSRSParameters;
+}
+
+/**
+ * Creates an SM-2 scheduler with the given parameters.
+ *
+ * @param params - SM-2 parameters (defaults to classic SM-2)
+ * @returns Scheduler implementation backed by SM-2
+ */
+export function createSM2Scheduler(params: SM2Parameters = DEFAULT_SM2_PARAMETERS): Scheduler {
+  return {
+    algorithm: 'sm2',
+
+    scheduleNextReview(
+      current: ScheduleEntry,
+      result: ReviewResultType,
+      now: Date = new Date()
+    ): ScheduleEntry {
+      return scheduleNextReview(current, result, now, params);
+    },
+
+    createInitialSchedule,
+
+    convertSchedule(entry: ScheduleEntry): ScheduleEntry {
+      // FSRS keeps easeFactor in sync with its difficulty, so dropping the
+      // memory state is enough to hand the entry back to SM-2
+      return {
+        variantId: entry.variantId,
+        conceptId: entry.conceptId,
+        dueAt: entry.dueAt,
+        intervalDays: entry.intervalDays,
+        easeFactor: entry.easeFactor,
+      };
+    },
+  };
+}
+
+/**
+ * SM-2 implementation of the Scheduler interface with classic parameters.
+ */
+export const SM2Scheduler: Scheduler = createSM2Scheduler();
+
+/**
+ * Resolves the scheduler implementation for an algorithm.
+ *
+ * @param algorithm - Algorithm identifier from settings
+ * @param parameters - Optional fitted parameters; defaults are used when absent
+ * @returns The matching Scheduler (SM-2 for unknown values)
+ *
+ * @example
+ * const scheduler = getScheduler(settings.scheduler, settings.schedulerParameters);
+ * const next = scheduler.scheduleNextReview(current, 'good');
+ */
+export function getScheduler(
+  algorithm: SchedulerAlgorithm,
+  parameters: SchedulerParameters = {}
+): Scheduler {
+  switch (algorithm) {
+    case 'fsrs':
+      return parameters.fsrs ? createFSRSScheduler(parameters.fsrs) : FSRSScheduler;
+    case 'sm2':
+    default:
+      return parameters.sm2 ? createSM2Scheduler(parameters.sm2) : SM2Scheduler;
+  }
+}
+
 /*
  * ============================================================================
  * TEST CASES (for reference - implement with Jest/Vitest)
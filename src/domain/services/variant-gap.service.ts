@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Variant gap analysis for targeted LLM generation
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Finds the dimension x difficulty cells of a concept that have too few
+ * variants. Every cell should hold a baseline number of cards; dimensions
+ * the weakness profile flags as weak, or that the learner appears to be
+ * dodging, should hold more. Variants already queued for generation count
+ * towards a cell, so repeated runs only request what is still missing.
+ * Cloze cells are only covered when asked for, since generated cards carry
+ * no cloze deletions.
+ *
+ * Main APIs: DEFAULT_GAP_TARGETS, getFocusDimensions, findVariantGaps
+ * Constraints: Pure functions, no database calls, TypeScript strict mode
+ * Patterns: Functional programming, reuses weakness-detector analysis
+ */
+
+import { DEFAULT_MASTERY_CONFIG } from './mastery-calculator.service';
+import { analyzeWeaknesses, detectDodgingPattern } from './weakness-detector.service';
+import { DimensionType } from '../../shared/types/core';
+
+import type { MasteryConfig } from './mastery-calculator.service';
+import type { DifficultyLevel, MasteryProfile } from '../../shared/types/core';
+
+/**
+ * Why a dimension should hold more than the baseline number of variants.
+ */
+export type FocusReason = 'weak' | 'dodged';
+
+/**
+ * Why a cell is short of variants.
+ */
+export type GapReason = FocusReason | 'missing';
+
+/**
+ * A dimension and difficulty combination.
+ */
+export interface VariantCell {
+  readonly dimension: DimensionType;
+  readonly difficulty: DifficultyLevel;
+}
+
+/**
+ * Variants already queued for generation in a cell.
+ */
+export interface PendingCell extends VariantCell {
+  readonly count: number;
+}
+
+/**
+ * How many variants each cell should hold.
+ */
+export interface GapTargets {
+  /** Dimensions to cover (default: every dimension except cloze) */
+  readonly dimensions?: readonly DimensionType[];
+  /** Difficulty levels to cover */
+  readonly difficulties: readonly DifficultyLevel[];
+  /** Variants every cell should hold */
+  readonly perCell: number;
+  /** Variants cells of weak or dodged dimensions should hold */
+  readonly weakPerCell: number;
+}
+
+/**
+ * A cell with fewer variants than its target.
+ */
+export interface VariantGap extends VariantCell {
+  /** Variants already in the cell */
+  readonly existing: number;
+  /** Variants queued for generation in the cell */
+  readonly pending: number;
+  /** Variants the cell should hold */
+  readonly target: number;
+  /** Variants to generate: target - existing - pending */
+  readonly missing: number;
+  readonly reason: GapReason;
+}
+
+/**
+ * Default targets: one card per cell at the middle difficulties,
+ * three per cell for weak or dodged dimensions.
+ */
+export const DEFAULT_GAP_TARGETS: GapTargets = {
+  difficulties: [2, 3, 4],
+  perCell: 1,
+  weakPerCell: 3,
+};
+
+/**
+ * Dimensions covered when the targets name none. Cloze cards need cloze
+ * deletions in their text, which generated cards do not have.
+ */
+const DEFAULT_GAP_DIMENSIONS: readonly DimensionType[] = Object.values(DimensionType).filter(
+  (dimension) => dimension !== DimensionType.CLOZE_FILL
+);
+
+/** Order gaps are listed in: weaknesses first */
+const REASON_ORDER: Record<GapReason, number> = { weak: 0, dodged: 1, missing: 2 };
+
+/**
+ * Determines which dimensions need extra variants for a concept.
+ *
+ * A dimension is 'weak' when analyzeWeaknesses flags it on the concept's
+ * profile. When the concept or the learner overall shows the dodging
+ * pattern (strong definitions, weak everything else), every other
+ * dimension is 'dodged' so harder question types become available.
+ *
+ * @param conceptProfile - Mastery profile for the concept
+ * @param globalProfile - Learner-wide mastery profile, if available
+ * @param config - Mastery configuration; its alpha sets the minimum sample size
+ * @returns Focus reason per dimension that needs extra variants
+ *
+ * @example
+ * const focus = getFocusDimensions(conceptProfile, globalProfile);
+ * focus.get(DimensionType.SCENARIO_APPLICATION); // 'weak'
+ */
+export function getFocusDimensions(
+  conceptProfile: MasteryProfile,
+  globalProfile: MasteryProfile | null = null,
+  config: MasteryConfig = DEFAULT_MASTERY_CONFIG
+): Map<DimensionType, FocusReason> {
+  const analysis = analyzeWeaknesses(conceptProfile, config);
+  const focus = new Map<DimensionType, FocusReason>(
+    analysis.weaknesses.map((weakness) => [weakness.dimension, 'weak'])
+  );
+
+  const isDodging =
+    analysis.isDodgingPattern ||
+    (globalProfile !== null && detectDodgingPattern(globalProfile));
+
+  if (isDodging) {
+    for (const dimension of Object.values(DimensionType)) {
+      if (dimension !== DimensionType.DEFINITION_RECALL && !focus.has(dimension)) {
+        focus.set(dimension, 'dodged');
+      }
+    }
+  }
+
+  return focus;
+}
+
+/**
+ * Counts entries per dimension and difficulty cell.
+ */
+function countCells(cells: readonly (VariantCell & { count?: number })[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const cell of cells) {
+    const key = `${cell.dimension}:${cell.difficulty}`;
+    counts.set(key, (counts.get(key) ?? 0) + (cell.count ?? 1));
+  }
+  return counts;
+}
+
+/**
+ * Finds the cells of a concept with fewer variants than their target.
+ *
+ * @param existing - The concept's current variants
+ * @param pending - Variants already queued for generation for the concept
+ * @param focus - Dimensions needing extra variants, from getFocusDimensions()
+ * @param targets - Dimensions and difficulties to cover, and per-cell targets
+ * @returns Gaps with the exact number of variants missing, weaknesses first
+ *
+ * @example
+ * const gaps = findVariantGaps(variants, [], new Map(), { ...DEFAULT_GAP_TARGETS, difficulties: [3] });
+ * // One gap per dimension without a difficulty-3 variant, each missing 1
+ */
+export function findVariantGaps(
+  existing: readonly VariantCell[],
+  pending: readonly PendingCell[],
+  focus: ReadonlyMap<DimensionType, FocusReason>,
+  targets: GapTargets = DEFAULT_GAP_TARGETS
+): VariantGap[] {
+  const existingCounts = countCells(existing);
+  const pendingCounts = countCells(pending);
+  const gaps: VariantGap[] = [];
+
+  for (const dimension of new Set(targets.dimensions ?? DEFAULT_GAP_DIMENSIONS)) {
+    const focusReason = focus.get(dimension);
+    const target =
+      focusReason !== undefined ? Math.max(targets.perCell, targets.weakPerCell) : targets.perCell;
+
+    for (const difficulty of new Set(targets.difficulties)) {
+      const key = `${dimension}:${difficulty}`;
+      const inCell = existingCounts.get(key) ?? 0;
+      const queued = pendingCounts.get(key) ?? 0;
+      const missing = target - inCell - queued;
+
+      if (missing > 0) {
+        gaps.push({
+          dimension,
+          difficulty,
+          existing: inCell,
+          pending: queued,
+          target,
+          missing,
+          reason: focusReason ?? 'missing',
+        });
+      }
+    }
+  }
+
+  // Stable sort keeps dimension and difficulty order within each reason
+  return gaps.sort((a, b) => REASON_ORDER[a.reason] - REASON_ORDER[b.reason]);
+}
@@ -1,6 +1,6 @@
 /**
  * @fileoverview Weakness detection service for analyzing mastery profiles
- * @lastmodified 2025-01-16T00:00:00Z
+ * @lastmodified 2026-01-26T00:00:00Z
  * @anchor WeaknessDetectorService
  *
  * Analyzes MasteryProfile data to identify areas needing more practice.
@@ -13,9 +13,12 @@
  * - Fragile confidence pattern detection
  * - Dodging pattern analysis
  * - Human-readable suggestion generation
+ * - Sample size scaled to the configured EWMA alpha
  *
  * Main APIs:
  * - calculateCombinedScore() - Single dimension score
+ * - classifyWeaknessSeverity() - Severity band for a combined score
+ * - getMinSampleSize() - Reviews needed before a dimension is judged
  * - detectWeakDimension() - Find weak dimensions with severity
  * - detectFragileConfidence() - Find dimensions needing speed practice
  * - detectDodgingPattern() - Detect avoidance of harder question types
@@ -32,12 +35,15 @@
  * - Threshold-based classification
  */
 
+import { DEFAULT_MASTERY_CONFIG } from './mastery-calculator.service';
 import {
   DimensionMastery,
   DimensionType,
   MasteryProfile,
 } from '../../shared/types/core';
 
+import type { MasteryConfig } from './mastery-calculator.service';
+
 /**
  * Represents a detected weakness in a specific dimension
  */
@@ -141,6 +147,41 @@ function classifySeverity(
   return 'mild';
 }
 
+/**
+ * Classifies any combined score, including scores that are not weak.
+ *
+ * @param combinedScore - Combined mastery score (0-1)
+ * @returns Severity band, or 'none' at or above the weakness threshold
+ *
+ * @example
+ * classifyWeaknessSeverity(0.3);  // 'critical'
+ * classifyWeaknessSeverity(0.75); // 'none'
+ */
+export function classifyWeaknessSeverity(
+  combinedScore: number
+): 'none' | 'critical' | 'moderate' | 'mild' {
+  return combinedScore < WEAKNESS_THRESHOLD ? classifySeverity(combinedScore) : 'none';
+}
+
+/**
+ * Calculates the minimum reviews before a dimension's EWMA is trusted.
+ * This is the number of updates after which the initial value carries
+ * less than half the weight, so smaller alphas need more reviews.
+ *
+ * @param ewmaAlpha - EWMA smoothing factor (0 < alpha <= 1)
+ * @returns Minimum sample size (at least 1)
+ *
+ * @example
+ * getMinSampleSize(0.15); // 5
+ * getMinSampleSize(0.5);  // 1
+ */
+export function getMinSampleSize(ewmaAlpha: number): number {
+  if (!(ewmaAlpha > 0 && ewmaAlpha < 1)) {
+    return 1;
+  }
+  return Math.max(1, Math.ceil(Math.log(0.5) / Math.log(1 - ewmaAlpha)));
+}
+
 /**
  * Generates a reason string explaining why a dimension is weak.
  */
@@ -319,6 +360,7 @@ function calculateOverallHealth(
  * Combines all detection methods into a single profile.
  *
  * @param profile - The complete mastery profile to analyze
+ * @param config - Mastery configuration; its alpha sets the minimum sample size
  * @returns Complete weakness profile with all detected issues
  *
  * @example
@@ -327,8 +369,11 @@ function calculateOverallHealth(
  *   console.log(`Focus on: ${analysis.primaryWeakness.dimension}`);
  * }
  */
-export function analyzeWeaknesses(profile: MasteryProfile): WeaknessProfile {
-  const weaknesses = detectWeakDimension(profile);
+export function analyzeWeaknesses(
+  profile: MasteryProfile,
+  config: MasteryConfig = DEFAULT_MASTERY_CONFIG
+): WeaknessProfile {
+  const weaknesses = detectWeakDimension(profile, getMinSampleSize(config.ewmaAlpha));
   const hasFragileConfidence = detectFragileConfidence(profile);
   const isDodgingPattern = detectDodgingPattern(profile);
   const overallHealth = calculateOverallHealth(profile);
@@ -411,6 +456,7 @@ export function getSuggestion(profile: WeaknessProfile): string {
  *
  * @param profile - The complete mastery profile
  * @param dimension - The dimension to check
+ * @param config - Mastery configuration; its alpha sets the minimum sample size
  * @returns True if this dimension needs extra practice
  *
  * @example
@@ -420,7 +466,8 @@ export function getSuggestion(profile: WeaknessProfile): string {
  */
 export function shouldPrioritizeDimension(
   profile: MasteryProfile,
-  dimension: DimensionType
+  dimension: DimensionType,
+  config: MasteryConfig = DEFAULT_MASTERY_CONFIG
 ): boolean {
   const mastery = profile[dimension];
   const combinedScore = calculateCombinedScore(mastery);
@@ -436,7 +483,7 @@ export function shouldPrioritizeDimension(
   }
 
   // Prioritize if not enough practice yet
-  if (mastery.recentCount < DEFAULT_MIN_SAMPLE_SIZE) {
+  if (mastery.recentCount < getMinSampleSize(config.ewmaAlpha)) {
     return true;
   }
 
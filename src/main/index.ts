@@ -2,7 +2,8 @@
  * @fileoverview Electron main process entry point
  * @lastmodified 2025-01-16T00:00:00Z
  *
- * Features: Window management, app lifecycle, security configuration
+ * Features: Window management, app lifecycle, background job queue and backup schedule startup,
+ *   security configuration
  * Main APIs: createWindow(), app event handlers
  * Constraints: contextIsolation and sandbox must be enabled
  * Patterns: Single window with ready-to-show pattern
@@ -16,6 +17,8 @@ import { app, BrowserWindow, shell } from 'electron'
 import { closeDatabase, initializeDatabase } from './infrastructure/database/connection'
 import { seedAll } from './infrastructure/database/seed'
 import { registerIPCHandlers } from './ipc'
+import { startBackupSchedule, stopBackupSchedule } from './ipc/backup.ipc'
+import { startJobQueue, stopJobQueue } from './ipc/jobs.ipc'
 
 // -----------------------------------------------------------------------------
 // Window Management
@@ -98,6 +101,12 @@ void app.whenReady().then(() => {
   initializeDatabase()
   seedAll()
 
+  // Resume background generation jobs now that the database is ready
+  startJobQueue()
+
+  // Back up the database on the schedule from settings
+  startBackupSchedule()
+
   // Create the main window
   createWindow()
 
@@ -122,6 +131,9 @@ app.on('window-all-closed', () => {
  * Handle app quit for cleanup
  */
 app.on('before-quit', () => {
+  // Jobs still waiting on the LLM write nothing once stopped, so there is no need to wait
+  void stopJobQueue()
+  stopBackupSchedule()
   closeDatabase()
 })
 
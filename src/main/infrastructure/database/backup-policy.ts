@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Naming, scheduling and retention rules for database backup files
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Timestamped backup file names that sort by age, due check for scheduled
+ *           backups, selection of automatic backups beyond the retention count
+ * Main APIs: backupFileName(), parseBackupFileName(), isBackupDue(), selectBackupsToPrune()
+ * Constraints: Pure functions, no file or database calls; only automatic backups rotate,
+ *              manual and pre-restore backups are kept until deleted by hand
+ * Patterns: Backup facts live in the file name, so the directory is the only index
+ */
+
+import type { BackupKind } from '../../../shared/types/ipc';
+
+/** Backup kinds as written in file names */
+const BACKUP_KINDS: readonly BackupKind[] = ['automatic', 'manual', 'pre-restore'];
+
+/** backup-2026-01-28T10-00-00.000Z-automatic.db */
+const BACKUP_FILE_PATTERN =
+  /^backup-(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2}\.\d{3}Z)-([a-z-]+)\.db$/;
+
+/**
+ * A backup file, as read from its name
+ */
+export interface BackupFile {
+  readonly fileName: string;
+  readonly kind: BackupKind;
+  readonly createdAt: Date;
+}
+
+/**
+ * Names a backup file after its time and kind
+ *
+ * @param createdAt - When the backup was made
+ * @param kind - Why it was made
+ * @returns A file name without characters that are invalid on Windows
+ */
+export function backupFileName(createdAt: Date, kind: BackupKind): string {
+  return `backup-${createdAt.toISOString().replace(/:/g, '-')}-${kind}.db`;
+}
+
+/**
+ * Reads the time and kind of a backup from its file name
+ *
+ * @param fileName - Name of a file in the backups directory
+ * @returns The backup, or null for files that are not backups
+ */
+export function parseBackupFileName(fileName: string): BackupFile | null {
+  const match = BACKUP_FILE_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+  const [, date, minutes, seconds, kindName] = match;
+  const kind = BACKUP_KINDS.find((candidate) => candidate === kindName);
+  const createdAt = new Date(`${date}:${minutes}:${seconds}`);
+  if (kind === undefined || Number.isNaN(createdAt.getTime())) {
+    return null;
+  }
+  return { fileName, kind, createdAt };
+}
+
+/**
+ * Whether a scheduled backup is due
+ *
+ * @param lastBackupAt - Time of the newest automatic backup, or null without one
+ * @param now - Current time
+ * @param intervalHours - Hours between automatic backups
+ */
+export function isBackupDue(lastBackupAt: Date | null, now: Date, intervalHours: number): boolean {
+  if (lastBackupAt === null) {
+    return true;
+  }
+  return now.getTime() - lastBackupAt.getTime() >= intervalHours * 60 * 60 * 1000;
+}
+
+/**
+ * Selects the automatic backups beyond the retention count
+ *
+ * @param backups - Backups in any order
+ * @param retainCount - Newest automatic backups to keep, at least one
+ * @returns The older automatic backups, newest first
+ */
+export function selectBackupsToPrune<T extends BackupFile>(
+  backups: readonly T[],
+  retainCount: number
+): T[] {
+  return backups
+    .filter((backup) => backup.kind === 'automatic')
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(Math.max(1, Math.floor(retainCount)));
+}
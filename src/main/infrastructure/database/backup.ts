@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Online backups of the database into a rotating directory, and restores
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Backups through SQLite's online backup API while the app keeps running, listing,
+ *           pruning of old automatic backups, restore that checks and migrates a copy of the
+ *           backup before swapping it in, with a backup of the replaced data first
+ * Main APIs: createBackup(), listBackups(), pruneBackups(), restoreBackup(), getBackupDirectory()
+ * Constraints: Backups live in a "backups" folder next to the database file; a restore
+ *              reopens the connection, so callers must not hold on to the old one
+ * Patterns: Write to a temporary name and rename, so partial files are never listed
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync, renameSync, rmSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+
+import BetterSqlite3 from 'better-sqlite3';
+
+import { backupFileName, parseBackupFileName, selectBackupsToPrune } from './backup-policy';
+import { closeDatabase, getDatabase, getDatabasePath, initializeDatabase } from './connection';
+import { DatabaseError } from './errors';
+import { getKnownMigrations, runMigrations } from './migrate';
+
+import type { BackupFile } from './backup-policy';
+import type { BackupKind } from '../../../shared/types/ipc';
+
+/** Tables every database of the app has */
+const REQUIRED_TABLES = ['_migrations', 'concepts', 'variants', 'events', 'mastery'];
+
+/**
+ * A backup file in the backups directory
+ */
+export interface BackupInfo extends BackupFile {
+  readonly path: string;
+  readonly sizeBytes: number;
+}
+
+/**
+ * Result of restoring a backup
+ */
+export interface RestoreResult {
+  readonly restored: BackupInfo;
+  /** Backup of the data the restore replaced */
+  readonly safetyBackup: BackupInfo;
+  /** Migrations run on the backup before it was swapped in */
+  readonly migrationsApplied: number;
+}
+
+/**
+ * Gets the directory backups are written to
+ */
+export function getBackupDirectory(): string {
+  return join(dirname(getDatabasePath()), 'backups');
+}
+
+/**
+ * Reads a backup's size from disk
+ */
+function toBackupInfo(backup: BackupFile): BackupInfo {
+  const path = join(getBackupDirectory(), backup.fileName);
+  return { ...backup, path, sizeBytes: statSync(path).size };
+}
+
+/**
+ * Lists the backups, newest first
+ *
+ * @returns Backups found in the backups directory; other files are ignored
+ */
+export function listBackups(): BackupInfo[] {
+  const directory = getBackupDirectory();
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  return readdirSync(directory)
+    .map(parseBackupFileName)
+    .filter((backup): backup is BackupFile => backup !== null)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map(toBackupInfo);
+}
+
+/**
+ * Backs up the open database
+ *
+ * Uses SQLite's online backup API, so reviews can go on while it runs.
+ *
+ * @param kind - Why the backup is made
+ * @returns The new backup
+ * @throws DatabaseError QUERY_FAILED if the backup cannot be written
+ */
+export async function createBackup(kind: BackupKind): Promise<BackupInfo> {
+  const directory = getBackupDirectory();
+  const createdAt = new Date();
+  const backup: BackupFile = { fileName: backupFileName(createdAt, kind), kind, createdAt };
+  const path = join(directory, backup.fileName);
+  const partialPath = `${path}.partial`;
+
+  try {
+    mkdirSync(directory, { recursive: true });
+    await getDatabase().backup(partialPath);
+    renameSync(partialPath, path);
+  } catch (error) {
+    rmSync(partialPath, { force: true });
+    throw new DatabaseError('Failed to back up the database', 'QUERY_FAILED', {
+      cause: error instanceof Error ? error : new Error(String(error)),
+      context: { path },
+    });
+  }
+
+  return toBackupInfo(backup);
+}
+
+/**
+ * Deletes the automatic backups beyond the retention count
+ *
+ * @param retainCount - Newest automatic backups to keep
+ * @returns Number of backups deleted
+ */
+export function pruneBackups(retainCount: number): number {
+  const outdated = selectBackupsToPrune(listBackups(), retainCount);
+  for (const backup of outdated) {
+    rmSync(backup.path, { force: true });
+  }
+  return outdated.length;
+}
+
+/**
+ * Throws an INVALID_DATA error for a backup that cannot be restored
+ */
+function invalidBackup(message: string, path: string, cause?: unknown): never {
+  throw new DatabaseError(message, 'INVALID_DATA', {
+    cause: cause instanceof Error ? cause : undefined,
+    context: { path },
+  });
+}
+
+/**
+ * Checks that a database file is an intact database of this app, from this
+ * version or an older one
+ */
+function checkBackupDatabase(database: BetterSqlite3.Database, path: string): void {
+  let integrity: unknown;
+  let tables: Set<string>;
+  try {
+    integrity = database.pragma('quick_check', { simple: true });
+    tables = new Set(
+      (
+        database.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{
+          name: string;
+        }>
+      ).map((row) => row.name)
+    );
+  } catch (error) {
+    invalidBackup('The backup file cannot be read as a database', path, error);
+  }
+
+  if (integrity !== 'ok') {
+    invalidBackup(`The backup file is damaged: ${String(integrity)}`, path);
+  }
+  const missing = REQUIRED_TABLES.filter((table) => !tables.has(table));
+  if (missing.length > 0) {
+    invalidBackup(`The file is not a backup of this app: it has no ${missing.join(', ')}`, path);
+  }
+
+  const known = new Set(getKnownMigrations());
+  const applied = database.prepare('SELECT name FROM _migrations').all() as Array<{
+    name: string;
+  }>;
+  if (applied.some((row) => !known.has(row.name))) {
+    invalidBackup('The backup was made by a newer version of the app; update it first', path);
+  }
+}
+
+/**
+ * Replaces the database with a backup
+ *
+ * The backup is copied next to the database, checked, and migrated to this
+ * version of the app; only then is the current data backed up and the copy
+ * swapped in. Nothing is replaced when any of those steps fails.
+ *
+ * @param fileName - Name of a backup in the backups directory
+ * @returns The restored backup and the backup of the replaced data
+ * @throws DatabaseError NOT_FOUND for an unknown backup, INVALID_DATA for a
+ *   damaged or foreign file, MIGRATION_FAILED if it cannot be migrated
+ */
+export async function restoreBackup(fileName: string): Promise<RestoreResult> {
+  const backup = parseBackupFileName(fileName);
+  const backupPath = join(getBackupDirectory(), fileName);
+  if (backup === null || !existsSync(backupPath)) {
+    throw new DatabaseError(`No backup named "${fileName}"`, 'NOT_FOUND', {
+      context: { fileName },
+    });
+  }
+  const restored = toBackupInfo(backup);
+
+  const dbPath = getDatabasePath();
+  const stagingPath = `${dbPath}.restore`;
+  const removeStaging = (): void => {
+    for (const suffix of ['', '-wal', '-shm']) {
+      rmSync(`${stagingPath}${suffix}`, { force: true });
+    }
+  };
+
+  removeStaging();
+  copyFileSync(backupPath, stagingPath);
+  let migrationsApplied: number;
+  try {
+    const staging = new BetterSqlite3(stagingPath, { fileMustExist: true });
+    try {
+      checkBackupDatabase(staging, backupPath);
+      migrationsApplied = runMigrations(staging);
+    } finally {
+      staging.close();
+    }
+  } catch (error) {
+    removeStaging();
+    throw error;
+  }
+
+  const safetyBackup = await createBackup('pre-restore');
+
+  closeDatabase();
+  try {
+    rmSync(`${dbPath}-wal`, { force: true });
+    rmSync(`${dbPath}-shm`, { force: true });
+    renameSync(stagingPath, dbPath);
+  } finally {
+    initializeDatabase({ dbPath });
+  }
+
+  return { restored, safetyBackup, migrationsApplied };
+}
@@ -3,7 +3,7 @@
  * @lastmodified 2026-01-16T00:00:00Z
  *
  * Features: Singleton pattern, automatic initialization, foreign key enforcement
- * Main APIs: getDatabase(), initializeDatabase(), closeDatabase()
+ * Main APIs: getDatabase(), initializeDatabase(), closeDatabase(), getDatabasePath()
  * Constraints: Requires better-sqlite3, database path must be writable
  * Patterns: Lazy initialization on first access, migrations run automatically
  */
@@ -19,6 +19,9 @@ import { runMigrations } from './migrate';
 /** Database instance singleton */
 let db: Database.Database | null = null;
 
+/** Path of the database file last opened */
+let currentDbPath: string | null = null;
+
 /** Configuration for database initialization */
 interface DatabaseConfig {
   /** Path to the SQLite database file */
@@ -91,6 +94,7 @@ export function initializeDatabase(config?: Partial<DatabaseConfig>): Database.D
     db = new Database(dbPath, {
       verbose: verbose ? console.log : undefined,
     });
+    currentDbPath = dbPath;
 
     configurePragmas(db);
 
@@ -124,6 +128,15 @@ export function getDatabase(): Database.Database {
   return db;
 }
 
+/**
+ * Gets the path of the database file, opened or to be opened
+ *
+ * @returns Path of the SQLite database file
+ */
+export function getDatabasePath(): string {
+  return currentDbPath ?? getDefaultDbPath();
+}
+
 /**
  * Closes the database connection
  *
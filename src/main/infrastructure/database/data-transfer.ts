@@ -0,0 +1,413 @@
+/**
+ * @fileoverview Reading the database into a data document and writing one back
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Export of every column of concepts, variants, schedules, mastery and optionally
+ *           events; import that replaces all study data or merges in the missing records
+ * Main APIs: readDataDocument(), writeDataDocument(), countStoredData()
+ * Constraints: Ids and timestamps are kept, so a replace restores an exact copy; expects a
+ *              document validated by parseDataDocument
+ * Patterns: Raw SQL like the YAML seed loader, single transaction per import
+ */
+
+import { getDatabase, withTransaction } from './connection';
+import { EventRepository, MasteryRepository } from './repositories';
+import {
+  DATA_DOCUMENT_VERSION,
+  DIMENSION_LABELS,
+  dimensionFromLabel,
+} from '../import/data-document';
+
+import type { DimensionType, EvaluationRubric, ReviewEvent } from '../../../shared/types/core';
+import type { DataImportStrategy } from '../../../shared/types/ipc';
+import type {
+  DataDocument,
+  DataDocumentCounts,
+  DocumentConcept,
+  DocumentConceptMastery,
+  DocumentEvent,
+  DocumentMastery,
+  DocumentSchedule,
+  DocumentVariant,
+} from '../import/data-document';
+
+/** Raw database row for concepts table */
+interface ConceptRow {
+  id: string;
+  name: string;
+  definition: string;
+  facts: string;
+  source_path: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Raw database row for variants table */
+interface VariantRow {
+  id: string;
+  concept_id: string;
+  dimension: string;
+  difficulty: number;
+  front: string;
+  back: string;
+  hints: string;
+  last_shown_at: string | null;
+  question_type: DocumentVariant['question_type'];
+  rubric: string | null;
+  max_length: number | null;
+  options: string | null;
+  correct_indices: string | null;
+  cloze_index: number | null;
+  created_at: string;
+}
+
+/** Raw database row for mastery table */
+interface MasteryRow {
+  dimension: string;
+  accuracy_ewma: number;
+  speed_ewma: number;
+  recent_count: number;
+  updated_at: string;
+}
+
+/** Raw database row for concept_mastery table */
+interface ConceptMasteryRow extends MasteryRow {
+  concept_id: string;
+}
+
+/**
+ * Writes a stored dimension value as its document label
+ */
+function dimensionLabel(dimension: string): string {
+  return DIMENSION_LABELS[dimension as DimensionType] ?? dimension;
+}
+
+/**
+ * Parses a nullable JSON column
+ */
+function parseJson<T>(value: string | null): T | null {
+  return value !== null && value !== '' ? (JSON.parse(value) as T) : null;
+}
+
+/**
+ * Writes a nullable document value as a JSON column
+ */
+function toJson(value: unknown): string | null {
+  return value !== null ? JSON.stringify(value) : null;
+}
+
+// -----------------------------------------------------------------------------
+// Export
+// -----------------------------------------------------------------------------
+
+/**
+ * Reads all study data into a data document
+ *
+ * @param options - Whether to include the review history
+ * @returns A document of the current schema version
+ */
+export function readDataDocument(options: { includeEvents: boolean }): DataDocument {
+  const db = getDatabase();
+
+  const concepts = db
+    .prepare('SELECT * FROM concepts ORDER BY created_at, name')
+    .all() as ConceptRow[];
+  const variants = db
+    .prepare('SELECT * FROM variants ORDER BY created_at, id')
+    .all() as VariantRow[];
+  const schedule = db
+    .prepare('SELECT * FROM schedule ORDER BY variant_id')
+    .all() as DocumentSchedule[];
+  const mastery = db.prepare('SELECT * FROM mastery ORDER BY dimension').all() as MasteryRow[];
+  const conceptMastery = db
+    .prepare('SELECT * FROM concept_mastery ORDER BY concept_id, dimension')
+    .all() as ConceptMasteryRow[];
+
+  const masteryToDocument = (row: MasteryRow): DocumentMastery => ({
+    dimension: dimensionLabel(row.dimension),
+    accuracy_ewma: row.accuracy_ewma,
+    speed_ewma: row.speed_ewma,
+    recent_count: row.recent_count,
+    updated_at: row.updated_at,
+  });
+
+  return {
+    schema_version: DATA_DOCUMENT_VERSION,
+    exported_at: new Date().toISOString(),
+    db: {
+      concepts: concepts.map(
+        (row): DocumentConcept => ({
+          ...row,
+          facts: JSON.parse(row.facts) as string[],
+        })
+      ),
+      variants: variants.map(
+        (row): DocumentVariant => ({
+          ...row,
+          dimension: dimensionLabel(row.dimension),
+          hints: JSON.parse(row.hints) as string[],
+          rubric: parseJson<EvaluationRubric>(row.rubric),
+          options: parseJson<string[]>(row.options),
+          correct_indices: parseJson<number[]>(row.correct_indices),
+        })
+      ),
+      schedule,
+      mastery: mastery.map(masteryToDocument),
+      concept_mastery: conceptMastery.map(
+        (row): DocumentConceptMastery => ({
+          concept_id: row.concept_id,
+          ...masteryToDocument(row),
+        })
+      ),
+      ...(options.includeEvents && {
+        events: (
+          db.prepare('SELECT * FROM events ORDER BY created_at, id').all() as DocumentEvent[]
+        ).map((row) => ({ ...row, dimension: dimensionLabel(row.dimension) })),
+      }),
+    },
+  };
+}
+
+/**
+ * Counts the stored study data
+ */
+export function countStoredData(): DataDocumentCounts {
+  const db = getDatabase();
+  const count = (table: string): number =>
+    (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+  return {
+    concepts: count('concepts'),
+    variants: count('variants'),
+    schedules: count('schedule'),
+    mastery: count('mastery'),
+    conceptMastery: count('concept_mastery'),
+    events: count('events'),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Import
+// -----------------------------------------------------------------------------
+
+/**
+ * Outcome of writing a data document
+ */
+export interface DataDocumentWrite {
+  /** Number of records written per table */
+  readonly written: DataDocumentCounts;
+
+  /** Review events the document added, as stored */
+  readonly insertedEvents: ReviewEvent[];
+}
+
+/**
+ * Writes a validated data document
+ *
+ * Replacing deletes the stored study data and inserts the document as is;
+ * dimensions the document has no mastery for start from the defaults.
+ *
+ * Merging matches records by id. A concept named like a stored concept, or
+ * imported from the same note, is taken to be that concept, so its variants
+ * and history are added to it.
+ * Stored records win over the document's: existing variants, schedules and
+ * dimension mastery are left as they are.
+ *
+ * @param document - A document returned by parseDataDocument
+ * @param strategy - Replace or merge
+ * @returns Number of records written per table, and the events added
+ */
+export function writeDataDocument(
+  document: DataDocument,
+  strategy: DataImportStrategy
+): DataDocumentWrite {
+  return withTransaction((db) => {
+    const now = new Date().toISOString();
+    const written: DataDocumentCounts = {
+      concepts: 0,
+      variants: 0,
+      schedules: 0,
+      mastery: 0,
+      conceptMastery: 0,
+      events: 0,
+    };
+
+    if (strategy === 'replace') {
+      db.exec(`
+        DELETE FROM events;
+        DELETE FROM schedule;
+        DELETE FROM concept_mastery;
+        DELETE FROM variants;
+        DELETE FROM concepts;
+        DELETE FROM mastery;
+      `);
+    }
+
+    // Concepts: document id -> stored id
+    const conceptIds = new Map<string, string>();
+    const stored = db.prepare('SELECT id, name, source_path FROM concepts').all() as Array<{
+      id: string;
+      name: string;
+      source_path: string | null;
+    }>;
+    const storedNames = new Map(stored.map((row) => [row.name, row.id]));
+    const storedSources = new Map(
+      stored.flatMap((row): Array<[string, string]> =>
+        row.source_path !== null ? [[row.source_path, row.id]] : []
+      )
+    );
+    const storedConceptIds = new Set(storedNames.values());
+    const insertConcept = db.prepare(
+      `INSERT INTO concepts (id, name, definition, facts, source_path, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const concept of document.db.concepts) {
+      const storedId = storedConceptIds.has(concept.id)
+        ? concept.id
+        : (storedNames.get(concept.name) ??
+          (concept.source_path !== null ? storedSources.get(concept.source_path) : undefined));
+      if (storedId !== undefined) {
+        conceptIds.set(concept.id, storedId);
+        continue;
+      }
+      insertConcept.run(
+        concept.id,
+        concept.name,
+        concept.definition,
+        JSON.stringify(concept.facts),
+        concept.source_path,
+        concept.created_at ?? now,
+        concept.updated_at ?? concept.created_at ?? now
+      );
+      conceptIds.set(concept.id, concept.id);
+      written.concepts++;
+    }
+    const conceptId = (id: string): string => conceptIds.get(id) ?? id;
+
+    // Variants, and the schedules of the variants added
+    const addedVariants = new Set<string>();
+    const insertVariant = db.prepare(
+      `INSERT OR IGNORE INTO variants
+         (id, concept_id, dimension, difficulty, front, back, hints, last_shown_at,
+          question_type, rubric, max_length, options, correct_indices, cloze_index, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const variant of document.db.variants) {
+      const result = insertVariant.run(
+        variant.id,
+        conceptId(variant.concept_id),
+        dimensionFromLabel(variant.dimension),
+        variant.difficulty,
+        variant.front,
+        variant.back,
+        JSON.stringify(variant.hints),
+        variant.last_shown_at,
+        variant.question_type,
+        toJson(variant.rubric),
+        variant.max_length,
+        toJson(variant.options),
+        toJson(variant.correct_indices),
+        variant.cloze_index,
+        variant.created_at ?? now
+      );
+      if (result.changes > 0) {
+        addedVariants.add(variant.id);
+        written.variants++;
+      }
+    }
+
+    const insertSchedule = db.prepare(
+      `INSERT INTO schedule
+         (variant_id, concept_id, due_at, interval_days, ease_factor,
+          stability, difficulty, last_reviewed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const schedule of document.db.schedule) {
+      if (!addedVariants.has(schedule.variant_id)) {
+        continue;
+      }
+      insertSchedule.run(
+        schedule.variant_id,
+        conceptId(schedule.concept_id),
+        schedule.due_at,
+        schedule.interval_days,
+        schedule.ease_factor,
+        schedule.stability,
+        schedule.difficulty,
+        schedule.last_reviewed_at
+      );
+      written.schedules++;
+    }
+
+    // Mastery
+    const insertMastery = db.prepare(
+      `INSERT OR IGNORE INTO mastery
+         (dimension, accuracy_ewma, speed_ewma, recent_count, updated_at)
+       VALUES (?, ?, ?, ?, ?)`
+    );
+    for (const mastery of document.db.mastery) {
+      written.mastery += insertMastery.run(
+        dimensionFromLabel(mastery.dimension),
+        mastery.accuracy_ewma,
+        mastery.speed_ewma,
+        mastery.recent_count,
+        mastery.updated_at ?? now
+      ).changes;
+    }
+    MasteryRepository.initializeDefaults();
+
+    const insertConceptMastery = db.prepare(
+      `INSERT OR IGNORE INTO concept_mastery
+         (concept_id, dimension, accuracy_ewma, speed_ewma, recent_count, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    for (const mastery of document.db.concept_mastery) {
+      written.conceptMastery += insertConceptMastery.run(
+        conceptId(mastery.concept_id),
+        dimensionFromLabel(mastery.dimension),
+        mastery.accuracy_ewma,
+        mastery.speed_ewma,
+        mastery.recent_count,
+        mastery.updated_at ?? now
+      ).changes;
+    }
+
+    // Review history
+    const insertEvent = db.prepare(
+      `INSERT OR IGNORE INTO events
+         (id, concept_id, variant_id, dimension, difficulty, result, time_ms, hints_used,
+          created_at, user_response, llm_score, llm_feedback, evaluation_confidence,
+          evaluation_model, llm_rating, human_rating, overridden_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertedEvents: ReviewEvent[] = [];
+    for (const event of document.db.events ?? []) {
+      const result = insertEvent.run(
+        event.id,
+        conceptId(event.concept_id),
+        event.variant_id,
+        dimensionFromLabel(event.dimension),
+        event.difficulty,
+        event.result,
+        event.time_ms,
+        event.hints_used,
+        event.created_at,
+        event.user_response,
+        event.llm_score,
+        event.llm_feedback,
+        event.evaluation_confidence,
+        event.evaluation_model,
+        event.llm_rating,
+        event.human_rating,
+        event.overridden_at
+      );
+      const inserted = result.changes > 0 ? EventRepository.findById(event.id) : null;
+      if (inserted !== null) {
+        insertedEvents.push(inserted);
+        written.events++;
+      }
+    }
+
+    return { written, insertedEvents };
+  });
+}
@@ -15,12 +15,14 @@ export {
   closeDatabase,
   withTransaction,
   isDatabaseInitialized,
+  getDatabasePath,
 } from './connection';
 
 // Migration system
 export {
   runMigrations,
   getMigrationStatus,
+  getKnownMigrations,
   rollbackTo,
   type Migration,
 } from './migrate';
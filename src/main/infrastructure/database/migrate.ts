@@ -3,7 +3,7 @@
  * @lastmodified 2026-01-16T00:00:00Z
  *
  * Features: Sequential migration execution, version tracking, rollback structure
- * Main APIs: runMigrations(), getMigrationStatus()
+ * Main APIs: runMigrations(), getMigrationStatus(), getKnownMigrations()
  * Constraints: Migrations must be numbered and sequential, runs in transaction
  * Patterns: Each migration runs in isolation, failures roll back single migration
  */
@@ -11,6 +11,16 @@
 import { MigrationError } from './errors';
 import { migration as initialSchemaMigration } from './migrations/001_initial_schema';
 import { migration as openResponseMigration } from './migrations/002_open_response';
+import { migration as variantScheduleMigration } from './migrations/003_variant_schedule';
+import { migration as conceptMasteryMigration } from './migrations/004_concept_mastery';
+import { migration as fsrsStateMigration } from './migrations/005_fsrs_state';
+import { migration as answerOptionsMigration } from './migrations/006_answer_options';
+import { migration as clozeIndexMigration } from './migrations/007_cloze_index';
+import { migration as generationJobsMigration } from './migrations/008_generation_jobs';
+import { migration as evaluationCacheMigration } from './migrations/009_evaluation_cache';
+import { migration as evaluationOverridesMigration } from './migrations/010_evaluation_overrides';
+import { migration as llmUsageMigration } from './migrations/011_llm_usage';
+import { migration as conceptSourceMigration } from './migrations/012_concept_source';
 
 import type Database from 'better-sqlite3';
 
@@ -91,6 +101,16 @@ function loadMigrations(): Migration[] {
   const migrations: Migration[] = [
     initialSchemaMigration,
     openResponseMigration,
+    variantScheduleMigration,
+    conceptMasteryMigration,
+    fsrsStateMigration,
+    answerOptionsMigration,
+    clozeIndexMigration,
+    generationJobsMigration,
+    evaluationCacheMigration,
+    evaluationOverridesMigration,
+    llmUsageMigration,
+    conceptSourceMigration,
   ];
 
   // Sort by name to ensure consistent ordering
@@ -154,6 +174,17 @@ export function getMigrationStatus(db: Database.Database): {
   };
 }
 
+/**
+ * Gets the names of all migrations this version of the app knows
+ *
+ * A database that applied other migrations was written by a newer version.
+ *
+ * @returns Migration names in order
+ */
+export function getKnownMigrations(): string[] {
+  return loadMigrations().map((m) => m.name);
+}
+
 /**
  * Rollback support structure (for future implementation)
  *
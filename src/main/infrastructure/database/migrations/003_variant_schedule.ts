@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Migration to schedule reviews per variant instead of per concept
+ * @lastmodified 2026-01-22T00:00:00Z
+ *
+ * Features: Per-variant SRS state, back-fill from existing concept schedules
+ * Main APIs: migration.up (rebuild schedule table), migration.down (collapse to concepts)
+ * Constraints: Every variant of a scheduled concept inherits that concept's schedule
+ * Patterns: Table rebuild via copy + rename (SQLite cannot alter primary keys)
+ *
+ * Changes:
+ * - Replace schedule(concept_id PK) with schedule(variant_id PK, concept_id)
+ * - Copy each concept's due_at/interval_days/ease_factor onto all of its variants
+ * - Variants of concepts that had no schedule row stay unscheduled (treated as new)
+ * - Add idx_schedule_concept for per-concept lookups
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '003_variant_schedule',
+
+  up: `
+    -- Per-variant schedule: each variant carries its own SM-2 state
+    CREATE TABLE schedule_new (
+      variant_id TEXT PRIMARY KEY REFERENCES variants(id) ON DELETE CASCADE,
+      concept_id TEXT NOT NULL REFERENCES concepts(id) ON DELETE CASCADE,
+      due_at TEXT NOT NULL,
+      interval_days REAL NOT NULL DEFAULT 1,
+      ease_factor REAL NOT NULL DEFAULT 2.5
+    );
+
+    -- Back-fill: every variant inherits its concept's existing schedule
+    INSERT INTO schedule_new (variant_id, concept_id, due_at, interval_days, ease_factor)
+    SELECT v.id, v.concept_id, s.due_at, s.interval_days, s.ease_factor
+    FROM variants v
+    INNER JOIN schedule s ON s.concept_id = v.concept_id;
+
+    DROP INDEX IF EXISTS idx_schedule_due;
+    DROP TABLE schedule;
+    ALTER TABLE schedule_new RENAME TO schedule;
+
+    -- Indexes for due date and per-concept queries
+    CREATE INDEX idx_schedule_due ON schedule(due_at);
+    CREATE INDEX idx_schedule_concept ON schedule(concept_id);
+  `,
+
+  down: `
+    -- Collapse variant schedules back to one row per concept,
+    -- keeping the earliest due date so nothing is skipped
+    CREATE TABLE schedule_old (
+      concept_id TEXT PRIMARY KEY REFERENCES concepts(id) ON DELETE CASCADE,
+      due_at TEXT NOT NULL,
+      interval_days REAL NOT NULL DEFAULT 1,
+      ease_factor REAL NOT NULL DEFAULT 2.5
+    );
+
+    INSERT INTO schedule_old (concept_id, due_at, interval_days, ease_factor)
+    SELECT concept_id, MIN(due_at), MIN(interval_days), AVG(ease_factor)
+    FROM schedule
+    GROUP BY concept_id;
+
+    DROP INDEX IF EXISTS idx_schedule_concept;
+    DROP INDEX IF EXISTS idx_schedule_due;
+    DROP TABLE schedule;
+    ALTER TABLE schedule_old RENAME TO schedule;
+
+    CREATE INDEX idx_schedule_due ON schedule(due_at);
+  `,
+};
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Migration to add per-concept mastery tracking
+ * @lastmodified 2026-01-22T00:00:00Z
+ *
+ * Features: Concept x dimension EWMA mastery alongside the global dimension profile
+ * Main APIs: migration.up (create table), migration.down (drop table)
+ * Constraints: One row per (concept, dimension), cascades with the concept
+ * Patterns: Same column layout as the mastery table, composite primary key
+ *
+ * Changes:
+ * - Add concept_mastery table keyed by (concept_id, dimension)
+ * - Add idx_concept_mastery_dimension for cross-concept dimension queries
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '004_concept_mastery',
+
+  up: `
+    -- Concept mastery table: EWMA tracking per concept and dimension
+    CREATE TABLE concept_mastery (
+      concept_id TEXT NOT NULL REFERENCES concepts(id) ON DELETE CASCADE,
+      dimension TEXT NOT NULL,
+      accuracy_ewma REAL NOT NULL DEFAULT 0.5,
+      speed_ewma REAL NOT NULL DEFAULT 0.5,
+      recent_count INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (concept_id, dimension)
+    );
+
+    -- Index for looking up one dimension across all concepts
+    CREATE INDEX idx_concept_mastery_dimension ON concept_mastery(dimension);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_concept_mastery_dimension;
+    DROP TABLE IF EXISTS concept_mastery;
+  `,
+};
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Migration to store FSRS memory state on variant schedules
+ * @lastmodified 2026-01-23T00:00:00Z
+ *
+ * Features: Stability, difficulty and last review time for the FSRS scheduler
+ * Main APIs: migration.up (add columns), migration.down (no-op)
+ * Constraints: Non-destructive - nullable columns, NULL means "not managed by FSRS"
+ * Patterns: Nullable columns for optional algorithm-specific state
+ *
+ * Changes:
+ * - Add stability column to schedule (REAL, days)
+ * - Add difficulty column to schedule (REAL, 1-10)
+ * - Add last_reviewed_at column to schedule (TEXT, ISO 8601)
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '005_fsrs_state',
+
+  up: `
+    -- FSRS stability: days until recall probability falls to 90%
+    ALTER TABLE schedule ADD COLUMN stability REAL DEFAULT NULL
+      CHECK (stability IS NULL OR stability > 0);
+
+    -- FSRS difficulty: 1 (easiest) to 10 (hardest)
+    ALTER TABLE schedule ADD COLUMN difficulty REAL DEFAULT NULL
+      CHECK (difficulty IS NULL OR (difficulty >= 1 AND difficulty <= 10));
+
+    -- Time of the last review, needed to compute retrievability
+    ALTER TABLE schedule ADD COLUMN last_reviewed_at TEXT DEFAULT NULL;
+  `,
+
+  down: `
+    -- Note: SQLite doesn't support DROP COLUMN directly
+    -- The FSRS columns are nullable and ignored by SM-2, so they are left in place
+    SELECT 1;
+  `,
+};
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Migration to store answer options for objective question types
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Options and correct-answer indices for multiple choice, multi-select and true/false
+ * Main APIs: migration.up (add columns), migration.down (no-op)
+ * Constraints: Non-destructive - nullable columns, NULL for flashcard and open response variants
+ * Patterns: JSON arrays for list data (matching hints)
+ *
+ * Changes:
+ * - Add options column to variants (JSON TEXT array of strings)
+ * - Add correct_indices column to variants (JSON TEXT array of option indices)
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '006_answer_options',
+
+  up: `
+    -- Answer options shown for choice questions, e.g. ["True", "False"]
+    ALTER TABLE variants ADD COLUMN options TEXT DEFAULT NULL
+      CHECK (options IS NULL OR json_valid(options));
+
+    -- Indices into options of the correct answers, e.g. [1]
+    ALTER TABLE variants ADD COLUMN correct_indices TEXT DEFAULT NULL
+      CHECK (correct_indices IS NULL OR json_valid(correct_indices));
+  `,
+
+  down: `
+    -- Note: SQLite doesn't support DROP COLUMN directly
+    -- The option columns are nullable and ignored by other question types, so they are left in place
+    SELECT 1;
+  `,
+};
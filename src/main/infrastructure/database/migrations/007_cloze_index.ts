@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Migration to link cloze variants to the deletion they test
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Cloze index per variant, so one cloze note yields one card per {{cN::...}} index
+ * Main APIs: migration.up (add column), migration.down (no-op)
+ * Constraints: Non-destructive - nullable column, NULL for variants without cloze markup
+ * Patterns: Sibling cards share the same front text (the full cloze markup)
+ *
+ * Changes:
+ * - Add cloze_index column to variants (the N in cN, 1 or greater)
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '007_cloze_index',
+
+  up: `
+    -- Cloze deletion index this card blanks; the front holds the full markup
+    ALTER TABLE variants ADD COLUMN cloze_index INTEGER DEFAULT NULL
+      CHECK (cloze_index IS NULL OR cloze_index >= 1);
+  `,
+
+  down: `
+    -- Note: SQLite doesn't support DROP COLUMN directly
+    -- The cloze_index column is nullable and ignored by non-cloze variants, so it is left in place
+    SELECT 1;
+  `,
+};
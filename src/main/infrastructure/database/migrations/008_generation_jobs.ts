@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Migration to persist background variant generation jobs
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: One row per concept x dimension x difficulty generation task, retry bookkeeping
+ * Main APIs: migration.up (create table), migration.down (drop table)
+ * Constraints: Jobs cascade with their concept; running jobs are re-queued on startup
+ * Patterns: Status column drives the queue, run_after delays retries and rate-limit waits
+ *
+ * Changes:
+ * - Add generation_jobs table
+ * - Add idx_generation_jobs_runnable for picking the next queued job
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '008_generation_jobs',
+
+  up: `
+    -- Generation jobs: one LLM generation call per row
+    CREATE TABLE generation_jobs (
+      id TEXT PRIMARY KEY,
+      concept_id TEXT NOT NULL REFERENCES concepts(id) ON DELETE CASCADE,
+      dimension TEXT NOT NULL,
+      difficulty INTEGER NOT NULL CHECK (difficulty BETWEEN 1 AND 5),
+      count INTEGER NOT NULL CHECK (count >= 1),
+      status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      run_after TEXT NOT NULL,
+      error TEXT DEFAULT NULL,
+      variants_created INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- Index for picking queued jobs whose wait has elapsed, oldest first
+    CREATE INDEX idx_generation_jobs_runnable ON generation_jobs(status, run_after, created_at);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_generation_jobs_runnable;
+    DROP TABLE IF EXISTS generation_jobs;
+  `,
+};
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Migration to cache LLM evaluations of open responses
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: One row per hashed evaluation input and evaluator identity, hit counting
+ * Main APIs: migration.up (create table), migration.down (drop table)
+ * Constraints: Rows are independent of concepts and variants; the key hashes their text
+ * Patterns: JSON for the evaluation result, provider/model/prompt version kept for inspection
+ *
+ * Changes:
+ * - Add evaluation_cache table
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '009_evaluation_cache',
+
+  up: `
+    -- Evaluation cache: SHA-256 of the evaluation input and evaluator identity
+    CREATE TABLE evaluation_cache (
+      cache_key TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      prompt_version TEXT NOT NULL,
+      result TEXT NOT NULL,
+      hit_count INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      last_used_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `,
+
+  down: `
+    DROP TABLE IF EXISTS evaluation_cache;
+  `,
+};
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Migration to record human overrides of LLM evaluations
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Evaluating model per event, the LLM's rating kept beside the effective result,
+ *   the user's verdict and when it was given
+ * Main APIs: migration.up (add columns, backfill llm_rating), migration.down (no-op)
+ * Constraints: Non-destructive - adds columns only; result keeps driving mastery and schedules
+ * Patterns: Nullable columns for optional data, CHECK constraints on ratings
+ *
+ * Changes:
+ * - Add evaluation_model column to events (TEXT)
+ * - Add llm_rating column to events (TEXT), backfilled from result for evaluated events
+ * - Add human_rating column to events (TEXT)
+ * - Add overridden_at column to events (TEXT)
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '010_evaluation_overrides',
+
+  up: `
+    -- Model that scored the response (NULL for events recorded before tracking)
+    ALTER TABLE events ADD COLUMN evaluation_model TEXT DEFAULT NULL;
+
+    -- Rating the LLM suggested; result holds the override while one is set
+    ALTER TABLE events ADD COLUMN llm_rating TEXT DEFAULT NULL
+      CHECK (llm_rating IN ('again', 'hard', 'good', 'easy'));
+
+    -- The user's verdict on the evaluation
+    ALTER TABLE events ADD COLUMN human_rating TEXT DEFAULT NULL
+      CHECK (human_rating IN ('again', 'hard', 'good', 'easy'));
+
+    ALTER TABLE events ADD COLUMN overridden_at TEXT DEFAULT NULL;
+
+    -- Until now the result of an evaluated event was always the LLM's rating
+    UPDATE events SET llm_rating = result WHERE llm_score IS NOT NULL;
+  `,
+
+  down: `
+    -- Note: SQLite doesn't support DROP COLUMN directly
+    -- The columns are nullable and ignored by older code, so they are left in place
+    SELECT 1;
+  `,
+};
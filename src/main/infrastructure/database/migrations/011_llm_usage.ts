@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Migration to log LLM provider calls
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: One row per provider call with tokens, latency, outcome and estimated cost
+ * Main APIs: migration.up (create table), migration.down (drop table)
+ * Constraints: Append-only; cost is null when the model's price is unknown
+ * Patterns: Indexed by creation time for monthly spend queries
+ *
+ * Changes:
+ * - Add llm_usage table
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '011_llm_usage',
+
+  up: `
+    -- LLM usage log: every call made to a provider, including failed and blocked ones
+    CREATE TABLE llm_usage (
+      id TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      feature TEXT NOT NULL CHECK (feature IN ('generation', 'evaluation')),
+      prompt_tokens INTEGER,
+      completion_tokens INTEGER,
+      latency_ms INTEGER NOT NULL,
+      outcome TEXT NOT NULL CHECK (outcome IN ('success', 'error', 'blocked')),
+      error TEXT,
+      cost_usd REAL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX idx_llm_usage_created_at ON llm_usage(created_at);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_llm_usage_created_at;
+    DROP TABLE IF EXISTS llm_usage;
+  `,
+};
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Migration to link concepts to the note they were imported from
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Source path per concept, so re-importing a Markdown vault updates its concepts
+ * Main APIs: migration.up (add column and index), migration.down (drop index)
+ * Constraints: Non-destructive - nullable column, NULL for concepts not imported from notes
+ * Patterns: One concept per source; the path ends in #Heading for heading-based concepts
+ *
+ * Changes:
+ * - Add source_path column to concepts
+ * - Add unique index on source_path
+ */
+
+import type { Migration } from '../migrate';
+
+export const migration: Migration = {
+  name: '012_concept_source',
+
+  up: `
+    -- Note the concept came from, e.g. /notes/Biology.md#Osmosis
+    ALTER TABLE concepts ADD COLUMN source_path TEXT DEFAULT NULL;
+
+    -- Re-imports find concepts by source; NULLs do not collide
+    CREATE UNIQUE INDEX idx_concepts_source_path ON concepts(source_path);
+  `,
+
+  down: `
+    -- Note: SQLite doesn't support DROP COLUMN directly
+    -- The source_path column is nullable and ignored by older code, so it is left in place
+    DROP INDEX IF EXISTS idx_concepts_source_path;
+  `,
+};
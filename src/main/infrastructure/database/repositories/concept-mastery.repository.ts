@@ -0,0 +1,188 @@
+/**
+ * @fileoverview SQLite repository implementation for per-concept DimensionMastery tracking
+ * @lastmodified 2026-01-22T00:00:00Z
+ *
+ * Features: EWMA mastery tracking per concept and dimension with upsert semantics
+ * Main APIs: findByConceptAndDimension, findByConceptId, findAll, save
+ * Constraints: One record per (concept, dimension), EWMA values 0-1
+ * Patterns: Upsert for save operations, default profile overlay for missing rows
+ */
+
+import { asConceptId } from '../../../../shared/types/branded';
+import { createEmptyMasteryProfile, DimensionType } from '../../../../shared/types/core';
+import { getDatabase } from '../connection';
+import { DatabaseError } from '../errors';
+
+import type { ConceptId } from '../../../../shared/types/branded';
+import type { DimensionMastery, MasteryProfile } from '../../../../shared/types/core';
+
+/** Raw database row for concept_mastery table */
+interface ConceptMasteryRow {
+  concept_id: string;
+  dimension: string;
+  accuracy_ewma: number;
+  speed_ewma: number;
+  recent_count: number;
+}
+
+/**
+ * Maps a database row to a DimensionMastery value object
+ */
+function rowToMastery(row: ConceptMasteryRow): DimensionMastery {
+  return {
+    accuracyEwma: row.accuracy_ewma,
+    speedEwma: row.speed_ewma,
+    recentCount: row.recent_count,
+  };
+}
+
+/**
+ * Type guard for dimension strings read from the database
+ */
+function isDimensionType(value: string): value is DimensionType {
+  return Object.values(DimensionType).includes(value as DimensionType);
+}
+
+/**
+ * SQLite repository for per-concept DimensionMastery tracking
+ *
+ * Complements MasteryRepository: the global profile answers "how good am I at
+ * discrimination?", this store answers "how good am I at discrimination for
+ * this concept?". Concepts without recorded reviews get the default profile.
+ */
+export const ConceptMasteryRepository = {
+  /**
+   * Finds mastery data for a specific concept and dimension
+   *
+   * @param conceptId - The concept's unique ID
+   * @param dimension - The dimension type to look up
+   * @returns The mastery data if found, null otherwise
+   */
+  findByConceptAndDimension(
+    conceptId: ConceptId,
+    dimension: DimensionType
+  ): DimensionMastery | null {
+    const db = getDatabase();
+    const row = db
+      .prepare<[string, string], ConceptMasteryRow>(
+        `SELECT concept_id, dimension, accuracy_ewma, speed_ewma, recent_count
+         FROM concept_mastery
+         WHERE concept_id = ? AND dimension = ?`
+      )
+      .get(conceptId, dimension);
+
+    return row ? rowToMastery(row) : null;
+  },
+
+  /**
+   * Retrieves the mastery profile for a single concept
+   *
+   * Returns default values for any dimensions not yet recorded.
+   *
+   * @param conceptId - The concept's unique ID
+   * @returns Complete mastery profile for the concept
+   */
+  findByConceptId(conceptId: ConceptId): MasteryProfile {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[string], ConceptMasteryRow>(
+        `SELECT concept_id, dimension, accuracy_ewma, speed_ewma, recent_count
+         FROM concept_mastery
+         WHERE concept_id = ?`
+      )
+      .all(conceptId);
+
+    // Start with default profile
+    const profile = createEmptyMasteryProfile();
+
+    // Overlay database values
+    for (const row of rows) {
+      if (isDimensionType(row.dimension)) {
+        profile[row.dimension] = rowToMastery(row);
+      }
+    }
+
+    return profile;
+  },
+
+  /**
+   * Retrieves mastery profiles for every concept that has recorded reviews
+   *
+   * @returns Map of concept ID to its mastery profile
+   */
+  findAll(): Map<ConceptId, MasteryProfile> {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[], ConceptMasteryRow>(
+        `SELECT concept_id, dimension, accuracy_ewma, speed_ewma, recent_count
+         FROM concept_mastery
+         ORDER BY concept_id`
+      )
+      .all();
+
+    const profiles = new Map<ConceptId, MasteryProfile>();
+
+    for (const row of rows) {
+      if (!isDimensionType(row.dimension)) {
+        continue;
+      }
+
+      const conceptId = asConceptId(row.concept_id);
+      let profile = profiles.get(conceptId);
+      if (!profile) {
+        profile = createEmptyMasteryProfile();
+        profiles.set(conceptId, profile);
+      }
+      profile[row.dimension] = rowToMastery(row);
+    }
+
+    return profiles;
+  },
+
+  /**
+   * Saves mastery data for a concept and dimension using upsert semantics
+   *
+   * Creates the record if it doesn't exist, updates if it does.
+   *
+   * @param conceptId - The concept's unique ID
+   * @param dimension - The dimension type
+   * @param mastery - The mastery data to save
+   * @throws DatabaseError if concept doesn't exist
+   */
+  save(conceptId: ConceptId, dimension: DimensionType, mastery: DimensionMastery): void {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    try {
+      db.prepare(
+        `INSERT INTO concept_mastery
+           (concept_id, dimension, accuracy_ewma, speed_ewma, recent_count, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(concept_id, dimension) DO UPDATE SET
+           accuracy_ewma = excluded.accuracy_ewma,
+           speed_ewma = excluded.speed_ewma,
+           recent_count = excluded.recent_count,
+           updated_at = excluded.updated_at`
+      ).run(
+        conceptId,
+        dimension,
+        mastery.accuracyEwma,
+        mastery.speedEwma,
+        mastery.recentCount,
+        now
+      );
+    } catch (error) {
+      const err = error as Error;
+      if (err.message.includes('FOREIGN KEY constraint failed')) {
+        throw new DatabaseError(
+          `Concept with id "${conceptId}" does not exist`,
+          'CONSTRAINT_VIOLATION',
+          { cause: err, context: { conceptId, dimension } }
+        );
+      }
+      throw new DatabaseError('Failed to save concept mastery', 'QUERY_FAILED', {
+        cause: err,
+      });
+    }
+  },
+};
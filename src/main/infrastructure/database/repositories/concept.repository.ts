@@ -3,7 +3,7 @@
  * @lastmodified 2026-01-16T00:00:00Z
  *
  * Features: CRUD operations for concepts with JSON array handling
- * Main APIs: findById, findAll, create, update, delete
+ * Main APIs: findById, findAll, findBySourcePath, create, update, delete
  * Constraints: Unique concept names, required definition
  * Patterns: Synchronous better-sqlite3, branded types for IDs
  */
@@ -23,6 +23,7 @@ interface ConceptRow {
   name: string;
   definition: string;
   facts: string;
+  source_path: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -36,6 +37,7 @@ function rowToConcept(row: ConceptRow): Concept {
     name: row.name,
     definition: row.definition,
     facts: JSON.parse(row.facts) as string[],
+    ...(row.source_path !== null && { sourcePath: row.source_path }),
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -58,7 +60,7 @@ export const ConceptRepository = {
     const db = getDatabase();
     const row = db
       .prepare<[string], ConceptRow>(
-        `SELECT id, name, definition, facts, created_at, updated_at
+        `SELECT id, name, definition, facts, source_path, created_at, updated_at
          FROM concepts
          WHERE id = ?`
       )
@@ -76,7 +78,7 @@ export const ConceptRepository = {
     const db = getDatabase();
     const rows = db
       .prepare<[], ConceptRow>(
-        `SELECT id, name, definition, facts, created_at, updated_at
+        `SELECT id, name, definition, facts, source_path, created_at, updated_at
          FROM concepts
          ORDER BY created_at DESC`
       )
@@ -85,6 +87,26 @@ export const ConceptRepository = {
     return rows.map(rowToConcept);
   },
 
+  /**
+   * Finds the concepts imported from notes under a path
+   *
+   * @param prefix - Folder or file path the source paths start with
+   * @returns Concepts whose source path starts with the prefix
+   */
+  findBySourcePath(prefix: string): Concept[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[string], ConceptRow>(
+        `SELECT id, name, definition, facts, source_path, created_at, updated_at
+         FROM concepts
+         WHERE substr(source_path, 1, length(?1)) = ?1
+         ORDER BY source_path`
+      )
+      .all(prefix);
+
+    return rows.map(rowToConcept);
+  },
+
   /**
    * Creates a new concept
    *
@@ -101,15 +123,24 @@ export const ConceptRepository = {
 
     try {
       db.prepare(
-        `INSERT INTO concepts (id, name, definition, facts, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?)`
-      ).run(id, data.name, data.definition, JSON.stringify(data.facts), now, now);
+        `INSERT INTO concepts (id, name, definition, facts, source_path, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        id,
+        data.name,
+        data.definition,
+        JSON.stringify(data.facts),
+        data.sourcePath ?? null,
+        now,
+        now
+      );
 
       return {
         id: asConceptId(id),
         name: data.name,
         definition: data.definition,
         facts: [...data.facts],
+        ...(data.sourcePath !== undefined && { sourcePath: data.sourcePath }),
         createdAt: new Date(now),
         updatedAt: new Date(now),
       };
@@ -153,21 +184,30 @@ export const ConceptRepository = {
       name: data.name ?? existing.name,
       definition: data.definition ?? existing.definition,
       facts: data.facts ?? existing.facts,
+      sourcePath: data.sourcePath ?? existing.sourcePath,
     };
     const now = new Date().toISOString();
 
     try {
       db.prepare(
         `UPDATE concepts
-         SET name = ?, definition = ?, facts = ?, updated_at = ?
+         SET name = ?, definition = ?, facts = ?, source_path = ?, updated_at = ?
          WHERE id = ?`
-      ).run(updated.name, updated.definition, JSON.stringify(updated.facts), now, id);
+      ).run(
+        updated.name,
+        updated.definition,
+        JSON.stringify(updated.facts),
+        updated.sourcePath ?? null,
+        now,
+        id
+      );
 
       return {
         id,
         name: updated.name,
         definition: updated.definition,
         facts: [...updated.facts],
+        ...(updated.sourcePath !== undefined && { sourcePath: updated.sourcePath }),
         createdAt: existing.createdAt,
         updatedAt: new Date(now),
       };
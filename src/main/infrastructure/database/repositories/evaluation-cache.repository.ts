@@ -0,0 +1,104 @@
+/**
+ * @fileoverview SQLite repository implementation for the LLM evaluation cache
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Cached evaluation lookup with hit counting, insert-or-replace, entry count
+ * Main APIs: find, save, count
+ * Constraints: Keys are computed by evaluationCacheKey; rows are never updated in place
+ * Patterns: Implements the EvaluationCacheStore port, JSON result column
+ */
+
+import { getDatabase } from '../connection';
+import { DatabaseError } from '../errors';
+
+import type { LLMEvaluationResult } from '../../../../shared/types/ipc';
+import type { EvaluatorIdentity } from '../../llm/evaluation-cache';
+
+/**
+ * SQLite repository for cached LLM evaluations
+ */
+export const EvaluationCacheRepository = {
+  /**
+   * Finds a cached evaluation and records the hit
+   *
+   * @param key - Cache key from evaluationCacheKey()
+   * @returns The cached evaluation, or null on a miss
+   * @throws DatabaseError if the query fails
+   */
+  find(key: string): LLMEvaluationResult | null {
+    const db = getDatabase();
+    try {
+      const row = db
+        .prepare<[string], { result: string }>(
+          'SELECT result FROM evaluation_cache WHERE cache_key = ?'
+        )
+        .get(key);
+      if (!row) {
+        return null;
+      }
+
+      db.prepare(
+        `UPDATE evaluation_cache SET hit_count = hit_count + 1, last_used_at = ?
+         WHERE cache_key = ?`
+      ).run(new Date().toISOString(), key);
+      return JSON.parse(row.result) as LLMEvaluationResult;
+    } catch (error) {
+      throw new DatabaseError('Failed to read evaluation cache', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+        context: { key },
+      });
+    }
+  },
+
+  /**
+   * Stores an evaluation, replacing any entry with the same key
+   *
+   * @param key - Cache key from evaluationCacheKey()
+   * @param identity - Provider, model and prompt version that produced the result
+   * @param result - The evaluation to cache
+   * @throws DatabaseError if the insert fails
+   */
+  save(key: string, identity: EvaluatorIdentity, result: LLMEvaluationResult): void {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+    try {
+      db.prepare(
+        `INSERT OR REPLACE INTO evaluation_cache
+           (cache_key, provider, model, prompt_version, result, hit_count, created_at, last_used_at)
+         VALUES (?, ?, ?, ?, ?, 0, ?, ?)`
+      ).run(
+        key,
+        identity.provider,
+        identity.model,
+        identity.promptVersion,
+        JSON.stringify(result),
+        now,
+        now
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to save evaluation to cache', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+        context: { key },
+      });
+    }
+  },
+
+  /**
+   * Counts cached evaluations
+   *
+   * @throws DatabaseError if the query fails
+   */
+  count(): number {
+    const db = getDatabase();
+    try {
+      const row = db
+        .prepare<[], { count: number }>('SELECT COUNT(*) AS count FROM evaluation_cache')
+        .get();
+      return row?.count ?? 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to count cached evaluations', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  },
+};
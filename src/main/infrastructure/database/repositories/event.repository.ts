@@ -1,11 +1,17 @@
 /**
  * @fileoverview SQLite repository implementation for ReviewEvent entities
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Create and query review events for analytics and mastery calculation
- * Main APIs: create, findByConceptId, findByDimension, findRecent
+ * Features: Create and query review events for analytics and mastery calculation,
+ *   human overrides of LLM evaluation verdicts
+ * Main APIs: create, findById, findByConceptId, findByDimension, findRecent, findAll,
+ *   findOpenResponses, findEvaluated, setHumanRating, findReviewedConceptIds,
+ *   countConceptsFirstReviewedSince
  * Constraints: Must reference valid concept and variant
- * Patterns: Immutable events (no update/delete), time-ordered queries
+ * Patterns: Append-only events, time-ordered queries. Events are never deleted, and only the
+ *   verdict columns of an evaluated event change: human_rating, overridden_at, and result,
+ *   which always holds the effective rating (the human override, else the LLM rating) so
+ *   that replay and analytics read one column
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -34,8 +40,17 @@ interface EventRow {
   llm_score: number | null;
   llm_feedback: string | null;
   evaluation_confidence: number | null;
+  evaluation_model: string | null;
+  llm_rating: string | null;
+  human_rating: string | null;
+  overridden_at: string | null;
 }
 
+/** Columns selected for every event query */
+const EVENT_COLUMNS = `id, concept_id, variant_id, dimension, difficulty, result, time_ms,
+         hints_used, created_at, user_response, llm_score, llm_feedback, evaluation_confidence,
+         evaluation_model, llm_rating, human_rating, overridden_at`;
+
 /**
  * Maps a database row to a ReviewEvent domain entity
  */
@@ -59,6 +74,10 @@ function rowToEvent(row: EventRow): ReviewEvent {
     ...(row.llm_score !== null && { llmScore: row.llm_score }),
     ...(row.llm_feedback !== null && { llmFeedback: row.llm_feedback }),
     ...(row.evaluation_confidence !== null && { evaluationConfidence: row.evaluation_confidence }),
+    ...(row.evaluation_model !== null && { evaluationModel: row.evaluation_model }),
+    ...(row.llm_rating !== null && { llmRating: row.llm_rating as ReviewResultType }),
+    ...(row.human_rating !== null && { humanRating: row.human_rating as ReviewResultType }),
+    ...(row.overridden_at !== null && { overriddenAt: new Date(row.overridden_at) }),
   };
 }
 
@@ -72,20 +91,22 @@ export const EventRepository = {
   /**
    * Creates a new review event
    *
-   * @param event - Event data without id or timestamp
+   * @param event - Event data without id; the timestamp defaults to now and is only given
+   *   for events recorded elsewhere, such as imported review history
    * @returns The created event with generated id and timestamp
    * @throws DatabaseError if concept or variant doesn't exist
    */
-  create(event: Omit<ReviewEvent, 'id' | 'createdAt'>): ReviewEvent {
+  create(event: Omit<ReviewEvent, 'id' | 'createdAt'> & { createdAt?: Date }): ReviewEvent {
     const db = getDatabase();
     const id = uuidv4();
-    const now = new Date().toISOString();
+    const now = (event.createdAt ?? new Date()).toISOString();
 
     try {
       db.prepare(
         `INSERT INTO events (id, concept_id, variant_id, dimension, difficulty, result, time_ms, hints_used, created_at,
-                             user_response, llm_score, llm_feedback, evaluation_confidence)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+                             user_response, llm_score, llm_feedback, evaluation_confidence,
+                             evaluation_model, llm_rating)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       ).run(
         id,
         event.conceptId,
@@ -99,7 +120,9 @@ export const EventRepository = {
         event.userResponse ?? null,
         event.llmScore ?? null,
         event.llmFeedback ?? null,
-        event.evaluationConfidence ?? null
+        event.evaluationConfidence ?? null,
+        event.evaluationModel ?? null,
+        event.llmRating ?? null
       );
 
       const baseEvent = {
@@ -121,6 +144,8 @@ export const EventRepository = {
         ...(event.llmScore !== undefined && { llmScore: event.llmScore }),
         ...(event.llmFeedback !== undefined && { llmFeedback: event.llmFeedback }),
         ...(event.evaluationConfidence !== undefined && { evaluationConfidence: event.evaluationConfidence }),
+        ...(event.evaluationModel !== undefined && { evaluationModel: event.evaluationModel }),
+        ...(event.llmRating !== undefined && { llmRating: event.llmRating }),
       };
     } catch (error) {
       const err = error as Error;
@@ -140,6 +165,21 @@ export const EventRepository = {
     }
   },
 
+  /**
+   * Finds an event by its ID
+   *
+   * @param id - The event's unique ID
+   * @returns The event, or null if not found
+   */
+  findById(id: string): ReviewEvent | null {
+    const db = getDatabase();
+    const row = db
+      .prepare<[string], EventRow>(`SELECT ${EVENT_COLUMNS} FROM events WHERE id = ?`)
+      .get(id);
+
+    return row ? rowToEvent(row) : null;
+  },
+
   /**
    * Finds events for a specific concept
    *
@@ -150,14 +190,12 @@ export const EventRepository = {
   findByConceptId(conceptId: ConceptId, limit?: number): ReviewEvent[] {
     const db = getDatabase();
     const sql = limit
-      ? `SELECT id, concept_id, variant_id, dimension, difficulty, result, time_ms, hints_used, created_at,
-                user_response, llm_score, llm_feedback, evaluation_confidence
+      ? `SELECT ${EVENT_COLUMNS}
          FROM events
          WHERE concept_id = ?
          ORDER BY created_at DESC
          LIMIT ?`
-      : `SELECT id, concept_id, variant_id, dimension, difficulty, result, time_ms, hints_used, created_at,
-                user_response, llm_score, llm_feedback, evaluation_confidence
+      : `SELECT ${EVENT_COLUMNS}
          FROM events
          WHERE concept_id = ?
          ORDER BY created_at DESC`;
@@ -181,14 +219,12 @@ export const EventRepository = {
   findByDimension(dimension: DimensionType, limit?: number): ReviewEvent[] {
     const db = getDatabase();
     const sql = limit
-      ? `SELECT id, concept_id, variant_id, dimension, difficulty, result, time_ms, hints_used, created_at,
-                user_response, llm_score, llm_feedback, evaluation_confidence
+      ? `SELECT ${EVENT_COLUMNS}
          FROM events
          WHERE dimension = ?
          ORDER BY created_at DESC
          LIMIT ?`
-      : `SELECT id, concept_id, variant_id, dimension, difficulty, result, time_ms, hints_used, created_at,
-                user_response, llm_score, llm_feedback, evaluation_confidence
+      : `SELECT ${EVENT_COLUMNS}
          FROM events
          WHERE dimension = ?
          ORDER BY created_at DESC`;
@@ -210,8 +246,7 @@ export const EventRepository = {
     const db = getDatabase();
     const rows = db
       .prepare<[number], EventRow>(
-        `SELECT id, concept_id, variant_id, dimension, difficulty, result, time_ms, hints_used, created_at,
-                user_response, llm_score, llm_feedback, evaluation_confidence
+        `SELECT ${EVENT_COLUMNS}
          FROM events
          ORDER BY created_at DESC
          LIMIT ?`
@@ -220,4 +255,149 @@ export const EventRepository = {
 
     return rows.map(rowToEvent);
   },
+
+  /**
+   * Finds every event in chronological order
+   *
+   * Used to replay the full review history, e.g. when fitting scheduler
+   * parameters to the user's actual recall.
+   *
+   * @returns Array of all events, oldest first
+   */
+  findAll(): ReviewEvent[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[], EventRow>(
+        `SELECT ${EVENT_COLUMNS}
+         FROM events
+         ORDER BY created_at ASC`
+      )
+      .all();
+
+    return rows.map(rowToEvent);
+  },
+
+  /**
+   * Finds the most recent answers to open response questions
+   *
+   * Used to re-score stored responses with another model or prompt version.
+   * Events of deleted or since-converted variants are skipped.
+   *
+   * @param limit - Maximum number of events to return
+   * @returns Events with a user response, oldest first
+   */
+  findOpenResponses(limit: number): ReviewEvent[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[number], EventRow>(
+        `SELECT * FROM (
+           SELECT ${EVENT_COLUMNS}
+           FROM events
+           WHERE user_response IS NOT NULL
+             AND variant_id IN (SELECT id FROM variants WHERE question_type = 'open_response')
+           ORDER BY created_at DESC, id DESC
+           LIMIT ?
+         )
+         ORDER BY created_at ASC, id ASC`
+      )
+      .all(limit);
+
+    return rows.map(rowToEvent);
+  },
+
+  /**
+   * Finds events that were scored by an LLM evaluator
+   *
+   * @param limit - Maximum number of events to return (default: no limit)
+   * @returns Evaluated events, most recent first
+   */
+  findEvaluated(limit?: number): ReviewEvent[] {
+    const db = getDatabase();
+    const sql = `SELECT ${EVENT_COLUMNS}
+         FROM events
+         WHERE llm_score IS NOT NULL
+         ORDER BY created_at DESC, id DESC`;
+
+    const rows = limit !== undefined
+      ? db.prepare<[number], EventRow>(`${sql} LIMIT ?`).all(limit)
+      : db.prepare<[], EventRow>(sql).all();
+
+    return rows.map(rowToEvent);
+  },
+
+  /**
+   * Records or clears the user's verdict on an LLM evaluation
+   *
+   * The event's result becomes the human rating, or goes back to the LLM's
+   * rating when the override is cleared, so replaying the event log picks
+   * up the correction. The LLM score and rating are never changed.
+   *
+   * @param id - The evaluated event's ID
+   * @param rating - The user's rating, or null to clear the override
+   * @returns The updated event, or null if no evaluated event has that ID
+   * @throws DatabaseError if the update fails
+   */
+  setHumanRating(id: string, rating: ReviewResultType | null): ReviewEvent | null {
+    const db = getDatabase();
+    try {
+      const info = db
+        .prepare<[string | null, string | null, string | null, string]>(
+          `UPDATE events
+           SET human_rating = ?,
+               overridden_at = ?,
+               result = COALESCE(?, llm_rating, result)
+           WHERE id = ? AND llm_score IS NOT NULL`
+        )
+        .run(rating, rating !== null ? new Date().toISOString() : null, rating, id);
+
+      return info.changes > 0 ? this.findById(id) : null;
+    } catch (error) {
+      throw new DatabaseError('Failed to update evaluation verdict', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+        context: { id, rating },
+      });
+    }
+  },
+
+  /**
+   * Finds every concept that has at least one recorded review
+   *
+   * Concepts not in this set are "new" for the daily new-concept limit.
+   *
+   * @returns Set of reviewed concept IDs
+   */
+  findReviewedConceptIds(): Set<ConceptId> {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[], { concept_id: string }>('SELECT DISTINCT concept_id FROM events')
+      .all();
+
+    return new Set(rows.map((row) => asConceptId(row.concept_id)));
+  },
+
+  /**
+   * Counts concepts whose first ever review happened at or after a given time
+   *
+   * Derived from the event log, so the daily new-concept count survives
+   * application restarts without separate bookkeeping.
+   *
+   * @param since - Start of the period (typically local midnight)
+   * @returns Number of concepts introduced since that time
+   */
+  countConceptsFirstReviewedSince(since: Date): number {
+    const db = getDatabase();
+    const row = db
+      .prepare<[string], { count: number }>(
+        `SELECT COUNT(*) AS count
+         FROM (
+           SELECT concept_id
+           FROM events
+           GROUP BY concept_id
+           HAVING MIN(created_at) >= ?
+         )`
+      )
+      .get(since.toISOString());
+
+    return row?.count ?? 0;
+  },
 };
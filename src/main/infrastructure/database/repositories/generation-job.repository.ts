@@ -0,0 +1,332 @@
+/**
+ * @fileoverview SQLite repository implementation for background generation jobs
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Bulk job creation, runnable job selection, guarded status transitions,
+ *   restart recovery, cancel/retry, clearing finished jobs
+ * Main APIs: createMany, findAll, findById, findActive, findRunnable, findNextRunAt, markRunning,
+ *   markCompleted, markFailed, requeue, requeueInterrupted, cancel, retry, deleteFinished
+ * Constraints: Each transition only applies from its expected status
+ * Patterns: Implements the GenerationJobStore port, ISO timestamps compared as text
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { asConceptId } from '../../../../shared/types/branded';
+import { getDatabase } from '../connection';
+import { DatabaseError } from '../errors';
+
+import type { ConceptId } from '../../../../shared/types/branded';
+import type { Dimension, GenerationJobStatus } from '../../../../shared/types/ipc';
+import type { GenerationJob, NewGenerationJob } from '../../jobs/types';
+import type { DifficultyLevel } from '../../llm/types';
+
+/** Raw database row for generation_jobs table */
+interface GenerationJobRow {
+  id: string;
+  concept_id: string;
+  dimension: string;
+  difficulty: number;
+  count: number;
+  status: string;
+  attempts: number;
+  run_after: string;
+  error: string | null;
+  variants_created: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Columns selected for every job query */
+const JOB_COLUMNS = `id, concept_id, dimension, difficulty, count, status, attempts,
+         run_after, error, variants_created, created_at, updated_at`;
+
+/**
+ * Maps a database row to a GenerationJob
+ */
+function rowToJob(row: GenerationJobRow): GenerationJob {
+  return {
+    id: row.id,
+    conceptId: asConceptId(row.concept_id),
+    dimension: row.dimension as Dimension,
+    difficulty: row.difficulty as DifficultyLevel,
+    count: row.count,
+    status: row.status as GenerationJobStatus,
+    attempts: row.attempts,
+    runAfter: new Date(row.run_after),
+    error: row.error,
+    variantsCreated: row.variants_created,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Runs a guarded status update and returns the job if a row changed
+ *
+ * @param sql - UPDATE statement; its last parameter must be the job id
+ * @param params - Statement parameters, ending with the job id
+ */
+function transition(sql: string, params: Array<string | number | null>): GenerationJob | null {
+  const db = getDatabase();
+  const id = params[params.length - 1] as string;
+
+  try {
+    const result = db.prepare(sql).run(...params);
+    if (result.changes === 0) {
+      return null;
+    }
+    return GenerationJobRepository.findById(id);
+  } catch (error) {
+    throw new DatabaseError('Failed to update generation job', 'QUERY_FAILED', {
+      cause: error instanceof Error ? error : new Error(String(error)),
+      context: { id },
+    });
+  }
+}
+
+/**
+ * SQLite repository for generation jobs
+ *
+ * Implements GenerationJobStore for the queue, plus the management
+ * operations used by the jobs panel.
+ */
+export const GenerationJobRepository = {
+  /**
+   * Queues jobs to run immediately
+   *
+   * Either all jobs are created or none are.
+   *
+   * @param jobs - Jobs to queue
+   * @returns The created jobs in input order
+   * @throws DatabaseError if a concept doesn't exist or the insert fails
+   */
+  createMany(jobs: readonly NewGenerationJob[]): GenerationJob[] {
+    const db = getDatabase();
+    const insert = db.prepare(
+      `INSERT INTO generation_jobs (id, concept_id, dimension, difficulty, count, status,
+                                    run_after, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 'queued', ?, ?, ?)`
+    );
+
+    const insertAll = db.transaction((): GenerationJob[] => {
+      const now = new Date();
+      const iso = now.toISOString();
+      return jobs.map((job) => {
+        const id = uuidv4();
+        insert.run(id, job.conceptId, job.dimension, job.difficulty, job.count, iso, iso, iso);
+        return {
+          ...job,
+          id,
+          status: 'queued' as const,
+          attempts: 0,
+          runAfter: now,
+          error: null,
+          variantsCreated: 0,
+          createdAt: now,
+          updatedAt: now,
+        };
+      });
+    });
+
+    try {
+      return insertAll();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (err.message.includes('FOREIGN KEY constraint failed')) {
+        throw new DatabaseError('Referenced concept does not exist', 'CONSTRAINT_VIOLATION', {
+          cause: err,
+        });
+      }
+      throw new DatabaseError('Failed to create generation jobs', 'TRANSACTION_FAILED', {
+        cause: err,
+        context: { count: jobs.length },
+      });
+    }
+  },
+
+  /**
+   * Finds recent jobs, newest first
+   *
+   * @param limit - Maximum number of jobs to return (default 500)
+   */
+  findAll(limit = 500): GenerationJob[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[number], GenerationJobRow>(
+        `SELECT ${JOB_COLUMNS} FROM generation_jobs ORDER BY created_at DESC, rowid DESC LIMIT ?`
+      )
+      .all(limit);
+    return rows.map(rowToJob);
+  },
+
+  /**
+   * Finds a job by its ID
+   */
+  findById(id: string): GenerationJob | null {
+    const db = getDatabase();
+    const row = db
+      .prepare<[string], GenerationJobRow>(
+        `SELECT ${JOB_COLUMNS} FROM generation_jobs WHERE id = ?`
+      )
+      .get(id);
+    return row ? rowToJob(row) : null;
+  },
+
+  /**
+   * Finds queued and running jobs, optionally for one concept
+   *
+   * Used to count variants that are already on their way.
+   */
+  findActive(conceptId?: ConceptId): GenerationJob[] {
+    const db = getDatabase();
+    const sql = `SELECT ${JOB_COLUMNS} FROM generation_jobs
+         WHERE status IN ('queued', 'running')`;
+    const rows =
+      conceptId !== undefined
+        ? db.prepare<[string], GenerationJobRow>(`${sql} AND concept_id = ?`).all(conceptId)
+        : db.prepare<[], GenerationJobRow>(sql).all();
+    return rows.map(rowToJob);
+  },
+
+  /**
+   * Finds queued jobs whose wait has elapsed, oldest first
+   */
+  findRunnable(now: Date, limit: number): GenerationJob[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[string, number], GenerationJobRow>(
+        `SELECT ${JOB_COLUMNS} FROM generation_jobs
+         WHERE status = 'queued' AND run_after <= ?
+         ORDER BY created_at ASC, rowid ASC
+         LIMIT ?`
+      )
+      .all(now.toISOString(), limit);
+    return rows.map(rowToJob);
+  },
+
+  /**
+   * Finds the earliest time a queued job may run
+   */
+  findNextRunAt(): Date | null {
+    const db = getDatabase();
+    const row = db
+      .prepare<[], { run_after: string | null }>(
+        `SELECT MIN(run_after) AS run_after FROM generation_jobs WHERE status = 'queued'`
+      )
+      .get();
+    return row !== undefined && row.run_after !== null ? new Date(row.run_after) : null;
+  },
+
+  /**
+   * Starts a queued job, counting an attempt
+   */
+  markRunning(id: string): GenerationJob | null {
+    return transition(
+      `UPDATE generation_jobs SET status = 'running', attempts = attempts + 1, updated_at = ?
+       WHERE status = 'queued' AND id = ?`,
+      [new Date().toISOString(), id]
+    );
+  },
+
+  /**
+   * Completes a running job
+   */
+  markCompleted(id: string, variantsCreated: number): GenerationJob | null {
+    return transition(
+      `UPDATE generation_jobs
+       SET status = 'completed', variants_created = ?, error = NULL, updated_at = ?
+       WHERE status = 'running' AND id = ?`,
+      [variantsCreated, new Date().toISOString(), id]
+    );
+  },
+
+  /**
+   * Fails a running job permanently
+   */
+  markFailed(id: string, error: string): GenerationJob | null {
+    return transition(
+      `UPDATE generation_jobs SET status = 'failed', error = ?, updated_at = ?
+       WHERE status = 'running' AND id = ?`,
+      [error, new Date().toISOString(), id]
+    );
+  },
+
+  /**
+   * Returns a running job to the queue, not to run before runAfter
+   */
+  requeue(id: string, runAfter: Date, error: string): GenerationJob | null {
+    return transition(
+      `UPDATE generation_jobs SET status = 'queued', run_after = ?, error = ?, updated_at = ?
+       WHERE status = 'running' AND id = ?`,
+      [runAfter.toISOString(), error, new Date().toISOString(), id]
+    );
+  },
+
+  /**
+   * Returns jobs interrupted by a shutdown to the queue
+   *
+   * The interrupted attempt is not counted against the job.
+   */
+  requeueInterrupted(): number {
+    const db = getDatabase();
+    try {
+      const now = new Date().toISOString();
+      return db
+        .prepare(
+          `UPDATE generation_jobs
+           SET status = 'queued', attempts = MAX(attempts - 1, 0), run_after = ?, updated_at = ?
+           WHERE status = 'running'`
+        )
+        .run(now, now).changes;
+    } catch (error) {
+      throw new DatabaseError('Failed to requeue interrupted jobs', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  },
+
+  /**
+   * Cancels a queued or running job
+   *
+   * A running job's LLM call is not interrupted, but its results are discarded.
+   */
+  cancel(id: string): GenerationJob | null {
+    return transition(
+      `UPDATE generation_jobs SET status = 'cancelled', updated_at = ?
+       WHERE status IN ('queued', 'running') AND id = ?`,
+      [new Date().toISOString(), id]
+    );
+  },
+
+  /**
+   * Queues a failed or cancelled job again with a fresh attempt count
+   */
+  retry(id: string): GenerationJob | null {
+    const now = new Date().toISOString();
+    return transition(
+      `UPDATE generation_jobs
+       SET status = 'queued', attempts = 0, error = NULL, run_after = ?, updated_at = ?
+       WHERE status IN ('failed', 'cancelled') AND id = ?`,
+      [now, now, id]
+    );
+  },
+
+  /**
+   * Deletes completed, failed and cancelled jobs
+   *
+   * @returns Number of jobs deleted
+   */
+  deleteFinished(): number {
+    const db = getDatabase();
+    try {
+      return db
+        .prepare(`DELETE FROM generation_jobs WHERE status IN ('completed', 'failed', 'cancelled')`)
+        .run().changes;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete finished jobs', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  },
+};
@@ -1,9 +1,11 @@
 /**
  * @fileoverview Repository barrel exports for database layer
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
  * Features: Centralized exports for all SQLite repository implementations
- * Main APIs: ConceptRepository, VariantRepository, EventRepository, MasteryRepository, ScheduleRepository
+ * Main APIs: ConceptRepository, VariantRepository, EventRepository, MasteryRepository,
+ *   ConceptMasteryRepository, ScheduleRepository, GenerationJobRepository,
+ *   EvaluationCacheRepository, LLMUsageRepository
  * Patterns: Barrel pattern for clean imports, hexagonal architecture driven adapters
  */
 
@@ -11,4 +13,8 @@ export { ConceptRepository } from './concept.repository';
 export { VariantRepository } from './variant.repository';
 export { EventRepository } from './event.repository';
 export { MasteryRepository } from './mastery.repository';
+export { ConceptMasteryRepository } from './concept-mastery.repository';
 export { ScheduleRepository } from './schedule.repository';
+export { GenerationJobRepository } from './generation-job.repository';
+export { EvaluationCacheRepository } from './evaluation-cache.repository';
+export { LLMUsageRepository } from './llm-usage.repository';
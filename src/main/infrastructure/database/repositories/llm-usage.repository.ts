@@ -0,0 +1,151 @@
+/**
+ * @fileoverview SQLite repository implementation for the LLM usage log
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Append-only call log, spend since a date, per feature and model totals
+ * Main APIs: record, getSpendSince, summarizeSince
+ * Constraints: Timestamps stored as ISO strings so ranges compare as text
+ * Patterns: Implements the LLMUsageStore port, aggregation in SQL
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { getDatabase } from '../connection';
+import { DatabaseError } from '../errors';
+
+import type { LLMConfigDTO, LLMUsageFeature } from '../../../../shared/types/ipc';
+import type { LLMUsageEntry, LLMUsageTotals } from '../../llm/usage';
+
+/**
+ * Row shape of the per feature and model totals query
+ */
+interface LLMUsageTotalsRow {
+  feature: LLMUsageFeature;
+  provider: LLMConfigDTO['provider'];
+  model: string;
+  calls: number;
+  failed_calls: number;
+  blocked_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
+  unpriced_calls: number;
+}
+
+/**
+ * SQLite repository for logged LLM calls
+ */
+export const LLMUsageRepository = {
+  /**
+   * Appends a call to the usage log
+   *
+   * @param entry - The call to log
+   * @throws DatabaseError if the insert fails
+   */
+  record(entry: LLMUsageEntry): void {
+    const db = getDatabase();
+    try {
+      db.prepare(
+        `INSERT INTO llm_usage
+           (id, provider, model, feature, prompt_tokens, completion_tokens, latency_ms,
+            outcome, error, cost_usd, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        uuidv4(),
+        entry.provider,
+        entry.model,
+        entry.feature,
+        entry.promptTokens,
+        entry.completionTokens,
+        Math.round(entry.latencyMs),
+        entry.outcome,
+        entry.error,
+        entry.costUsd,
+        entry.createdAt.toISOString()
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to log LLM usage', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+        context: { provider: entry.provider, model: entry.model },
+      });
+    }
+  },
+
+  /**
+   * Totals the estimated cost of calls made at or after a time
+   *
+   * @param since - Start of the period
+   * @returns Spend in USD; calls without a cost estimate count as free
+   * @throws DatabaseError if the query fails
+   */
+  getSpendSince(since: Date): number {
+    const db = getDatabase();
+    try {
+      const row = db
+        .prepare<[string], { spent: number }>(
+          'SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM llm_usage WHERE created_at >= ?'
+        )
+        .get(since.toISOString());
+      return row?.spent ?? 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to read LLM spend', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+        context: { since: since.toISOString() },
+      });
+    }
+  },
+
+  /**
+   * Adds up calls made at or after a time per feature, provider and model
+   *
+   * @param since - Start of the period
+   * @returns Totals ordered by feature, then cost and calls, highest first
+   * @throws DatabaseError if the query fails
+   */
+  summarizeSince(since: Date): LLMUsageTotals[] {
+    const db = getDatabase();
+    try {
+      const rows = db
+        .prepare<[string], LLMUsageTotalsRow>(
+          `SELECT
+             feature,
+             provider,
+             model,
+             COUNT(*) AS calls,
+             SUM(CASE WHEN outcome = 'error' THEN 1 ELSE 0 END) AS failed_calls,
+             SUM(CASE WHEN outcome = 'blocked' THEN 1 ELSE 0 END) AS blocked_calls,
+             COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+             COALESCE(SUM(completion_tokens), 0) AS completion_tokens,
+             COALESCE(SUM(CASE WHEN outcome != 'blocked' THEN latency_ms END), 0) AS latency_ms,
+             COALESCE(SUM(cost_usd), 0) AS cost_usd,
+             SUM(CASE WHEN outcome = 'success' AND cost_usd IS NULL THEN 1 ELSE 0 END)
+               AS unpriced_calls
+           FROM llm_usage
+           WHERE created_at >= ?
+           GROUP BY feature, provider, model
+           ORDER BY feature, cost_usd DESC, calls DESC`
+        )
+        .all(since.toISOString());
+
+      return rows.map((row) => ({
+        feature: row.feature,
+        provider: row.provider,
+        model: row.model,
+        calls: row.calls,
+        failedCalls: row.failed_calls,
+        blockedCalls: row.blocked_calls,
+        promptTokens: row.prompt_tokens,
+        completionTokens: row.completion_tokens,
+        latencyMs: row.latency_ms,
+        costUsd: row.cost_usd,
+        unpricedCalls: row.unpriced_calls,
+      }));
+    } catch (error) {
+      throw new DatabaseError('Failed to summarize LLM usage', 'QUERY_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+        context: { since: since.toISOString() },
+      });
+    }
+  },
+};
@@ -1,68 +1,155 @@
 /**
  * @fileoverview SQLite repository implementation for ScheduleEntry entities
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-22T00:00:00Z
  *
- * Features: SM-2 scheduling data persistence with due date queries
- * Main APIs: findByConceptId, findDue, save, delete
- * Constraints: One schedule per concept, references valid concept
- * Patterns: Upsert for save operations, date-based queries
+ * Features: Per-variant SM-2/FSRS scheduling data persistence with due date queries
+ * Main APIs: findByVariantId, findByConceptId, findDue, findAll, save, saveMany, delete
+ * Constraints: One schedule per variant, references valid variant and concept
+ * Patterns: Upsert for save operations, date-based queries, unscheduled variants are new
  */
 
-import { asConceptId } from '../../../../shared/types/branded';
+import { asConceptId, asVariantId } from '../../../../shared/types/branded';
 import { getDatabase } from '../connection';
 import { DatabaseError } from '../errors';
 
-import type { ConceptId } from '../../../../shared/types/branded';
+import type { ConceptId, VariantId } from '../../../../shared/types/branded';
 import type { ScheduleEntry } from '../../../../shared/types/core';
 
 /** Raw database row for schedule table */
 interface ScheduleRow {
+  variant_id: string;
   concept_id: string;
   due_at: string;
   interval_days: number;
   ease_factor: number;
+  stability: number | null;
+  difficulty: number | null;
+  last_reviewed_at: string | null;
 }
 
+/** Columns selected for every schedule query */
+const SCHEDULE_COLUMNS = `variant_id, concept_id, due_at, interval_days, ease_factor,
+         stability, difficulty, last_reviewed_at`;
+
+/** Creation time of a variant in the ISO-8601 UTC form schedule rows use */
+const UNSCHEDULED_DUE_AT = `strftime('%Y-%m-%dT%H:%M:%fZ', v.created_at)`;
+
 /**
  * Maps a database row to a ScheduleEntry domain entity
  */
 function rowToSchedule(row: ScheduleRow): ScheduleEntry {
-  return {
+  const baseSchedule = {
+    variantId: asVariantId(row.variant_id),
     conceptId: asConceptId(row.concept_id),
     dueAt: new Date(row.due_at),
     intervalDays: row.interval_days,
     easeFactor: row.ease_factor,
   };
+
+  // FSRS state is only present when all three columns are set
+  if (row.stability === null || row.difficulty === null || row.last_reviewed_at === null) {
+    return baseSchedule;
+  }
+
+  return {
+    ...baseSchedule,
+    fsrs: {
+      stability: row.stability,
+      difficulty: row.difficulty,
+      lastReviewedAt: new Date(row.last_reviewed_at),
+    },
+  };
+}
+
+/** Upsert statement shared by save and saveMany */
+const UPSERT_SQL = `INSERT INTO schedule
+    (variant_id, concept_id, due_at, interval_days, ease_factor,
+     stability, difficulty, last_reviewed_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT(variant_id) DO UPDATE SET
+    due_at = excluded.due_at,
+    interval_days = excluded.interval_days,
+    ease_factor = excluded.ease_factor,
+    stability = excluded.stability,
+    difficulty = excluded.difficulty,
+    last_reviewed_at = excluded.last_reviewed_at`;
+
+/**
+ * Maps a ScheduleEntry to positional parameters for UPSERT_SQL
+ */
+function scheduleToParams(
+  schedule: ScheduleEntry
+): [string, string, string, number, number, number | null, number | null, string | null] {
+  return [
+    schedule.variantId,
+    schedule.conceptId,
+    schedule.dueAt.toISOString(),
+    schedule.intervalDays,
+    schedule.easeFactor,
+    schedule.fsrs?.stability ?? null,
+    schedule.fsrs?.difficulty ?? null,
+    schedule.fsrs?.lastReviewedAt.toISOString() ?? null,
+  ];
 }
 
 /**
  * SQLite repository for ScheduleEntry entities
  *
- * Manages spaced repetition scheduling data for concepts.
- * Implements SM-2 algorithm state with ease factor and interval tracking.
+ * Manages spaced repetition scheduling data for variants.
+ * Stores SM-2 state (ease factor, interval) and, for variants reviewed under
+ * FSRS, the FSRS memory state (stability, difficulty, last review time).
+ *
+ * Variants without a schedule row have never been reviewed. They are
+ * reported by findDue as new cards, due from the moment they were created.
  */
 export const ScheduleRepository = {
   /**
-   * Finds the schedule for a specific concept
+   * Finds the schedule for a specific variant
    *
-   * @param conceptId - The concept's unique ID
-   * @returns The schedule if found, null otherwise
+   * @param variantId - The variant's unique ID
+   * @returns The schedule if found, null if the variant has never been scheduled
    */
-  findByConceptId(conceptId: ConceptId): ScheduleEntry | null {
+  findByVariantId(variantId: VariantId): ScheduleEntry | null {
     const db = getDatabase();
     const row = db
       .prepare<[string], ScheduleRow>(
-        `SELECT concept_id, due_at, interval_days, ease_factor
+        `SELECT ${SCHEDULE_COLUMNS}
          FROM schedule
-         WHERE concept_id = ?`
+         WHERE variant_id = ?`
       )
-      .get(conceptId);
+      .get(variantId);
 
     return row ? rowToSchedule(row) : null;
   },
 
   /**
-   * Finds all schedules with due dates before the specified time
+   * Finds all variant schedules belonging to a concept
+   *
+   * @param conceptId - The concept's unique ID
+   * @returns Array of schedules, ordered by due date
+   */
+  findByConceptId(conceptId: ConceptId): ScheduleEntry[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[string], ScheduleRow>(
+        `SELECT ${SCHEDULE_COLUMNS}
+         FROM schedule
+         WHERE concept_id = ?
+         ORDER BY due_at ASC`
+      )
+      .all(conceptId);
+
+    return rows.map(rowToSchedule);
+  },
+
+  /**
+   * Finds all variant schedules with due dates before the specified time
+   *
+   * Variants that have never been scheduled are included with default
+   * SM-2 state (interval 1 day, ease 2.5) and their creation time as due date.
+   * The creation time is stored as SQLite UTC text without a zone, so it is
+   * converted to the ISO-8601 form of schedule rows before comparing and
+   * sorting, and before it is parsed as a Date.
    *
    * @param before - The cutoff date (exclusive)
    * @returns Array of due schedules, ordered by due date
@@ -71,9 +158,17 @@ export const ScheduleRepository = {
     const db = getDatabase();
     const rows = db
       .prepare<[string], ScheduleRow>(
-        `SELECT concept_id, due_at, interval_days, ease_factor
-         FROM schedule
-         WHERE due_at < ?
+        `SELECT v.id AS variant_id,
+                v.concept_id AS concept_id,
+                COALESCE(s.due_at, ${UNSCHEDULED_DUE_AT}) AS due_at,
+                COALESCE(s.interval_days, 1) AS interval_days,
+                COALESCE(s.ease_factor, 2.5) AS ease_factor,
+                s.stability AS stability,
+                s.difficulty AS difficulty,
+                s.last_reviewed_at AS last_reviewed_at
+         FROM variants v
+         LEFT JOIN schedule s ON s.variant_id = v.id
+         WHERE COALESCE(s.due_at, ${UNSCHEDULED_DUE_AT}) < ?
          ORDER BY due_at ASC`
       )
       .all(before.toISOString());
@@ -81,38 +176,46 @@ export const ScheduleRepository = {
     return rows.map(rowToSchedule);
   },
 
+  /**
+   * Finds every persisted schedule (unscheduled variants are not included)
+   *
+   * @returns Array of all schedules
+   */
+  findAll(): ScheduleEntry[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare<[], ScheduleRow>(
+        `SELECT ${SCHEDULE_COLUMNS}
+         FROM schedule`
+      )
+      .all();
+
+    return rows.map(rowToSchedule);
+  },
+
   /**
    * Saves a schedule using upsert semantics
    *
    * Creates the schedule if it doesn't exist, updates if it does.
    *
    * @param schedule - The schedule entry to save
-   * @throws DatabaseError if concept doesn't exist
+   * @throws DatabaseError if variant or concept doesn't exist
    */
   save(schedule: ScheduleEntry): void {
     const db = getDatabase();
 
     try {
-      db.prepare(
-        `INSERT INTO schedule (concept_id, due_at, interval_days, ease_factor)
-         VALUES (?, ?, ?, ?)
-         ON CONFLICT(concept_id) DO UPDATE SET
-           due_at = excluded.due_at,
-           interval_days = excluded.interval_days,
-           ease_factor = excluded.ease_factor`
-      ).run(
-        schedule.conceptId,
-        schedule.dueAt.toISOString(),
-        schedule.intervalDays,
-        schedule.easeFactor
-      );
+      db.prepare(UPSERT_SQL).run(...scheduleToParams(schedule));
     } catch (error) {
       const err = error as Error;
       if (err.message.includes('FOREIGN KEY constraint failed')) {
         throw new DatabaseError(
-          `Concept with id "${schedule.conceptId}" does not exist`,
+          `Variant "${schedule.variantId}" or concept "${schedule.conceptId}" does not exist`,
           'CONSTRAINT_VIOLATION',
-          { cause: err, context: { conceptId: schedule.conceptId } }
+          {
+            cause: err,
+            context: { variantId: schedule.variantId, conceptId: schedule.conceptId },
+          }
         );
       }
       throw new DatabaseError('Failed to save schedule', 'QUERY_FAILED', {
@@ -122,22 +225,51 @@ export const ScheduleRepository = {
   },
 
   /**
-   * Deletes the schedule for a concept
+   * Saves many schedules in a single transaction
    *
-   * @param conceptId - The concept's unique ID
+   * Used when converting every schedule to a different algorithm.
+   * Either all schedules are written or none are.
+   *
+   * @param schedules - The schedule entries to save
+   * @throws DatabaseError if any write fails
+   */
+  saveMany(schedules: readonly ScheduleEntry[]): void {
+    const db = getDatabase();
+    const upsert = db.prepare(UPSERT_SQL);
+
+    const saveAll = db.transaction(() => {
+      for (const schedule of schedules) {
+        upsert.run(...scheduleToParams(schedule));
+      }
+    });
+
+    try {
+      saveAll();
+    } catch (error) {
+      throw new DatabaseError('Failed to save schedules', 'TRANSACTION_FAILED', {
+        cause: error instanceof Error ? error : new Error(String(error)),
+        context: { count: schedules.length },
+      });
+    }
+  },
+
+  /**
+   * Deletes the schedule for a variant
+   *
+   * @param variantId - The variant's unique ID
    * @throws DatabaseError if schedule not found
    */
-  delete(conceptId: ConceptId): void {
+  delete(variantId: VariantId): void {
     const db = getDatabase();
     const result = db
-      .prepare('DELETE FROM schedule WHERE concept_id = ?')
-      .run(conceptId);
+      .prepare('DELETE FROM schedule WHERE variant_id = ?')
+      .run(variantId);
 
     if (result.changes === 0) {
       throw new DatabaseError(
-        `Schedule for concept "${conceptId}" not found`,
+        `Schedule for variant "${variantId}" not found`,
         'NOT_FOUND',
-        { context: { conceptId } }
+        { context: { variantId } }
       );
     }
   },
@@ -1,11 +1,12 @@
 /**
  * @fileoverview SQLite repository implementation for Variant entities
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: CRUD operations for variants with dimension and difficulty handling
+ * Features: CRUD operations for variants with dimension and difficulty handling,
+ *   answer options and correct indices for choice questions, cloze deletion index
  * Main APIs: findById, findByConceptId, create, update, updateLastShown, delete
  * Constraints: Must reference valid concept, difficulty 1-5
- * Patterns: Synchronous better-sqlite3, JSON arrays for hints
+ * Patterns: Synchronous better-sqlite3, JSON arrays for hints, options and correct indices
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -32,6 +33,30 @@ interface VariantRow {
   question_type: string;
   rubric: string | null;
   max_length: number | null;
+  options: string | null;
+  correct_indices: string | null;
+  cloze_index: number | null;
+}
+
+/** Fields of a variant to update; null removes the answer options of a choice question */
+type VariantUpdate = Omit<Partial<Variant>, 'options' | 'correctIndices'> & {
+  options?: readonly string[] | null;
+  correctIndices?: readonly number[] | null;
+};
+
+/**
+ * Parses a nullable JSON array column, returning undefined when absent or malformed
+ */
+function parseJsonArray<T>(value: string | null): T[] | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as T[]) : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 /**
@@ -59,11 +84,17 @@ function rowToVariant(row: VariantRow): Variant {
     questionType: (row.question_type ?? 'flashcard') as QuestionType,
   };
 
+  const options = parseJsonArray<string>(row.options);
+  const correctIndices = parseJsonArray<number>(row.correct_indices);
+
   // Use conditional spreading to avoid exactOptionalPropertyTypes violations
   return {
     ...baseVariant,
     ...(rubric !== undefined && { rubric }),
     ...(row.max_length !== null && { maxLength: row.max_length }),
+    ...(options !== undefined && { options }),
+    ...(correctIndices !== undefined && { correctIndices }),
+    ...(row.cloze_index !== null && { clozeIndex: row.cloze_index }),
   };
 }
 
@@ -85,7 +116,8 @@ export const VariantRepository = {
     const row = db
       .prepare<[string], VariantRow>(
         `SELECT id, concept_id, dimension, difficulty, front, back, hints, last_shown_at,
-                question_type, rubric, max_length
+                question_type, rubric, max_length, options, correct_indices,
+                cloze_index
          FROM variants
          WHERE id = ?`
       )
@@ -105,7 +137,8 @@ export const VariantRepository = {
     const rows = db
       .prepare<[string], VariantRow>(
         `SELECT id, concept_id, dimension, difficulty, front, back, hints, last_shown_at,
-                question_type, rubric, max_length
+                question_type, rubric, max_length, options, correct_indices,
+                cloze_index
          FROM variants
          WHERE concept_id = ?
          ORDER BY dimension, difficulty`
@@ -129,8 +162,9 @@ export const VariantRepository = {
     try {
       db.prepare(
         `INSERT INTO variants (id, concept_id, dimension, difficulty, front, back, hints, last_shown_at,
-                               question_type, rubric, max_length)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+                               question_type, rubric, max_length, options, correct_indices,
+                               cloze_index)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       ).run(
         id,
         variant.conceptId,
@@ -142,7 +176,10 @@ export const VariantRepository = {
         variant.lastShownAt?.toISOString() ?? null,
         variant.questionType ?? 'flashcard',
         variant.rubric ? JSON.stringify(variant.rubric) : null,
-        variant.maxLength ?? null
+        variant.maxLength ?? null,
+        variant.options ? JSON.stringify(variant.options) : null,
+        variant.correctIndices ? JSON.stringify(variant.correctIndices) : null,
+        variant.clozeIndex ?? null
       );
 
       const baseResult = {
@@ -162,6 +199,11 @@ export const VariantRepository = {
         ...baseResult,
         ...(variant.rubric !== undefined && { rubric: variant.rubric }),
         ...(variant.maxLength !== undefined && { maxLength: variant.maxLength }),
+        ...(variant.options !== undefined && { options: [...variant.options] }),
+        ...(variant.correctIndices !== undefined && {
+          correctIndices: [...variant.correctIndices],
+        }),
+        ...(variant.clozeIndex !== undefined && { clozeIndex: variant.clozeIndex }),
       };
     } catch (error) {
       const err = error as Error;
@@ -182,11 +224,11 @@ export const VariantRepository = {
    * Updates an existing variant
    *
    * @param id - The variant's unique ID
-   * @param data - Partial variant data to update
+   * @param data - Partial variant data to update; null options and indices are cleared
    * @returns The updated variant
    * @throws DatabaseError if variant not found
    */
-  update(id: VariantId, data: Partial<Variant>): Variant {
+  update(id: VariantId, data: VariantUpdate): Variant {
     const db = getDatabase();
     const existing = this.findById(id);
 
@@ -206,12 +248,17 @@ export const VariantRepository = {
       questionType: data.questionType ?? existing.questionType,
       rubric: data.rubric !== undefined ? data.rubric : existing.rubric,
       maxLength: data.maxLength !== undefined ? data.maxLength : existing.maxLength,
+      options: data.options !== undefined ? data.options : existing.options,
+      correctIndices:
+        data.correctIndices !== undefined ? data.correctIndices : existing.correctIndices,
+      clozeIndex: data.clozeIndex !== undefined ? data.clozeIndex : existing.clozeIndex,
     };
 
     db.prepare(
       `UPDATE variants
        SET dimension = ?, difficulty = ?, front = ?, back = ?, hints = ?, last_shown_at = ?,
-           question_type = ?, rubric = ?, max_length = ?
+           question_type = ?, rubric = ?, max_length = ?, options = ?, correct_indices = ?,
+           cloze_index = ?
        WHERE id = ?`
     ).run(
       updated.dimension,
@@ -223,6 +270,9 @@ export const VariantRepository = {
       updated.questionType,
       updated.rubric ? JSON.stringify(updated.rubric) : null,
       updated.maxLength ?? null,
+      updated.options ? JSON.stringify(updated.options) : null,
+      updated.correctIndices ? JSON.stringify(updated.correctIndices) : null,
+      updated.clozeIndex ?? null,
       id
     );
 
@@ -243,6 +293,11 @@ export const VariantRepository = {
       ...baseResult,
       ...(updated.rubric !== undefined && { rubric: updated.rubric }),
       ...(updated.maxLength !== undefined && { maxLength: updated.maxLength }),
+      ...(updated.options && { options: [...updated.options] }),
+      ...(updated.correctIndices && {
+        correctIndices: [...updated.correctIndices],
+      }),
+      ...(updated.clozeIndex !== undefined && { clozeIndex: updated.clozeIndex }),
     };
   },
 
@@ -74,9 +74,12 @@ export function seedSampleData(db?: Database.Database): void {
     VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
+  // Schedules every variant of a concept as due now
   const insertSchedule = database.prepare(`
-    INSERT OR IGNORE INTO schedule (concept_id, due_at, interval_days, ease_factor)
-    VALUES (?, datetime('now'), 1, 2.5)
+    INSERT OR IGNORE INTO schedule (variant_id, concept_id, due_at, interval_days, ease_factor)
+    SELECT id, concept_id, datetime('now'), 1, 2.5
+    FROM variants
+    WHERE concept_id = ?
   `);
 
   const seedAll = database.transaction(() => {
@@ -149,8 +149,8 @@ export function loadYAMLData(
   `);
 
   const insertSchedule = database.prepare(`
-    INSERT OR IGNORE INTO schedule (concept_id, due_at, interval_days, ease_factor)
-    VALUES (?, datetime('now'), 1, 2.5)
+    INSERT OR IGNORE INTO schedule (variant_id, concept_id, due_at, interval_days, ease_factor)
+    VALUES (?, ?, datetime('now'), 1, 2.5)
   `);
 
   let conceptCount = 0;
@@ -170,11 +170,6 @@ export function loadYAMLData(
         );
         if (result.changes > 0) {
           conceptCount++;
-          // Create schedule entry for each new concept
-          const scheduleResult = insertSchedule.run(concept.id);
-          if (scheduleResult.changes > 0) {
-            scheduleCount++;
-          }
         }
       }
     }
@@ -194,6 +189,11 @@ export function loadYAMLData(
         );
         if (result.changes > 0) {
           variantCount++;
+          // Create schedule entry for each new variant
+          const scheduleResult = insertSchedule.run(variant.id, variant.concept_id);
+          if (scheduleResult.changes > 0) {
+            scheduleCount++;
+          }
         }
       }
     }
@@ -0,0 +1,634 @@
+/**
+ * @fileoverview Mapping of Anki notes, cards and review logs to concepts, variants and events
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: HTML field to plain text conversion, card template rendering, cloze notes as
+ *           cloze variants, dimension and difficulty guesses, review log conversion,
+ *           report of skipped notes and cards
+ * Main APIs: planAnkiImport, ankiFieldToText, renderAnkiTemplate, guessDimension,
+ *            guessDifficulty, AnkiCollection, AnkiImportPlan
+ * Constraints: Pure functions, no database calls; media is not imported
+ * Patterns: Collection in, plan out; the caller writes the plan in one transaction
+ */
+
+import { DimensionType } from '../../../shared/types/core';
+import { getClozeIndices, renderClozeCard } from '../../../shared/utils/cloze';
+
+import type { DifficultyLevel, ReviewResultType } from '../../../shared/types/core';
+
+/** Longest concept name taken from a note; longer text is cut at a word */
+const MAX_NAME_LENGTH = 120;
+
+/** Fronts at least this long read as scenarios rather than recall prompts */
+const SCENARIO_MIN_LENGTH = 160;
+
+/** Anki review log ease buttons */
+const EASE_RESULTS: Record<number, ReviewResultType> = {
+  1: 'again',
+  2: 'hard',
+  3: 'good',
+  4: 'easy',
+};
+
+/** Review log type of manual reschedules, which are not reviews */
+const MANUAL_REVIEW_TYPE = 4;
+
+// -----------------------------------------------------------------------------
+// Collection Types
+// -----------------------------------------------------------------------------
+
+/**
+ * A card template of an Anki note type
+ */
+export interface AnkiTemplate {
+  readonly name: string;
+  /** Question format (Anki's qfmt) */
+  readonly front: string;
+  /** Answer format (Anki's afmt) */
+  readonly back: string;
+}
+
+/**
+ * An Anki note type ("model")
+ */
+export interface AnkiNoteType {
+  readonly id: number;
+  readonly name: string;
+  readonly kind: 'standard' | 'cloze';
+  /** Field names in order */
+  readonly fields: readonly string[];
+  /** Templates by ordinal; cloze note types have one */
+  readonly templates: readonly AnkiTemplate[];
+}
+
+/**
+ * An Anki note
+ */
+export interface AnkiNote {
+  readonly id: number;
+  readonly noteTypeId: number;
+  /** Field contents (HTML) in note type order */
+  readonly fields: readonly string[];
+  readonly tags: readonly string[];
+}
+
+/**
+ * An Anki card: one template of a note, or one cloze number of a cloze note
+ */
+export interface AnkiCard {
+  readonly id: number;
+  readonly noteId: number;
+  /** Template ordinal, or cloze number minus one */
+  readonly ord: number;
+  /** Successful and failed reviews so far */
+  readonly reviews: number;
+  readonly lapses: number;
+  /** Ease factor in permille (2500 = 250%), 0 for new cards */
+  readonly easeFactor: number;
+}
+
+/**
+ * An entry of Anki's review log
+ */
+export interface AnkiReview {
+  readonly cardId: number;
+  readonly reviewedAt: Date;
+  /** Answer button, 1 (again) to 4 (easy); 0 for manual reschedules */
+  readonly ease: number;
+  readonly timeMs: number;
+  /** 0 learn, 1 review, 2 relearn, 3 filtered deck, 4 manual */
+  readonly type: number;
+}
+
+/**
+ * The parts of an Anki collection that are imported
+ */
+export interface AnkiCollection {
+  readonly noteTypes: readonly AnkiNoteType[];
+  readonly notes: readonly AnkiNote[];
+  readonly cards: readonly AnkiCard[];
+  readonly reviews: readonly AnkiReview[];
+}
+
+// -----------------------------------------------------------------------------
+// Plan Types
+// -----------------------------------------------------------------------------
+
+/**
+ * A variant to create for an Anki card
+ */
+export interface PlannedVariant {
+  readonly ankiCardId: number;
+  readonly dimension: DimensionType;
+  readonly difficulty: DifficultyLevel;
+  readonly front: string;
+  readonly back: string;
+  readonly clozeIndex?: number;
+}
+
+/**
+ * A concept to create for an Anki note, with its variants
+ */
+export interface PlannedConcept {
+  readonly ankiNoteId: number;
+  readonly name: string;
+  readonly definition: string;
+  readonly facts: readonly string[];
+  readonly variants: readonly PlannedVariant[];
+}
+
+/**
+ * A review event to create for a review log entry
+ */
+export interface PlannedReview {
+  readonly ankiCardId: number;
+  readonly result: ReviewResultType;
+  readonly timeMs: number;
+  readonly reviewedAt: Date;
+}
+
+/**
+ * A note or card left out of the import, and why
+ */
+export interface SkippedAnkiItem {
+  readonly kind: 'note' | 'card';
+  readonly ankiId: number;
+  /** Short text identifying the item to the user */
+  readonly label: string;
+  readonly reason: string;
+}
+
+/**
+ * What an Anki collection imports as
+ */
+export interface AnkiImportPlan {
+  readonly concepts: readonly PlannedConcept[];
+  /** Reviews of imported cards, oldest first; empty unless review history was requested */
+  readonly reviews: readonly PlannedReview[];
+  readonly skipped: readonly SkippedAnkiItem[];
+  /** Review log entries left out: manual reschedules and reviews of skipped cards */
+  readonly skippedReviewCount: number;
+  /** Notes whose images or audio were dropped */
+  readonly notesWithMedia: number;
+}
+
+/**
+ * Options for planning an import
+ */
+export interface AnkiImportOptions {
+  /** Names of existing concepts; notes with the same name are skipped */
+  readonly existingNames: ReadonlySet<string>;
+  /** Whether to convert the review log into events */
+  readonly includeReviewHistory: boolean;
+}
+
+// -----------------------------------------------------------------------------
+// Text Conversion
+// -----------------------------------------------------------------------------
+
+/** Named HTML entities common in Anki fields */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decodes named and numeric HTML entities
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Whether a field references images or audio
+ */
+function hasMedia(html: string): boolean {
+  return /<img\b|\[sound:/i.test(html);
+}
+
+/**
+ * Converts an Anki field or rendered template to plain text
+ *
+ * Line breaks and block elements become newlines, other tags and media
+ * references are dropped, entities are decoded, and blank runs are
+ * collapsed. Cloze markup passes through unchanged.
+ *
+ * @param html - Field contents as stored by Anki
+ * @returns Plain text
+ */
+export function ankiFieldToText(html: string): string {
+  const text = html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    // Adjacent blocks are one line break apart, not two
+    .replace(/<\/(div|p|li|tr|h[1-6])>\s*<(div|p|li|tr|h[1-6])\b[^>]*>/gi, '\n')
+    .replace(/<\/?(div|p|li|tr|h[1-6])\b[^>]*>/gi, '\n')
+    .replace(/<hr\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\[sound:[^\]]*\]/gi, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Renders an Anki card template with a note's fields
+ *
+ * Supports field references with filters (`{{text:Field}}`), conditional
+ * sections (`{{#Field}}...{{/Field}}` and `{{^Field}}...{{/Field}}`) and
+ * `{{FrontSide}}`. Typing boxes (`{{type:Field}}`) render as nothing, since
+ * the app has its own typed answers.
+ *
+ * @param template - Template HTML
+ * @param fields - Field contents by field name
+ * @param frontSide - What {{FrontSide}} renders as
+ * @returns Rendered HTML
+ */
+export function renderAnkiTemplate(
+  template: string,
+  fields: ReadonlyMap<string, string>,
+  frontSide = ''
+): string {
+  const isFilled = (name: string): boolean => ankiFieldToText(fields.get(name.trim()) ?? '') !== '';
+
+  let rendered = template;
+  let previous: string;
+  do {
+    previous = rendered;
+    rendered = rendered.replace(
+      /\{\{([#^])\s*([^}]+?)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g,
+      (_section, kind: string, name: string, body: string) =>
+        (kind === '#') === isFilled(name) ? body : ''
+    );
+  } while (rendered !== previous);
+
+  return rendered.replace(/\{\{([^{}]+)\}\}/g, (_reference, inner: string) => {
+    const parts = inner.split(':').map((part) => part.trim());
+    const name = parts[parts.length - 1] ?? '';
+    if (name === 'FrontSide') {
+      return frontSide;
+    }
+    if (parts.slice(0, -1).includes('type')) {
+      return '';
+    }
+    return fields.get(name) ?? '';
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Guesses
+// -----------------------------------------------------------------------------
+
+/**
+ * Guesses which dimension a card tests from its text and template name
+ *
+ * Cloze cards test cloze fill and reversed cards (answer shown, term asked)
+ * test paraphrase recognition. Otherwise the question's wording decides:
+ * comparisons test discrimination, questions about examples test example
+ * classification, and long or hypothetical questions test scenario
+ * application. Everything else is definition recall.
+ *
+ * @param front - Question text
+ * @param templateName - Name of the card's template
+ * @param isCloze - Whether the card is a cloze deletion
+ */
+export function guessDimension(
+  front: string,
+  templateName: string,
+  isCloze: boolean
+): DimensionType {
+  if (isCloze) {
+    return DimensionType.CLOZE_FILL;
+  }
+  if (/revers|card 2/i.test(templateName)) {
+    return DimensionType.PARAPHRASE_RECOGNITION;
+  }
+  if (/\b(differen(ce|t)|distinguish|compare|contrast|versus|vs\.?)\b/i.test(front)) {
+    return DimensionType.DISCRIMINATION;
+  }
+  if (/\b(example|instance|e\.g\.|which of (these|the following))\b/i.test(front)) {
+    return DimensionType.EXAMPLE_CLASSIFICATION;
+  }
+  if (
+    front.length >= SCENARIO_MIN_LENGTH ||
+    /\b(what (would|should)|how would|suppose|imagine|scenario)\b/i.test(front)
+  ) {
+    return DimensionType.SCENARIO_APPLICATION;
+  }
+  return DimensionType.DEFINITION_RECALL;
+}
+
+/**
+ * Guesses a card's difficulty from its Anki scheduling state
+ *
+ * New cards get the middle level. Reviewed cards are rated by ease factor,
+ * which Anki lowers each time a card is failed or rated hard; cards failed
+ * many times are the hardest level whatever their ease.
+ *
+ * @param card - The Anki card
+ */
+export function guessDifficulty(card: AnkiCard): DifficultyLevel {
+  if (card.reviews === 0 || card.easeFactor === 0) {
+    return 3;
+  }
+  if (card.lapses >= 8) {
+    return 5;
+  }
+  if (card.easeFactor >= 2800) return 1;
+  if (card.easeFactor >= 2500) return 2;
+  if (card.easeFactor >= 2200) return 3;
+  if (card.easeFactor >= 1800) return 4;
+  return 5;
+}
+
+// -----------------------------------------------------------------------------
+// Planning
+// -----------------------------------------------------------------------------
+
+/**
+ * Shortens text to a concept name, cutting at a word boundary
+ */
+function toName(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  if (line.length <= MAX_NAME_LENGTH) {
+    return line;
+  }
+  const cut = line.slice(0, MAX_NAME_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_NAME_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Finds the field a cloze template deletes from ({{cloze:Field}})
+ */
+function findClozeField(noteType: AnkiNoteType): number {
+  const match = /\{\{(?:[^}:]+:)*cloze:([^}]+)\}\}/.exec(noteType.templates[0]?.front ?? '');
+  const index = match?.[1] !== undefined ? noteType.fields.indexOf(match[1].trim()) : -1;
+  return index >= 0 ? index : 0;
+}
+
+/**
+ * Result of mapping one note
+ */
+interface NoteMapping {
+  readonly concept: PlannedConcept | null;
+  readonly skipped: SkippedAnkiItem[];
+}
+
+/**
+ * Maps a cloze note to a concept with one cloze variant per card
+ */
+function mapClozeNote(
+  note: AnkiNote,
+  noteType: AnkiNoteType,
+  cards: readonly AnkiCard[]
+): NoteMapping {
+  const fieldIndex = findClozeField(noteType);
+  const clozeText = ankiFieldToText(note.fields[fieldIndex] ?? '');
+  const indices = getClozeIndices(clozeText);
+  const [firstIndex] = indices;
+  if (firstIndex === undefined) {
+    return {
+      concept: null,
+      skipped: [
+        {
+          kind: 'note',
+          ankiId: note.id,
+          label: toName(clozeText),
+          reason: 'Cloze note without cloze deletions',
+        },
+      ],
+    };
+  }
+
+  const filled = renderClozeCard(clozeText, firstIndex).back;
+  const extras = note.fields
+    .filter((_field, index) => index !== fieldIndex)
+    .map(ankiFieldToText)
+    .filter((text) => text !== '');
+  const label = toName(filled);
+
+  const skipped: SkippedAnkiItem[] = [];
+  const variants: PlannedVariant[] = [];
+  for (const card of cards) {
+    const clozeIndex = card.ord + 1;
+    if (!indices.includes(clozeIndex)) {
+      skipped.push({
+        kind: 'card',
+        ankiId: card.id,
+        label: `${label} (c${clozeIndex})`,
+        reason: `Cloze deletion c${clozeIndex} is no longer in the note`,
+      });
+      continue;
+    }
+    variants.push({
+      ankiCardId: card.id,
+      dimension: DimensionType.CLOZE_FILL,
+      difficulty: guessDifficulty(card),
+      front: clozeText,
+      back: extras.length > 0 ? extras.join('\n\n') : filled,
+      clozeIndex,
+    });
+  }
+
+  return {
+    concept: { ankiNoteId: note.id, name: label, definition: filled, facts: extras, variants },
+    skipped,
+  };
+}
+
+/**
+ * Maps a standard note to a concept with one variant per card template
+ */
+function mapStandardNote(
+  note: AnkiNote,
+  noteType: AnkiNoteType,
+  cards: readonly AnkiCard[]
+): NoteMapping {
+  const texts = note.fields.map(ankiFieldToText);
+  const label = toName(texts[0] ?? '');
+  if (label === '') {
+    return {
+      concept: null,
+      skipped: [
+        {
+          kind: 'note',
+          ankiId: note.id,
+          label: `Note ${note.id}`,
+          reason: 'The first field is empty',
+        },
+      ],
+    };
+  }
+
+  const fields = new Map(noteType.fields.map((name, index) => [name, note.fields[index] ?? '']));
+  const skipped: SkippedAnkiItem[] = [];
+  const variants: PlannedVariant[] = [];
+  for (const card of cards) {
+    const template = noteType.templates[card.ord];
+    if (template === undefined) {
+      skipped.push({
+        kind: 'card',
+        ankiId: card.id,
+        label,
+        reason: `Note type "${noteType.name}" has no template ${card.ord + 1}`,
+      });
+      continue;
+    }
+
+    const frontHtml = renderAnkiTemplate(template.front, fields);
+    const front = ankiFieldToText(frontHtml);
+    const back = ankiFieldToText(renderAnkiTemplate(template.back, fields));
+    if (front === '' || back === '') {
+      skipped.push({
+        kind: 'card',
+        ankiId: card.id,
+        label: `${label} (${template.name})`,
+        reason: front === '' ? 'The question is empty' : 'The answer is empty',
+      });
+      continue;
+    }
+
+    variants.push({
+      ankiCardId: card.id,
+      dimension: guessDimension(front, template.name, false),
+      difficulty: guessDifficulty(card),
+      front,
+      back,
+    });
+  }
+
+  return {
+    concept: {
+      ankiNoteId: note.id,
+      name: label,
+      definition: texts[1] ?? '',
+      facts: texts.slice(2).filter((text) => text !== ''),
+      variants,
+    },
+    skipped,
+  };
+}
+
+/**
+ * Works out what an Anki collection imports as
+ *
+ * Each note becomes a concept named after its first field (or its cloze
+ * text) and each of its cards a variant. Notes whose name matches an
+ * existing concept or an earlier note are skipped, as are notes of unknown
+ * note types and cards that render empty. A note whose cards are all
+ * skipped is skipped too.
+ *
+ * @param collection - Notes, cards and review log read from the package
+ * @param options - Existing concept names and whether to import reviews
+ * @returns The concepts, variants and reviews to create, and what was left out
+ */
+export function planAnkiImport(
+  collection: AnkiCollection,
+  options: AnkiImportOptions
+): AnkiImportPlan {
+  const noteTypes = new Map(collection.noteTypes.map((type) => [type.id, type]));
+  const cardsByNote = new Map<number, AnkiCard[]>();
+  for (const card of [...collection.cards].sort((a, b) => a.ord - b.ord)) {
+    const cards = cardsByNote.get(card.noteId) ?? [];
+    cards.push(card);
+    cardsByNote.set(card.noteId, cards);
+  }
+
+  const existingNames = new Set([...options.existingNames].map((name) => name.toLowerCase()));
+  const takenNames = new Set(existingNames);
+  const concepts: PlannedConcept[] = [];
+  const skipped: SkippedAnkiItem[] = [];
+  let notesWithMedia = 0;
+
+  for (const note of collection.notes) {
+    const noteType = noteTypes.get(note.noteTypeId);
+    if (noteType === undefined) {
+      skipped.push({
+        kind: 'note',
+        ankiId: note.id,
+        label: toName(ankiFieldToText(note.fields[0] ?? '')),
+        reason: 'Unknown note type',
+      });
+      continue;
+    }
+
+    const cards = cardsByNote.get(note.id) ?? [];
+    const mapping =
+      noteType.kind === 'cloze'
+        ? mapClozeNote(note, noteType, cards)
+        : mapStandardNote(note, noteType, cards);
+    skipped.push(...mapping.skipped);
+    const { concept } = mapping;
+    if (concept === null) {
+      continue;
+    }
+
+    const key = concept.name.toLowerCase();
+    if (takenNames.has(key)) {
+      skipped.push({
+        kind: 'note',
+        ankiId: note.id,
+        label: concept.name,
+        reason: existingNames.has(key)
+          ? 'A concept with this name already exists'
+          : 'Another note in the deck has the same name',
+      });
+      continue;
+    }
+    if (concept.variants.length === 0) {
+      skipped.push({ kind: 'note', ankiId: note.id, label: concept.name, reason: 'No cards' });
+      continue;
+    }
+
+    takenNames.add(key);
+    concepts.push(concept);
+    if (note.fields.some(hasMedia)) {
+      notesWithMedia++;
+    }
+  }
+
+  const importedCards = new Set(
+    concepts.flatMap((concept) => concept.variants.map((variant) => variant.ankiCardId))
+  );
+  const reviews: PlannedReview[] = [];
+  let skippedReviewCount = 0;
+  if (options.includeReviewHistory) {
+    for (const review of collection.reviews) {
+      const result = EASE_RESULTS[review.ease];
+      if (
+        result === undefined ||
+        review.type === MANUAL_REVIEW_TYPE ||
+        !importedCards.has(review.cardId)
+      ) {
+        skippedReviewCount++;
+        continue;
+      }
+      reviews.push({
+        ankiCardId: review.cardId,
+        result,
+        timeMs: Math.max(0, review.timeMs),
+        reviewedAt: review.reviewedAt,
+      });
+    }
+    reviews.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+  }
+
+  return { concepts, reviews, skipped, skippedReviewCount, notesWithMedia };
+}
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Reader for Anki deck packages (.apkg) and collection packages (.colpkg)
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Unzips the package, opens the bundled collection in memory, reads note types,
+ *           notes, cards and the review log
+ * Main APIs: readAnkiPackage
+ * Constraints: Reads the legacy collection format (schema 11) that Anki writes when
+ *              "Support older Anki versions" is ticked; the newer compressed format is refused
+ * Patterns: In-memory better-sqlite3 database, rows mapped to AnkiCollection records
+ */
+
+import BetterSqlite3 from 'better-sqlite3';
+
+import { ImportError } from './errors';
+import { readZipArchive } from './zip-archive';
+
+import type { AnkiCard, AnkiCollection, AnkiNote, AnkiNoteType, AnkiReview } from './anki-mapper';
+
+/** Collection files in order of preference; anki21 holds newer note features */
+const LEGACY_COLLECTIONS = ['collection.anki21', 'collection.anki2'];
+
+/** Collection written by Anki 2.1.50+ without legacy support (zstd compressed) */
+const COMPRESSED_COLLECTION = 'collection.anki21b';
+
+/** Separator between note fields in the notes.flds column */
+const FIELD_SEPARATOR = '\x1f';
+
+/** Note type kind code for cloze note types */
+const CLOZE_MODEL_TYPE = 1;
+
+/**
+ * Note type as stored in the col.models JSON
+ */
+interface ModelJson {
+  id: number | string;
+  name: string;
+  type: number;
+  flds: Array<{ name: string; ord: number }>;
+  tmpls: Array<{ name: string; ord: number; qfmt: string; afmt: string }>;
+}
+
+/** Row shapes of the collection tables */
+interface NoteRow {
+  id: number;
+  mid: number;
+  tags: string;
+  flds: string;
+}
+
+interface CardRow {
+  id: number;
+  nid: number;
+  ord: number;
+  reps: number;
+  lapses: number;
+  factor: number;
+}
+
+interface ReviewRow {
+  id: number;
+  cid: number;
+  ease: number;
+  time: number;
+  type: number;
+}
+
+/**
+ * Builds the error for a package in the format newer Anki versions write
+ */
+function compressedFormatError(): ImportError {
+  return new ImportError(
+    'This package uses the newer Anki format. Export it again from Anki with ' +
+      '"Support older Anki versions" ticked.',
+    'UNSUPPORTED_FORMAT'
+  );
+}
+
+/**
+ * Reads note types from the col.models JSON
+ */
+function readNoteTypes(db: BetterSqlite3.Database): AnkiNoteType[] {
+  const row = db.prepare<[], { models: string }>('SELECT models FROM col').get();
+  const models = JSON.parse(row?.models ?? '{}') as Record<string, ModelJson>;
+  if (Object.keys(models).length === 0) {
+    // Schema 18 collections keep note types in their own tables
+    throw compressedFormatError();
+  }
+
+  return Object.values(models).map((model) => ({
+    id: Number(model.id),
+    name: model.name,
+    kind: model.type === CLOZE_MODEL_TYPE ? 'cloze' : 'standard',
+    fields: [...model.flds].sort((a, b) => a.ord - b.ord).map((field) => field.name),
+    templates: [...model.tmpls]
+      .sort((a, b) => a.ord - b.ord)
+      .map((template) => ({ name: template.name, front: template.qfmt, back: template.afmt })),
+  }));
+}
+
+/**
+ * Reads notes, cards and the review log
+ */
+function readCollection(db: BetterSqlite3.Database): AnkiCollection {
+  const notes: AnkiNote[] = db
+    .prepare<[], NoteRow>('SELECT id, mid, tags, flds FROM notes ORDER BY id')
+    .all()
+    .map((row) => ({
+      id: row.id,
+      noteTypeId: row.mid,
+      fields: row.flds.split(FIELD_SEPARATOR),
+      tags: row.tags.split(' ').filter((tag) => tag !== ''),
+    }));
+
+  const cards: AnkiCard[] = db
+    .prepare<[], CardRow>('SELECT id, nid, ord, reps, lapses, factor FROM cards ORDER BY id')
+    .all()
+    .map((row) => ({
+      id: row.id,
+      noteId: row.nid,
+      ord: row.ord,
+      reviews: row.reps,
+      lapses: row.lapses,
+      easeFactor: row.factor,
+    }));
+
+  const reviews: AnkiReview[] = db
+    .prepare<[], ReviewRow>('SELECT id, cid, ease, time, type FROM revlog ORDER BY id')
+    .all()
+    .map((row) => ({
+      cardId: row.cid,
+      reviewedAt: new Date(row.id),
+      ease: row.ease,
+      timeMs: row.time,
+      type: row.type,
+    }));
+
+  return { noteTypes: readNoteTypes(db), notes, cards, reviews };
+}
+
+/**
+ * Reads the notes, cards and review log of an Anki package
+ *
+ * @param data - Contents of a .apkg or .colpkg file
+ * @returns The collection inside the package
+ * @throws ImportError when the file is not an Anki package or uses the newer format
+ */
+export function readAnkiPackage(data: Buffer): AnkiCollection {
+  const archive = readZipArchive(data);
+  const collectionName = LEGACY_COLLECTIONS.find((name) => archive.has(name));
+  if (archive.has(COMPRESSED_COLLECTION)) {
+    // The legacy file next to it only holds an "update Anki" placeholder note
+    throw compressedFormatError();
+  }
+  if (collectionName === undefined) {
+    throw new ImportError('The file is not an Anki package: no collection found', 'INVALID_FILE');
+  }
+
+  let db: BetterSqlite3.Database;
+  try {
+    db = new BetterSqlite3(archive.read(collectionName));
+  } catch (error) {
+    if (error instanceof ImportError) {
+      throw error;
+    }
+    throw new ImportError('The Anki collection could not be opened', 'INVALID_FILE', {
+      cause: error instanceof Error ? error : new Error(String(error)),
+    });
+  }
+
+  try {
+    return readCollection(db);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      throw error;
+    }
+    throw new ImportError('The Anki collection could not be read', 'INVALID_FILE', {
+      cause: error instanceof Error ? error : new Error(String(error)),
+      context: { collection: collectionName },
+    });
+  } finally {
+    db.close();
+  }
+}
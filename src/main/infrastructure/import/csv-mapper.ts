@@ -0,0 +1,406 @@
+/**
+ * @fileoverview Mapping of CSV/TSV rows to concepts and variants with per-row validation
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Column mapping guessed from header names, rows grouped into concepts by name,
+ *           optional variant per row, lenient dimension and question type spellings,
+ *           duplicate handling against existing concepts, per-row error messages
+ * Main APIs: planCsvImport, guessCsvMapping, csvColumnNames, parseCsvDimension,
+ *            countVariantCards, CsvImportPlan, CsvMapping
+ * Constraints: Pure functions, no database calls; list cells split on "|" and line breaks;
+ *              choice questions need answer options, which a CSV row cannot carry
+ * Patterns: Rows in, plan out; the caller writes the plan in one transaction
+ */
+
+import { TRUE_FALSE_OPTIONS } from '../../../domain/services/answer-grading.service';
+import { DimensionType } from '../../../shared/types/core';
+import { getClozeIndices } from '../../../shared/utils/cloze';
+
+import type {
+  CreateVariantDTO,
+  CsvDuplicateHandling,
+  CsvImportField,
+  CsvRowPreviewDTO,
+  Dimension,
+  QuestionType,
+} from '../../../shared/types/ipc';
+
+/** Difficulty of variants whose row leaves it blank */
+const DEFAULT_DIFFICULTY = 3;
+
+/**
+ * Column index per field
+ */
+export type CsvMapping = Partial<Record<CsvImportField, number>>;
+
+/**
+ * A variant to create from one row
+ */
+export type PlannedCsvVariant = Omit<CreateVariantDTO, 'conceptId'>;
+
+/**
+ * A concept to create, or an existing one to add to, with its rows' variants
+ */
+export interface PlannedCsvConcept {
+  readonly name: string;
+  /** Id of the existing concept the rows merge into, or null for a new concept */
+  readonly existingId: string | null;
+  /** Definition of a new concept; ignored when merging */
+  readonly definition: string;
+  /** Facts of the rows in order, without repeats */
+  readonly facts: readonly string[];
+  readonly variants: readonly PlannedCsvVariant[];
+}
+
+/**
+ * What a CSV file imports as
+ */
+export interface CsvImportPlan {
+  /** Concepts of the rows without errors */
+  readonly concepts: readonly PlannedCsvConcept[];
+  /** Every data row that is not blank, with its status */
+  readonly rows: readonly CsvRowPreviewDTO[];
+}
+
+/**
+ * Options for planning an import
+ */
+export interface CsvPlanOptions {
+  readonly mapping: CsvMapping;
+  /** Whether the first row holds column names */
+  readonly hasHeader: boolean;
+  /** Ids of existing concepts by lowercase name */
+  readonly existing: ReadonlyMap<string, string>;
+  readonly onDuplicate: CsvDuplicateHandling;
+}
+
+// -----------------------------------------------------------------------------
+// Columns
+// -----------------------------------------------------------------------------
+
+/** Header names recognized per field, lowercase without spaces or punctuation */
+const FIELD_ALIASES: Record<CsvImportField, readonly string[]> = {
+  name: ['name', 'concept', 'term', 'title', 'word'],
+  definition: ['definition', 'meaning', 'description', 'explanation'],
+  facts: ['facts', 'fact', 'notes', 'keypoints', 'details'],
+  dimension: ['dimension', 'skill'],
+  difficulty: ['difficulty', 'level'],
+  front: ['front', 'question', 'prompt'],
+  back: ['back', 'answer'],
+  hints: ['hints', 'hint'],
+  questionType: ['questiontype', 'type', 'cardtype'],
+};
+
+/**
+ * Lowercases a name and drops everything but letters and digits
+ */
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Names of the columns: the header row's cells, or "Column N" without one
+ *
+ * @param rows - All rows of the file
+ * @param hasHeader - Whether the first row holds column names
+ */
+export function csvColumnNames(rows: readonly string[][], hasHeader: boolean): string[] {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = hasHeader ? (rows[0] ?? []) : [];
+  return Array.from({ length: width }, (_unused, index) => {
+    const name = header[index]?.trim() ?? '';
+    return name !== '' ? name : `Column ${index + 1}`;
+  });
+}
+
+/**
+ * Guesses which column holds which field
+ *
+ * Header names are matched against common spellings. Without a header the
+ * first column is taken as the name and the second as the definition.
+ *
+ * @param columns - Column names
+ * @param hasHeader - Whether the names come from a header row
+ */
+export function guessCsvMapping(columns: readonly string[], hasHeader: boolean): CsvMapping {
+  if (!hasHeader) {
+    return {
+      ...(columns.length > 0 && { name: 0 }),
+      ...(columns.length > 1 && { definition: 1 }),
+    };
+  }
+
+  const mapping: CsvMapping = {};
+  const keys = columns.map(normalizeKey);
+  for (const field of Object.keys(FIELD_ALIASES) as CsvImportField[]) {
+    const index = keys.findIndex((key) => FIELD_ALIASES[field].includes(key));
+    if (index >= 0 && !Object.values(mapping).includes(index)) {
+      mapping[field] = index;
+    }
+  }
+  return mapping;
+}
+
+// -----------------------------------------------------------------------------
+// Cell Parsing
+// -----------------------------------------------------------------------------
+
+/** Dimension spellings: IPC names, stored enum values and display labels */
+const DIMENSION_ALIASES: Record<string, Dimension> = {
+  definition: 'definition',
+  [normalizeKey(DimensionType.DEFINITION_RECALL)]: 'definition',
+  paraphrase: 'paraphrase',
+  [normalizeKey(DimensionType.PARAPHRASE_RECOGNITION)]: 'paraphrase',
+  example: 'example',
+  [normalizeKey(DimensionType.EXAMPLE_CLASSIFICATION)]: 'example',
+  scenario: 'scenario',
+  [normalizeKey(DimensionType.SCENARIO_APPLICATION)]: 'scenario',
+  discrimination: 'discrimination',
+  cloze: 'cloze',
+  [normalizeKey(DimensionType.CLOZE_FILL)]: 'cloze',
+};
+
+/** Question type spellings */
+const QUESTION_TYPE_ALIASES: Record<string, QuestionType> = {
+  flashcard: 'flashcard',
+  basic: 'flashcard',
+  openresponse: 'open_response',
+  open: 'open_response',
+  truefalse: 'true_false',
+  multiplechoice: 'multiple_choice',
+  multiselect: 'multi_select',
+};
+
+/**
+ * Reads a dimension cell
+ *
+ * @param value - Cell text, such as "definition", "definition_recall" or "Definition Recall"
+ * @returns The dimension, or null when not recognized
+ */
+export function parseCsvDimension(value: string): Dimension | null {
+  return DIMENSION_ALIASES[normalizeKey(value)] ?? null;
+}
+
+/**
+ * Splits a facts or hints cell into its items, separated by "|" or line breaks
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(/\||\r?\n/)
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+/**
+ * Number of cards a planned variant is saved as; cloze text makes one per index
+ *
+ * @param variant - A planned variant
+ */
+export function countVariantCards(variant: PlannedCsvVariant): number {
+  if (variant.dimension !== 'cloze' || (variant.questionType ?? 'flashcard') !== 'flashcard') {
+    return 1;
+  }
+  return Math.max(1, getClozeIndices(variant.front).length);
+}
+
+/**
+ * Reads the variant columns of a row
+ *
+ * @returns The variant, null when the row has no question or answer, or the row's errors
+ */
+function readVariant(
+  cell: (field: CsvImportField) => string
+): PlannedCsvVariant | null | string[] {
+  const front = cell('front');
+  const back = cell('back');
+  if (front === '' && back === '') {
+    return null;
+  }
+
+  const errors: string[] = [];
+  const dimensionText = cell('dimension');
+  const dimension = dimensionText === '' ? 'definition' : parseCsvDimension(dimensionText);
+  if (dimension === null) {
+    errors.push(`Unknown dimension "${dimensionText}"`);
+  }
+
+  const difficultyText = cell('difficulty');
+  const difficulty = difficultyText === '' ? DEFAULT_DIFFICULTY : Number(difficultyText);
+  if (!Number.isInteger(difficulty) || difficulty < 1 || difficulty > 5) {
+    errors.push('Difficulty must be a whole number from 1 to 5');
+  }
+
+  const typeText = cell('questionType');
+  const questionType =
+    typeText === '' ? 'flashcard' : (QUESTION_TYPE_ALIASES[normalizeKey(typeText)] ?? null);
+  if (questionType === null) {
+    errors.push(`Unknown question type "${typeText}"`);
+  } else if (questionType === 'multiple_choice' || questionType === 'multi_select') {
+    errors.push('Choice questions need answer options, which CSV import does not support');
+  }
+
+  if (front === '') {
+    errors.push('The question (front) is empty');
+  }
+  if (back === '' && dimension !== 'cloze') {
+    errors.push('The answer (back) is empty');
+  }
+
+  let correctIndices: number[] | undefined;
+  if (questionType === 'true_false') {
+    const index = TRUE_FALSE_OPTIONS.findIndex(
+      (option) => option.toLowerCase() === back.toLowerCase()
+    );
+    if (index < 0) {
+      errors.push('True/false answers must be True or False');
+    } else {
+      correctIndices = [index];
+    }
+  }
+
+  if (errors.length > 0 || dimension === null || questionType === null) {
+    return errors;
+  }
+
+  const hints = splitList(cell('hints'));
+  return {
+    dimension,
+    difficulty,
+    front,
+    back,
+    questionType,
+    ...(hints.length > 0 && { hints }),
+    ...(correctIndices !== undefined && { correctIndices }),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Planning
+// -----------------------------------------------------------------------------
+
+/**
+ * A concept being assembled from rows
+ */
+interface ConceptDraft {
+  name: string;
+  existingId: string | null;
+  definition: string;
+  /** Row that set the definition */
+  definitionRow: number;
+  facts: string[];
+  variants: PlannedCsvVariant[];
+}
+
+/**
+ * Works out what CSV rows import as
+ *
+ * Rows with the same name (ignoring case) belong to one concept: the first
+ * row with a definition sets it, facts are collected from every row, and
+ * each row with a question or answer adds a variant. Rows naming an
+ * existing concept are skipped or merged into it. A row with an error is
+ * left out of the plan; two rows defining one concept differently is an
+ * error on the later row.
+ *
+ * @param rows - All rows of the file, including the header row if any
+ * @param options - Column mapping, existing concepts and duplicate handling
+ * @returns The concepts to write and the status of every data row
+ */
+export function planCsvImport(rows: readonly string[][], options: CsvPlanOptions): CsvImportPlan {
+  const drafts = new Map<string, ConceptDraft>();
+  const previews: CsvRowPreviewDTO[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    if ((options.hasHeader && rowIndex === 0) || row.every((value) => value.trim() === '')) {
+      return;
+    }
+
+    const rowNumber = rowIndex + 1;
+    const cell = (field: CsvImportField): string => {
+      const column = options.mapping[field];
+      return column !== undefined ? (row[column] ?? '').trim() : '';
+    };
+    const name = cell('name');
+    const definition = cell('definition');
+    const variant = readVariant(cell);
+
+    const errors = Array.isArray(variant) ? [...variant] : [];
+    if (name === '') {
+      errors.unshift('The name is empty');
+    }
+
+    const key = name.toLowerCase();
+    const existingId = options.existing.get(key) ?? null;
+    const draft = drafts.get(key);
+    if (
+      draft !== undefined &&
+      draft.existingId === null &&
+      definition !== '' &&
+      draft.definition !== '' &&
+      definition !== draft.definition
+    ) {
+      errors.push(`The definition differs from row ${draft.definitionRow}`);
+    }
+
+    const plannedVariant = Array.isArray(variant) ? null : variant;
+    const preview = (status: CsvRowPreviewDTO['status']): void => {
+      previews.push({
+        rowNumber,
+        name,
+        status,
+        variant:
+          plannedVariant !== null
+            ? {
+                dimension: plannedVariant.dimension,
+                difficulty: plannedVariant.difficulty ?? DEFAULT_DIFFICULTY,
+                front: plannedVariant.front,
+              }
+            : null,
+        errors,
+      });
+    };
+
+    if (errors.length > 0) {
+      preview('error');
+      return;
+    }
+    if (existingId !== null && options.onDuplicate === 'skip') {
+      preview('skip');
+      return;
+    }
+
+    const target = draft ?? {
+      name,
+      existingId,
+      definition: '',
+      definitionRow: rowNumber,
+      facts: [],
+      variants: [],
+    };
+    if (target.definition === '' && definition !== '') {
+      target.definition = definition;
+      target.definitionRow = rowNumber;
+    }
+    for (const fact of splitList(cell('facts'))) {
+      if (!target.facts.includes(fact)) {
+        target.facts.push(fact);
+      }
+    }
+    if (plannedVariant !== null) {
+      target.variants.push(plannedVariant);
+    }
+    drafts.set(key, target);
+
+    preview(existingId !== null ? 'merge' : draft !== undefined ? 'add' : 'create');
+  });
+
+  return {
+    concepts: [...drafts.values()].map((draft) => ({
+      name: draft.name,
+      existingId: draft.existingId,
+      definition: draft.definition,
+      facts: draft.facts,
+      variants: draft.variants,
+    })),
+    rows: previews,
+  };
+}
@@ -0,0 +1,611 @@
+/**
+ * @fileoverview Versioned JSON/YAML document holding a full copy of the study data
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Document types mirroring the database columns, schema validation with the path
+ *           of the first bad value, reference checks between records, JSON and YAML output,
+ *           reading schema version 1 files (the bundled seed data format)
+ * Main APIs: parseDataDocument, serializeDataDocument, countDataDocument, DataDocument,
+ *            DATA_DOCUMENT_VERSION, DIMENSION_LABELS
+ * Constraints: Pure functions; timestamps are kept as written so a round trip is lossless;
+ *              columns added after version 1 are optional and default like the database does
+ * Patterns: Same layout as the seed YAML (schema_version plus db tables), validate-then-trust
+ */
+
+import * as yaml from 'js-yaml';
+
+import { ImportError } from './errors';
+import { DimensionType } from '../../../shared/types/core';
+
+import type { EvaluationRubric, QuestionType, ReviewResultType } from '../../../shared/types/core';
+
+/** Schema version written by this version of the app */
+export const DATA_DOCUMENT_VERSION = 2;
+
+/**
+ * Dimension names as written in documents, matching the seed data
+ */
+export const DIMENSION_LABELS: Record<DimensionType, string> = {
+  [DimensionType.DEFINITION_RECALL]: 'Definition Recall',
+  [DimensionType.PARAPHRASE_RECOGNITION]: 'Paraphrase Recognition',
+  [DimensionType.EXAMPLE_CLASSIFICATION]: 'Example Classification',
+  [DimensionType.SCENARIO_APPLICATION]: 'Scenario Application',
+  [DimensionType.DISCRIMINATION]: 'Discrimination',
+  [DimensionType.CLOZE_FILL]: 'Cloze Fill',
+};
+
+const QUESTION_TYPES: readonly QuestionType[] = [
+  'flashcard',
+  'multiple_choice',
+  'multi_select',
+  'true_false',
+  'open_response',
+];
+
+const REVIEW_RESULTS: readonly ReviewResultType[] = ['again', 'hard', 'good', 'easy'];
+
+/** A row of the concepts table */
+export interface DocumentConcept {
+  id: string;
+  name: string;
+  definition: string;
+  facts: string[];
+  /** Note the concept was imported from, absent in documents of older versions */
+  source_path: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+/** A row of the variants table, with the dimension as its label */
+export interface DocumentVariant {
+  id: string;
+  concept_id: string;
+  dimension: string;
+  difficulty: number;
+  front: string;
+  back: string;
+  hints: string[];
+  last_shown_at: string | null;
+  question_type: QuestionType;
+  rubric: EvaluationRubric | null;
+  max_length: number | null;
+  options: string[] | null;
+  correct_indices: number[] | null;
+  cloze_index: number | null;
+  created_at: string | null;
+}
+
+/** A row of the schedule table */
+export interface DocumentSchedule {
+  variant_id: string;
+  concept_id: string;
+  due_at: string;
+  interval_days: number;
+  ease_factor: number;
+  stability: number | null;
+  difficulty: number | null;
+  last_reviewed_at: string | null;
+}
+
+/** A row of the mastery table */
+export interface DocumentMastery {
+  dimension: string;
+  accuracy_ewma: number;
+  speed_ewma: number;
+  recent_count: number;
+  updated_at: string | null;
+}
+
+/** A row of the concept_mastery table */
+export interface DocumentConceptMastery extends DocumentMastery {
+  concept_id: string;
+}
+
+/** A row of the events table */
+export interface DocumentEvent {
+  id: string;
+  concept_id: string;
+  variant_id: string;
+  dimension: string;
+  difficulty: number;
+  result: ReviewResultType;
+  time_ms: number;
+  hints_used: number;
+  created_at: string;
+  user_response: string | null;
+  llm_score: number | null;
+  llm_feedback: string | null;
+  evaluation_confidence: number | null;
+  evaluation_model: string | null;
+  llm_rating: ReviewResultType | null;
+  human_rating: ReviewResultType | null;
+  overridden_at: string | null;
+}
+
+/**
+ * A full copy of the study data
+ *
+ * Without events the review history was left out of the export, which
+ * is different from an export of a database without reviews (an empty
+ * events list).
+ */
+export interface DataDocument {
+  schema_version: number;
+  exported_at: string | null;
+  db: {
+    concepts: DocumentConcept[];
+    variants: DocumentVariant[];
+    schedule: DocumentSchedule[];
+    mastery: DocumentMastery[];
+    concept_mastery: DocumentConceptMastery[];
+    events?: DocumentEvent[];
+  };
+}
+
+/**
+ * Number of records per table
+ */
+export interface DataDocumentCounts {
+  concepts: number;
+  variants: number;
+  schedules: number;
+  mastery: number;
+  conceptMastery: number;
+  events: number;
+}
+
+// -----------------------------------------------------------------------------
+// Field Readers
+// -----------------------------------------------------------------------------
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Throws the error for an invalid value at a path such as db.variants[3].difficulty
+ */
+function invalid(path: string, problem: string): never {
+  throw new ImportError(`${path} ${problem}`, 'INVALID_FILE', { context: { path } });
+}
+
+function readObject(value: unknown, path: string): Fields {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    invalid(path, 'must be an object');
+  }
+  return value as Fields;
+}
+
+function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    invalid(path, 'must be a list');
+  }
+  return value;
+}
+
+function readString(fields: Fields, key: string, path: string): string {
+  const value = fields[key];
+  if (typeof value !== 'string') {
+    invalid(`${path}.${key}`, 'must be text');
+  }
+  return value;
+}
+
+/**
+ * Whether a field is missing or null, as optional columns may be in older files
+ */
+function isAbsent(fields: Fields, key: string): boolean {
+  return fields[key] === undefined || fields[key] === null;
+}
+
+function readOptionalString(fields: Fields, key: string, path: string): string | null {
+  return isAbsent(fields, key) ? null : readString(fields, key, path);
+}
+
+function readTimestamp(fields: Fields, key: string, path: string): string {
+  const value = readString(fields, key, path);
+  if (Number.isNaN(Date.parse(value))) {
+    invalid(`${path}.${key}`, 'must be a date and time');
+  }
+  return value;
+}
+
+function readOptionalTimestamp(fields: Fields, key: string, path: string): string | null {
+  return isAbsent(fields, key) ? null : readTimestamp(fields, key, path);
+}
+
+/**
+ * Allowed range of a number field
+ */
+interface NumberBounds {
+  min?: number;
+  max?: number;
+  /** Whether min itself is out of range */
+  exclusiveMin?: boolean;
+  integer?: boolean;
+}
+
+/**
+ * Reads a number within bounds, optionally a whole number
+ */
+function readNumber(
+  fields: Fields,
+  key: string,
+  path: string,
+  bounds: NumberBounds = {}
+): number {
+  const value = fields[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    invalid(`${path}.${key}`, 'must be a number');
+  }
+  if (bounds.integer === true && !Number.isInteger(value)) {
+    invalid(`${path}.${key}`, 'must be a whole number');
+  }
+  const { min, max } = bounds;
+  if (min !== undefined && (value < min || (bounds.exclusiveMin === true && value === min))) {
+    const limit = bounds.exclusiveMin === true ? 'above' : 'at least';
+    invalid(`${path}.${key}`, `must be ${limit} ${min}`);
+  }
+  if (max !== undefined && value > max) {
+    invalid(`${path}.${key}`, `must be at most ${max}`);
+  }
+  return value;
+}
+
+function readOptionalNumber(
+  fields: Fields,
+  key: string,
+  path: string,
+  bounds: NumberBounds = {}
+): number | null {
+  return isAbsent(fields, key) ? null : readNumber(fields, key, path, bounds);
+}
+
+function readStringList(value: unknown, path: string): string[] {
+  return readArray(value, path).map((item, index) => {
+    if (typeof item !== 'string') {
+      invalid(`${path}[${index}]`, 'must be text');
+    }
+    return item;
+  });
+}
+
+function readIndexList(value: unknown, path: string): number[] {
+  return readArray(value, path).map((item, index) => {
+    if (typeof item !== 'number' || !Number.isInteger(item) || item < 0) {
+      invalid(`${path}[${index}]`, 'must be a whole number from 0');
+    }
+    return item;
+  });
+}
+
+function readChoice<T extends string>(
+  fields: Fields,
+  key: string,
+  path: string,
+  choices: readonly T[]
+): T {
+  const value = fields[key];
+  if (!choices.includes(value as T)) {
+    invalid(`${path}.${key}`, `must be one of ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Reads a dimension written as its label or as the stored value
+ *
+ * @returns The dimension's label
+ */
+function readDimension(fields: Fields, key: string, path: string): string {
+  const value = readString(fields, key, path);
+  const dimensions = Object.values(DimensionType);
+  const dimension = dimensions.includes(value as DimensionType)
+    ? (value as DimensionType)
+    : dimensions.find((type) => DIMENSION_LABELS[type] === value);
+  if (dimension === undefined) {
+    invalid(`${path}.${key}`, `must be one of ${Object.values(DIMENSION_LABELS).join(', ')}`);
+  }
+  return DIMENSION_LABELS[dimension];
+}
+
+function readRubric(value: unknown, path: string): EvaluationRubric | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const fields = readObject(value, path);
+  const partialCreditCriteria = readOptionalString(fields, 'partialCreditCriteria', path);
+  return {
+    keyPoints: readStringList(fields['keyPoints'], `${path}.keyPoints`),
+    ...(!isAbsent(fields, 'acceptableVariations') && {
+      acceptableVariations: readStringList(
+        fields['acceptableVariations'],
+        `${path}.acceptableVariations`
+      ),
+    }),
+    ...(partialCreditCriteria !== null && { partialCreditCriteria }),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Record Readers
+// -----------------------------------------------------------------------------
+
+function readConcept(value: unknown, path: string): DocumentConcept {
+  const fields = readObject(value, path);
+  return {
+    id: readString(fields, 'id', path),
+    name: readString(fields, 'name', path),
+    definition: readString(fields, 'definition', path),
+    facts: isAbsent(fields, 'facts') ? [] : readStringList(fields['facts'], `${path}.facts`),
+    source_path: readOptionalString(fields, 'source_path', path),
+    created_at: readOptionalTimestamp(fields, 'created_at', path),
+    updated_at: readOptionalTimestamp(fields, 'updated_at', path),
+  };
+}
+
+function readVariant(value: unknown, path: string): DocumentVariant {
+  const fields = readObject(value, path);
+  return {
+    id: readString(fields, 'id', path),
+    concept_id: readString(fields, 'concept_id', path),
+    dimension: readDimension(fields, 'dimension', path),
+    difficulty: readNumber(fields, 'difficulty', path, { min: 1, max: 5, integer: true }),
+    front: readString(fields, 'front', path),
+    back: readString(fields, 'back', path),
+    hints: isAbsent(fields, 'hints') ? [] : readStringList(fields['hints'], `${path}.hints`),
+    last_shown_at: readOptionalTimestamp(fields, 'last_shown_at', path),
+    question_type: isAbsent(fields, 'question_type')
+      ? 'flashcard'
+      : readChoice(fields, 'question_type', path, QUESTION_TYPES),
+    rubric: readRubric(fields['rubric'], `${path}.rubric`),
+    max_length: readOptionalNumber(fields, 'max_length', path, { min: 1, integer: true }),
+    options: isAbsent(fields, 'options')
+      ? null
+      : readStringList(fields['options'], `${path}.options`),
+    correct_indices: isAbsent(fields, 'correct_indices')
+      ? null
+      : readIndexList(fields['correct_indices'], `${path}.correct_indices`),
+    cloze_index: readOptionalNumber(fields, 'cloze_index', path, { min: 1, integer: true }),
+    created_at: readOptionalTimestamp(fields, 'created_at', path),
+  };
+}
+
+function readSchedule(value: unknown, path: string): DocumentSchedule {
+  const fields = readObject(value, path);
+  return {
+    variant_id: readString(fields, 'variant_id', path),
+    concept_id: readString(fields, 'concept_id', path),
+    due_at: readTimestamp(fields, 'due_at', path),
+    interval_days: readNumber(fields, 'interval_days', path, { min: 0 }),
+    ease_factor: readNumber(fields, 'ease_factor', path, { min: 0 }),
+    stability: readOptionalNumber(fields, 'stability', path, { min: 0, exclusiveMin: true }),
+    difficulty: readOptionalNumber(fields, 'difficulty', path, { min: 1, max: 10 }),
+    last_reviewed_at: readOptionalTimestamp(fields, 'last_reviewed_at', path),
+  };
+}
+
+function readMastery(value: unknown, path: string): DocumentMastery {
+  const fields = readObject(value, path);
+  return {
+    dimension: readDimension(fields, 'dimension', path),
+    accuracy_ewma: readNumber(fields, 'accuracy_ewma', path, { min: 0, max: 1 }),
+    speed_ewma: readNumber(fields, 'speed_ewma', path, { min: 0, max: 1 }),
+    recent_count: readNumber(fields, 'recent_count', path, { min: 0, integer: true }),
+    updated_at: readOptionalTimestamp(fields, 'updated_at', path),
+  };
+}
+
+function readConceptMastery(value: unknown, path: string): DocumentConceptMastery {
+  return {
+    concept_id: readString(readObject(value, path), 'concept_id', path),
+    ...readMastery(value, path),
+  };
+}
+
+function readEvent(value: unknown, path: string): DocumentEvent {
+  const fields = readObject(value, path);
+  const rating = (key: string): ReviewResultType | null =>
+    isAbsent(fields, key) ? null : readChoice(fields, key, path, REVIEW_RESULTS);
+  return {
+    id: readString(fields, 'id', path),
+    concept_id: readString(fields, 'concept_id', path),
+    variant_id: readString(fields, 'variant_id', path),
+    dimension: readDimension(fields, 'dimension', path),
+    difficulty: readNumber(fields, 'difficulty', path, { min: 1, max: 5, integer: true }),
+    result: readChoice(fields, 'result', path, REVIEW_RESULTS),
+    time_ms: readNumber(fields, 'time_ms', path, { min: 0 }),
+    hints_used: readNumber(fields, 'hints_used', path, { min: 0, integer: true }),
+    created_at: readTimestamp(fields, 'created_at', path),
+    user_response: readOptionalString(fields, 'user_response', path),
+    llm_score: readOptionalNumber(fields, 'llm_score', path, { min: 0, max: 1 }),
+    llm_feedback: readOptionalString(fields, 'llm_feedback', path),
+    evaluation_confidence: readOptionalNumber(fields, 'evaluation_confidence', path, {
+      min: 0,
+      max: 1,
+    }),
+    evaluation_model: readOptionalString(fields, 'evaluation_model', path),
+    llm_rating: rating('llm_rating'),
+    human_rating: rating('human_rating'),
+    overridden_at: readOptionalTimestamp(fields, 'overridden_at', path),
+  };
+}
+
+/**
+ * Reads a table; a missing table is empty
+ */
+function readTable<T>(
+  db: Fields,
+  key: string,
+  read: (value: unknown, path: string) => T
+): T[] {
+  const value = db[key];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return readArray(value, `db.${key}`).map((item, index) => read(item, `db.${key}[${index}]`));
+}
+
+// -----------------------------------------------------------------------------
+// References
+// -----------------------------------------------------------------------------
+
+/**
+ * Throws when two records of a table share a key; records without one are ignored
+ */
+function checkUnique<T>(
+  records: readonly T[],
+  table: string,
+  key: (record: T) => string | null
+): void {
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    const value = key(record);
+    if (value === null) {
+      return;
+    }
+    if (seen.has(value)) {
+      invalid(`db.${table}[${index}]`, `repeats "${value}"`);
+    }
+    seen.add(value);
+  });
+}
+
+/**
+ * Throws when a record points at a missing concept or variant, or at a
+ * variant of another concept than the one it names
+ */
+function checkReferences(db: DataDocument['db']): void {
+  const conceptIds = new Set(db.concepts.map((concept) => concept.id));
+  const variantConcepts = new Map(db.variants.map((variant) => [variant.id, variant.concept_id]));
+
+  const checkConcept = (conceptId: string, path: string): void => {
+    if (!conceptIds.has(conceptId)) {
+      invalid(`${path}.concept_id`, `refers to a missing concept "${conceptId}"`);
+    }
+  };
+  const checkVariant = (variantId: string, conceptId: string, path: string): void => {
+    const owner = variantConcepts.get(variantId);
+    if (owner === undefined) {
+      invalid(`${path}.variant_id`, `refers to a missing variant "${variantId}"`);
+    }
+    if (owner !== conceptId) {
+      invalid(`${path}.concept_id`, `does not match the concept of variant "${variantId}"`);
+    }
+  };
+
+  db.variants.forEach((variant, index) =>
+    checkConcept(variant.concept_id, `db.variants[${index}]`)
+  );
+  db.schedule.forEach((schedule, index) =>
+    checkVariant(schedule.variant_id, schedule.concept_id, `db.schedule[${index}]`)
+  );
+  db.concept_mastery.forEach((mastery, index) =>
+    checkConcept(mastery.concept_id, `db.concept_mastery[${index}]`)
+  );
+  db.events?.forEach((event, index) =>
+    checkVariant(event.variant_id, event.concept_id, `db.events[${index}]`)
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Reads and validates a JSON or YAML data document
+ *
+ * @param content - File contents; JSON is read as YAML, of which it is a subset
+ * @returns The document with defaults filled in and dimensions written as labels
+ * @throws ImportError INVALID_FILE naming the first invalid value, or
+ *   UNSUPPORTED_FORMAT for documents from a newer version of the app
+ */
+export function parseDataDocument(content: string): DataDocument {
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(content);
+  } catch (error) {
+    throw new ImportError('The file is not valid JSON or YAML', 'INVALID_FILE', {
+      cause: error instanceof Error ? error : new Error(String(error)),
+    });
+  }
+
+  const root = readObject(parsed, 'The document');
+  const version = readNumber(root, 'schema_version', 'The document', { min: 1, integer: true });
+  if (version > DATA_DOCUMENT_VERSION) {
+    throw new ImportError(
+      `The file uses schema version ${version}; update the app to import it`,
+      'UNSUPPORTED_FORMAT',
+      { context: { version } }
+    );
+  }
+
+  const db = readObject(root['db'], 'db');
+  const document: DataDocument = {
+    schema_version: version,
+    exported_at: readOptionalTimestamp(root, 'exported_at', 'The document'),
+    db: {
+      concepts: readTable(db, 'concepts', readConcept),
+      variants: readTable(db, 'variants', readVariant),
+      schedule: readTable(db, 'schedule', readSchedule),
+      mastery: readTable(db, 'mastery', readMastery),
+      concept_mastery: readTable(db, 'concept_mastery', readConceptMastery),
+      ...(!isAbsent(db, 'events') && { events: readTable(db, 'events', readEvent) }),
+    },
+  };
+
+  checkUnique(document.db.concepts, 'concepts', (concept) => concept.id);
+  checkUnique(document.db.concepts, 'concepts', (concept) => concept.name);
+  checkUnique(document.db.concepts, 'concepts', (concept) => concept.source_path);
+  checkUnique(document.db.variants, 'variants', (variant) => variant.id);
+  checkUnique(document.db.schedule, 'schedule', (schedule) => schedule.variant_id);
+  checkUnique(document.db.mastery, 'mastery', (mastery) => mastery.dimension);
+  checkUnique(
+    document.db.concept_mastery,
+    'concept_mastery',
+    (mastery) => `${mastery.concept_id} ${mastery.dimension}`
+  );
+  checkUnique(document.db.events ?? [], 'events', (event) => event.id);
+  checkReferences(document.db);
+
+  return document;
+}
+
+/**
+ * Writes a data document as JSON or YAML
+ *
+ * @param document - The document to write
+ * @param format - Output format
+ */
+export function serializeDataDocument(document: DataDocument, format: 'json' | 'yaml'): string {
+  return format === 'json'
+    ? `${JSON.stringify(document, null, 2)}\n`
+    : yaml.dump(document, { lineWidth: -1, noRefs: true });
+}
+
+/**
+ * Counts the records of a data document
+ *
+ * @param document - A parsed document
+ */
+export function countDataDocument(document: DataDocument): DataDocumentCounts {
+  return {
+    concepts: document.db.concepts.length,
+    variants: document.db.variants.length,
+    schedules: document.db.schedule.length,
+    mastery: document.db.mastery.length,
+    conceptMastery: document.db.concept_mastery.length,
+    events: document.db.events?.length ?? 0,
+  };
+}
+
+/**
+ * Maps a dimension label back to the stored dimension value
+ *
+ * @param label - A label from a parsed document
+ */
+export function dimensionFromLabel(label: string): DimensionType {
+  const dimension = Object.values(DimensionType).find((type) => DIMENSION_LABELS[type] === label);
+  if (dimension === undefined) {
+    throw new ImportError(`Unknown dimension "${label}"`, 'INVALID_FILE');
+  }
+  return dimension;
+}
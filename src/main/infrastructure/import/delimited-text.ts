@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Parser for comma-, tab- and semicolon-separated text
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Quoted cells with embedded separators, quotes and line breaks, CRLF and LF
+ *           line endings, byte order mark removal, separator detection from the first row
+ * Main APIs: parseDelimitedText, detectDelimiter, Delimiter
+ * Constraints: Pure functions; cells are not trimmed
+ * Patterns: Single-pass character scanner (RFC 4180 quoting)
+ */
+
+/**
+ * Cell separators the parser understands
+ */
+export type Delimiter = ',' | '\t' | ';';
+
+const DELIMITERS: readonly Delimiter[] = [',', '\t', ';'];
+
+/**
+ * Guesses the separator from the first row of the text
+ *
+ * The separator occurring most often outside quotes wins; commas win ties.
+ *
+ * @param text - The delimited text
+ * @returns The most likely separator
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const counts = new Map<Delimiter, number>(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char as Delimiter)) {
+      counts.set(char as Delimiter, (counts.get(char as Delimiter) ?? 0) + 1);
+    }
+  }
+
+  let best: Delimiter = ',';
+  for (const delimiter of DELIMITERS) {
+    if ((counts.get(delimiter) ?? 0) > (counts.get(best) ?? 0)) {
+      best = delimiter;
+    }
+  }
+  return best;
+}
+
+/**
+ * Splits delimited text into rows of cells
+ *
+ * A cell starting with a double quote runs to the matching closing quote
+ * and may contain separators and line breaks; a doubled quote inside it is
+ * a literal quote. Blank lines are kept as rows of one empty cell so row
+ * numbers match the lines of a spreadsheet, except a final line break.
+ *
+ * @param text - The delimited text
+ * @param delimiter - Cell separator
+ * @returns Rows of cell values
+ */
+export function parseDelimitedText(text: string, delimiter: Delimiter): string[][] {
+  const source = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = (): void => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r') {
+      // A CRLF row ends at its \n
+      if (source[i + 1] !== '\n') {
+        endRow();
+      }
+    } else if (char === '\n') {
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Error classes for reading files imported from other applications
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Typed import errors with context for invalid and unsupported files
+ * Main APIs: ImportError, ImportErrorCode
+ * Constraints: Messages are shown to the user, so they say what to do about the file
+ * Patterns: Error codes for programmatic error handling, same shape as DatabaseError
+ */
+
+/** Error codes for import operations */
+export type ImportErrorCode =
+  | 'INVALID_FILE'
+  | 'UNSUPPORTED_FORMAT';
+
+/**
+ * Error thrown when an imported file cannot be read
+ */
+export class ImportError extends Error {
+  readonly code: ImportErrorCode;
+  readonly cause: Error | undefined;
+  readonly context: Record<string, unknown> | undefined;
+
+  constructor(
+    message: string,
+    code: ImportErrorCode,
+    options?: { cause?: Error | undefined; context?: Record<string, unknown> | undefined }
+  ) {
+    super(message);
+    this.name = 'ImportError';
+    this.code = code;
+    this.cause = options?.cause;
+    this.context = options?.context;
+
+    // Maintains proper stack trace for where error was thrown
+    Error.captureStackTrace?.(this, ImportError);
+  }
+}
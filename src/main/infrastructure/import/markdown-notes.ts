@@ -0,0 +1,493 @@
+/**
+ * @fileoverview Reading Markdown and Obsidian notes as concepts, and planning a re-sync
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: YAML front matter, notes tagged "concept" as one concept each, other notes split
+ *           into one concept per heading, definition from the first paragraph, list items as
+ *           facts, Obsidian links, embeds, callouts and comments cleaned up
+ * Main APIs: readMarkdownNote, planMarkdownImport, splitFrontMatter, cleanInlineMarkdown,
+ *            MarkdownImportPlan, PlannedMarkdownConcept
+ * Constraints: Pure functions, no file or database calls; concepts are keyed by their source
+ *              path, the note's path plus "#Heading" for heading concepts
+ * Patterns: Notes in, plan out; the caller writes the plan in one transaction
+ */
+
+import yaml from 'js-yaml';
+
+import type { MarkdownConceptStatus } from '../../../shared/types/ipc';
+
+/** Heading level that starts a concept when the caller does not choose one */
+export const DEFAULT_HEADING_LEVEL = 2;
+
+/** Front matter tag, or type, that marks a whole note as one concept */
+const CONCEPT_TAG = 'concept';
+
+/**
+ * A Markdown file to import
+ */
+export interface MarkdownNote {
+  /** Path of the file, used as the source path of its concepts */
+  readonly path: string;
+  readonly content: string;
+}
+
+/**
+ * A concept read from a note
+ */
+export interface MarkdownConcept {
+  /** Note path, plus "#Heading" when the concept is a heading of the note */
+  readonly sourcePath: string;
+  readonly name: string;
+  readonly definition: string;
+  readonly facts: readonly string[];
+}
+
+/**
+ * A stored concept the plan compares notes against
+ */
+export interface ExistingMarkdownConcept {
+  readonly id: string;
+  readonly name: string;
+  readonly definition: string;
+  readonly facts: readonly string[];
+  readonly sourcePath?: string | undefined;
+}
+
+/**
+ * A concept of the vault and what importing it does
+ */
+export interface PlannedMarkdownConcept extends MarkdownConcept {
+  readonly status: MarkdownConceptStatus;
+  /** Id of the stored concept an update or unchanged concept is */
+  readonly conceptId: string | null;
+  /** Why the concept is skipped */
+  readonly reason: string | null;
+}
+
+/**
+ * A note that holds no concept
+ */
+export interface SkippedMarkdownNote {
+  readonly path: string;
+  readonly reason: string;
+}
+
+/**
+ * What a folder of notes imports as
+ */
+export interface MarkdownImportPlan {
+  readonly concepts: readonly PlannedMarkdownConcept[];
+  readonly skippedNotes: readonly SkippedMarkdownNote[];
+  /** Stored concepts imported from the folder whose note or heading is gone */
+  readonly missing: readonly ExistingMarkdownConcept[];
+}
+
+/**
+ * Options for planning an import
+ */
+export interface MarkdownPlanOptions {
+  /** Heading level, 1 to 6, that starts a concept in untagged notes */
+  readonly headingLevel: number;
+  /** All stored concepts */
+  readonly existing: readonly ExistingMarkdownConcept[];
+  /** Folder path the notes' paths start with, to find concepts whose note is gone */
+  readonly sourcePrefix: string;
+}
+
+// -----------------------------------------------------------------------------
+// Front Matter
+// -----------------------------------------------------------------------------
+
+/**
+ * Separates YAML front matter from the body of a note
+ *
+ * @param content - Note contents
+ * @returns The front matter fields, empty without front matter, and the body
+ * @throws Error when the front matter is not valid YAML
+ */
+export function splitFrontMatter(content: string): {
+  fields: Record<string, unknown>;
+  body: string;
+} {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (lines[0]?.trim() !== '---') {
+    return { fields: {}, body: lines.join('\n') };
+  }
+  const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  if (end === -1) {
+    return { fields: {}, body: lines.join('\n') };
+  }
+
+  const parsed = yaml.load(lines.slice(1, end).join('\n'));
+  const fields =
+    typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  return { fields, body: lines.slice(end + 1).join('\n') };
+}
+
+/**
+ * Reads a front matter field as a list of text values, ignoring anything else
+ */
+function readList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((item): item is string => typeof item === 'string')
+        .map((item) => item.trim())
+        .filter((item) => item !== '')
+    : [];
+}
+
+/**
+ * Reads a front matter tags field, a list or text separated by commas or spaces
+ */
+function readTags(value: unknown): string[] {
+  const tags = typeof value === 'string' ? value.split(/[,\s]+/) : readList(value);
+  return tags.map((tag) => tag.replace(/^#/, '').toLowerCase()).filter((tag) => tag !== '');
+}
+
+/**
+ * Reads a front matter field as trimmed text, or null when it is not text
+ */
+function readText(fields: Record<string, unknown>, key: string): string | null {
+  const value = fields[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/**
+ * Whether front matter marks the note as one concept, by tag or by type
+ */
+function isConceptNote(fields: Record<string, unknown>): boolean {
+  const tags = [...readTags(fields['tags']), ...readTags(fields['tag'])];
+  return (
+    tags.some((tag) => tag === CONCEPT_TAG || tag.startsWith(`${CONCEPT_TAG}/`)) ||
+    readText(fields, 'type')?.toLowerCase() === CONCEPT_TAG
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Body
+// -----------------------------------------------------------------------------
+
+/**
+ * A block of a note body
+ */
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'item'; text: string };
+
+/**
+ * Turns inline Markdown and Obsidian syntax into plain text
+ *
+ * Embeds and images are dropped, links keep their text, emphasis, highlights,
+ * code spans, comments and block ids are removed.
+ *
+ * @param text - One line or paragraph of Markdown
+ * @returns The text with whitespace collapsed
+ */
+export function cleanInlineMarkdown(text: string): string {
+  return text
+    .replace(/%%.*?%%/g, '')
+    .replace(/<!--.*?-->/g, '')
+    .replace(/!\[\[[^\]]*\]\]/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2')
+    .replace(/\[\[([^\]]*)\]\]/g, (_match, target: string) => {
+      const [page = '', ...headings] = target.split('#');
+      return page !== '' ? page : headings.join(' ').replace(/^\^/, '');
+    })
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__|~~|==)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(\S(?:.*?\S)?)\*(?!\w)/g, '$1$2')
+    .replace(/(^|[^\w])_(\S(?:.*?\S)?)_(?!\w)/g, '$1$2')
+    .replace(/\s\^[\w-]+\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Splits a note body into headings, paragraphs and list items
+ *
+ * Code blocks, tables, comments, callout titles and lines of only tags are
+ * left out; quoted lines are read as if unquoted. A line indented under a
+ * list item continues that item.
+ */
+function readBlocks(body: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let item: string[] | null = null;
+  let fence: string | null = null;
+  let inComment = false;
+
+  const flush = (): void => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'paragraph', text: paragraph.join(' ') });
+    }
+    if (item !== null) {
+      blocks.push({ kind: 'item', text: item.join(' ') });
+    }
+    paragraph = [];
+    item = null;
+  };
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    if (fence !== null) {
+      if (rawLine.trim().startsWith(fence)) {
+        fence = null;
+      }
+      continue;
+    }
+    if (inComment) {
+      inComment = !rawLine.includes('%%');
+      continue;
+    }
+    if (/^\s*%%/.test(rawLine) && rawLine.split('%%').length % 2 === 0) {
+      flush();
+      inComment = true;
+      continue;
+    }
+
+    const fenceMatch = /^\s*(```|~~~)/.exec(rawLine);
+    if (fenceMatch?.[1] !== undefined) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const line = rawLine.replace(/^(\s*>)+\s?/, '');
+    const heading = /^(#{1,6})\s+(.*?)(\s+#+)?\s*$/.exec(line);
+    const listItem = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.*)$/.exec(line);
+
+    if (line.trim() === '' || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+    } else if (heading?.[1] !== undefined) {
+      flush();
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] ?? '' });
+    } else if (listItem !== null) {
+      flush();
+      item = [listItem[1] ?? ''];
+    } else if (/^\s*\|/.test(line) || /^\s*\[!\w+\]/.test(line)) {
+      flush();
+    } else if (/^\s*(#[\w/-]+\s*)+$/.test(line)) {
+      continue;
+    } else if (item !== null && /^\s/.test(rawLine)) {
+      item.push(line.trim());
+    } else {
+      if (item !== null) {
+        flush();
+      }
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+
+  return blocks
+    .map((block) => ({ ...block, text: cleanInlineMarkdown(block.text) }))
+    .filter((block) => block.text !== '');
+}
+
+/**
+ * Takes the first paragraph as the definition and the list items as facts
+ */
+function readContent(blocks: readonly Block[]): { definition: string; facts: string[] } {
+  const paragraph = blocks.find((block) => block.kind === 'paragraph');
+  const facts = blocks.filter((block) => block.kind === 'item').map((block) => block.text);
+  return { definition: paragraph?.text ?? '', facts: [...new Set(facts)] };
+}
+
+/**
+ * Name of a note file without its folder and extension
+ */
+function fileTitle(path: string): string {
+  const name = path.split(/[\\/]/).pop() ?? path;
+  return name.replace(/\.(md|markdown)$/i, '');
+}
+
+/**
+ * Reads the concepts of one note
+ *
+ * A note tagged "concept" in its front matter (or with type: concept) is one
+ * concept: its name is the front matter title or name, the first top-level
+ * heading, or the file name; its definition the front matter definition or
+ * the first paragraph; its facts the front matter facts and all list items.
+ * Any other note holds one concept per heading of the given level, made of
+ * the text up to the next heading of that level or higher.
+ *
+ * @param note - Path and contents of the file
+ * @param headingLevel - Heading level that starts a concept in untagged notes
+ * @returns The concepts, or the reason the note has none
+ */
+export function readMarkdownNote(
+  note: MarkdownNote,
+  headingLevel: number
+): { concepts: MarkdownConcept[] } | { reason: string } {
+  let frontMatter: { fields: Record<string, unknown>; body: string };
+  try {
+    frontMatter = splitFrontMatter(note.content);
+  } catch {
+    return { reason: 'Its front matter is not valid YAML' };
+  }
+  const { fields, body } = frontMatter;
+  const blocks = readBlocks(body);
+
+  if (isConceptNote(fields)) {
+    const title = blocks.find((block) => block.kind === 'heading' && block.level === 1);
+    const content = readContent(blocks);
+    const name = readText(fields, 'title') ?? readText(fields, 'name') ?? title?.text;
+    return {
+      concepts: [
+        {
+          sourcePath: note.path,
+          name: cleanInlineMarkdown(name ?? fileTitle(note.path)),
+          definition: readText(fields, 'definition') ?? content.definition,
+          facts: [...new Set([...readList(fields['facts']), ...content.facts])],
+        },
+      ],
+    };
+  }
+
+  const concepts: MarkdownConcept[] = [];
+  blocks.forEach((block, index) => {
+    if (block.kind !== 'heading' || block.level !== headingLevel) {
+      return;
+    }
+    const end = blocks.findIndex(
+      (next, nextIndex) =>
+        nextIndex > index && next.kind === 'heading' && next.level <= headingLevel
+    );
+    const content = readContent(blocks.slice(index + 1, end === -1 ? undefined : end));
+    concepts.push({ sourcePath: `${note.path}#${block.text}`, name: block.text, ...content });
+  });
+
+  if (concepts.length === 0) {
+    return {
+      reason: `It has no "${CONCEPT_TAG}" tag and no level ${headingLevel} headings`,
+    };
+  }
+  return { concepts };
+}
+
+// -----------------------------------------------------------------------------
+// Plan
+// -----------------------------------------------------------------------------
+
+/**
+ * Whether a concept read from a note matches a stored concept
+ */
+function isSameContent(concept: MarkdownConcept, stored: ExistingMarkdownConcept): boolean {
+  return (
+    concept.name === stored.name &&
+    concept.definition === stored.definition &&
+    concept.facts.length === stored.facts.length &&
+    concept.facts.every((fact, index) => fact === stored.facts[index])
+  );
+}
+
+/**
+ * Plans importing a folder of notes
+ *
+ * A concept whose source path is stored is that concept, and is updated when
+ * its text changed. Otherwise a stored concept of the same name (ignoring
+ * case) that no note of the folder claims is taken over, so moved notes and
+ * concepts made by hand are linked instead of duplicated. Concepts whose name
+ * another concept already has are skipped.
+ *
+ * @param notes - The folder's Markdown files
+ * @param options - Heading level and the stored concepts
+ * @returns Every concept of the notes with its status, notes without concepts,
+ *   and stored concepts whose note or heading is gone
+ */
+export function planMarkdownImport(
+  notes: readonly MarkdownNote[],
+  options: MarkdownPlanOptions
+): MarkdownImportPlan {
+  const read: MarkdownConcept[] = [];
+  const skippedNotes: SkippedMarkdownNote[] = [];
+  for (const note of notes) {
+    const result = readMarkdownNote(note, options.headingLevel);
+    if ('reason' in result) {
+      skippedNotes.push({ path: note.path, reason: result.reason });
+    } else {
+      read.push(...result.concepts);
+    }
+  }
+
+  const bySource = new Map<string, ExistingMarkdownConcept>();
+  const byName = new Map<string, ExistingMarkdownConcept>();
+  for (const stored of options.existing) {
+    if (stored.sourcePath !== undefined) {
+      bySource.set(stored.sourcePath, stored);
+    }
+    byName.set(stored.name.toLowerCase(), stored);
+  }
+  const readSources = new Set(read.map((concept) => concept.sourcePath));
+  const claimed = new Set(
+    read.flatMap((concept) => {
+      const stored = bySource.get(concept.sourcePath);
+      return stored !== undefined ? [stored.id] : [];
+    })
+  );
+
+  // Names the import leaves in use, by concept id or by the source creating them
+  const namesInUse = new Map<string, string>();
+  for (const stored of options.existing) {
+    namesInUse.set(stored.name.toLowerCase(), stored.id);
+  }
+
+  const concepts = read.map((concept): PlannedMarkdownConcept => {
+    const skip = (reason: string): PlannedMarkdownConcept => ({
+      ...concept,
+      status: 'skip',
+      conceptId: null,
+      reason,
+    });
+    if (concept.name === '') {
+      return skip('It has no name');
+    }
+
+    const key = concept.name.toLowerCase();
+    const sameName = byName.get(key);
+    const stored =
+      bySource.get(concept.sourcePath) ??
+      (sameName !== undefined &&
+      !claimed.has(sameName.id) &&
+      (sameName.sourcePath === undefined || !readSources.has(sameName.sourcePath))
+        ? sameName
+        : undefined);
+
+    const owner = namesInUse.get(key);
+    if (owner !== undefined && owner !== stored?.id) {
+      const other = read.find((earlier) => earlier.sourcePath === owner);
+      return skip(
+        other !== undefined
+          ? `Its name is already used by ${other.sourcePath}`
+          : `A concept named "${sameName?.name ?? concept.name}" already exists`
+      );
+    }
+
+    if (stored === undefined) {
+      namesInUse.set(key, concept.sourcePath);
+      return { ...concept, status: 'create', conceptId: null, reason: null };
+    }
+    claimed.add(stored.id);
+    namesInUse.delete(stored.name.toLowerCase());
+    namesInUse.set(key, stored.id);
+    const unchanged = isSameContent(concept, stored) && stored.sourcePath === concept.sourcePath;
+    return {
+      ...concept,
+      status: unchanged ? 'unchanged' : 'update',
+      conceptId: stored.id,
+      reason: null,
+    };
+  });
+
+  const missing = options.existing.filter(
+    (stored) =>
+      stored.sourcePath?.startsWith(options.sourcePrefix) === true &&
+      !claimed.has(stored.id)
+  );
+
+  return { concepts, skippedNotes, missing };
+}
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Minimal reader for zip archives held in memory
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Central directory listing, stored and deflated entries
+ * Main APIs: readZipArchive, ZipArchive
+ * Constraints: No zip64, encryption or multi-disk archives; entries are inflated on demand
+ * Patterns: Node zlib for inflation, ImportError for malformed archives
+ */
+
+import { inflateRawSync } from 'zlib';
+
+import { ImportError } from './errors';
+
+/** End of central directory record signature ("PK\x05\x06") */
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+/** Central directory file header signature ("PK\x01\x02") */
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+
+/** Local file header signature ("PK\x03\x04") */
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Fixed size of the end of central directory record */
+const END_RECORD_SIZE = 22;
+
+/** Longest archive comment the end record may be followed by */
+const MAX_COMMENT_SIZE = 0xffff;
+
+/** Compression methods */
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * One file listed in the central directory
+ */
+interface ZipEntry {
+  readonly name: string;
+  readonly method: number;
+  readonly compressedSize: number;
+  readonly size: number;
+  readonly localHeaderOffset: number;
+}
+
+/**
+ * Files of a zip archive
+ */
+export interface ZipArchive {
+  /** Names of the files in the archive, in directory order */
+  readonly names: readonly string[];
+
+  /** Whether the archive has a file */
+  has(name: string): boolean;
+
+  /**
+   * Reads a file's contents
+   *
+   * @throws ImportError when the file is missing or cannot be decompressed
+   */
+  read(name: string): Buffer;
+}
+
+/**
+ * Builds the error for a malformed archive
+ */
+function invalid(reason: string): ImportError {
+  return new ImportError(`The file is not a valid zip archive: ${reason}`, 'INVALID_FILE');
+}
+
+/**
+ * Finds the end of central directory record, scanning back over any comment
+ */
+function findEndRecord(data: Buffer): number {
+  const earliest = Math.max(0, data.length - END_RECORD_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = data.length - END_RECORD_SIZE; offset >= earliest; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw invalid('end of central directory not found');
+}
+
+/**
+ * Reads the central directory entries
+ */
+function readEntries(data: Buffer): ZipEntry[] {
+  const end = findEndRecord(data);
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new ImportError('Zip64 archives are not supported', 'UNSUPPORTED_FORMAT');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw invalid('corrupt central directory');
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    if ((flags & 0x1) !== 0) {
+      throw new ImportError(`"${name}" is encrypted`, 'UNSUPPORTED_FORMAT');
+    }
+
+    entries.push({
+      name,
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      size: data.readUInt32LE(offset + 24),
+      localHeaderOffset: data.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Extracts one entry's contents
+ */
+function extract(data: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localHeaderOffset;
+  if (header + 30 > data.length || data.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw invalid(`missing local header for "${entry.name}"`);
+  }
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+  if (compressed.length !== entry.compressedSize) {
+    throw invalid(`"${entry.name}" is truncated`);
+  }
+
+  if (entry.method === STORED) {
+    return compressed;
+  }
+  if (entry.method !== DEFLATED) {
+    throw new ImportError(
+      `"${entry.name}" uses unsupported compression method ${entry.method}`,
+      'UNSUPPORTED_FORMAT'
+    );
+  }
+  let inflated: Buffer;
+  try {
+    inflated = inflateRawSync(compressed);
+  } catch (error) {
+    throw new ImportError(`"${entry.name}" could not be decompressed`, 'INVALID_FILE', {
+      cause: error instanceof Error ? error : new Error(String(error)),
+    });
+  }
+  if (inflated.length !== entry.size) {
+    throw invalid(`"${entry.name}" has the wrong size`);
+  }
+  return inflated;
+}
+
+/**
+ * Opens a zip archive held in memory
+ *
+ * @param data - The whole archive
+ * @returns The archive's files, decompressed when read
+ * @throws ImportError when the data is not a readable zip archive
+ */
+export function readZipArchive(data: Buffer): ZipArchive {
+  if (data.length < END_RECORD_SIZE) {
+    throw invalid('file is too short');
+  }
+  const entries = new Map(readEntries(data).map((entry) => [entry.name, entry]));
+
+  return {
+    names: [...entries.keys()],
+    has: (name) => entries.has(name),
+    read(name) {
+      const entry = entries.get(name);
+      if (entry === undefined) {
+        throw new ImportError(`The archive has no "${name}"`, 'INVALID_FILE');
+      }
+      return extract(data, entry);
+    },
+  };
+}
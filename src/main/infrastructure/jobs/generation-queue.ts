@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Persistent background queue for bulk LLM variant generation
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Concurrency limit, rate-limit pause honouring retryAfterMs, retry with backoff,
+ *   restart recovery, discarding results of jobs cancelled mid-run or stopped mid-run,
+ *   progress callbacks
+ * Main APIs: GenerationQueue (start, stop, wake, getStats), DEFAULT_JOB_CONCURRENCY
+ * Constraints: Jobs live in a GenerationJobStore; the queue holds only in-flight state.
+ *   Runs of a stopped queue never touch the store, so it may be closed right after stop()
+ * Patterns: Timer-driven pump, injected generate/save steps, Result type from LLM adapters
+ */
+
+import { LLMConfigurationError, LLMNotConfiguredError, LLMRateLimitError } from '../llm/errors';
+import { getBackoffDelay } from '../llm/retry';
+
+import type { GenerationJob, GenerationJobStore } from './types';
+import type { GeneratedVariant } from '../llm/types';
+
+/** Jobs run at the same time by default */
+export const DEFAULT_JOB_CONCURRENCY = 2;
+
+/** Attempts before a job that keeps failing is marked failed */
+const MAX_ATTEMPTS = 3;
+
+/** Attempts before a job that keeps hitting rate limits is marked failed */
+const MAX_RATE_LIMITED_ATTEMPTS = 10;
+
+/** Pause after a rate limit without a retry-after hint */
+const DEFAULT_RATE_LIMIT_WAIT_MS = 30000;
+
+/**
+ * Queue dependencies and limits
+ */
+export interface GenerationQueueOptions {
+  /** Job persistence */
+  readonly store: GenerationJobStore;
+
+  /** Runs the LLM call for a job; rejects with LLM errors on failure */
+  readonly generate: (job: GenerationJob) => Promise<GeneratedVariant[]>;
+
+  /** Saves the variants of a completed job; returns how many were saved */
+  readonly save: (job: GenerationJob, variants: readonly GeneratedVariant[]) => number;
+
+  /** Called whenever a job changes state */
+  readonly onProgress?: (job: GenerationJob) => void;
+
+  /** Maximum jobs running at once (default DEFAULT_JOB_CONCURRENCY) */
+  readonly concurrency?: number;
+}
+
+/**
+ * Runs queued generation jobs in the background
+ *
+ * Jobs are picked oldest first, up to the concurrency limit. A rate-limited
+ * job pauses the whole queue for the provider's retry-after time, since every
+ * job shares the same API key. Other failures are retried with exponential
+ * backoff; configuration errors fail the job at once.
+ *
+ * Stopping drops the outcome of jobs whose LLM call is still in flight. They
+ * stay marked running in the store, and the next start re-queues them.
+ */
+export class GenerationQueue {
+  private readonly store: GenerationJobStore;
+  private readonly generate: GenerationQueueOptions['generate'];
+  private readonly save: GenerationQueueOptions['save'];
+  private readonly onProgress: (job: GenerationJob) => void;
+  private readonly concurrency: number;
+
+  private readonly running = new Set<string>();
+  private readonly runs = new Set<Promise<void>>();
+  private stops = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pausedUntil = 0;
+  private started = false;
+
+  constructor(options: GenerationQueueOptions) {
+    this.store = options.store;
+    this.generate = options.generate;
+    this.save = options.save;
+    this.onProgress = options.onProgress ?? ((): void => undefined);
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_JOB_CONCURRENCY);
+  }
+
+  /**
+   * Starts processing, first re-queuing jobs interrupted by the last shutdown
+   *
+   * @returns Number of interrupted jobs that were re-queued
+   */
+  start(): number {
+    const recovered = this.store.requeueInterrupted();
+    this.started = true;
+    this.pump();
+    return recovered;
+  }
+
+  /**
+   * Stops picking up jobs and drops the outcome of running ones
+   *
+   * @returns Resolves once the LLM calls of the running jobs have settled
+   */
+  stop(): Promise<void> {
+    this.started = false;
+    this.stops++;
+    this.running.clear();
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    return Promise.all([...this.runs]).then(() => undefined);
+  }
+
+  /**
+   * Checks for runnable jobs, e.g. after new jobs were queued
+   */
+  wake(): void {
+    this.pump();
+  }
+
+  /**
+   * Reports in-flight state for display
+   */
+  getStats(): { running: number; pausedUntil: Date | null } {
+    return {
+      running: this.running.size,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil) : null,
+    };
+  }
+
+  /**
+   * Starts as many runnable jobs as the concurrency limit allows,
+   * or sets a timer for the next one that becomes runnable
+   */
+  private pump(): void {
+    if (!this.started) return;
+
+    const now = Date.now();
+    if (this.pausedUntil > now) {
+      this.schedule(this.pausedUntil - now);
+      return;
+    }
+
+    const free = this.concurrency - this.running.size;
+    if (free > 0) {
+      for (const job of this.store.findRunnable(new Date(now), free)) {
+        const started = this.store.markRunning(job.id);
+        if (started === null) continue;
+        this.running.add(started.id);
+        this.onProgress(started);
+        const run = this.run(started).finally(() => this.runs.delete(run));
+        this.runs.add(run);
+      }
+    }
+
+    const nextRunAt = this.store.findNextRunAt();
+    if (nextRunAt !== null && this.running.size < this.concurrency) {
+      this.schedule(nextRunAt.getTime() - now);
+    }
+  }
+
+  /**
+   * Sets the wake-up timer, replacing any earlier one
+   */
+  private schedule(delayMs: number): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, Math.max(delayMs, 0));
+  }
+
+  /**
+   * Runs one job and records the outcome, unless the queue was stopped meanwhile
+   */
+  private async run(job: GenerationJob): Promise<void> {
+    const stops = this.stops;
+    const isStopped = (): boolean => this.stops !== stops;
+
+    try {
+      const variants = await this.generate(job);
+
+      // Discard results of a job cancelled while its LLM call was in flight
+      if (isStopped() || this.store.findById(job.id)?.status !== 'running') return;
+
+      const created = this.save(job, variants);
+      this.report(this.store.markCompleted(job.id, created));
+    } catch (error) {
+      if (!isStopped()) {
+        this.handleFailure(job, error);
+      }
+    } finally {
+      if (!isStopped()) {
+        this.running.delete(job.id);
+        this.pump();
+      }
+    }
+  }
+
+  /**
+   * Fails, retries or pauses after a job error
+   */
+  private handleFailure(job: GenerationJob, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof LLMNotConfiguredError || error instanceof LLMConfigurationError) {
+      this.report(this.store.markFailed(job.id, message));
+      return;
+    }
+
+    if (error instanceof LLMRateLimitError) {
+      // Fall back to the default wait when the hint is missing or not a number
+      const { retryAfterMs } = error;
+      const waitMs =
+        retryAfterMs !== undefined && Number.isFinite(retryAfterMs)
+          ? retryAfterMs
+          : DEFAULT_RATE_LIMIT_WAIT_MS;
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + waitMs);
+
+      if (job.attempts >= MAX_RATE_LIMITED_ATTEMPTS) {
+        this.report(this.store.markFailed(job.id, message));
+      } else {
+        this.report(this.store.requeue(job.id, new Date(this.pausedUntil), message));
+      }
+      return;
+    }
+
+    if (job.attempts >= MAX_ATTEMPTS) {
+      this.report(this.store.markFailed(job.id, message));
+      return;
+    }
+    const retryAt = new Date(Date.now() + getBackoffDelay(job.attempts - 1, 5000));
+    this.report(this.store.requeue(job.id, retryAt, message));
+  }
+
+  /**
+   * Passes a job to the progress callback if the transition applied
+   */
+  private report(job: GenerationJob | null): void {
+    if (job !== null) {
+      this.onProgress(job);
+    }
+  }
+}
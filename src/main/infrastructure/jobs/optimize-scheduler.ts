@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Fits scheduler parameters in a worker thread
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Coordinate descent over the full review history without blocking
+ *   the main process, so windows stay responsive on large histories
+ * Main APIs: optimizeSchedulerInWorker()
+ * Constraints: Input and result must survive structured cloning (Dates do)
+ * Patterns: electron-vite ?nodeWorker import, promise settled by the first worker event
+ */
+
+// The ?nodeWorker suffix is resolved by electron-vite, not by the import plugin
+// eslint-disable-next-line import/default
+import createOptimizerWorker from './optimize-scheduler.worker?nodeWorker';
+
+import type {
+  SchedulerOptimizationResult,
+} from '../../../domain/services/scheduler-optimizer.service';
+import type { SchedulerParameters } from '../../../domain/services/scheduler.service';
+import type { ReviewEvent, SchedulerAlgorithm } from '../../../shared/types/core';
+
+/**
+ * Data handed to the optimizer worker
+ */
+export interface OptimizeSchedulerInput {
+  readonly algorithm: SchedulerAlgorithm;
+  readonly events: readonly ReviewEvent[];
+  readonly parameters: SchedulerParameters;
+}
+
+/**
+ * Runs optimizeSchedulerParameters() in a worker thread
+ *
+ * @param input - Algorithm, review history and the parameters in use
+ * @returns The optimization result
+ * @throws Error if the worker fails or exits without a result
+ */
+export function optimizeSchedulerInWorker(
+  input: OptimizeSchedulerInput
+): Promise<SchedulerOptimizationResult> {
+  return new Promise((resolve, reject) => {
+    const worker = createOptimizerWorker({ workerData: input });
+
+    worker.once('message', (result: SchedulerOptimizationResult) => {
+      resolve(result);
+    });
+    worker.once('error', reject);
+    worker.once('exit', (code) => {
+      // Settling twice is a no-op, so this only fires for a worker that died silently
+      reject(new Error(`Scheduler optimizer stopped with exit code ${code}`));
+    });
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * @fileoverview Worker thread entry point that fits scheduler parameters
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Runs optimizeSchedulerParameters() off the main process thread
+ * Main APIs: none (receives OptimizeSchedulerInput as workerData, posts the result)
+ * Constraints: No database or Electron access; events arrive by structured clone
+ * Patterns: One worker per optimization, exits after posting the result
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+
+import { optimizeSchedulerParameters } from '../../../domain/services/scheduler-optimizer.service';
+
+import type { OptimizeSchedulerInput } from './optimize-scheduler';
+
+const input = workerData as OptimizeSchedulerInput;
+
+parentPort?.postMessage(
+  optimizeSchedulerParameters(input.algorithm, input.events, input.parameters)
+);
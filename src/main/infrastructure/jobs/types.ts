@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Types for the background variant generation queue
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Generation job entity, persistence port used by the queue
+ * Main APIs: GenerationJob, NewGenerationJob, GenerationJobStore
+ * Constraints: Dimensions use the LLM/IPC naming ('definition', 'cloze', ...)
+ * Patterns: Hexagonal architecture port, implemented by GenerationJobRepository
+ */
+
+import type { ConceptId } from '../../../shared/types/branded';
+import type { Dimension, GenerationJobStatus } from '../../../shared/types/ipc';
+import type { DifficultyLevel } from '../llm/types';
+
+/**
+ * One LLM generation call: `count` variants for a concept, dimension and difficulty
+ */
+export interface GenerationJob {
+  readonly id: string;
+  readonly conceptId: ConceptId;
+  readonly dimension: Dimension;
+  readonly difficulty: DifficultyLevel;
+  readonly count: number;
+  readonly status: GenerationJobStatus;
+
+  /** Number of times the job has started running */
+  readonly attempts: number;
+
+  /** The job is not picked up before this time (retry and rate-limit waits) */
+  readonly runAfter: Date;
+
+  /** Message of the most recent failure */
+  readonly error: string | null;
+
+  /** Variants saved when the job completed */
+  readonly variantsCreated: number;
+
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Data needed to queue a job
+ */
+export type NewGenerationJob = Pick<GenerationJob, 'conceptId' | 'dimension' | 'difficulty' | 'count'>;
+
+/**
+ * Persistence operations the queue relies on
+ *
+ * State transitions only apply to jobs in the expected state, so a job
+ * cancelled while running is not later marked completed.
+ */
+export interface GenerationJobStore {
+  /** Queued jobs whose runAfter has passed, oldest first */
+  findRunnable(now: Date, limit: number): GenerationJob[];
+
+  /** Earliest runAfter among queued jobs, or null if none are queued */
+  findNextRunAt(): Date | null;
+
+  findById(id: string): GenerationJob | null;
+
+  /** queued -> running, counting an attempt */
+  markRunning(id: string): GenerationJob | null;
+
+  /** running -> completed */
+  markCompleted(id: string, variantsCreated: number): GenerationJob | null;
+
+  /** running -> failed */
+  markFailed(id: string, error: string): GenerationJob | null;
+
+  /** running -> queued, not to run before runAfter */
+  requeue(id: string, runAfter: Date, error: string): GenerationJob | null;
+
+  /** Returns jobs left running by a previous process to the queue; returns how many */
+  requeueInterrupted(): number;
+}
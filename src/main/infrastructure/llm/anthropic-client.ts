@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Shared Anthropic Messages API access for the generator and evaluator
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Client construction with API key validation, text completion with usage logging,
+ *           SDK error mapping
+ * Main APIs: createAnthropicClient, completeWithAnthropic, ANTHROPIC_DEFAULT_MODEL
+ * Constraints: Requires ANTHROPIC_API_KEY environment variable or explicit config;
+ *              the Messages API has no JSON mode, so callers extract JSON from text
+ * Patterns: Hexagonal architecture (driven adapter support), errors mapped to LLMError types
+ */
+
+import { Anthropic } from '@anthropic-ai/sdk';
+
+import {
+  LLMAPIError,
+  LLMConfigurationError,
+  LLMRateLimitError,
+} from './errors';
+import { parseRetryAfter } from './retry';
+import { UNMETERED_USAGE } from './usage';
+
+import type { LLMConfig } from './types';
+import type { LLMUsageMeter } from './usage';
+import type { LLMUsageFeature } from '../../../shared/types/ipc';
+
+/** Default Anthropic model when none is configured */
+export const ANTHROPIC_DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+
+/**
+ * Parameters for a single-turn completion
+ */
+export interface AnthropicCompletionRequest {
+  readonly feature: LLMUsageFeature;
+  readonly model: string;
+  readonly system: string;
+  readonly prompt: string;
+  readonly temperature: number;
+  readonly maxTokens: number;
+  readonly timeoutMs: number;
+}
+
+/**
+ * Creates an Anthropic client from configuration
+ *
+ * Retries are disabled in the SDK so our own backoff is the only retry layer.
+ *
+ * @param config - Provider configuration
+ * @param purpose - Used in the missing-key message ('generation' or 'evaluation')
+ * @throws LLMConfigurationError if no API key is configured
+ */
+export function createAnthropicClient(config: LLMConfig, purpose: string): Anthropic {
+  const apiKey = config.apiKey ?? process.env.ANTHROPIC_API_KEY ?? '';
+
+  if (apiKey === '') {
+    throw new LLMConfigurationError(
+      `Anthropic API key required for ${purpose}. Set ANTHROPIC_API_KEY environment variable or provide apiKey in config.`,
+      ['apiKey']
+    );
+  }
+
+  return new Anthropic({
+    apiKey,
+    baseURL: config.baseUrl ?? null,
+    timeout: config.timeoutMs ?? 30000,
+    maxRetries: 0,
+  });
+}
+
+/**
+ * Sends a single user message and returns the text of the reply
+ *
+ * @param client - Client from createAnthropicClient
+ * @param request - Model, prompts and sampling settings
+ * @param usage - Meter that logs the call and enforces the budget
+ * @throws LLMRateLimitError, LLMConfigurationError, LLMBudgetExceededError or LLMAPIError
+ */
+export async function completeWithAnthropic(
+  client: Anthropic,
+  request: AnthropicCompletionRequest,
+  usage: LLMUsageMeter = UNMETERED_USAGE
+): Promise<string> {
+  try {
+    const call = { provider: 'anthropic', model: request.model, feature: request.feature } as const;
+    const message = await usage.track(call, async () => {
+      const response = await client.messages.create({
+        model: request.model,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      });
+      const tokens = {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+      };
+      return { value: response, usage: tokens };
+    });
+
+    const content = message.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('')
+      .trim();
+
+    if (content === '') {
+      throw new LLMAPIError('Empty response from Anthropic', 'anthropic', {
+        context: { messageId: message.id, stopReason: message.stop_reason },
+      });
+    }
+
+    return content;
+  } catch (error) {
+    return handleAnthropicError(error, request.timeoutMs);
+  }
+}
+
+/**
+ * Converts Anthropic SDK errors to our custom error types
+ */
+function handleAnthropicError(error: unknown, timeoutMs: number): never {
+  if (error instanceof Anthropic.APIConnectionTimeoutError) {
+    throw new LLMAPIError(`Request timed out after ${timeoutMs}ms`, 'anthropic', {
+      cause: error,
+    });
+  }
+
+  if (error instanceof Anthropic.APIError) {
+    // Rate limiting (429) and overload (529) both carry retry-after hints
+    if (error.status === 429 || error.status === 529) {
+      const headers = error.headers as Record<string, string | null | undefined> | undefined;
+      const retryAfterMs = parseRetryAfter(headers?.['retry-after']);
+
+      throw new LLMRateLimitError(`Rate limited by Anthropic: ${error.message}`, {
+        cause: error,
+        retryAfterMs,
+      });
+    }
+
+    // Authentication errors
+    if (error.status === 401 || error.status === 403) {
+      throw new LLMConfigurationError(`Authentication failed: ${error.message}`, [
+        'apiKey',
+      ], { cause: error });
+    }
+
+    // Other API errors
+    const statusCode = typeof error.status === 'number' ? error.status : undefined;
+    throw new LLMAPIError(error.message, 'anthropic', {
+      cause: error,
+      statusCode,
+    });
+  }
+
+  // Re-throw unknown errors (including our own LLM errors)
+  throw error instanceof Error ? error : new Error(String(error));
+}
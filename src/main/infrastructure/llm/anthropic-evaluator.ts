@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Anthropic-based response evaluator for open-ended questions
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Response evaluation, rubric-based scoring, confidence estimation
+ * Main APIs: AnthropicEvaluator, createAnthropicEvaluator
+ * Constraints: Requires Anthropic API key
+ * Patterns: Hexagonal architecture adapter, Result type for error handling
+ */
+
+import {
+  ANTHROPIC_DEFAULT_MODEL,
+  completeWithAnthropic,
+  createAnthropicClient,
+} from './anthropic-client';
+import { buildEvaluationPrompt, EVALUATION_SYSTEM_PROMPT } from './evaluation-prompts';
+import { parseEvaluationResponse } from './evaluator';
+import { withRetry } from './retry';
+import { UNMETERED_USAGE } from './usage';
+
+import type { LLMEvaluator } from './evaluator';
+import type { LLMConfig, LLMResult } from './types';
+import type { LLMUsageMeter } from './usage';
+import type { EvaluationRequest, LLMEvaluationResult } from '../../../shared/types/ipc';
+import type { Anthropic } from '@anthropic-ai/sdk';
+
+/**
+ * Anthropic-based response evaluator
+ *
+ * Implements the LLMEvaluator interface using Anthropic's Messages API.
+ * Uses lower temperature (0.3) for more consistent evaluation.
+ */
+export class AnthropicEvaluator implements LLMEvaluator {
+  private readonly client: Anthropic;
+  private readonly model: string;
+  private readonly maxRetries: number;
+  private readonly timeoutMs: number;
+  private readonly usage: LLMUsageMeter;
+
+  constructor(config: LLMConfig) {
+    this.client = createAnthropicClient(config, 'evaluation');
+    this.model = config.model;
+    this.maxRetries = config.maxRetries ?? 2;
+    this.timeoutMs = config.timeoutMs ?? 30000;
+    this.usage = config.usage ?? UNMETERED_USAGE;
+  }
+
+  /**
+   * Evaluates a user's response using Anthropic's API
+   */
+  async evaluateResponse(
+    request: EvaluationRequest
+  ): Promise<LLMResult<LLMEvaluationResult>> {
+    const prompt = buildEvaluationPrompt(
+      request.question,
+      request.modelAnswer,
+      request.userResponse,
+      request.conceptName,
+      request.dimension,
+      request.rubric
+    );
+
+    return withRetry(
+      async () => {
+        const content = await completeWithAnthropic(this.client, {
+          feature: 'evaluation',
+          model: this.model,
+          system: EVALUATION_SYSTEM_PROMPT,
+          prompt,
+          temperature: 0.3, // Lower temperature for more consistent evaluation
+          maxTokens: 1024,
+          timeoutMs: this.timeoutMs,
+        }, this.usage);
+        return parseEvaluationResponse(content);
+      },
+      this.maxRetries,
+      'Evaluation failed after retries'
+    );
+  }
+}
+
+/**
+ * Creates an Anthropic evaluator with optional configuration
+ *
+ * @param config - Optional partial configuration (defaults will be applied)
+ * @returns Configured AnthropicEvaluator instance
+ */
+export function createAnthropicEvaluator(config?: Partial<LLMConfig>): AnthropicEvaluator {
+  // Use conditional spreading to avoid exactOptionalPropertyTypes violations
+  return new AnthropicEvaluator({
+    provider: 'anthropic',
+    model: config?.model ?? ANTHROPIC_DEFAULT_MODEL,
+    timeoutMs: config?.timeoutMs ?? 30000,
+    maxRetries: config?.maxRetries ?? 2,
+    ...(config?.apiKey !== undefined && { apiKey: config.apiKey }),
+    ...(config?.baseUrl !== undefined && { baseUrl: config.baseUrl }),
+    ...(config?.usage !== undefined && { usage: config.usage }),
+  });
+}
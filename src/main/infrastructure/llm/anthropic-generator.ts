@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Anthropic adapter implementation for LLM-based flashcard generation
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Anthropic Messages API integration, retry logic, response validation, error handling,
+ *           ranked distractor generation
+ * Main APIs: AnthropicGenerator, createAnthropicGenerator
+ * Constraints: Requires ANTHROPIC_API_KEY environment variable or explicit config
+ * Patterns: Hexagonal architecture (driven adapter), Result type for error handling
+ */
+
+import {
+  ANTHROPIC_DEFAULT_MODEL,
+  completeWithAnthropic,
+  createAnthropicClient,
+} from './anthropic-client';
+import { LLMAPIError, LLMValidationError } from './errors';
+import { parseDistractorResponse, parseVariantResponse } from './generator';
+import {
+  buildDistractorPrompt,
+  buildPrompt,
+  DISTRACTOR_SYSTEM_PROMPT,
+  SYSTEM_PROMPT,
+} from './prompts';
+import { withRetry } from './retry';
+import { UNMETERED_USAGE } from './usage';
+
+import type {
+  Distractor,
+  DistractorRequest,
+  GeneratedVariant,
+  GenerationRequest,
+  LLMConfig,
+  LLMGateway,
+  LLMResult,
+} from './types';
+import type { LLMUsageMeter } from './usage';
+import type { Anthropic } from '@anthropic-ai/sdk';
+
+/**
+ * Anthropic adapter for the LLM Gateway
+ *
+ * Implements the LLMGateway interface using Anthropic's Messages API.
+ * Uses the same retry policy and response validation as the OpenAI adapter.
+ */
+export class AnthropicGenerator implements LLMGateway {
+  private readonly client: Anthropic;
+  private readonly model: string;
+  private readonly maxRetries: number;
+  private readonly timeoutMs: number;
+  private readonly usage: LLMUsageMeter;
+
+  constructor(config: LLMConfig) {
+    this.client = createAnthropicClient(config, 'generation');
+    this.model = config.model;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.timeoutMs = config.timeoutMs ?? 30000;
+    this.usage = config.usage ?? UNMETERED_USAGE;
+  }
+
+  /**
+   * Generates card variants using Anthropic's API
+   */
+  async generateVariants(
+    request: GenerationRequest
+  ): Promise<LLMResult<GeneratedVariant[]>> {
+    const { concept, dimension, difficulty, count } = request;
+    const userPrompt = buildPrompt(concept, dimension, difficulty, count);
+
+    return withRetry(
+      async () => {
+        const response = await completeWithAnthropic(this.client, {
+          feature: 'generation',
+          model: this.model,
+          system: SYSTEM_PROMPT,
+          prompt: userPrompt,
+          temperature: 0.7,
+          maxTokens: 2048,
+          timeoutMs: this.timeoutMs,
+        }, this.usage);
+        const variants = parseVariantResponse(response, dimension, difficulty);
+
+        if (variants.length === 0) {
+          throw new LLMValidationError(
+            'No valid variants generated',
+            { rawResponse: response }
+          );
+        }
+
+        return variants;
+      },
+      this.maxRetries,
+      'Generation failed after retries'
+    );
+  }
+
+  /**
+   * Generates ranked wrong answer options using Anthropic's API
+   */
+  async generateDistractors(
+    request: DistractorRequest
+  ): Promise<LLMResult<Distractor[]>> {
+    const userPrompt = buildDistractorPrompt(request);
+
+    return withRetry(
+      async () => {
+        const response = await completeWithAnthropic(this.client, {
+          feature: 'generation',
+          model: this.model,
+          system: DISTRACTOR_SYSTEM_PROMPT,
+          prompt: userPrompt,
+          temperature: 0.7,
+          maxTokens: 1024,
+          timeoutMs: this.timeoutMs,
+        }, this.usage);
+        const distractors = parseDistractorResponse(response, request);
+
+        if (distractors.length === 0) {
+          throw new LLMValidationError(
+            'No valid distractors generated',
+            { rawResponse: response }
+          );
+        }
+
+        return distractors;
+      },
+      this.maxRetries,
+      'Distractor generation failed after retries'
+    );
+  }
+
+  /**
+   * Tests the connection to Anthropic's API
+   */
+  async healthCheck(): Promise<LLMResult<boolean>> {
+    try {
+      await this.client.models.retrieve(this.model);
+      return { success: true, value: true };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      return {
+        success: false,
+        error: new LLMAPIError(
+          `Health check failed: ${err.message}`,
+          'anthropic',
+          { cause: err }
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Factory function to create an Anthropic generator with defaults
+ *
+ * @param config - Optional partial configuration (defaults will be applied)
+ * @returns Configured AnthropicGenerator instance
+ */
+export function createAnthropicGenerator(
+  config?: Partial<LLMConfig>
+): AnthropicGenerator {
+  // Use conditional spreading to avoid exactOptionalPropertyTypes violations
+  return new AnthropicGenerator({
+    provider: 'anthropic',
+    model: config?.model ?? ANTHROPIC_DEFAULT_MODEL,
+    timeoutMs: config?.timeoutMs ?? 30000,
+    maxRetries: config?.maxRetries ?? 3,
+    ...(config?.apiKey !== undefined && { apiKey: config.apiKey }),
+    ...(config?.baseUrl !== undefined && { baseUrl: config.baseUrl }),
+    ...(config?.usage !== undefined && { usage: config.usage }),
+  });
+}
@@ -1,9 +1,10 @@
 /**
  * @fileoverview Custom error classes for LLM operations
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
  * Features: Typed LLM errors with context, rate limiting, API errors, validation errors
- * Main APIs: LLMError, LLMRateLimitError, LLMAPIError, LLMValidationError
+ * Main APIs: LLMError, LLMRateLimitError, LLMAPIError, LLMValidationError, LLMNotConfiguredError,
+ *            LLMBudgetExceededError
  * Constraints: All errors extend base LLMError for consistent handling
  * Patterns: Error codes for programmatic error handling, retry metadata for rate limits
  */
@@ -17,7 +18,9 @@ export type LLMErrorCode =
   | 'VALIDATION_FAILED'
   | 'TIMEOUT'
   | 'NETWORK_ERROR'
-  | 'CONFIGURATION_ERROR';
+  | 'CONFIGURATION_ERROR'
+  | 'NOT_CONFIGURED'
+  | 'BUDGET_EXCEEDED';
 
 /**
  * Base LLM error with structured context
@@ -133,3 +136,36 @@ export class LLMConfigurationError extends LLMError {
     this.missingFields = missingFields;
   }
 }
+
+/**
+ * Error thrown when LLM features are used before the user has configured them
+ */
+export class LLMNotConfiguredError extends LLMError {
+  readonly missingFields: string[];
+
+  constructor(message: string, missingFields: string[]) {
+    super(message, 'NOT_CONFIGURED', { context: { missingFields } });
+    this.name = 'LLMNotConfiguredError';
+    this.missingFields = missingFields;
+  }
+}
+
+/**
+ * Error thrown when a call would exceed the monthly LLM budget
+ */
+export class LLMBudgetExceededError extends LLMError {
+  readonly budgetUsd: number;
+  readonly spentUsd: number;
+
+  constructor(budgetUsd: number, spentUsd: number) {
+    super(
+      `The monthly LLM budget of $${budgetUsd.toFixed(2)} has been used ` +
+        `($${spentUsd.toFixed(2)} spent). Raise it in Settings or wait until next month.`,
+      'BUDGET_EXCEEDED',
+      { context: { budgetUsd, spentUsd } }
+    );
+    this.name = 'LLMBudgetExceededError';
+    this.budgetUsd = budgetUsd;
+    this.spentUsd = spentUsd;
+  }
+}
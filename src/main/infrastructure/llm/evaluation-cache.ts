@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Cache for LLM evaluations of open responses
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Hashed cache keys per evaluation input and evaluator identity, caching
+ *           evaluator decorator with hit/miss counts
+ * Main APIs: evaluationCacheKey, CachingEvaluator, EvaluationCacheStore, EvaluatorIdentity
+ * Constraints: Only successful evaluations are cached; cache failures never fail an evaluation
+ * Patterns: Decorator over the LLMEvaluator port, persistence port implemented by
+ *           EvaluationCacheRepository
+ */
+
+import { createHash } from 'crypto';
+
+import type { LLMEvaluator } from './evaluator';
+import type { LLMResult } from './types';
+import type {
+  EvaluationRequest,
+  LLMConfigDTO,
+  LLMEvaluationResult,
+} from '../../../shared/types/ipc';
+
+/**
+ * The provider, model and prompt version that produced an evaluation
+ */
+export interface EvaluatorIdentity {
+  readonly provider: LLMConfigDTO['provider'];
+  readonly model: string;
+  readonly promptVersion: string;
+}
+
+/**
+ * Persistence operations the caching evaluator relies on
+ */
+export interface EvaluationCacheStore {
+  /** Cached result for a key, or null on a miss */
+  find(key: string): LLMEvaluationResult | null;
+
+  /** Stores a result, replacing any entry with the same key */
+  save(key: string, identity: EvaluatorIdentity, result: LLMEvaluationResult): void;
+}
+
+/**
+ * Cache hits and misses of a caching evaluator
+ */
+export interface EvaluationCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Computes the cache key for an evaluation
+ *
+ * Hashes every input that reaches the prompt (question, model answer,
+ * rubric, response, concept name and dimension) together with the
+ * evaluator identity, so a different model or prompt version never reuses
+ * another's score. Whitespace and case are kept: they can change a score.
+ *
+ * @param request - The evaluation request
+ * @param identity - Provider, model and prompt version doing the evaluation
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function evaluationCacheKey(
+  request: EvaluationRequest,
+  identity: EvaluatorIdentity
+): string {
+  // Arrays fix the field order, so equal inputs always serialize the same way
+  const rubric =
+    request.rubric !== undefined
+      ? [
+          request.rubric.keyPoints,
+          request.rubric.acceptableVariations ?? null,
+          request.rubric.partialCreditCriteria ?? null,
+        ]
+      : null;
+  const payload = JSON.stringify([
+    identity.provider,
+    identity.model,
+    identity.promptVersion,
+    request.question,
+    request.modelAnswer,
+    rubric,
+    request.userResponse,
+    request.conceptName,
+    request.dimension,
+  ]);
+
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Evaluator that answers repeated requests from a cache
+ *
+ * Identical requests to the same model and prompt version are served from
+ * the store without calling the LLM, so they are free and work offline.
+ * Failed evaluations are not cached and are retried on the next request.
+ */
+export class CachingEvaluator implements LLMEvaluator {
+  private readonly stats: EvaluationCacheStats = { hits: 0, misses: 0 };
+
+  constructor(
+    private readonly inner: LLMEvaluator,
+    private readonly store: EvaluationCacheStore,
+    readonly identity: EvaluatorIdentity
+  ) {}
+
+  async evaluateResponse(request: EvaluationRequest): Promise<LLMResult<LLMEvaluationResult>> {
+    const key = evaluationCacheKey(request, this.identity);
+
+    const cached = this.tryFind(key);
+    if (cached !== null) {
+      this.stats.hits++;
+      return { success: true, value: cached };
+    }
+
+    this.stats.misses++;
+    const result = await this.inner.evaluateResponse(request);
+    if (result.success) {
+      try {
+        this.store.save(key, this.identity, result.value);
+      } catch (error) {
+        console.warn('Failed to cache LLM evaluation:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the hits and misses since this evaluator was created
+   */
+  getStats(): EvaluationCacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Looks up a key, treating an unreadable cache as a miss
+   */
+  private tryFind(key: string): LLMEvaluationResult | null {
+    try {
+      return this.store.find(key);
+    } catch (error) {
+      console.warn('Failed to read LLM evaluation cache:', error);
+      return null;
+    }
+  }
+}
@@ -1,15 +1,25 @@
 /**
  * @fileoverview Prompt templates for LLM-based response evaluation
- * @lastmodified 2026-01-20T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Evaluation prompt construction, rubric integration, dimension context
- * Main APIs: buildEvaluationPrompt, EVALUATION_SYSTEM_PROMPT
+ * Features: Evaluation prompt construction, rubric integration, dimension context,
+ *           prompt versioning for cached evaluations
+ * Main APIs: buildEvaluationPrompt, EVALUATION_SYSTEM_PROMPT, EVALUATION_PROMPT_VERSION
  * Constraints: Prompts must produce valid JSON output
  * Patterns: Template composition, dimension-specific context
  */
 
 import type { Dimension, EvaluationRubric } from '../../../shared/types/ipc';
 
+/**
+ * Version of the evaluation prompts
+ *
+ * Part of every evaluation cache key. Bump it whenever the system prompt or
+ * buildEvaluationPrompt changes, so cached scores from the old wording are
+ * no longer reused.
+ */
+export const EVALUATION_PROMPT_VERSION = 'v1';
+
 /**
  * System prompt for the LLM evaluator
  *
@@ -1,9 +1,9 @@
 /**
  * @fileoverview LLM-based response evaluator for open-ended questions
- * @lastmodified 2026-01-20T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
  * Features: Response evaluation, rubric-based scoring, confidence estimation
- * Main APIs: OpenAIEvaluator, createEvaluatorFromEnv
+ * Main APIs: OpenAIEvaluator, createOpenAIEvaluator, parseEvaluationResponse
  * Constraints: Requires OpenAI API key
  * Patterns: Hexagonal architecture adapter, Result type for error handling
  */
@@ -17,8 +17,12 @@ import {
   LLMValidationError,
 } from './errors';
 import { buildEvaluationPrompt, EVALUATION_SYSTEM_PROMPT } from './evaluation-prompts';
+import { extractJsonObject } from './prompts';
+import { parseRetryAfter, withRetry } from './retry';
+import { toTokenUsage, UNMETERED_USAGE } from './usage';
 
 import type { LLMConfig, LLMResult } from './types';
+import type { LLMUsageMeter } from './usage';
 import type {
   EvaluationRequest,
   LLMEvaluationResult,
@@ -41,19 +45,76 @@ export interface LLMEvaluator {
 }
 
 /**
- * Delays execution for a specified duration
+ * Maps a numeric score to a Rating value
  */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function scoreToRating(score: number): Rating {
+  if (score >= 0.9) return 'easy';
+  if (score >= 0.7) return 'good';
+  if (score >= 0.4) return 'hard';
+  return 'again';
 }
 
 /**
- * Calculates exponential backoff delay with jitter
+ * Parses and validates an LLM evaluation response
+ *
+ * Accepts pure JSON or text with a JSON object embedded (providers without
+ * a JSON mode). Optional fields fall back to defaults; the score is required.
+ *
+ * @throws LLMValidationError if the response has no valid score
  */
-function getBackoffDelay(attempt: number, baseDelayMs = 1000): number {
-  const exponentialDelay = baseDelayMs * Math.pow(2, attempt);
-  const jitter = Math.random() * 0.3 * exponentialDelay;
-  return exponentialDelay + jitter;
+export function parseEvaluationResponse(content: string): LLMEvaluationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    // Not pure JSON - try extracting an embedded object
+    parsed = extractJsonObject(content);
+    if (parsed === null) {
+      throw new LLMValidationError('Failed to parse evaluation JSON', {
+        rawResponse: content,
+      });
+    }
+  }
+
+  const obj = parsed as Record<string, unknown>;
+
+  // Validate required score field
+  if (typeof obj.score !== 'number' || obj.score < 0 || obj.score > 1) {
+    throw new LLMValidationError('Invalid or missing score in evaluation response', {
+      rawResponse: content,
+    });
+  }
+
+  const score = obj.score;
+  const feedback =
+    typeof obj.feedback === 'string' ? obj.feedback : 'No feedback provided';
+  const keyPointsCovered = Array.isArray(obj.keyPointsCovered)
+    ? obj.keyPointsCovered.filter((p): p is string => typeof p === 'string')
+    : [];
+  const keyPointsMissed = Array.isArray(obj.keyPointsMissed)
+    ? obj.keyPointsMissed.filter((p): p is string => typeof p === 'string')
+    : [];
+  const confidence =
+    typeof obj.confidence === 'number' && obj.confidence >= 0 && obj.confidence <= 1
+      ? obj.confidence
+      : 0.7;
+  const demonstratesUnderstanding =
+    typeof obj.demonstratesUnderstanding === 'boolean'
+      ? obj.demonstratesUnderstanding
+      : score >= 0.5;
+
+  // Map score to suggested rating
+  const suggestedRating = scoreToRating(score);
+
+  return {
+    score,
+    feedback,
+    keyPointsCovered,
+    keyPointsMissed,
+    confidence,
+    suggestedRating,
+    demonstratesUnderstanding,
+  };
 }
 
 /**
@@ -67,6 +128,7 @@ export class OpenAIEvaluator implements LLMEvaluator {
   private readonly model: string;
   private readonly maxRetries: number;
   private readonly timeoutMs: number;
+  private readonly usage: LLMUsageMeter;
 
   constructor(config: LLMConfig) {
     const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY ?? '';
@@ -87,6 +149,7 @@ export class OpenAIEvaluator implements LLMEvaluator {
     this.model = config.model;
     this.maxRetries = config.maxRetries ?? 2;
     this.timeoutMs = config.timeoutMs ?? 30000;
+    this.usage = config.usage ?? UNMETERED_USAGE;
   }
 
   /**
@@ -104,67 +167,31 @@ export class OpenAIEvaluator implements LLMEvaluator {
       request.rubric
     );
 
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      try {
-        const content = await this.callOpenAI(prompt);
-        const evaluation = this.parseEvaluationResponse(content);
-        return { success: true, value: evaluation };
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        // Don't retry on validation errors
-        if (error instanceof LLMValidationError) {
-          return { success: false, error };
-        }
-
-        // Don't retry on configuration errors
-        if (error instanceof LLMConfigurationError) {
-          return { success: false, error };
-        }
-
-        // Check for rate limiting
-        if (error instanceof LLMRateLimitError) {
-          const waitTime = error.retryAfterMs ?? getBackoffDelay(attempt, 5000);
-
-          if (attempt < this.maxRetries) {
-            await delay(waitTime);
-            continue;
-          }
-          return { success: false, error };
-        }
-
-        // Retry transient API errors
-        if (error instanceof LLMAPIError && attempt < this.maxRetries) {
-          await delay(getBackoffDelay(attempt));
-          continue;
-        }
-
-        return { success: false, error: lastError };
-      }
-    }
-
-    return {
-      success: false,
-      error: lastError ?? new Error('Evaluation failed after retries'),
-    };
+    return withRetry(
+      async () => parseEvaluationResponse(await this.callOpenAI(prompt)),
+      this.maxRetries,
+      'Evaluation failed after retries'
+    );
   }
 
   /**
-   * Makes the actual API call to OpenAI
+   * Makes the actual API call to OpenAI, logging its token usage
    */
   private async callOpenAI(userPrompt: string): Promise<string> {
     try {
-      const completion = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: EVALUATION_SYSTEM_PROMPT },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.3, // Lower temperature for more consistent evaluation
-        max_tokens: 1024,
-        response_format: { type: 'json_object' },
+      const call = { provider: 'openai', model: this.model, feature: 'evaluation' } as const;
+      const completion = await this.usage.track(call, async () => {
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages: [
+            { role: 'system', content: EVALUATION_SYSTEM_PROMPT },
+            { role: 'user', content: userPrompt },
+          ],
+          temperature: 0.3, // Lower temperature for more consistent evaluation
+          max_tokens: 1024,
+          response_format: { type: 'json_object' },
+        });
+        return { value: response, usage: toTokenUsage(response.usage) };
       });
 
       const content = completion.choices[0]?.message?.content ?? '';
@@ -182,70 +209,6 @@ export class OpenAIEvaluator implements LLMEvaluator {
     }
   }
 
-  /**
-   * Parses and validates the LLM evaluation response
-   */
-  private parseEvaluationResponse(content: string): LLMEvaluationResult {
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(content);
-    } catch {
-      throw new LLMValidationError('Failed to parse evaluation JSON', {
-        rawResponse: content,
-      });
-    }
-
-    const obj = parsed as Record<string, unknown>;
-
-    // Validate required score field
-    if (typeof obj.score !== 'number' || obj.score < 0 || obj.score > 1) {
-      throw new LLMValidationError('Invalid or missing score in evaluation response', {
-        rawResponse: content,
-      });
-    }
-
-    const score = obj.score;
-    const feedback =
-      typeof obj.feedback === 'string' ? obj.feedback : 'No feedback provided';
-    const keyPointsCovered = Array.isArray(obj.keyPointsCovered)
-      ? obj.keyPointsCovered.filter((p): p is string => typeof p === 'string')
-      : [];
-    const keyPointsMissed = Array.isArray(obj.keyPointsMissed)
-      ? obj.keyPointsMissed.filter((p): p is string => typeof p === 'string')
-      : [];
-    const confidence =
-      typeof obj.confidence === 'number' && obj.confidence >= 0 && obj.confidence <= 1
-        ? obj.confidence
-        : 0.7;
-    const demonstratesUnderstanding =
-      typeof obj.demonstratesUnderstanding === 'boolean'
-        ? obj.demonstratesUnderstanding
-        : score >= 0.5;
-
-    // Map score to suggested rating
-    const suggestedRating = this.scoreToRating(score);
-
-    return {
-      score,
-      feedback,
-      keyPointsCovered,
-      keyPointsMissed,
-      confidence,
-      suggestedRating,
-      demonstratesUnderstanding,
-    };
-  }
-
-  /**
-   * Maps a numeric score to a Rating value
-   */
-  private scoreToRating(score: number): Rating {
-    if (score >= 0.9) return 'easy';
-    if (score >= 0.7) return 'good';
-    if (score >= 0.4) return 'hard';
-    return 'again';
-  }
-
   /**
    * Converts OpenAI SDK errors to our custom error types
    */
@@ -254,11 +217,7 @@ export class OpenAIEvaluator implements LLMEvaluator {
       // Rate limiting
       if (error.status === 429) {
         const headers = error.headers as Record<string, string> | undefined;
-        const retryAfterHeader = headers?.['retry-after'];
-        const retryAfterMs =
-          typeof retryAfterHeader === 'string'
-            ? parseInt(retryAfterHeader, 10) * 1000
-            : undefined;
+        const retryAfterMs = parseRetryAfter(headers?.['retry-after']);
 
         throw new LLMRateLimitError(`Rate limited by OpenAI: ${error.message}`, {
           cause: error,
@@ -312,29 +271,6 @@ export function createOpenAIEvaluator(config?: Partial<LLMConfig>): OpenAIEvalua
     ...baseConfig,
     ...(config?.apiKey !== undefined && { apiKey: config.apiKey }),
     ...(config?.baseUrl !== undefined && { baseUrl: config.baseUrl }),
-  });
-}
-
-/**
- * Creates an LLM evaluator from environment configuration
- *
- * Reads configuration from environment variables:
- * - OPENAI_API_KEY: API key for OpenAI
- * - OPENAI_MODEL: Model to use (default: gpt-4o-mini)
- * - OPENAI_BASE_URL: Optional base URL override
- *
- * @returns Configured OpenAIEvaluator instance
- * @throws LLMConfigurationError if required configuration is missing
- */
-export function createEvaluatorFromEnv(): OpenAIEvaluator {
-  const envApiKey = process.env.OPENAI_API_KEY;
-  const envModel = process.env.OPENAI_MODEL;
-  const envBaseUrl = process.env.OPENAI_BASE_URL;
-
-  // Use conditional spreading to avoid exactOptionalPropertyTypes violations
-  return createOpenAIEvaluator({
-    ...(envApiKey !== undefined && { apiKey: envApiKey }),
-    ...(envModel !== undefined && { model: envModel }),
-    ...(envBaseUrl !== undefined && { baseUrl: envBaseUrl }),
+    ...(config?.usage !== undefined && { usage: config.usage }),
   });
 }
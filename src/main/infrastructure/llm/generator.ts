@@ -1,9 +1,11 @@
 /**
  * @fileoverview OpenAI adapter implementation for LLM-based flashcard generation
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: OpenAI API integration, retry logic, response validation, error handling
- * Main APIs: OpenAIGenerator, createOpenAIGenerator
+ * Features: OpenAI API integration, retry logic, response validation, error handling,
+ *           ranked distractor generation that never repeats the correct answer
+ * Main APIs: OpenAIGenerator, createOpenAIGenerator, parseVariantResponse,
+ *            parseDistractorResponse
  * Constraints: Requires OPENAI_API_KEY environment variable or explicit config
  * Patterns: Hexagonal architecture (driven adapter), Result type for error handling
  */
@@ -16,16 +18,28 @@ import {
   LLMRateLimitError,
   LLMValidationError,
 } from './errors';
-import { buildPrompt, extractJsonArray, SYSTEM_PROMPT } from './prompts';
+import {
+  buildDistractorPrompt,
+  buildPrompt,
+  DISTRACTOR_SYSTEM_PROMPT,
+  extractJsonArray,
+  SYSTEM_PROMPT,
+} from './prompts';
+import { parseRetryAfter, withRetry } from './retry';
+import { toTokenUsage, UNMETERED_USAGE } from './usage';
+import { normalizeAnswer } from '../../../shared/utils/answer-matching';
 
 import type {
   DifficultyLevel,
+  Distractor,
+  DistractorRequest,
   GeneratedVariant,
   GenerationRequest,
   LLMConfig,
   LLMGateway,
   LLMResult,
 } from './types';
+import type { LLMUsageMeter } from './usage';
 import type { Dimension } from '../../../shared/types/ipc';
 
 /**
@@ -68,19 +82,159 @@ function normalizeVariant(
 }
 
 /**
- * Delays execution for a specified duration
+ * Finds the array of items in an LLM response
+ *
+ * Accepts a bare JSON array, an object wrapping the array under one of the
+ * given keys (JSON modes may wrap arrays), or text with the array embedded
+ * (providers without a JSON mode).
+ *
+ * @throws LLMValidationError if no array can be found in the response
+ */
+function extractResponseItems(response: string, wrapperKeys: readonly string[]): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response);
+  } catch {
+    // Not pure JSON - try extracting an embedded array
+    parsed = extractJsonArray(response);
+    if (parsed === null) {
+      throw new LLMValidationError(
+        'Failed to parse JSON response',
+        { rawResponse: response }
+      );
+    }
+  }
+
+  // Extract array from response (may be nested in "variants" or similar key)
+  let items: unknown[];
+  if (Array.isArray(parsed)) {
+    items = parsed;
+  } else if (typeof parsed === 'object' && parsed !== null) {
+    const obj = parsed as Record<string, unknown>;
+    // Check common wrapper keys - use explicit Array.isArray checks
+    const possibleArrays = wrapperKeys.map((key) => obj[key]);
+    const foundArray = possibleArrays.find((val): val is unknown[] => Array.isArray(val));
+
+    if (foundArray !== undefined) {
+      items = foundArray;
+    } else {
+      // Try extracting from raw response
+      const extracted = extractJsonArray(response);
+      if (extracted === null) {
+        throw new LLMValidationError(
+          'Response is not an array and has no recognizable array property',
+          { rawResponse: response }
+        );
+      }
+      items = extracted;
+    }
+  } else {
+    throw new LLMValidationError(
+      'Response is not a valid JSON object or array',
+      { rawResponse: response }
+    );
+  }
+
+  return items;
+}
+
+/**
+ * Parses and validates an LLM variant response
+ *
+ * Items missing required fields are dropped.
+ *
+ * @throws LLMValidationError if no array can be found in the response
  */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function parseVariantResponse(
+  response: string,
+  dimension: Dimension,
+  difficulty: DifficultyLevel
+): GeneratedVariant[] {
+  const items = extractResponseItems(response, ['variants', 'cards', 'items', 'data', 'results']);
+
+  // Validate and normalize each item
+  const variants: GeneratedVariant[] = [];
+  for (const item of items) {
+    if (isValidVariant(item)) {
+      variants.push(
+        normalizeVariant(
+          item as unknown as Record<string, unknown>,
+          dimension,
+          difficulty
+        )
+      );
+    }
+  }
+
+  return variants;
 }
 
 /**
- * Calculates exponential backoff delay with jitter
+ * Parses, validates and ranks an LLM distractor response
+ *
+ * Items may be objects following DISTRACTOR_OUTPUT_SCHEMA or plain strings.
+ * Options that match the correct answer or an accepted answer (ignoring
+ * case, accents and punctuation) are dropped, as are duplicates. The rest
+ * are ranked by plausibility; items without a score keep the model's order
+ * behind those with one of equal value.
+ *
+ * @param response - Raw LLM response text
+ * @param request - The request, for the correct answers and count
+ * @returns At most request.count distractors, most plausible first
+ * @throws LLMValidationError if no array can be found in the response
  */
-function getBackoffDelay(attempt: number, baseDelayMs = 1000): number {
-  const exponentialDelay = baseDelayMs * Math.pow(2, attempt);
-  const jitter = Math.random() * 0.3 * exponentialDelay;
-  return exponentialDelay + jitter;
+export function parseDistractorResponse(
+  response: string,
+  request: DistractorRequest
+): Distractor[] {
+  const items = extractResponseItems(response, [
+    'distractors',
+    'options',
+    'items',
+    'data',
+    'results',
+  ]);
+
+  const excluded = new Set(
+    [request.correctAnswer, ...request.acceptedAnswers].map(normalizeAnswer)
+  );
+  const distractors: Distractor[] = [];
+
+  items.forEach((item, index) => {
+    const record: Record<string, unknown> =
+      typeof item === 'string'
+        ? { text: item }
+        : typeof item === 'object' && item !== null
+          ? (item as Record<string, unknown>)
+          : {};
+    if (typeof record.text !== 'string') return;
+
+    const text = record.text.trim();
+    const key = normalizeAnswer(text);
+    if (key === '' || excluded.has(key)) return;
+    excluded.add(key);
+
+    // Unscored items fall back to a score implied by their position
+    const plausibility =
+      typeof record.plausibility === 'number' && Number.isFinite(record.plausibility)
+        ? Math.min(1, Math.max(0, record.plausibility))
+        : 1 - index / items.length;
+
+    distractors.push({
+      text,
+      rationale: typeof record.rationale === 'string' ? record.rationale : '',
+      confusedWith:
+        typeof record.confusedWith === 'string' && record.confusedWith !== ''
+          ? record.confusedWith
+          : null,
+      plausibility,
+    });
+  });
+
+  // Array.prototype.sort is stable, so ties keep the model's order
+  return distractors
+    .sort((a, b) => b.plausibility - a.plausibility)
+    .slice(0, request.count);
 }
 
 /**
@@ -94,6 +248,7 @@ export class OpenAIGenerator implements LLMGateway {
   private readonly model: string;
   private readonly maxRetries: number;
   private readonly timeoutMs: number;
+  private readonly usage: LLMUsageMeter;
 
   constructor(config: LLMConfig) {
     const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY ?? '';
@@ -114,6 +269,7 @@ export class OpenAIGenerator implements LLMGateway {
     this.model = config.model;
     this.maxRetries = config.maxRetries ?? 3;
     this.timeoutMs = config.timeoutMs ?? 30000;
+    this.usage = config.usage ?? UNMETERED_USAGE;
   }
 
   /**
@@ -125,62 +281,50 @@ export class OpenAIGenerator implements LLMGateway {
     const { concept, dimension, difficulty, count } = request;
     const userPrompt = buildPrompt(concept, dimension, difficulty, count);
 
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      try {
+    return withRetry(
+      async () => {
         const response = await this.callOpenAI(userPrompt);
-        const variants = this.parseResponse(response, dimension, difficulty);
+        const variants = parseVariantResponse(response, dimension, difficulty);
 
         if (variants.length === 0) {
-          return {
-            success: false,
-            error: new LLMValidationError(
-              'No valid variants generated',
-              { rawResponse: response }
-            ),
-          };
-        }
-
-        return { success: true, value: variants };
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        // Don't retry on validation errors
-        if (error instanceof LLMValidationError) {
-          return { success: false, error };
+          throw new LLMValidationError(
+            'No valid variants generated',
+            { rawResponse: response }
+          );
         }
 
-        // Don't retry on configuration errors
-        if (error instanceof LLMConfigurationError) {
-          return { success: false, error };
-        }
+        return variants;
+      },
+      this.maxRetries,
+      'Generation failed after retries'
+    );
+  }
 
-        // Check for rate limiting
-        if (error instanceof LLMRateLimitError) {
-          const waitTime = error.retryAfterMs ?? getBackoffDelay(attempt, 5000);
+  /**
+   * Generates ranked wrong answer options using OpenAI's API
+   */
+  async generateDistractors(
+    request: DistractorRequest
+  ): Promise<LLMResult<Distractor[]>> {
+    const userPrompt = buildDistractorPrompt(request);
 
-          if (attempt < this.maxRetries) {
-            await delay(waitTime);
-            continue;
-          }
-          return { success: false, error };
-        }
+    return withRetry(
+      async () => {
+        const response = await this.callOpenAI(userPrompt, DISTRACTOR_SYSTEM_PROMPT);
+        const distractors = parseDistractorResponse(response, request);
 
-        // Retry transient API errors
-        if (error instanceof LLMAPIError && attempt < this.maxRetries) {
-          await delay(getBackoffDelay(attempt));
-          continue;
+        if (distractors.length === 0) {
+          throw new LLMValidationError(
+            'No valid distractors generated',
+            { rawResponse: response }
+          );
         }
 
-        return { success: false, error: lastError };
-      }
-    }
-
-    return {
-      success: false,
-      error: lastError || new Error('Generation failed after retries'),
-    };
+        return distractors;
+      },
+      this.maxRetries,
+      'Distractor generation failed after retries'
+    );
   }
 
   /**
@@ -204,19 +348,23 @@ export class OpenAIGenerator implements LLMGateway {
   }
 
   /**
-   * Makes the actual API call to OpenAI
+   * Makes the actual API call to OpenAI, logging its token usage
    */
-  private async callOpenAI(userPrompt: string): Promise<string> {
+  private async callOpenAI(userPrompt: string, systemPrompt = SYSTEM_PROMPT): Promise<string> {
     try {
-      const completion = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: SYSTEM_PROMPT },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 2048,
-        response_format: { type: 'json_object' },
+      const call = { provider: 'openai', model: this.model, feature: 'generation' } as const;
+      const completion = await this.usage.track(call, async () => {
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+          ],
+          temperature: 0.7,
+          max_tokens: 2048,
+          response_format: { type: 'json_object' },
+        });
+        return { value: response, usage: toTokenUsage(response.usage) };
       });
 
       const content = completion.choices[0]?.message?.content ?? '';
@@ -236,72 +384,6 @@ export class OpenAIGenerator implements LLMGateway {
     }
   }
 
-  /**
-   * Parses and validates the LLM response
-   */
-  private parseResponse(
-    response: string,
-    dimension: Dimension,
-    difficulty: DifficultyLevel
-  ): GeneratedVariant[] {
-    // Handle JSON object wrapper (OpenAI json_object mode may wrap arrays)
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(response);
-    } catch {
-      throw new LLMValidationError(
-        'Failed to parse JSON response',
-        { rawResponse: response }
-      );
-    }
-
-    // Extract array from response (may be nested in "variants" or similar key)
-    let items: unknown[];
-    if (Array.isArray(parsed)) {
-      items = parsed;
-    } else if (typeof parsed === 'object' && parsed !== null) {
-      const obj = parsed as Record<string, unknown>;
-      // Check common wrapper keys - use explicit Array.isArray checks
-      const possibleArrays = [obj.variants, obj.cards, obj.items, obj.data, obj.results];
-      const foundArray = possibleArrays.find((val): val is unknown[] => Array.isArray(val));
-
-      if (foundArray !== undefined) {
-        items = foundArray;
-      } else {
-        // Try extracting from raw response
-        const extracted = extractJsonArray(response);
-        if (extracted === null) {
-          throw new LLMValidationError(
-            'Response is not an array and has no recognizable array property',
-            { rawResponse: response }
-          );
-        }
-        items = extracted;
-      }
-    } else {
-      throw new LLMValidationError(
-        'Response is not a valid JSON object or array',
-        { rawResponse: response }
-      );
-    }
-
-    // Validate and normalize each item
-    const variants: GeneratedVariant[] = [];
-    for (const item of items) {
-      if (isValidVariant(item)) {
-        variants.push(
-          normalizeVariant(
-            item as unknown as Record<string, unknown>,
-            dimension,
-            difficulty
-          )
-        );
-      }
-    }
-
-    return variants;
-  }
-
   /**
    * Converts OpenAI SDK errors to our custom error types
    */
@@ -310,11 +392,7 @@ export class OpenAIGenerator implements LLMGateway {
       // Rate limiting
       if (error.status === 429) {
         const headers = error.headers as Record<string, string> | undefined;
-        const retryAfterHeader = headers?.['retry-after'];
-        const retryAfterMs =
-          typeof retryAfterHeader === 'string'
-            ? parseInt(retryAfterHeader, 10) * 1000
-            : undefined;
+        const retryAfterMs = parseRetryAfter(headers?.['retry-after']);
 
         throw new LLMRateLimitError(
           `Rate limited by OpenAI: ${error.message}`,
@@ -370,24 +448,6 @@ export function createOpenAIGenerator(
     baseUrl: config?.baseUrl,
     timeoutMs: config?.timeoutMs || 30000,
     maxRetries: config?.maxRetries ?? 3,
+    usage: config?.usage,
   } as LLMConfig);
 }
-
-/**
- * Creates an LLM generator from environment configuration
- *
- * Reads configuration from environment variables:
- * - OPENAI_API_KEY: API key for OpenAI
- * - OPENAI_MODEL: Model to use (default: gpt-4o-mini)
- * - OPENAI_BASE_URL: Optional base URL override
- *
- * @returns Configured OpenAIGenerator instance
- * @throws LLMConfigurationError if required configuration is missing
- */
-export function createGeneratorFromEnv(): OpenAIGenerator {
-  return createOpenAIGenerator({
-    apiKey: process.env.OPENAI_API_KEY,
-    model: process.env.OPENAI_MODEL,
-    baseUrl: process.env.OPENAI_BASE_URL,
-  } as Partial<LLMConfig>);
-}
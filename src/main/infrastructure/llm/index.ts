@@ -1,9 +1,10 @@
 /**
  * @fileoverview LLM infrastructure module barrel exports
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
  * Features: Centralized exports for LLM gateway and related types
- * Main APIs: LLMGateway, OpenAIGenerator, error types, configuration types
+ * Main APIs: LLMGateway, OpenAI, Anthropic and local adapters, provider factory, error types,
+ *            configuration types, evaluation cache
  * Constraints: Re-exports only - no implementation logic
  * Patterns: Barrel pattern for clean module boundaries
  */
@@ -13,12 +14,15 @@ export {
   DEFAULT_LLM_CONFIG,
   type ConceptInput,
   type DifficultyLevel,
+  type Distractor,
+  type DistractorRequest,
   type GeneratedVariant,
   type GenerationRequest,
   type LLMConfig,
   type LLMGateway,
   type LLMGatewayFactory,
   type LLMResult,
+  type SiblingConcept,
 } from './types';
 
 // Error types
@@ -26,6 +30,7 @@ export {
   LLMAPIError,
   LLMConfigurationError,
   LLMError,
+  LLMNotConfiguredError,
   LLMRateLimitError,
   LLMValidationError,
   type LLMErrorCode,
@@ -33,17 +38,25 @@ export {
 
 // Generator implementations
 export {
-  createGeneratorFromEnv,
   createOpenAIGenerator,
   OpenAIGenerator,
+  parseDistractorResponse,
+  parseVariantResponse,
 } from './generator';
+export { AnthropicGenerator, createAnthropicGenerator } from './anthropic-generator';
+export { createLocalGenerator, LocalGenerator } from './local-generator';
 
 // Prompt utilities (for testing or custom implementations)
 export {
+  buildDistractorPrompt,
   buildPrompt,
   DIFFICULTY_MODIFIERS,
   DIMENSION_PROMPTS,
+  DISTRACTOR_OUTPUT_SCHEMA,
+  DISTRACTOR_SYSTEM_PROMPT,
   extractJsonArray,
+  extractJsonObject,
+  selectSiblingConcepts,
   SYSTEM_PROMPT,
   VARIANT_OUTPUT_SCHEMA,
 } from './prompts';
@@ -51,14 +64,41 @@ export {
 // Evaluation prompts and utilities
 export {
   buildEvaluationPrompt,
+  EVALUATION_PROMPT_VERSION,
   EVALUATION_SYSTEM_PROMPT,
   OPEN_RESPONSE_GENERATION_PROMPT,
 } from './evaluation-prompts';
 
+// Evaluation cache
+export {
+  CachingEvaluator,
+  evaluationCacheKey,
+  type EvaluationCacheStats,
+  type EvaluationCacheStore,
+  type EvaluatorIdentity,
+} from './evaluation-cache';
+
 // Evaluator implementations
 export {
-  createEvaluatorFromEnv,
   createOpenAIEvaluator,
   OpenAIEvaluator,
+  parseEvaluationResponse,
   type LLMEvaluator,
 } from './evaluator';
+export { AnthropicEvaluator, createAnthropicEvaluator } from './anthropic-evaluator';
+export { createLocalEvaluator, LocalEvaluator } from './local-evaluator';
+
+// Local OpenAI-compatible server access
+export {
+  LOCAL_DEFAULT_BASE_URL,
+  LOCAL_DEFAULT_MODEL,
+  LocalModelClient,
+  resolveLocalBaseUrl,
+} from './local-client';
+
+// Provider selection
+export { createEvaluator, createGenerator, toLLMConfig } from './provider-factory';
+export { describeLLMError, llmServices } from './registry';
+
+// Retry policy shared by provider adapters
+export { withRetry } from './retry';
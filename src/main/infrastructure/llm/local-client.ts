@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Shared access to local OpenAI-compatible servers (Ollama, llama.cpp)
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Base URL normalization, chat completion with JSON-mode fallback and usage logging,
+ *           model listing, SDK error mapping with unreachable-server detection
+ * Main APIs: LocalModelClient, resolveLocalBaseUrl, LOCAL_DEFAULT_BASE_URL, LOCAL_DEFAULT_MODEL
+ * Constraints: No API key required; servers that reject response_format are retried
+ *              without it and callers extract JSON from the text
+ * Patterns: Hexagonal architecture (driven adapter support), errors mapped to LLMError types
+ */
+
+import { OpenAI } from 'openai';
+
+import {
+  LLMAPIError,
+  LLMConfigurationError,
+  LLMRateLimitError,
+} from './errors';
+import { parseRetryAfter } from './retry';
+import { toTokenUsage, UNMETERED_USAGE } from './usage';
+
+import type { LLMConfig } from './types';
+import type { LLMUsageMeter } from './usage';
+import type { LLMUsageFeature } from '../../../shared/types/ipc';
+
+/** Default server: Ollama's OpenAI-compatible endpoint */
+export const LOCAL_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+/** Default model when none is configured */
+export const LOCAL_DEFAULT_MODEL = 'llama3.1';
+
+/** Placeholder key; the SDK requires one but local servers ignore it */
+const LOCAL_API_KEY = 'local';
+
+/** Statuses a server may return when it does not understand response_format */
+const JSON_MODE_REJECTED_STATUSES = new Set([400, 422, 501]);
+
+/**
+ * Parameters for a single-turn completion
+ */
+export interface LocalCompletionRequest {
+  readonly feature: LLMUsageFeature;
+  readonly system: string;
+  readonly prompt: string;
+  readonly temperature: number;
+  readonly maxTokens: number;
+}
+
+/**
+ * Normalizes a configured base URL to the server's /v1 API root
+ *
+ * Accepts the bare server address users tend to enter (for example
+ * `http://localhost:11434`) as well as the full `/v1` URL.
+ *
+ * @param baseUrl - Configured base URL (blank for the default server)
+ * @returns Base URL ending in /v1 without a trailing slash
+ */
+export function resolveLocalBaseUrl(baseUrl?: string): string {
+  const trimmed = (baseUrl ?? '').trim().replace(/\/+$/, '');
+  if (trimmed === '') {
+    return LOCAL_DEFAULT_BASE_URL;
+  }
+  return /\/v1$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+/**
+ * Whether an API error status means the server does not support response_format
+ */
+function isJsonModeRejection(status: number | undefined): boolean {
+  return status !== undefined && JSON_MODE_REJECTED_STATUSES.has(status);
+}
+
+/**
+ * Chat completion client for a local OpenAI-compatible server
+ *
+ * Requests JSON mode first. If the server rejects `response_format`, the
+ * request is repeated without it and JSON mode stays off for the lifetime
+ * of the client.
+ */
+export class LocalModelClient {
+  private readonly client: OpenAI;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly usage: LLMUsageMeter;
+  private jsonModeSupported = true;
+
+  readonly model: string;
+
+  constructor(config: LLMConfig) {
+    this.baseUrl = resolveLocalBaseUrl(config.baseUrl);
+    this.timeoutMs = config.timeoutMs ?? 60000;
+    this.model = config.model !== '' ? config.model : LOCAL_DEFAULT_MODEL;
+    this.usage = config.usage ?? UNMETERED_USAGE;
+
+    // Retries are disabled in the SDK so our own backoff is the only retry layer
+    this.client = new OpenAI({
+      apiKey: config.apiKey ?? LOCAL_API_KEY,
+      baseURL: this.baseUrl,
+      timeout: this.timeoutMs,
+      maxRetries: 0,
+    });
+  }
+
+  /**
+   * Whether the server has accepted JSON mode so far
+   */
+  get supportsJsonMode(): boolean {
+    return this.jsonModeSupported;
+  }
+
+  /**
+   * Sends a single user message and returns the text of the reply
+   *
+   * @throws LLMRateLimitError, LLMConfigurationError or LLMAPIError on failure
+   */
+  async complete(request: LocalCompletionRequest): Promise<string> {
+    if (this.jsonModeSupported) {
+      try {
+        return await this.createCompletion(request, true);
+      } catch (error) {
+        const status =
+          error instanceof OpenAI.APIError && typeof error.status === 'number'
+            ? error.status
+            : undefined;
+        if (!isJsonModeRejection(status)) {
+          return this.handleError(error);
+        }
+        this.jsonModeSupported = false;
+      }
+    }
+
+    try {
+      return await this.createCompletion(request, false);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Lists the models the server offers, to check that it is reachable
+   */
+  async listModels(): Promise<string[]> {
+    try {
+      const page = await this.client.models.list();
+      return page.data.map((model) => model.id);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Makes the actual API call to the local server, logging its token usage
+   */
+  private async createCompletion(
+    request: LocalCompletionRequest,
+    jsonMode: boolean
+  ): Promise<string> {
+    const call = { provider: 'local', model: this.model, feature: request.feature } as const;
+    const completion = await this.usage.track(call, async () => {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(jsonMode && { response_format: { type: 'json_object' as const } }),
+      });
+      return { value: response, usage: toTokenUsage(response.usage) };
+    });
+
+    const content = completion.choices[0]?.message?.content ?? '';
+
+    if (content === '') {
+      throw new LLMAPIError('Empty response from local model', 'local', {
+        context: { completionId: completion.id, model: this.model },
+      });
+    }
+
+    return content;
+  }
+
+  /**
+   * Converts OpenAI SDK errors to our custom error types
+   */
+  private handleError(error: unknown): never {
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      throw new LLMAPIError(`Request timed out after ${this.timeoutMs}ms`, 'local', {
+        cause: error,
+      });
+    }
+
+    if (error instanceof OpenAI.APIConnectionError) {
+      throw new LLMAPIError(
+        `Could not reach local model server at ${this.baseUrl}`,
+        'local',
+        { cause: error }
+      );
+    }
+
+    if (error instanceof OpenAI.APIError) {
+      // Busy servers may answer 429 with a retry-after hint
+      if (error.status === 429) {
+        const headers = error.headers as Record<string, string | null | undefined> | undefined;
+        const retryAfterMs = parseRetryAfter(headers?.['retry-after']);
+
+        throw new LLMRateLimitError(`Rate limited by local model server: ${error.message}`, {
+          cause: error,
+          retryAfterMs,
+        });
+      }
+
+      // Servers started with an API key
+      if (error.status === 401 || error.status === 403) {
+        throw new LLMConfigurationError(`Authentication failed: ${error.message}`, [
+          'apiKey',
+        ], { cause: error });
+      }
+
+      // Unknown model
+      if (error.status === 404) {
+        throw new LLMConfigurationError(
+          `Model '${this.model}' is not available on the local server: ${error.message}`,
+          ['model'],
+          { cause: error }
+        );
+      }
+
+      // Other API errors
+      const statusCode = typeof error.status === 'number' ? error.status : undefined;
+      throw new LLMAPIError(error.message, 'local', {
+        cause: error,
+        statusCode,
+      });
+    }
+
+    // Re-throw unknown errors (including our own LLM errors)
+    throw error instanceof Error ? error : new Error(String(error));
+  }
+}
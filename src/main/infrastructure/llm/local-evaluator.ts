@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Local OpenAI-compatible response evaluator for open-ended questions
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Response evaluation, rubric-based scoring, tolerant response parsing
+ * Main APIs: LocalEvaluator, createLocalEvaluator
+ * Constraints: Requires a running server; no API key needed
+ * Patterns: Hexagonal architecture adapter, Result type for error handling
+ */
+
+import { buildEvaluationPrompt, EVALUATION_SYSTEM_PROMPT } from './evaluation-prompts';
+import { parseEvaluationResponse } from './evaluator';
+import { LocalModelClient, LOCAL_DEFAULT_MODEL } from './local-client';
+import { withRetry } from './retry';
+
+import type { LLMEvaluator } from './evaluator';
+import type { LLMConfig, LLMResult } from './types';
+import type { EvaluationRequest, LLMEvaluationResult } from '../../../shared/types/ipc';
+
+/**
+ * Local model response evaluator
+ *
+ * Implements the LLMEvaluator interface against an OpenAI-compatible server.
+ * Uses lower temperature (0.3) for more consistent evaluation.
+ */
+export class LocalEvaluator implements LLMEvaluator {
+  private readonly client: LocalModelClient;
+  private readonly maxRetries: number;
+
+  constructor(config: LLMConfig) {
+    this.client = new LocalModelClient(config);
+    this.maxRetries = config.maxRetries ?? 2;
+  }
+
+  /**
+   * Evaluates a user's response using the local model
+   */
+  async evaluateResponse(
+    request: EvaluationRequest
+  ): Promise<LLMResult<LLMEvaluationResult>> {
+    const prompt = buildEvaluationPrompt(
+      request.question,
+      request.modelAnswer,
+      request.userResponse,
+      request.conceptName,
+      request.dimension,
+      request.rubric
+    );
+
+    return withRetry(
+      async () => {
+        const content = await this.client.complete({
+          feature: 'evaluation',
+          system: EVALUATION_SYSTEM_PROMPT,
+          prompt,
+          temperature: 0.3, // Lower temperature for more consistent evaluation
+          maxTokens: 1024,
+        });
+        return parseEvaluationResponse(content);
+      },
+      this.maxRetries,
+      'Evaluation failed after retries'
+    );
+  }
+}
+
+/**
+ * Creates a local evaluator with optional configuration
+ *
+ * @param config - Optional partial configuration (defaults will be applied)
+ * @returns Configured LocalEvaluator instance
+ */
+export function createLocalEvaluator(config?: Partial<LLMConfig>): LocalEvaluator {
+  // Use conditional spreading to avoid exactOptionalPropertyTypes violations
+  return new LocalEvaluator({
+    provider: 'local',
+    model: config?.model ?? LOCAL_DEFAULT_MODEL,
+    timeoutMs: config?.timeoutMs ?? 60000,
+    maxRetries: config?.maxRetries ?? 2,
+    ...(config?.apiKey !== undefined && { apiKey: config.apiKey }),
+    ...(config?.baseUrl !== undefined && { baseUrl: config.baseUrl }),
+    ...(config?.usage !== undefined && { usage: config.usage }),
+  });
+}
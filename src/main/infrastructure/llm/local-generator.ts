@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Local OpenAI-compatible adapter for LLM-based flashcard generation
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Ollama/llama.cpp server integration, retry logic, tolerant response parsing,
+ *           ranked distractor generation
+ * Main APIs: LocalGenerator, createLocalGenerator
+ * Constraints: Requires a running server; no API key needed
+ * Patterns: Hexagonal architecture (driven adapter), Result type for error handling
+ */
+
+import { LLMAPIError, LLMValidationError } from './errors';
+import { parseDistractorResponse, parseVariantResponse } from './generator';
+import { LocalModelClient, LOCAL_DEFAULT_MODEL } from './local-client';
+import {
+  buildDistractorPrompt,
+  buildPrompt,
+  DISTRACTOR_SYSTEM_PROMPT,
+  SYSTEM_PROMPT,
+} from './prompts';
+import { withRetry } from './retry';
+
+import type {
+  Distractor,
+  DistractorRequest,
+  GeneratedVariant,
+  GenerationRequest,
+  LLMConfig,
+  LLMGateway,
+  LLMResult,
+} from './types';
+
+/**
+ * Local model adapter for the LLM Gateway
+ *
+ * Implements the LLMGateway interface against an OpenAI-compatible server.
+ * Responses without JSON mode are parsed by extracting the embedded array.
+ */
+export class LocalGenerator implements LLMGateway {
+  private readonly client: LocalModelClient;
+  private readonly maxRetries: number;
+
+  constructor(config: LLMConfig) {
+    this.client = new LocalModelClient(config);
+    this.maxRetries = config.maxRetries ?? 2;
+  }
+
+  /**
+   * Generates card variants using the local model
+   */
+  async generateVariants(
+    request: GenerationRequest
+  ): Promise<LLMResult<GeneratedVariant[]>> {
+    const { concept, dimension, difficulty, count } = request;
+    const userPrompt = buildPrompt(concept, dimension, difficulty, count);
+
+    return withRetry(
+      async () => {
+        const response = await this.client.complete({
+          feature: 'generation',
+          system: SYSTEM_PROMPT,
+          prompt: userPrompt,
+          temperature: 0.7,
+          maxTokens: 2048,
+        });
+        const variants = parseVariantResponse(response, dimension, difficulty);
+
+        if (variants.length === 0) {
+          throw new LLMValidationError(
+            'No valid variants generated',
+            { rawResponse: response }
+          );
+        }
+
+        return variants;
+      },
+      this.maxRetries,
+      'Generation failed after retries'
+    );
+  }
+
+  /**
+   * Generates ranked wrong answer options using the local model
+   */
+  async generateDistractors(
+    request: DistractorRequest
+  ): Promise<LLMResult<Distractor[]>> {
+    const userPrompt = buildDistractorPrompt(request);
+
+    return withRetry(
+      async () => {
+        const response = await this.client.complete({
+          feature: 'generation',
+          system: DISTRACTOR_SYSTEM_PROMPT,
+          prompt: userPrompt,
+          temperature: 0.7,
+          maxTokens: 1024,
+        });
+        const distractors = parseDistractorResponse(response, request);
+
+        if (distractors.length === 0) {
+          throw new LLMValidationError(
+            'No valid distractors generated',
+            { rawResponse: response }
+          );
+        }
+
+        return distractors;
+      },
+      this.maxRetries,
+      'Distractor generation failed after retries'
+    );
+  }
+
+  /**
+   * Tests that the server is reachable and offers the configured model
+   */
+  async healthCheck(): Promise<LLMResult<boolean>> {
+    try {
+      const models = await this.client.listModels();
+      if (models.length > 0 && !models.includes(this.client.model)) {
+        return {
+          success: false,
+          error: new LLMAPIError(
+            `Model '${this.client.model}' not found. Available: ${models.join(', ')}`,
+            'local'
+          ),
+        };
+      }
+      return { success: true, value: true };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      return {
+        success: false,
+        error: new LLMAPIError(
+          `Health check failed: ${err.message}`,
+          'local',
+          { cause: err }
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Factory function to create a local generator with defaults
+ *
+ * @param config - Optional partial configuration (defaults will be applied)
+ * @returns Configured LocalGenerator instance
+ */
+export function createLocalGenerator(config?: Partial<LLMConfig>): LocalGenerator {
+  // Use conditional spreading to avoid exactOptionalPropertyTypes violations
+  return new LocalGenerator({
+    provider: 'local',
+    model: config?.model ?? LOCAL_DEFAULT_MODEL,
+    timeoutMs: config?.timeoutMs ?? 60000,
+    maxRetries: config?.maxRetries ?? 2,
+    ...(config?.apiKey !== undefined && { apiKey: config.apiKey }),
+    ...(config?.baseUrl !== undefined && { baseUrl: config.baseUrl }),
+    ...(config?.usage !== undefined && { usage: config.usage }),
+  });
+}
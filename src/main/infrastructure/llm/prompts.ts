@@ -1,14 +1,23 @@
 /**
  * @fileoverview Prompt templates for LLM-based flashcard variant generation
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Dimension-specific prompt templates, difficulty scaling, JSON output schema
- * Main APIs: buildPrompt, DIMENSION_PROMPTS, DIFFICULTY_MODIFIERS
+ * Features: Dimension-specific prompt templates, difficulty scaling, JSON output schema,
+ *           distractor prompts with sibling concept context
+ * Main APIs: buildPrompt, DIMENSION_PROMPTS, DIFFICULTY_MODIFIERS, extractJsonArray,
+ *            extractJsonObject, buildDistractorPrompt, selectSiblingConcepts
  * Constraints: Output must be valid JSON array of variants
  * Patterns: Template composition with concept data and difficulty modifiers
  */
 
-import type { ConceptInput, DifficultyLevel } from './types';
+import { normalizeAnswer } from '../../../shared/utils/answer-matching';
+
+import type {
+  ConceptInput,
+  DifficultyLevel,
+  DistractorRequest,
+  SiblingConcept,
+} from './types';
 import type { Dimension } from '../../../shared/types/ipc';
 
 /**
@@ -198,6 +207,116 @@ Generate exactly ${count} unique flashcard variant(s).
 Remember: Output ONLY the JSON array, nothing else.`;
 }
 
+/**
+ * JSON schema for distractor output validation
+ */
+export const DISTRACTOR_OUTPUT_SCHEMA = `{
+  "text": "string - the wrong answer option",
+  "rationale": "string - the misconception that makes it tempting",
+  "confusedWith": "string or null - name of the related concept it borrows from",
+  "plausibility": "number from 0 to 1 - how tempting it is to a learner who half-knows the concept"
+}`;
+
+/**
+ * System prompt for generating wrong answer options
+ */
+export const DISTRACTOR_SYSTEM_PROMPT = `You are an expert assessment writer creating wrong answer options (distractors) for multiple-choice questions.
+
+Good distractors are plausible to a learner who half-knows the concept: they reflect real misconceptions, borrow from closely related concepts, or get one key detail wrong. They are clearly wrong to someone who understands the concept.
+
+CRITICAL REQUIREMENTS:
+1. Output ONLY valid JSON array - no markdown, no explanation, no prefix/suffix
+2. No distractor may be correct, restate the correct answer, or be a synonym of it
+3. Match the length, tone and grammatical form of the correct answer
+4. Avoid "all of the above", "none of the above" and jokes
+5. Order the array from most to least plausible
+
+OUTPUT FORMAT:
+[
+  ${DISTRACTOR_OUTPUT_SCHEMA},
+  ...
+]`;
+
+/**
+ * Builds the user prompt for distractor generation
+ *
+ * @param request - Question, correct answer, concept facts and sibling definitions
+ * @returns The complete user prompt string
+ */
+export function buildDistractorPrompt(request: DistractorRequest): string {
+  const { concept, siblings } = request;
+  const factsSection =
+    concept.facts.length > 0
+      ? `\nKEY FACTS:\n${concept.facts.map((f, i) => `${i + 1}. ${f}`).join('\n')}`
+      : '';
+  const siblingsSection =
+    siblings.length > 0
+      ? `\n\nRELATED CONCEPTS (good sources of confusable wrong answers):\n${siblings
+          .map((s) => `- ${s.name}: ${s.definition}`)
+          .join('\n')}`
+      : '';
+  const acceptedSection =
+    request.acceptedAnswers.length > 0
+      ? `\nAlso correct (do not use): ${request.acceptedAnswers.map((a) => `"${a}"`).join(', ')}`
+      : '';
+
+  return `CONCEPT:
+Name: ${concept.name}
+Definition: ${concept.definition}${factsSection}${siblingsSection}
+
+QUESTION:
+${request.question}
+
+CORRECT ANSWER:
+${request.correctAnswer}${acceptedSection}
+
+Generate exactly ${request.count} distractor(s), most plausible first.
+
+Remember: Output ONLY the JSON array, nothing else.`;
+}
+
+/**
+ * Splits text into distinctive words for similarity scoring
+ */
+function contentWords(text: string): Set<string> {
+  return new Set(
+    normalizeAnswer(text)
+      .split(' ')
+      .filter((word) => word.length >= 4)
+  );
+}
+
+/**
+ * Picks the concepts most likely to be confused with a concept
+ *
+ * Candidates are ranked by how many distinctive words their name and
+ * definition share with the concept's; ties keep the input order.
+ *
+ * @param concept - The concept being tested
+ * @param candidates - Other concepts in the collection
+ * @param limit - Maximum number of siblings to return
+ * @returns Up to `limit` siblings, most similar first
+ */
+export function selectSiblingConcepts(
+  concept: ConceptInput,
+  candidates: readonly SiblingConcept[],
+  limit: number
+): SiblingConcept[] {
+  const target = contentWords(`${concept.name} ${concept.definition}`);
+  const targetName = normalizeAnswer(concept.name);
+
+  return candidates
+    .filter((c) => normalizeAnswer(c.name) !== targetName)
+    .map((candidate, index) => {
+      const words = contentWords(`${candidate.name} ${candidate.definition}`);
+      const overlap = [...words].filter((word) => target.has(word)).length;
+      return { candidate, overlap, index };
+    })
+    .sort((a, b) => b.overlap - a.overlap || a.index - b.index)
+    .slice(0, Math.max(0, limit))
+    .map(({ candidate }) => candidate);
+}
+
 /**
  * Extracts JSON array from LLM response, handling common formatting issues
  *
@@ -245,3 +364,53 @@ export function extractJsonArray(response: string): unknown[] | null {
 
   return null;
 }
+
+/**
+ * Extracts a JSON object from LLM response, handling common formatting issues
+ *
+ * @param response - Raw LLM response text
+ * @returns Parsed JSON object or null if extraction fails
+ */
+export function extractJsonObject(response: string): Record<string, unknown> | null {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const trimmed = response.trim();
+
+  // Try direct parse first
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (isObject(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Continue to fallback strategies
+  }
+
+  // Try removing markdown code blocks
+  const codeBlockMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (codeBlockMatch !== null && codeBlockMatch[1] !== undefined) {
+    try {
+      const parsed: unknown = JSON.parse(codeBlockMatch[1].trim());
+      if (isObject(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Extraction failed
+    }
+  }
+
+  // Try to find JSON object in the response
+  const objectMatch = trimmed.match(/\{[\s\S]*\}/);
+  if (objectMatch !== null) {
+    try {
+      const parsed: unknown = JSON.parse(objectMatch[0]);
+      if (isObject(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Extraction failed
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Provider factory selecting the LLM generator and evaluator adapters
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Settings-to-config mapping, provider dispatch for generation and evaluation
+ * Main APIs: createGenerator, createEvaluator, toLLMConfig
+ * Constraints: Empty API keys fall back to the provider's environment variable
+ * Patterns: Factory over the LLMGateway and LLMEvaluator ports
+ */
+
+import { createAnthropicEvaluator } from './anthropic-evaluator';
+import { createAnthropicGenerator } from './anthropic-generator';
+import { LLMConfigurationError } from './errors';
+import { createOpenAIEvaluator } from './evaluator';
+import { createOpenAIGenerator } from './generator';
+import { createLocalEvaluator } from './local-evaluator';
+import { createLocalGenerator } from './local-generator';
+
+import type { LLMEvaluator } from './evaluator';
+import type { LLMConfig, LLMGateway } from './types';
+import type { LLMConfigDTO } from '../../../shared/types/ipc';
+
+/**
+ * Maps the user's LLM settings to an adapter configuration
+ *
+ * Blank fields are omitted so adapter defaults (and API keys from the
+ * environment) apply.
+ *
+ * @param settings - LLM settings from the settings store
+ * @returns Adapter configuration
+ */
+export function toLLMConfig(settings: LLMConfigDTO): LLMConfig {
+  const apiKey = settings.apiKey.trim();
+  const model = settings.model.trim();
+  const baseUrl = settings.baseUrl?.trim() ?? '';
+
+  return {
+    provider: settings.provider,
+    model,
+    ...(apiKey !== '' && { apiKey }),
+    ...(baseUrl !== '' && { baseUrl }),
+  };
+}
+
+/**
+ * Builds the partial config passed to a provider's create function
+ */
+function toFactoryConfig(config: LLMConfig): Partial<LLMConfig> {
+  return {
+    ...(config.model !== '' && { model: config.model }),
+    ...(config.apiKey !== undefined && { apiKey: config.apiKey }),
+    ...(config.baseUrl !== undefined && { baseUrl: config.baseUrl }),
+    ...(config.timeoutMs !== undefined && { timeoutMs: config.timeoutMs }),
+    ...(config.maxRetries !== undefined && { maxRetries: config.maxRetries }),
+    ...(config.usage !== undefined && { usage: config.usage }),
+  };
+}
+
+/**
+ * Creates the variant generator for the configured provider
+ *
+ * @param config - Adapter configuration
+ * @returns Generator implementing the LLMGateway port
+ * @throws LLMConfigurationError if the provider is unsupported or misconfigured
+ */
+export function createGenerator(config: LLMConfig): LLMGateway {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIGenerator(toFactoryConfig(config));
+    case 'anthropic':
+      return createAnthropicGenerator(toFactoryConfig(config));
+    case 'local':
+      return createLocalGenerator(toFactoryConfig(config));
+    default: {
+      // Exhaustive check - settings from older versions may hold unknown providers
+      const unsupported: never = config.provider;
+      throw new LLMConfigurationError(
+        `LLM provider '${String(unsupported)}' is not supported`,
+        ['provider']
+      );
+    }
+  }
+}
+
+/**
+ * Creates the response evaluator for the configured provider
+ *
+ * @param config - Adapter configuration
+ * @returns Evaluator implementing the LLMEvaluator port
+ * @throws LLMConfigurationError if the provider is unsupported or misconfigured
+ */
+export function createEvaluator(config: LLMConfig): LLMEvaluator {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIEvaluator(toFactoryConfig(config));
+    case 'anthropic':
+      return createAnthropicEvaluator(toFactoryConfig(config));
+    case 'local':
+      return createLocalEvaluator(toFactoryConfig(config));
+    default: {
+      // Exhaustive check - settings from older versions may hold unknown providers
+      const unsupported: never = config.provider;
+      throw new LLMConfigurationError(
+        `LLM provider '${String(unsupported)}' is not supported`,
+        ['provider']
+      );
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview LLM service registry built from the user's persisted settings
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Lazily built generator and evaluator for the configured provider, rebuild on
+ *           settings change, configuration status, renderer-safe error descriptions,
+ *           cached evaluations keyed by provider, model and prompt version, usage logging and
+ *           the monthly budget for every provider call
+ * Main APIs: llmServices (getGenerator, getEvaluator, createEvaluator, getStatus, configure,
+ *            useEvaluationCache, useUsageStore), describeLLMError
+ * Constraints: API keys come from settings only; cloud providers need one, local servers do not
+ * Patterns: Module singleton, factory delegation, typed "not configured" error
+ */
+
+import { ANTHROPIC_DEFAULT_MODEL } from './anthropic-client';
+import {
+  LLMBudgetExceededError,
+  LLMConfigurationError,
+  LLMNotConfiguredError,
+} from './errors';
+import { CachingEvaluator } from './evaluation-cache';
+import { EVALUATION_PROMPT_VERSION } from './evaluation-prompts';
+import { LOCAL_DEFAULT_MODEL } from './local-client';
+import { createEvaluator, createGenerator, toLLMConfig } from './provider-factory';
+import { UNMETERED_USAGE, UsageMeter } from './usage';
+
+import type { EvaluationCacheStore } from './evaluation-cache';
+import type { LLMConfig, LLMGateway } from './types';
+import type { LLMUsageMeter, LLMUsageStore } from './usage';
+import type { LLMConfigDTO, LLMErrorDTO, LLMStatusDTO } from '../../../shared/types/ipc';
+
+/** Display names used in user-facing messages */
+const PROVIDER_NAMES: Record<LLMConfigDTO['provider'], string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  local: 'the local model server',
+};
+
+/** Model used when the settings leave it blank */
+const DEFAULT_MODELS: Record<LLMConfigDTO['provider'], string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: ANTHROPIC_DEFAULT_MODEL,
+  local: LOCAL_DEFAULT_MODEL,
+};
+
+/** Cache used until useEvaluationCache() is called: never hits, stores nothing */
+const NO_EVALUATION_CACHE: EvaluationCacheStore = {
+  find: () => null,
+  save: () => undefined,
+};
+
+/**
+ * Resolves the model the settings select, falling back to the provider default
+ */
+function resolveModel(settings: LLMConfigDTO): string {
+  return settings.model.trim() !== '' ? settings.model : DEFAULT_MODELS[settings.provider];
+}
+
+/**
+ * Finds the settings fields that must be filled in before LLM calls can run
+ */
+function findMissingFields(settings: LLMConfigDTO): string[] {
+  if (settings.provider !== 'local' && settings.apiKey.trim() === '') {
+    return ['apiKey'];
+  }
+  return [];
+}
+
+/**
+ * Describes an LLM failure for display in the renderer
+ *
+ * @param error - Error thrown by the registry or returned by an adapter
+ * @returns LLM_NOT_CONFIGURED for missing or rejected configuration,
+ *          LLM_BUDGET_EXCEEDED when the monthly budget is spent, LLM_REQUEST_FAILED otherwise
+ */
+export function describeLLMError(error: unknown): LLMErrorDTO {
+  if (error instanceof LLMNotConfiguredError || error instanceof LLMConfigurationError) {
+    return {
+      code: 'LLM_NOT_CONFIGURED',
+      message: error.message,
+      missingFields: error.missingFields,
+    };
+  }
+  if (error instanceof LLMBudgetExceededError) {
+    return { code: 'LLM_BUDGET_EXCEEDED', message: error.message };
+  }
+  return {
+    code: 'LLM_REQUEST_FAILED',
+    message: error instanceof Error ? error.message : 'The LLM request failed',
+  };
+}
+
+/**
+ * Holds the generator and evaluator for the current LLM settings
+ *
+ * Adapters are built on first use and dropped whenever the settings change,
+ * so the next call picks up the new provider, key, or model.
+ */
+class LLMServiceRegistry {
+  private settings: LLMConfigDTO | null = null;
+  private generator: LLMGateway | null = null;
+  private evaluator: CachingEvaluator | null = null;
+  private evaluationCache: EvaluationCacheStore = NO_EVALUATION_CACHE;
+  private usageStore: LLMUsageStore | null = null;
+
+  /**
+   * Replaces the LLM settings and discards the adapters built from the old ones
+   */
+  configure(settings: LLMConfigDTO): void {
+    this.settings = { ...settings };
+    this.generator = null;
+    this.evaluator = null;
+  }
+
+  /**
+   * Sets the store that evaluations are cached in
+   */
+  useEvaluationCache(store: EvaluationCacheStore): void {
+    this.evaluationCache = store;
+    this.evaluator = null;
+  }
+
+  /**
+   * Sets the store that provider calls are logged in and the budget is checked against
+   */
+  useUsageStore(store: LLMUsageStore): void {
+    this.usageStore = store;
+    this.generator = null;
+    this.evaluator = null;
+  }
+
+  /**
+   * Reports whether LLM features can run with the current settings
+   */
+  getStatus(): LLMStatusDTO {
+    const settings = this.requireSettings();
+    const model = resolveModel(settings);
+    const missingFields = findMissingFields(settings);
+
+    if (missingFields.length > 0) {
+      return {
+        configured: false,
+        provider: settings.provider,
+        model,
+        error: describeLLMError(this.notConfigured(settings, missingFields)),
+      };
+    }
+    return { configured: true, provider: settings.provider, model };
+  }
+
+  /**
+   * Returns the variant generator for the configured provider
+   *
+   * @throws LLMNotConfiguredError if the settings are incomplete
+   */
+  getGenerator(): LLMGateway {
+    this.generator ??= this.build(createGenerator);
+    return this.generator;
+  }
+
+  /**
+   * Returns the response evaluator for the configured provider
+   *
+   * Its identity names the model that produced each evaluation.
+   *
+   * @throws LLMNotConfiguredError if the settings are incomplete
+   */
+  getEvaluator(): CachingEvaluator {
+    this.evaluator ??= this.createEvaluator();
+    return this.evaluator;
+  }
+
+  /**
+   * Builds a new caching evaluator, optionally for another model of the provider
+   *
+   * Used to re-score stored responses with a different model; the result is
+   * not kept, so getEvaluator() is unaffected.
+   *
+   * @param model - Model to evaluate with; defaults to the configured model
+   * @throws LLMNotConfiguredError if the settings are incomplete
+   */
+  createEvaluator(model?: string): CachingEvaluator {
+    const configured = this.requireSettings();
+    const override = model?.trim() ?? '';
+    const settings = override !== '' ? { ...configured, model: override } : configured;
+
+    return new CachingEvaluator(this.build(createEvaluator, settings), this.evaluationCache, {
+      provider: settings.provider,
+      model: resolveModel(settings),
+      promptVersion: EVALUATION_PROMPT_VERSION,
+    });
+  }
+
+  /**
+   * Builds an adapter, translating configuration failures to LLMNotConfiguredError
+   */
+  private build<T>(
+    factory: (config: LLMConfig) => T,
+    settings: LLMConfigDTO = this.requireSettings()
+  ): T {
+    const missingFields = findMissingFields(settings);
+    if (missingFields.length > 0) {
+      throw this.notConfigured(settings, missingFields);
+    }
+
+    try {
+      return factory({ ...toLLMConfig(settings), usage: this.createUsageMeter(settings) });
+    } catch (error) {
+      if (error instanceof LLMConfigurationError) {
+        throw new LLMNotConfiguredError(error.message, error.missingFields);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the meter that logs an adapter's calls against the settings' budget
+   */
+  private createUsageMeter(settings: LLMConfigDTO): LLMUsageMeter {
+    if (this.usageStore === null) {
+      return UNMETERED_USAGE;
+    }
+    const budget = settings.monthlyBudgetUsd;
+    return new UsageMeter(
+      this.usageStore,
+      typeof budget === 'number' && Number.isFinite(budget) && budget >= 0 ? budget : null
+    );
+  }
+
+  /**
+   * Creates the "not configured" error for missing settings fields
+   */
+  private notConfigured(settings: LLMConfigDTO, missingFields: string[]): LLMNotConfiguredError {
+    return new LLMNotConfiguredError(
+      `No API key is configured for ${PROVIDER_NAMES[settings.provider]}. ` +
+        'Add one in Settings under LLM Configuration.',
+      missingFields
+    );
+  }
+
+  /**
+   * Returns the current settings
+   *
+   * @throws LLMNotConfiguredError if configure() has not been called
+   */
+  private requireSettings(): LLMConfigDTO {
+    if (this.settings === null) {
+      throw new LLMNotConfiguredError('LLM settings have not been loaded', ['provider']);
+    }
+    return this.settings;
+  }
+}
+
+/**
+ * Process-wide LLM services, configured from settings at startup and on every change
+ */
+export const llmServices = new LLMServiceRegistry();
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Retry with exponential backoff for LLM provider calls
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Exponential backoff with jitter, rate-limit aware waits, non-retryable error passthrough
+ * Main APIs: withRetry, isTransientAPIError, parseRetryAfter, getBackoffDelay, delay
+ * Constraints: Only LLMRateLimitError and transient LLMAPIError (network, timeout, 408, 5xx)
+ *              are retried
+ * Patterns: Result type for error handling, shared by every provider adapter
+ */
+
+import {
+  LLMAPIError,
+  LLMConfigurationError,
+  LLMRateLimitError,
+  LLMValidationError,
+} from './errors';
+
+import type { LLMResult } from './types';
+
+/**
+ * Delays execution for a specified duration
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Calculates exponential backoff delay with jitter
+ */
+export function getBackoffDelay(attempt: number, baseDelayMs = 1000): number {
+  const exponentialDelay = baseDelayMs * Math.pow(2, attempt);
+  const jitter = Math.random() * 0.3 * exponentialDelay;
+  return exponentialDelay + jitter;
+}
+
+/**
+ * Converts a retry-after header to milliseconds
+ *
+ * The header holds either a number of seconds or an HTTP date. Dates in
+ * the past mean no wait.
+ *
+ * @param header - Value of the retry-after header, if present
+ * @param now - Current time in milliseconds since the epoch
+ * @returns Milliseconds to wait, or undefined when the header is missing or unreadable
+ */
+export function parseRetryAfter(
+  header: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  const value = header?.trim() ?? '';
+  if (value === '') {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  // HTTP dates start with the day name, e.g. "Wed, 21 Oct 2015 07:28:00 GMT"
+  const date = /^[a-z]/i.test(value) ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Whether an API error may succeed when the same request is sent again
+ *
+ * Errors without a status (network failures, timeouts, empty responses) and
+ * 408/429/5xx responses are transient; other 4xx responses fail the same way
+ * on every attempt.
+ */
+export function isTransientAPIError(error: LLMAPIError): boolean {
+  const { statusCode } = error;
+  return (
+    statusCode === undefined ||
+    statusCode === 408 ||
+    statusCode === 429 ||
+    statusCode >= 500
+  );
+}
+
+/**
+ * Runs a provider call, retrying transient failures
+ *
+ * Validation and configuration errors fail immediately. Rate limits wait
+ * for the provider's retry-after hint (or a 5s-based backoff); transient API
+ * errors back off from 1s, and other API errors fail immediately.
+ *
+ * @param operation - The provider call; throws LLM errors on failure
+ * @param maxRetries - Retries after the first attempt
+ * @param failureMessage - Error message when no attempt produced an error
+ * @returns Result with the operation's value or the last error
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries: number,
+  failureMessage: string
+): Promise<LLMResult<T>> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return { success: true, value: await operation() };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // Don't retry on validation errors
+      if (error instanceof LLMValidationError) {
+        return { success: false, error };
+      }
+
+      // Don't retry on configuration errors
+      if (error instanceof LLMConfigurationError) {
+        return { success: false, error };
+      }
+
+      // Check for rate limiting
+      if (error instanceof LLMRateLimitError) {
+        const { retryAfterMs } = error;
+        const waitTime =
+          retryAfterMs !== undefined && Number.isFinite(retryAfterMs)
+            ? retryAfterMs
+            : getBackoffDelay(attempt, 5000);
+
+        if (attempt < maxRetries) {
+          await delay(waitTime);
+          continue;
+        }
+        return { success: false, error };
+      }
+
+      // Retry transient API errors
+      if (error instanceof LLMAPIError && isTransientAPIError(error) && attempt < maxRetries) {
+        await delay(getBackoffDelay(attempt));
+        continue;
+      }
+
+      return { success: false, error: lastError };
+    }
+  }
+
+  return {
+    success: false,
+    error: lastError ?? new Error(failureMessage),
+  };
+}
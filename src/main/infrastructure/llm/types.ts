@@ -1,13 +1,15 @@
 /**
  * @fileoverview LLM gateway interface and types for card variant generation
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: LLMGateway port interface, configuration types, result types
- * Main APIs: LLMGateway, LLMConfig, GeneratedVariant, GenerationRequest
+ * Features: LLMGateway port interface, configuration types, result types, distractor types
+ * Main APIs: LLMGateway, LLMConfig, GeneratedVariant, GenerationRequest, DistractorRequest,
+ *            Distractor
  * Constraints: Follows hexagonal architecture (driven adapter port)
  * Patterns: Result type for error handling, configuration via environment or explicit config
  */
 
+import type { LLMUsageMeter } from './usage';
 import type { Dimension } from '../../../shared/types/ipc';
 
 /**
@@ -66,6 +68,54 @@ export interface GeneratedVariant {
   readonly difficulty: DifficultyLevel;
 }
 
+/**
+ * A neighbouring concept the learner could confuse with the target
+ */
+export interface SiblingConcept {
+  readonly name: string;
+  readonly definition: string;
+}
+
+/**
+ * Request parameters for generating wrong answer options
+ */
+export interface DistractorRequest {
+  /** The concept the question tests */
+  readonly concept: ConceptInput;
+
+  /** The question (card front) */
+  readonly question: string;
+
+  /** The correct answer (card back); no distractor may equal it */
+  readonly correctAnswer: string;
+
+  /** Other answers that also count as correct, e.g. the correct choice options */
+  readonly acceptedAnswers: readonly string[];
+
+  /** Related concepts whose definitions make confusable wrong answers */
+  readonly siblings: readonly SiblingConcept[];
+
+  /** Number of distractors to generate */
+  readonly count: number;
+}
+
+/**
+ * A plausible wrong answer from the LLM
+ */
+export interface Distractor {
+  /** The wrong answer option */
+  readonly text: string;
+
+  /** The misconception that makes the option tempting */
+  readonly rationale: string;
+
+  /** Name of the sibling concept the option borrows from, if any */
+  readonly confusedWith: string | null;
+
+  /** How tempting the option is to a learner who half-knows the concept (0-1) */
+  readonly plausibility: number;
+}
+
 /**
  * Result type for LLM operations
  */
@@ -77,16 +127,16 @@ export type LLMResult<T> =
  * Configuration for LLM providers
  */
 export interface LLMConfig {
-  /** LLM provider (openai, anthropic, ollama) */
-  readonly provider: 'openai' | 'anthropic' | 'ollama';
+  /** LLM provider (openai, anthropic, or a local OpenAI-compatible server) */
+  readonly provider: 'openai' | 'anthropic' | 'local';
 
-  /** API key for the provider (not required for ollama) */
+  /** API key for the provider (not required for local servers) */
   readonly apiKey?: string;
 
   /** Model identifier (e.g., 'gpt-4o-mini', 'claude-3-haiku') */
   readonly model: string;
 
-  /** Base URL for API (required for ollama, optional for others) */
+  /** Base URL for API (defaults to Ollama on localhost for local, optional for others) */
   readonly baseUrl?: string;
 
   /** Request timeout in milliseconds */
@@ -94,6 +144,9 @@ export interface LLMConfig {
 
   /** Maximum retry attempts for transient failures */
   readonly maxRetries?: number;
+
+  /** Logs each provider call and enforces the monthly budget (unmetered when omitted) */
+  readonly usage?: LLMUsageMeter;
 }
 
 /**
@@ -120,6 +173,14 @@ export interface LLMGateway {
    */
   generateVariants(request: GenerationRequest): Promise<LLMResult<GeneratedVariant[]>>;
 
+  /**
+   * Generates wrong answer options for a question, most plausible first
+   *
+   * @param request - Question, correct answer and concept context
+   * @returns Result containing ranked distractors or error
+   */
+  generateDistractors(request: DistractorRequest): Promise<LLMResult<Distractor[]>>;
+
   /**
    * Tests the connection to the LLM provider
    *
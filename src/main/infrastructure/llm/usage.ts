@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Usage logging, cost estimation and monthly budget for LLM provider calls
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Per-call log of provider, model, feature, tokens, latency and outcome, cost from a
+ *           per-model price table, monthly budget that blocks calls once spent
+ * Main APIs: UsageMeter, UNMETERED_USAGE, estimateCostUsd, startOfMonth, toTokenUsage,
+ *            MODEL_PRICES, LLMUsageMeter, LLMUsageStore, LLMUsageTotals
+ * Constraints: Usage store failures never fail a call; calls to models without a known price
+ *              are logged without a cost and do not count towards the budget
+ * Patterns: Meter injected into provider adapters through LLMConfig, persistence port
+ *           implemented by LLMUsageRepository
+ */
+
+import { LLMBudgetExceededError } from './errors';
+
+import type {
+  LLMCallOutcome,
+  LLMConfigDTO,
+  LLMUsageFeature,
+} from '../../../shared/types/ipc';
+
+/**
+ * Tokens reported by the provider for one call
+ */
+export interface TokenUsage {
+  readonly promptTokens: number;
+  readonly completionTokens: number;
+}
+
+/**
+ * What a call is for and where it goes
+ */
+export interface LLMCallInfo {
+  readonly provider: LLMConfigDTO['provider'];
+  readonly model: string;
+  readonly feature: LLMUsageFeature;
+}
+
+/**
+ * A provider response together with the tokens it used, when reported
+ */
+export interface MeteredResponse<T> {
+  readonly value: T;
+  readonly usage: TokenUsage | null;
+}
+
+/**
+ * One logged provider call
+ */
+export interface LLMUsageEntry extends LLMCallInfo {
+  readonly promptTokens: number | null;
+  readonly completionTokens: number | null;
+  readonly latencyMs: number;
+  readonly outcome: LLMCallOutcome;
+  /** Error message of a failed or blocked call */
+  readonly error: string | null;
+  /** Estimated cost in USD, null when the model's price is unknown */
+  readonly costUsd: number | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Persistence operations the usage meter relies on
+ */
+export interface LLMUsageStore {
+  /** Appends a call to the usage log */
+  record(entry: LLMUsageEntry): void;
+
+  /** Total estimated cost of calls made at or after a time */
+  getSpendSince(since: Date): number;
+}
+
+/**
+ * Logged calls of one feature, provider and model added up
+ */
+export interface LLMUsageTotals {
+  readonly feature: LLMUsageFeature;
+  readonly provider: LLMConfigDTO['provider'];
+  readonly model: string;
+  readonly calls: number;
+  readonly failedCalls: number;
+  readonly blockedCalls: number;
+  readonly promptTokens: number;
+  readonly completionTokens: number;
+  /** Total latency of calls that reached the provider */
+  readonly latencyMs: number;
+  readonly costUsd: number;
+  /** Successful calls whose cost could not be estimated */
+  readonly unpricedCalls: number;
+}
+
+/**
+ * Runs provider calls, logging each one and enforcing the budget
+ */
+export interface LLMUsageMeter {
+  /**
+   * Runs one provider call
+   *
+   * @throws LLMBudgetExceededError when the monthly budget is spent
+   * @throws whatever the call throws, after logging it
+   */
+  track<T>(call: LLMCallInfo, run: () => Promise<MeteredResponse<T>>): Promise<T>;
+}
+
+/**
+ * Price of a model family in USD per million tokens
+ */
+export interface ModelPrice {
+  readonly provider: LLMConfigDTO['provider'];
+  /** Model names starting with this prefix use the price */
+  readonly prefix: string;
+  readonly inputPerMillion: number;
+  readonly outputPerMillion: number;
+}
+
+/**
+ * List prices of common hosted models; the longest matching prefix wins
+ */
+export const MODEL_PRICES: readonly ModelPrice[] = [
+  { provider: 'openai', prefix: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { provider: 'openai', prefix: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { provider: 'openai', prefix: 'gpt-4.1-nano', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { provider: 'openai', prefix: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { provider: 'openai', prefix: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 },
+  { provider: 'openai', prefix: 'gpt-4-turbo', inputPerMillion: 10, outputPerMillion: 30 },
+  { provider: 'openai', prefix: 'gpt-3.5-turbo', inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  { provider: 'openai', prefix: 'o3-mini', inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  { provider: 'openai', prefix: 'o4-mini', inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  {
+    provider: 'anthropic',
+    prefix: 'claude-3-haiku',
+    inputPerMillion: 0.25,
+    outputPerMillion: 1.25,
+  },
+  { provider: 'anthropic', prefix: 'claude-3-5-haiku', inputPerMillion: 0.8, outputPerMillion: 4 },
+  { provider: 'anthropic', prefix: 'claude-3-5-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+  { provider: 'anthropic', prefix: 'claude-3-7-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+  { provider: 'anthropic', prefix: 'claude-sonnet-4', inputPerMillion: 3, outputPerMillion: 15 },
+  { provider: 'anthropic', prefix: 'claude-3-opus', inputPerMillion: 15, outputPerMillion: 75 },
+  { provider: 'anthropic', prefix: 'claude-opus-4', inputPerMillion: 15, outputPerMillion: 75 },
+];
+
+/**
+ * Estimates the cost of a call
+ *
+ * Local models are free. Hosted models without a listed price have no
+ * estimate rather than a guessed one.
+ *
+ * @param provider - Provider that served the call
+ * @param model - Model name as sent to the provider
+ * @param usage - Tokens the provider reported
+ * @returns Cost in USD, or null when the price is unknown
+ */
+export function estimateCostUsd(
+  provider: LLMConfigDTO['provider'],
+  model: string,
+  usage: TokenUsage
+): number | null {
+  if (provider === 'local') {
+    return 0;
+  }
+
+  const name = model.toLowerCase();
+  const price = MODEL_PRICES.filter(
+    (p) => p.provider === provider && name.startsWith(p.prefix)
+  ).sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (price === undefined) {
+    return null;
+  }
+
+  return (
+    (usage.promptTokens * price.inputPerMillion +
+      usage.completionTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Reads the token counts of an OpenAI-style chat completion
+ *
+ * @param usage - The completion's usage field; servers may leave it out
+ * @returns Token counts, or null when not reported
+ */
+export function toTokenUsage(
+  usage: { prompt_tokens: number; completion_tokens: number } | null | undefined
+): TokenUsage | null {
+  if (usage === null || usage === undefined) {
+    return null;
+  }
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+}
+
+/**
+ * Local midnight on the first day of the month containing a date
+ */
+export function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * Meter that runs calls without logging them or checking a budget
+ */
+export const UNMETERED_USAGE: LLMUsageMeter = {
+  async track<T>(_call: LLMCallInfo, run: () => Promise<MeteredResponse<T>>): Promise<T> {
+    return (await run()).value;
+  },
+};
+
+/**
+ * Logs every provider call and blocks calls once the monthly budget is spent
+ *
+ * The budget is compared with the estimated cost of calls since the start
+ * of the current calendar month. A call that is already running when the
+ * budget runs out is allowed to finish.
+ */
+export class UsageMeter implements LLMUsageMeter {
+  constructor(
+    private readonly store: LLMUsageStore,
+    private readonly monthlyBudgetUsd: number | null,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async track<T>(call: LLMCallInfo, run: () => Promise<MeteredResponse<T>>): Promise<T> {
+    const spent = this.getMonthlySpend();
+    if (this.monthlyBudgetUsd !== null && spent !== null && spent >= this.monthlyBudgetUsd) {
+      const error = new LLMBudgetExceededError(this.monthlyBudgetUsd, spent);
+      this.tryRecord(call, null, 0, 'blocked', error.message);
+      throw error;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const response = await run();
+      this.tryRecord(call, response.usage, Date.now() - startedAt, 'success', null);
+      return response.value;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.tryRecord(call, null, Date.now() - startedAt, 'error', message);
+      throw error;
+    }
+  }
+
+  /**
+   * Spend since the start of the month, or null when it cannot be read
+   */
+  private getMonthlySpend(): number | null {
+    if (this.monthlyBudgetUsd === null) {
+      return null;
+    }
+    try {
+      return this.store.getSpendSince(startOfMonth(this.now()));
+    } catch (error) {
+      console.warn('Failed to read LLM spend:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Logs a call, treating an unwritable log as a warning
+   */
+  private tryRecord(
+    call: LLMCallInfo,
+    usage: TokenUsage | null,
+    latencyMs: number,
+    outcome: LLMCallOutcome,
+    error: string | null
+  ): void {
+    try {
+      this.store.record({
+        ...call,
+        promptTokens: usage?.promptTokens ?? null,
+        completionTokens: usage?.completionTokens ?? null,
+        latencyMs,
+        outcome,
+        error,
+        costUsd: usage !== null ? estimateCostUsd(call.provider, call.model, usage) : null,
+        createdAt: this.now(),
+      });
+    } catch (recordError) {
+      console.warn('Failed to log LLM usage:', recordError);
+    }
+  }
+}
@@ -1,19 +1,36 @@
 /**
  * @fileoverview IPC handlers for analytics chart data aggregation
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Mastery timeline, review distribution, response time stats, weakness heatmap
+ * Features: Mastery timeline, review distribution, response time stats, weakness heatmap,
+ *   LLM usage and spend by feature and model
  * Main APIs: registerAnalyticsHandlers()
- * Constraints: Requires EventRepository for data access
+ * Constraints: Requires EventRepository for data access; timeline and heatmap replay
+ *   events with the same mastery math and settings as live reviews; LLM spend covers the
+ *   current calendar month, the period the budget applies to
  * Patterns: Handler registration with error handling wrapper, aggregation helpers
  */
 
+import { getMasteryConfig, getSettings } from './settings.ipc'
+import { MasteryCalculator } from '../../domain/services/mastery-calculator.service'
+import {
+  classifyWeaknessSeverity,
+  getMinSampleSize,
+} from '../../domain/services/weakness-detector.service'
 import { EventRepository } from '../infrastructure/database/repositories/event.repository'
+import { LLMUsageRepository } from '../infrastructure/database/repositories/llm-usage.repository'
+import { startOfMonth } from '../infrastructure/llm/usage'
 
 import { registerHandler } from './index'
 
-import type { ReviewEvent, ReviewResultType, DifficultyLevel } from '../../shared/types/core'
-import type { Dimension } from '../../shared/types/ipc'
+import type { DimensionMastery, ReviewEvent } from '../../shared/types/core'
+import type {
+  Dimension,
+  LLMUsageBreakdownDTO,
+  LLMUsageFeature,
+  LLMUsageReportDTO,
+} from '../../shared/types/ipc'
+import type { LLMUsageTotals } from '../infrastructure/llm/usage'
 
 // -----------------------------------------------------------------------------
 // Types
@@ -24,6 +41,8 @@ interface DimensionMasterySnapshot {
   accuracy: number
   speed: number
   combined: number
+  /** Reviews folded into the snapshot so far */
+  count: number
 }
 
 /** Daily mastery data across all dimensions */
@@ -74,26 +93,6 @@ const ALL_DIMENSIONS: Dimension[] = [
   'cloze',
 ]
 
-/** Accuracy score mapping for review results */
-const RESULT_ACCURACY_SCORES: Record<ReviewResultType, number> = {
-  again: 0.0,
-  hard: 0.4,
-  good: 0.7,
-  easy: 1.0,
-}
-
-/** Target response times by difficulty level (ms) */
-const TARGET_TIMES_BY_DIFFICULTY: Record<DifficultyLevel, number> = {
-  1: 5000,
-  2: 10000,
-  3: 20000,
-  4: 40000,
-  5: 60000,
-}
-
-/** EWMA alpha for smoothing (matches mastery calculation) */
-const EWMA_ALPHA = 0.3
-
 /** Maximum number of events to retrieve for analytics calculations */
 const MAX_EVENTS_FOR_ANALYSIS = 10000
 
@@ -101,23 +100,6 @@ const MAX_EVENTS_FOR_ANALYSIS = 10000
 // Aggregation Helpers
 // -----------------------------------------------------------------------------
 
-/**
- * Groups events by date (YYYY-MM-DD format)
- */
-function groupByDate(events: ReviewEvent[]): Map<string, ReviewEvent[]> {
-  const groups = new Map<string, ReviewEvent[]>()
-
-  for (const event of events) {
-    const dateParts = event.createdAt.toISOString().split('T')
-    const date = dateParts[0] ?? ''
-    const existing = groups.get(date) ?? []
-    existing.push(event)
-    groups.set(date, existing)
-  }
-
-  return groups
-}
-
 /**
  * Groups events by dimension
  */
@@ -190,60 +172,35 @@ function calculateMedian(values: number[]): number {
 }
 
 /**
- * Calculates speed score based on response time and difficulty
- * Speed score = min(1.0, targetTime / actualTime)
- */
-function calculateSpeedScore(timeMs: number, difficulty: DifficultyLevel): number {
-  const targetTime = TARGET_TIMES_BY_DIFFICULTY[difficulty]
-  return Math.min(1.0, targetTime / timeMs)
-}
-
-/**
- * Calculates EWMA for a series of values (most recent last)
+ * Creates default mastery snapshot with neutral values
  */
-function calculateEWMA(values: number[], alpha: number = EWMA_ALPHA): number {
-  if (values.length === 0) return 0.5
-
-  const firstValue = values[0]
-  if (firstValue === undefined) return 0.5
-
-  let ewma = firstValue
-  for (let i = 1; i < values.length; i++) {
-    const current = values[i]
-    if (current !== undefined) {
-      ewma = alpha * current + (1 - alpha) * ewma
-    }
+function createDefaultMasterySnapshot(): DimensionMasterySnapshot {
+  return {
+    accuracy: 0.5,
+    speed: 0.5,
+    combined: 0.5,
+    count: 0,
   }
-
-  return ewma
 }
 
 /**
- * Calculates combined mastery score (70% accuracy, 30% speed)
+ * Creates a snapshot from replayed dimension mastery
  */
-function calculateCombinedScore(accuracy: number, speed: number): number {
-  return 0.7 * accuracy + 0.3 * speed
+function toMasterySnapshot(mastery: DimensionMastery): DimensionMasterySnapshot {
+  return {
+    accuracy: mastery.accuracyEwma,
+    speed: mastery.speedEwma,
+    combined: MasteryCalculator.calculateCombinedMastery(mastery),
+    count: mastery.recentCount,
+  }
 }
 
 /**
- * Classifies weakness severity based on combined mastery score
+ * Returns the UTC date key (YYYY-MM-DD) used by the timeline
  */
-function classifyWeaknessSeverity(combinedScore: number): WeaknessSeverity {
-  if (combinedScore < 0.4) return 'critical'
-  if (combinedScore < 0.55) return 'moderate'
-  if (combinedScore < 0.7) return 'mild'
-  return 'none'
-}
-
-/**
- * Creates default mastery snapshot with neutral values
- */
-function createDefaultMasterySnapshot(): DimensionMasterySnapshot {
-  return {
-    accuracy: 0.5,
-    speed: 0.5,
-    combined: 0.5,
-  }
+function toDateKey(date: Date): string {
+  const dateParts = date.toISOString().split('T')
+  return dateParts[0] ?? ''
 }
 
 /**
@@ -269,24 +226,12 @@ function generateDateRange(days: number): string[] {
   for (let i = days - 1; i >= 0; i--) {
     const date = new Date(now)
     date.setDate(date.getDate() - i)
-    const dateParts = date.toISOString().split('T')
-    dates.push(dateParts[0] ?? '')
+    dates.push(toDateKey(date))
   }
 
   return dates
 }
 
-/**
- * Filters events to those within the last N days
- */
-function filterEventsByDays(events: ReviewEvent[], days: number): ReviewEvent[] {
-  const cutoff = new Date()
-  cutoff.setDate(cutoff.getDate() - days)
-  cutoff.setHours(0, 0, 0, 0)
-
-  return events.filter((event) => event.createdAt >= cutoff)
-}
-
 // -----------------------------------------------------------------------------
 // Handler Implementations
 // -----------------------------------------------------------------------------
@@ -294,58 +239,46 @@ function filterEventsByDays(events: ReviewEvent[], days: number): ReviewEvent[]
 /**
  * Calculates daily mastery snapshots per dimension over a time range
  *
- * For each day, computes EWMA of accuracy and speed scores from events
- * up to and including that day.
+ * Replays the full event history in chronological order with the live
+ * mastery calculator and settings, so events before the range seed each
+ * dimension's starting state and the final day matches stored mastery.
  */
 function getMasteryTimeline(days: number): MasteryTimelineEntry[] {
-  // Fetch all events (we need historical context for EWMA)
-  const allEvents = EventRepository.findRecent(MAX_EVENTS_FOR_ANALYSIS)
-  const recentEvents = filterEventsByDays(allEvents, days)
-
+  const config = getMasteryConfig()
+  const events = EventRepository.findAll()
   const dateRange = generateDateRange(days)
-  const eventsByDate = groupByDate(recentEvents)
-
-  // Track cumulative EWMA state per dimension
-  const cumulativeState = createDefaultDimensionRecord(() => ({
-    accuracyValues: [] as number[],
-    speedValues: [] as number[],
-  }))
 
+  const state = new Map<Dimension, DimensionMastery>()
   const timeline: MasteryTimelineEntry[] = []
+  let nextEvent = 0
 
   for (const date of dateRange) {
-    const dayEvents = eventsByDate.get(date) ?? []
-
-    // Group day's events by dimension and update cumulative state
-    const eventsByDim = groupByDimension(dayEvents)
-
-    for (const dimension of ALL_DIMENSIONS) {
-      const dimEvents = eventsByDim.get(dimension) ?? []
-
-      for (const event of dimEvents) {
-        const accuracyScore = RESULT_ACCURACY_SCORES[event.result]
-        const speedScore = calculateSpeedScore(event.timeMs, event.difficulty)
-
-        cumulativeState[dimension].accuracyValues.push(accuracyScore)
-        cumulativeState[dimension].speedValues.push(speedScore)
-      }
+    // Fold in every event up to and including this day
+    while (nextEvent < events.length) {
+      const event = events[nextEvent]
+      if (event === undefined || toDateKey(event.createdAt) > date) break
+
+      const dimension = mapDimensionTypeToIPC(event.dimension)
+      const current = state.get(dimension) ?? MasteryCalculator.createInitialMastery()
+      state.set(
+        dimension,
+        MasteryCalculator.updateMastery(
+          current,
+          event.result,
+          event.timeMs,
+          event.difficulty,
+          config
+        )
+      )
+      nextEvent++
     }
 
-    // Calculate current EWMA for each dimension
     const dimensions = createDefaultDimensionRecord<DimensionMasterySnapshot>(() =>
       createDefaultMasterySnapshot()
     )
 
-    for (const dimension of ALL_DIMENSIONS) {
-      const state = cumulativeState[dimension]
-
-      if (state.accuracyValues.length > 0) {
-        const accuracy = calculateEWMA(state.accuracyValues)
-        const speed = calculateEWMA(state.speedValues)
-        const combined = calculateCombinedScore(accuracy, speed)
-
-        dimensions[dimension] = { accuracy, speed, combined }
-      }
+    for (const [dimension, mastery] of state) {
+      dimensions[dimension] = toMasterySnapshot(mastery)
     }
 
     timeline.push({ date, dimensions })
@@ -429,18 +362,22 @@ function getResponseTimeStats(): ResponseTimeStatsEntry[] {
  * Calculates daily weakness severity per dimension
  *
  * Uses cumulative mastery scores to classify each dimension's
- * weakness level for each day in the range.
+ * weakness level for each day in the range. Dimensions with fewer reviews
+ * than the weakness detector's minimum sample size are reported as 'none'.
  */
 function getWeaknessHeatmap(days: number): WeaknessHeatmapEntry[] {
   // Reuse mastery timeline calculation
   const timeline = getMasteryTimeline(days)
+  const minSampleSize = getMinSampleSize(getMasteryConfig().ewmaAlpha)
 
   return timeline.map((entry) => {
     const dimensions = createDefaultDimensionRecord<WeaknessSeverity>(() => 'none')
 
     for (const dimension of ALL_DIMENSIONS) {
       const mastery = entry.dimensions[dimension]
-      dimensions[dimension] = classifyWeaknessSeverity(mastery.combined)
+      if (mastery.count >= minSampleSize) {
+        dimensions[dimension] = classifyWeaknessSeverity(mastery.combined)
+      }
     }
 
     return {
@@ -450,6 +387,61 @@ function getWeaknessHeatmap(days: number): WeaknessHeatmapEntry[] {
   })
 }
 
+/**
+ * Adds up logged call totals into one breakdown row
+ *
+ * @param key - Feature, provider and model the row is labelled with
+ * @param totals - Totals of the calls the row covers
+ */
+function toUsageBreakdown(
+  key: Pick<LLMUsageBreakdownDTO, 'feature' | 'provider' | 'model'>,
+  totals: readonly LLMUsageTotals[]
+): LLMUsageBreakdownDTO {
+  const sum = (pick: (t: LLMUsageTotals) => number): number =>
+    totals.reduce((total, t) => total + pick(t), 0)
+
+  const calls = sum((t) => t.calls)
+  const blockedCalls = sum((t) => t.blockedCalls)
+  const attempted = calls - blockedCalls
+
+  return {
+    ...key,
+    calls,
+    failedCalls: sum((t) => t.failedCalls),
+    blockedCalls,
+    promptTokens: sum((t) => t.promptTokens),
+    completionTokens: sum((t) => t.completionTokens),
+    meanLatencyMs: attempted > 0 ? Math.round(sum((t) => t.latencyMs) / attempted) : null,
+    costUsd: sum((t) => t.costUsd),
+    unpricedCalls: sum((t) => t.unpricedCalls),
+  }
+}
+
+/**
+ * Summarizes this month's LLM calls per feature and per model against the budget
+ */
+function getLLMUsage(): LLMUsageReportDTO {
+  const periodStart = startOfMonth(new Date())
+  const totals = LLMUsageRepository.summarizeSince(periodStart)
+  const budget = getSettings().llm.monthlyBudgetUsd
+  const features: LLMUsageFeature[] = ['generation', 'evaluation']
+
+  return {
+    periodStart: periodStart.toISOString(),
+    budgetUsd: budget ?? null,
+    spentUsd: totals.reduce((total, t) => total + t.costUsd, 0),
+    features: features
+      .map((feature) => ({ feature, group: totals.filter((t) => t.feature === feature) }))
+      .filter(({ group }) => group.length > 0)
+      .map(({ feature, group }) =>
+        toUsageBreakdown({ feature, provider: null, model: null }, group)
+      ),
+    models: totals.map((t) =>
+      toUsageBreakdown({ feature: t.feature, provider: t.provider, model: t.model }, [t])
+    ),
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Handler Registration
 // -----------------------------------------------------------------------------
@@ -483,4 +475,9 @@ export function registerAnalyticsHandlers(): void {
     const { days } = args
     return getWeaknessHeatmap(days)
   })
+
+  // Get this month's LLM usage and spend
+  registerHandler('analytics:getLLMUsage', () => {
+    return getLLMUsage()
+  })
 }
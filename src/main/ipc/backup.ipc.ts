@@ -0,0 +1,185 @@
+/**
+ * @fileoverview IPC handlers for database backups, and the automatic backup schedule
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Scheduled backups with retention from settings, manual "backup now", list of
+ *   backups, restore of a chosen backup with a backup of the replaced data first
+ * Main APIs: registerBackupHandlers(), startBackupSchedule(), stopBackupSchedule(),
+ *   runScheduledBackup()
+ * Constraints: The schedule must only start once the database is ready; backup operations
+ *   run one at a time; background jobs stop, and running ones settle, before a restore
+ *   swaps the database
+ * Patterns: Module-level timer like the job queue, handler registration with error handling
+ */
+
+import { startJobQueue, stopJobQueue } from './jobs.ipc'
+import { getSettings } from './settings.ipc'
+import {
+  createBackup,
+  getBackupDirectory,
+  listBackups,
+  pruneBackups,
+  restoreBackup,
+} from '../infrastructure/database/backup'
+import { isBackupDue } from '../infrastructure/database/backup-policy'
+import { countStoredData } from '../infrastructure/database/data-transfer'
+import { DatabaseError } from '../infrastructure/database/errors'
+
+import { registerHandler, IPCError } from './index'
+
+import type {
+  BackupInfoDTO,
+  BackupListDTO,
+  BackupRestoreReportDTO,
+} from '../../shared/types/ipc'
+import type { BackupInfo } from '../infrastructure/database/backup'
+
+/** How often the schedule checks whether a backup is due */
+const SCHEDULE_CHECK_INTERVAL_MS = 15 * 60 * 1000
+
+/** Timer of the automatic backup schedule */
+let scheduleTimer: ReturnType<typeof setInterval> | null = null
+
+/** Last backup operation; the next one waits for it */
+let lastOperation: Promise<unknown> = Promise.resolve()
+
+/**
+ * Runs backup operations one at a time, so a restore never swaps the
+ * database while a backup of it is being written
+ */
+function runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+  const result = lastOperation.then(operation, operation)
+  lastOperation = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Maps a backup to a BackupInfoDTO
+ */
+function backupToDTO(backup: BackupInfo): BackupInfoDTO {
+  return {
+    fileName: backup.fileName,
+    kind: backup.kind,
+    createdAt: backup.createdAt.toISOString(),
+    sizeBytes: backup.sizeBytes,
+  }
+}
+
+/**
+ * Converts a failed backup operation into an IPCError for the renderer
+ */
+function toIPCError(error: unknown, message: string): IPCError {
+  if (error instanceof DatabaseError && error.code === 'NOT_FOUND') {
+    return new IPCError('NOT_FOUND', error.message, error.context)
+  }
+  if (error instanceof DatabaseError && error.code === 'INVALID_DATA') {
+    return new IPCError('VALIDATION_ERROR', error.message, error.context)
+  }
+  const err = error as Error
+  const cause = err.cause instanceof Error ? `: ${err.cause.message}` : ''
+  return new IPCError('INTERNAL_ERROR', `${message}${cause}`)
+}
+
+// -----------------------------------------------------------------------------
+// Schedule
+// -----------------------------------------------------------------------------
+
+/**
+ * Backs up the database when automatic backups are on and one is due
+ *
+ * Old automatic backups beyond the retention count are deleted afterwards.
+ *
+ * @param now - Current time
+ * @returns The new backup, or null when none was due
+ */
+export function runScheduledBackup(now = new Date()): Promise<BackupInfoDTO | null> {
+  return runExclusive(async () => {
+    const { backup } = getSettings()
+    if (!backup.enabled) {
+      return null
+    }
+    const lastBackup = listBackups().find((existing) => existing.kind === 'automatic')
+    if (!isBackupDue(lastBackup?.createdAt ?? null, now, backup.intervalHours)) {
+      return null
+    }
+
+    const created = await createBackup('automatic')
+    pruneBackups(backup.retainCount)
+    return backupToDTO(created)
+  })
+}
+
+/**
+ * Checks for a due backup now and then periodically
+ */
+export function startBackupSchedule(): void {
+  const check = (): void => {
+    runScheduledBackup().catch((error: unknown) => {
+      console.error('[Backup] Scheduled backup failed:', error)
+    })
+  }
+
+  stopBackupSchedule()
+  check()
+  scheduleTimer = setInterval(check, SCHEDULE_CHECK_INTERVAL_MS)
+}
+
+/**
+ * Stops the automatic backup schedule (called on quit)
+ */
+export function stopBackupSchedule(): void {
+  if (scheduleTimer !== null) {
+    clearInterval(scheduleTimer)
+    scheduleTimer = null
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Handlers
+// -----------------------------------------------------------------------------
+
+/**
+ * Registers all backup-related IPC handlers
+ */
+export function registerBackupHandlers(): void {
+  // List the backups, newest first
+  registerHandler('backup:list', (): BackupListDTO => {
+    return {
+      directory: getBackupDirectory(),
+      backups: listBackups().map(backupToDTO),
+    }
+  })
+
+  // Back up the database now
+  registerHandler('backup:create', () => {
+    return runExclusive(async () => {
+      try {
+        return backupToDTO(await createBackup('manual'))
+      } catch (error) {
+        throw toIPCError(error, 'Failed to back up the database')
+      }
+    })
+  })
+
+  // Replace the database with a backup, backing up the current data first
+  registerHandler('backup:restore', (_event, fileName) => {
+    return runExclusive(async (): Promise<BackupRestoreReportDTO> => {
+      // Let in-flight LLM calls settle before the swap, so none is left running
+      // next to the jobs the restarted queue picks up from the restored database
+      await stopJobQueue()
+      try {
+        const result = await restoreBackup(fileName)
+        return {
+          restored: backupToDTO(result.restored),
+          safetyBackup: backupToDTO(result.safetyBackup),
+          migrationsApplied: result.migrationsApplied,
+          counts: countStoredData(),
+        }
+      } catch (error) {
+        throw toIPCError(error, 'Failed to restore the backup')
+      } finally {
+        startJobQueue()
+      }
+    })
+  })
+}
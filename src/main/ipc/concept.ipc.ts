@@ -1,15 +1,26 @@
 /**
  * @fileoverview IPC handlers for concept operations
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: CRUD operations for concepts with facts array support
- * Main APIs: registerConceptHandlers()
- * Constraints: Connected to ConceptRepository for persistent storage
+ * Features: CRUD operations for concepts with facts array support, CSV/TSV bulk import
+ *   with column mapping, per-row validation preview and duplicate-name handling
+ * Main APIs: registerConceptHandlers(), importConceptsCsv()
+ * Constraints: Connected to ConceptRepository for persistent storage; a CSV import is
+ *   written in one transaction and only when every row is valid
  * Patterns: Handler registration with error handling wrapper
  */
 
+import { createVariants } from './variant.ipc'
 import { asConceptId } from '../../shared/types/branded'
+import { withTransaction } from '../infrastructure/database/connection'
 import { ConceptRepository } from '../infrastructure/database/repositories/concept.repository'
+import {
+  countVariantCards,
+  csvColumnNames,
+  guessCsvMapping,
+  planCsvImport,
+} from '../infrastructure/import/csv-mapper'
+import { detectDelimiter, parseDelimitedText } from '../infrastructure/import/delimited-text'
 
 import { registerHandler, IPCError } from './index'
 
@@ -17,8 +28,11 @@ import type { Concept } from '../../shared/types/core'
 import type {
   ConceptDTO,
   CreateConceptDTO,
+  CsvImportDTO,
+  CsvImportReportDTO,
   UpdateConceptDTO,
 } from '../../shared/types/ipc'
+import type { CsvImportPlan } from '../infrastructure/import/csv-mapper'
 
 // -----------------------------------------------------------------------------
 // Mappers
@@ -33,11 +47,111 @@ function conceptToDTO(concept: Concept): ConceptDTO {
     name: concept.name,
     definition: concept.definition ?? null,
     facts: [...concept.facts],
+    ...(concept.sourcePath !== undefined && { sourcePath: concept.sourcePath }),
     createdAt: concept.createdAt.toISOString(),
     updatedAt: concept.updatedAt.toISOString(),
   }
 }
 
+// -----------------------------------------------------------------------------
+// CSV Import
+// -----------------------------------------------------------------------------
+
+/**
+ * Writes a CSV import plan in one transaction
+ *
+ * Merged concepts keep their definition and gain the facts they lack.
+ */
+function writeCsvPlan(plan: CsvImportPlan): void {
+  withTransaction(() => {
+    for (const planned of plan.concepts) {
+      let concept: Concept
+      if (planned.existingId === null) {
+        concept = ConceptRepository.create({
+          name: planned.name,
+          definition: planned.definition,
+          facts: [...planned.facts],
+        })
+      } else {
+        const existing = ConceptRepository.findById(asConceptId(planned.existingId))
+        if (!existing) {
+          throw new IPCError('NOT_FOUND', `Concept with id ${planned.existingId} not found`)
+        }
+        const newFacts = planned.facts.filter((fact) => !existing.facts.includes(fact))
+        concept =
+          newFacts.length > 0
+            ? ConceptRepository.update(existing.id, { facts: [...existing.facts, ...newFacts] })
+            : existing
+      }
+
+      if (planned.variants.length > 0) {
+        createVariants(planned.variants.map((variant) => ({ ...variant, conceptId: concept.id })))
+      }
+    }
+  })
+}
+
+/**
+ * Previews or imports concepts and variants from CSV or TSV text
+ *
+ * Without a mapping the columns are guessed from the header row, so a first
+ * dry run tells the renderer which columns exist and how they were mapped.
+ *
+ * @throws IPCError VALIDATION_ERROR when the mapping names a missing column,
+ *   or on import when any row has errors
+ */
+export function importConceptsCsv(data: CsvImportDTO): CsvImportReportDTO {
+  const delimiter = data.delimiter ?? detectDelimiter(data.text)
+  const rows = parseDelimitedText(data.text, delimiter)
+  const columns = csvColumnNames(rows, data.hasHeader)
+  const mapping = data.mapping ?? guessCsvMapping(columns, data.hasHeader)
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!Number.isInteger(column) || column < 0 || column >= columns.length) {
+      throw new IPCError('VALIDATION_ERROR', `Column for ${field} does not exist`)
+    }
+  }
+
+  const plan = planCsvImport(rows, {
+    mapping,
+    hasHeader: data.hasHeader,
+    existing: new Map(
+      ConceptRepository.findAll().map((concept) => [concept.name.toLowerCase(), concept.id])
+    ),
+    onDuplicate: data.onDuplicate,
+  })
+  const errorCount = plan.rows.filter((row) => row.status === 'error').length
+
+  if (!data.dryRun) {
+    if (errorCount > 0) {
+      throw new IPCError(
+        'VALIDATION_ERROR',
+        `${errorCount} row${errorCount !== 1 ? 's have' : ' has'} errors; nothing was imported`
+      )
+    }
+    try {
+      writeCsvPlan(plan)
+    } catch (error) {
+      const err = error as Error
+      throw new IPCError('INTERNAL_ERROR', `Failed to import concepts: ${err.message}`)
+    }
+  }
+
+  return {
+    dryRun: data.dryRun,
+    delimiter,
+    columns,
+    mapping,
+    rows: [...plan.rows],
+    conceptsCreated: plan.concepts.filter((concept) => concept.existingId === null).length,
+    conceptsMerged: plan.concepts.filter((concept) => concept.existingId !== null).length,
+    variantsCreated: plan.concepts
+      .flatMap((concept) => concept.variants)
+      .reduce((sum, variant) => sum + countVariantCards(variant), 0),
+    skippedCount: plan.rows.filter((row) => row.status === 'skip').length,
+    errorCount,
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Handlers
 // -----------------------------------------------------------------------------
@@ -110,6 +224,11 @@ export function registerConceptHandlers(): void {
     }
   })
 
+  // Import concepts and variants from CSV/TSV text (or preview with dryRun)
+  registerHandler('concepts:importCsv', (_event, data) => {
+    return importConceptsCsv(data)
+  })
+
   // Delete a concept
   registerHandler('concepts:delete', (_event, id) => {
     try {
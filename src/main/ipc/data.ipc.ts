@@ -0,0 +1,122 @@
+/**
+ * @fileoverview IPC handlers for exporting and importing all study data
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: JSON or YAML export of concepts, variants, schedules, mastery and optionally
+ *   events; validated import that replaces or merges, with a dry-run check first
+ * Main APIs: registerDataHandlers(), exportData(), importData()
+ * Constraints: Requires database connection; an import is written in one transaction
+ * Patterns: Handler registration with error handling wrapper, validate-then-write
+ */
+
+import { runScopedReplay } from './replay.ipc'
+import { replayScopeOf } from '../../domain/services/event-replay.service'
+import { withTransaction } from '../infrastructure/database/connection'
+import {
+  countStoredData,
+  readDataDocument,
+  writeDataDocument,
+} from '../infrastructure/database/data-transfer'
+import {
+  countDataDocument,
+  parseDataDocument,
+  serializeDataDocument,
+} from '../infrastructure/import/data-document'
+import { ImportError } from '../infrastructure/import/errors'
+
+import { registerHandler, IPCError } from './index'
+
+import type {
+  DataExportDTO,
+  DataExportOptionsDTO,
+  DataImportDTO,
+  DataImportReportDTO,
+} from '../../shared/types/ipc'
+import type { DataDocument } from '../infrastructure/import/data-document'
+
+/**
+ * Exports all study data as a data document
+ */
+export function exportData(options: DataExportOptionsDTO): DataExportDTO {
+  const document = readDataDocument({ includeEvents: options.includeEvents })
+  const date = document.exported_at?.slice(0, 10) ?? ''
+
+  return {
+    fileName: `adaptive-mastery-${date}.${options.format}`,
+    content: serializeDataDocument(document, options.format),
+    counts: countDataDocument(document),
+  }
+}
+
+/**
+ * Checks a data document and, unless on a dry run, imports it
+ *
+ * A merge that adds review history rebuilds the mastery and schedules its
+ * events affect from the combined event log, in the same transaction as the
+ * merge; a replace restores them from the document as they are.
+ *
+ * @throws IPCError VALIDATION_ERROR when the document is invalid or from a
+ *   newer version of the app
+ */
+export function importData(request: DataImportDTO): DataImportReportDTO {
+  let document: DataDocument
+  try {
+    document = parseDataDocument(request.content)
+  } catch (error) {
+    if (error instanceof ImportError) {
+      throw new IPCError('VALIDATION_ERROR', error.message, error.context)
+    }
+    throw error
+  }
+
+  const stored = countStoredData()
+  let written = null
+  if (!request.dryRun) {
+    try {
+      written = withTransaction(() => {
+        const result = writeDataDocument(document, request.strategy)
+        if (request.strategy === 'merge' && result.insertedEvents.length > 0) {
+          runScopedReplay(replayScopeOf(result.insertedEvents))
+        }
+        return result.written
+      })
+    } catch (error) {
+      // Each transaction level wraps the error; report the one that started it
+      let err = error as Error
+      while (err.cause instanceof Error) {
+        err = err.cause
+      }
+      throw new IPCError('INTERNAL_ERROR', `Failed to import data: ${err.message}`)
+    }
+  }
+
+  return {
+    dryRun: request.dryRun,
+    strategy: request.strategy,
+    schemaVersion: document.schema_version,
+    exportedAt: document.exported_at,
+    includesEvents: document.db.events !== undefined,
+    inFile: countDataDocument(document),
+    stored,
+    written,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Handlers
+// -----------------------------------------------------------------------------
+
+/**
+ * Registers all data export and import IPC handlers
+ */
+export function registerDataHandlers(): void {
+  // Export all study data as JSON or YAML
+  registerHandler('data:export', (_event, options) => {
+    return exportData(options)
+  })
+
+  // Import a data document (or check it with dryRun)
+  registerHandler('data:import', (_event, request) => {
+    return importData(request)
+  })
+}
@@ -1,28 +1,313 @@
 /**
  * @fileoverview IPC handlers for LLM-based response evaluation
- * @lastmodified 2026-01-20T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Standalone evaluation endpoint for open response questions
+ * Features: Standalone evaluation endpoint for open response questions, evaluation cache
+ *   shared with review submission, replay of stored responses against another model or
+ *   prompt version with a comparison to the stored scores, human overrides of evaluated
+ *   ratings with mastery and schedule correction, calibration of models against overrides
  * Main APIs: registerEvaluationHandlers()
- * Constraints: Requires OpenAI API key configured
+ * Constraints: Requires LLM settings; reports LLM_NOT_CONFIGURED when they are incomplete.
+ *   Replay only reads the event log, it never changes stored scores. Overrides keep the
+ *   LLM score and rating and rebuild only the overridden review's variant, concept and
+ *   dimension from the event log
  * Patterns: Handler registration with error handling wrapper
  */
 
-import { createEvaluatorFromEnv } from '../infrastructure/llm/evaluator'
+import { runScopedReplay } from './replay.ipc'
+import { calibrateEvaluations } from '../../domain/services/evaluation-calibration.service'
+import { replayScopeOf } from '../../domain/services/event-replay.service'
+import { DimensionType } from '../../shared/types/core'
+import { withTransaction } from '../infrastructure/database/connection'
+import {
+  ConceptRepository,
+  EvaluationCacheRepository,
+  EventRepository,
+  VariantRepository,
+} from '../infrastructure/database/repositories'
+import { LLMNotConfiguredError } from '../infrastructure/llm/errors'
+import { describeLLMError, llmServices } from '../infrastructure/llm/registry'
 
-import { registerHandler } from './index'
+import { IPCError, registerHandler } from './index'
 
-import type { EvaluationRequest, LLMEvaluationResult } from '../../shared/types/ipc'
+import type {
+  EvaluationRubric as CoreEvaluationRubric,
+  ReviewEvent,
+} from '../../shared/types/core'
+import type {
+  Dimension,
+  EvaluatedResponseDTO,
+  EvaluationCalibrationDTO,
+  EvaluationOverrideDTO,
+  EvaluationOverrideResultDTO,
+  EvaluationReplayItemDTO,
+  EvaluationReplayOptionsDTO,
+  EvaluationReplayReportDTO,
+  EvaluationRequest,
+  EvaluationRubric,
+  LLMEvaluationResult,
+  Rating,
+} from '../../shared/types/ipc'
+import type { CachingEvaluator } from '../infrastructure/llm/evaluation-cache'
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+/** Responses re-scored when no limit is given */
+const DEFAULT_REPLAY_LIMIT = 50
+
+/** Most responses one replay may re-score */
+const MAX_REPLAY_LIMIT = 500
+
+/** Most evaluated responses returned for review */
+const MAX_HISTORY_LIMIT = 500
+
+/** Ratings a user may give an evaluated response */
+const RATINGS: readonly Rating[] = ['again', 'hard', 'good', 'easy']
+
+/**
+ * Maps core DimensionType enum values to IPC Dimension strings
+ */
+const CORE_TO_DIMENSION: Record<DimensionType, Dimension> = {
+  [DimensionType.DEFINITION_RECALL]: 'definition',
+  [DimensionType.PARAPHRASE_RECOGNITION]: 'paraphrase',
+  [DimensionType.EXAMPLE_CLASSIFICATION]: 'example',
+  [DimensionType.SCENARIO_APPLICATION]: 'scenario',
+  [DimensionType.DISCRIMINATION]: 'discrimination',
+  [DimensionType.CLOZE_FILL]: 'cloze',
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Maps a domain rubric to the IPC rubric sent to the evaluator
+ */
+function mapRubric(rubric?: CoreEvaluationRubric): EvaluationRubric | undefined {
+  if (!rubric) return undefined
+
+  // Use conditional spreading to avoid exactOptionalPropertyTypes violations
+  return {
+    keyPoints: [...rubric.keyPoints],
+    ...(rubric.acceptableVariations !== undefined && {
+      acceptableVariations: [...rubric.acceptableVariations],
+    }),
+    ...(rubric.partialCreditCriteria !== undefined && {
+      partialCreditCriteria: rubric.partialCreditCriteria,
+    }),
+  }
+}
+
+/**
+ * Averages a list of numbers, or null for an empty list
+ */
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
+
+// -----------------------------------------------------------------------------
+// Replay
+// -----------------------------------------------------------------------------
+
+/**
+ * Re-scores the most recent stored open responses
+ *
+ * Each response is evaluated against its variant's current question,
+ * answer and rubric, oldest first and one at a time. Results go through
+ * the evaluation cache, so replaying the same responses with the same
+ * model and prompt version again is free. LLM failures are reported per
+ * response; a missing configuration is reported for the whole replay.
+ *
+ * @throws IPCError with VALIDATION_ERROR for an out-of-range limit
+ */
+async function replayEvaluations(
+  options: EvaluationReplayOptionsDTO
+): Promise<EvaluationReplayReportDTO> {
+  const limit = options.limit ?? DEFAULT_REPLAY_LIMIT
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPLAY_LIMIT) {
+    throw new IPCError('VALIDATION_ERROR', `Limit must be between 1 and ${MAX_REPLAY_LIMIT}`)
+  }
+
+  let evaluator: CachingEvaluator
+  try {
+    evaluator = llmServices.createEvaluator(options.model)
+  } catch (error) {
+    const status = llmServices.getStatus()
+    const model = options.model?.trim() ?? ''
+    return {
+      provider: status.provider,
+      model: model !== '' ? model : status.model,
+      promptVersion: '',
+      items: [],
+      cachedCount: 0,
+      failedCount: 0,
+      meanAbsoluteDifference: null,
+      ratingAgreement: null,
+      error: describeLLMError(error),
+    }
+  }
+
+  const items: EvaluationReplayItemDTO[] = []
+  for (const event of EventRepository.findOpenResponses(limit)) {
+    const variant = VariantRepository.findById(event.variantId)
+    const concept = ConceptRepository.findById(event.conceptId)
+    if (!variant || !concept || event.userResponse === undefined) {
+      continue
+    }
+
+    const mappedRubric = mapRubric(variant.rubric)
+    const request: EvaluationRequest = {
+      question: variant.front,
+      modelAnswer: variant.back,
+      userResponse: event.userResponse,
+      conceptName: concept.name,
+      dimension: CORE_TO_DIMENSION[event.dimension],
+      ...(mappedRubric !== undefined && { rubric: mappedRubric }),
+    }
+
+    const hitsBefore = evaluator.getStats().hits
+    const result = await evaluator.evaluateResponse(request)
+    const item: EvaluationReplayItemDTO = {
+      eventId: event.id,
+      conceptName: concept.name,
+      question: variant.front,
+      userResponse: event.userResponse,
+      reviewedAt: event.createdAt.toISOString(),
+      storedScore: event.llmScore ?? null,
+      storedRating: event.result,
+      score: result.success ? result.value.score : null,
+      rating: result.success ? result.value.suggestedRating : null,
+      cached: evaluator.getStats().hits > hitsBefore,
+    }
+    items.push(result.success ? item : { ...item, error: result.error.message })
+  }
+
+  const scored = items.filter((item) => item.score !== null)
+  const compared = scored.filter((item) => item.storedScore !== null)
+
+  return {
+    provider: evaluator.identity.provider,
+    model: evaluator.identity.model,
+    promptVersion: evaluator.identity.promptVersion,
+    items,
+    cachedCount: items.filter((item) => item.cached).length,
+    failedCount: items.length - scored.length,
+    meanAbsoluteDifference: mean(
+      compared.map((item) => Math.abs((item.score ?? 0) - (item.storedScore ?? 0)))
+    ),
+    ratingAgreement: mean(scored.map((item) => (item.rating === item.storedRating ? 1 : 0))),
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Overrides and Calibration
+// -----------------------------------------------------------------------------
+
+/**
+ * Converts an evaluated event to a DTO with its question and concept name
+ */
+function toEvaluatedResponseDTO(event: ReviewEvent): EvaluatedResponseDTO {
+  const variant = VariantRepository.findById(event.variantId)
+  const concept = ConceptRepository.findById(event.conceptId)
+
+  return {
+    eventId: event.id,
+    conceptName: concept?.name ?? 'Deleted concept',
+    question: variant?.front ?? '',
+    userResponse: event.userResponse ?? '',
+    dimension: CORE_TO_DIMENSION[event.dimension],
+    reviewedAt: event.createdAt.toISOString(),
+    model: event.evaluationModel ?? null,
+    score: event.llmScore ?? 0,
+    feedback: event.llmFeedback ?? null,
+    llmRating: event.llmRating ?? event.result,
+    humanRating: event.humanRating ?? null,
+    overriddenAt: event.overriddenAt?.toISOString() ?? null,
+  }
+}
+
+/**
+ * Sets or clears the user's rating of an evaluated review
+ *
+ * The event's result becomes the user's rating, then the schedule of its
+ * variant and the mastery of its concept and dimension are rebuilt from the
+ * event log in the same transaction, so the review counts as if it had been
+ * rated that way from the start. No other rows are written.
+ *
+ * @throws IPCError with VALIDATION_ERROR for an unknown rating
+ * @throws IPCError with NOT_FOUND if no evaluated review has the ID
+ */
+function overrideEvaluation(data: EvaluationOverrideDTO): EvaluationOverrideResultDTO {
+  if (data.rating !== null && !RATINGS.includes(data.rating)) {
+    throw new IPCError('VALIDATION_ERROR', `Unknown rating: ${String(data.rating)}`)
+  }
+
+  const existing = EventRepository.findById(data.eventId)
+  if (existing?.llmScore === undefined) {
+    throw new IPCError('NOT_FOUND', `No evaluated review with id ${data.eventId}`)
+  }
+
+  const result = withTransaction(() => {
+    const updated = EventRepository.setHumanRating(data.eventId, data.rating)
+    if (!updated) {
+      return null
+    }
+    return {
+      response: toEvaluatedResponseDTO(updated),
+      replay: runScopedReplay(replayScopeOf([updated])),
+    }
+  })
+
+  if (!result) {
+    throw new IPCError('NOT_FOUND', `No evaluated review with id ${data.eventId}`)
+  }
+  return result
+}
+
+/**
+ * Compares every model's evaluations with the user's verdicts
+ */
+function getCalibration(): EvaluationCalibrationDTO[] {
+  return calibrateEvaluations(EventRepository.findEvaluated()).map((group) => ({
+    model: group.model,
+    dimension: group.dimension !== null ? CORE_TO_DIMENSION[group.dimension] : null,
+    count: group.count,
+    overrideCount: group.overrideCount,
+    agreement: group.agreement,
+    meanScore: group.meanScore,
+    bias: group.bias,
+    meanAbsoluteError: group.meanAbsoluteError,
+  }))
+}
+
+// -----------------------------------------------------------------------------
+// Handlers
+// -----------------------------------------------------------------------------
 
 /**
  * Registers all evaluation-related IPC handlers
  */
 export function registerEvaluationHandlers(): void {
+  // Serve repeated evaluations from the database
+  llmServices.useEvaluationCache(EvaluationCacheRepository)
+
   // Evaluate an open response using LLM
   registerHandler(
     'evaluation:evaluate',
     async (_event, request: EvaluationRequest): Promise<LLMEvaluationResult> => {
-      const evaluator = createEvaluatorFromEnv()
+      let evaluator
+      try {
+        evaluator = llmServices.getEvaluator()
+      } catch (error) {
+        if (error instanceof LLMNotConfiguredError) {
+          throw new IPCError('LLM_NOT_CONFIGURED', error.message, {
+            missingFields: error.missingFields,
+          })
+        }
+        throw error
+      }
       const result = await evaluator.evaluateResponse(request)
 
       if (!result.success) {
@@ -32,4 +317,25 @@ export function registerEvaluationHandlers(): void {
       return result.value
     }
   )
+
+  // Re-score stored open responses and compare with the stored scores
+  registerHandler('evaluation:replay', (_event, options: EvaluationReplayOptionsDTO) =>
+    replayEvaluations(options)
+  )
+
+  // Most recent evaluated responses with their verdicts, newest first
+  registerHandler('evaluation:getHistory', (_event, { limit }) => {
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      throw new IPCError('VALIDATION_ERROR', `Limit must be between 1 and ${MAX_HISTORY_LIMIT}`)
+    }
+    return EventRepository.findEvaluated(limit).map(toEvaluatedResponseDTO)
+  })
+
+  // Dispute (or restore) the rating of an evaluated review
+  registerHandler('evaluation:override', (_event, data: EvaluationOverrideDTO) =>
+    overrideEvaluation(data)
+  )
+
+  // LLM score versus human verdict per model and dimension
+  registerHandler('evaluation:getCalibration', () => getCalibration())
 }
@@ -0,0 +1,367 @@
+/**
+ * @fileoverview IPC handlers for importing study material from other tools
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Anki .apkg/.colpkg import as concepts and variants, optional review history as
+ *   events with mastery and schedules rebuilt from them, dry-run report of skipped items;
+ *   Markdown/Obsidian folder import that updates the concepts of earlier imports
+ * Main APIs: registerImportHandlers(), importAnkiPackage(), importMarkdownFolder()
+ * Constraints: Requires database connection; everything is written in one transaction
+ * Patterns: Handler registration with error handling wrapper, plan-then-write
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs'
+import { join, relative, resolve, sep } from 'path'
+
+import { BrowserWindow, dialog, type OpenDialogOptions } from 'electron'
+
+import { runScopedReplay } from './replay.ipc'
+import { replayScopeOf } from '../../domain/services/event-replay.service'
+import { asConceptId } from '../../shared/types/branded'
+import { DimensionType } from '../../shared/types/core'
+import { withTransaction } from '../infrastructure/database/connection'
+import {
+  ConceptRepository,
+  EventRepository,
+  VariantRepository,
+} from '../infrastructure/database/repositories'
+import { planAnkiImport } from '../infrastructure/import/anki-mapper'
+import { readAnkiPackage } from '../infrastructure/import/anki-package'
+import { ImportError } from '../infrastructure/import/errors'
+import {
+  DEFAULT_HEADING_LEVEL,
+  planMarkdownImport,
+} from '../infrastructure/import/markdown-notes'
+
+import { registerHandler, IPCError } from './index'
+
+import type { VariantId } from '../../shared/types/branded'
+import type { ReviewEvent, Variant } from '../../shared/types/core'
+import type {
+  AnkiImportDTO,
+  AnkiImportReportDTO,
+  Dimension,
+  MarkdownConceptStatus,
+  MarkdownImportDTO,
+  MarkdownImportReportDTO,
+} from '../../shared/types/ipc'
+import type { AnkiImportPlan } from '../infrastructure/import/anki-mapper'
+import type { MarkdownImportPlan, MarkdownNote } from '../infrastructure/import/markdown-notes'
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+/**
+ * Maps core DimensionType enum values to IPC Dimension strings
+ */
+const CORE_TO_DIMENSION: Record<DimensionType, Dimension> = {
+  [DimensionType.DEFINITION_RECALL]: 'definition',
+  [DimensionType.PARAPHRASE_RECOGNITION]: 'paraphrase',
+  [DimensionType.EXAMPLE_CLASSIFICATION]: 'example',
+  [DimensionType.SCENARIO_APPLICATION]: 'scenario',
+  [DimensionType.DISCRIMINATION]: 'discrimination',
+  [DimensionType.CLOZE_FILL]: 'cloze',
+}
+
+// -----------------------------------------------------------------------------
+// Anki
+// -----------------------------------------------------------------------------
+
+/**
+ * Writes an import plan, returning the number of events created
+ *
+ * Variants are created without schedules so they start as new cards.
+ * Imported review history gives its variants replayed schedules, and the
+ * mastery of their concepts and dimensions is rebuilt with it, in the same
+ * transaction as the inserts.
+ */
+function writeAnkiPlan(plan: AnkiImportPlan): number {
+  return withTransaction(() => {
+    const variantsByCard = new Map<number, Variant>()
+
+    for (const planned of plan.concepts) {
+      const concept = ConceptRepository.create({
+        name: planned.name,
+        definition: planned.definition,
+        facts: [...planned.facts],
+      })
+
+      for (const card of planned.variants) {
+        const variant = VariantRepository.create({
+          conceptId: concept.id,
+          dimension: card.dimension,
+          difficulty: card.difficulty,
+          front: card.front,
+          back: card.back,
+          hints: [],
+          lastShownAt: null,
+          questionType: 'flashcard',
+          ...(card.clozeIndex !== undefined && { clozeIndex: card.clozeIndex }),
+        })
+        variantsByCard.set(card.ankiCardId, variant)
+      }
+    }
+
+    const lastShown = new Map<VariantId, Date>()
+    const events: ReviewEvent[] = []
+    for (const review of plan.reviews) {
+      const variant = variantsByCard.get(review.ankiCardId)
+      if (!variant) {
+        continue
+      }
+      const event = EventRepository.create({
+        conceptId: variant.conceptId,
+        variantId: variant.id,
+        dimension: variant.dimension,
+        difficulty: variant.difficulty,
+        result: review.result,
+        timeMs: review.timeMs,
+        hintsUsed: 0,
+        createdAt: review.reviewedAt,
+      })
+      events.push(event)
+      lastShown.set(variant.id, review.reviewedAt)
+    }
+
+    for (const [variantId, reviewedAt] of lastShown) {
+      VariantRepository.updateLastShown(variantId, reviewedAt)
+    }
+
+    if (events.length > 0) {
+      runScopedReplay(replayScopeOf(events))
+    }
+
+    return events.length
+  })
+}
+
+/**
+ * Imports an Anki package, or reports what it would import
+ *
+ * Notes named like an existing concept are skipped rather than merged, so
+ * importing the same deck twice adds nothing the second time. With review
+ * history, the imported variants' schedules and the mastery they affect are
+ * rebuilt from the event log.
+ *
+ * @throws IPCError VALIDATION_ERROR when the file cannot be read as an Anki package
+ */
+export function importAnkiPackage(request: AnkiImportDTO): AnkiImportReportDTO {
+  let plan: AnkiImportPlan
+  try {
+    const collection = readAnkiPackage(
+      Buffer.from(request.data.buffer, request.data.byteOffset, request.data.byteLength)
+    )
+    plan = planAnkiImport(collection, {
+      existingNames: new Set(ConceptRepository.findAll().map((concept) => concept.name)),
+      includeReviewHistory: request.includeReviewHistory,
+    })
+  } catch (error) {
+    if (error instanceof ImportError) {
+      throw new IPCError('VALIDATION_ERROR', error.message, { fileName: request.fileName })
+    }
+    throw error
+  }
+
+  const dimensionCounts: Record<Dimension, number> = {
+    definition: 0,
+    paraphrase: 0,
+    example: 0,
+    scenario: 0,
+    discrimination: 0,
+    cloze: 0,
+  }
+  for (const concept of plan.concepts) {
+    for (const variant of concept.variants) {
+      dimensionCounts[CORE_TO_DIMENSION[variant.dimension]]++
+    }
+  }
+
+  let eventCount = plan.reviews.length
+  if (!request.dryRun) {
+    eventCount = writeAnkiPlan(plan)
+  }
+
+  return {
+    fileName: request.fileName,
+    dryRun: request.dryRun,
+    conceptCount: plan.concepts.length,
+    variantCount: plan.concepts.reduce((sum, concept) => sum + concept.variants.length, 0),
+    dimensionCounts,
+    eventCount,
+    skipped: plan.skipped.map((item) => ({
+      kind: item.kind,
+      label: item.label,
+      reason: item.reason,
+    })),
+    skippedReviewCount: plan.skippedReviewCount,
+    notesWithMedia: plan.notesWithMedia,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Markdown
+// -----------------------------------------------------------------------------
+
+/** File extensions read as Markdown notes */
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown']
+
+/**
+ * Reads the Markdown files of a folder and its subfolders
+ *
+ * Hidden folders, such as Obsidian's .obsidian and .trash, are left out.
+ */
+function readMarkdownFiles(folderPath: string): MarkdownNote[] {
+  const notes: MarkdownNote[] = []
+  const visit = (folder: string): void => {
+    const entries = readdirSync(folder, { withFileTypes: true }).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    )
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue
+      }
+      const path = join(folder, entry.name)
+      if (entry.isDirectory()) {
+        visit(path)
+      } else if (
+        entry.isFile() &&
+        MARKDOWN_EXTENSIONS.some((extension) => entry.name.toLowerCase().endsWith(extension))
+      ) {
+        notes.push({ path, content: readFileSync(path, 'utf-8') })
+      }
+    }
+  }
+  visit(folderPath)
+  return notes
+}
+
+/**
+ * Writes the creates and updates of an import plan
+ */
+function writeMarkdownPlan(plan: MarkdownImportPlan): void {
+  withTransaction(() => {
+    for (const planned of plan.concepts) {
+      const data = {
+        name: planned.name,
+        definition: planned.definition,
+        facts: [...planned.facts],
+        sourcePath: planned.sourcePath,
+      }
+      if (planned.status === 'create') {
+        ConceptRepository.create(data)
+      } else if (planned.status === 'update' && planned.conceptId !== null) {
+        ConceptRepository.update(asConceptId(planned.conceptId), data)
+      }
+    }
+  })
+}
+
+/**
+ * Imports a folder of Markdown notes, or reports what it would import
+ *
+ * Concepts keep the path of their note, plus the heading for heading
+ * concepts, so importing the folder again updates the concepts whose text
+ * changed instead of adding them twice. Concepts whose note or heading is
+ * gone are reported and left as they are, with their variants and history.
+ *
+ * @throws IPCError VALIDATION_ERROR when the folder cannot be read or the
+ *   heading level is not 1 to 6
+ */
+export function importMarkdownFolder(request: MarkdownImportDTO): MarkdownImportReportDTO {
+  const headingLevel = request.headingLevel ?? DEFAULT_HEADING_LEVEL
+  if (!Number.isInteger(headingLevel) || headingLevel < 1 || headingLevel > 6) {
+    throw new IPCError('VALIDATION_ERROR', 'Heading level must be a whole number from 1 to 6')
+  }
+
+  const folderPath = resolve(request.folderPath)
+  let notes: MarkdownNote[]
+  try {
+    if (!statSync(folderPath).isDirectory()) {
+      throw new Error('Not a folder')
+    }
+    notes = readMarkdownFiles(folderPath)
+  } catch (error) {
+    throw new IPCError('VALIDATION_ERROR', `Cannot read the folder ${folderPath}`, {
+      folderPath,
+      cause: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  const plan = planMarkdownImport(notes, {
+    headingLevel,
+    existing: ConceptRepository.findAll(),
+    sourcePrefix: folderPath + sep,
+  })
+  if (!request.dryRun) {
+    try {
+      writeMarkdownPlan(plan)
+    } catch (error) {
+      const err = error as Error
+      const cause = err.cause instanceof Error ? `: ${err.cause.message}` : ''
+      throw new IPCError('INTERNAL_ERROR', `Failed to import the notes${cause}`)
+    }
+  }
+
+  const counts: Record<MarkdownConceptStatus, number> = {
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    skip: 0,
+  }
+  for (const concept of plan.concepts) {
+    counts[concept.status]++
+  }
+
+  return {
+    folderPath,
+    dryRun: request.dryRun,
+    noteCount: notes.length,
+    concepts: plan.concepts.map((concept) => ({
+      source: relative(folderPath, concept.sourcePath),
+      name: concept.name,
+      definition: concept.definition,
+      facts: [...concept.facts],
+      status: concept.status,
+      reason: concept.reason,
+    })),
+    counts,
+    skippedNotes: plan.skippedNotes.map((note) => ({
+      path: relative(folderPath, note.path),
+      reason: note.reason,
+    })),
+    missing: plan.missing.map((concept) => concept.name),
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Handlers
+// -----------------------------------------------------------------------------
+
+/**
+ * Registers all import-related IPC handlers
+ */
+export function registerImportHandlers(): void {
+  // Import an Anki deck or collection package (or preview with dryRun)
+  registerHandler('import:anki', (_event, request) => {
+    return importAnkiPackage(request)
+  })
+
+  // Ask for a folder to import notes from; null when the dialog is cancelled
+  registerHandler('import:chooseFolder', async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender)
+    const options: OpenDialogOptions = {
+      title: 'Choose a folder of Markdown notes',
+      properties: ['openDirectory'],
+    }
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options)
+    return result.canceled ? null : (result.filePaths[0] ?? null)
+  })
+
+  // Import a folder of Markdown or Obsidian notes (or preview with dryRun)
+  registerHandler('import:markdown', (_event, request) => {
+    return importMarkdownFolder(request)
+  })
+}
@@ -11,9 +11,14 @@
 import { ipcMain, type IpcMainInvokeEvent } from 'electron'
 
 import { registerAnalyticsHandlers } from './analytics.ipc'
+import { registerBackupHandlers } from './backup.ipc'
 import { registerConceptHandlers } from './concept.ipc'
+import { registerDataHandlers } from './data.ipc'
 import { registerEvaluationHandlers } from './evaluation.ipc'
+import { registerImportHandlers } from './import.ipc'
+import { registerJobHandlers } from './jobs.ipc'
 import { registerMasteryHandlers } from './mastery.ipc'
+import { registerReplayHandlers } from './replay.ipc'
 import { registerReviewHandlers } from './review.ipc'
 import { registerScheduleHandlers } from './schedule.ipc'
 import { registerSettingsHandlers } from './settings.ipc'
@@ -124,6 +129,11 @@ export function registerIPCHandlers(): void {
   registerScheduleHandlers()
   registerSettingsHandlers()
   registerEvaluationHandlers()
+  registerReplayHandlers()
+  registerJobHandlers()
+  registerImportHandlers()
+  registerDataHandlers()
+  registerBackupHandlers()
 
   console.log('[IPC] All handlers registered')
 }
@@ -0,0 +1,398 @@
+/**
+ * @fileoverview IPC handlers and wiring for background variant generation jobs
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Queue generation for many concepts at once, fill variant gaps found from the
+ *   weakness profile, cancel, retry, clear finished, progress events pushed to every window,
+ *   queue start after database initialization
+ * Main APIs: registerJobHandlers(), startJobQueue(), stopJobQueue(), enqueueGenerationJobs()
+ * Constraints: Generated variants are saved as flashcards without review; the queue must
+ *   only start once the database is ready
+ * Patterns: Module-level queue singleton, handler registration with error handling wrapper
+ */
+
+import { BrowserWindow } from 'electron'
+
+import { getMasteryConfig } from './settings.ipc'
+import { createVariants } from './variant.ipc'
+import { findVariantGaps, getFocusDimensions } from '../../domain/services/variant-gap.service'
+import { asConceptId } from '../../shared/types/branded'
+import { DimensionType } from '../../shared/types/core'
+import {
+  ConceptMasteryRepository,
+  ConceptRepository,
+  GenerationJobRepository,
+  MasteryRepository,
+  VariantRepository,
+} from '../infrastructure/database/repositories'
+import { GenerationQueue } from '../infrastructure/jobs/generation-queue'
+import { llmServices } from '../infrastructure/llm/registry'
+
+import { IPCError, registerHandler } from './index'
+
+import type { GapTargets } from '../../domain/services/variant-gap.service'
+import type { DifficultyLevel } from '../../shared/types/core'
+import type {
+  Dimension,
+  EnqueueGenerationDTO,
+  FillGapsDTO,
+  FillGapsResultDTO,
+  GenerationJobDTO,
+  IPCEvents,
+  VariantGapDTO,
+} from '../../shared/types/ipc'
+import type { GenerationJob, NewGenerationJob } from '../infrastructure/jobs/types'
+import type { GeneratedVariant } from '../infrastructure/llm/types'
+
+/** Most variants that can be requested per job */
+const MAX_JOB_COUNT = 10
+
+/**
+ * Maps IPC Dimension strings to core DimensionType enum values
+ */
+const DIMENSION_TO_CORE: Record<Dimension, DimensionType> = {
+  definition: DimensionType.DEFINITION_RECALL,
+  paraphrase: DimensionType.PARAPHRASE_RECOGNITION,
+  example: DimensionType.EXAMPLE_CLASSIFICATION,
+  scenario: DimensionType.SCENARIO_APPLICATION,
+  discrimination: DimensionType.DISCRIMINATION,
+  cloze: DimensionType.CLOZE_FILL,
+}
+
+/**
+ * Maps core DimensionType enum values to IPC Dimension strings
+ */
+const CORE_TO_DIMENSION: Record<DimensionType, Dimension> = {
+  [DimensionType.DEFINITION_RECALL]: 'definition',
+  [DimensionType.PARAPHRASE_RECOGNITION]: 'paraphrase',
+  [DimensionType.EXAMPLE_CLASSIFICATION]: 'example',
+  [DimensionType.SCENARIO_APPLICATION]: 'scenario',
+  [DimensionType.DISCRIMINATION]: 'discrimination',
+  [DimensionType.CLOZE_FILL]: 'cloze',
+}
+
+// -----------------------------------------------------------------------------
+// Mappers
+// -----------------------------------------------------------------------------
+
+/**
+ * Maps a job to a GenerationJobDTO, looking up the concept name
+ */
+function jobToDTO(job: GenerationJob): GenerationJobDTO {
+  return {
+    id: job.id,
+    conceptId: job.conceptId,
+    conceptName: ConceptRepository.findById(job.conceptId)?.name ?? 'Deleted concept',
+    dimension: job.dimension,
+    difficulty: job.difficulty,
+    count: job.count,
+    status: job.status,
+    attempts: job.attempts,
+    error: job.error,
+    variantsCreated: job.variantsCreated,
+    runAfter: job.runAfter.toISOString(),
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Queue
+// -----------------------------------------------------------------------------
+
+/**
+ * Sends an event to every open window
+ */
+function broadcast<K extends keyof IPCEvents>(channel: K, payload: IPCEvents[K]): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    window.webContents.send(channel, payload)
+  }
+}
+
+/**
+ * Runs the LLM call for a job
+ */
+async function generateForJob(job: GenerationJob): Promise<GeneratedVariant[]> {
+  const concept = ConceptRepository.findById(job.conceptId)
+  if (!concept) {
+    throw new Error(`Concept with id ${job.conceptId} not found`)
+  }
+
+  // Throws LLMNotConfiguredError, which fails the job without retrying
+  const result = await llmServices.getGenerator().generateVariants({
+    concept: { name: concept.name, definition: concept.definition, facts: concept.facts },
+    dimension: job.dimension,
+    difficulty: job.difficulty,
+    count: job.count,
+  })
+  if (!result.success) {
+    throw result.error
+  }
+  return result.value
+}
+
+/**
+ * Saves a job's generated variants as flashcards
+ */
+function saveJobVariants(job: GenerationJob, variants: readonly GeneratedVariant[]): number {
+  return createVariants(
+    variants.map((variant) => ({
+      conceptId: job.conceptId,
+      dimension: variant.dimension,
+      difficulty: variant.difficulty,
+      front: variant.front,
+      back: variant.back,
+      hints: [...variant.hints],
+      questionType: 'flashcard' as const,
+    }))
+  ).length
+}
+
+const generationQueue = new GenerationQueue({
+  store: GenerationJobRepository,
+  generate: generateForJob,
+  save: saveJobVariants,
+  onProgress: (job) => broadcast('jobs:progress', jobToDTO(job)),
+})
+
+/**
+ * Starts processing queued jobs, resuming any interrupted by the last shutdown
+ *
+ * Call after the database has been initialized.
+ */
+export function startJobQueue(): void {
+  const recovered = generationQueue.start()
+  if (recovered > 0) {
+    console.warn(`[Jobs] Re-queued ${recovered} interrupted generation job(s)`)
+  }
+}
+
+/**
+ * Stops picking up new jobs and drops the outcome of running ones (called on quit)
+ *
+ * Running jobs stay marked running and are re-queued by the next start.
+ *
+ * @returns Resolves once the LLM calls of the running jobs have settled
+ */
+export function stopJobQueue(): Promise<void> {
+  return generationQueue.stop()
+}
+
+/**
+ * Queues generation jobs and wakes the queue
+ *
+ * @param jobs - Jobs to queue
+ * @returns The queued jobs as DTOs
+ */
+export function enqueueGenerationJobs(jobs: readonly NewGenerationJob[]): GenerationJobDTO[] {
+  const created = GenerationJobRepository.createMany(jobs)
+  generationQueue.wake()
+  return created.map(jobToDTO)
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+/**
+ * Expands an enqueue request into one job per concept, dimension and difficulty
+ *
+ * @throws IPCError with VALIDATION_ERROR or NOT_FOUND
+ */
+function toNewJobs(data: EnqueueGenerationDTO): NewGenerationJob[] {
+  if (data.conceptIds.length === 0) {
+    throw new IPCError('VALIDATION_ERROR', 'Select at least one concept')
+  }
+  if (data.dimensions.length === 0) {
+    throw new IPCError('VALIDATION_ERROR', 'Select at least one dimension')
+  }
+  if (data.difficulties.length === 0) {
+    throw new IPCError('VALIDATION_ERROR', 'Select at least one difficulty level')
+  }
+  if (data.difficulties.some((d) => !Number.isInteger(d) || d < 1 || d > 5)) {
+    throw new IPCError('VALIDATION_ERROR', 'Difficulty levels must be between 1 and 5')
+  }
+  if (!Number.isInteger(data.count) || data.count < 1 || data.count > MAX_JOB_COUNT) {
+    throw new IPCError('VALIDATION_ERROR', `Count must be between 1 and ${MAX_JOB_COUNT}`)
+  }
+
+  const jobs: NewGenerationJob[] = []
+  for (const conceptId of new Set(data.conceptIds)) {
+    if (!ConceptRepository.findById(asConceptId(conceptId))) {
+      throw new IPCError('NOT_FOUND', `Concept with id ${conceptId} not found`)
+    }
+    for (const dimension of new Set<Dimension>(data.dimensions)) {
+      for (const difficulty of new Set(data.difficulties)) {
+        jobs.push({
+          conceptId: asConceptId(conceptId),
+          dimension,
+          difficulty: difficulty as DifficultyLevel,
+          count: data.count,
+        })
+      }
+    }
+  }
+  return jobs
+}
+
+/**
+ * Validates fill-gaps options and converts them to gap targets
+ *
+ * @throws IPCError with VALIDATION_ERROR
+ */
+function toGapTargets(data: FillGapsDTO): GapTargets {
+  if (data.difficulties.length === 0) {
+    throw new IPCError('VALIDATION_ERROR', 'Select at least one difficulty level')
+  }
+  if (data.difficulties.some((d) => !Number.isInteger(d) || d < 1 || d > 5)) {
+    throw new IPCError('VALIDATION_ERROR', 'Difficulty levels must be between 1 and 5')
+  }
+  for (const [field, value] of [
+    ['perCell', data.perCell],
+    ['weakPerCell', data.weakPerCell],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_JOB_COUNT) {
+      throw new IPCError('VALIDATION_ERROR', `${field} must be between 0 and ${MAX_JOB_COUNT}`)
+    }
+  }
+  if (data.perCell === 0 && data.weakPerCell === 0) {
+    throw new IPCError('VALIDATION_ERROR', 'At least one per-cell target must be above 0')
+  }
+
+  return {
+    difficulties: data.difficulties as DifficultyLevel[],
+    perCell: data.perCell,
+    weakPerCell: data.weakPerCell,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Gap Filling
+// -----------------------------------------------------------------------------
+
+/**
+ * Finds the variants concepts are missing and queues one job per gap
+ *
+ * Each concept's cells are checked against its own weakness profile, with the
+ * learner-wide profile used to spot dodging. Variants in queued or running jobs
+ * count towards their cell, so running this twice does not double the work.
+ *
+ * @throws IPCError with VALIDATION_ERROR or NOT_FOUND
+ */
+function fillGaps(data: FillGapsDTO): FillGapsResultDTO {
+  const targets = toGapTargets(data)
+
+  const concepts =
+    data.conceptIds !== undefined
+      ? [...new Set(data.conceptIds)].map((id) => {
+          const concept = ConceptRepository.findById(asConceptId(id))
+          if (!concept) {
+            throw new IPCError('NOT_FOUND', `Concept with id ${id} not found`)
+          }
+          return concept
+        })
+      : ConceptRepository.findAll()
+
+  const config = getMasteryConfig()
+  const globalProfile = MasteryRepository.findAll()
+  const gaps: VariantGapDTO[] = []
+
+  for (const concept of concepts) {
+    const focus = getFocusDimensions(
+      ConceptMasteryRepository.findByConceptId(concept.id),
+      globalProfile,
+      config
+    )
+    const pending = GenerationJobRepository.findActive(concept.id).map((job) => ({
+      dimension: DIMENSION_TO_CORE[job.dimension],
+      difficulty: job.difficulty,
+      count: job.count,
+    }))
+
+    for (const gap of findVariantGaps(
+      VariantRepository.findByConceptId(concept.id),
+      pending,
+      focus,
+      targets
+    )) {
+      gaps.push({
+        conceptId: concept.id,
+        conceptName: concept.name,
+        dimension: CORE_TO_DIMENSION[gap.dimension],
+        difficulty: gap.difficulty,
+        existing: gap.existing,
+        pending: gap.pending,
+        target: gap.target,
+        missing: gap.missing,
+        reason: gap.reason,
+      })
+    }
+  }
+
+  if (data.dryRun || gaps.length === 0) {
+    return { gaps, jobs: [] }
+  }
+
+  const jobs = enqueueGenerationJobs(
+    gaps.map((gap) => ({
+      conceptId: asConceptId(gap.conceptId),
+      dimension: gap.dimension,
+      difficulty: gap.difficulty as DifficultyLevel,
+      count: gap.missing,
+    }))
+  )
+  return { gaps, jobs }
+}
+
+// -----------------------------------------------------------------------------
+// Handlers
+// -----------------------------------------------------------------------------
+
+/**
+ * Registers all background job IPC handlers
+ */
+export function registerJobHandlers(): void {
+  // Recent jobs and in-flight state
+  registerHandler('jobs:getStatus', () => {
+    const stats = generationQueue.getStats()
+    return {
+      jobs: GenerationJobRepository.findAll().map(jobToDTO),
+      running: stats.running,
+      pausedUntil: stats.pausedUntil?.toISOString() ?? null,
+    }
+  })
+
+  // Queue generation for concepts x dimensions x difficulties
+  registerHandler('jobs:enqueueGeneration', (_event, data: EnqueueGenerationDTO) =>
+    enqueueGenerationJobs(toNewJobs(data))
+  )
+
+  // Queue generation for the variants concepts are missing
+  registerHandler('jobs:fillGaps', (_event, data: FillGapsDTO) => fillGaps(data))
+
+  // Cancel a queued or running job
+  registerHandler('jobs:cancel', (_event, id: string) => {
+    const job = GenerationJobRepository.cancel(id)
+    if (!job) {
+      throw new IPCError('NOT_FOUND', `No queued or running job with id ${id}`)
+    }
+    const dto = jobToDTO(job)
+    broadcast('jobs:progress', dto)
+    return dto
+  })
+
+  // Retry a failed or cancelled job
+  registerHandler('jobs:retry', (_event, id: string) => {
+    const job = GenerationJobRepository.retry(id)
+    if (!job) {
+      throw new IPCError('NOT_FOUND', `No failed or cancelled job with id ${id}`)
+    }
+    generationQueue.wake()
+    const dto = jobToDTO(job)
+    broadcast('jobs:progress', dto)
+    return dto
+  })
+
+  // Remove completed, failed and cancelled jobs from the list
+  registerHandler('jobs:clearFinished', () => GenerationJobRepository.deleteFinished())
+}
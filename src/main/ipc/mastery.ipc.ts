@@ -1,16 +1,34 @@
 /**
  * @fileoverview IPC handlers for mastery operations
- * @lastmodified 2025-01-16T00:00:00Z
+ * @lastmodified 2026-01-26T00:00:00Z
  *
- * Features: Mastery profile retrieval, dimension-specific mastery
+ * Features: Global mastery profile, dimension-specific mastery, per-concept mastery profiles,
+ *   recomputing stored mastery from the event log with the current settings
  * Main APIs: registerMasteryHandlers()
- * Constraints: Stub implementations until repository is connected
+ * Constraints: Requires database connection
  * Patterns: Handler registration with error handling wrapper
  */
 
-import { registerHandler } from './index'
-
+import { applyReplayDiff, loadStoredSnapshot } from './replay.ipc'
+import { getMasteryConfig } from './settings.ipc'
+import {
+  diffReplay,
+  replayMasteryFromEvents,
+} from '../../domain/services/event-replay.service'
+import { asConceptId } from '../../shared/types/branded'
+import { DimensionType } from '../../shared/types/core'
+import {
+  ConceptMasteryRepository,
+  ConceptRepository,
+  EventRepository,
+  MasteryRepository,
+} from '../infrastructure/database/repositories'
+
+import { registerHandler, IPCError } from './index'
+
+import type { DimensionMastery, MasteryProfile } from '../../shared/types/core'
 import type {
+  ConceptMasteryProfileDTO,
   MasteryProfileDTO,
   MasteryDTO,
   Dimension,
@@ -20,20 +38,28 @@ import type {
 // Constants
 // -----------------------------------------------------------------------------
 
-const ALL_DIMENSIONS: Dimension[] = [
-  'definition',
-  'paraphrase',
-  'example',
-  'scenario',
-  'discrimination',
-  'cloze',
-]
-
-const DEFAULT_MASTERY: MasteryDTO = {
-  dimension: 'definition',
-  accuracyEwma: 0.5,
-  speedEwma: 0.5,
-  count: 0,
+/**
+ * Maps IPC Dimension strings to core DimensionType enum values
+ */
+const DIMENSION_TO_CORE: Record<Dimension, DimensionType> = {
+  definition: DimensionType.DEFINITION_RECALL,
+  paraphrase: DimensionType.PARAPHRASE_RECOGNITION,
+  example: DimensionType.EXAMPLE_CLASSIFICATION,
+  scenario: DimensionType.SCENARIO_APPLICATION,
+  discrimination: DimensionType.DISCRIMINATION,
+  cloze: DimensionType.CLOZE_FILL,
+}
+
+/**
+ * Maps core DimensionType enum values to IPC Dimension strings
+ */
+const CORE_TO_DIMENSION: Record<DimensionType, Dimension> = {
+  [DimensionType.DEFINITION_RECALL]: 'definition',
+  [DimensionType.PARAPHRASE_RECOGNITION]: 'paraphrase',
+  [DimensionType.EXAMPLE_CLASSIFICATION]: 'example',
+  [DimensionType.SCENARIO_APPLICATION]: 'scenario',
+  [DimensionType.DISCRIMINATION]: 'discrimination',
+  [DimensionType.CLOZE_FILL]: 'cloze',
 }
 
 // -----------------------------------------------------------------------------
@@ -48,13 +74,77 @@ function getMasteryScore(mastery: MasteryDTO): number {
 }
 
 /**
- * Creates default mastery data for all dimensions
+ * Converts domain DimensionMastery to a MasteryDTO for IPC transport
+ */
+function masteryToDTO(dimension: DimensionType, mastery: DimensionMastery): MasteryDTO {
+  return {
+    dimension: CORE_TO_DIMENSION[dimension],
+    accuracyEwma: mastery.accuracyEwma,
+    speedEwma: mastery.speedEwma,
+    count: mastery.recentCount,
+  }
+}
+
+/**
+ * Builds a profile summary (overall score, weakest and strongest dimension)
+ * from a domain MasteryProfile
  */
-function createDefaultMasterySet(): MasteryDTO[] {
-  return ALL_DIMENSIONS.map((dimension) => ({
-    ...DEFAULT_MASTERY,
-    dimension,
-  }))
+function profileToDTO(profile: MasteryProfile): MasteryProfileDTO {
+  const dimensions = Object.values(DimensionType).map((dimension) =>
+    masteryToDTO(dimension, profile[dimension])
+  )
+
+  // Calculate overall score
+  const totalScore = dimensions.reduce((sum, m) => sum + getMasteryScore(m), 0)
+  const overallScore = totalScore / dimensions.length
+
+  // Find weakest and strongest dimensions
+  let weakest: MasteryDTO | null = null
+  let strongest: MasteryDTO | null = null
+  let minScore = Infinity
+  let maxScore = -Infinity
+
+  for (const mastery of dimensions) {
+    const score = getMasteryScore(mastery)
+    if (score < minScore) {
+      minScore = score
+      weakest = mastery
+    }
+    if (score > maxScore) {
+      maxScore = score
+      strongest = mastery
+    }
+  }
+
+  return {
+    dimensions,
+    overallScore,
+    weakestDimension: weakest?.dimension ?? null,
+    strongestDimension: strongest?.dimension ?? null,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Recompute
+// -----------------------------------------------------------------------------
+
+/**
+ * Rebuilds the global and per-concept mastery tables from the event log
+ *
+ * Replays every review event with the current mastery configuration, so
+ * changes to ewmaAlpha or targetTimes apply to past reviews. Dimensions
+ * without events are reset to initial values. Schedules are left untouched;
+ * use replay:run to rebuild those as well.
+ */
+function recomputeMastery(): MasteryProfile {
+  const stored = loadStoredSnapshot()
+  const replayed = replayMasteryFromEvents(EventRepository.findAll(), getMasteryConfig())
+
+  applyReplayDiff(
+    diffReplay({ ...stored, schedules: [] }, { ...replayed, schedules: [] })
+  )
+
+  return MasteryRepository.findAll()
 }
 
 // -----------------------------------------------------------------------------
@@ -67,60 +157,49 @@ function createDefaultMasterySet(): MasteryDTO[] {
 export function registerMasteryHandlers(): void {
   // Get full mastery profile
   registerHandler('mastery:getProfile', () => {
-    // TODO: Replace with repository call
-    // const dimensions = await masteryRepository.findAll()
-
-    // Stub: Return default mastery for all dimensions
-    const dimensions = createDefaultMasterySet()
-
-    // Calculate overall score
-    const totalScore = dimensions.reduce(
-      (sum, m) => sum + getMasteryScore(m),
-      0
-    )
-    const overallScore = totalScore / dimensions.length
-
-    // Find weakest and strongest dimensions
-    let weakest: MasteryDTO | null = null
-    let strongest: MasteryDTO | null = null
-    let minScore = Infinity
-    let maxScore = -Infinity
-
-    for (const mastery of dimensions) {
-      const score = getMasteryScore(mastery)
-      if (score < minScore) {
-        minScore = score
-        weakest = mastery
-      }
-      if (score > maxScore) {
-        maxScore = score
-        strongest = mastery
-      }
+    return profileToDTO(MasteryRepository.findAll())
+  })
+
+  // Get mastery for a specific dimension
+  registerHandler('mastery:getByDimension', (_event, dimension) => {
+    const coreDimension = DIMENSION_TO_CORE[dimension]
+    const mastery = MasteryRepository.findByDimension(coreDimension) ?? {
+      accuracyEwma: 0.5,
+      speedEwma: 0.5,
+      recentCount: 0,
     }
 
-    const profile: MasteryProfileDTO = {
-      dimensions,
-      overallScore,
-      weakestDimension: weakest?.dimension ?? null,
-      strongestDimension: strongest?.dimension ?? null,
+    return masteryToDTO(coreDimension, mastery)
+  })
+
+  // Get mastery profile for a single concept
+  registerHandler('mastery:getByConcept', (_event, conceptId) => {
+    const concept = ConceptRepository.findById(asConceptId(conceptId))
+    if (!concept) {
+      throw new IPCError('NOT_FOUND', `Concept ${conceptId} not found`)
+    }
+
+    const profile: ConceptMasteryProfileDTO = {
+      conceptId,
+      ...profileToDTO(ConceptMasteryRepository.findByConceptId(concept.id)),
     }
 
     return profile
   })
 
-  // Get mastery for a specific dimension
-  registerHandler('mastery:getByDimension', (_event, dimension) => {
-    // TODO: Replace with repository call
-    // return masteryRepository.findByDimension(dimension)
+  // Get mastery profiles for every concept with recorded reviews
+  registerHandler('mastery:getAllConcepts', () => {
+    const profiles: ConceptMasteryProfileDTO[] = []
 
-    // Stub: Return default mastery for requested dimension
-    const mastery: MasteryDTO = {
-      dimension,
-      accuracyEwma: 0.5,
-      speedEwma: 0.5,
-      count: 0,
+    for (const [conceptId, profile] of ConceptMasteryRepository.findAll()) {
+      profiles.push({ conceptId, ...profileToDTO(profile) })
     }
 
-    return mastery
+    return profiles
+  })
+
+  // Recompute stored mastery from the event log using current settings
+  registerHandler('mastery:recompute', () => {
+    return profileToDTO(recomputeMastery())
   })
 }
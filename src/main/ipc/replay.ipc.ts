@@ -0,0 +1,228 @@
+/**
+ * @fileoverview IPC handlers for rebuilding state from the review event log
+ * @lastmodified 2026-01-27T00:00:00Z
+ *
+ * Features: Deterministic replay of all review events into mastery and schedule rows,
+ *   dry-run diff reporting, transactional apply of only the changed rows, scoped replay
+ *   that rebuilds only the rows depending on some events
+ * Main APIs: registerReplayHandlers(), loadStoredSnapshot(), applyReplayDiff(), runReplay(),
+ *   runScopedReplay()
+ * Constraints: Requires database connection; replays with the current settings
+ * Patterns: Handler registration with error handling wrapper, diff-then-apply
+ */
+
+import { getMasteryConfig, getSettings } from './settings.ipc'
+import {
+  diffReplay,
+  isEventInScope,
+  replayEventLog,
+  restrictDiffToScope,
+} from '../../domain/services/event-replay.service'
+import { getScheduler } from '../../domain/services/scheduler.service'
+import { DimensionType } from '../../shared/types/core'
+import { withTransaction } from '../infrastructure/database/connection'
+import {
+  ConceptMasteryRepository,
+  EventRepository,
+  MasteryRepository,
+  ScheduleRepository,
+} from '../infrastructure/database/repositories'
+
+import { registerHandler } from './index'
+
+import type {
+  MasteryChange,
+  ReplayDiff,
+  ReplayResult,
+  ReplayScope,
+  ReplaySnapshot,
+  ScheduleChange,
+} from '../../domain/services/event-replay.service'
+import type { DimensionMastery, ReviewEvent, ScheduleEntry } from '../../shared/types/core'
+import type {
+  Dimension,
+  MasteryChangeDTO,
+  MasteryDTO,
+  ReplayOptionsDTO,
+  ReplayReportDTO,
+  ScheduleChangeDTO,
+  ScheduleDTO,
+} from '../../shared/types/ipc'
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+/**
+ * Maps core DimensionType enum values to IPC Dimension strings
+ */
+const CORE_TO_DIMENSION: Record<DimensionType, Dimension> = {
+  [DimensionType.DEFINITION_RECALL]: 'definition',
+  [DimensionType.PARAPHRASE_RECOGNITION]: 'paraphrase',
+  [DimensionType.EXAMPLE_CLASSIFICATION]: 'example',
+  [DimensionType.SCENARIO_APPLICATION]: 'scenario',
+  [DimensionType.DISCRIMINATION]: 'discrimination',
+  [DimensionType.CLOZE_FILL]: 'cloze',
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Converts domain DimensionMastery to a MasteryDTO for IPC transport
+ */
+function masteryToDTO(dimension: DimensionType, mastery: DimensionMastery): MasteryDTO {
+  return {
+    dimension: CORE_TO_DIMENSION[dimension],
+    accuracyEwma: mastery.accuracyEwma,
+    speedEwma: mastery.speedEwma,
+    count: mastery.recentCount,
+  }
+}
+
+/**
+ * Converts a domain ScheduleEntry to a ScheduleDTO for IPC transport
+ */
+function scheduleToDTO(schedule: ScheduleEntry): ScheduleDTO {
+  return {
+    variantId: schedule.variantId,
+    conceptId: schedule.conceptId,
+    dueAt: schedule.dueAt.toISOString(),
+    intervalDays: schedule.intervalDays,
+    ease: schedule.easeFactor,
+  }
+}
+
+/**
+ * Converts a mastery change to a MasteryChangeDTO
+ */
+function masteryChangeToDTO(change: MasteryChange): MasteryChangeDTO {
+  return {
+    dimension: CORE_TO_DIMENSION[change.dimension],
+    before: masteryToDTO(change.dimension, change.before),
+    after: masteryToDTO(change.dimension, change.after),
+  }
+}
+
+/**
+ * Converts a schedule change to a ScheduleChangeDTO
+ */
+function scheduleChangeToDTO(change: ScheduleChange): ScheduleChangeDTO {
+  return {
+    variantId: change.variantId,
+    conceptId: change.conceptId,
+    before: change.before ? scheduleToDTO(change.before) : null,
+    after: scheduleToDTO(change.after),
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Replay
+// -----------------------------------------------------------------------------
+
+/**
+ * Reads the mastery and schedule rows that replay would rebuild
+ */
+export function loadStoredSnapshot(): ReplaySnapshot {
+  return {
+    mastery: MasteryRepository.findAll(),
+    conceptMastery: ConceptMasteryRepository.findAll(),
+    schedules: ScheduleRepository.findAll(),
+  }
+}
+
+/**
+ * Writes every change's replayed value in a single transaction
+ *
+ * Schedules of variants without events are never touched.
+ */
+export function applyReplayDiff(diff: ReplayDiff): void {
+  withTransaction(() => {
+    for (const change of diff.masteryChanges) {
+      MasteryRepository.save(change.dimension, change.after)
+    }
+
+    for (const change of diff.conceptMasteryChanges) {
+      ConceptMasteryRepository.save(change.conceptId, change.dimension, change.after)
+    }
+
+    for (const change of diff.scheduleChanges) {
+      ScheduleRepository.save(change.after)
+    }
+  })
+}
+
+/**
+ * Replays events with the current settings
+ */
+function replayWithSettings(events: readonly ReviewEvent[]): ReplayResult {
+  const { scheduler: algorithm, schedulerParameters } = getSettings()
+  return replayEventLog(events, getMasteryConfig(), getScheduler(algorithm, schedulerParameters))
+}
+
+/**
+ * Builds the report of a replay from its diff
+ */
+function toReplayReport(eventCount: number, dryRun: boolean, diff: ReplayDiff): ReplayReportDTO {
+  return {
+    eventCount,
+    dryRun,
+    applied: !dryRun,
+    masteryChanges: diff.masteryChanges.map(masteryChangeToDTO),
+    conceptMasteryChanges: diff.conceptMasteryChanges.map((change) => ({
+      conceptId: change.conceptId,
+      ...masteryChangeToDTO(change),
+    })),
+    scheduleChanges: diff.scheduleChanges.map(scheduleChangeToDTO),
+  }
+}
+
+/**
+ * Replays the full event log with the current settings and reports the diff
+ *
+ * With dryRun set, nothing is written. Otherwise the changed rows are
+ * updated so mastery and schedules match the event history exactly.
+ */
+export function runReplay(options: ReplayOptionsDTO): ReplayReportDTO {
+  const replayed = replayWithSettings(EventRepository.findAll())
+  const diff = diffReplay(loadStoredSnapshot(), replayed)
+
+  if (!options.dryRun) {
+    applyReplayDiff(diff)
+  }
+
+  return toReplayReport(replayed.eventCount, options.dryRun, diff)
+}
+
+/**
+ * Rebuilds the rows within a scope from the event log and writes their changes
+ *
+ * Only the events the scope depends on are replayed, and rows outside the
+ * scope are never written. Runs inside the caller's transaction, if any.
+ *
+ * @param scope - Rows to rebuild, e.g. replayScopeOf(changedEvents)
+ */
+export function runScopedReplay(scope: ReplayScope): ReplayReportDTO {
+  const events = EventRepository.findAll().filter((event) => isEventInScope(event, scope))
+  const replayed = replayWithSettings(events)
+  const diff = restrictDiffToScope(diffReplay(loadStoredSnapshot(), replayed), scope)
+
+  applyReplayDiff(diff)
+
+  return toReplayReport(replayed.eventCount, false, diff)
+}
+
+// -----------------------------------------------------------------------------
+// Handlers
+// -----------------------------------------------------------------------------
+
+/**
+ * Registers all replay-related IPC handlers
+ */
+export function registerReplayHandlers(): void {
+  // Rebuild mastery and schedules from the event log (or preview with dryRun)
+  registerHandler('replay:run', (_event, options) => {
+    return runReplay(options)
+  })
+}
@@ -1,33 +1,49 @@
 /**
  * @fileoverview IPC handlers for review operations
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Review card retrieval, submission, due count tracking
+ * Features: Review card retrieval, submission, due count tracking, session size
+ *   and daily new-concept limits from settings, objective grading of choice questions,
+ *   open response evaluation via the settings-driven LLM services
  * Main APIs: registerReviewHandlers()
  * Constraints: Requires database connection and domain services
  * Patterns: Handler registration with error handling wrapper
  */
 
+import { getMasteryConfig, getSettings } from './settings.ipc'
+import {
+  gradeSelection,
+  gradeToRating,
+  isObjectiveQuestionType,
+} from '../../domain/services/answer-grading.service'
 import {
   selectVariantWithMaintenance,
   shouldInsertConfidenceCard,
   getStrongDimensions,
 } from '../../domain/services/card-selector.service'
 import { MasteryCalculator } from '../../domain/services/mastery-calculator.service'
-import { scheduleNextReview } from '../../domain/services/scheduler.service'
+import {
+  buildReviewQueue,
+  calculateNewConceptsRemaining,
+  getStartOfDay,
+} from '../../domain/services/review-queue.service'
+import { getScheduler } from '../../domain/services/scheduler.service'
 import { asConceptId, asVariantId } from '../../shared/types/branded'
 import { DimensionType } from '../../shared/types/core'
 import {
+  ConceptMasteryRepository,
   ConceptRepository,
   VariantRepository,
   EventRepository,
   MasteryRepository,
   ScheduleRepository,
 } from '../infrastructure/database/repositories'
-import { createEvaluatorFromEnv } from '../infrastructure/llm/evaluator'
+import { describeLLMError, llmServices } from '../infrastructure/llm/registry'
 
 import { registerHandler } from './index'
 
+import type { ObjectiveGrade } from '../../domain/services/answer-grading.service'
+import type { ReviewQueue } from '../../domain/services/review-queue.service'
 import type { Variant, Concept, ScheduleEntry, QuestionType } from '../../shared/types/core'
 import type {
   ReviewSubmitDTO,
@@ -38,6 +54,7 @@ import type {
   VariantDTO,
   ConceptDTO,
   ScheduleDTO,
+  LLMErrorDTO,
   LLMEvaluationResult,
   EvaluationRubric,
 } from '../../shared/types/ipc'
@@ -134,6 +151,9 @@ function variantToDTO(variant: Variant): VariantDTO {
     ...baseDTO,
     ...(mappedRubric !== undefined && { rubric: mappedRubric }),
     ...(variant.maxLength !== undefined && { maxLength: variant.maxLength }),
+    // Correct indices stay in main; choice answers are graded on submit
+    ...(variant.options !== undefined && { options: [...variant.options] }),
+    ...(variant.clozeIndex !== undefined && { clozeIndex: variant.clozeIndex }),
   }
 }
 
@@ -156,6 +176,7 @@ function conceptToDTO(concept: Concept): ConceptDTO {
  */
 function scheduleToDTO(schedule: ScheduleEntry): ScheduleDTO {
   return {
+    variantId: schedule.variantId,
     conceptId: schedule.conceptId,
     dueAt: schedule.dueAt.toISOString(),
     intervalDays: schedule.intervalDays,
@@ -175,19 +196,32 @@ interface ReviewSessionState {
   sessionDimensions: DimensionType[]
   /** Count of consecutive failures (for anti-frustration) */
   consecutiveFailures: number
+  /** Number of reviews submitted in this session (capped by cardsPerSession) */
+  reviewedCount: number
   /** Timestamp when session started */
   startedAt: Date
+  /** Timestamp of the last review, used for the idle timeout */
+  lastActivityAt: Date
 }
 
 /**
- * Global session state - reset when session is idle for 30+ minutes
+ * Creates a fresh session state
  */
-let currentSession: ReviewSessionState = {
-  sessionDimensions: [],
-  consecutiveFailures: 0,
-  startedAt: new Date(),
+function createSessionState(now: Date): ReviewSessionState {
+  return {
+    sessionDimensions: [],
+    consecutiveFailures: 0,
+    reviewedCount: 0,
+    startedAt: now,
+    lastActivityAt: now,
+  }
 }
 
+/**
+ * Global session state - reset when session is idle for 30+ minutes
+ */
+let currentSession: ReviewSessionState = createSessionState(new Date())
+
 /** Session timeout in milliseconds (30 minutes) */
 const SESSION_TIMEOUT_MS = 30 * 60 * 1000
 
@@ -196,20 +230,23 @@ const SESSION_TIMEOUT_MS = 30 * 60 * 1000
  */
 function getSessionState(): ReviewSessionState {
   const now = new Date()
-  const timeSinceStart = now.getTime() - currentSession.startedAt.getTime()
+  const idleTime = now.getTime() - currentSession.lastActivityAt.getTime()
 
   // Reset session if idle for too long
-  if (timeSinceStart > SESSION_TIMEOUT_MS) {
-    currentSession = {
-      sessionDimensions: [],
-      consecutiveFailures: 0,
-      startedAt: now,
-    }
+  if (idleTime > SESSION_TIMEOUT_MS) {
+    currentSession = createSessionState(now)
   }
 
   return currentSession
 }
 
+/**
+ * Cards left before the current session reaches cardsPerSession
+ */
+function getSessionRemaining(): number {
+  return Math.max(0, getSettings().cardsPerSession - getSessionState().reviewedCount)
+}
+
 /**
  * Records a dimension selection in the session
  */
@@ -223,6 +260,8 @@ function recordDimensionSelection(dimension: DimensionType): void {
  */
 function recordReviewResult(wasCorrect: boolean): void {
   const session = getSessionState()
+  session.reviewedCount++
+  session.lastActivityAt = new Date()
   if (wasCorrect) {
     session.consecutiveFailures = 0
   } else {
@@ -234,21 +273,84 @@ function recordReviewResult(wasCorrect: boolean): void {
 // Core Logic
 // -----------------------------------------------------------------------------
 
+/**
+ * Builds today's review queue from due schedules and the daily new-concept limit
+ *
+ * The number of concepts introduced today is derived from the event log, so
+ * the limit holds across application restarts.
+ */
+function buildQueueInternal(now: Date): ReviewQueue {
+  const introducedToday = EventRepository.countConceptsFirstReviewedSince(getStartOfDay(now))
+
+  return buildReviewQueue(
+    ScheduleRepository.findDue(now),
+    EventRepository.findReviewedConceptIds(),
+    calculateNewConceptsRemaining(getSettings().newCardsPerDay, introducedToday)
+  )
+}
+
+/**
+ * Counts queued cards per dimension and builds the DueCountDTO
+ */
+function getDueCountInternal(): DueCountDTO {
+  const queue = buildQueueInternal(new Date())
+
+  // Initialize counts for all dimensions
+  const byDimension = ALL_DIMENSIONS.reduce(
+    (acc, dim) => {
+      acc[dim] = 0
+      return acc
+    },
+    {} as Record<Dimension, number>
+  )
+
+  // Count queued variants by dimension
+  for (const queued of queue.concepts) {
+    for (const schedule of queued.schedules) {
+      const variant = VariantRepository.findById(schedule.variantId)
+      if (!variant) {
+        continue
+      }
+
+      const dimension = CORE_TO_DIMENSION[variant.dimension]
+      if (dimension) {
+        byDimension[dimension]++
+      }
+    }
+  }
+
+  const total = Object.values(byDimension).reduce((sum, count) => sum + count, 0)
+
+  return {
+    total,
+    byDimension,
+    reviewRemaining: queue.reviewCount,
+    newRemaining: queue.newCardCount,
+    sessionRemaining: getSessionRemaining(),
+  }
+}
+
 /**
  * Retrieves the next card due for review using adaptive selection
  *
  * Algorithm:
- * 1. Get all due schedules (concepts with past due dates)
- * 2. For the first due schedule, fetch the concept and its variants
- * 3. Check for anti-frustration intervention (confidence card)
- * 4. Use adaptive selection with maintenance rep support
- * 5. Return the combined ReviewCardDTO
+ * 1. Stop if the session has reached cardsPerSession
+ * 2. Build the review queue: studied concepts with due variants first, then
+ *    never-reviewed concepts up to today's newCardsPerDay allowance
+ * 3. For each queued concept, restrict candidates to its due variants
+ * 4. Check for anti-frustration intervention (confidence card)
+ * 5. Use adaptive selection with maintenance rep support, weighted by the
+ *    concept-specific mastery profile
+ * 6. Return the combined ReviewCardDTO with the selected variant's schedule
  */
 function getNextCardInternal(): ReviewCardDTO | null {
-  const now = new Date()
-  const dueSchedules = ScheduleRepository.findDue(now)
+  if (getSessionRemaining() === 0) {
+    return null
+  }
 
-  if (dueSchedules.length === 0) {
+  const queue = buildQueueInternal(new Date())
+
+  if (queue.concepts.length === 0) {
     return null
   }
 
@@ -258,14 +360,17 @@ function getNextCardInternal(): ReviewCardDTO | null {
   // Get current session state
   const session = getSessionState()
 
-  // Try each due schedule until we find one with valid variants
-  for (const schedule of dueSchedules) {
-    const concept = ConceptRepository.findById(schedule.conceptId)
+  // Try each queued concept until we find a selectable variant
+  for (const { conceptId, schedules } of queue.concepts) {
+    const concept = ConceptRepository.findById(conceptId)
     if (!concept) {
       continue
     }
 
-    const variants = VariantRepository.findByConceptId(schedule.conceptId)
+    const schedulesByVariant = new Map(schedules.map((s) => [s.variantId as string, s]))
+    const variants = VariantRepository.findByConceptId(conceptId).filter((v) =>
+      schedulesByVariant.has(v.id)
+    )
     if (variants.length === 0) {
       continue
     }
@@ -297,7 +402,8 @@ function getNextCardInternal(): ReviewCardDTO | null {
         variants,
         masteryProfile,
         session.consecutiveFailures,
-        session.sessionDimensions
+        session.sessionDimensions,
+        ConceptMasteryRepository.findByConceptId(concept.id)
       )
     }
 
@@ -305,6 +411,11 @@ function getNextCardInternal(): ReviewCardDTO | null {
       continue
     }
 
+    const schedule = schedulesByVariant.get(selectedVariant.id)
+    if (!schedule) {
+      continue
+    }
+
     // Record the dimension selection for session tracking
     recordDimensionSelection(selectedVariant.dimension)
 
@@ -337,11 +448,14 @@ export function registerReviewHandlers(): void {
     const variantId = asVariantId(data.variantId)
     const dimension = DIMENSION_TO_CORE[data.dimension]
 
-    // Get current schedule for the concept
-    const currentSchedule = ScheduleRepository.findByConceptId(conceptId)
-    if (!currentSchedule) {
-      throw new Error(`No schedule found for concept ${conceptId}`)
-    }
+    // Resolve the scheduling algorithm (and any fitted parameters) from settings
+    const { scheduler: algorithm, schedulerParameters } = getSettings()
+    const scheduler = getScheduler(algorithm, schedulerParameters)
+
+    // Get current schedule for the variant (new variants start from the defaults)
+    const currentSchedule =
+      ScheduleRepository.findByVariantId(variantId) ??
+      scheduler.createInitialSchedule(conceptId, variantId)
 
     // Get the variant to determine difficulty
     const variant = VariantRepository.findById(variantId)
@@ -356,19 +470,34 @@ export function registerReviewHandlers(): void {
     }
 
     // Get current mastery for the dimension
-    const currentMastery = MasteryRepository.findByDimension(dimension) ?? {
-      accuracyEwma: 0.5,
-      speedEwma: 0.5,
-      recentCount: 0,
-    }
+    const currentMastery =
+      MasteryRepository.findByDimension(dimension) ?? MasteryCalculator.createInitialMastery()
 
     let evaluation: LLMEvaluationResult | undefined
+    let evaluationModel: string | undefined
+    let evaluationError: LLMErrorDTO | undefined
+    let grade: ObjectiveGrade | undefined
     let effectiveRating = data.rating
 
+    // Grade choice questions against the stored correct indices
+    if (
+      isObjectiveQuestionType(variant.questionType) &&
+      variant.options !== undefined &&
+      variant.correctIndices !== undefined
+    ) {
+      grade = gradeSelection(
+        variant.questionType,
+        variant.options.length,
+        variant.correctIndices,
+        data.selectedAnswerIndices ?? []
+      )
+      effectiveRating = gradeToRating(grade)
+    }
+
     // Handle open response evaluation
     if (variant.questionType === 'open_response' && data.userResponse) {
       try {
-        const evaluator = createEvaluatorFromEnv()
+        const evaluator = llmServices.getEvaluator()
 
         const mappedRubric = mapRubric(variant.rubric)
         const evalRequest = {
@@ -384,31 +513,58 @@ export function registerReviewHandlers(): void {
 
         if (evalResult.success) {
           evaluation = evalResult.value
+          evaluationModel = evaluator.identity.model
           effectiveRating = evaluation.suggestedRating
         } else {
           // Fallback to self-report if evaluation fails
           console.error('LLM evaluation failed:', evalResult.error)
+          evaluationError = describeLLMError(evalResult.error)
         }
       } catch (error) {
-        // Fallback to self-report if evaluator creation fails
+        // Fallback to self-report if LLM services are not configured
         console.error('Failed to create evaluator:', error)
+        evaluationError = describeLLMError(error)
       }
     }
 
     // Update mastery using the calculator service
-    // For open response, we use the evaluated score instead of self-reported rating
+    // For open response and choice questions, the evaluated or graded rating
+    // replaces the self-reported one
+    const masteryConfig = getMasteryConfig()
     const updatedMastery = MasteryCalculator.updateMastery(
       currentMastery,
       effectiveRating,
       data.timeMs,
-      variant.difficulty
+      variant.difficulty,
+      masteryConfig
     )
 
     // Save updated mastery
     MasteryRepository.save(dimension, updatedMastery)
 
+    // Update the concept-specific mastery for the same dimension
+    const currentConceptMastery =
+      ConceptMasteryRepository.findByConceptAndDimension(conceptId, dimension) ??
+      MasteryCalculator.createInitialMastery()
+    const updatedConceptMastery = MasteryCalculator.updateMastery(
+      currentConceptMastery,
+      effectiveRating,
+      data.timeMs,
+      variant.difficulty,
+      masteryConfig
+    )
+    ConceptMasteryRepository.save(conceptId, dimension, updatedConceptMastery)
+
+    // One review time for the schedule and the event, so replaying the event
+    // reproduces the stored schedule exactly
+    const reviewedAt = new Date()
+
     // Calculate and save updated schedule
-    const updatedSchedule = scheduleNextReview(currentSchedule, effectiveRating)
+    const updatedSchedule = scheduler.scheduleNextReview(
+      currentSchedule,
+      effectiveRating,
+      reviewedAt
+    )
     ScheduleRepository.save(updatedSchedule)
 
     // Log the review event with evaluation data
@@ -420,19 +576,22 @@ export function registerReviewHandlers(): void {
       result: effectiveRating,
       timeMs: data.timeMs,
       hintsUsed: 0,
+      createdAt: reviewedAt,
     }
 
     // Use conditional spreading to avoid exactOptionalPropertyTypes violations
-    EventRepository.create({
+    const reviewEvent = EventRepository.create({
       ...baseEventData,
       ...(data.userResponse !== undefined && { userResponse: data.userResponse }),
       ...(evaluation?.score !== undefined && { llmScore: evaluation.score }),
       ...(evaluation?.feedback !== undefined && { llmFeedback: evaluation.feedback }),
       ...(evaluation?.confidence !== undefined && { evaluationConfidence: evaluation.confidence }),
+      ...(evaluation !== undefined && { llmRating: evaluation.suggestedRating }),
+      ...(evaluationModel !== undefined && { evaluationModel }),
     })
 
     // Update variant's lastShownAt
-    VariantRepository.updateLastShown(variantId, new Date())
+    VariantRepository.updateLastShown(variantId, reviewedAt)
 
     // Record the review result for session tracking (anti-frustration)
     const wasCorrect = effectiveRating !== 'again'
@@ -442,6 +601,7 @@ export function registerReviewHandlers(): void {
     const nextCard = getNextCardInternal()
 
     const baseResult = {
+      eventId: reviewEvent.id,
       updatedMastery: {
         dimension: data.dimension,
         accuracyEwma: updatedMastery.accuracyEwma,
@@ -456,44 +616,26 @@ export function registerReviewHandlers(): void {
     const result: ReviewResultDTO = {
       ...baseResult,
       ...(evaluation !== undefined && { evaluation }),
+      ...(evaluationError !== undefined && { evaluationError }),
+      ...(grade !== undefined && {
+        wasCorrect: grade.wasCorrect,
+        correctAnswers: [...grade.correctAnswers],
+        partialScore: grade.partialScore,
+        explanation: variant.back,
+      }),
     }
 
     return result
   })
 
-  // Get count of due cards
+  // Get count of due cards within today's limits
   registerHandler('review:getDueCount', () => {
-    const now = new Date()
-    const dueSchedules = ScheduleRepository.findDue(now)
-
-    // Initialize counts for all dimensions
-    const byDimension = ALL_DIMENSIONS.reduce(
-      (acc, dim) => {
-        acc[dim] = 0
-        return acc
-      },
-      {} as Record<Dimension, number>
-    )
-
-    // Count due cards by dimension
-    for (const schedule of dueSchedules) {
-      const variants = VariantRepository.findByConceptId(schedule.conceptId)
-
-      for (const variant of variants) {
-        const dimension = CORE_TO_DIMENSION[variant.dimension]
-        if (dimension) {
-          byDimension[dimension]++
-        }
-      }
-    }
-
-    const total = Object.values(byDimension).reduce((sum, count) => sum + count, 0)
-
-    const dueCount: DueCountDTO = {
-      total,
-      byDimension,
-    }
+    return getDueCountInternal()
+  })
 
-    return dueCount
+  // Start a new session, resetting the cardsPerSession count
+  registerHandler('review:startSession', () => {
+    currentSession = createSessionState(new Date())
+    return getDueCountInternal()
   })
 }
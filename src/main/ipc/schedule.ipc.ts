@@ -1,22 +1,80 @@
 /**
  * @fileoverview IPC handlers for schedule operations
- * @lastmodified 2025-01-16T00:00:00Z
+ * @lastmodified 2026-01-24T00:00:00Z
  *
- * Features: SRS schedule retrieval and updates
+ * Features: Per-variant SRS schedule retrieval and updates, fitting scheduler
+ *   parameters to the user's review history in a worker thread
  * Main APIs: registerScheduleHandlers()
- * Constraints: Stub implementations until repository is connected
+ * Constraints: Requires database connection, schedules are keyed by variant
  * Patterns: Handler registration with error handling wrapper
  */
 
+import { getSettings, updateSettings } from './settings.ipc'
+import { OPTIMIZER_CONFIG } from '../../domain/services/scheduler-optimizer.service'
+import { createInitialSchedule } from '../../domain/services/scheduler.service'
+import { asVariantId } from '../../shared/types/branded'
+import {
+  EventRepository,
+  ScheduleRepository,
+  VariantRepository,
+} from '../infrastructure/database/repositories'
+import { optimizeSchedulerInWorker } from '../infrastructure/jobs/optimize-scheduler'
+
 import { registerHandler, IPCError } from './index'
 
-import type { ScheduleDTO, UpdateScheduleDTO } from '../../shared/types/ipc'
+import type { PredictionMetrics } from '../../domain/services/scheduler-optimizer.service'
+import type { SchedulerParameters } from '../../domain/services/scheduler.service'
+import type { ScheduleEntry } from '../../shared/types/core'
+import type {
+  OptimizeScheduleDTO,
+  PredictionMetricsDTO,
+  ScheduleDTO,
+  SchedulerParametersDTO,
+  UpdateScheduleDTO,
+} from '../../shared/types/ipc'
 
 // -----------------------------------------------------------------------------
-// Stub Data (to be replaced with repository calls)
+// DTO Mappers
 // -----------------------------------------------------------------------------
 
-const stubSchedules: ScheduleDTO[] = []
+/**
+ * Converts a domain ScheduleEntry to a ScheduleDTO for IPC transport
+ */
+function scheduleToDTO(schedule: ScheduleEntry): ScheduleDTO {
+  return {
+    variantId: schedule.variantId,
+    conceptId: schedule.conceptId,
+    dueAt: schedule.dueAt.toISOString(),
+    intervalDays: schedule.intervalDays,
+    ease: schedule.easeFactor,
+  }
+}
+
+/**
+ * Converts optimizer metrics to a PredictionMetricsDTO
+ */
+function metricsToDTO(metrics: PredictionMetrics): PredictionMetricsDTO {
+  return {
+    logLoss: metrics.logLoss,
+    rmse: metrics.rmse,
+  }
+}
+
+/**
+ * Converts domain scheduler parameters to a plain, mutable DTO for IPC and settings
+ */
+function parametersToDTO(parameters: SchedulerParameters): SchedulerParametersDTO {
+  const { sm2, fsrs } = parameters
+
+  return {
+    ...(sm2 !== undefined && {
+      sm2: { ...sm2, easeAdjustments: { ...sm2.easeAdjustments } },
+    }),
+    ...(fsrs !== undefined && {
+      fsrs: { ...fsrs, weights: [...fsrs.weights] },
+    }),
+  }
+}
 
 // -----------------------------------------------------------------------------
 // Handlers
@@ -26,50 +84,68 @@ const stubSchedules: ScheduleDTO[] = []
  * Registers all schedule-related IPC handlers
  */
 export function registerScheduleHandlers(): void {
-  // Get all due schedules
+  // Get all due variant schedules
   registerHandler('schedule:getDue', () => {
-    // TODO: Replace with repository call
-    // return scheduleRepository.findDue()
-
-    const now = new Date().toISOString()
-    return stubSchedules.filter((s) => s.dueAt <= now)
+    return ScheduleRepository.findDue(new Date()).map(scheduleToDTO)
   })
 
-  // Update a schedule
+  // Update a variant's schedule
   registerHandler('schedule:update', (_event, data: UpdateScheduleDTO) => {
-    // TODO: Replace with repository call
-    // return scheduleRepository.update(data)
-
-    const index = stubSchedules.findIndex((s) => s.conceptId === data.conceptId)
-
-    if (index === -1) {
-      // Create new schedule if it doesn't exist
-      const schedule: ScheduleDTO = {
-        conceptId: data.conceptId,
-        dueAt: data.dueAt ?? new Date().toISOString(),
-        intervalDays: data.intervalDays ?? 1,
-        ease: data.ease ?? 2.5,
-      }
-      stubSchedules.push(schedule)
-      return schedule
+    const variantId = asVariantId(data.variantId)
+
+    const variant = VariantRepository.findById(variantId)
+    if (!variant) {
+      throw new IPCError('NOT_FOUND', `Variant ${data.variantId} not found`)
+    }
+
+    // Create a default schedule if the variant has never been reviewed
+    const existing =
+      ScheduleRepository.findByVariantId(variantId) ??
+      createInitialSchedule(variant.conceptId, variantId)
+
+    const updated: ScheduleEntry = {
+      ...existing,
+      dueAt: data.dueAt !== undefined ? new Date(data.dueAt) : existing.dueAt,
+      intervalDays: data.intervalDays ?? existing.intervalDays,
+      easeFactor: data.ease ?? existing.easeFactor,
     }
 
-    const existing = stubSchedules[index]
-    if (!existing) {
+    ScheduleRepository.save(updated)
+    return scheduleToDTO(updated)
+  })
+
+  // Fit the active scheduler's parameters to the review history. Each pass replays
+  // the whole history many times, so it runs in a worker to keep windows responsive.
+  registerHandler('schedule:optimize', async (_event, data: OptimizeScheduleDTO) => {
+    const settings = getSettings()
+    const result = await optimizeSchedulerInWorker({
+      algorithm: settings.scheduler,
+      events: EventRepository.findAll(),
+      parameters: settings.schedulerParameters,
+    })
+
+    if (result.before.count < OPTIMIZER_CONFIG.MIN_REVIEWS) {
       throw new IPCError(
-        'NOT_FOUND',
-        `Schedule for concept ${data.conceptId} not found`
+        'INSUFFICIENT_DATA',
+        `At least ${OPTIMIZER_CONFIG.MIN_REVIEWS} repeat reviews are needed to optimize ` +
+          `the scheduler (found ${result.before.count})`
       )
     }
 
-    const updated: ScheduleDTO = {
-      ...existing,
-      dueAt: data.dueAt ?? existing.dueAt,
-      intervalDays: data.intervalDays ?? existing.intervalDays,
-      ease: data.ease ?? existing.ease,
+    const parameters = parametersToDTO(result.parameters)
+    const applied = data.apply && result.improved
+    if (applied) {
+      updateSettings({ schedulerParameters: parameters })
     }
 
-    stubSchedules[index] = updated
-    return updated
+    return {
+      algorithm: result.algorithm,
+      reviewCount: result.before.count,
+      before: metricsToDTO(result.before),
+      after: metricsToDTO(result.after),
+      parameters,
+      improved: result.improved,
+      applied,
+    }
   })
 }
@@ -1,9 +1,11 @@
 /**
  * @fileoverview IPC handlers for settings operations with file-based persistence
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Application settings retrieval, updates, and LLM API connection testing
- * Main APIs: registerSettingsHandlers()
+ * Features: Application settings retrieval, updates, LLM API connection testing,
+ *   schedule conversion when the scheduler algorithm changes, LLM service rebuild and status,
+ *   LLM usage logging against the monthly budget, backup schedule and retention defaults
+ * Main APIs: registerSettingsHandlers(), getSettings(), updateSettings(), getMasteryConfig()
  * Constraints: Settings persisted to JSON file in user data directory
  * Patterns: Handler registration with error handling wrapper, file-based persistence
  */
@@ -13,9 +15,21 @@ import { join, dirname } from 'path'
 
 import { app } from 'electron'
 
+import { createMasteryConfig } from '../../domain/services/mastery-calculator.service'
+import { getScheduler } from '../../domain/services/scheduler.service'
+import { LLMUsageRepository, ScheduleRepository } from '../infrastructure/database/repositories'
+import { resolveLocalBaseUrl } from '../infrastructure/llm/local-client'
+import { llmServices } from '../infrastructure/llm/registry'
+
 import { registerHandler } from './index'
 
-import type { SettingsDTO, LLMConfigDTO } from '../../shared/types/ipc'
+import type { MasteryConfig } from '../../domain/services/mastery-calculator.service'
+import type {
+  SettingsDTO,
+  LLMConfigDTO,
+  SchedulerAlgorithm,
+  SchedulerParametersDTO,
+} from '../../shared/types/ipc'
 
 // -----------------------------------------------------------------------------
 // Settings File Path
@@ -49,15 +63,27 @@ const DEFAULT_SETTINGS: SettingsDTO = {
   },
   // Number of consecutive failures before anti-frustration kicks in
   antiFrustrationThreshold: 3,
+  // Spaced repetition algorithm (SM-2 as per MVP spec)
+  scheduler: 'sm2',
+  // Fitted scheduler parameters (none until the optimizer is run)
+  schedulerParameters: {},
   // Review session settings
   cardsPerSession: 25,
   newCardsPerDay: 10,
+  // Flashcards are revealed and self-rated unless typed answers are enabled
+  flashcardAnswerMode: 'reveal',
   // LLM configuration (empty by default - user must configure)
   llm: {
     provider: 'openai',
     apiKey: '',
     model: 'gpt-4o-mini',
   },
+  // Automatic database backups, once a day, keeping a week of them
+  backup: {
+    enabled: true,
+    intervalHours: 24,
+    retainCount: 7,
+  },
   // UI theme
   theme: 'system',
 }
@@ -89,6 +115,10 @@ function loadSettings(): SettingsDTO {
           ...DEFAULT_SETTINGS.llm,
           ...(parsed.llm ?? {}),
         },
+        backup: {
+          ...DEFAULT_SETTINGS.backup,
+          ...(parsed.backup ?? {}),
+        },
       }
     }
   } catch (error) {
@@ -127,13 +157,77 @@ let currentSettings: SettingsDTO | null = null
 /**
  * Get settings, loading from file if not cached
  */
-function getSettings(): SettingsDTO {
+export function getSettings(): SettingsDTO {
   if (!currentSettings) {
     currentSettings = loadSettings()
   }
   return currentSettings
 }
 
+/**
+ * Builds the mastery configuration (EWMA alpha, target times) from settings
+ */
+export function getMasteryConfig(): MasteryConfig {
+  return createMasteryConfig(getSettings())
+}
+
+/**
+ * Merges a partial update into the current settings and persists the result
+ *
+ * Converts existing schedules first when the scheduler algorithm changes.
+ */
+export function updateSettings(data: Partial<SettingsDTO>): SettingsDTO {
+  const current = getSettings()
+
+  // Convert existing schedules before persisting a new scheduler choice
+  if (data.scheduler !== undefined && data.scheduler !== current.scheduler) {
+    convertSchedules(data.scheduler, data.schedulerParameters ?? current.schedulerParameters)
+  }
+
+  // Deep merge with current settings
+  currentSettings = {
+    ...current,
+    ...data,
+    // Deep merge targetTimes if provided
+    targetTimes: data.targetTimes
+      ? { ...current.targetTimes, ...data.targetTimes }
+      : current.targetTimes,
+    // Deep merge LLM config if provided
+    llm: data.llm ? { ...current.llm, ...data.llm } : current.llm,
+    // Deep merge backup settings if provided
+    backup: data.backup ? { ...current.backup, ...data.backup } : current.backup,
+  }
+
+  // Persist to file
+  saveSettings(currentSettings)
+
+  // Rebuild LLM services so the next call uses the new provider, key, or model
+  if (data.llm !== undefined) {
+    llmServices.configure(currentSettings.llm)
+  }
+
+  return { ...currentSettings }
+}
+
+// -----------------------------------------------------------------------------
+// Scheduler Switching
+// -----------------------------------------------------------------------------
+
+/**
+ * Converts every persisted schedule to the given algorithm's representation
+ *
+ * Due dates are preserved; only the algorithm-specific state changes
+ * (e.g. FSRS stability/difficulty derived from SM-2 interval/ease).
+ */
+function convertSchedules(
+  algorithm: SchedulerAlgorithm,
+  parameters: SchedulerParametersDTO
+): void {
+  const scheduler = getScheduler(algorithm, parameters)
+  const converted = ScheduleRepository.findAll().map((entry) => scheduler.convertSchedule(entry))
+  ScheduleRepository.saveMany(converted)
+}
+
 // -----------------------------------------------------------------------------
 // API Connection Testing
 // -----------------------------------------------------------------------------
@@ -148,8 +242,8 @@ async function testLLMConnection(config: LLMConfigDTO): Promise<{
 }> {
   const startTime = Date.now()
 
-  // Validate required fields
-  if (!config.apiKey) {
+  // Validate required fields (local servers need no key)
+  if (config.provider !== 'local' && !config.apiKey) {
     return { success: false, message: 'API key is required' }
   }
 
@@ -173,7 +267,11 @@ async function testLLMConnection(config: LLMConfigDTO): Promise<{
         break
 
       case 'local':
-        testUrl = config.baseUrl ?? 'http://localhost:11434/api/tags'
+        // OpenAI-compatible servers (Ollama, llama.cpp) list models at /v1/models
+        testUrl = `${resolveLocalBaseUrl(config.baseUrl)}/models`
+        if (config.apiKey) {
+          headers['Authorization'] = `Bearer ${config.apiKey}`
+        }
         break
 
       default: {
@@ -254,6 +352,12 @@ async function testLLMConnection(config: LLMConfigDTO): Promise<{
  * Registers all settings-related IPC handlers
  */
 export function registerSettingsHandlers(): void {
+  // Build LLM services from the persisted settings
+  llmServices.configure(getSettings().llm)
+
+  // Log every provider call and enforce the monthly budget
+  llmServices.useUsageStore(LLMUsageRepository)
+
   // Get current settings
   registerHandler('settings:get', () => {
     return getSettings()
@@ -261,28 +365,16 @@ export function registerSettingsHandlers(): void {
 
   // Update settings
   registerHandler('settings:set', (_event, data: Partial<SettingsDTO>) => {
-    const current = getSettings()
-
-    // Deep merge with current settings
-    currentSettings = {
-      ...current,
-      ...data,
-      // Deep merge targetTimes if provided
-      targetTimes: data.targetTimes
-        ? { ...current.targetTimes, ...data.targetTimes }
-        : current.targetTimes,
-      // Deep merge LLM config if provided
-      llm: data.llm ? { ...current.llm, ...data.llm } : current.llm,
-    }
-
-    // Persist to file
-    saveSettings(currentSettings)
-
-    return { ...currentSettings }
+    return updateSettings(data)
   })
 
   // Test LLM API connection
   registerHandler('settings:testConnection', async (_event, config: LLMConfigDTO) => {
     return testLLMConnection(config)
   })
+
+  // Whether LLM features can run with the saved settings
+  registerHandler('settings:getLLMStatus', () => {
+    return llmServices.getStatus()
+  })
 }
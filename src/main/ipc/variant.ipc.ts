@@ -1,16 +1,32 @@
 /**
  * @fileoverview IPC handlers for variant operations
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: CRUD operations for card variants with hints support
- * Main APIs: registerVariantHandlers()
- * Constraints: Connected to VariantRepository for persistent storage
+ * Features: CRUD operations for card variants with hints support,
+ *   validated answer options for multiple-choice, multi-select and true/false,
+ *   one card per cloze index for cloze_fill variants with {{cN::...}} markup,
+ *   LLM draft generation per dimension and difficulty, bulk creation of accepted drafts,
+ *   ranked LLM distractors for choice questions drawing on sibling concepts
+ * Main APIs: registerVariantHandlers(), createVariants()
+ * Constraints: Connected to VariantRepository for persistent storage; drafts are not saved
+ *   until accepted through variants:createMany
  * Patterns: Handler registration with error handling wrapper
  */
 
+import {
+  isObjectiveQuestionType,
+  TRUE_FALSE_OPTIONS,
+  validateAnswerOptions,
+} from '../../domain/services/answer-grading.service'
 import { asConceptId, asVariantId } from '../../shared/types/branded'
 import { DimensionType } from '../../shared/types/core'
+import { getClozeIndices, hasClozeMarkup } from '../../shared/utils/cloze'
+import { withTransaction } from '../infrastructure/database/connection'
+import { ConceptRepository } from '../infrastructure/database/repositories/concept.repository'
 import { VariantRepository } from '../infrastructure/database/repositories/variant.repository'
+import { LLMNotConfiguredError } from '../infrastructure/llm/errors'
+import { selectSiblingConcepts } from '../infrastructure/llm/prompts'
+import { describeLLMError, llmServices } from '../infrastructure/llm/registry'
 
 import { registerHandler, IPCError } from './index'
 
@@ -20,7 +36,12 @@ import type {
   CreateVariantDTO,
   UpdateVariantDTO,
   Dimension,
+  GenerateVariantsDTO,
+  GenerateVariantsResultDTO,
+  GenerateDistractorsDTO,
+  GenerateDistractorsResultDTO,
 } from '../../shared/types/ipc'
+import type { LLMGateway } from '../infrastructure/llm/types'
 
 // -----------------------------------------------------------------------------
 // Dimension Mapping
@@ -99,9 +120,351 @@ function variantToDTO(variant: Variant): VariantDTO {
     ...baseDTO,
     ...(mappedRubric !== undefined && { rubric: mappedRubric }),
     ...(variant.maxLength !== undefined && { maxLength: variant.maxLength }),
+    ...(variant.options !== undefined && { options: [...variant.options] }),
+    ...(variant.correctIndices !== undefined && {
+      correctIndices: [...variant.correctIndices],
+    }),
+    ...(variant.clozeIndex !== undefined && { clozeIndex: variant.clozeIndex }),
   }
 }
 
+// -----------------------------------------------------------------------------
+// Answer Options
+// -----------------------------------------------------------------------------
+
+/**
+ * Validates the answer options a choice question will be saved with
+ *
+ * True/false questions default to the fixed True/False options. Other
+ * question types carry no options and are left unchecked.
+ *
+ * @returns The options and correct indices to persist, or an empty object
+ * @throws IPCError with VALIDATION_ERROR if the options are invalid
+ */
+function resolveAnswerOptions(
+  questionType: QuestionType,
+  options: readonly string[] | undefined,
+  correctIndices: readonly number[] | undefined
+): { options?: string[]; correctIndices?: number[] } {
+  if (!isObjectiveQuestionType(questionType)) {
+    return {}
+  }
+
+  const resolvedOptions = [
+    ...(options ?? (questionType === 'true_false' ? TRUE_FALSE_OPTIONS : [])),
+  ]
+  const resolvedIndices = [...(correctIndices ?? [])]
+
+  const error = validateAnswerOptions(questionType, resolvedOptions, resolvedIndices)
+  if (error !== null) {
+    throw new IPCError('VALIDATION_ERROR', error)
+  }
+
+  return { options: resolvedOptions, correctIndices: resolvedIndices }
+}
+
+// -----------------------------------------------------------------------------
+// Cloze Cards
+// -----------------------------------------------------------------------------
+
+/**
+ * Whether a variant's front should be split into one card per cloze index
+ */
+function isClozeNote(dimension: DimensionType, questionType: QuestionType, front: string): boolean {
+  return (
+    dimension === DimensionType.CLOZE_FILL &&
+    questionType === 'flashcard' &&
+    hasClozeMarkup(front)
+  )
+}
+
+/**
+ * Makes the sibling cards of a cloze card match its cloze text
+ *
+ * Siblings are the concept's other cloze cards whose front equals the
+ * card's previous front. Cards for indices still in the text get the new
+ * front and back, cards for removed indices are deleted, and new indices
+ * get a card copied from this one. Call inside a transaction.
+ *
+ * @param card - The cloze card as just saved (clozeIndex set)
+ * @param previousFront - The card's front before the save
+ */
+function syncClozeSiblings(card: Variant, previousFront: string): void {
+  const indices = getClozeIndices(card.front)
+  const covered = new Set<number>(card.clozeIndex !== undefined ? [card.clozeIndex] : [])
+
+  const siblings = VariantRepository.findByConceptId(card.conceptId).filter(
+    (v) => v.id !== card.id && v.clozeIndex !== undefined && v.front === previousFront
+  )
+  for (const sibling of siblings) {
+    if (
+      sibling.clozeIndex === undefined ||
+      !indices.includes(sibling.clozeIndex) ||
+      covered.has(sibling.clozeIndex)
+    ) {
+      VariantRepository.delete(sibling.id)
+      continue
+    }
+    covered.add(sibling.clozeIndex)
+    if (sibling.front !== card.front || sibling.back !== card.back) {
+      VariantRepository.update(sibling.id, { front: card.front, back: card.back })
+    }
+  }
+
+  for (const clozeIndex of indices) {
+    if (covered.has(clozeIndex)) continue
+    VariantRepository.create({
+      conceptId: card.conceptId,
+      dimension: card.dimension,
+      difficulty: card.difficulty,
+      front: card.front,
+      back: card.back,
+      hints: [...card.hints],
+      lastShownAt: null,
+      questionType: card.questionType,
+      clozeIndex,
+    })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Creation
+// -----------------------------------------------------------------------------
+
+/**
+ * Converts create data to the variant to persist
+ *
+ * @throws IPCError with VALIDATION_ERROR if the answer options are invalid
+ */
+function toNewVariant(data: CreateVariantDTO): Omit<Variant, 'id'> {
+  const questionType = (data.questionType ?? 'flashcard') as QuestionType
+  const answerOptions = resolveAnswerOptions(questionType, data.options, data.correctIndices)
+
+  // Convert IPC rubric to domain rubric if present
+  const rubric: EvaluationRubric | undefined = data.rubric
+    ? {
+        keyPoints: [...data.rubric.keyPoints],
+        ...(data.rubric.acceptableVariations && {
+          acceptableVariations: [...data.rubric.acceptableVariations],
+        }),
+        ...(data.rubric.partialCreditCriteria && {
+          partialCreditCriteria: data.rubric.partialCreditCriteria,
+        }),
+      }
+    : undefined
+
+  // Use conditional spreading to avoid exactOptionalPropertyTypes violations
+  return {
+    conceptId: asConceptId(data.conceptId),
+    dimension: toDimensionType(data.dimension),
+    difficulty: (data.difficulty ?? 3) as DifficultyLevel,
+    front: data.front,
+    back: data.back,
+    hints: data.hints ?? [],
+    lastShownAt: null,
+    questionType,
+    ...(rubric !== undefined && { rubric }),
+    ...(data.maxLength !== undefined && { maxLength: data.maxLength }),
+    ...answerOptions,
+  }
+}
+
+/**
+ * Saves a new variant; cloze text yields one card per index and the lowest is returned
+ */
+function saveNewVariant(variantData: Omit<Variant, 'id'>): Variant {
+  if (!isClozeNote(variantData.dimension, variantData.questionType, variantData.front)) {
+    return VariantRepository.create(variantData)
+  }
+
+  return withTransaction(() => {
+    const [firstIndex] = getClozeIndices(variantData.front)
+    const first = VariantRepository.create({
+      ...variantData,
+      ...(firstIndex !== undefined && { clozeIndex: firstIndex }),
+    })
+    syncClozeSiblings(first, first.front)
+    return first
+  })
+}
+
+/**
+ * Creates variants in one transaction; all are saved or none are
+ *
+ * Everything is validated up front so a bad item rejects the batch with its reason.
+ *
+ * @param items - Variants to create
+ * @returns The created variants (the lowest-index card for cloze text)
+ * @throws IPCError with VALIDATION_ERROR, NOT_FOUND or INTERNAL_ERROR
+ */
+export function createVariants(items: readonly CreateVariantDTO[]): Variant[] {
+  const variantData = items.map(toNewVariant)
+  for (const data of variantData) {
+    if (!ConceptRepository.findById(data.conceptId)) {
+      throw new IPCError('NOT_FOUND', `Concept with id ${data.conceptId} not found`)
+    }
+  }
+
+  try {
+    return withTransaction(() => variantData.map(saveNewVariant))
+  } catch {
+    throw new IPCError('INTERNAL_ERROR', 'Failed to create variants')
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Generation
+// -----------------------------------------------------------------------------
+
+/** Most variants that can be requested per dimension and difficulty */
+const MAX_GENERATION_COUNT = 10
+
+/** Most distractors per request: a choice question has at most 8 options, one correct */
+const MAX_DISTRACTOR_COUNT = 7
+
+/** Related concepts included in a distractor prompt */
+const MAX_SIBLING_CONCEPTS = 6
+
+/**
+ * Returns the generator for the configured LLM provider
+ *
+ * @throws IPCError with LLM_NOT_CONFIGURED when the LLM settings are incomplete
+ */
+function getGenerator(): LLMGateway {
+  try {
+    return llmServices.getGenerator()
+  } catch (error) {
+    if (error instanceof LLMNotConfiguredError) {
+      throw new IPCError('LLM_NOT_CONFIGURED', error.message, {
+        missingFields: error.missingFields,
+      })
+    }
+    throw error
+  }
+}
+
+/**
+ * Checks generation options
+ *
+ * @throws IPCError with VALIDATION_ERROR describing the first problem
+ */
+function validateGenerationOptions(data: GenerateVariantsDTO): void {
+  if (data.dimensions.length === 0) {
+    throw new IPCError('VALIDATION_ERROR', 'Select at least one dimension')
+  }
+  if (data.difficulties.length === 0) {
+    throw new IPCError('VALIDATION_ERROR', 'Select at least one difficulty level')
+  }
+  if (data.difficulties.some((d) => !Number.isInteger(d) || d < 1 || d > 5)) {
+    throw new IPCError('VALIDATION_ERROR', 'Difficulty levels must be between 1 and 5')
+  }
+  if (!Number.isInteger(data.count) || data.count < 1 || data.count > MAX_GENERATION_COUNT) {
+    throw new IPCError(
+      'VALIDATION_ERROR',
+      `Count must be between 1 and ${MAX_GENERATION_COUNT}`
+    )
+  }
+}
+
+/**
+ * Generates draft variants for every requested dimension and difficulty
+ *
+ * Combinations are generated one after another; a failed combination is
+ * reported alongside the drafts instead of discarding the others.
+ *
+ * @throws IPCError with NOT_FOUND for an unknown concept,
+ *         LLM_NOT_CONFIGURED when the LLM settings are incomplete
+ */
+async function generateDrafts(data: GenerateVariantsDTO): Promise<GenerateVariantsResultDTO> {
+  validateGenerationOptions(data)
+
+  const concept = ConceptRepository.findById(asConceptId(data.conceptId))
+  if (!concept) {
+    throw new IPCError('NOT_FOUND', `Concept with id ${data.conceptId} not found`)
+  }
+
+  const generator = getGenerator()
+
+  const result: GenerateVariantsResultDTO = { drafts: [], failures: [] }
+  const dimensions = [...new Set(data.dimensions)]
+  const difficulties = [...new Set(data.difficulties)].sort((a, b) => a - b)
+
+  for (const dimension of dimensions) {
+    for (const difficulty of difficulties) {
+      const generated = await generator.generateVariants({
+        concept: { name: concept.name, definition: concept.definition, facts: concept.facts },
+        dimension,
+        difficulty: difficulty as DifficultyLevel,
+        count: data.count,
+      })
+
+      if (!generated.success) {
+        result.failures.push({ dimension, difficulty, error: describeLLMError(generated.error) })
+        continue
+      }
+      for (const variant of generated.value) {
+        result.drafts.push({
+          dimension: variant.dimension,
+          difficulty: variant.difficulty,
+          front: variant.front,
+          back: variant.back,
+          hints: [...variant.hints],
+        })
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Generates ranked wrong answer options for a question
+ *
+ * The concept's facts and the definitions of the most similar other
+ * concepts give the model material for confusable options. LLM failures
+ * are returned in the result.
+ *
+ * @throws IPCError with VALIDATION_ERROR, NOT_FOUND, or LLM_NOT_CONFIGURED
+ *         when the LLM settings are incomplete
+ */
+async function generateDistractors(
+  data: GenerateDistractorsDTO
+): Promise<GenerateDistractorsResultDTO> {
+  if (!data.front.trim() || !data.back.trim()) {
+    throw new IPCError('VALIDATION_ERROR', 'Question and answer are required')
+  }
+  if (!Number.isInteger(data.count) || data.count < 1 || data.count > MAX_DISTRACTOR_COUNT) {
+    throw new IPCError('VALIDATION_ERROR', `Count must be between 1 and ${MAX_DISTRACTOR_COUNT}`)
+  }
+
+  const concept = ConceptRepository.findById(asConceptId(data.conceptId))
+  if (!concept) {
+    throw new IPCError('NOT_FOUND', `Concept with id ${data.conceptId} not found`)
+  }
+
+  const conceptInput = { name: concept.name, definition: concept.definition, facts: concept.facts }
+  const siblings = selectSiblingConcepts(
+    conceptInput,
+    ConceptRepository.findAll()
+      .filter((c) => c.id !== concept.id)
+      .map((c) => ({ name: c.name, definition: c.definition })),
+    MAX_SIBLING_CONCEPTS
+  )
+
+  const result = await getGenerator().generateDistractors({
+    concept: conceptInput,
+    question: data.front.trim(),
+    correctAnswer: data.back.trim(),
+    acceptedAnswers: data.acceptedAnswers ?? [],
+    siblings,
+    count: data.count,
+  })
+  if (!result.success) {
+    return { distractors: [], error: describeLLMError(result.error) }
+  }
+  return { distractors: result.value.map((d) => ({ ...d })) }
+}
+
 // -----------------------------------------------------------------------------
 // Handlers
 // -----------------------------------------------------------------------------
@@ -118,39 +481,10 @@ export function registerVariantHandlers(): void {
 
   // Create a new variant
   registerHandler('variants:create', (_event, data: CreateVariantDTO) => {
+    const variantData = toNewVariant(data)
+
     try {
-      // Convert IPC rubric to domain rubric if present
-      const rubric: EvaluationRubric | undefined = data.rubric
-        ? {
-            keyPoints: [...data.rubric.keyPoints],
-            ...(data.rubric.acceptableVariations && {
-              acceptableVariations: [...data.rubric.acceptableVariations],
-            }),
-            ...(data.rubric.partialCreditCriteria && {
-              partialCreditCriteria: data.rubric.partialCreditCriteria,
-            }),
-          }
-        : undefined
-
-      // Build base variant data
-      const baseVariantData = {
-        conceptId: asConceptId(data.conceptId),
-        dimension: toDimensionType(data.dimension),
-        difficulty: (data.difficulty ?? 3) as DifficultyLevel,
-        front: data.front,
-        back: data.back,
-        hints: data.hints ?? [],
-        lastShownAt: null,
-        questionType: (data.questionType ?? 'flashcard') as QuestionType,
-      }
-
-      // Use conditional spreading to avoid exactOptionalPropertyTypes violations
-      const variant = VariantRepository.create({
-        ...baseVariantData,
-        ...(rubric !== undefined && { rubric }),
-        ...(data.maxLength !== undefined && { maxLength: data.maxLength }),
-      })
-      return variantToDTO(variant)
+      return variantToDTO(saveNewVariant(variantData))
     } catch (error) {
       const err = error as Error
       if (err.message.includes('does not exist')) {
@@ -160,8 +494,65 @@ export function registerVariantHandlers(): void {
     }
   })
 
+  // Create several variants at once, e.g. accepted LLM drafts; all or nothing
+  registerHandler('variants:createMany', (_event, items: CreateVariantDTO[]) =>
+    createVariants(items).map(variantToDTO)
+  )
+
+  // Generate draft variants with the configured LLM; nothing is saved here
+  registerHandler('variants:generate', (_event, data: GenerateVariantsDTO) =>
+    generateDrafts(data)
+  )
+
+  // Generate ranked wrong answer options for a choice question
+  registerHandler('variants:generateDistractors', (_event, data: GenerateDistractorsDTO) =>
+    generateDistractors(data)
+  )
+
   // Update an existing variant
   registerHandler('variants:update', (_event, data: UpdateVariantDTO) => {
+    const existing = VariantRepository.findById(asVariantId(data.id))
+    if (!existing) {
+      throw new IPCError('NOT_FOUND', `Variant with id ${data.id} not found`)
+    }
+
+    // Validate options against the merged question type, options and indices;
+    // other question types carry no options, so any kept from before are cleared
+    const questionType = data.questionType ?? existing.questionType
+    let answerOptions: { options?: string[] | null; correctIndices?: number[] | null } = {}
+    if (!isObjectiveQuestionType(questionType)) {
+      answerOptions = { options: null, correctIndices: null }
+    } else if (
+      data.questionType !== undefined ||
+      data.options !== undefined ||
+      data.correctIndices !== undefined
+    ) {
+      answerOptions = resolveAnswerOptions(
+        questionType,
+        data.options ?? existing.options,
+        data.correctIndices ?? existing.correctIndices
+      )
+    }
+
+    // Cloze cards keep their index; text without it (or without markup) is rejected
+    const front = data.front ?? existing.front
+    const isCloze = isClozeNote(
+      data.dimension !== undefined ? toDimensionType(data.dimension) : existing.dimension,
+      questionType,
+      front
+    )
+    let clozeIndex = existing.clozeIndex
+    if (existing.clozeIndex !== undefined) {
+      if (!isCloze || !getClozeIndices(front).includes(existing.clozeIndex)) {
+        throw new IPCError(
+          'VALIDATION_ERROR',
+          `Cloze text must keep deletion c${existing.clozeIndex}; delete this card to remove it`
+        )
+      }
+    } else if (isCloze) {
+      clozeIndex = getClozeIndices(front)[0]
+    }
+
     try {
       // Build update data object with mutable fields
       const updateData: {
@@ -173,7 +564,10 @@ export function registerVariantHandlers(): void {
         questionType?: QuestionType
         rubric?: EvaluationRubric
         maxLength?: number
-      } = {}
+        options?: string[] | null
+        correctIndices?: number[] | null
+        clozeIndex?: number
+      } = { ...answerOptions, ...(clozeIndex !== undefined && { clozeIndex }) }
 
       if (data.dimension !== undefined) {
         updateData.dimension = toDimensionType(data.dimension)
@@ -208,6 +602,15 @@ export function registerVariantHandlers(): void {
         updateData.maxLength = data.maxLength
       }
 
+      if (clozeIndex !== undefined) {
+        const variant = withTransaction(() => {
+          const updated = VariantRepository.update(asVariantId(data.id), updateData)
+          syncClozeSiblings(updated, existing.front)
+          return updated
+        })
+        return variantToDTO(variant)
+      }
+
       const variant = VariantRepository.update(asVariantId(data.id), updateData)
       return variantToDTO(variant)
     } catch (error) {
@@ -0,0 +1,8 @@
+/**
+ * @fileoverview electron-vite module type declarations for the main process
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Allows TypeScript to import worker entry points with the ?nodeWorker suffix.
+ */
+
+/// <reference types="electron-vite/node" />
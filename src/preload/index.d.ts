@@ -3,7 +3,7 @@
  * @lastmodified 2026-01-17T00:42:25Z
  *
  * Features: Type declarations for renderer-accessible API
- * Main APIs: window.api, window.electron, AnalyticsAPI
+ * Main APIs: window.api, window.electron, AnalyticsAPI, JobsAPI, ImportAPI, DataAPI
  * Constraints: Must match preload/index.ts API structure exactly
  * Patterns: Interface augmentation of Window global
  */
@@ -12,25 +12,60 @@ import type {
   ConceptDTO,
   CreateConceptDTO,
   UpdateConceptDTO,
+  CsvImportDTO,
+  CsvImportReportDTO,
   VariantDTO,
   CreateVariantDTO,
   UpdateVariantDTO,
+  GenerateVariantsDTO,
+  GenerateVariantsResultDTO,
+  GenerateDistractorsDTO,
+  GenerateDistractorsResultDTO,
   ReviewCardDTO,
   ReviewSubmitDTO,
   ReviewResultDTO,
   DueCountDTO,
   MasteryProfileDTO,
   MasteryDTO,
+  ConceptMasteryProfileDTO,
   Dimension,
   ScheduleDTO,
   UpdateScheduleDTO,
+  OptimizeScheduleDTO,
+  ScheduleOptimizationReportDTO,
+  ReplayOptionsDTO,
+  ReplayReportDTO,
+  EvaluationReplayOptionsDTO,
+  EvaluationReplayReportDTO,
+  EvaluatedResponseDTO,
+  EvaluationOverrideDTO,
+  EvaluationOverrideResultDTO,
+  EvaluationCalibrationDTO,
   SettingsDTO,
   LLMConfigDTO,
   ConnectionTestResultDTO,
+  LLMStatusDTO,
   MasteryTimelineEntryDTO,
   ReviewDistributionEntryDTO,
   ResponseTimeStatsEntryDTO,
   WeaknessHeatmapEntryDTO,
+  LLMUsageReportDTO,
+  EnqueueGenerationDTO,
+  GenerationJobDTO,
+  JobQueueStatusDTO,
+  FillGapsDTO,
+  FillGapsResultDTO,
+  AnkiImportDTO,
+  AnkiImportReportDTO,
+  MarkdownImportDTO,
+  MarkdownImportReportDTO,
+  DataExportOptionsDTO,
+  DataExportDTO,
+  DataImportDTO,
+  DataImportReportDTO,
+  BackupInfoDTO,
+  BackupListDTO,
+  BackupRestoreReportDTO,
 } from '../shared/types/ipc'
 import type { ElectronAPI } from '@electron-toolkit/preload'
 
@@ -48,6 +83,8 @@ interface ConceptsAPI {
   update(data: UpdateConceptDTO): Promise<ConceptDTO>
   /** Delete a concept by ID */
   delete(id: string): Promise<void>
+  /** Import concepts and variants from CSV/TSV text; with dryRun, only validate and preview */
+  importCsv(data: CsvImportDTO): Promise<CsvImportReportDTO>
 }
 
 /**
@@ -62,6 +99,12 @@ interface VariantsAPI {
   update(data: UpdateVariantDTO): Promise<VariantDTO>
   /** Delete a variant by ID */
   delete(id: string): Promise<void>
+  /** Create several variants in one transaction */
+  createMany(data: CreateVariantDTO[]): Promise<VariantDTO[]>
+  /** Generate draft variants with the configured LLM (not saved) */
+  generate(options: GenerateVariantsDTO): Promise<GenerateVariantsResultDTO>
+  /** Generate ranked wrong answer options for a choice question */
+  generateDistractors(data: GenerateDistractorsDTO): Promise<GenerateDistractorsResultDTO>
 }
 
 /**
@@ -74,6 +117,8 @@ interface ReviewAPI {
   submit(data: ReviewSubmitDTO): Promise<ReviewResultDTO>
   /** Get count of due cards */
   getDueCount(): Promise<DueCountDTO>
+  /** Start a new review session, resetting the cards-per-session count */
+  startSession(): Promise<DueCountDTO>
 }
 
 /**
@@ -84,6 +129,12 @@ interface MasteryAPI {
   getProfile(): Promise<MasteryProfileDTO>
   /** Get mastery for a specific dimension */
   getByDimension(dimension: Dimension): Promise<MasteryDTO>
+  /** Get the mastery profile for a single concept */
+  getByConcept(conceptId: string): Promise<ConceptMasteryProfileDTO>
+  /** Get mastery profiles for every concept with recorded reviews */
+  getAllConcepts(): Promise<ConceptMasteryProfileDTO[]>
+  /** Recompute stored mastery from the review history using current settings */
+  recompute(): Promise<MasteryProfileDTO>
 }
 
 /**
@@ -94,6 +145,8 @@ interface ScheduleAPI {
   getDue(): Promise<ScheduleDTO[]>
   /** Update a schedule */
   update(data: UpdateScheduleDTO): Promise<ScheduleDTO>
+  /** Fit scheduler parameters to review history, optionally saving them */
+  optimize(data: OptimizeScheduleDTO): Promise<ScheduleOptimizationReportDTO>
 }
 
 /**
@@ -106,6 +159,8 @@ interface SettingsAPI {
   set(data: Partial<SettingsDTO>): Promise<SettingsDTO>
   /** Test LLM API connection */
   testConnection(config: LLMConfigDTO): Promise<ConnectionTestResultDTO>
+  /** Whether LLM features can run with the saved settings */
+  getLLMStatus(): Promise<LLMStatusDTO>
 }
 
 /**
@@ -120,6 +175,84 @@ interface AnalyticsAPI {
   getResponseTimeStats(): Promise<ResponseTimeStatsEntryDTO[]>
   /** Get weakness heatmap data for the last N days */
   getWeaknessHeatmap(args: { days: number }): Promise<WeaknessHeatmapEntryDTO[]>
+  /** Get LLM calls and spend by feature and model for the current month */
+  getLLMUsage(): Promise<LLMUsageReportDTO>
+}
+
+/**
+ * API for rebuilding state from the event log
+ */
+interface ReplayAPI {
+  /** Replay all review events; with dryRun, only report the differences */
+  run(options: ReplayOptionsDTO): Promise<ReplayReportDTO>
+}
+
+/**
+ * API for LLM evaluation of open responses
+ */
+interface EvaluationAPI {
+  /** Re-score recent open responses (optionally with another model) and compare */
+  replay(options: EvaluationReplayOptionsDTO): Promise<EvaluationReplayReportDTO>
+  /** Most recent evaluated responses with the user's verdicts, newest first */
+  getHistory(limit: number): Promise<EvaluatedResponseDTO[]>
+  /** Set or clear the user's rating of an evaluated review and correct mastery and schedules */
+  override(data: EvaluationOverrideDTO): Promise<EvaluationOverrideResultDTO>
+  /** LLM score versus the user's verdict per model and dimension */
+  getCalibration(): Promise<EvaluationCalibrationDTO[]>
+}
+
+/**
+ * API for the background generation queue
+ */
+interface JobsAPI {
+  /** Get recent jobs and in-flight state */
+  getStatus(): Promise<JobQueueStatusDTO>
+  /** Queue generation for every concept x dimension x difficulty combination */
+  enqueueGeneration(data: EnqueueGenerationDTO): Promise<GenerationJobDTO[]>
+  /** Cancel a queued or running job */
+  cancel(id: string): Promise<GenerationJobDTO>
+  /** Queue a failed or cancelled job again */
+  retry(id: string): Promise<GenerationJobDTO>
+  /** Remove finished jobs; returns how many were removed */
+  clearFinished(): Promise<number>
+  /** Find variants missing per concept x dimension x difficulty; queue them unless dryRun */
+  fillGaps(data: FillGapsDTO): Promise<FillGapsResultDTO>
+  /** Subscribe to job state changes; returns an unsubscribe function */
+  onProgress(callback: (job: GenerationJobDTO) => void): () => void
+}
+
+/**
+ * API for importing study material from other tools
+ */
+interface ImportAPI {
+  /** Import an Anki .apkg or .colpkg package; with dryRun, only report what it holds */
+  anki(data: AnkiImportDTO): Promise<AnkiImportReportDTO>
+  /** Ask for a folder in a system dialog; null when cancelled */
+  chooseFolder(): Promise<string | null>
+  /** Import a folder of Markdown/Obsidian notes; with dryRun, only report what it holds */
+  markdown(data: MarkdownImportDTO): Promise<MarkdownImportReportDTO>
+}
+
+/**
+ * Data API for exporting and importing all study data
+ */
+interface DataAPI {
+  /** Export concepts, variants, schedules, mastery and optionally events as JSON or YAML */
+  export(options: DataExportOptionsDTO): Promise<DataExportDTO>
+  /** Import a data document by replacing or merging; with dryRun, only validate and count */
+  import(data: DataImportDTO): Promise<DataImportReportDTO>
+}
+
+/**
+ * Backup API for database backups and restores
+ */
+interface BackupAPI {
+  /** List the backups in the backups directory, newest first */
+  list(): Promise<BackupListDTO>
+  /** Back up the database now; manual backups are never deleted by rotation */
+  create(): Promise<BackupInfoDTO>
+  /** Replace the database with a backup, after backing up the current data */
+  restore(fileName: string): Promise<BackupRestoreReportDTO>
 }
 
 /**
@@ -133,6 +266,12 @@ interface AppAPI {
   schedule: ScheduleAPI
   settings: SettingsAPI
   analytics: AnalyticsAPI
+  replay: ReplayAPI
+  evaluation: EvaluationAPI
+  jobs: JobsAPI
+  import: ImportAPI
+  data: DataAPI
+  backup: BackupAPI
 }
 
 declare global {
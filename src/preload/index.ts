@@ -2,7 +2,7 @@
  * @fileoverview Preload script exposing secure IPC bridge to renderer
  * @lastmodified 2026-01-16T00:00:00Z
  *
- * Features: Type-safe IPC bridge, contextBridge API exposure
+ * Features: Type-safe IPC bridge, contextBridge API exposure, job progress subscription
  * Main APIs: window.api with typed methods for all IPC channels
  * Constraints: Must use contextBridge for security
  * Patterns: Grouped API methods by domain (concepts, variants, review, etc.)
@@ -15,25 +15,60 @@ import type {
   ConceptDTO,
   CreateConceptDTO,
   UpdateConceptDTO,
+  CsvImportDTO,
+  CsvImportReportDTO,
   VariantDTO,
   CreateVariantDTO,
   UpdateVariantDTO,
+  GenerateVariantsDTO,
+  GenerateVariantsResultDTO,
+  GenerateDistractorsDTO,
+  GenerateDistractorsResultDTO,
   ReviewCardDTO,
   ReviewSubmitDTO,
   ReviewResultDTO,
   DueCountDTO,
   MasteryProfileDTO,
   MasteryDTO,
+  ConceptMasteryProfileDTO,
   Dimension,
   ScheduleDTO,
   UpdateScheduleDTO,
+  OptimizeScheduleDTO,
+  ScheduleOptimizationReportDTO,
+  ReplayOptionsDTO,
+  ReplayReportDTO,
+  EvaluationReplayOptionsDTO,
+  EvaluationReplayReportDTO,
+  EvaluatedResponseDTO,
+  EvaluationOverrideDTO,
+  EvaluationOverrideResultDTO,
+  EvaluationCalibrationDTO,
   SettingsDTO,
   LLMConfigDTO,
   ConnectionTestResultDTO,
+  LLMStatusDTO,
   MasteryTimelineEntryDTO,
   ReviewDistributionEntryDTO,
   ResponseTimeStatsEntryDTO,
   WeaknessHeatmapEntryDTO,
+  LLMUsageReportDTO,
+  EnqueueGenerationDTO,
+  GenerationJobDTO,
+  JobQueueStatusDTO,
+  FillGapsDTO,
+  FillGapsResultDTO,
+  AnkiImportDTO,
+  AnkiImportReportDTO,
+  MarkdownImportDTO,
+  MarkdownImportReportDTO,
+  DataExportOptionsDTO,
+  DataExportDTO,
+  DataImportDTO,
+  DataImportReportDTO,
+  BackupInfoDTO,
+  BackupListDTO,
+  BackupRestoreReportDTO,
 } from '../shared/types/ipc'
 
 // -----------------------------------------------------------------------------
@@ -62,6 +97,9 @@ const api = {
 
     delete: (id: string): Promise<void> =>
       ipcRenderer.invoke('concepts:delete', id),
+
+    importCsv: (data: CsvImportDTO): Promise<CsvImportReportDTO> =>
+      ipcRenderer.invoke('concepts:importCsv', data),
   },
 
   /**
@@ -79,6 +117,17 @@ const api = {
 
     delete: (id: string): Promise<void> =>
       ipcRenderer.invoke('variants:delete', id),
+
+    createMany: (data: CreateVariantDTO[]): Promise<VariantDTO[]> =>
+      ipcRenderer.invoke('variants:createMany', data),
+
+    generate: (options: GenerateVariantsDTO): Promise<GenerateVariantsResultDTO> =>
+      ipcRenderer.invoke('variants:generate', options),
+
+    generateDistractors: (
+      data: GenerateDistractorsDTO
+    ): Promise<GenerateDistractorsResultDTO> =>
+      ipcRenderer.invoke('variants:generateDistractors', data),
   },
 
   /**
@@ -93,6 +142,9 @@ const api = {
 
     getDueCount: (): Promise<DueCountDTO> =>
       ipcRenderer.invoke('review:getDueCount'),
+
+    startSession: (): Promise<DueCountDTO> =>
+      ipcRenderer.invoke('review:startSession'),
   },
 
   /**
@@ -104,6 +156,15 @@ const api = {
 
     getByDimension: (dimension: Dimension): Promise<MasteryDTO> =>
       ipcRenderer.invoke('mastery:getByDimension', dimension),
+
+    getByConcept: (conceptId: string): Promise<ConceptMasteryProfileDTO> =>
+      ipcRenderer.invoke('mastery:getByConcept', conceptId),
+
+    getAllConcepts: (): Promise<ConceptMasteryProfileDTO[]> =>
+      ipcRenderer.invoke('mastery:getAllConcepts'),
+
+    recompute: (): Promise<MasteryProfileDTO> =>
+      ipcRenderer.invoke('mastery:recompute'),
   },
 
   /**
@@ -114,6 +175,9 @@ const api = {
 
     update: (data: UpdateScheduleDTO): Promise<ScheduleDTO> =>
       ipcRenderer.invoke('schedule:update', data),
+
+    optimize: (data: OptimizeScheduleDTO): Promise<ScheduleOptimizationReportDTO> =>
+      ipcRenderer.invoke('schedule:optimize', data),
   },
 
   /**
@@ -127,6 +191,8 @@ const api = {
 
     testConnection: (config: LLMConfigDTO): Promise<ConnectionTestResultDTO> =>
       ipcRenderer.invoke('settings:testConnection', config),
+
+    getLLMStatus: (): Promise<LLMStatusDTO> => ipcRenderer.invoke('settings:getLLMStatus'),
   },
 
   /**
@@ -144,6 +210,89 @@ const api = {
 
     getWeaknessHeatmap: (args: { days: number }): Promise<WeaknessHeatmapEntryDTO[]> =>
       ipcRenderer.invoke('analytics:getWeaknessHeatmap', args),
+
+    getLLMUsage: (): Promise<LLMUsageReportDTO> => ipcRenderer.invoke('analytics:getLLMUsage'),
+  },
+
+  /**
+   * Replay operations - rebuild mastery and schedules from the event log
+   */
+  replay: {
+    run: (options: ReplayOptionsDTO): Promise<ReplayReportDTO> =>
+      ipcRenderer.invoke('replay:run', options),
+  },
+
+  /**
+   * Evaluation operations - re-score stored open responses, dispute ratings, calibration
+   */
+  evaluation: {
+    replay: (options: EvaluationReplayOptionsDTO): Promise<EvaluationReplayReportDTO> =>
+      ipcRenderer.invoke('evaluation:replay', options),
+    getHistory: (limit: number): Promise<EvaluatedResponseDTO[]> =>
+      ipcRenderer.invoke('evaluation:getHistory', { limit }),
+    override: (data: EvaluationOverrideDTO): Promise<EvaluationOverrideResultDTO> =>
+      ipcRenderer.invoke('evaluation:override', data),
+    getCalibration: (): Promise<EvaluationCalibrationDTO[]> =>
+      ipcRenderer.invoke('evaluation:getCalibration'),
+  },
+
+  /**
+   * Background job operations - bulk variant generation queue
+   */
+  jobs: {
+    getStatus: (): Promise<JobQueueStatusDTO> => ipcRenderer.invoke('jobs:getStatus'),
+
+    enqueueGeneration: (data: EnqueueGenerationDTO): Promise<GenerationJobDTO[]> =>
+      ipcRenderer.invoke('jobs:enqueueGeneration', data),
+
+    cancel: (id: string): Promise<GenerationJobDTO> => ipcRenderer.invoke('jobs:cancel', id),
+
+    retry: (id: string): Promise<GenerationJobDTO> => ipcRenderer.invoke('jobs:retry', id),
+
+    clearFinished: (): Promise<number> => ipcRenderer.invoke('jobs:clearFinished'),
+
+    fillGaps: (data: FillGapsDTO): Promise<FillGapsResultDTO> =>
+      ipcRenderer.invoke('jobs:fillGaps', data),
+
+    onProgress: (callback: (job: GenerationJobDTO) => void): (() => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, job: GenerationJobDTO): void =>
+        callback(job)
+      ipcRenderer.on('jobs:progress', listener)
+      return () => {
+        ipcRenderer.removeListener('jobs:progress', listener)
+      }
+    },
+  },
+
+  /**
+   * Import operations - study material from other tools
+   */
+  import: {
+    anki: (data: AnkiImportDTO): Promise<AnkiImportReportDTO> =>
+      ipcRenderer.invoke('import:anki', data),
+    chooseFolder: (): Promise<string | null> => ipcRenderer.invoke('import:chooseFolder'),
+    markdown: (data: MarkdownImportDTO): Promise<MarkdownImportReportDTO> =>
+      ipcRenderer.invoke('import:markdown', data),
+  },
+
+  /**
+   * Data operations - export and import of all study data
+   */
+  data: {
+    export: (options: DataExportOptionsDTO): Promise<DataExportDTO> =>
+      ipcRenderer.invoke('data:export', options),
+    import: (data: DataImportDTO): Promise<DataImportReportDTO> =>
+      ipcRenderer.invoke('data:import', data),
+  },
+
+  /**
+   * Backup operations - database backups and restores
+   */
+  backup: {
+    list: (): Promise<BackupListDTO> => ipcRenderer.invoke('backup:list'),
+    create: (): Promise<BackupInfoDTO> => ipcRenderer.invoke('backup:create'),
+    restore: (fileName: string): Promise<BackupRestoreReportDTO> =>
+      ipcRenderer.invoke('backup:restore', fileName),
   },
 }
 
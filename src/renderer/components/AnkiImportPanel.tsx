@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Panel for importing Anki decks as concepts and variants
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: .apkg/.colpkg file selection, optional review history, preview of concepts,
+ *           variants per guessed dimension and skipped notes before anything is written
+ * Main APIs: useElectronAPI hook (import.anki)
+ * Constraints: The file is read in the renderer and sent to the main process whole
+ * Patterns: Preview-then-confirm, CSS modules, WCAG 2.1 AA compliant
+ */
+
+import { useState, useCallback } from 'react'
+
+import styles from './AnkiImportPanel.module.css'
+import { useElectronAPI } from '../hooks/useElectronAPI'
+
+import type { AnkiImportReportDTO, Dimension } from '../../shared/types/ipc'
+
+/**
+ * Display labels for dimensions
+ */
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  definition: 'Definition',
+  paraphrase: 'Paraphrase',
+  example: 'Example',
+  scenario: 'Scenario',
+  discrimination: 'Discrimination',
+  cloze: 'Cloze',
+}
+
+const ALL_DIMENSIONS = Object.keys(DIMENSION_LABELS) as Dimension[]
+const SKIPPED_PREVIEW_LIMIT = 10
+
+/**
+ * Pluralizes a count with its noun
+ */
+function formatCount(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`
+}
+
+/**
+ * Props for the AnkiImportPanel component
+ */
+interface AnkiImportPanelProps {
+  /** Called after concepts were imported */
+  onImported: (report: AnkiImportReportDTO) => void
+  /** Called to close the panel */
+  onClose: () => void
+}
+
+/**
+ * Previews and imports an Anki package
+ */
+function AnkiImportPanel({ onImported, onClose }: AnkiImportPanelProps): React.JSX.Element {
+  const api = useElectronAPI()
+  const [file, setFile] = useState<File | null>(null)
+  const [includeReviewHistory, setIncludeReviewHistory] = useState(false)
+  const [report, setReport] = useState<AnkiImportReportDTO | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isPreview = report?.dryRun === true
+
+  /**
+   * Preview the package, or import it once previewed
+   */
+  const handleRun = useCallback(
+    async (dryRun: boolean): Promise<void> => {
+      if (!file) return
+
+      try {
+        setIsWorking(true)
+        setError(null)
+        const result = await api.import.anki({
+          fileName: file.name,
+          data: new Uint8Array(await file.arrayBuffer()),
+          includeReviewHistory,
+          dryRun,
+        })
+        setReport(result)
+        if (!dryRun) {
+          onImported(result)
+        }
+      } catch (err) {
+        console.error('Failed to import Anki package:', err)
+        setError(err instanceof Error ? err.message : 'Failed to read the Anki package')
+      } finally {
+        setIsWorking(false)
+      }
+    },
+    [api, file, includeReviewHistory, onImported]
+  )
+
+  return (
+    <div className={styles.panel}>
+      <header className={styles.header}>
+        <h2 id="anki-import-title">Import from Anki</h2>
+        <p className={styles.subtitle}>
+          Each note becomes a concept and each card a variant. Notes named like an existing
+          concept are skipped.
+        </p>
+      </header>
+
+      <div className={styles.options}>
+        <label htmlFor="anki-file" className={styles.fileLabel}>
+          Anki package (.apkg or .colpkg)
+        </label>
+        <input
+          id="anki-file"
+          type="file"
+          accept=".apkg,.colpkg"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null)
+            setReport(null)
+            setError(null)
+          }}
+        />
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={includeReviewHistory}
+            onChange={(e) => {
+              setIncludeReviewHistory(e.target.checked)
+              setReport(null)
+            }}
+          />
+          Import review history to seed mastery and schedules
+        </label>
+      </div>
+
+      {report !== null && (
+        <section className={styles.report} aria-labelledby="anki-report-title" role="status">
+          <h3 id="anki-report-title">
+            {isPreview ? `${report.fileName} contains` : `Imported from ${report.fileName}`}
+          </h3>
+          <p>
+            {formatCount(report.conceptCount, 'concept')} ·{' '}
+            {formatCount(report.variantCount, 'variant')}
+            {includeReviewHistory && ` · ${formatCount(report.eventCount, 'review')}`}
+          </p>
+          <ul className={styles.dimensionList}>
+            {ALL_DIMENSIONS.filter((dimension) => report.dimensionCounts[dimension] > 0).map(
+              (dimension) => (
+                <li key={dimension}>
+                  {DIMENSION_LABELS[dimension]}: {report.dimensionCounts[dimension]}
+                </li>
+              )
+            )}
+          </ul>
+          {report.notesWithMedia > 0 && (
+            <p className={styles.note}>
+              Images and audio in {formatCount(report.notesWithMedia, 'note')} are not imported.
+            </p>
+          )}
+          {report.skippedReviewCount > 0 && (
+            <p className={styles.note}>
+              {formatCount(report.skippedReviewCount, 'review')} left out (manual reschedules and
+              reviews of skipped cards).
+            </p>
+          )}
+          {report.skipped.length > 0 && (
+            <>
+              <p className={styles.note}>{formatCount(report.skipped.length, 'item')} skipped:</p>
+              <ul className={styles.skippedList}>
+                {report.skipped.slice(0, SKIPPED_PREVIEW_LIMIT).map((item, index) => (
+                  <li key={`${item.kind}-${index}`}>
+                    {item.label} <span className={styles.reason}>({item.reason})</span>
+                  </li>
+                ))}
+                {report.skipped.length > SKIPPED_PREVIEW_LIMIT && (
+                  <li>and {report.skipped.length - SKIPPED_PREVIEW_LIMIT} more</li>
+                )}
+              </ul>
+            </>
+          )}
+        </section>
+      )}
+
+      {error !== null && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        <button type="button" className="btn-secondary" onClick={onClose}>
+          {report !== null && !isPreview ? 'Done' : 'Cancel'}
+        </button>
+        {isPreview ? (
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={() => void handleRun(false)}
+            disabled={isWorking || report.conceptCount === 0}
+          >
+            {isWorking ? 'Importing...' : `Import ${formatCount(report.conceptCount, 'concept')}`}
+          </button>
+        ) : (
+          report === null && (
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={() => void handleRun(true)}
+              disabled={isWorking || file === null}
+            >
+              {isWorking ? 'Reading...' : 'Preview'}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default AnkiImportPanel
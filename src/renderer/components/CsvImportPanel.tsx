@@ -0,0 +1,390 @@
+/**
+ * @fileoverview Panel for bulk importing concepts and variants from CSV or TSV files
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: File selection, separator and header options, column-to-field mapping guessed by
+ *           the main process, duplicate-name handling, row preview with validation errors
+ * Main APIs: useElectronAPI hook (concepts.importCsv)
+ * Constraints: Every change re-runs a dry run; the import is refused while any row has errors
+ * Patterns: Preview-then-confirm, controlled form, CSS modules, WCAG 2.1 AA compliant
+ */
+
+import { useState, useCallback } from 'react'
+
+import styles from './CsvImportPanel.module.css'
+import { useElectronAPI } from '../hooks/useElectronAPI'
+
+import type {
+  CsvDelimiter,
+  CsvDuplicateHandling,
+  CsvImportField,
+  CsvImportReportDTO,
+  CsvRowPreviewDTO,
+  Dimension,
+} from '../../shared/types/ipc'
+
+/**
+ * Display labels for importable fields
+ */
+const FIELD_LABELS: Record<CsvImportField, string> = {
+  name: 'Name',
+  definition: 'Definition',
+  facts: 'Facts',
+  dimension: 'Dimension',
+  difficulty: 'Difficulty',
+  front: 'Front (question)',
+  back: 'Back (answer)',
+  hints: 'Hints',
+  questionType: 'Question type',
+}
+
+/**
+ * Display labels for separators
+ */
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+}
+
+/**
+ * Display labels for row statuses
+ */
+const STATUS_LABELS: Record<CsvRowPreviewDTO['status'], string> = {
+  create: 'New concept',
+  add: 'Adds to row above',
+  merge: 'Adds to existing',
+  skip: 'Skipped',
+  error: 'Error',
+}
+
+/**
+ * Display labels for dimensions
+ */
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  definition: 'Definition',
+  paraphrase: 'Paraphrase',
+  example: 'Example',
+  scenario: 'Scenario',
+  discrimination: 'Discrimination',
+  cloze: 'Cloze',
+}
+
+const ALL_FIELDS = Object.keys(FIELD_LABELS) as CsvImportField[]
+const ALL_DELIMITERS = Object.keys(DELIMITER_LABELS) as CsvDelimiter[]
+const ROW_PREVIEW_LIMIT = 50
+
+/**
+ * Options sent with every preview
+ */
+interface PreviewOptions {
+  hasHeader: boolean
+  /** Undefined lets the main process detect the separator */
+  delimiter: CsvDelimiter | undefined
+  /** Undefined lets the main process guess the mapping */
+  mapping: Partial<Record<CsvImportField, number>> | undefined
+  onDuplicate: CsvDuplicateHandling
+}
+
+/**
+ * Pluralizes a count with its noun
+ */
+function formatCount(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`
+}
+
+/**
+ * Props for the CsvImportPanel component
+ */
+interface CsvImportPanelProps {
+  /** Called after rows were imported */
+  onImported: (report: CsvImportReportDTO) => void
+  /** Called to close the panel */
+  onClose: () => void
+}
+
+/**
+ * Maps the columns of a CSV or TSV file to concept and variant fields and imports it
+ */
+function CsvImportPanel({ onImported, onClose }: CsvImportPanelProps): React.JSX.Element {
+  const api = useElectronAPI()
+  const [text, setText] = useState<string | null>(null)
+  const [options, setOptions] = useState<PreviewOptions>({
+    hasHeader: true,
+    delimiter: undefined,
+    mapping: undefined,
+    onDuplicate: 'skip',
+  })
+  const [report, setReport] = useState<CsvImportReportDTO | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isImported = report !== null && !report.dryRun
+  const rowsToShow = report
+    ? [
+        ...report.rows.filter((row) => row.status === 'error'),
+        ...report.rows.filter((row) => row.status !== 'error'),
+      ].slice(0, ROW_PREVIEW_LIMIT)
+    : []
+
+  /**
+   * Run the import, or a dry run of it, with the given text and options
+   */
+  const run = useCallback(
+    async (source: string, next: PreviewOptions, dryRun: boolean): Promise<void> => {
+      try {
+        setIsWorking(true)
+        setError(null)
+        const result = await api.concepts.importCsv({
+          text: source,
+          hasHeader: next.hasHeader,
+          onDuplicate: next.onDuplicate,
+          dryRun,
+          ...(next.delimiter !== undefined && { delimiter: next.delimiter }),
+          ...(next.mapping !== undefined && { mapping: next.mapping }),
+        })
+        setReport(result)
+        setOptions({ ...next, delimiter: result.delimiter, mapping: result.mapping })
+        if (!dryRun) {
+          onImported(result)
+        }
+      } catch (err) {
+        console.error('Failed to import CSV:', err)
+        setError(err instanceof Error ? err.message : 'Failed to read the file')
+      } finally {
+        setIsWorking(false)
+      }
+    },
+    [api, onImported]
+  )
+
+  /**
+   * Change options and preview again
+   */
+  const updateOptions = (changes: Partial<PreviewOptions>): void => {
+    const next = { ...options, ...changes }
+    setOptions(next)
+    if (text !== null) {
+      void run(text, next, true)
+    }
+  }
+
+  /**
+   * Map a field to a column, or stop importing it
+   */
+  const handleMappingChange = (field: CsvImportField, value: string): void => {
+    const mapping = { ...options.mapping }
+    if (value === '') {
+      delete mapping[field]
+    } else {
+      mapping[field] = Number(value)
+    }
+    updateOptions({ mapping })
+  }
+
+  /**
+   * Read the chosen file and preview it with guessed settings
+   */
+  const handleFileChange = async (file: File | undefined): Promise<void> => {
+    setReport(null)
+    if (!file) {
+      setText(null)
+      return
+    }
+    const source = await file.text()
+    const next = { ...options, delimiter: undefined, mapping: undefined }
+    setText(source)
+    setOptions(next)
+    await run(source, next, true)
+  }
+
+  return (
+    <div className={styles.panel}>
+      <header className={styles.header}>
+        <h2 id="csv-import-title">Import from CSV</h2>
+        <p className={styles.subtitle}>
+          Rows with the same name form one concept; rows with a front or back also add a
+          variant. Separate several facts or hints in a cell with |.
+        </p>
+      </header>
+
+      <div className={styles.options}>
+        <label htmlFor="csv-file" className={styles.fieldLabel}>
+          CSV or TSV file
+        </label>
+        <input
+          id="csv-file"
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          onChange={(e) => void handleFileChange(e.target.files?.[0])}
+        />
+
+        {report !== null && !isImported && (
+          <>
+            <div className={styles.optionRow}>
+              <label className={styles.inlineField}>
+                Separator
+                <select
+                  value={options.delimiter ?? report.delimiter}
+                  onChange={(e) =>
+                    updateOptions({
+                      delimiter: e.target.value as CsvDelimiter,
+                      mapping: undefined,
+                    })
+                  }
+                >
+                  {ALL_DELIMITERS.map((delimiter) => (
+                    <option key={delimiter} value={delimiter}>
+                      {DELIMITER_LABELS[delimiter]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={options.hasHeader}
+                  onChange={(e) =>
+                    updateOptions({ hasHeader: e.target.checked, mapping: undefined })
+                  }
+                />
+                First row has column names
+              </label>
+              <label className={styles.inlineField}>
+                Existing names
+                <select
+                  value={options.onDuplicate}
+                  onChange={(e) =>
+                    updateOptions({ onDuplicate: e.target.value as CsvDuplicateHandling })
+                  }
+                >
+                  <option value="skip">Skip their rows</option>
+                  <option value="merge">Add facts and variants</option>
+                </select>
+              </label>
+            </div>
+
+            <fieldset className={styles.fieldset}>
+              <legend>Columns</legend>
+              <div className={styles.mappingGrid}>
+                {ALL_FIELDS.map((field) => (
+                  <label key={field} className={styles.mappingField}>
+                    {FIELD_LABELS[field]}
+                    {field === 'name' && <span aria-hidden="true"> *</span>}
+                    <select
+                      value={options.mapping?.[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      aria-required={field === 'name'}
+                    >
+                      <option value="">Not imported</option>
+                      {report.columns.map((column, index) => (
+                        <option key={index} value={index}>
+                          {column}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </>
+        )}
+      </div>
+
+      {report !== null && (
+        <section className={styles.report} aria-labelledby="csv-report-title">
+          <h3 id="csv-report-title" role="status">
+            {isImported ? 'Imported ' : ''}
+            {formatCount(report.conceptsCreated, 'new concept')} ·{' '}
+            {formatCount(report.conceptsMerged, 'existing concept')} updated ·{' '}
+            {formatCount(report.variantsCreated, 'variant')}
+            {report.skippedCount > 0 && ` · ${formatCount(report.skippedCount, 'row')} skipped`}
+          </h3>
+          {report.errorCount > 0 && (
+            <p className={styles.errorSummary}>
+              {formatCount(report.errorCount, 'row')} with errors. Fix the file or the column
+              mapping to import.
+            </p>
+          )}
+          {!isImported && rowsToShow.length > 0 && (
+            <table className={styles.table}>
+              {report.rows.length > ROW_PREVIEW_LIMIT && (
+                <caption className={styles.caption}>
+                  Showing {ROW_PREVIEW_LIMIT} of {report.rows.length} rows, errors first.
+                </caption>
+              )}
+              <thead>
+                <tr>
+                  <th scope="col">Row</th>
+                  <th scope="col">Name</th>
+                  <th scope="col">Variant</th>
+                  <th scope="col">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rowsToShow.map((row) => (
+                  <tr
+                    key={row.rowNumber}
+                    className={row.status === 'error' ? styles.errorRow : undefined}
+                  >
+                    <td>{row.rowNumber}</td>
+                    <td>{row.name}</td>
+                    <td>
+                      {row.variant !== null && (
+                        <>
+                          <span className={styles.variantMeta}>
+                            {DIMENSION_LABELS[row.variant.dimension]} · {row.variant.difficulty}
+                          </span>{' '}
+                          {row.variant.front}
+                        </>
+                      )}
+                    </td>
+                    <td>
+                      {STATUS_LABELS[row.status]}
+                      {row.errors.length > 0 && (
+                        <ul className={styles.rowErrors}>
+                          {row.errors.map((message) => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+
+      {error !== null && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        <button type="button" className="btn-secondary" onClick={onClose}>
+          {isImported ? 'Done' : 'Cancel'}
+        </button>
+        {!isImported && (
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={() => text !== null && void run(text, options, false)}
+            disabled={
+              isWorking ||
+              report === null ||
+              report.errorCount > 0 ||
+              report.conceptsCreated + report.conceptsMerged === 0
+            }
+          >
+            {isWorking ? 'Working...' : 'Import'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CsvImportPanel
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Panel for reviewing LLM evaluations and their calibration against the user
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Calibration table per model and dimension (agreement, bias, mean error),
+ *           recent evaluated responses with a rating selector to dispute or restore each one
+ * Main APIs: useElectronAPI hook (evaluation.getCalibration, evaluation.getHistory,
+ *            evaluation.override)
+ * Constraints: Overrides rebuild mastery and schedules in the main process
+ * Patterns: Loading/error/empty states, CSS modules, WCAG 2.1 AA compliant
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+
+import styles from './EvaluationCalibrationPanel.module.css'
+import { useElectronAPI } from '../hooks/useElectronAPI'
+
+import type {
+  Dimension,
+  EvaluatedResponseDTO,
+  EvaluationCalibrationDTO,
+  Rating,
+} from '../../shared/types/ipc'
+
+/**
+ * Display labels for dimensions
+ */
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  definition: 'Definition',
+  paraphrase: 'Paraphrase',
+  example: 'Example',
+  scenario: 'Scenario',
+  discrimination: 'Discrimination',
+  cloze: 'Cloze',
+}
+
+/**
+ * Display labels for ratings
+ */
+const RATING_LABELS: Record<Rating, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+}
+
+const ALL_RATINGS = Object.keys(RATING_LABELS) as Rating[]
+
+/** Recent evaluated responses listed for review */
+const HISTORY_LIMIT = 20
+
+/**
+ * Formats a fraction as a whole percentage
+ */
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+/**
+ * Formats a score difference with its sign
+ */
+function formatSigned(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`
+}
+
+/**
+ * Shows how well each evaluating model agrees with the user and lets the
+ * user dispute recent evaluations
+ */
+function EvaluationCalibrationPanel(): React.JSX.Element {
+  const api = useElectronAPI()
+  const [calibration, setCalibration] = useState<EvaluationCalibrationDTO[]>([])
+  const [history, setHistory] = useState<EvaluatedResponseDTO[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Reload the calibration report and the recent evaluations
+   */
+  const load = useCallback(async (): Promise<void> => {
+    try {
+      const [groups, responses] = await Promise.all([
+        api.evaluation.getCalibration(),
+        api.evaluation.getHistory(HISTORY_LIMIT),
+      ])
+      setCalibration(groups)
+      setHistory(responses)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load evaluation calibration:', err)
+      setError('Failed to load evaluations.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [api])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  /**
+   * Set the user's rating of a response; the AI's own rating clears the override
+   */
+  const handleOverride = useCallback(
+    async (response: EvaluatedResponseDTO, rating: Rating): Promise<void> => {
+      setSavingId(response.eventId)
+      setStatus(null)
+      try {
+        const result = await api.evaluation.override({
+          eventId: response.eventId,
+          rating: rating === response.llmRating ? null : rating,
+        })
+        const changes =
+          result.replay.masteryChanges.length +
+          result.replay.conceptMasteryChanges.length +
+          result.replay.scheduleChanges.length
+        setStatus(`Rating saved; ${changes} mastery and schedule value(s) updated.`)
+        await load()
+      } catch (err) {
+        console.error('Failed to override evaluation:', err)
+        setError('Failed to save the rating.')
+      } finally {
+        setSavingId(null)
+      }
+    },
+    [api, load]
+  )
+
+  if (isLoading) {
+    return <p className={styles.empty}>Loading evaluations...</p>
+  }
+
+  if (history.length === 0 && calibration.length === 0) {
+    return (
+      <p className={styles.empty}>
+        No open responses have been evaluated yet. Answer open response cards to see how the
+        AI&apos;s ratings compare with yours.
+      </p>
+    )
+  }
+
+  return (
+    <div className={styles.panel}>
+      {error !== null && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <table className={styles.table}>
+        <caption className={styles.caption}>
+          Evaluations you left unchanged count as agreement. Bias above zero means the AI
+          scores more generously than you rate.
+        </caption>
+        <thead>
+          <tr>
+            <th scope="col">Model</th>
+            <th scope="col">Dimension</th>
+            <th scope="col">Reviews</th>
+            <th scope="col">Disputed</th>
+            <th scope="col">Agreement</th>
+            <th scope="col">Bias</th>
+            <th scope="col">Mean error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {calibration.map((group) => (
+            <tr
+              key={`${group.model ?? ''}:${group.dimension ?? ''}`}
+              className={group.dimension === null ? styles.summaryRow : undefined}
+            >
+              <th scope="row">{group.model ?? 'Unknown model'}</th>
+              <td>{group.dimension !== null ? DIMENSION_LABELS[group.dimension] : 'All'}</td>
+              <td>{group.count}</td>
+              <td>{group.overrideCount}</td>
+              <td>{formatPercent(group.agreement)}</td>
+              <td>{formatSigned(group.bias)}</td>
+              <td>{group.meanAbsoluteError.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h3 className={styles.heading}>Recent evaluations</h3>
+      <ul className={styles.list}>
+        {history.map((response) => (
+          <li key={response.eventId} className={styles.item}>
+            <div className={styles.itemHeader}>
+              <span className={styles.conceptName}>{response.conceptName}</span>
+              <span className={styles.meta}>
+                {DIMENSION_LABELS[response.dimension]} · score {response.score.toFixed(2)} ·{' '}
+                AI rated {RATING_LABELS[response.llmRating]}
+              </span>
+            </div>
+            <p className={styles.question}>{response.question}</p>
+            <p className={styles.response}>{response.userResponse}</p>
+            <label className={styles.ratingField}>
+              Your rating
+              <select
+                value={response.humanRating ?? response.llmRating}
+                onChange={(e) => void handleOverride(response, e.target.value as Rating)}
+                disabled={savingId !== null}
+                aria-busy={savingId === response.eventId}
+              >
+                {ALL_RATINGS.map((rating) => (
+                  <option key={rating} value={rating}>
+                    {RATING_LABELS[rating]}
+                    {rating === response.llmRating ? ' (AI)' : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {status !== null && (
+        <p className={styles.status} aria-live="polite">
+          {status}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default EvaluationCalibrationPanel
@@ -0,0 +1,479 @@
+/**
+ * @fileoverview Panel for queueing bulk variant generation and following background jobs
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Dimension, difficulty and count selection for many concepts at once, gap filling
+ *           with a preview of missing variants, live job list with progress summary,
+ *           cancel/retry per job, clear finished, rate-limit pause notice
+ * Main APIs: useElectronAPI hook (jobs.getStatus, jobs.enqueueGeneration, jobs.fillGaps,
+ *            jobs.cancel, jobs.retry, jobs.clearFinished, jobs.onProgress, settings.getLLMStatus)
+ * Constraints: Jobs keep running in the main process after the panel is closed
+ * Patterns: Controlled form, progress event subscription, WCAG 2.1 AA compliant
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+
+import styles from './JobsPanel.module.css'
+import { useElectronAPI } from '../hooks/useElectronAPI'
+
+import type {
+  Dimension,
+  GenerationJobDTO,
+  GenerationJobStatus,
+  LLMStatusDTO,
+  VariantGapDTO,
+} from '../../shared/types/ipc'
+
+/**
+ * Display labels for dimensions
+ */
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  definition: 'Definition',
+  paraphrase: 'Paraphrase',
+  example: 'Example',
+  scenario: 'Scenario',
+  discrimination: 'Discrimination',
+  cloze: 'Cloze',
+}
+
+/**
+ * Display labels for job states
+ */
+const STATUS_LABELS: Record<GenerationJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+/**
+ * Display labels for why a cell needs variants
+ */
+const GAP_REASON_LABELS: Record<VariantGapDTO['reason'], string> = {
+  weak: 'weak',
+  dodged: 'avoided',
+  missing: 'missing',
+}
+
+const ALL_DIMENSIONS = Object.keys(DIMENSION_LABELS) as Dimension[]
+const DIFFICULTY_LEVELS = [1, 2, 3, 4, 5]
+const MAX_COUNT = 10
+const GAP_PREVIEW_LIMIT = 8
+
+/**
+ * Props for the JobsPanel component
+ */
+interface JobsPanelProps {
+  /** Concepts to queue generation for */
+  conceptIds: string[]
+  /** Called to close the panel */
+  onClose: () => void
+}
+
+/**
+ * Queues generation jobs for a set of concepts and shows the queue's progress
+ */
+function JobsPanel({ conceptIds, onClose }: JobsPanelProps): React.JSX.Element {
+  const api = useElectronAPI()
+  const [dimensions, setDimensions] = useState<Dimension[]>(['definition'])
+  const [difficulties, setDifficulties] = useState<number[]>([3])
+  const [count, setCount] = useState(3)
+  const [llmStatus, setLLMStatus] = useState<LLMStatusDTO | null>(null)
+  const [jobs, setJobs] = useState<GenerationJobDTO[]>([])
+  const [pausedUntil, setPausedUntil] = useState<string | null>(null)
+  const [perCell, setPerCell] = useState(1)
+  const [weakPerCell, setWeakPerCell] = useState(3)
+  const [gaps, setGaps] = useState<VariantGapDTO[] | null>(null)
+  const [isQueueing, setIsQueueing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isNotConfigured = llmStatus !== null && !llmStatus.configured
+  const jobCount = conceptIds.length * dimensions.length * difficulties.length
+  const finishedCount = jobs.filter(
+    (j) => j.status === 'completed' || j.status === 'failed' || j.status === 'cancelled'
+  ).length
+  const variantsCreated = jobs.reduce((sum, j) => sum + j.variantsCreated, 0)
+  const missingCount = gaps?.reduce((sum, g) => sum + g.missing, 0) ?? 0
+
+  /**
+   * Reload the job list and queue state
+   */
+  const loadStatus = useCallback(async (): Promise<void> => {
+    try {
+      const status = await api.jobs.getStatus()
+      setJobs(status.jobs)
+      setPausedUntil(status.pausedUntil)
+    } catch (err) {
+      console.error('Failed to load jobs:', err)
+      setError('Failed to load background jobs.')
+    }
+  }, [api])
+
+  // Load jobs and LLM status, then follow progress events
+  useEffect(() => {
+    void loadStatus()
+    api.settings
+      .getLLMStatus()
+      .then(setLLMStatus)
+      .catch((err: unknown) => console.error('Failed to get LLM status:', err))
+
+    return api.jobs.onProgress((job) => {
+      setJobs((prev) =>
+        prev.some((j) => j.id === job.id)
+          ? prev.map((j) => (j.id === job.id ? job : j))
+          : [job, ...prev]
+      )
+      // A rate-limited job carries the pause in its runAfter; refresh the queue state
+      if (job.status === 'queued') {
+        void loadStatus()
+      }
+    })
+  }, [api, loadStatus])
+
+  /**
+   * Toggle a value in a selection list
+   */
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+
+  /**
+   * Queue one job per concept, dimension and difficulty
+   */
+  const handleQueue = useCallback(async (): Promise<void> => {
+    if (dimensions.length === 0 || difficulties.length === 0) {
+      setError('Select at least one dimension and one difficulty level')
+      return
+    }
+
+    try {
+      setIsQueueing(true)
+      setError(null)
+      const created = await api.jobs.enqueueGeneration({
+        conceptIds,
+        dimensions,
+        difficulties,
+        count,
+      })
+      const createdIds = new Set(created.map((j) => j.id))
+      setJobs((prev) => [...created, ...prev.filter((j) => !createdIds.has(j.id))])
+    } catch (err) {
+      console.error('Failed to queue generation:', err)
+      setError('Failed to queue generation. Please try again.')
+    } finally {
+      setIsQueueing(false)
+    }
+  }, [api, conceptIds, dimensions, difficulties, count])
+
+  /**
+   * Find the variants the concepts are missing; queue them unless previewing
+   */
+  const handleFillGaps = useCallback(
+    async (dryRun: boolean): Promise<void> => {
+      if (difficulties.length === 0) {
+        setError('Select at least one difficulty level')
+        return
+      }
+
+      try {
+        setIsQueueing(true)
+        setError(null)
+        const result = await api.jobs.fillGaps({
+          conceptIds,
+          difficulties,
+          perCell,
+          weakPerCell,
+          dryRun,
+        })
+        if (dryRun) {
+          setGaps(result.gaps)
+          return
+        }
+        const createdIds = new Set(result.jobs.map((j) => j.id))
+        setJobs((prev) => [...result.jobs, ...prev.filter((j) => !createdIds.has(j.id))])
+        setGaps(null)
+      } catch (err) {
+        console.error('Failed to fill gaps:', err)
+        setError('Failed to find missing variants. Please try again.')
+      } finally {
+        setIsQueueing(false)
+      }
+    },
+    [api, conceptIds, difficulties, perCell, weakPerCell]
+  )
+
+  /**
+   * Cancel or retry a job, replacing it with the updated version
+   */
+  const handleJobAction = useCallback(
+    async (job: GenerationJobDTO, action: 'cancel' | 'retry'): Promise<void> => {
+      try {
+        setError(null)
+        const updated = await api.jobs[action](job.id)
+        setJobs((prev) => prev.map((j) => (j.id === updated.id ? updated : j)))
+      } catch (err) {
+        console.error(`Failed to ${action} job:`, err)
+        setError(`Failed to ${action} the job. It may have already finished.`)
+        void loadStatus()
+      }
+    },
+    [api, loadStatus]
+  )
+
+  /**
+   * Remove completed, failed and cancelled jobs from the list
+   */
+  const handleClearFinished = useCallback(async (): Promise<void> => {
+    try {
+      setError(null)
+      await api.jobs.clearFinished()
+      await loadStatus()
+    } catch (err) {
+      console.error('Failed to clear finished jobs:', err)
+      setError('Failed to clear finished jobs.')
+    }
+  }, [api, loadStatus])
+
+  return (
+    <div className={styles.panel}>
+      <header className={styles.header}>
+        <h2 id="jobs-title">Bulk Generation</h2>
+        <p className={styles.subtitle}>
+          Variants are generated in the background and saved as they finish.
+        </p>
+      </header>
+
+      {isNotConfigured && (
+        <div className={styles.notice} role="status">
+          <span>{llmStatus.error?.message ?? 'LLM generation is not configured.'}</span>{' '}
+          <Link to="/settings" className={styles.settingsLink}>
+            Open Settings
+          </Link>
+        </div>
+      )}
+
+      {/* Generation Options */}
+      <div className={styles.options}>
+        <fieldset className={styles.fieldset}>
+          <legend>Dimensions</legend>
+          <div className={styles.checkboxGrid}>
+            {ALL_DIMENSIONS.map((dimension) => (
+              <label key={dimension} className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={dimensions.includes(dimension)}
+                  onChange={() => setDimensions((prev) => toggle(prev, dimension))}
+                />
+                {DIMENSION_LABELS[dimension]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset className={styles.fieldset}>
+          <legend>Difficulty</legend>
+          <div className={styles.checkboxGrid}>
+            {DIFFICULTY_LEVELS.map((level) => (
+              <label key={level} className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={difficulties.includes(level)}
+                  onChange={() => {
+                    setDifficulties((prev) => toggle(prev, level))
+                    setGaps(null)
+                  }}
+                />
+                {level}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className={styles.countRow}>
+          <label htmlFor="jobs-count">Per combination</label>
+          <input
+            id="jobs-count"
+            type="number"
+            min={1}
+            max={MAX_COUNT}
+            value={count}
+            onChange={(e) =>
+              setCount(Math.min(MAX_COUNT, Math.max(1, parseInt(e.target.value, 10) || 1)))
+            }
+            className={styles.countInput}
+          />
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={() => void handleQueue()}
+            disabled={isQueueing || isNotConfigured || jobCount === 0}
+          >
+            {isQueueing
+              ? 'Queueing...'
+              : `Queue ${jobCount} job${jobCount !== 1 ? 's' : ''} for ${conceptIds.length} concept${conceptIds.length !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </div>
+
+      {/* Gap Filling */}
+      <section className={styles.gaps} aria-labelledby="gaps-title">
+        <h3 id="gaps-title">Fill gaps</h3>
+        <p className={styles.gapsHelp}>
+          Finds dimensions and the difficulties selected above with too few variants, giving
+          weak or avoided dimensions more, and queues exactly the missing cards.
+        </p>
+        <div className={styles.countRow}>
+          <label htmlFor="gaps-per-cell">Per cell</label>
+          <input
+            id="gaps-per-cell"
+            type="number"
+            min={0}
+            max={MAX_COUNT}
+            value={perCell}
+            onChange={(e) => {
+              setPerCell(Math.min(MAX_COUNT, Math.max(0, parseInt(e.target.value, 10) || 0)))
+              setGaps(null)
+            }}
+            className={styles.countInput}
+          />
+          <label htmlFor="gaps-weak-per-cell">Weak dimensions</label>
+          <input
+            id="gaps-weak-per-cell"
+            type="number"
+            min={0}
+            max={MAX_COUNT}
+            value={weakPerCell}
+            onChange={(e) => {
+              setWeakPerCell(Math.min(MAX_COUNT, Math.max(0, parseInt(e.target.value, 10) || 0)))
+              setGaps(null)
+            }}
+            className={styles.countInput}
+          />
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => void handleFillGaps(true)}
+            disabled={isQueueing || conceptIds.length === 0}
+          >
+            Find gaps
+          </button>
+        </div>
+
+        {gaps !== null && gaps.length === 0 && (
+          <p className={styles.gapsHelp} role="status">
+            No gaps: every cell already has enough variants or has them queued.
+          </p>
+        )}
+
+        {gaps !== null && gaps.length > 0 && (
+          <div className={styles.gapPreview}>
+            <p role="status">
+              {missingCount} variant{missingCount !== 1 ? 's' : ''} missing across {gaps.length}{' '}
+              cell{gaps.length !== 1 ? 's' : ''}
+            </p>
+            <ul className={styles.gapList}>
+              {gaps.slice(0, GAP_PREVIEW_LIMIT).map((gap) => (
+                <li key={`${gap.conceptId}-${gap.dimension}-${gap.difficulty}`}>
+                  {gap.conceptName}: {DIMENSION_LABELS[gap.dimension]}, difficulty {gap.difficulty}{' '}
+                  · {gap.missing} {GAP_REASON_LABELS[gap.reason]}
+                </li>
+              ))}
+              {gaps.length > GAP_PREVIEW_LIMIT && (
+                <li>and {gaps.length - GAP_PREVIEW_LIMIT} more</li>
+              )}
+            </ul>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={() => void handleFillGaps(false)}
+              disabled={isQueueing || isNotConfigured}
+            >
+              Queue {missingCount} variant{missingCount !== 1 ? 's' : ''}
+            </button>
+          </div>
+        )}
+      </section>
+
+      {pausedUntil !== null && (
+        <div className={styles.notice} role="status">
+          Rate limited by the provider. Generation resumes at{' '}
+          {new Date(pausedUntil).toLocaleTimeString()}.
+        </div>
+      )}
+
+      {/* Job List */}
+      {jobs.length > 0 && (
+        <div className={styles.jobs}>
+          <div className={styles.jobsHeader}>
+            <span aria-live="polite">
+              {finishedCount} of {jobs.length} finished · {variantsCreated} variant
+              {variantsCreated !== 1 ? 's' : ''} created
+            </span>
+            <button
+              type="button"
+              className={styles.linkButton}
+              onClick={() => void handleClearFinished()}
+              disabled={finishedCount === 0}
+            >
+              Clear finished
+            </button>
+          </div>
+          <ul className={styles.jobList}>
+            {jobs.map((job) => (
+              <li key={job.id} className={styles.jobItem}>
+                <div className={styles.jobContent}>
+                  <span className={styles.jobTitle}>{job.conceptName}</span>
+                  <span className={styles.jobMeta}>
+                    {DIMENSION_LABELS[job.dimension]} · difficulty {job.difficulty} · {job.count}{' '}
+                    requested
+                  </span>
+                  {job.error !== null && job.status !== 'completed' && (
+                    <span className={styles.jobError}>{job.error}</span>
+                  )}
+                </div>
+                <span className={`${styles.status} ${styles[job.status]}`}>
+                  {job.status === 'completed'
+                    ? `${job.variantsCreated} created`
+                    : STATUS_LABELS[job.status]}
+                </span>
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => void handleJobAction(job, 'cancel')}
+                  >
+                    Cancel
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => void handleJobAction(job, 'retry')}
+                  >
+                    Retry
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error !== null && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        <button type="button" className="btn-secondary" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default JobsPanel
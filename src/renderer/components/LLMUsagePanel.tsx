@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Panel summarizing this month's LLM calls and spend against the budget
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Spend versus monthly budget with progress bar, per feature totals (generation,
+ *           evaluation) followed by their models, failed and budget-blocked call counts
+ * Main APIs: useElectronAPI hook (analytics.getLLMUsage)
+ * Constraints: Costs are estimates from list prices; unpriced models are counted separately
+ * Patterns: Loading/error/empty states, CSS modules, WCAG 2.1 AA compliant
+ */
+
+import { useState, useEffect } from 'react'
+
+import styles from './LLMUsagePanel.module.css'
+import { useElectronAPI } from '../hooks/useElectronAPI'
+
+import type {
+  LLMUsageBreakdownDTO,
+  LLMUsageFeature,
+  LLMUsageReportDTO,
+} from '../../shared/types/ipc'
+
+/**
+ * Display labels for features
+ */
+const FEATURE_LABELS: Record<LLMUsageFeature, string> = {
+  generation: 'Generation',
+  evaluation: 'Evaluation',
+}
+
+/**
+ * Formats an amount in USD, keeping sub-cent amounts visible
+ */
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`
+}
+
+/**
+ * Formats a token count compactly
+ */
+function formatTokens(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value)
+}
+
+/**
+ * Renders one breakdown row of the usage table
+ */
+function UsageRow({ row }: { row: LLMUsageBreakdownDTO }): React.JSX.Element {
+  const isTotal = row.model === null
+  return (
+    <tr className={isTotal ? styles.summaryRow : undefined}>
+      <th scope="row" className={isTotal ? undefined : styles.modelCell}>
+        {isTotal ? FEATURE_LABELS[row.feature] : `${row.provider ?? ''} · ${row.model}`}
+      </th>
+      <td>{row.calls}</td>
+      <td>{row.failedCalls}</td>
+      <td>{row.blockedCalls}</td>
+      <td>
+        {formatTokens(row.promptTokens)} / {formatTokens(row.completionTokens)}
+      </td>
+      <td>{row.meanLatencyMs !== null ? `${(row.meanLatencyMs / 1000).toFixed(1)}s` : '—'}</td>
+      <td>
+        {formatUsd(row.costUsd)}
+        {row.unpricedCalls > 0 ? ` + ${row.unpricedCalls} unpriced` : ''}
+      </td>
+    </tr>
+  )
+}
+
+/**
+ * Shows how much the LLM features have used this month
+ */
+function LLMUsagePanel(): React.JSX.Element {
+  const api = useElectronAPI()
+  const [report, setReport] = useState<LLMUsageReportDTO | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.analytics
+      .getLLMUsage()
+      .then(setReport)
+      .catch((err: unknown) => {
+        console.error('Failed to load LLM usage:', err)
+        setError('Failed to load LLM usage.')
+      })
+  }, [api])
+
+  if (error !== null) {
+    return (
+      <p className={styles.error} role="alert">
+        {error}
+      </p>
+    )
+  }
+
+  if (report === null) {
+    return <p className={styles.empty}>Loading usage...</p>
+  }
+
+  const { budgetUsd, spentUsd } = report
+  const budgetUsed = budgetUsd !== null && budgetUsd > 0 ? Math.min(spentUsd / budgetUsd, 1) : 1
+  const month = new Date(report.periodStart).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+  })
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.budget}>
+        <p className={styles.spend}>
+          <span className={styles.spendAmount}>{formatUsd(spentUsd)}</span> spent in {month}
+          {budgetUsd !== null ? ` of a ${formatUsd(budgetUsd)} budget` : ' (no budget set)'}
+        </p>
+        {budgetUsd !== null && (
+          <div
+            className={styles.meter}
+            role="progressbar"
+            aria-label="Monthly budget used"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(budgetUsed * 100)}
+          >
+            <div
+              className={budgetUsed >= 1 ? styles.meterFillExceeded : styles.meterFill}
+              style={{ width: `${budgetUsed * 100}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {report.features.length === 0 ? (
+        <p className={styles.empty}>
+          No LLM calls this month. Generating variants and evaluating open responses will
+          show up here.
+        </p>
+      ) : (
+        <table className={styles.table}>
+          <caption className={styles.caption}>
+            Costs are estimated from list prices. Calls blocked by the budget never reached
+            the provider.
+          </caption>
+          <thead>
+            <tr>
+              <th scope="col">Feature / model</th>
+              <th scope="col">Calls</th>
+              <th scope="col">Failed</th>
+              <th scope="col">Blocked</th>
+              <th scope="col">Tokens in / out</th>
+              <th scope="col">Latency</th>
+              <th scope="col">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.features.map((feature) => [
+              <UsageRow key={feature.feature} row={feature} />,
+              ...report.models
+                .filter((row) => row.feature === feature.feature)
+                .map((row) => (
+                  <UsageRow
+                    key={`${row.feature}:${row.provider ?? ''}:${row.model ?? ''}`}
+                    row={row}
+                  />
+                )),
+            ])}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export default LLMUsagePanel
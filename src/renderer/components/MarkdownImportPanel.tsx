@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Panel for importing a folder of Markdown or Obsidian notes as concepts
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Folder selection via system dialog, heading level option, preview of new, updated,
+ *           unchanged and skipped concepts, notes without concepts, concepts whose note is gone
+ * Main APIs: useElectronAPI hook (import.chooseFolder, import.markdown)
+ * Constraints: Every change re-runs a dry run; re-importing a folder updates its concepts
+ * Patterns: Preview-then-confirm, controlled form, CSS modules, WCAG 2.1 AA compliant
+ */
+
+import { useState, useCallback } from 'react'
+
+import styles from './MarkdownImportPanel.module.css'
+import { useElectronAPI } from '../hooks/useElectronAPI'
+
+import type {
+  MarkdownConceptPreviewDTO,
+  MarkdownConceptStatus,
+  MarkdownImportReportDTO,
+} from '../../shared/types/ipc'
+
+/**
+ * Display labels for concept statuses
+ */
+const STATUS_LABELS: Record<MarkdownConceptStatus, string> = {
+  create: 'New concept',
+  update: 'Updates existing',
+  unchanged: 'Unchanged',
+  skip: 'Skipped',
+}
+
+/**
+ * Order of statuses in the preview, changes first
+ */
+const STATUS_ORDER: MarkdownConceptStatus[] = ['create', 'update', 'skip', 'unchanged']
+
+const HEADING_LEVELS = [1, 2, 3, 4, 5, 6]
+const DEFAULT_HEADING_LEVEL = 2
+const CONCEPT_PREVIEW_LIMIT = 50
+
+/**
+ * Pluralizes a count with its noun
+ */
+function formatCount(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`
+}
+
+/**
+ * Props for the MarkdownImportPanel component
+ */
+interface MarkdownImportPanelProps {
+  /** Called after notes were imported */
+  onImported: (report: MarkdownImportReportDTO) => void
+  /** Called to close the panel */
+  onClose: () => void
+}
+
+/**
+ * Reads a folder of notes as concepts and imports or re-syncs them
+ */
+function MarkdownImportPanel({ onImported, onClose }: MarkdownImportPanelProps): React.JSX.Element {
+  const api = useElectronAPI()
+  const [folderPath, setFolderPath] = useState<string | null>(null)
+  const [headingLevel, setHeadingLevel] = useState(DEFAULT_HEADING_LEVEL)
+  const [report, setReport] = useState<MarkdownImportReportDTO | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isImported = report !== null && !report.dryRun
+  const conceptsToShow: MarkdownConceptPreviewDTO[] = report
+    ? STATUS_ORDER.flatMap((status) =>
+        report.concepts.filter((concept) => concept.status === status)
+      ).slice(0, CONCEPT_PREVIEW_LIMIT)
+    : []
+
+  /**
+   * Run the import, or a dry run of it, of a folder
+   */
+  const run = useCallback(
+    async (folder: string, level: number, dryRun: boolean): Promise<void> => {
+      try {
+        setIsWorking(true)
+        setError(null)
+        const result = await api.import.markdown({
+          folderPath: folder,
+          headingLevel: level,
+          dryRun,
+        })
+        setReport(result)
+        if (!dryRun) {
+          onImported(result)
+        }
+      } catch (err) {
+        console.error('Failed to import notes:', err)
+        setError(err instanceof Error ? err.message : 'Failed to read the folder')
+      } finally {
+        setIsWorking(false)
+      }
+    },
+    [api, onImported]
+  )
+
+  /**
+   * Ask for a folder and preview it
+   */
+  const handleChooseFolder = async (): Promise<void> => {
+    try {
+      setError(null)
+      const folder = await api.import.chooseFolder()
+      if (folder === null) {
+        return
+      }
+      setFolderPath(folder)
+      setReport(null)
+      await run(folder, headingLevel, true)
+    } catch (err) {
+      console.error('Failed to choose folder:', err)
+      setError(err instanceof Error ? err.message : 'Failed to choose a folder')
+    }
+  }
+
+  /**
+   * Change the heading level and preview again
+   */
+  const handleHeadingLevelChange = (level: number): void => {
+    setHeadingLevel(level)
+    if (folderPath !== null) {
+      void run(folderPath, level, true)
+    }
+  }
+
+  return (
+    <div className={styles.panel}>
+      <header className={styles.header}>
+        <h2 id="markdown-import-title">Import Markdown Notes</h2>
+        <p className={styles.subtitle}>
+          Notes tagged &quot;concept&quot; in their front matter become one concept; other notes
+          become one concept per heading. The first paragraph is the definition and list items
+          are facts. Importing the same folder again updates the concepts whose notes changed.
+        </p>
+      </header>
+
+      <div className={styles.options}>
+        <div className={styles.optionRow}>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => void handleChooseFolder()}
+            disabled={isWorking}
+          >
+            {folderPath === null ? 'Choose Folder' : 'Change Folder'}
+          </button>
+          {folderPath !== null && <span className={styles.folderPath}>{folderPath}</span>}
+        </div>
+
+        {!isImported && (
+          <label className={styles.inlineField}>
+            Headings that start a concept
+            <select
+              value={headingLevel}
+              onChange={(e) => handleHeadingLevelChange(Number(e.target.value))}
+            >
+              {HEADING_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {'#'.repeat(level)} Level {level}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {report !== null && (
+        <section className={styles.report} aria-labelledby="markdown-report-title">
+          <h3 id="markdown-report-title" role="status">
+            {isImported ? 'Imported ' : ''}
+            {formatCount(report.counts.create, 'new concept')} ·{' '}
+            {formatCount(report.counts.update, 'update')} · {report.counts.unchanged} unchanged
+            {report.counts.skip > 0 && ` · ${report.counts.skip} skipped`}
+          </h3>
+          <p>
+            Read {formatCount(report.noteCount, 'note')}
+            {report.skippedNotes.length > 0 &&
+              `; ${formatCount(report.skippedNotes.length, 'note')} held no concept`}
+            .
+          </p>
+          {report.missing.length > 0 && (
+            <p className={styles.warning}>
+              {formatCount(report.missing.length, 'concept')} imported from this folder before
+              no longer {report.missing.length !== 1 ? 'have' : 'has'} a note or heading and
+              {report.missing.length !== 1 ? ' are' : ' is'} left as is:{' '}
+              {report.missing.join(', ')}
+            </p>
+          )}
+          {!isImported && conceptsToShow.length > 0 && (
+            <table className={styles.table}>
+              {report.concepts.length > CONCEPT_PREVIEW_LIMIT && (
+                <caption className={styles.caption}>
+                  Showing {CONCEPT_PREVIEW_LIMIT} of {report.concepts.length} concepts, changes
+                  first.
+                </caption>
+              )}
+              <thead>
+                <tr>
+                  <th scope="col">Name</th>
+                  <th scope="col">Source</th>
+                  <th scope="col">Facts</th>
+                  <th scope="col">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conceptsToShow.map((concept) => (
+                  <tr
+                    key={concept.source}
+                    className={concept.status === 'skip' ? styles.skippedRow : undefined}
+                  >
+                    <td>
+                      {concept.name}
+                      {concept.definition !== '' && (
+                        <span className={styles.definition}>{concept.definition}</span>
+                      )}
+                    </td>
+                    <td className={styles.source}>{concept.source}</td>
+                    <td>{concept.facts.length}</td>
+                    <td>
+                      {STATUS_LABELS[concept.status]}
+                      {concept.reason !== null && (
+                        <span className={styles.reason}>{concept.reason}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {!isImported && report.skippedNotes.length > 0 && (
+            <details>
+              <summary>Notes without concepts</summary>
+              <ul className={styles.skippedNotes}>
+                {report.skippedNotes.map((note) => (
+                  <li key={note.path}>
+                    <span className={styles.source}>{note.path}</span>: {note.reason}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </section>
+      )}
+
+      {error !== null && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        <button type="button" className="btn-secondary" onClick={onClose}>
+          {isImported ? 'Done' : 'Cancel'}
+        </button>
+        {!isImported && (
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={() => folderPath !== null && void run(folderPath, headingLevel, false)}
+            disabled={
+              isWorking ||
+              report === null ||
+              report.counts.create + report.counts.update === 0
+            }
+          >
+            {isWorking ? 'Working...' : 'Import'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MarkdownImportPanel
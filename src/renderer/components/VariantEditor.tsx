@@ -1,18 +1,22 @@
 /**
  * @fileoverview Variant editor component for creating and editing card variants
- * @lastmodified 2026-01-20T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
  * Features: Form for variant CRUD operations, dimension selection, accessible difficulty slider, hints array,
- *           question type selection, open response rubric editor
+ *           question type selection, open response rubric editor, answer options editor for
+ *           multiple-choice, multi-select and true/false questions, LLM-suggested distractors,
+ *           cloze deletion preview,
+ *           draft mode for reviewing generated variants before they are saved
  * Main APIs: useElectronAPI hook for safe API access
  * Constraints: Requires a concept to be selected first
  * Patterns: Controlled form with validation, reusable for create/edit, hook-based API access, WCAG 2.1 AA compliant
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 
 import { KeyPointsEditor } from './KeyPointsEditor'
 import styles from './VariantEditor.module.css'
+import { generateClozeCards } from '../../shared/utils/cloze'
 import { useElectronAPI } from '../hooks/useElectronAPI'
 
 import type {
@@ -87,6 +91,21 @@ const questionTypeOptions: QuestionTypeOption[] = [
     label: 'Flashcard',
     description: 'Traditional flashcard with front/back and self-rating',
   },
+  {
+    value: 'multiple_choice',
+    label: 'Multiple Choice',
+    description: 'Pick the single correct option; graded automatically',
+  },
+  {
+    value: 'multi_select',
+    label: 'Multi-Select',
+    description: 'Pick every correct option; partial credit for partly correct picks',
+  },
+  {
+    value: 'true_false',
+    label: 'True / False',
+    description: 'Decide whether the statement is true; graded automatically',
+  },
   {
     value: 'open_response',
     label: 'Open Response (LLM-evaluated)',
@@ -94,6 +113,59 @@ const questionTypeOptions: QuestionTypeOption[] = [
   },
 ]
 
+/**
+ * Fixed options for true/false questions
+ */
+const TRUE_FALSE_OPTIONS = ['True', 'False']
+
+/**
+ * Minimum and maximum number of answer options
+ */
+const MIN_OPTIONS = 2
+const MAX_OPTIONS = 8
+
+/**
+ * Options a choice question is filled up to when suggesting distractors
+ */
+const SUGGESTED_OPTION_COUNT = 4
+
+/**
+ * Whether a question type is answered by choosing from options
+ */
+function isChoiceQuestionType(questionType: QuestionType): boolean {
+  return (
+    questionType === 'multiple_choice' ||
+    questionType === 'multi_select' ||
+    questionType === 'true_false'
+  )
+}
+
+/**
+ * Validate answer options and correct answers for a choice question
+ *
+ * @returns An error message, or null if valid
+ */
+function validateChoiceOptions(
+  questionType: QuestionType,
+  options: string[],
+  correctIndices: number[]
+): string | null {
+  const trimmed = options.map((o) => o.trim())
+  if (trimmed.some((o) => o.length === 0)) {
+    return 'Answer options cannot be empty'
+  }
+  if (new Set(trimmed.map((o) => o.toLowerCase())).size !== trimmed.length) {
+    return 'Answer options must be distinct'
+  }
+  if (questionType === 'multi_select' && correctIndices.length === 0) {
+    return 'Mark at least one option as correct'
+  }
+  if (questionType !== 'multi_select' && correctIndices.length !== 1) {
+    return 'Mark exactly one option as correct'
+  }
+  return null
+}
+
 /**
  * Form data structure for create/edit operations
  */
@@ -106,6 +178,8 @@ interface VariantFormData {
   questionType: QuestionType
   rubric: EvaluationRubric
   maxLength: number | undefined
+  options: string[]
+  correctIndices: number[]
 }
 
 /**
@@ -118,8 +192,12 @@ interface VariantEditorProps {
   conceptName: string
   /** Existing variant for edit mode, null for create mode */
   variant: VariantDTO | null
+  /** Unsaved draft to edit instead of a variant (requires onSaveDraft) */
+  draft?: CreateVariantDTO | undefined
   /** Callback when save succeeds */
-  onSave: (variant: VariantDTO) => void
+  onSave?: ((variant: VariantDTO) => void) | undefined
+  /** Receives the edited draft instead of saving it (draft mode) */
+  onSaveDraft?: ((data: CreateVariantDTO) => void) | undefined
   /** Callback to close the editor */
   onCancel: () => void
 }
@@ -132,29 +210,47 @@ interface VariantEditorProps {
  * - Setting difficulty level (1-5 slider)
  * - Entering question (front) and answer (back) content
  * - Managing progressive hints array
+ *
+ * In draft mode (onSaveDraft given) nothing is written; the edited data is
+ * handed back so generated variants can be reviewed before acceptance.
  */
 function VariantEditor({
   conceptId,
   conceptName,
   variant,
+  draft,
   onSave,
+  onSaveDraft,
   onCancel,
 }: VariantEditorProps): React.JSX.Element {
   const api = useElectronAPI()
   const isEditMode = variant !== null
+  const isDraftMode = onSaveDraft !== undefined
+  const initial = variant ?? draft
 
   const [formData, setFormData] = useState<VariantFormData>({
-    dimension: variant?.dimension ?? 'definition',
-    difficulty: variant?.difficulty ?? 3,
-    front: variant?.front ?? '',
-    back: variant?.back ?? '',
-    hints: variant?.hints ?? [],
-    questionType: variant?.questionType ?? 'flashcard',
-    rubric: variant?.rubric ?? { keyPoints: [] },
-    maxLength: variant?.maxLength,
+    dimension: initial?.dimension ?? 'definition',
+    difficulty: initial?.difficulty ?? 3,
+    front: initial?.front ?? '',
+    back: initial?.back ?? '',
+    hints: initial?.hints ?? [],
+    questionType: initial?.questionType ?? 'flashcard',
+    rubric: initial?.rubric ?? { keyPoints: [] },
+    maxLength: initial?.maxLength,
+    options: initial?.options ?? ['', ''],
+    correctIndices: initial?.correctIndices ?? [],
   })
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [isSuggesting, setIsSuggesting] = useState(false)
+
+  // Cloze flashcards are split into one card per {{cN::...}} index
+  const isClozeFlashcard =
+    formData.dimension === 'cloze' && formData.questionType === 'flashcard'
+  const clozeCards = useMemo(
+    () => (isClozeFlashcard ? generateClozeCards(formData.front) : []),
+    [isClozeFlashcard, formData.front]
+  )
 
   /**
    * Handle text input changes
@@ -209,14 +305,132 @@ function VariantEditor({
    */
   const handleQuestionTypeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
     const questionType = e.target.value as QuestionType
+    setFormData((prev) => {
+      // True/false uses fixed options; leaving it starts a fresh option list
+      const wasTrueFalse = prev.questionType === 'true_false'
+      let options = prev.options
+      let correctIndices = prev.correctIndices
+      if (questionType === 'true_false') {
+        options = TRUE_FALSE_OPTIONS
+        correctIndices = correctIndices.filter((i) => i < TRUE_FALSE_OPTIONS.length).slice(0, 1)
+      } else if (wasTrueFalse) {
+        options = ['', '']
+        correctIndices = []
+      } else if (questionType === 'multiple_choice') {
+        correctIndices = correctIndices.slice(0, 1)
+      }
+
+      return {
+        ...prev,
+        questionType,
+        // Reset rubric when switching away from open_response
+        rubric: questionType === 'open_response' ? prev.rubric : { keyPoints: [] },
+        options,
+        correctIndices,
+      }
+    })
+  }, [])
+
+  /**
+   * Add a new empty answer option
+   */
+  const handleAddOption = useCallback(() => {
+    setFormData((prev) =>
+      prev.options.length >= MAX_OPTIONS ? prev : { ...prev, options: [...prev.options, ''] }
+    )
+  }, [])
+
+  /**
+   * Remove an answer option, shifting correct indices above it down
+   */
+  const handleRemoveOption = useCallback((index: number) => {
+    setFormData((prev) => {
+      if (prev.options.length <= MIN_OPTIONS) return prev
+      return {
+        ...prev,
+        options: prev.options.filter((_, i) => i !== index),
+        correctIndices: prev.correctIndices
+          .filter((i) => i !== index)
+          .map((i) => (i > index ? i - 1 : i)),
+      }
+    })
+  }, [])
+
+  /**
+   * Update an answer option value by index
+   */
+  const handleOptionChange = useCallback((index: number, value: string) => {
     setFormData((prev) => ({
       ...prev,
-      questionType,
-      // Reset rubric when switching away from open_response
-      rubric: questionType === 'open_response' ? prev.rubric : { keyPoints: [] },
+      options: prev.options.map((option, i) => (i === index ? value : option)),
     }))
   }, [])
 
+  /**
+   * Mark an option correct (replace for single-answer, toggle for multi-select)
+   */
+  const handleCorrectToggle = useCallback((index: number) => {
+    setFormData((prev) => {
+      if (prev.questionType !== 'multi_select') {
+        return { ...prev, correctIndices: [index] }
+      }
+      const correctIndices = prev.correctIndices.includes(index)
+        ? prev.correctIndices.filter((i) => i !== index)
+        : [...prev.correctIndices, index].sort((a, b) => a - b)
+      return { ...prev, correctIndices }
+    })
+  }, [])
+
+  /**
+   * Replace the unmarked options with LLM-generated distractors
+   *
+   * Marked options are kept first; the answer and every marked option are
+   * sent as accepted answers so no distractor repeats a correct one.
+   */
+  const handleSuggestDistractors = async (): Promise<void> => {
+    setError(null)
+    if (!formData.front.trim() || !formData.back.trim()) {
+      setError('Enter the question and answer before suggesting distractors')
+      return
+    }
+    const correct = formData.correctIndices
+      .map((i) => formData.options[i]?.trim() ?? '')
+      .filter((o) => o.length > 0)
+    if (correct.length === 0) {
+      setError('Mark at least one correct option before suggesting distractors')
+      return
+    }
+
+    const target = Math.min(MAX_OPTIONS, Math.max(formData.options.length, SUGGESTED_OPTION_COUNT))
+    setIsSuggesting(true)
+    try {
+      const result = await api.variants.generateDistractors({
+        conceptId,
+        front: formData.front,
+        back: formData.back,
+        acceptedAnswers: correct,
+        count: Math.max(target - correct.length, 1),
+      })
+      if (result.error) {
+        setError(result.error.message)
+        return
+      }
+      if (result.distractors.length === 0) {
+        setError('No distractors were suggested')
+        return
+      }
+      setFormData((prev) => ({
+        ...prev,
+        options: [...correct, ...result.distractors.map((d) => d.text)].slice(0, MAX_OPTIONS),
+        correctIndices: correct.map((_, i) => i),
+      }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest distractors')
+    } finally {
+      setIsSuggesting(false)
+    }
+  }
+
   /**
    * Handle key points change in rubric
    */
@@ -280,6 +494,26 @@ function VariantEditor({
       }
     }
 
+    // Validate choice questions have usable options and correct answers
+    const isChoice = isChoiceQuestionType(formData.questionType)
+    if (isChoice) {
+      const optionsError = validateChoiceOptions(
+        formData.questionType,
+        formData.options,
+        formData.correctIndices
+      )
+      if (optionsError !== null) {
+        setError(optionsError)
+        return
+      }
+    }
+    const choiceValue = isChoice
+      ? {
+          options: formData.options.map((o) => o.trim()),
+          correctIndices: formData.correctIndices,
+        }
+      : {}
+
     // Filter out empty hints
     const hintsValue = formData.hints.map((h) => h.trim()).filter((h) => h.length > 0)
 
@@ -295,6 +529,22 @@ function VariantEditor({
       rubricValue = rubric
     }
 
+    if (isDraftMode) {
+      onSaveDraft({
+        conceptId,
+        dimension: formData.dimension,
+        difficulty: formData.difficulty,
+        front: formData.front.trim(),
+        back: formData.back.trim(),
+        hints: hintsValue,
+        questionType: formData.questionType,
+        ...(rubricValue && { rubric: rubricValue }),
+        ...(formData.maxLength !== undefined && { maxLength: formData.maxLength }),
+        ...choiceValue,
+      })
+      return
+    }
+
     try {
       setIsSaving(true)
 
@@ -312,6 +562,7 @@ function VariantEditor({
           questionType: formData.questionType,
           ...(rubricValue && { rubric: rubricValue }),
           ...(formData.maxLength && { maxLength: formData.maxLength }),
+          ...choiceValue,
         }
         savedVariant = await api.variants.update(updateData)
       } else {
@@ -326,11 +577,12 @@ function VariantEditor({
           questionType: formData.questionType,
           ...(rubricValue && { rubric: rubricValue }),
           ...(formData.maxLength && { maxLength: formData.maxLength }),
+          ...choiceValue,
         }
         savedVariant = await api.variants.create(createData)
       }
 
-      onSave(savedVariant)
+      onSave?.(savedVariant)
     } catch (err) {
       console.error('Failed to save variant:', err)
       setError(isEditMode ? 'Failed to update variant. Please try again.' : 'Failed to create variant. Please try again.')
@@ -350,7 +602,7 @@ function VariantEditor({
   return (
     <div className={styles.variantEditor}>
       <header className={styles.header}>
-        <h2>{isEditMode ? 'Edit Variant' : 'Create New Variant'}</h2>
+        <h2>{isDraftMode ? 'Edit Draft' : isEditMode ? 'Edit Variant' : 'Create New Variant'}</h2>
         <p className={styles.conceptInfo}>
           For concept: <strong>{conceptName}</strong>
         </p>
@@ -449,8 +701,32 @@ function VariantEditor({
             aria-invalid={error?.includes('Question') ? 'true' : undefined}
             aria-describedby={error?.includes('Question') ? 'variant-form-error' : undefined}
           />
+          {isClozeFlashcard && (
+            <p className={styles.dimensionDescription}>
+              Mark deletions as <code>{'{{c1::answer}}'}</code> or{' '}
+              <code>{'{{c1::answer::hint}}'}</code>. Each number becomes its own card.
+            </p>
+          )}
         </div>
 
+        {/* Cloze Preview */}
+        {clozeCards.length > 0 && (
+          <div className={styles.formGroup}>
+            <h3 className={styles.previewTitle}>
+              Preview: {clozeCards.length} {clozeCards.length === 1 ? 'card' : 'cards'}
+            </h3>
+            <ol className={styles.clozePreview}>
+              {clozeCards.map((card) => (
+                <li key={card.index} className={styles.clozePreviewCard}>
+                  <span className={styles.clozePreviewIndex}>c{card.index}</span>
+                  <span className={styles.clozePreviewFront}>{card.front}</span>
+                  <span className={styles.clozePreviewAnswer}>{card.answers.join(', ')}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         {/* Answer (Back) / Model Answer */}
         <div className={styles.formGroup}>
           <label htmlFor="back">
@@ -476,8 +752,84 @@ function VariantEditor({
               This answer will be used to evaluate student responses and shown after submission.
             </p>
           )}
+          {isChoiceQuestionType(formData.questionType) && (
+            <p className={styles.dimensionDescription}>
+              Shown as the explanation after the learner checks their answer.
+            </p>
+          )}
         </div>
 
+        {/* Choice Questions: Answer Options */}
+        {isChoiceQuestionType(formData.questionType) && (
+          <div className={styles.formGroup}>
+            <label className={styles.hintsLabel}>
+              Answer Options *
+              {formData.questionType !== 'true_false' && (
+                <span className={styles.optionActions}>
+                  <button
+                    type="button"
+                    className={styles.addHintButton}
+                    onClick={() => void handleSuggestDistractors()}
+                    disabled={isSuggesting}
+                  >
+                    {isSuggesting ? 'Suggesting...' : 'Suggest Distractors'}
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.addHintButton}
+                    onClick={handleAddOption}
+                    disabled={formData.options.length >= MAX_OPTIONS}
+                    aria-label="Add option"
+                  >
+                    + Add Option
+                  </button>
+                </span>
+              )}
+            </label>
+            <div className={styles.hintsContainer}>
+              {formData.options.map((option, index) => (
+                <div key={index} className={styles.optionRow}>
+                  <input
+                    type={formData.questionType === 'multi_select' ? 'checkbox' : 'radio'}
+                    name="correctOption"
+                    checked={formData.correctIndices.includes(index)}
+                    onChange={() => handleCorrectToggle(index)}
+                    className={styles.correctToggle}
+                    aria-label={`Mark option ${index + 1} as correct`}
+                  />
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => handleOptionChange(index, e.target.value)}
+                    placeholder={`Option ${index + 1}`}
+                    className={styles.hintInput}
+                    readOnly={formData.questionType === 'true_false'}
+                  />
+                  {formData.questionType !== 'true_false' && (
+                    <button
+                      type="button"
+                      className={styles.removeHintButton}
+                      onClick={() => handleRemoveOption(index)}
+                      disabled={formData.options.length <= MIN_OPTIONS}
+                      aria-label={`Remove option ${index + 1}`}
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className={styles.dimensionDescription}>
+              {formData.questionType === 'multi_select'
+                ? 'Check every correct option.'
+                : 'Select the correct option.'}{' '}
+              {formData.questionType !== 'true_false' &&
+                `Between ${MIN_OPTIONS} and ${MAX_OPTIONS} options. ` +
+                  'Suggesting distractors keeps the marked options and replaces the rest.'}
+            </p>
+          </div>
+        )}
+
         {/* Open Response: Evaluation Rubric */}
         {formData.questionType === 'open_response' && (
           <>
@@ -592,7 +944,13 @@ function VariantEditor({
             Cancel
           </button>
           <button type="submit" className="btn-primary" disabled={isSaving}>
-            {isSaving ? 'Saving...' : isEditMode ? 'Save Changes' : 'Create Variant'}
+            {isDraftMode
+              ? 'Update Draft'
+              : isSaving
+                ? 'Saving...'
+                : isEditMode
+                  ? 'Save Changes'
+                  : 'Create Variant'}
           </button>
         </div>
       </form>
@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Panel for generating variants with the LLM and reviewing the drafts
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Dimension, difficulty and count selection, draft list with per-draft selection,
+ *           editing drafts in VariantEditor, discarding drafts, bulk acceptance, failed
+ *           combination report, not-configured notice with a Settings link
+ * Main APIs: useElectronAPI hook (variants.generate, variants.createMany, settings.getLLMStatus)
+ * Constraints: Drafts live only in component state until accepted
+ * Patterns: Controlled form, list/editor switch, WCAG 2.1 AA compliant
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+
+import VariantEditor from './VariantEditor'
+import styles from './VariantGenerationPanel.module.css'
+import { useElectronAPI } from '../hooks/useElectronAPI'
+
+import type {
+  ConceptDTO,
+  CreateVariantDTO,
+  Dimension,
+  GenerationFailureDTO,
+  LLMStatusDTO,
+  VariantDTO,
+} from '../../shared/types/ipc'
+
+/**
+ * Display labels for dimensions
+ */
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  definition: 'Definition',
+  paraphrase: 'Paraphrase',
+  example: 'Example',
+  scenario: 'Scenario',
+  discrimination: 'Discrimination',
+  cloze: 'Cloze',
+}
+
+const ALL_DIMENSIONS = Object.keys(DIMENSION_LABELS) as Dimension[]
+const DIFFICULTY_LEVELS = [1, 2, 3, 4, 5]
+const MAX_COUNT = 10
+
+/**
+ * A generated variant under review
+ */
+interface DraftItem {
+  key: string
+  data: CreateVariantDTO
+  selected: boolean
+}
+
+/**
+ * Props for the VariantGenerationPanel component
+ */
+interface VariantGenerationPanelProps {
+  /** Concept to generate variants for */
+  concept: ConceptDTO
+  /** Called with the saved variants after drafts are accepted */
+  onAccepted: (variants: VariantDTO[]) => void
+  /** Called to close the panel */
+  onClose: () => void
+}
+
+/**
+ * Generates draft variants for a concept and lets the user review, edit and accept them
+ */
+function VariantGenerationPanel({
+  concept,
+  onAccepted,
+  onClose,
+}: VariantGenerationPanelProps): React.JSX.Element {
+  const api = useElectronAPI()
+  const [dimensions, setDimensions] = useState<Dimension[]>(['definition'])
+  const [difficulties, setDifficulties] = useState<number[]>([3])
+  const [count, setCount] = useState(3)
+  const [llmStatus, setLLMStatus] = useState<LLMStatusDTO | null>(null)
+  const [drafts, setDrafts] = useState<DraftItem[]>([])
+  const [failures, setFailures] = useState<GenerationFailureDTO[]>([])
+  const [editingKey, setEditingKey] = useState<string | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [isAccepting, setIsAccepting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectedCount = drafts.filter((d) => d.selected).length
+  const editingDraft = drafts.find((d) => d.key === editingKey) ?? null
+  const isNotConfigured = llmStatus !== null && !llmStatus.configured
+
+  // Check the LLM settings before offering generation
+  useEffect(() => {
+    api.settings
+      .getLLMStatus()
+      .then(setLLMStatus)
+      .catch((err: unknown) => console.error('Failed to get LLM status:', err))
+  }, [api])
+
+  /**
+   * Toggle a value in a selection list
+   */
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+
+  /**
+   * Generate drafts for the selected dimensions and difficulties
+   */
+  const handleGenerate = useCallback(async (): Promise<void> => {
+    if (dimensions.length === 0 || difficulties.length === 0) {
+      setError('Select at least one dimension and one difficulty level')
+      return
+    }
+
+    try {
+      setIsGenerating(true)
+      setError(null)
+      const result = await api.variants.generate({
+        conceptId: concept.id,
+        dimensions,
+        difficulties,
+        count,
+      })
+      const batch = Date.now()
+      setDrafts((prev) => [
+        ...prev,
+        ...result.drafts.map((draft, i) => ({
+          key: `${batch}-${i}`,
+          data: { conceptId: concept.id, ...draft, questionType: 'flashcard' as const },
+          selected: true,
+        })),
+      ])
+      setFailures(result.failures)
+    } catch (err) {
+      console.error('Failed to generate variants:', err)
+      setError('Failed to generate variants. Check your LLM settings and try again.')
+    } finally {
+      setIsGenerating(false)
+    }
+  }, [api, concept.id, dimensions, difficulties, count])
+
+  /**
+   * Save the selected drafts as variants
+   */
+  const handleAccept = useCallback(async (): Promise<void> => {
+    const selected = drafts.filter((d) => d.selected)
+    if (selected.length === 0) return
+
+    try {
+      setIsAccepting(true)
+      setError(null)
+      const saved = await api.variants.createMany(selected.map((d) => d.data))
+      setDrafts((prev) => prev.filter((d) => !d.selected))
+      onAccepted(saved)
+    } catch (err) {
+      console.error('Failed to save variants:', err)
+      setError('Failed to save the selected variants. Please try again.')
+    } finally {
+      setIsAccepting(false)
+    }
+  }, [api, drafts, onAccepted])
+
+  /**
+   * Replace a draft with its edited version
+   */
+  const handleSaveDraft = useCallback(
+    (data: CreateVariantDTO): void => {
+      setDrafts((prev) => prev.map((d) => (d.key === editingKey ? { ...d, data } : d)))
+      setEditingKey(null)
+    },
+    [editingKey]
+  )
+
+  if (editingDraft) {
+    return (
+      <VariantEditor
+        conceptId={concept.id}
+        conceptName={concept.name}
+        variant={null}
+        draft={editingDraft.data}
+        onSaveDraft={handleSaveDraft}
+        onCancel={() => setEditingKey(null)}
+      />
+    )
+  }
+
+  return (
+    <div className={styles.panel}>
+      <header className={styles.header}>
+        <h2 id="generate-title">Generate Variants</h2>
+        <p className={styles.conceptInfo}>
+          For concept: <strong>{concept.name}</strong>
+        </p>
+      </header>
+
+      {isNotConfigured && (
+        <div className={styles.notice} role="status">
+          <span>{llmStatus.error?.message ?? 'LLM generation is not configured.'}</span>{' '}
+          <Link to="/settings" className={styles.settingsLink}>
+            Open Settings
+          </Link>
+        </div>
+      )}
+
+      {/* Generation Options */}
+      <div className={styles.options}>
+        <fieldset className={styles.fieldset}>
+          <legend>Dimensions</legend>
+          <div className={styles.checkboxGrid}>
+            {ALL_DIMENSIONS.map((dimension) => (
+              <label key={dimension} className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={dimensions.includes(dimension)}
+                  onChange={() => setDimensions((prev) => toggle(prev, dimension))}
+                />
+                {DIMENSION_LABELS[dimension]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset className={styles.fieldset}>
+          <legend>Difficulty</legend>
+          <div className={styles.checkboxGrid}>
+            {DIFFICULTY_LEVELS.map((level) => (
+              <label key={level} className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={difficulties.includes(level)}
+                  onChange={() => setDifficulties((prev) => toggle(prev, level))}
+                />
+                {level}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className={styles.countRow}>
+          <label htmlFor="generate-count">Per combination</label>
+          <input
+            id="generate-count"
+            type="number"
+            min={1}
+            max={MAX_COUNT}
+            value={count}
+            onChange={(e) =>
+              setCount(Math.min(MAX_COUNT, Math.max(1, parseInt(e.target.value, 10) || 1)))
+            }
+            className={styles.countInput}
+          />
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={() => void handleGenerate()}
+            disabled={isGenerating || isNotConfigured}
+          >
+            {isGenerating ? 'Generating...' : 'Generate'}
+          </button>
+        </div>
+      </div>
+
+      {/* Failed combinations */}
+      {failures.length > 0 && (
+        <ul className={styles.failures} aria-label="Failed combinations">
+          {failures.map((failure) => (
+            <li key={`${failure.dimension}-${failure.difficulty}`}>
+              {DIMENSION_LABELS[failure.dimension]}, difficulty {failure.difficulty}:{' '}
+              {failure.error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Drafts */}
+      {drafts.length > 0 && (
+        <div className={styles.drafts}>
+          <div className={styles.draftsHeader}>
+            <span>
+              {selectedCount} of {drafts.length} selected
+            </span>
+            <button
+              type="button"
+              className={styles.linkButton}
+              onClick={() =>
+                setDrafts((prev) =>
+                  prev.map((d) => ({ ...d, selected: selectedCount !== drafts.length }))
+                )
+              }
+            >
+              {selectedCount === drafts.length ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          <ul className={styles.draftList}>
+            {drafts.map((draft) => (
+              <li key={draft.key} className={styles.draftItem}>
+                <input
+                  type="checkbox"
+                  checked={draft.selected}
+                  onChange={() =>
+                    setDrafts((prev) =>
+                      prev.map((d) => (d.key === draft.key ? { ...d, selected: !d.selected } : d))
+                    )
+                  }
+                  aria-label={`Select draft: ${draft.data.front}`}
+                />
+                <div className={styles.draftContent}>
+                  <span className={styles.draftMeta}>
+                    {DIMENSION_LABELS[draft.data.dimension]} · difficulty{' '}
+                    {draft.data.difficulty ?? 3}
+                  </span>
+                  <p className={styles.draftFront}>{draft.data.front}</p>
+                  <p className={styles.draftBack}>{draft.data.back}</p>
+                </div>
+                <div className={styles.draftActions}>
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => setEditingKey(draft.key)}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => setDrafts((prev) => prev.filter((d) => d.key !== draft.key))}
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error !== null && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        <button type="button" className="btn-secondary" onClick={onClose} disabled={isAccepting}>
+          Close
+        </button>
+        <button
+          type="button"
+          className="btn-primary"
+          onClick={() => void handleAccept()}
+          disabled={selectedCount === 0 || isAccepting}
+        >
+          {isAccepting ? 'Saving...' : `Accept ${selectedCount} selected`}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default VariantGenerationPanel
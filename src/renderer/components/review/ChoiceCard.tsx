@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Choice card component for multiple-choice, multi-select and true/false questions
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Radio or checkbox option list, number-key selection, graded result highlighting
+ *           (correct, incorrect, missed), partial score for multi-select, explanation reveal
+ * Main APIs: ChoiceCard component
+ * Constraints: Grading happens in the main process; correct answers arrive with the result
+ * Patterns: Controlled form, WCAG 2.1 AA compliant, responsive design
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+
+import styles from './ChoiceCard.module.css'
+
+import type { QuestionType } from '../../../shared/types/ipc'
+
+/**
+ * Graded outcome shown after submission
+ */
+export interface ChoiceResult {
+  /** Whether the selection matched the correct answers exactly */
+  wasCorrect: boolean
+  /** Indices of the correct options */
+  correctAnswers: number[]
+  /** Partial score (0.0 to 1.0) */
+  partialScore: number
+  /** Explanation of the correct answer */
+  explanation?: string | undefined
+}
+
+/**
+ * Props for the ChoiceCard component
+ */
+interface ChoiceCardProps {
+  /** The question/prompt to display */
+  question: string
+  /** multiple_choice, multi_select or true_false */
+  questionType: QuestionType
+  /** Answer options in display order */
+  options: string[]
+  /** Callback when user submits their selection */
+  onSubmit: (selectedIndices: number[]) => Promise<void>
+  /** Graded result after submission */
+  result?: ChoiceResult | undefined
+  /** Whether the submission is in progress */
+  isSubmitting?: boolean | undefined
+  /** Callback when user clicks continue to next card */
+  onContinue?: (() => void) | undefined
+}
+
+/**
+ * Get the result class for an option after grading
+ */
+function getOptionResultClass(index: number, selected: number[], result: ChoiceResult): string {
+  const isCorrect = result.correctAnswers.includes(index)
+  const isSelected = selected.includes(index)
+  if (isCorrect && isSelected) return styles.optionCorrect ?? ''
+  if (isSelected) return styles.optionIncorrect ?? ''
+  if (isCorrect) return styles.optionMissed ?? ''
+  return ''
+}
+
+/**
+ * Get the result banner text
+ */
+function getResultLabel(result: ChoiceResult, isMultiSelect: boolean): string {
+  if (result.wasCorrect) return 'Correct'
+  if (isMultiSelect && result.partialScore > 0) {
+    return `Partially correct (${Math.round(result.partialScore * 100)}%)`
+  }
+  return 'Incorrect'
+}
+
+/**
+ * Choice card component for objectively graded questions
+ *
+ * Single-answer types behave like radio buttons; multi-select toggles
+ * checkboxes. After grading, each option is marked correct, incorrect,
+ * or missed and the explanation is shown.
+ */
+export function ChoiceCard({
+  question,
+  questionType,
+  options,
+  onSubmit,
+  result,
+  isSubmitting = false,
+  onContinue,
+}: ChoiceCardProps): React.JSX.Element {
+  const [selected, setSelected] = useState<number[]>([])
+  const isMultiSelect = questionType === 'multi_select'
+  const isLocked = result !== undefined || isSubmitting
+
+  /**
+   * Select an option (replace for single-answer, toggle for multi-select)
+   */
+  const handleToggle = useCallback(
+    (index: number) => {
+      if (isLocked) return
+      setSelected((prev) => {
+        if (!isMultiSelect) return [index]
+        return prev.includes(index)
+          ? prev.filter((i) => i !== index)
+          : [...prev, index].sort((a, b) => a - b)
+      })
+    },
+    [isLocked, isMultiSelect]
+  )
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = useCallback(
+    async (e?: React.FormEvent) => {
+      e?.preventDefault()
+      if (selected.length > 0 && !isLocked) {
+        await onSubmit(selected)
+      }
+    },
+    [selected, isLocked, onSubmit]
+  )
+
+  // Keyboard shortcuts: number keys select options, Enter submits
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (isLocked) return
+      if (event.target instanceof HTMLInputElement && event.target.type === 'text') return
+
+      const number = parseInt(event.key, 10)
+      if (!Number.isNaN(number) && number >= 1 && number <= options.length) {
+        event.preventDefault()
+        handleToggle(number - 1)
+      } else if (event.key === 'Enter') {
+        event.preventDefault()
+        void handleSubmit()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isLocked, options.length, handleToggle, handleSubmit])
+
+  const canSubmit = selected.length > 0 && !isLocked
+
+  return (
+    <div className={styles.choiceCard}>
+      {/* Question */}
+      <div className={styles.questionSection}>
+        <h3 className={styles.sectionLabel}>Question</h3>
+        <p className={styles.questionText}>{question}</p>
+      </div>
+
+      <form onSubmit={(e) => void handleSubmit(e)}>
+        <fieldset className={styles.optionList} disabled={isLocked}>
+          <legend className={styles.optionHint}>
+            {isMultiSelect ? 'Select all that apply' : 'Select one answer'}
+          </legend>
+          {options.map((option, index) => (
+            <label
+              key={index}
+              className={`${styles.option} ${
+                selected.includes(index) ? styles.optionSelected : ''
+              } ${result ? getOptionResultClass(index, selected, result) : ''}`}
+            >
+              <input
+                type={isMultiSelect ? 'checkbox' : 'radio'}
+                name="choice-option"
+                className={styles.optionInput}
+                checked={selected.includes(index)}
+                onChange={() => handleToggle(index)}
+              />
+              <span className={styles.optionKey} aria-hidden="true">
+                {index + 1}
+              </span>
+              <span className={styles.optionText}>{option}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        {/* Submit button - only before grading */}
+        {!result && (
+          <button
+            type="submit"
+            className={`btn-primary ${styles.submitButton}`}
+            disabled={!canSubmit}
+            aria-busy={isSubmitting}
+          >
+            Check Answer
+            <span className={styles.keyboardHint}>
+              (Press <kbd>Enter</kbd>)
+            </span>
+          </button>
+        )}
+      </form>
+
+      {/* Graded Result */}
+      {result && (
+        <div className={styles.resultSection} role="region" aria-label="Answer Result">
+          <div
+            className={`${styles.resultBanner} ${
+              result.wasCorrect ? styles.resultCorrect : styles.resultIncorrect
+            }`}
+            role="status"
+          >
+            {getResultLabel(result, isMultiSelect)}
+          </div>
+
+          {result.explanation !== undefined && result.explanation !== '' && (
+            <div className={styles.explanationSection}>
+              <h4 className={styles.explanationTitle}>Explanation</h4>
+              <p className={styles.explanationText}>{result.explanation}</p>
+            </div>
+          )}
+
+          {onContinue && (
+            <button
+              type="button"
+              className={`btn-primary ${styles.continueButton}`}
+              onClick={onContinue}
+            >
+              Continue
+              <span className={styles.keyboardHint}>
+                (Press <kbd>Space</kbd>)
+              </span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ChoiceCard
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Cloze card component with inline typed-answer blanks
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Renders {{cN::answer::hint}} markup for one cloze index with an input per blank,
+ *           normalized answer checking on reveal, per-blank correct/incorrect marking
+ * Main APIs: ClozeCard component
+ * Constraints: Controlled inputs; the parent owns responses and the revealed state
+ * Patterns: Shared cloze parser for segments, WCAG 2.1 AA compliant, responsive design
+ */
+
+import { useEffect, useMemo, useRef } from 'react'
+
+import styles from './ClozeCard.module.css'
+import { checkClozeAnswers, splitClozeText } from '../../../shared/utils/cloze'
+
+/**
+ * Props for the ClozeCard component
+ */
+interface ClozeCardProps {
+  /** Cloze text containing {{cN::...}} markup */
+  text: string
+  /** Cloze index to blank */
+  clozeIndex: number
+  /** Typed answers, one per blank */
+  responses: string[]
+  /** Callback when a typed answer changes */
+  onResponsesChange: (responses: string[]) => void
+  /** Callback when the learner presses Enter to check their answers */
+  onCheck: () => void
+  /** Whether answers are revealed and checked */
+  revealed: boolean
+}
+
+/**
+ * Cloze card component for typed-answer cloze deletions
+ *
+ * Before reveal, each blank is a text input (placeholder shows the hint).
+ * After reveal, each blank shows the typed answer marked correct or
+ * incorrect, followed by the expected answer when it was wrong.
+ */
+export function ClozeCard({
+  text,
+  clozeIndex,
+  responses,
+  onResponsesChange,
+  onCheck,
+  revealed,
+}: ClozeCardProps): React.JSX.Element {
+  const segments = useMemo(() => splitClozeText(text, clozeIndex), [text, clozeIndex])
+  const answers = useMemo(
+    () => segments.flatMap((segment) => (segment.kind === 'blank' ? [segment.answer] : [])),
+    [segments]
+  )
+  const results = revealed ? checkClozeAnswers(answers, responses) : []
+  const firstInputRef = useRef<HTMLInputElement>(null)
+
+  // Focus the first blank when the card is shown
+  useEffect(() => {
+    if (!revealed) {
+      firstInputRef.current?.focus()
+    }
+  }, [revealed, text, clozeIndex])
+
+  /**
+   * Update the typed answer for one blank
+   */
+  const handleChange = (blankIndex: number, value: string): void => {
+    const next = answers.map((_, i) => (i === blankIndex ? value : (responses[i] ?? '')))
+    onResponsesChange(next)
+  }
+
+  let blankIndex = -1
+
+  return (
+    <p className={styles.clozeText}>
+      {segments.map((segment, i) => {
+        if (segment.kind === 'text') {
+          return <span key={i}>{segment.text}</span>
+        }
+
+        blankIndex += 1
+        const current = blankIndex
+        const response = responses[current] ?? ''
+
+        if (!revealed) {
+          return (
+            <input
+              key={i}
+              ref={current === 0 ? firstInputRef : undefined}
+              type="text"
+              value={response}
+              onChange={(e) => handleChange(current, e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  onCheck()
+                }
+              }}
+              placeholder={segment.hint ?? '...'}
+              className={styles.blankInput}
+              size={Math.max(segment.answer.length, (segment.hint ?? '').length, 4)}
+              aria-label={`Blank ${current + 1}${segment.hint !== undefined ? `, hint: ${segment.hint}` : ''}`}
+              autoComplete="off"
+              spellCheck={false}
+            />
+          )
+        }
+
+        const isCorrect = results[current] === true
+        return (
+          <span key={i} className={styles.blankResult}>
+            <span className={isCorrect ? styles.blankCorrect : styles.blankIncorrect}>
+              {response.trim() !== '' ? response : '—'}
+            </span>
+            {!isCorrect && <span className={styles.blankExpected}>{segment.answer}</span>}
+            <span className={styles.srOnly}>{isCorrect ? '(correct)' : '(incorrect)'}</span>
+          </span>
+        )
+      })}
+    </p>
+  )
+}
+
+export default ClozeCard
@@ -1,19 +1,21 @@
 /**
  * @fileoverview Open response card component with text input and LLM evaluation display
- * @lastmodified 2026-01-20T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
  * Features: Text input for user responses, evaluation score display, key points feedback,
- *           model answer reveal, confidence indicator, loading states
+ *           model answer reveal, confidence indicator, loading states, evaluation error notice,
+ *           disputing the evaluated rating
  * Main APIs: OpenResponseCard component
- * Constraints: Requires LLM API key configured for evaluation
+ * Constraints: Requires LLM settings for evaluation; shows a Settings link when not configured
  * Patterns: Controlled form, WCAG 2.1 AA compliant, responsive design
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
 
 import styles from './OpenResponseCard.module.css'
 
-import type { LLMEvaluationResult } from '../../../shared/types/ipc'
+import type { LLMErrorDTO, LLMEvaluationResult, Rating } from '../../../shared/types/ipc'
 
 /**
  * Props for the OpenResponseCard component
@@ -27,14 +29,30 @@ interface OpenResponseCardProps {
   onSubmit: (response: string) => Promise<void>
   /** LLM evaluation result after submission */
   evaluation?: LLMEvaluationResult | undefined
+  /** Why the response could not be evaluated */
+  evaluationError?: LLMErrorDTO | undefined
   /** Model answer to show after evaluation */
   modelAnswer?: string | undefined
   /** Whether evaluation is in progress */
   isEvaluating?: boolean | undefined
   /** Callback when user clicks continue to next card */
   onContinue?: (() => void) | undefined
+  /** Rating the user set instead of the evaluated one */
+  overrideRating?: Rating | null | undefined
+  /** Callback to set (or, with null, clear) the user's rating of the evaluation */
+  onOverride?: ((rating: Rating | null) => Promise<void>) | undefined
 }
 
+/**
+ * Ratings the user can choose when disputing an evaluation
+ */
+const OVERRIDE_RATINGS: { rating: Rating; label: string }[] = [
+  { rating: 'again', label: 'Again' },
+  { rating: 'hard', label: 'Hard' },
+  { rating: 'good', label: 'Good' },
+  { rating: 'easy', label: 'Easy' },
+]
+
 /**
  * Get score color class based on evaluation score
  */
@@ -62,11 +80,15 @@ export function OpenResponseCard({
   maxLength,
   onSubmit,
   evaluation,
+  evaluationError,
   modelAnswer,
   isEvaluating = false,
   onContinue,
+  overrideRating = null,
+  onOverride,
 }: OpenResponseCardProps): React.JSX.Element {
   const [response, setResponse] = useState('')
+  const [isOverriding, setIsOverriding] = useState(false)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
   // Focus textarea on mount
@@ -113,6 +135,22 @@ export function OpenResponseCard({
     [response, isEvaluating, onSubmit]
   )
 
+  /**
+   * Set the user's rating; choosing the evaluated rating clears the override
+   */
+  const handleOverride = useCallback(
+    async (rating: Rating) => {
+      if (!onOverride || !evaluation) return
+      setIsOverriding(true)
+      try {
+        await onOverride(rating === evaluation.suggestedRating ? null : rating)
+      } finally {
+        setIsOverriding(false)
+      }
+    },
+    [onOverride, evaluation]
+  )
+
   const characterCount = response.length
   const isOverLimit = maxLength !== undefined && characterCount > maxLength
   const canSubmit = response.trim().length > 0 && !isEvaluating && !isOverLimit
@@ -126,7 +164,7 @@ export function OpenResponseCard({
       </div>
 
       {/* Input Section - only show if not yet evaluated */}
-      {!evaluation && (
+      {!evaluation && !evaluationError && (
         <form onSubmit={(e) => void handleSubmit(e)} className={styles.inputSection}>
           <label htmlFor="user-response" className={styles.inputLabel}>
             Your Answer
@@ -180,6 +218,47 @@ export function OpenResponseCard({
         </form>
       )}
 
+      {/* Evaluation unavailable */}
+      {!evaluation && evaluationError && (
+        <div className={styles.evaluationSection} role="region" aria-label="Evaluation Unavailable">
+          <div className={styles.evaluationError} role="alert">
+            <h4 className={styles.evaluationErrorTitle}>
+              {evaluationError.code === 'LLM_NOT_CONFIGURED'
+                ? 'AI evaluation is not set up'
+                : evaluationError.code === 'LLM_BUDGET_EXCEEDED'
+                  ? 'Monthly AI budget reached'
+                  : 'AI evaluation failed'}
+            </h4>
+            <p className={styles.feedbackText}>{evaluationError.message}</p>
+            {evaluationError.code !== 'LLM_REQUEST_FAILED' && (
+              <Link to="/settings" className={styles.settingsLink}>
+                Open Settings
+              </Link>
+            )}
+          </div>
+
+          {modelAnswer !== undefined && modelAnswer !== '' && (
+            <div className={styles.modelAnswerSection}>
+              <h4 className={styles.modelAnswerTitle}>Model Answer</h4>
+              <p className={styles.modelAnswerText}>{modelAnswer}</p>
+            </div>
+          )}
+
+          {onContinue && (
+            <button
+              type="button"
+              className={`btn-primary ${styles.continueButton}`}
+              onClick={onContinue}
+            >
+              Continue
+              <span className={styles.keyboardHint}>
+                (Press <kbd>Space</kbd>)
+              </span>
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Evaluation Results */}
       {evaluation && (
         <div className={styles.evaluationSection} role="region" aria-label="Evaluation Results">
@@ -250,6 +329,37 @@ export function OpenResponseCard({
             </span>
           </div>
 
+          {/* Rating Override */}
+          {onOverride && (
+            <div className={styles.overrideSection} role="group" aria-label="Rating">
+              <span className={styles.overrideLabel}>Disagree? Rate it yourself:</span>
+              <div className={styles.overrideButtons}>
+                {OVERRIDE_RATINGS.map(({ rating, label }) => {
+                  const isActive = (overrideRating ?? evaluation.suggestedRating) === rating
+                  const activeClass = isActive ? (styles.overrideButtonActive ?? '') : ''
+                  return (
+                    <button
+                      key={rating}
+                      type="button"
+                      className={`${styles.overrideButton} ${activeClass}`}
+                      onClick={() => void handleOverride(rating)}
+                      disabled={isOverriding}
+                      aria-pressed={isActive}
+                    >
+                      {label}
+                    </button>
+                  )
+                })}
+              </div>
+              <span className={styles.overrideNote} aria-live="polite">
+                {overrideRating !== null
+                  ? `Counted as ${overrideRating} instead of the AI's rating, ` +
+                    `${evaluation.suggestedRating}.`
+                  : `The AI rated this ${evaluation.suggestedRating}.`}
+              </span>
+            </div>
+          )}
+
           {/* Continue Button */}
           {onContinue && (
             <button
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Typed-answer input for flashcards with fuzzy-matched feedback
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Features: Answer input before reveal, word diff against the card's answer after reveal
+ *           (matched, missing, extra words), similarity score
+ * Main APIs: TypedAnswerCard component
+ * Constraints: Controlled input; the parent owns the response, revealed state and rating
+ * Patterns: Shared answer-matching utilities, WCAG 2.1 AA compliant, responsive design
+ */
+
+import { useEffect, useMemo, useRef } from 'react'
+
+import styles from './TypedAnswerCard.module.css'
+import { diffAnswer } from '../../../shared/utils/answer-matching'
+
+/**
+ * Props for the TypedAnswerCard component
+ */
+interface TypedAnswerCardProps {
+  /** Expected answer (variant back) */
+  expected: string
+  /** The learner's typed answer */
+  response: string
+  /** Callback when the typed answer changes */
+  onResponseChange: (response: string) => void
+  /** Callback when the learner presses Enter to check their answer */
+  onCheck: () => void
+  /** Whether the answer is revealed and compared */
+  revealed: boolean
+  /** Similarity score (0.0 to 1.0), shown once revealed */
+  score: number
+}
+
+/**
+ * Get the CSS class for a diff word
+ */
+function getSegmentClass(kind: 'match' | 'missing' | 'extra'): string {
+  if (kind === 'match') return styles.wordMatch ?? ''
+  if (kind === 'missing') return styles.wordMissing ?? ''
+  return styles.wordExtra ?? ''
+}
+
+/**
+ * Typed-answer card component for flashcards
+ *
+ * Before reveal, shows a text input. After reveal, shows the typed answer
+ * diffed word by word against the expected answer, with the score.
+ */
+export function TypedAnswerCard({
+  expected,
+  response,
+  onResponseChange,
+  onCheck,
+  revealed,
+  score,
+}: TypedAnswerCardProps): React.JSX.Element {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const segments = useMemo(
+    () => (revealed ? diffAnswer(expected, response) : []),
+    [revealed, expected, response]
+  )
+
+  // Focus the input when the card is shown
+  useEffect(() => {
+    if (!revealed) {
+      inputRef.current?.focus()
+    }
+  }, [revealed, expected])
+
+  if (!revealed) {
+    return (
+      <input
+        ref={inputRef}
+        type="text"
+        value={response}
+        onChange={(e) => onResponseChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            onCheck()
+          }
+        }}
+        placeholder="Type your answer"
+        className={styles.answerInput}
+        aria-label="Your answer"
+        autoComplete="off"
+        spellCheck={false}
+      />
+    )
+  }
+
+  return (
+    <div className={styles.result}>
+      <p className={styles.diff} aria-label="Your answer compared to the expected answer">
+        {response.trim() === '' ? (
+          <span className={styles.empty}>No answer typed</span>
+        ) : (
+          segments.map((segment, i) => (
+            <span key={i} className={getSegmentClass(segment.kind)}>
+              {segment.text}
+              {segment.kind !== 'match' && (
+                <span className={styles.srOnly}>
+                  {segment.kind === 'missing' ? ' (missing)' : ' (extra)'}
+                </span>
+              )}
+            </span>
+          ))
+        )}
+      </p>
+      <p className={styles.score} role="status">
+        {Math.round(score * 100)}% match
+      </p>
+    </div>
+  )
+}
+
+export default TypedAnswerCard
@@ -8,21 +8,61 @@
  * Patterns: Uses localStorage for simple persistence across reloads
  */
 
+import { normalizeAnswer } from '../shared/utils/answer-matching'
+import { getClozeIndices } from '../shared/utils/cloze'
+
 import type { ApiType } from '../preload/index'
 import type {
   ConceptDTO,
   CreateConceptDTO,
   UpdateConceptDTO,
+  CsvImportDTO,
+  CsvImportReportDTO,
   VariantDTO,
   CreateVariantDTO,
   UpdateVariantDTO,
+  GenerateVariantsDTO,
+  GenerateVariantsResultDTO,
+  GeneratedVariantDTO,
+  GenerateDistractorsDTO,
+  GenerateDistractorsResultDTO,
+  DistractorDTO,
   MasteryDTO,
   Dimension,
   ScheduleDTO,
   UpdateScheduleDTO,
+  OptimizeScheduleDTO,
+  ScheduleOptimizationReportDTO,
+  ReplayOptionsDTO,
+  ReplayReportDTO,
+  EvaluationReplayOptionsDTO,
+  EvaluationReplayReportDTO,
+  EvaluatedResponseDTO,
+  EvaluationOverrideDTO,
+  EvaluationOverrideResultDTO,
+  EvaluationCalibrationDTO,
   SettingsDTO,
   LLMConfigDTO,
   ConnectionTestResultDTO,
+  LLMStatusDTO,
+  LLMUsageReportDTO,
+  EnqueueGenerationDTO,
+  GenerationJobDTO,
+  JobQueueStatusDTO,
+  FillGapsDTO,
+  FillGapsResultDTO,
+  VariantGapDTO,
+  AnkiImportDTO,
+  AnkiImportReportDTO,
+  MarkdownImportDTO,
+  MarkdownImportReportDTO,
+  DataExportOptionsDTO,
+  DataExportDTO,
+  DataImportDTO,
+  DataImportReportDTO,
+  BackupInfoDTO,
+  BackupListDTO,
+  BackupRestoreReportDTO,
 } from '../shared/types/ipc'
 
 // -----------------------------------------------------------------------------
@@ -108,6 +148,37 @@ function loadMockData(): MockData {
         updatedAt: new Date().toISOString(),
         questionType: 'flashcard',
       },
+      {
+        id: 'v4',
+        conceptId: '1',
+        dimension: 'paraphrase',
+        difficulty: 2,
+        front: 'Which dependency array makes useEffect run only after the first render?',
+        back: 'An empty array has no dependencies that can change, so the effect runs once',
+        hints: ['Nothing to compare'],
+        lastShownAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        questionType: 'multiple_choice',
+        options: ['No array', 'An empty array', 'An array of all props', 'An array of state'],
+        correctIndices: [1],
+      },
+      ...[1, 2].map(
+        (clozeIndex): VariantDTO => ({
+          id: `v5-c${clozeIndex}`,
+          conceptId: '2',
+          dimension: 'cloze',
+          difficulty: 2,
+          front: 'Generics use {{c1::type parameters::syntax}} to stay {{c2::type-safe}}',
+          back: 'Type parameters such as <T> are checked by the compiler at each use',
+          hints: [],
+          lastShownAt: null,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          questionType: 'flashcard',
+          clozeIndex,
+        })
+      ),
     ],
     schedules: [],
     settings: {
@@ -120,13 +191,21 @@ function loadMockData(): MockData {
         5: 60000,
       },
       antiFrustrationThreshold: 3,
+      scheduler: 'sm2',
+      schedulerParameters: {},
       cardsPerSession: 25,
       newCardsPerDay: 10,
+      flashcardAnswerMode: 'reveal',
       llm: {
         provider: 'openai',
         apiKey: '',
         model: 'gpt-4o-mini',
       },
+      backup: {
+        enabled: true,
+        intervalHours: 24,
+        retainCount: 7,
+      },
       theme: 'system',
     },
   }
@@ -143,6 +222,18 @@ function saveMockData(data: MockData): void {
 const mockData = loadMockData()
 
 // Helper to simulate async operations
+const MOCK_DIMENSIONS: Dimension[] = [
+  'definition',
+  'paraphrase',
+  'example',
+  'scenario',
+  'discrimination',
+  'cloze',
+]
+
+/** Background jobs in browser mode live only for the page session */
+let mockJobs: GenerationJobDTO[] = []
+
 const delay = (ms: number = 10) => new Promise((resolve) => setTimeout(resolve, ms))
 
 // -----------------------------------------------------------------------------
@@ -203,6 +294,12 @@ export const mockApi: ApiType = {
       mockData.variants = mockData.variants.filter((v) => v.conceptId !== id)
       saveMockData(mockData)
     },
+
+    importCsv: async (_data: CsvImportDTO): Promise<CsvImportReportDTO> => {
+      await delay()
+      // Parsing and validating the rows happens in the main process
+      throw new Error('CSV import is only available in the desktop app')
+    },
   },
 
   variants: {
@@ -227,7 +324,26 @@ export const mockApi: ApiType = {
         questionType: data.questionType ?? 'flashcard',
         ...(data.rubric !== undefined && { rubric: data.rubric }),
         ...(data.maxLength !== undefined && { maxLength: data.maxLength }),
+        ...(data.options !== undefined && { options: data.options }),
+        ...(data.correctIndices !== undefined && { correctIndices: data.correctIndices }),
       }
+
+      // Cloze text yields one card per index, like the main process
+      const clozeIndices =
+        data.dimension === 'cloze' && newVariant.questionType === 'flashcard'
+          ? getClozeIndices(data.front)
+          : []
+      if (clozeIndices.length > 0) {
+        const cards = clozeIndices.map((clozeIndex, i) => ({
+          ...newVariant,
+          id: i === 0 ? newVariant.id : Math.random().toString(36).substr(2, 9),
+          clozeIndex,
+        }))
+        mockData.variants.push(...cards)
+        saveMockData(mockData)
+        return cards[0] ?? newVariant
+      }
+
       mockData.variants.push(newVariant)
       saveMockData(mockData)
       return newVariant
@@ -252,6 +368,8 @@ export const mockApi: ApiType = {
         ...(data.questionType !== undefined && { questionType: data.questionType }),
         ...(data.rubric !== undefined && { rubric: data.rubric }),
         ...(data.maxLength !== undefined && { maxLength: data.maxLength }),
+        ...(data.options !== undefined && { options: data.options }),
+        ...(data.correctIndices !== undefined && { correctIndices: data.correctIndices }),
         updatedAt: new Date().toISOString(),
       }
       mockData.variants[index] = updatedVariant
@@ -264,6 +382,58 @@ export const mockApi: ApiType = {
       mockData.variants = mockData.variants.filter((v) => v.id !== id)
       saveMockData(mockData)
     },
+
+    createMany: async (data: CreateVariantDTO[]): Promise<VariantDTO[]> => {
+      const created: VariantDTO[] = []
+      for (const item of data) {
+        created.push(await mockApi.variants.create(item))
+      }
+      return created
+    },
+
+    generate: async (options: GenerateVariantsDTO): Promise<GenerateVariantsResultDTO> => {
+      await delay(800)
+      const concept = mockData.concepts.find((c) => c.id === options.conceptId)
+      if (!concept) throw new Error('Concept not found')
+
+      // Canned drafts so the review flow can be exercised without an LLM
+      const drafts: GeneratedVariantDTO[] = []
+      for (const dimension of options.dimensions) {
+        for (const difficulty of options.difficulties) {
+          for (let i = 1; i <= options.count; i++) {
+            drafts.push({
+              dimension,
+              difficulty,
+              front: `[${dimension} ${difficulty}/5] Question ${i} about ${concept.name}?`,
+              back: concept.definition ?? concept.name,
+              hints: concept.facts?.slice(0, 1) ?? [],
+            })
+          }
+        }
+      }
+      return { drafts, failures: [] }
+    },
+
+    generateDistractors: async (
+      data: GenerateDistractorsDTO
+    ): Promise<GenerateDistractorsResultDTO> => {
+      await delay(600)
+      const concept = mockData.concepts.find((c) => c.id === data.conceptId)
+      if (!concept) throw new Error('Concept not found')
+
+      // Other concept names stand in for confusable options
+      const correct = new Set([data.back, ...(data.acceptedAnswers ?? [])].map(normalizeAnswer))
+      const distractors: DistractorDTO[] = mockData.concepts
+        .filter((c) => c.id !== concept.id && !correct.has(normalizeAnswer(c.name)))
+        .slice(0, data.count)
+        .map((c, i) => ({
+          text: c.name,
+          rationale: `Easily confused with ${concept.name}`,
+          confusedWith: c.name,
+          plausibility: Math.round((0.9 - i * 0.1) * 100) / 100,
+        }))
+      return { distractors }
+    },
   },
 
   review: {
@@ -280,6 +450,7 @@ export const mockApi: ApiType = {
 
       // Create a mock schedule for this variant
       const schedule: ScheduleDTO = {
+        variantId: randomVariant.id,
         conceptId: randomVariant.conceptId,
         dueAt: new Date().toISOString(),
         intervalDays: 1,
@@ -318,19 +489,42 @@ export const mockApi: ApiType = {
 
       // Mock updated schedule
       const updatedSchedule: ScheduleDTO = {
+        variantId: variant.id,
         conceptId: variant.conceptId,
         dueAt: new Date(Date.now() + 86400000).toISOString(), // Tomorrow
         intervalDays: ratingToInterval[data.rating] ?? 1,
         ease: 2.5,
       }
 
+      // Grade choice questions by exact match, with hit-minus-miss partial credit
+      const correctAnswers = variant.correctIndices
+      const selected = data.selectedAnswerIndices ?? []
+      const grade =
+        variant.options !== undefined && correctAnswers !== undefined
+          ? {
+              wasCorrect:
+                selected.length === correctAnswers.length &&
+                selected.every((i) => correctAnswers.includes(i)),
+              correctAnswers,
+              partialScore: Math.max(
+                0,
+                (selected.filter((i) => correctAnswers.includes(i)).length * 2 -
+                  selected.length) /
+                  correctAnswers.length
+              ),
+              explanation: variant.back,
+            }
+          : undefined
+
       // Get next card (recursive call to our own getNextCard)
       const nextCard = await mockApi.review.getNextCard()
 
       return {
+        eventId: `event-${Date.now()}`,
         updatedMastery,
         updatedSchedule,
         nextCard,
+        ...grade,
       }
     },
 
@@ -338,6 +532,11 @@ export const mockApi: ApiType = {
       await delay()
       const variantCount = mockData.variants.length
       const countPerDimension = Math.floor(variantCount / 6)
+      // Treat the first newCardsPerDay concepts as new; counts are cards in both cases
+      const newConceptIds = new Set(
+        mockData.concepts.slice(0, mockData.settings.newCardsPerDay).map((c) => c.id)
+      )
+      const newCardCount = mockData.variants.filter((v) => newConceptIds.has(v.conceptId)).length
       return {
         total: variantCount,
         byDimension: {
@@ -348,8 +547,15 @@ export const mockApi: ApiType = {
           discrimination: countPerDimension,
           cloze: countPerDimension,
         },
+        reviewRemaining: variantCount - newCardCount,
+        newRemaining: newCardCount,
+        sessionRemaining: mockData.settings.cardsPerSession,
       }
     },
+
+    startSession: async () => {
+      return mockApi.review.getDueCount()
+    },
   },
 
   mastery: {
@@ -409,14 +615,33 @@ export const mockApi: ApiType = {
         count: 50,
       }
     },
+
+    getByConcept: async (conceptId: string) => {
+      await delay()
+      const profile = await mockApi.mastery.getProfile()
+      return { ...profile, conceptId }
+    },
+
+    getAllConcepts: async () => {
+      await delay()
+      // Mock: every concept shares the global profile
+      return Promise.all(mockData.concepts.map((c) => mockApi.mastery.getByConcept(c.id)))
+    },
+
+    recompute: async () => {
+      await delay()
+      // Mock: no event log to replay, return the current profile
+      return mockApi.mastery.getProfile()
+    },
   },
 
   schedule: {
     getDue: async () => {
       await delay()
-      // Return schedules for all concepts
-      return mockData.concepts.map((concept) => ({
-        conceptId: concept.id,
+      // Return schedules for all variants
+      return mockData.variants.map((variant) => ({
+        variantId: variant.id,
+        conceptId: variant.conceptId,
         dueAt: new Date().toISOString(),
         intervalDays: 1,
         ease: 2.5,
@@ -425,11 +650,13 @@ export const mockApi: ApiType = {
 
     update: async (data: UpdateScheduleDTO) => {
       await delay()
-      // Find or create schedule for concept
-      let schedule = mockData.schedules.find((s) => s.conceptId === data.conceptId)
+      // Find or create schedule for variant
+      let schedule = mockData.schedules.find((s) => s.variantId === data.variantId)
       if (!schedule) {
+        const variant = mockData.variants.find((v) => v.id === data.variantId)
         schedule = {
-          conceptId: data.conceptId,
+          variantId: data.variantId,
+          conceptId: variant?.conceptId ?? '',
           dueAt: new Date().toISOString(),
           intervalDays: 1,
           ease: 2.5,
@@ -442,12 +669,28 @@ export const mockApi: ApiType = {
         ...data,
       }
 
-      const index = mockData.schedules.findIndex((s) => s.conceptId === data.conceptId)
+      const index = mockData.schedules.findIndex((s) => s.variantId === data.variantId)
       mockData.schedules[index] = schedule
 
       saveMockData(mockData)
       return schedule
     },
+
+    optimize: async (data: OptimizeScheduleDTO): Promise<ScheduleOptimizationReportDTO> => {
+      await delay(500) // Simulate fitting time
+
+      // Browser mode has no review history to fit, so report a fixed improvement
+      const report: ScheduleOptimizationReportDTO = {
+        algorithm: mockData.settings.scheduler,
+        reviewCount: 120,
+        before: { logLoss: 0.52, rmse: 0.31 },
+        after: { logLoss: 0.44, rmse: 0.27 },
+        parameters: mockData.settings.schedulerParameters,
+        improved: true,
+        applied: data.apply,
+      }
+      return report
+    },
   },
 
   settings: {
@@ -469,6 +712,10 @@ export const mockApi: ApiType = {
         targetTimes: data.targetTimes
           ? { ...mockData.settings.targetTimes, ...data.targetTimes }
           : mockData.settings.targetTimes,
+        // Deep merge backup settings if provided
+        backup: data.backup
+          ? { ...mockData.settings.backup, ...data.backup }
+          : mockData.settings.backup,
       }
       saveMockData(mockData)
       return mockData.settings
@@ -492,6 +739,24 @@ export const mockApi: ApiType = {
         latencyMs: 500,
       }
     },
+
+    getLLMStatus: async (): Promise<LLMStatusDTO> => {
+      await delay()
+      const { provider, apiKey, model } = mockData.settings.llm
+      if (provider !== 'local' && apiKey.trim() === '') {
+        return {
+          configured: false,
+          provider,
+          model,
+          error: {
+            code: 'LLM_NOT_CONFIGURED',
+            message: 'No API key is configured. Add one in Settings under LLM Configuration.',
+            missingFields: ['apiKey'],
+          },
+        }
+      }
+      return { configured: true, provider, model }
+    },
   },
 
   analytics: {
@@ -563,6 +828,254 @@ export const mockApi: ApiType = {
       }
       return entries
     },
+
+    getLLMUsage: async (): Promise<LLMUsageReportDTO> => {
+      await delay()
+      const now = new Date()
+      const generation = {
+        feature: 'generation' as const,
+        provider: null,
+        model: null,
+        calls: 24,
+        failedCalls: 1,
+        blockedCalls: 0,
+        promptTokens: 18400,
+        completionTokens: 21600,
+        meanLatencyMs: 4200,
+        costUsd: 0.0157,
+        unpricedCalls: 0,
+      }
+      const evaluation = {
+        ...generation,
+        feature: 'evaluation' as const,
+        calls: 41,
+        failedCalls: 0,
+        promptTokens: 24600,
+        completionTokens: 6150,
+        meanLatencyMs: 1800,
+        costUsd: 0.0074,
+      }
+      return {
+        periodStart: new Date(now.getFullYear(), now.getMonth(), 1).toISOString(),
+        budgetUsd: mockData.settings.llm.monthlyBudgetUsd ?? null,
+        spentUsd: generation.costUsd + evaluation.costUsd,
+        features: [generation, evaluation],
+        models: [
+          { ...generation, provider: 'openai', model: mockData.settings.llm.model },
+          { ...evaluation, provider: 'openai', model: mockData.settings.llm.model },
+        ],
+      }
+    },
+  },
+
+  replay: {
+    run: async (options: ReplayOptionsDTO): Promise<ReplayReportDTO> => {
+      await delay(300)
+      // Browser mode keeps no event log, so stored state is always in sync
+      return {
+        eventCount: 0,
+        dryRun: options.dryRun,
+        applied: !options.dryRun,
+        masteryChanges: [],
+        conceptMasteryChanges: [],
+        scheduleChanges: [],
+      }
+    },
+  },
+
+  evaluation: {
+    replay: async (options: EvaluationReplayOptionsDTO): Promise<EvaluationReplayReportDTO> => {
+      await delay(300)
+      // Browser mode stores no open responses, so there is nothing to re-score
+      const model = options.model?.trim() ?? ''
+      return {
+        provider: mockData.settings.llm.provider,
+        model: model !== '' ? model : mockData.settings.llm.model,
+        promptVersion: 'v1',
+        items: [],
+        cachedCount: 0,
+        failedCount: 0,
+        meanAbsoluteDifference: null,
+        ratingAgreement: null,
+      }
+    },
+
+    getHistory: async (_limit: number): Promise<EvaluatedResponseDTO[]> => {
+      await delay()
+      return []
+    },
+
+    override: async (data: EvaluationOverrideDTO): Promise<EvaluationOverrideResultDTO> => {
+      await delay()
+      throw new Error(`No evaluated review with id ${data.eventId}`)
+    },
+
+    getCalibration: async (): Promise<EvaluationCalibrationDTO[]> => {
+      await delay()
+      return []
+    },
+  },
+
+  jobs: {
+    getStatus: async (): Promise<JobQueueStatusDTO> => {
+      await delay()
+      return { jobs: mockJobs, running: 0, pausedUntil: null }
+    },
+
+    enqueueGeneration: async (data: EnqueueGenerationDTO): Promise<GenerationJobDTO[]> => {
+      await delay()
+      // Browser mode has no queue: each job generates canned variants and completes at once
+      const created: GenerationJobDTO[] = []
+      for (const conceptId of data.conceptIds) {
+        const concept = mockData.concepts.find((c) => c.id === conceptId)
+        if (!concept) throw new Error('Concept not found')
+        for (const dimension of data.dimensions) {
+          for (const difficulty of data.difficulties) {
+            const { drafts } = await mockApi.variants.generate({
+              conceptId,
+              dimensions: [dimension],
+              difficulties: [difficulty],
+              count: data.count,
+            })
+            await mockApi.variants.createMany(
+              drafts.map((draft) => ({ conceptId, ...draft, questionType: 'flashcard' as const }))
+            )
+            const now = new Date().toISOString()
+            created.push({
+              id: `job-${Date.now()}-${created.length}`,
+              conceptId,
+              conceptName: concept.name,
+              dimension,
+              difficulty,
+              count: data.count,
+              status: 'completed',
+              attempts: 1,
+              error: null,
+              variantsCreated: drafts.length,
+              runAfter: now,
+              createdAt: now,
+              updatedAt: now,
+            })
+          }
+        }
+      }
+      mockJobs = [...created.reverse(), ...mockJobs]
+      return created
+    },
+
+    cancel: async (id: string): Promise<GenerationJobDTO> => {
+      await delay()
+      throw new Error(`No queued or running job with id ${id}`)
+    },
+
+    retry: async (id: string): Promise<GenerationJobDTO> => {
+      await delay()
+      throw new Error(`No failed or cancelled job with id ${id}`)
+    },
+
+    clearFinished: async (): Promise<number> => {
+      await delay()
+      const count = mockJobs.length
+      mockJobs = []
+      return count
+    },
+
+    fillGaps: async (data: FillGapsDTO): Promise<FillGapsResultDTO> => {
+      await delay()
+      // Browser mode has no mastery history, so only baseline gaps are reported
+      const concepts = mockData.concepts.filter(
+        (c) => data.conceptIds === undefined || data.conceptIds.includes(c.id)
+      )
+      const gaps: VariantGapDTO[] = []
+      for (const concept of concepts) {
+        const variants = mockData.variants.filter((v) => v.conceptId === concept.id)
+        for (const dimension of MOCK_DIMENSIONS) {
+          for (const difficulty of data.difficulties) {
+            const existing = variants.filter(
+              (v) => v.dimension === dimension && v.difficulty === difficulty
+            ).length
+            if (existing < data.perCell) {
+              gaps.push({
+                conceptId: concept.id,
+                conceptName: concept.name,
+                dimension,
+                difficulty,
+                existing,
+                pending: 0,
+                target: data.perCell,
+                missing: data.perCell - existing,
+                reason: 'missing',
+              })
+            }
+          }
+        }
+      }
+      if (data.dryRun) return { gaps, jobs: [] }
+
+      const jobs: GenerationJobDTO[] = []
+      for (const gap of gaps) {
+        jobs.push(
+          ...(await mockApi.jobs.enqueueGeneration({
+            conceptIds: [gap.conceptId],
+            dimensions: [gap.dimension],
+            difficulties: [gap.difficulty],
+            count: gap.missing,
+          }))
+        )
+      }
+      return { gaps, jobs }
+    },
+
+    onProgress: (_callback: (job: GenerationJobDTO) => void): (() => void) => {
+      // Jobs complete synchronously in browser mode, so there is nothing to report
+      return () => undefined
+    },
+  },
+
+  import: {
+    anki: async (data: AnkiImportDTO): Promise<AnkiImportReportDTO> => {
+      await delay(300)
+      // Reading the package's SQLite collection needs the main process
+      throw new Error(`Importing ${data.fileName} is only available in the desktop app`)
+    },
+    chooseFolder: async (): Promise<string | null> => {
+      await delay(300)
+      // Browsers cannot hand out folder paths
+      throw new Error('Importing Markdown notes is only available in the desktop app')
+    },
+    markdown: async (_data: MarkdownImportDTO): Promise<MarkdownImportReportDTO> => {
+      await delay(300)
+      // Reading the notes needs file system access from the main process
+      throw new Error('Importing Markdown notes is only available in the desktop app')
+    },
+  },
+
+  data: {
+    export: async (_options: DataExportOptionsDTO): Promise<DataExportDTO> => {
+      await delay(300)
+      // The mock keeps no database to export
+      throw new Error('Data export is only available in the desktop app')
+    },
+    import: async (_data: DataImportDTO): Promise<DataImportReportDTO> => {
+      await delay(300)
+      throw new Error('Data import is only available in the desktop app')
+    },
+  },
+
+  backup: {
+    list: async (): Promise<BackupListDTO> => {
+      await delay()
+      // Mock data lives in localStorage, so there is no database file to back up
+      return { directory: '', backups: [] }
+    },
+    create: async (): Promise<BackupInfoDTO> => {
+      await delay(300)
+      throw new Error('Database backups are only available in the desktop app')
+    },
+    restore: async (_fileName: string): Promise<BackupRestoreReportDTO> => {
+      await delay(300)
+      throw new Error('Database backups are only available in the desktop app')
+    },
   },
 }
 
@@ -1,8 +1,9 @@
 /**
  * @fileoverview Analytics dashboard page displaying comprehensive learning visualizations
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: 6 analytics charts in responsive grid, error boundaries per chart, loading states
+ * Features: 6 analytics charts in responsive grid, error boundaries per chart, loading states,
+ *           LLM evaluation calibration with rating overrides, LLM spend by feature and model
  * Main APIs: Chart components from '../components/charts'
  * Constraints: Charts fetch their own data via preload API
  * Patterns: Card-based layout, CSS modules, WCAG 2.1 AA compliant
@@ -19,6 +20,8 @@ import {
   ResponseTimeChart,
   WeaknessHeatmap,
 } from '../components/charts'
+import EvaluationCalibrationPanel from '../components/EvaluationCalibrationPanel'
+import LLMUsagePanel from '../components/LLMUsagePanel'
 
 import type { ReactNode, ErrorInfo } from 'react'
 
@@ -132,6 +135,8 @@ function ChartCard({
  * - ReviewDistributionChart: Review results by dimension
  * - ResponseTimeChart: Response time statistics
  * - WeaknessHeatmap: Weakness patterns over time
+ *
+ * followed by the calibration of LLM evaluations against the user's ratings.
  */
 function AnalyticsPage(): React.JSX.Element {
   return (
@@ -227,6 +232,32 @@ function AnalyticsPage(): React.JSX.Element {
             </ChartErrorBoundary>
           </ChartCard>
         </section>
+
+        {/* Row 5: Evaluation Calibration (full width) */}
+        <section className={styles.row}>
+          <ChartCard
+            title="Evaluation Calibration"
+            description="How the AI's ratings of your open responses compare with your own"
+            className={styles.fullWidthCard}
+          >
+            <ChartErrorBoundary chartName="Evaluation Calibration">
+              <EvaluationCalibrationPanel />
+            </ChartErrorBoundary>
+          </ChartCard>
+        </section>
+
+        {/* Row 6: LLM Usage (full width) */}
+        <section className={styles.row}>
+          <ChartCard
+            title="LLM Usage"
+            description="This month's AI calls and estimated spend for generation and evaluation"
+            className={styles.fullWidthCard}
+          >
+            <ChartErrorBoundary chartName="LLM Usage">
+              <LLMUsagePanel />
+            </ChartErrorBoundary>
+          </ChartCard>
+        </section>
       </main>
     </div>
   )
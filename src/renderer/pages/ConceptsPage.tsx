@@ -1,8 +1,10 @@
 /**
  * @fileoverview Concepts management page for viewing and adding learning concepts
- * @lastmodified 2026-01-16T21:27:30Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Concept list display, CRUD operations via preload API, search/filter, accessible modal, custom delete confirmation
+ * Features: Concept list display, CRUD operations via preload API, search/filter, accessible modal, custom delete confirmation,
+ *           LLM variant generation with draft review, bulk background generation for listed concepts,
+ *           Anki deck import, CSV/TSV import with column mapping, Markdown/Obsidian folder import
  * Main APIs: useElectronAPI hook for safe API access
  * Constraints: Requires preload script (useElectronAPI provides error handling)
  * Patterns: List view with modal form for create/edit, hook-based API access, Lucide React icons, WCAG 2.1 AA compliant
@@ -12,9 +14,23 @@ import { Search, BookPlus, X } from 'lucide-react'
 import { useState, useEffect, useCallback, useRef } from 'react'
 
 import styles from './ConceptsPage.module.css'
+import AnkiImportPanel from '../components/AnkiImportPanel'
+import CsvImportPanel from '../components/CsvImportPanel'
+import JobsPanel from '../components/JobsPanel'
+import MarkdownImportPanel from '../components/MarkdownImportPanel'
+import { useToast } from '../components/Toast'
+import VariantGenerationPanel from '../components/VariantGenerationPanel'
 import { useElectronAPI } from '../hooks/useElectronAPI'
 
-import type { ConceptDTO, CreateConceptDTO, UpdateConceptDTO } from '../../shared/types/ipc'
+import type {
+  AnkiImportReportDTO,
+  ConceptDTO,
+  CreateConceptDTO,
+  CsvImportReportDTO,
+  MarkdownImportReportDTO,
+  UpdateConceptDTO,
+  VariantDTO,
+} from '../../shared/types/ipc'
 
 /**
  * Form data structure for create/edit operations
@@ -40,6 +56,7 @@ interface DeleteConfirmation {
  */
 function ConceptsPage(): React.JSX.Element {
   const api = useElectronAPI()
+  const { showToast } = useToast()
   const [searchQuery, setSearchQuery] = useState('')
   const [concepts, setConcepts] = useState<ConceptDTO[]>([])
   const [selectedConcept, setSelectedConcept] = useState<ConceptDTO | null>(null)
@@ -51,6 +68,11 @@ function ConceptsPage(): React.JSX.Element {
   const [error, setError] = useState<string | null>(null)
   const [deleteConfirmation, setDeleteConfirmation] = useState<DeleteConfirmation | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [generationConcept, setGenerationConcept] = useState<ConceptDTO | null>(null)
+  const [isJobsOpen, setIsJobsOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false)
+  const [isMarkdownImportOpen, setIsMarkdownImportOpen] = useState(false)
 
   // Refs for focus management in modal
   const modalRef = useRef<HTMLDivElement>(null)
@@ -228,6 +250,217 @@ function ConceptsPage(): React.JSX.Element {
     }
   }, [deleteConfirmation])
 
+  /**
+   * Close the variant generation modal on Escape
+   */
+  useEffect(() => {
+    if (!generationConcept) return
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        handleCloseGeneration()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [generationConcept])
+
+  /**
+   * Close the bulk generation modal on Escape
+   */
+  useEffect(() => {
+    if (!isJobsOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        handleCloseJobs()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isJobsOpen])
+
+  /**
+   * Close the Anki import modal on Escape
+   */
+  useEffect(() => {
+    if (!isImportOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        handleCloseImport()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isImportOpen])
+
+  /**
+   * Close the CSV import modal on Escape
+   */
+  useEffect(() => {
+    if (!isCsvImportOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        handleCloseCsvImport()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isCsvImportOpen])
+
+  /**
+   * Close the Markdown import modal on Escape
+   */
+  useEffect(() => {
+    if (!isMarkdownImportOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        handleCloseMarkdownImport()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isMarkdownImportOpen])
+
+  /**
+   * Open the bulk generation modal for the listed concepts
+   */
+  const handleBulkGenerateClick = (): void => {
+    previousFocusRef.current = document.activeElement as HTMLElement
+    setIsJobsOpen(true)
+  }
+
+  /**
+   * Close the bulk generation modal; queued jobs keep running
+   */
+  const handleCloseJobs = (): void => {
+    setIsJobsOpen(false)
+    previousFocusRef.current?.focus()
+  }
+
+  /**
+   * Open the Anki import modal
+   */
+  const handleImportClick = (): void => {
+    previousFocusRef.current = document.activeElement as HTMLElement
+    setIsImportOpen(true)
+  }
+
+  /**
+   * Close the Anki import modal
+   */
+  const handleCloseImport = (): void => {
+    setIsImportOpen(false)
+    previousFocusRef.current?.focus()
+  }
+
+  /**
+   * Reload the list after an Anki import
+   */
+  const handleAnkiImported = useCallback(
+    (report: AnkiImportReportDTO): void => {
+      showToast(
+        `Imported ${report.conceptCount} concept${report.conceptCount !== 1 ? 's' : ''} from ${report.fileName}`,
+        'success'
+      )
+      void fetchConcepts()
+    },
+    [showToast, fetchConcepts]
+  )
+
+  /**
+   * Open the CSV import modal
+   */
+  const handleCsvImportClick = (): void => {
+    previousFocusRef.current = document.activeElement as HTMLElement
+    setIsCsvImportOpen(true)
+  }
+
+  /**
+   * Close the CSV import modal
+   */
+  const handleCloseCsvImport = (): void => {
+    setIsCsvImportOpen(false)
+    previousFocusRef.current?.focus()
+  }
+
+  /**
+   * Reload the list after a CSV import
+   */
+  const handleCsvImported = useCallback(
+    (report: CsvImportReportDTO): void => {
+      const count = report.conceptsCreated + report.conceptsMerged
+      showToast(`Imported ${count} concept${count !== 1 ? 's' : ''} from CSV`, 'success')
+      void fetchConcepts()
+    },
+    [showToast, fetchConcepts]
+  )
+
+  /**
+   * Open the Markdown import modal
+   */
+  const handleMarkdownImportClick = (): void => {
+    previousFocusRef.current = document.activeElement as HTMLElement
+    setIsMarkdownImportOpen(true)
+  }
+
+  /**
+   * Close the Markdown import modal
+   */
+  const handleCloseMarkdownImport = (): void => {
+    setIsMarkdownImportOpen(false)
+    previousFocusRef.current?.focus()
+  }
+
+  /**
+   * Reload the list after a Markdown import
+   */
+  const handleMarkdownImported = useCallback(
+    (report: MarkdownImportReportDTO): void => {
+      const { create, update } = report.counts
+      showToast(
+        `Imported ${create} new and ${update} updated concept${create + update !== 1 ? 's' : ''}`,
+        'success'
+      )
+      void fetchConcepts()
+    },
+    [showToast, fetchConcepts]
+  )
+
+  /**
+   * Open the variant generation modal for a concept
+   */
+  const handleGenerateClick = (concept: ConceptDTO): void => {
+    previousFocusRef.current = document.activeElement as HTMLElement
+    setGenerationConcept(concept)
+  }
+
+  /**
+   * Close the variant generation modal, discarding unaccepted drafts
+   */
+  const handleCloseGeneration = (): void => {
+    setGenerationConcept(null)
+    previousFocusRef.current?.focus()
+  }
+
+  /**
+   * Confirm accepted drafts; the generation modal stays open for the rest
+   */
+  const handleVariantsAccepted = (variants: VariantDTO[]): void => {
+    showToast(
+      `Added ${variants.length} variant${variants.length !== 1 ? 's' : ''} to ${generationConcept?.name ?? 'concept'}`,
+      'success'
+    )
+  }
+
   /**
    * Add a new empty fact field
    */
@@ -398,14 +631,45 @@ function ConceptsPage(): React.JSX.Element {
           <h1>Concepts</h1>
           <p className={styles.subtitle}>Manage your learning concepts and question banks</p>
         </div>
-        <button
-          type="button"
-          className={`btn-primary ${styles.addButton}`}
-          onClick={handleAddConcept}
-        >
-          <span className={styles.addIcon}>+</span>
-          Add Concept
-        </button>
+        <div className={styles.headerActions}>
+          <button
+            type="button"
+            className={`btn-secondary ${styles.addButton}`}
+            onClick={handleBulkGenerateClick}
+            disabled={filteredConcepts.length === 0}
+          >
+            Bulk Generate
+          </button>
+          <button
+            type="button"
+            className={`btn-secondary ${styles.addButton}`}
+            onClick={handleImportClick}
+          >
+            Import Anki
+          </button>
+          <button
+            type="button"
+            className={`btn-secondary ${styles.addButton}`}
+            onClick={handleCsvImportClick}
+          >
+            Import CSV
+          </button>
+          <button
+            type="button"
+            className={`btn-secondary ${styles.addButton}`}
+            onClick={handleMarkdownImportClick}
+          >
+            Import Markdown
+          </button>
+          <button
+            type="button"
+            className={`btn-primary ${styles.addButton}`}
+            onClick={handleAddConcept}
+          >
+            <span className={styles.addIcon}>+</span>
+            Add Concept
+          </button>
+        </div>
       </header>
 
       {/* Error Banner */}
@@ -469,6 +733,14 @@ function ConceptsPage(): React.JSX.Element {
               <div className={styles.conceptHeader}>
                 <h3 className={styles.conceptName}>{concept.name}</h3>
                 <div className={styles.conceptActions}>
+                  <button
+                    type="button"
+                    className={styles.editButton}
+                    onClick={() => handleGenerateClick(concept)}
+                    aria-label={`Generate variants for ${concept.name}`}
+                  >
+                    Generate
+                  </button>
                   <button
                     type="button"
                     className={styles.editButton}
@@ -676,6 +948,121 @@ function ConceptsPage(): React.JSX.Element {
         </div>
       )}
 
+      {/* Variant Generation Modal */}
+      {generationConcept && (
+        <div
+          className={styles.modalOverlay}
+          onClick={handleCloseGeneration}
+          role="presentation"
+          aria-hidden="true"
+        >
+          {/* eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions, jsx-a11y/click-events-have-key-events */}
+          <div
+            className={`${styles.modal} ${styles.wideModal}`}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="generate-title"
+          >
+            <VariantGenerationPanel
+              concept={generationConcept}
+              onAccepted={handleVariantsAccepted}
+              onClose={handleCloseGeneration}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Bulk Generation Modal */}
+      {isJobsOpen && (
+        <div
+          className={styles.modalOverlay}
+          onClick={handleCloseJobs}
+          role="presentation"
+          aria-hidden="true"
+        >
+          {/* eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions, jsx-a11y/click-events-have-key-events */}
+          <div
+            className={`${styles.modal} ${styles.wideModal}`}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="jobs-title"
+          >
+            <JobsPanel
+              conceptIds={filteredConcepts.map((c) => c.id)}
+              onClose={handleCloseJobs}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Anki Import Modal */}
+      {isImportOpen && (
+        <div
+          className={styles.modalOverlay}
+          onClick={handleCloseImport}
+          role="presentation"
+          aria-hidden="true"
+        >
+          {/* eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions, jsx-a11y/click-events-have-key-events */}
+          <div
+            className={`${styles.modal} ${styles.wideModal}`}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="anki-import-title"
+          >
+            <AnkiImportPanel onImported={handleAnkiImported} onClose={handleCloseImport} />
+          </div>
+        </div>
+      )}
+
+      {/* CSV Import Modal */}
+      {isCsvImportOpen && (
+        <div
+          className={styles.modalOverlay}
+          onClick={handleCloseCsvImport}
+          role="presentation"
+          aria-hidden="true"
+        >
+          {/* eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions, jsx-a11y/click-events-have-key-events */}
+          <div
+            className={`${styles.modal} ${styles.wideModal}`}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="csv-import-title"
+          >
+            <CsvImportPanel onImported={handleCsvImported} onClose={handleCloseCsvImport} />
+          </div>
+        </div>
+      )}
+
+      {/* Markdown Import Modal */}
+      {isMarkdownImportOpen && (
+        <div
+          className={styles.modalOverlay}
+          onClick={handleCloseMarkdownImport}
+          role="presentation"
+          aria-hidden="true"
+        >
+          {/* eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions, jsx-a11y/click-events-have-key-events */}
+          <div
+            className={`${styles.modal} ${styles.wideModal}`}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="markdown-import-title"
+          >
+            <MarkdownImportPanel
+              onImported={handleMarkdownImported}
+              onClose={handleCloseMarkdownImport}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirmation && (
         <div
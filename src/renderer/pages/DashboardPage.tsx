@@ -151,7 +151,10 @@ function DashboardPage(): React.JSX.Element {
           <h2>Ready to Review</h2>
           {dueForReview > 0 ? (
             <>
-              <p>You have {dueForReview} cards waiting for review.</p>
+              <p>
+                You have {dueCount?.reviewRemaining ?? 0} cards to review and{' '}
+                {dueCount?.newRemaining ?? 0} new cards to start today.
+              </p>
               <Link to="/review" className={`btn-primary ${styles.actionButton}`}>
                 Start Review Session
               </Link>
@@ -1,9 +1,12 @@
 /**
  * @fileoverview Review session page for spaced repetition card review
- * @lastmodified 2026-01-20T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
  * Features: Card display, show answer toggle, rating buttons, keyboard shortcuts, accessible loading states,
- *           answer reveal animation, open response with LLM evaluation
+ *           answer reveal animation, open response with LLM evaluation, session limit with restart,
+ *           graded multiple-choice, multi-select and true/false cards, typed-answer cloze cards,
+ *           optional typed-answer flashcards with fuzzy matching and a suggested rating,
+ *           disputing an open response's evaluated rating
  * Main APIs: useElectronAPI hook for safe API access
  * Constraints: Displays placeholder when no cards are due
  * Patterns: State machine pattern for review flow (question -> answer -> rated), hook-based API access, WCAG 2.1 AA compliant
@@ -13,7 +16,12 @@ import { useState, useEffect, useCallback } from 'react'
 import { Link } from 'react-router-dom'
 
 import styles from './ReviewPage.module.css'
+import { scoreTypedAnswer, suggestRating } from '../../shared/utils/answer-matching'
+import { checkClozeAnswers, renderClozeCard } from '../../shared/utils/cloze'
+import { ChoiceCard } from '../components/review/ChoiceCard'
+import { ClozeCard } from '../components/review/ClozeCard'
 import { OpenResponseCard } from '../components/review/OpenResponseCard'
+import { TypedAnswerCard } from '../components/review/TypedAnswerCard'
 import { useElectronAPI } from '../hooks/useElectronAPI'
 
 import type {
@@ -21,8 +29,12 @@ import type {
   ReviewSubmitDTO,
   Rating,
   DueCountDTO,
+  FlashcardAnswerMode,
+  LLMErrorDTO,
   LLMEvaluationResult,
+  QuestionType,
 } from '../../shared/types/ipc'
+import type { ChoiceResult } from '../components/review/ChoiceCard'
 
 /**
  * Rating option for spaced repetition
@@ -49,6 +61,36 @@ function getRatingOptions(): RatingOption[] {
   ]
 }
 
+/**
+ * Badge labels for question types other than flashcards
+ */
+const QUESTION_TYPE_LABELS: Partial<Record<QuestionType, string>> = {
+  open_response: 'Open Response',
+  multiple_choice: 'Multiple Choice',
+  multi_select: 'Multi-Select',
+  true_false: 'True / False',
+}
+
+/**
+ * Whether a card is answered by choosing options (graded in main)
+ */
+function isChoiceCard(card: ReviewCardDTO | null): boolean {
+  const questionType = card?.variant.questionType
+  return (
+    (questionType === 'multiple_choice' ||
+      questionType === 'multi_select' ||
+      questionType === 'true_false') &&
+    card?.variant.options !== undefined
+  )
+}
+
+/**
+ * Whether a card uses the show-answer and self-rating flow
+ */
+function isSelfRatedCard(card: ReviewCardDTO | null): boolean {
+  return card?.variant.questionType !== 'open_response' && !isChoiceCard(card)
+}
+
 /**
  * Map numeric rating (1-4) to Rating type
  */
@@ -73,21 +115,33 @@ function ReviewPage(): React.JSX.Element {
   // Open response evaluation state
   const [isEvaluating, setIsEvaluating] = useState(false)
   const [evaluationResult, setEvaluationResult] = useState<LLMEvaluationResult | null>(null)
+  const [evaluationError, setEvaluationError] = useState<LLMErrorDTO | null>(null)
+  const [evaluatedEventId, setEvaluatedEventId] = useState<string | null>(null)
+  const [overrideRating, setOverrideRating] = useState<Rating | null>(null)
   const [responseStartTime, setResponseStartTime] = useState<number>(0)
+  // Choice question grading state
+  const [choiceResult, setChoiceResult] = useState<ChoiceResult | null>(null)
+  // Typed answers for the blanks of a cloze card
+  const [clozeResponses, setClozeResponses] = useState<string[]>([])
+  // Typed answer for a plain flashcard (typed answer mode only)
+  const [answerMode, setAnswerMode] = useState<FlashcardAnswerMode>('reveal')
+  const [typedResponse, setTypedResponse] = useState('')
 
   // Fetch the first card on mount
   useEffect(() => {
     const fetchInitialData = async (): Promise<void> => {
       try {
         setIsLoading(true)
-        const [card, count] = await Promise.all([
+        const [card, count, settings] = await Promise.all([
           api.review.getNextCard(),
           api.review.getDueCount(),
+          api.settings.get(),
         ])
         setCurrentCard(card)
         setDueCount(count)
-        // Start timing for open response questions
-        if (card?.variant?.questionType === 'open_response') {
+        setAnswerMode(settings.flashcardAnswerMode)
+        // Start timing for open response and choice questions
+        if (!isSelfRatedCard(card)) {
           setResponseStartTime(Date.now())
         }
       } catch (error) {
@@ -110,6 +164,8 @@ function ReviewPage(): React.JSX.Element {
 
     const timeMs = answerShownAt > 0 ? Date.now() - answerShownAt : 0
     const rating = mapRatingToType(ratingValue)
+    const isCloze = currentCard.variant.clozeIndex !== undefined
+    const isTyped = !isCloze && answerMode === 'typed'
 
     const submitData: ReviewSubmitDTO = {
       variantId: currentCard.variant.id,
@@ -117,6 +173,9 @@ function ReviewPage(): React.JSX.Element {
       dimension: currentCard.variant.dimension,
       rating,
       timeMs,
+      // Keep typed cloze answers with the review event
+      ...(isCloze && { userResponse: clozeResponses.join(' | ') }),
+      ...(isTyped && { userResponse: typedResponse }),
     }
 
     try {
@@ -125,10 +184,16 @@ function ReviewPage(): React.JSX.Element {
       setCurrentCard(result.nextCard)
       setShowAnswer(false)
       setAnswerShownAt(0)
+      setClozeResponses([])
+      setTypedResponse('')
+      // Refresh counts so the end screen can tell "all done" from "session limit reached"
+      if (!result.nextCard) {
+        setDueCount(await api.review.getDueCount())
+      }
     } catch (error) {
       console.error('Failed to submit review:', error)
     }
-  }, [api, currentCard, answerShownAt])
+  }, [api, currentCard, answerShownAt, answerMode, clozeResponses, typedResponse])
 
   /**
    * Handle open response submission with LLM evaluation
@@ -151,6 +216,11 @@ function ReviewPage(): React.JSX.Element {
     try {
       const result = await api.review.submit(submitData)
       setEvaluationResult(result.evaluation ?? null)
+      setEvaluationError(result.evaluationError ?? null)
+      setEvaluatedEventId(result.eventId)
+      if (result.evaluation === undefined) {
+        setIsEvaluating(false)
+      }
       // Don't advance automatically - wait for user to review feedback
     } catch (error) {
       console.error('Failed to submit open response:', error)
@@ -159,7 +229,54 @@ function ReviewPage(): React.JSX.Element {
   }, [api, currentCard, responseStartTime])
 
   /**
-   * Handle continuing to next card after viewing evaluation
+   * Replace (or restore) the evaluated rating of the last open response
+   */
+  const handleOverride = useCallback(async (rating: Rating | null): Promise<void> => {
+    if (evaluatedEventId === null) return
+
+    try {
+      const result = await api.evaluation.override({ eventId: evaluatedEventId, rating })
+      setOverrideRating(result.response.humanRating)
+    } catch (error) {
+      console.error('Failed to override evaluation:', error)
+    }
+  }, [api, evaluatedEventId])
+
+  /**
+   * Handle choice question submission; the main process grades the selection
+   */
+  const handleChoiceSubmit = useCallback(async (selectedAnswerIndices: number[]): Promise<void> => {
+    if (!currentCard) return
+
+    const timeMs = responseStartTime > 0 ? Date.now() - responseStartTime : 0
+    setIsEvaluating(true)
+
+    const submitData: ReviewSubmitDTO = {
+      variantId: currentCard.variant.id,
+      conceptId: currentCard.concept.id,
+      dimension: currentCard.variant.dimension,
+      rating: 'good', // Placeholder - will be overridden by grading
+      timeMs,
+      selectedAnswerIndices,
+    }
+
+    try {
+      const result = await api.review.submit(submitData)
+      setChoiceResult({
+        wasCorrect: result.wasCorrect ?? false,
+        correctAnswers: result.correctAnswers ?? [],
+        partialScore: result.partialScore ?? 0,
+        explanation: result.explanation,
+      })
+      // Don't advance automatically - wait for user to review the result
+    } catch (error) {
+      console.error('Failed to submit choice answer:', error)
+      setIsEvaluating(false)
+    }
+  }, [api, currentCard, responseStartTime])
+
+  /**
+   * Handle continuing to next card after viewing evaluation or grading
    */
   const handleContinueAfterEvaluation = useCallback(async (): Promise<void> => {
     try {
@@ -167,13 +284,58 @@ function ReviewPage(): React.JSX.Element {
       setReviewedCount((prev) => prev + 1)
       setCurrentCard(nextCard)
       setEvaluationResult(null)
+      setEvaluationError(null)
+      setEvaluatedEventId(null)
+      setOverrideRating(null)
+      setChoiceResult(null)
       setIsEvaluating(false)
       setResponseStartTime(Date.now())
+      if (!nextCard) {
+        setDueCount(await api.review.getDueCount())
+      }
     } catch (error) {
       console.error('Failed to get next card:', error)
     }
   }, [api])
 
+  /**
+   * Start another session after reaching the cards-per-session limit
+   */
+  const handleStartNewSession = useCallback(async (): Promise<void> => {
+    try {
+      const count = await api.review.startSession()
+      const card = await api.review.getNextCard()
+      setDueCount(count)
+      setReviewedCount(0)
+      setCurrentCard(card)
+      setShowAnswer(false)
+      setAnswerShownAt(0)
+      setClozeResponses([])
+      setTypedResponse('')
+      if (!isSelfRatedCard(card)) {
+        setResponseStartTime(Date.now())
+      }
+    } catch (error) {
+      console.error('Failed to start a new session:', error)
+    }
+  }, [api])
+
+  // Fuzzy-matched score and suggested rating for a typed flashcard answer
+  const isTypedFlashcard =
+    answerMode === 'typed' &&
+    currentCard !== null &&
+    isSelfRatedCard(currentCard) &&
+    currentCard.variant.clozeIndex === undefined
+  const typedScore =
+    isTypedFlashcard && showAnswer
+      ? scoreTypedAnswer(currentCard.variant.back, typedResponse).score
+      : 0
+  const suggestedRatingValue =
+    isTypedFlashcard && showAnswer
+      ? (getRatingOptions().find((option) => option.rating === suggestRating(typedScore))
+          ?.value ?? null)
+      : null
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent): void => {
@@ -182,32 +344,40 @@ function ReviewPage(): React.JSX.Element {
         return
       }
 
-      // Handle open response continuation with Space
-      if (event.code === 'Space' && evaluationResult && currentCard) {
+      // Handle open response and choice continuation with Space
+      const hasOutcome = evaluationResult !== null || evaluationError !== null || choiceResult !== null
+      if (event.code === 'Space' && hasOutcome && currentCard) {
         event.preventDefault()
         void handleContinueAfterEvaluation()
         return
       }
 
       // Handle regular flashcard flow
-      if (event.code === 'Space' && !showAnswer && currentCard && currentCard.variant.questionType !== 'open_response') {
+      if (event.code === 'Space' && !showAnswer && currentCard && isSelfRatedCard(currentCard)) {
         event.preventDefault()
         handleShowAnswer()
-      } else if (showAnswer && currentCard && currentCard.variant.questionType !== 'open_response') {
+      } else if (showAnswer && currentCard && isSelfRatedCard(currentCard)) {
         const key = event.key
         if (key >= '1' && key <= '4') {
           event.preventDefault()
           void handleRating(parseInt(key, 10))
+        } else if (key === 'Enter' && suggestedRatingValue !== null) {
+          // Enter accepts the suggested rating for a typed answer
+          event.preventDefault()
+          void handleRating(suggestedRatingValue)
         }
       }
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [showAnswer, currentCard, handleShowAnswer, handleRating, evaluationResult, handleContinueAfterEvaluation])
+  }, [showAnswer, currentCard, handleShowAnswer, handleRating, evaluationResult, evaluationError, choiceResult, handleContinueAfterEvaluation, suggestedRatingValue])
 
   const hasCards = currentCard !== null
-  const totalCards = dueCount?.total ?? 0
+  // A session covers the due cards up to the cards-per-session limit
+  const totalCards = Math.min(dueCount?.total ?? 0, dueCount?.sessionRemaining ?? 0)
+  const isSessionComplete =
+    dueCount !== null && dueCount.sessionRemaining === 0 && dueCount.total > 0
 
   // Show loading state while fetching initial data - announced via aria-live
   if (isLoading) {
@@ -227,6 +397,37 @@ function ReviewPage(): React.JSX.Element {
     )
   }
 
+  // Session limit reached while cards are still due
+  if (!hasCards && isSessionComplete) {
+    return (
+      <div className={styles.reviewPage}>
+        <div className={styles.emptyState}>
+          <div className={styles.emptyIcon}>&#10003;</div>
+          <h2>Session Complete</h2>
+          <p>You reached your cards-per-session limit.</p>
+          <p className={styles.emptyHint}>
+            {dueCount.reviewRemaining} cards to review and {dueCount.newRemaining} new
+            cards are still available today.
+          </p>
+          <div className={styles.emptyActions}>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={() => {
+                void handleStartNewSession()
+              }}
+            >
+              Start Another Session
+            </button>
+            <Link to="/" className="btn-secondary">
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   // Show empty state when no cards are due
   if (!hasCards) {
     return (
@@ -251,6 +452,15 @@ function ReviewPage(): React.JSX.Element {
     )
   }
 
+  // Typed-answer results for cloze cards once revealed
+  const clozeIndex = currentCard.variant.clozeIndex
+  const clozeCard =
+    clozeIndex !== undefined ? renderClozeCard(currentCard.variant.front, clozeIndex) : null
+  const clozeCorrectCount =
+    clozeCard && showAnswer
+      ? checkClozeAnswers(clozeCard.answers, clozeResponses).filter(Boolean).length
+      : 0
+
   // Calculate progress based on reviewed count
   const remainingCards = totalCards - reviewedCount
   const progressPercent = totalCards > 0 ? (reviewedCount / totalCards) * 100 : 0
@@ -283,9 +493,8 @@ function ReviewPage(): React.JSX.Element {
               {currentCard?.concept?.name ?? 'Unknown Concept'}
             </span>
             <span className={styles.typeBadge}>
-              {currentCard?.variant?.questionType === 'open_response'
-                ? 'Open Response'
-                : currentCard?.variant?.dimension ?? 'Unknown'}
+              {QUESTION_TYPE_LABELS[currentCard.variant.questionType] ??
+                currentCard.variant.dimension}
             </span>
           </div>
 
@@ -297,23 +506,67 @@ function ReviewPage(): React.JSX.Element {
                 maxLength={currentCard.variant.maxLength}
                 onSubmit={handleOpenResponseSubmit}
                 evaluation={evaluationResult || undefined}
-                modelAnswer={evaluationResult ? currentCard.variant.back : undefined}
+                evaluationError={evaluationError ?? undefined}
+                modelAnswer={evaluationResult || evaluationError ? currentCard.variant.back : undefined}
                 isEvaluating={isEvaluating}
-                onContinue={evaluationResult ? (() => { void handleContinueAfterEvaluation() }) : undefined}
+                onContinue={evaluationResult || evaluationError
+                  ? (() => { void handleContinueAfterEvaluation() })
+                  : undefined}
+                overrideRating={overrideRating}
+                onOverride={evaluatedEventId !== null ? handleOverride : undefined}
+              />
+            ) : isChoiceCard(currentCard) ? (
+              <ChoiceCard
+                key={currentCard.variant.id}
+                question={currentCard.variant.front}
+                questionType={currentCard.variant.questionType}
+                options={currentCard.variant.options ?? []}
+                onSubmit={handleChoiceSubmit}
+                result={choiceResult ?? undefined}
+                isSubmitting={isEvaluating}
+                onContinue={choiceResult !== null ? (() => { void handleContinueAfterEvaluation() }) : undefined}
               />
             ) : (
               /* Standard Flashcard */
               <>
                 <div className={styles.questionSection}>
                   <h3 className={styles.sectionLabel}>Question</h3>
-                  <p className={styles.questionText}>
-                    {currentCard?.variant?.front ?? 'No question available'}
-                  </p>
+                  {clozeIndex !== undefined ? (
+                    <ClozeCard
+                      key={currentCard.variant.id}
+                      text={currentCard.variant.front}
+                      clozeIndex={clozeIndex}
+                      responses={clozeResponses}
+                      onResponsesChange={setClozeResponses}
+                      onCheck={handleShowAnswer}
+                      revealed={showAnswer}
+                    />
+                  ) : (
+                    <p className={styles.questionText}>
+                      {currentCard?.variant?.front ?? 'No question available'}
+                    </p>
+                  )}
+                  {isTypedFlashcard && (
+                    <TypedAnswerCard
+                      key={currentCard.variant.id}
+                      expected={currentCard.variant.back}
+                      response={typedResponse}
+                      onResponseChange={setTypedResponse}
+                      onCheck={handleShowAnswer}
+                      revealed={showAnswer}
+                      score={typedScore}
+                    />
+                  )}
                 </div>
 
                 {showAnswer && (
                     <div className={styles.answerSection}>
                       <h3 className={styles.sectionLabel}>Answer</h3>
+                      {clozeCard && (
+                        <p className={styles.answerText} role="status">
+                          {clozeCorrectCount} of {clozeCard.answers.length} blanks correct
+                        </p>
+                      )}
                       <p className={styles.answerText}>
                         {currentCard?.variant?.back ?? 'No answer available'}
                       </p>
@@ -324,8 +577,8 @@ function ReviewPage(): React.JSX.Element {
           </div>
         </div>
 
-        {/* Actions - only for non-open-response cards */}
-        {currentCard?.variant?.questionType !== 'open_response' && (
+        {/* Actions - only for self-rated cards */}
+        {isSelfRatedCard(currentCard) && (
           <div className={styles.actions}>
             {!showAnswer ? (
               <button
@@ -333,22 +586,30 @@ function ReviewPage(): React.JSX.Element {
                 className={`btn-primary ${styles.showAnswerButton}`}
                 onClick={handleShowAnswer}
               >
-                Show Answer
+                {clozeCard || isTypedFlashcard ? 'Check Answer' : 'Show Answer'}
                 <span className={styles.keyboardHint}>
                   (Press <kbd>Space</kbd>)
                 </span>
               </button>
             ) : (
               <div className={styles.ratingButtons}>
-                <p className={styles.ratingPrompt}>How well did you remember?</p>
+                <p className={styles.ratingPrompt}>
+                  {suggestedRatingValue !== null
+                    ? 'Suggested rating highlighted. Press Enter to accept it.'
+                    : 'How well did you remember?'}
+                </p>
                 <div className={styles.ratingGrid}>
                   {getRatingOptions().map((option) => (
                     <button
                       key={option.value}
                       type="button"
-                      className={`${styles.ratingButton} ${option.className}`}
+                      className={`${styles.ratingButton} ${option.className} ${
+                        option.value === suggestedRatingValue ? styles.ratingSuggested : ''
+                      }`}
                       onClick={() => void handleRating(option.value)}
-                      aria-label={`${option.label}: ${option.description}. Press ${option.value} key`}
+                      aria-label={`${option.label}: ${option.description}. Press ${option.value} key${
+                        option.value === suggestedRatingValue ? ' (suggested)' : ''
+                      }`}
                     >
                       <span className={styles.ratingLabel}>{option.label}</span>
                       <span className={styles.ratingDescription}>{option.description}</span>
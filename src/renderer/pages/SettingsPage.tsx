@@ -1,8 +1,13 @@
 /**
  * @fileoverview Settings page for application configuration with persistence
- * @lastmodified 2026-01-17T01:30:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: LLM API configuration, review settings, theme toggle with persistence, toast notifications
+ * Features: LLM API configuration with not-configured notice and monthly budget,
+ *   review settings, mastery scoring with recompute,
+ *   event log replay with dry-run preview, open response re-scoring against another model,
+ *   scheduler optimization report, JSON/YAML export and validated import of all study data,
+ *   automatic backup settings with backup now and restore of a listed backup,
+ *   theme toggle with persistence, toast notifications
  * Main APIs: React hooks, useTheme context, IPC settings API, useToast hook
  * Constraints: Settings are persisted via Electron IPC or localStorage in browser mode
  * Patterns: Form-based configuration with section grouping, Lucide React icons, toast feedback
@@ -16,7 +21,24 @@ import { useToast } from '../components/Toast'
 import { useTheme, type Theme } from '../contexts/ThemeContext'
 import { isElectronAPIAvailable, getElectronAPI } from '../hooks/useElectronAPI'
 
-import type { SettingsDTO, LLMConfigDTO } from '../../shared/types/ipc'
+import type {
+  FlashcardAnswerMode,
+  SettingsDTO,
+  LLMConfigDTO,
+  LLMStatusDTO,
+  SchedulerAlgorithm,
+  ScheduleOptimizationReportDTO,
+  ReplayReportDTO,
+  EvaluationReplayItemDTO,
+  EvaluationReplayReportDTO,
+  DataCountsDTO,
+  DataExportFormat,
+  DataImportReportDTO,
+  DataImportStrategy,
+  BackupInfoDTO,
+  BackupKind,
+  BackupListDTO,
+} from '../../shared/types/ipc'
 import type { LucideIcon } from 'lucide-react'
 
 // -----------------------------------------------------------------------------
@@ -36,8 +58,18 @@ interface SettingsFormState {
   apiKey: string
   modelName: string
   apiBaseUrl: string
+  /** Monthly LLM budget in USD as typed; blank for no budget */
+  monthlyBudget: string
   cardsPerSession: number
   newCardsPerDay: number
+  flashcardAnswerMode: FlashcardAnswerMode
+  scheduler: SchedulerAlgorithm
+  ewmaAlpha: number
+  /** Target response time per difficulty level (ms) */
+  targetTimes: Record<number, number>
+  backupEnabled: boolean
+  backupIntervalHours: number
+  backupRetainCount: number
 }
 
 /**
@@ -45,6 +77,64 @@ interface SettingsFormState {
  */
 type ConnectionStatus = 'idle' | 'testing' | 'success' | 'error'
 
+/**
+ * Scheduler optimization status
+ */
+type OptimizationStatus = 'idle' | 'analyzing' | 'applying'
+
+/**
+ * Event log replay status
+ */
+type ReplayStatus = 'idle' | 'previewing' | 'applying'
+
+/** Open responses re-scored by default */
+const DEFAULT_EVALUATION_REPLAY_LIMIT = 50
+
+/** Replayed responses listed in the comparison table */
+const EVALUATION_REPLAY_ROWS = 10
+
+/** Choices for the time between automatic backups (hours) */
+const BACKUP_INTERVAL_OPTIONS = [
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 12, label: 'Every 12 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 168, label: 'Weekly' },
+] as const
+
+/** Labels for why a backup was made */
+const BACKUP_KIND_LABELS: Record<BackupKind, string> = {
+  automatic: 'Automatic',
+  manual: 'Manual',
+  'pre-restore': 'Before restore',
+}
+
+/** Difficulty levels with configurable target times */
+const DIFFICULTY_LEVELS = [1, 2, 3, 4, 5] as const
+
+/** Default target response times by difficulty level (ms) */
+const DEFAULT_TARGET_TIMES: Record<number, number> = {
+  1: 5000,
+  2: 10000,
+  3: 20000,
+  4: 40000,
+  5: 60000,
+}
+
+/**
+ * Formats a stored monthly budget for the budget field
+ */
+function formatBudget(budget: number | null | undefined): string {
+  return budget !== null && budget !== undefined ? String(budget) : ''
+}
+
+/**
+ * Reads the budget field; blank or invalid input means no budget
+ */
+function parseBudget(value: string): number | null {
+  const budget = parseFloat(value)
+  return Number.isFinite(budget) && budget >= 0 ? budget : null
+}
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
@@ -63,8 +153,16 @@ function SettingsPage(): React.JSX.Element {
     apiKey: '',
     modelName: 'gpt-4o-mini',
     apiBaseUrl: '',
+    monthlyBudget: '',
     cardsPerSession: 25,
     newCardsPerDay: 10,
+    flashcardAnswerMode: 'reveal',
+    scheduler: 'sm2',
+    ewmaAlpha: 0.15,
+    targetTimes: DEFAULT_TARGET_TIMES,
+    backupEnabled: true,
+    backupIntervalHours: 24,
+    backupRetainCount: 7,
   })
 
   // UI state
@@ -73,6 +171,31 @@ function SettingsPage(): React.JSX.Element {
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('idle')
   const [connectionMessage, setConnectionMessage] = useState<string | null>(null)
   const [showApiKey, setShowApiKey] = useState(false)
+  const [llmStatus, setLLMStatus] = useState<LLMStatusDTO | null>(null)
+  const [optimizationStatus, setOptimizationStatus] = useState<OptimizationStatus>('idle')
+  const [optimizationReport, setOptimizationReport] =
+    useState<ScheduleOptimizationReportDTO | null>(null)
+  const [isRecomputing, setIsRecomputing] = useState(false)
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus>('idle')
+  const [replayReport, setReplayReport] = useState<ReplayReportDTO | null>(null)
+  const [evaluationReplayModel, setEvaluationReplayModel] = useState('')
+  const [evaluationReplayLimit, setEvaluationReplayLimit] = useState(
+    DEFAULT_EVALUATION_REPLAY_LIMIT
+  )
+  const [isReplayingEvaluations, setIsReplayingEvaluations] = useState(false)
+  const [evaluationReplayReport, setEvaluationReplayReport] =
+    useState<EvaluationReplayReportDTO | null>(null)
+  const [exportFormat, setExportFormat] = useState<DataExportFormat>('yaml')
+  const [exportIncludesEvents, setExportIncludesEvents] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+  const [importContent, setImportContent] = useState<string | null>(null)
+  const [importStrategy, setImportStrategy] = useState<DataImportStrategy>('merge')
+  const [dataImportReport, setDataImportReport] = useState<DataImportReportDTO | null>(null)
+  const [isImportingData, setIsImportingData] = useState(false)
+  const [backupList, setBackupList] = useState<BackupListDTO | null>(null)
+  const [isBackingUp, setIsBackingUp] = useState(false)
+  const [pendingRestore, setPendingRestore] = useState<BackupInfoDTO | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
 
   // Load settings on mount
   useEffect(() => {
@@ -86,9 +209,19 @@ function SettingsPage(): React.JSX.Element {
             apiKey: savedSettings.llm.apiKey,
             modelName: savedSettings.llm.model,
             apiBaseUrl: savedSettings.llm.baseUrl ?? '',
+            monthlyBudget: formatBudget(savedSettings.llm.monthlyBudgetUsd),
             cardsPerSession: savedSettings.cardsPerSession,
             newCardsPerDay: savedSettings.newCardsPerDay,
+            flashcardAnswerMode: savedSettings.flashcardAnswerMode,
+            scheduler: savedSettings.scheduler,
+            ewmaAlpha: savedSettings.ewmaAlpha,
+            targetTimes: { ...DEFAULT_TARGET_TIMES, ...savedSettings.targetTimes },
+            backupEnabled: savedSettings.backup.enabled,
+            backupIntervalHours: savedSettings.backup.intervalHours,
+            backupRetainCount: savedSettings.backup.retainCount,
           })
+          setLLMStatus(await api.settings.getLLMStatus())
+          setBackupList(await api.backup.list())
         } else {
           // Browser fallback - load from localStorage
           const stored = localStorage.getItem('app-settings')
@@ -100,8 +233,16 @@ function SettingsPage(): React.JSX.Element {
               apiKey: parsed.llm?.apiKey ?? prev.apiKey,
               modelName: parsed.llm?.model ?? prev.modelName,
               apiBaseUrl: parsed.llm?.baseUrl ?? prev.apiBaseUrl,
+              monthlyBudget: formatBudget(parsed.llm?.monthlyBudgetUsd),
               cardsPerSession: parsed.cardsPerSession ?? prev.cardsPerSession,
               newCardsPerDay: parsed.newCardsPerDay ?? prev.newCardsPerDay,
+              flashcardAnswerMode: parsed.flashcardAnswerMode ?? prev.flashcardAnswerMode,
+              scheduler: parsed.scheduler ?? prev.scheduler,
+              ewmaAlpha: parsed.ewmaAlpha ?? prev.ewmaAlpha,
+              targetTimes: { ...prev.targetTimes, ...parsed.targetTimes },
+              backupEnabled: parsed.backup?.enabled ?? prev.backupEnabled,
+              backupIntervalHours: parsed.backup?.intervalHours ?? prev.backupIntervalHours,
+              backupRetainCount: parsed.backup?.retainCount ?? prev.backupRetainCount,
             }))
           }
         }
@@ -145,6 +286,7 @@ function SettingsPage(): React.JSX.Element {
         provider: settings.llmProvider,
         apiKey: settings.apiKey,
         model: settings.modelName,
+        monthlyBudgetUsd: parseBudget(settings.monthlyBudget),
       }
       // Only add baseUrl if it has a value
       if (settings.apiBaseUrl) {
@@ -155,12 +297,22 @@ function SettingsPage(): React.JSX.Element {
         llm: llmConfig,
         cardsPerSession: settings.cardsPerSession,
         newCardsPerDay: settings.newCardsPerDay,
+        flashcardAnswerMode: settings.flashcardAnswerMode,
+        scheduler: settings.scheduler,
+        ewmaAlpha: settings.ewmaAlpha,
+        targetTimes: settings.targetTimes,
+        backup: {
+          enabled: settings.backupEnabled,
+          intervalHours: settings.backupIntervalHours,
+          retainCount: settings.backupRetainCount,
+        },
         theme,
       }
 
       if (isElectronAPIAvailable()) {
         const api = getElectronAPI()
         await api.settings.set(settingsToSave)
+        setLLMStatus(await api.settings.getLLMStatus())
       } else {
         // Browser fallback - save to localStorage
         localStorage.setItem('app-settings', JSON.stringify(settingsToSave))
@@ -219,6 +371,211 @@ function SettingsPage(): React.JSX.Element {
     }
   }, [settings])
 
+  // Fit scheduler parameters to review history (apply = save if improved)
+  const handleOptimize = useCallback(
+    async (apply: boolean): Promise<void> => {
+      setOptimizationStatus(apply ? 'applying' : 'analyzing')
+
+      try {
+        const api = getElectronAPI()
+        const report = await api.schedule.optimize({ apply })
+        setOptimizationReport(report)
+
+        if (report.applied) {
+          showToast('Fitted scheduler parameters applied', 'success')
+        } else if (!report.improved) {
+          showToast('Current parameters already fit your history best', 'info')
+        }
+      } catch (error) {
+        console.error('Scheduler optimization failed:', error)
+        showToast(
+          error instanceof Error ? error.message : 'Scheduler optimization failed',
+          'error'
+        )
+      } finally {
+        setOptimizationStatus('idle')
+      }
+    },
+    [showToast]
+  )
+
+  // Save scoring settings, then rebuild stored mastery from the review history
+  const handleRecompute = useCallback(async (): Promise<void> => {
+    setIsRecomputing(true)
+
+    try {
+      const api = getElectronAPI()
+      await api.settings.set({
+        ewmaAlpha: settings.ewmaAlpha,
+        targetTimes: settings.targetTimes,
+      })
+      await api.mastery.recompute()
+      showToast('Mastery recomputed from your review history', 'success')
+    } catch (error) {
+      console.error('Mastery recompute failed:', error)
+      showToast(
+        error instanceof Error ? error.message : 'Mastery recompute failed',
+        'error'
+      )
+    } finally {
+      setIsRecomputing(false)
+    }
+  }, [settings.ewmaAlpha, settings.targetTimes, showToast])
+
+  // Replay the event log (dryRun = preview the differences only)
+  const handleReplay = useCallback(
+    async (dryRun: boolean): Promise<void> => {
+      setReplayStatus(dryRun ? 'previewing' : 'applying')
+
+      try {
+        const api = getElectronAPI()
+        const report = await api.replay.run({ dryRun })
+        setReplayReport(report)
+
+        if (report.applied) {
+          showToast('Mastery and schedules rebuilt from your review history', 'success')
+        } else if (countReplayChanges(report) === 0) {
+          showToast('Stored mastery and schedules already match your history', 'info')
+        }
+      } catch (error) {
+        console.error('Event log replay failed:', error)
+        showToast(error instanceof Error ? error.message : 'Event log replay failed', 'error')
+      } finally {
+        setReplayStatus('idle')
+      }
+    },
+    [showToast]
+  )
+
+  // Re-score stored open responses, optionally with another model
+  const handleEvaluationReplay = useCallback(async (): Promise<void> => {
+    setIsReplayingEvaluations(true)
+
+    try {
+      const api = getElectronAPI()
+      const model = evaluationReplayModel.trim()
+      const report = await api.evaluation.replay({
+        limit: evaluationReplayLimit,
+        ...(model !== '' && { model }),
+      })
+      setEvaluationReplayReport(report)
+
+      if (report.error) {
+        showToast(report.error.message, 'error')
+      } else if (report.items.length === 0) {
+        showToast('No open responses have been recorded yet', 'info')
+      }
+    } catch (error) {
+      console.error('Evaluation replay failed:', error)
+      showToast(error instanceof Error ? error.message : 'Evaluation replay failed', 'error')
+    } finally {
+      setIsReplayingEvaluations(false)
+    }
+  }, [evaluationReplayModel, evaluationReplayLimit, showToast])
+
+  // Export all study data and save it through the browser download
+  const handleExport = useCallback(async (): Promise<void> => {
+    setIsExporting(true)
+
+    try {
+      const api = getElectronAPI()
+      const result = await api.data.export({
+        format: exportFormat,
+        includeEvents: exportIncludesEvents,
+      })
+      const type = exportFormat === 'json' ? 'application/json' : 'application/yaml'
+      const url = URL.createObjectURL(new Blob([result.content], { type }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = result.fileName
+      link.click()
+      URL.revokeObjectURL(url)
+      showToast(`Exported ${formatDataCounts(result.counts)}`, 'success')
+    } catch (error) {
+      console.error('Data export failed:', error)
+      showToast(error instanceof Error ? error.message : 'Data export failed', 'error')
+    } finally {
+      setIsExporting(false)
+    }
+  }, [exportFormat, exportIncludesEvents, showToast])
+
+  // Check a data document (dryRun) or import it with the chosen strategy
+  const handleDataImport = useCallback(
+    async (content: string, dryRun: boolean): Promise<void> => {
+      setIsImportingData(true)
+
+      try {
+        const api = getElectronAPI()
+        const report = await api.data.import({ content, strategy: importStrategy, dryRun })
+        setDataImportReport(report)
+
+        if (report.written) {
+          showToast(`Imported ${formatDataCounts(report.written)}`, 'success')
+        }
+      } catch (error) {
+        console.error('Data import failed:', error)
+        setDataImportReport(null)
+        showToast(error instanceof Error ? error.message : 'Data import failed', 'error')
+      } finally {
+        setIsImportingData(false)
+      }
+    },
+    [importStrategy, showToast]
+  )
+
+  // Read the chosen data file and check it
+  const handleDataFileChange = useCallback(
+    async (file: File | undefined): Promise<void> => {
+      setDataImportReport(null)
+      if (!file) {
+        setImportContent(null)
+        return
+      }
+      const content = await file.text()
+      setImportContent(content)
+      await handleDataImport(content, true)
+    },
+    [handleDataImport]
+  )
+
+  // Back up the database now
+  const handleBackupNow = useCallback(async (): Promise<void> => {
+    setIsBackingUp(true)
+
+    try {
+      const api = getElectronAPI()
+      const backup = await api.backup.create()
+      setBackupList(await api.backup.list())
+      showToast(`Backed up to ${backup.fileName}`, 'success')
+    } catch (error) {
+      console.error('Backup failed:', error)
+      showToast(error instanceof Error ? error.message : 'Backup failed', 'error')
+    } finally {
+      setIsBackingUp(false)
+    }
+  }, [showToast])
+
+  // Replace the database with the confirmed backup
+  const handleRestore = useCallback(
+    async (backup: BackupInfoDTO): Promise<void> => {
+      setIsRestoring(true)
+
+      try {
+        const api = getElectronAPI()
+        const report = await api.backup.restore(backup.fileName)
+        setBackupList(await api.backup.list())
+        showToast(`Restored ${formatDataCounts(report.counts)}`, 'success')
+      } catch (error) {
+        console.error('Restore failed:', error)
+        showToast(error instanceof Error ? error.message : 'Restore failed', 'error')
+      } finally {
+        setPendingRestore(null)
+        setIsRestoring(false)
+      }
+    },
+    [showToast]
+  )
+
   // Show loading state
   if (isLoading) {
     return (
@@ -246,6 +603,16 @@ function SettingsPage(): React.JSX.Element {
             Configure your AI provider for generating and adapting questions.
           </p>
 
+          {llmStatus !== null && !llmStatus.configured && (
+            <div className={styles.connectionHelp} role="status">
+              <Info size={16} className={styles.connectionHelpIcon} />
+              <span>
+                AI generation and evaluation are unavailable.{' '}
+                {llmStatus.error?.message ?? 'Complete the LLM configuration below.'}
+              </span>
+            </div>
+          )}
+
           <div className={styles.fieldGroup}>
             <label className={styles.label} htmlFor="llmProvider">
               Provider
@@ -330,15 +697,36 @@ function SettingsPage(): React.JSX.Element {
                 type="url"
                 value={settings.apiBaseUrl}
                 onChange={(e) => handleChange('apiBaseUrl', e.target.value)}
-                placeholder="http://localhost:11434"
+                placeholder="http://localhost:11434/v1"
                 className={styles.input}
               />
               <span className={styles.fieldHint}>
-                The base URL for your local Ollama server.
+                The OpenAI-compatible endpoint of your local server (Ollama, llama.cpp).
+                /v1 is added when missing.
               </span>
             </div>
           )}
 
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="monthlyBudget">
+              Monthly Budget (USD)
+            </label>
+            <input
+              id="monthlyBudget"
+              type="number"
+              min="0"
+              step="0.5"
+              value={settings.monthlyBudget}
+              onChange={(e) => handleChange('monthlyBudget', e.target.value)}
+              placeholder="No limit"
+              className={styles.input}
+            />
+            <span className={styles.fieldHint}>
+              Generation and evaluation stop once this month&apos;s estimated spend reaches
+              the budget. Leave blank for no limit; local models are free.
+            </span>
+          </div>
+
           <div className={styles.connectionSection}>
             {!isElectronAPIAvailable() && (
               <div className={styles.connectionHelp}>
@@ -433,6 +821,660 @@ function SettingsPage(): React.JSX.Element {
               Maximum new cards introduced each day (1-50)
             </span>
           </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="flashcardAnswerMode">
+              Flashcard Answers
+            </label>
+            <select
+              id="flashcardAnswerMode"
+              value={settings.flashcardAnswerMode}
+              onChange={(e) =>
+                handleChange('flashcardAnswerMode', e.target.value as FlashcardAnswerMode)
+              }
+              className={styles.select}
+            >
+              <option value="reveal">Reveal and self-rate</option>
+              <option value="typed">Type the answer</option>
+            </select>
+            <span className={styles.fieldHint}>
+              Typed answers are compared to the expected answer and a rating is suggested.
+            </span>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="scheduler">
+              Scheduling Algorithm
+            </label>
+            <select
+              id="scheduler"
+              value={settings.scheduler}
+              onChange={(e) => handleChange('scheduler', e.target.value as SchedulerAlgorithm)}
+              className={styles.select}
+            >
+              <option value="sm2">SM-2 (classic)</option>
+              <option value="fsrs">FSRS (memory model)</option>
+            </select>
+            <span className={styles.fieldHint}>
+              Existing schedules are converted when you switch. Due dates are kept.
+            </span>
+          </div>
+        </section>
+
+        {/* Mastery Scoring Section */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Mastery Scoring</h2>
+          <p className={styles.sectionDescription}>
+            Tune how reviews update your mastery scores. Changes apply to new reviews;
+            recompute to re-score your existing history.
+          </p>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="ewmaAlpha">
+              Smoothing Factor (alpha)
+            </label>
+            <input
+              id="ewmaAlpha"
+              type="number"
+              min="0.05"
+              max="1"
+              step="0.05"
+              value={settings.ewmaAlpha}
+              onChange={(e) => handleChange('ewmaAlpha', parseFloat(e.target.value) || 0.15)}
+              className={styles.input}
+            />
+            <span className={styles.fieldHint}>
+              Weight of the latest review (0.05-1). Higher values react faster but are noisier.
+            </span>
+          </div>
+
+          {DIFFICULTY_LEVELS.map((level) => (
+            <div className={styles.fieldGroup} key={level}>
+              <label className={styles.label} htmlFor={`targetTime${level}`}>
+                Target Time, Difficulty {level} (seconds)
+              </label>
+              <input
+                id={`targetTime${level}`}
+                type="number"
+                min="1"
+                max="600"
+                value={(settings.targetTimes[level] ?? DEFAULT_TARGET_TIMES[level] ?? 0) / 1000}
+                onChange={(e) =>
+                  handleChange('targetTimes', {
+                    ...settings.targetTimes,
+                    [level]: (parseFloat(e.target.value) || 1) * 1000,
+                  })
+                }
+                className={styles.input}
+              />
+            </div>
+          ))}
+
+          <div className={styles.optimizeActions}>
+            <button
+              type="button"
+              className={`btn-secondary ${styles.testButton}`}
+              onClick={() => {
+                void handleRecompute()
+              }}
+              disabled={isRecomputing}
+            >
+              {isRecomputing ? (
+                <>
+                  <Loader2 className={styles.buttonSpinner} size={16} />
+                  Recomputing...
+                </>
+              ) : (
+                'Recompute Mastery'
+              )}
+            </button>
+          </div>
+          <span className={styles.fieldHint}>
+            Saves these scoring settings and replays every recorded review to rebuild
+            mastery scores.
+          </span>
+        </section>
+
+        {/* Rebuild from History Section */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Rebuild from History</h2>
+          <p className={styles.sectionDescription}>
+            Replay every recorded review with the current settings to rebuild mastery
+            scores and review schedules. Preview first to see what would change.
+          </p>
+
+          <div className={styles.optimizeActions}>
+            <button
+              type="button"
+              className={`btn-secondary ${styles.testButton}`}
+              onClick={() => {
+                void handleReplay(true)
+              }}
+              disabled={replayStatus !== 'idle'}
+            >
+              {replayStatus === 'previewing' ? (
+                <>
+                  <Loader2 className={styles.buttonSpinner} size={16} />
+                  Previewing...
+                </>
+              ) : (
+                'Preview Changes'
+              )}
+            </button>
+
+            {replayReport?.dryRun === true && countReplayChanges(replayReport) > 0 && (
+              <button
+                type="button"
+                className={`btn-primary ${styles.testButton}`}
+                onClick={() => {
+                  void handleReplay(false)
+                }}
+                disabled={replayStatus !== 'idle'}
+              >
+                {replayStatus === 'applying' ? (
+                  <>
+                    <Loader2 className={styles.buttonSpinner} size={16} />
+                    Rebuilding...
+                  </>
+                ) : (
+                  'Rebuild Now'
+                )}
+              </button>
+            )}
+          </div>
+
+          {replayReport && (
+            <div className={styles.optimizationReport}>
+              {replayReport.masteryChanges.length > 0 && (
+                <table className={styles.reportTable}>
+                  <thead>
+                    <tr>
+                      <th scope="col">Dimension</th>
+                      <th scope="col">Accuracy</th>
+                      <th scope="col">Speed</th>
+                      <th scope="col">Reviews</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {replayReport.masteryChanges.map((change) => (
+                      <tr key={change.dimension}>
+                        <th scope="row">{capitalizeFirst(change.dimension)}</th>
+                        <td>
+                          {change.before.accuracyEwma.toFixed(2)} →{' '}
+                          {change.after.accuracyEwma.toFixed(2)}
+                        </td>
+                        <td>
+                          {change.before.speedEwma.toFixed(2)} → {change.after.speedEwma.toFixed(2)}
+                        </td>
+                        <td>
+                          {change.before.count} → {change.after.count}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <span className={styles.fieldHint}>{getReplaySummary(replayReport)}</span>
+            </div>
+          )}
+        </section>
+
+        {/* Evaluation Replay Section */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Evaluation Replay</h2>
+          <p className={styles.sectionDescription}>
+            Re-score your recent open responses with another model or after a prompt change
+            and compare with the scores they were given. Stored scores are not changed;
+            repeated evaluations come from the cache.
+          </p>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="evaluationReplayModel">
+              Model
+            </label>
+            <input
+              id="evaluationReplayModel"
+              type="text"
+              value={evaluationReplayModel}
+              onChange={(e) => setEvaluationReplayModel(e.target.value)}
+              placeholder={settings.modelName || getModelPlaceholder(settings.llmProvider)}
+              className={styles.input}
+            />
+            <span className={styles.fieldHint}>
+              A model of the configured provider. Leave blank to use the configured model.
+            </span>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="evaluationReplayLimit">
+              Responses
+            </label>
+            <input
+              id="evaluationReplayLimit"
+              type="number"
+              min="1"
+              max="500"
+              value={evaluationReplayLimit}
+              onChange={(e) =>
+                setEvaluationReplayLimit(
+                  parseInt(e.target.value, 10) || DEFAULT_EVALUATION_REPLAY_LIMIT
+                )
+              }
+              className={styles.input}
+            />
+            <span className={styles.fieldHint}>Most recent open responses to re-score</span>
+          </div>
+
+          <div className={styles.optimizeActions}>
+            <button
+              type="button"
+              className={`btn-secondary ${styles.testButton}`}
+              onClick={() => {
+                void handleEvaluationReplay()
+              }}
+              disabled={isReplayingEvaluations}
+            >
+              {isReplayingEvaluations ? (
+                <>
+                  <Loader2 className={styles.buttonSpinner} size={16} />
+                  Re-scoring...
+                </>
+              ) : (
+                'Re-score Responses'
+              )}
+            </button>
+          </div>
+
+          {evaluationReplayReport && evaluationReplayReport.items.length > 0 && (
+            <div className={styles.optimizationReport}>
+              <table className={styles.reportTable}>
+                <caption className={styles.fieldHint}>Largest differences</caption>
+                <thead>
+                  <tr>
+                    <th scope="col">Concept</th>
+                    <th scope="col">Stored</th>
+                    <th scope="col">Replayed</th>
+                    <th scope="col">Rating</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {getLargestDifferences(evaluationReplayReport.items).map((item) => (
+                    <tr key={item.eventId} title={item.userResponse}>
+                      <th scope="row">{item.conceptName}</th>
+                      <td>{item.storedScore?.toFixed(2) ?? '—'}</td>
+                      <td>{item.score?.toFixed(2) ?? item.error ?? 'Failed'}</td>
+                      <td>
+                        {capitalizeFirst(item.storedRating)} →{' '}
+                        {item.rating !== null ? capitalizeFirst(item.rating) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <span className={styles.fieldHint}>
+                {getEvaluationReplaySummary(evaluationReplayReport)}
+              </span>
+            </div>
+          )}
+        </section>
+
+        {/* Schedule Optimization Section */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Schedule Optimization</h2>
+          <p className={styles.sectionDescription}>
+            Fit the active scheduling algorithm to your own review history so intervals
+            match how well you actually remember.
+          </p>
+
+          <div className={styles.optimizeActions}>
+            <button
+              type="button"
+              className={`btn-secondary ${styles.testButton}`}
+              onClick={() => {
+                void handleOptimize(false)
+              }}
+              disabled={optimizationStatus !== 'idle'}
+            >
+              {optimizationStatus === 'analyzing' ? (
+                <>
+                  <Loader2 className={styles.buttonSpinner} size={16} />
+                  Analyzing...
+                </>
+              ) : (
+                'Analyze Review History'
+              )}
+            </button>
+
+            {optimizationReport?.improved === true && !optimizationReport.applied && (
+              <button
+                type="button"
+                className={`btn-primary ${styles.testButton}`}
+                onClick={() => {
+                  void handleOptimize(true)
+                }}
+                disabled={optimizationStatus !== 'idle'}
+              >
+                {optimizationStatus === 'applying' ? (
+                  <>
+                    <Loader2 className={styles.buttonSpinner} size={16} />
+                    Applying...
+                  </>
+                ) : (
+                  'Apply Fitted Parameters'
+                )}
+              </button>
+            )}
+          </div>
+
+          {optimizationReport && (
+            <div className={styles.optimizationReport}>
+              <table className={styles.reportTable}>
+                <thead>
+                  <tr>
+                    <th scope="col">Prediction error</th>
+                    <th scope="col">Before</th>
+                    <th scope="col">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <th scope="row">Log loss</th>
+                    <td>{optimizationReport.before.logLoss.toFixed(4)}</td>
+                    <td>{optimizationReport.after.logLoss.toFixed(4)}</td>
+                  </tr>
+                  <tr>
+                    <th scope="row">RMSE</th>
+                    <td>{optimizationReport.before.rmse.toFixed(4)}</td>
+                    <td>{optimizationReport.after.rmse.toFixed(4)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <span className={styles.fieldHint}>
+                {getOptimizationSummary(optimizationReport)}
+              </span>
+            </div>
+          )}
+        </section>
+
+        {/* Backups Section */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Backups</h2>
+          <p className={styles.sectionDescription}>
+            Copies of your database are saved while you study. Restore one to go back to
+            that point in time; your current data is backed up first.
+          </p>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={settings.backupEnabled}
+                onChange={(e) => handleChange('backupEnabled', e.target.checked)}
+              />
+              Back up automatically
+            </label>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="backupInterval">
+              Backup Frequency
+            </label>
+            <select
+              id="backupInterval"
+              value={settings.backupIntervalHours}
+              onChange={(e) => handleChange('backupIntervalHours', Number(e.target.value))}
+              className={styles.select}
+              disabled={!settings.backupEnabled}
+            >
+              {BACKUP_INTERVAL_OPTIONS.map((option) => (
+                <option key={option.hours} value={option.hours}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="backupRetainCount">
+              Automatic Backups to Keep
+            </label>
+            <input
+              id="backupRetainCount"
+              type="number"
+              min="1"
+              max="100"
+              value={settings.backupRetainCount}
+              onChange={(e) =>
+                handleChange('backupRetainCount', parseInt(e.target.value, 10) || 7)
+              }
+              className={styles.input}
+            />
+            <span className={styles.fieldHint}>
+              Older automatic backups are deleted (1-100). Manual backups and backups made
+              before a restore are kept.
+              {backupList !== null && backupList.directory !== '' && (
+                <> Backups are saved in {backupList.directory}.</>
+              )}
+            </span>
+          </div>
+
+          <div className={styles.optimizeActions}>
+            <button
+              type="button"
+              className={`btn-secondary ${styles.testButton}`}
+              onClick={() => {
+                void handleBackupNow()
+              }}
+              disabled={isBackingUp || isRestoring || !isElectronAPIAvailable()}
+            >
+              {isBackingUp ? (
+                <>
+                  <Loader2 className={styles.buttonSpinner} size={16} />
+                  Backing up...
+                </>
+              ) : (
+                'Back Up Now'
+              )}
+            </button>
+          </div>
+
+          {backupList !== null && backupList.backups.length > 0 && (
+            <div className={styles.optimizationReport}>
+              <table className={styles.reportTable}>
+                <thead>
+                  <tr>
+                    <th scope="col">Backup</th>
+                    <th scope="col">Kind</th>
+                    <th scope="col">Size</th>
+                    <th scope="col" aria-label="Actions" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {backupList.backups.map((backup) => {
+                    const createdAt = new Date(backup.createdAt).toLocaleString()
+                    return (
+                      <tr key={backup.fileName}>
+                        <th scope="row">{createdAt}</th>
+                        <td>{BACKUP_KIND_LABELS[backup.kind]}</td>
+                        <td>{formatFileSize(backup.sizeBytes)}</td>
+                        <td>
+                          <button
+                            type="button"
+                            className="btn-secondary"
+                            onClick={() => setPendingRestore(backup)}
+                            aria-label={`Restore backup from ${createdAt}`}
+                            disabled={isBackingUp || isRestoring}
+                          >
+                            Restore
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+
+              {pendingRestore && (
+                <>
+                  <span className={styles.fieldHint} role="alert">
+                    Restoring replaces all your data with the backup from{' '}
+                    {new Date(pendingRestore.createdAt).toLocaleString()}. Your current data
+                    is backed up first.
+                  </span>
+                  <div className={styles.optimizeActions}>
+                    <button
+                      type="button"
+                      className={`btn-primary ${styles.testButton}`}
+                      onClick={() => {
+                        void handleRestore(pendingRestore)
+                      }}
+                      disabled={isRestoring}
+                    >
+                      {isRestoring ? (
+                        <>
+                          <Loader2 className={styles.buttonSpinner} size={16} />
+                          Restoring...
+                        </>
+                      ) : (
+                        'Restore Backup'
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      className={`btn-secondary ${styles.testButton}`}
+                      onClick={() => setPendingRestore(null)}
+                      disabled={isRestoring}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </section>
+
+        {/* Data Export and Import Section */}
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Export and Import Data</h2>
+          <p className={styles.sectionDescription}>
+            Save all concepts, variants, schedules and mastery to a file, or load such a file
+            to restore a backup or move your data to another computer.
+          </p>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="exportFormat">
+              Export Format
+            </label>
+            <select
+              id="exportFormat"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as DataExportFormat)}
+              className={styles.select}
+            >
+              <option value="yaml">YAML</option>
+              <option value="json">JSON</option>
+            </select>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={exportIncludesEvents}
+                onChange={(e) => setExportIncludesEvents(e.target.checked)}
+              />
+              Include review history
+            </label>
+          </div>
+
+          <div className={styles.optimizeActions}>
+            <button
+              type="button"
+              className={`btn-secondary ${styles.testButton}`}
+              onClick={() => {
+                void handleExport()
+              }}
+              disabled={isExporting}
+            >
+              {isExporting ? (
+                <>
+                  <Loader2 className={styles.buttonSpinner} size={16} />
+                  Exporting...
+                </>
+              ) : (
+                'Export Data'
+              )}
+            </button>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="dataImportFile">
+              Import File
+            </label>
+            <input
+              id="dataImportFile"
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml"
+              onChange={(e) => {
+                void handleDataFileChange(e.target.files?.[0])
+              }}
+            />
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label} htmlFor="importStrategy">
+              Existing Data
+            </label>
+            <select
+              id="importStrategy"
+              value={importStrategy}
+              onChange={(e) => setImportStrategy(e.target.value as DataImportStrategy)}
+              className={styles.select}
+            >
+              <option value="merge">Merge: keep my data and add what is missing</option>
+              <option value="replace">Replace: delete my data first</option>
+            </select>
+            <span className={styles.fieldHint}>
+              Merged review history rebuilds mastery and schedules from all reviews.
+            </span>
+          </div>
+
+          {dataImportReport && (
+            <div className={styles.optimizationReport}>
+              <span className={styles.fieldHint}>{getDataImportSummary(dataImportReport)}</span>
+              {dataImportReport.dryRun && importStrategy === 'replace' && (
+                <span className={styles.fieldHint} role="alert">
+                  Replacing deletes your {formatDataCounts(dataImportReport.stored)}
+                  {dataImportReport.includesEvents
+                    ? '.'
+                    : '. The file has no review history, so yours will be lost.'}
+                </span>
+              )}
+              {dataImportReport.dryRun && (
+                <div className={styles.optimizeActions}>
+                  <button
+                    type="button"
+                    className={`btn-primary ${styles.testButton}`}
+                    onClick={() => {
+                      if (importContent !== null) {
+                        void handleDataImport(importContent, false)
+                      }
+                    }}
+                    disabled={isImportingData}
+                  >
+                    {isImportingData ? (
+                      <>
+                        <Loader2 className={styles.buttonSpinner} size={16} />
+                        Importing...
+                      </>
+                    ) : importStrategy === 'replace' ? (
+                      'Replace My Data'
+                    ) : (
+                      'Merge Into My Data'
+                    )}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </section>
 
         {/* Appearance Section */}
@@ -520,6 +1562,124 @@ function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1)
 }
 
+/**
+ * Count every row a replay report changes
+ */
+function countReplayChanges(report: ReplayReportDTO): number {
+  return (
+    report.masteryChanges.length +
+    report.conceptMasteryChanges.length +
+    report.scheduleChanges.length
+  )
+}
+
+/**
+ * Describe a replay report in one or two sentences
+ */
+function getReplaySummary(report: ReplayReportDTO): string {
+  const basis = `Replayed ${report.eventCount} reviews.`
+
+  if (countReplayChanges(report) === 0) {
+    return `${basis} Stored mastery and schedules already match.`
+  }
+
+  const counts =
+    `${report.masteryChanges.length} dimension scores, ` +
+    `${report.conceptMasteryChanges.length} concept scores and ` +
+    `${report.scheduleChanges.length} schedules`
+
+  return report.applied ? `${basis} Updated ${counts}.` : `${basis} Would update ${counts}.`
+}
+
+/**
+ * Pick the replayed responses whose score moved most, failures first
+ */
+function getLargestDifferences(items: EvaluationReplayItemDTO[]): EvaluationReplayItemDTO[] {
+  const difference = (item: EvaluationReplayItemDTO): number =>
+    item.score === null ? Infinity : Math.abs(item.score - (item.storedScore ?? item.score))
+
+  return [...items]
+    .sort((a, b) => difference(b) - difference(a))
+    .slice(0, EVALUATION_REPLAY_ROWS)
+}
+
+/**
+ * Describe an evaluation replay report in one or two sentences
+ */
+function getEvaluationReplaySummary(report: EvaluationReplayReportDTO): string {
+  const basis =
+    `Re-scored ${report.items.length} responses with ${report.model} ` +
+    `(prompt ${report.promptVersion}), ${report.cachedCount} from the cache.`
+  const parts = [basis]
+
+  if (report.meanAbsoluteDifference !== null) {
+    parts.push(`Scores differ by ${report.meanAbsoluteDifference.toFixed(2)} on average.`)
+  }
+  if (report.ratingAgreement !== null) {
+    parts.push(`${Math.round(report.ratingAgreement * 100)}% of ratings match.`)
+  }
+  if (report.failedCount > 0) {
+    parts.push(`${report.failedCount} failed.`)
+  }
+  return parts.join(' ')
+}
+
+/**
+ * Describe an optimization report in one sentence
+ */
+function getOptimizationSummary(report: ScheduleOptimizationReportDTO): string {
+  const algorithm = report.algorithm === 'fsrs' ? 'FSRS' : 'SM-2'
+  const basis = `Based on ${report.reviewCount} repeat reviews with ${algorithm}.`
+
+  if (!report.improved) {
+    return `${basis} The current parameters already fit your history best.`
+  }
+  if (report.applied) {
+    return `${basis} Fitted parameters are now used for new reviews.`
+  }
+  return `${basis} Apply the fitted parameters to use them for new reviews.`
+}
+
+/**
+ * Describe the main record counts of study data, e.g. "3 concepts, 12 variants, 40 reviews"
+ */
+function formatDataCounts(counts: DataCountsDTO): string {
+  const plural = (count: number, noun: string): string =>
+    `${count} ${noun}${count !== 1 ? 's' : ''}`
+  return [
+    plural(counts.concepts, 'concept'),
+    plural(counts.variants, 'variant'),
+    plural(counts.events, 'review'),
+  ].join(', ')
+}
+
+/**
+ * Describe a file size, e.g. "1.2 MB"
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Get summary text for a data import check or result
+ */
+function getDataImportSummary(report: DataImportReportDTO): string {
+  if (report.written) {
+    return `Imported ${formatDataCounts(report.written)}.`
+  }
+  const exported = report.exportedAt !== null
+    ? ` exported ${new Date(report.exportedAt).toLocaleString()}`
+    : ''
+  const history = report.includesEvents ? '' : ' It has no review history.'
+  return `The file${exported} holds ${formatDataCounts(report.inFile)}.${history}`
+}
+
 /**
  * Get placeholder text for model input based on provider
  */
@@ -530,7 +1690,7 @@ function getModelPlaceholder(provider: LLMProvider): string {
     case 'anthropic':
       return 'claude-3-haiku-20240307'
     case 'local':
-      return 'llama2'
+      return 'llama3.1'
     default:
       return ''
   }
@@ -91,6 +91,9 @@ export interface Concept {
   /** Supporting facts, examples, or key points about the concept */
   readonly facts: readonly string[];
 
+  /** Note the concept was imported from, used to update it on re-import */
+  readonly sourcePath?: string;
+
   /** When the concept was first created */
   readonly createdAt: Date;
 
@@ -135,11 +138,24 @@ export interface Variant {
 
   /** Maximum character length for open response answers (optional) */
   readonly maxLength?: number;
+
+  /** Answer options for multiple choice, multi-select and true/false questions */
+  readonly options?: readonly string[];
+
+  /** Indices into options of the correct answers (choice questions only) */
+  readonly correctIndices?: readonly number[];
+
+  /**
+   * Cloze deletion index this card blanks (cloze cards only).
+   * Sibling cards share the front text, which holds the full cloze markup.
+   */
+  readonly clozeIndex?: number;
 }
 
 /**
  * A record of a single review interaction.
- * Immutable event capturing the user's response to a variant.
+ * Immutable event capturing the user's response to a variant; only the
+ * verdict on an LLM evaluation can be changed afterwards.
  */
 export interface ReviewEvent {
   /** Unique identifier for the event */
@@ -157,7 +173,10 @@ export interface ReviewEvent {
   /** The difficulty level of the variant */
   readonly difficulty: DifficultyLevel;
 
-  /** The user's self-reported response quality */
+  /**
+   * The rating that drives mastery and scheduling: self-reported, graded,
+   * suggested by the LLM, or the user's override of the LLM's rating
+   */
   readonly result: ReviewResultType;
 
   /** Time taken to respond in milliseconds */
@@ -180,17 +199,56 @@ export interface ReviewEvent {
 
   /** LLM evaluation confidence 0.0 to 1.0 (optional) */
   readonly evaluationConfidence?: number;
+
+  /** Model that evaluated the response (optional) */
+  readonly evaluationModel?: string;
+
+  /** Rating the LLM suggested, kept when the user overrides it (optional) */
+  readonly llmRating?: ReviewResultType;
+
+  /** The user's verdict on the LLM evaluation (optional) */
+  readonly humanRating?: ReviewResultType;
+
+  /** When the user gave their verdict (optional) */
+  readonly overriddenAt?: Date;
+}
+
+/**
+ * Spaced repetition algorithm used to schedule reviews.
+ * - sm2: SuperMemo 2 (interval x ease factor)
+ * - fsrs: Free Spaced Repetition Scheduler (stability/difficulty/retrievability)
+ */
+export type SchedulerAlgorithm = 'sm2' | 'fsrs';
+
+/**
+ * FSRS memory state for a single item.
+ * Only present on schedules managed by the FSRS scheduler.
+ */
+export interface FsrsMemoryState {
+  /** Days until retrievability drops to 90% */
+  readonly stability: number;
+
+  /** Intrinsic item difficulty (1 = easiest, 10 = hardest) */
+  readonly difficulty: number;
+
+  /** When the item was last reviewed (used to compute elapsed time) */
+  readonly lastReviewedAt: Date;
 }
 
 /**
- * Scheduling data for a concept's next review.
- * Implements SM-2 algorithm state.
+ * Scheduling data for a variant's next review.
+ * Holds SM-2 algorithm state, plus FSRS memory state when FSRS is active.
+ * Each variant is scheduled independently so that weak question types of a
+ * concept come back sooner than strong ones.
  */
 export interface ScheduleEntry {
-  /** The concept this schedule applies to */
+  /** The variant this schedule applies to */
+  readonly variantId: VariantId;
+
+  /** The concept the variant belongs to */
   readonly conceptId: ConceptId;
 
-  /** When the concept is next due for review */
+  /** When the variant is next due for review */
   readonly dueAt: Date;
 
   /** Current interval between reviews in days */
@@ -198,6 +256,9 @@ export interface ScheduleEntry {
 
   /** SM-2 ease factor (typically 1.3-2.5) */
   readonly easeFactor: number;
+
+  /** FSRS memory state (absent until the variant is reviewed under FSRS) */
+  readonly fsrs?: FsrsMemoryState;
 }
 
 /**
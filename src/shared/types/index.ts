@@ -29,9 +29,11 @@ export type {
   ConceptWithVariants,
   DifficultyLevel,
   DimensionMastery,
+  FsrsMemoryState,
   MasteryProfile,
   ReviewEvent,
   ReviewResultType,
   ScheduleEntry,
+  SchedulerAlgorithm,
   Variant,
 } from './core';
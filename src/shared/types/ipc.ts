@@ -1,9 +1,9 @@
 /**
  * @fileoverview IPC channel type definitions for Electron main/renderer communication
- * @lastmodified 2026-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
- * Features: Type-safe IPC channels, request/response types, domain DTOs
- * Main APIs: IPCChannels, IPCResult, all DTO types
+ * Features: Type-safe IPC channels, main-to-renderer events, request/response types, domain DTOs
+ * Main APIs: IPCChannels, IPCEvents, IPCResult, all DTO types
  * Constraints: All IPC communication must use defined channels
  * Patterns: Request/Response pattern with typed results
  */
@@ -50,6 +50,8 @@ export interface ConceptDTO {
   name: string
   definition: string | null
   facts: string[]
+  /** Note the concept was imported from, such as /notes/Biology.md#Osmosis */
+  sourcePath?: string
   createdAt: string
   updatedAt: string
 }
@@ -93,6 +95,12 @@ export interface VariantDTO {
   rubric?: EvaluationRubric
   /** Maximum character length for open response answers */
   maxLength?: number
+  /** Answer options for multiple choice, multi-select and true/false questions */
+  options?: string[]
+  /** Indices into options of the correct answers */
+  correctIndices?: number[]
+  /** Cloze deletion index this card blanks; front holds the full cloze markup */
+  clozeIndex?: number
 }
 
 /**
@@ -111,6 +119,10 @@ export interface CreateVariantDTO {
   rubric?: EvaluationRubric
   /** Maximum character length for open response answers */
   maxLength?: number
+  /** Answer options for multiple choice, multi-select and true/false questions */
+  options?: string[]
+  /** Indices into options of the correct answers */
+  correctIndices?: number[]
 }
 
 /**
@@ -129,6 +141,87 @@ export interface UpdateVariantDTO {
   rubric?: EvaluationRubric
   /** Maximum character length for open response answers */
   maxLength?: number
+  /** Answer options for multiple choice, multi-select and true/false questions */
+  options?: string[]
+  /** Indices into options of the correct answers */
+  correctIndices?: number[]
+}
+
+/**
+ * Options for generating draft variants of a concept with the LLM
+ */
+export interface GenerateVariantsDTO {
+  conceptId: string
+  /** Dimensions to generate for */
+  dimensions: Dimension[]
+  /** Difficulty levels (1-5) to generate at */
+  difficulties: number[]
+  /** Variants per dimension and difficulty (1-10) */
+  count: number
+}
+
+/**
+ * A generated variant awaiting review; nothing is saved until accepted
+ */
+export interface GeneratedVariantDTO {
+  dimension: Dimension
+  difficulty: number
+  front: string
+  back: string
+  hints: string[]
+}
+
+/**
+ * A dimension and difficulty the LLM could not generate variants for
+ */
+export interface GenerationFailureDTO {
+  dimension: Dimension
+  difficulty: number
+  error: LLMErrorDTO
+}
+
+/**
+ * Draft variants plus the combinations that failed
+ */
+export interface GenerateVariantsResultDTO {
+  drafts: GeneratedVariantDTO[]
+  failures: GenerationFailureDTO[]
+}
+
+/**
+ * Request for LLM-generated wrong answer options
+ */
+export interface GenerateDistractorsDTO {
+  conceptId: string
+  /** The question (card front) */
+  front: string
+  /** The correct answer (card back); no distractor will equal it */
+  back: string
+  /** Other answers that are also correct, e.g. the correct choice options */
+  acceptedAnswers?: string[]
+  /** Distractors to generate (1-7) */
+  count: number
+}
+
+/**
+ * A plausible wrong answer option
+ */
+export interface DistractorDTO {
+  text: string
+  /** The misconception that makes the option tempting */
+  rationale: string
+  /** Related concept the option borrows from, if any */
+  confusedWith: string | null
+  /** How tempting the option is (0-1) */
+  plausibility: number
+}
+
+/**
+ * Distractors ranked most plausible first, or the reason none were generated
+ */
+export interface GenerateDistractorsResultDTO {
+  distractors: DistractorDTO[]
+  error?: LLMErrorDTO
 }
 
 /**
@@ -152,9 +245,21 @@ export interface MasteryProfileDTO {
 }
 
 /**
- * Schedule state for a concept
+ * Mastery profile scoped to a single concept
+ */
+export interface ConceptMasteryProfileDTO {
+  conceptId: string
+  dimensions: MasteryDTO[]
+  overallScore: number
+  weakestDimension: Dimension | null
+  strongestDimension: Dimension | null
+}
+
+/**
+ * Schedule state for a variant
  */
 export interface ScheduleDTO {
+  variantId: string
   conceptId: string
   dueAt: string
   intervalDays: number
@@ -165,7 +270,7 @@ export interface ScheduleDTO {
  * Data for updating a schedule
  */
 export interface UpdateScheduleDTO {
-  conceptId: string
+  variantId: string
   dueAt?: string
   intervalDays?: number
   ease?: number
@@ -199,6 +304,8 @@ export interface ReviewSubmitDTO {
  * Result of a review submission
  */
 export interface ReviewResultDTO {
+  /** ID of the logged review event, used to dispute its evaluation */
+  eventId: string
   updatedMastery: MasteryDTO
   updatedSchedule: ScheduleDTO
   nextCard: ReviewCardDTO | null
@@ -212,14 +319,26 @@ export interface ReviewResultDTO {
   explanation?: string
   /** LLM evaluation result for open response questions */
   evaluation?: LLMEvaluationResult
+  /** Why an open response could not be evaluated */
+  evaluationError?: LLMErrorDTO
 }
 
 /**
  * Count of due cards
+ *
+ * All counts are cards (variants); newCardsPerDay limits how many new
+ * concepts are introduced, and newRemaining counts the cards they bring.
  */
 export interface DueCountDTO {
+  /** Cards available today within the new-concept limit */
   total: number
   byDimension: Record<Dimension, number>
+  /** Due cards of concepts already being studied */
+  reviewRemaining: number
+  /** Due cards of never-reviewed concepts that can still be introduced today */
+  newRemaining: number
+  /** Cards left before the current session reaches cardsPerSession */
+  sessionRemaining: number
 }
 
 /**
@@ -230,6 +349,98 @@ export interface LLMConfigDTO {
   apiKey: string
   model: string
   baseUrl?: string
+  /** Estimated spend per calendar month (USD) after which calls are blocked; null for none */
+  monthlyBudgetUsd?: number | null
+}
+
+/**
+ * Why an LLM feature could not run
+ * - LLM_NOT_CONFIGURED: settings are incomplete (for example, no API key)
+ * - LLM_REQUEST_FAILED: the provider call failed
+ * - LLM_BUDGET_EXCEEDED: the monthly budget has been spent
+ */
+export type LLMErrorCode = 'LLM_NOT_CONFIGURED' | 'LLM_REQUEST_FAILED' | 'LLM_BUDGET_EXCEEDED'
+
+/**
+ * What an LLM call was made for
+ */
+export type LLMUsageFeature = 'generation' | 'evaluation'
+
+/**
+ * How an LLM call ended; blocked calls were stopped by the monthly budget
+ */
+export type LLMCallOutcome = 'success' | 'error' | 'blocked'
+
+/**
+ * LLM error the renderer can display
+ */
+export interface LLMErrorDTO {
+  code: LLMErrorCode
+  /** User-facing explanation */
+  message: string
+  /** Settings fields that need a value (LLM_NOT_CONFIGURED only) */
+  missingFields?: string[]
+}
+
+/**
+ * Whether LLM features can run with the saved settings
+ */
+export interface LLMStatusDTO {
+  configured: boolean
+  provider: LLMConfigDTO['provider']
+  /** Model that will be used (the provider default when none is set) */
+  model: string
+  /** Why LLM features are unavailable, when not configured */
+  error?: LLMErrorDTO
+}
+
+/**
+ * Spaced repetition algorithm used for scheduling
+ */
+export type SchedulerAlgorithm = 'sm2' | 'fsrs'
+
+/**
+ * How flashcards are answered: reveal and self-rate, or type the answer
+ * and get a locally computed suggested rating
+ */
+export type FlashcardAnswerMode = 'reveal' | 'typed'
+
+/**
+ * SM-2 parameters (classic SM-2 unless fitted by the optimizer)
+ */
+export interface SM2ParametersDTO {
+  easeAdjustments: Record<Rating, number>
+  hardIntervalMultiplier: number
+  intervalModifier: number
+}
+
+/**
+ * FSRS parameters (published FSRS-4.5 weights unless fitted by the optimizer)
+ */
+export interface FSRSParametersDTO {
+  weights: number[]
+  desiredRetention: number
+  maximumIntervalDays: number
+}
+
+/**
+ * Fitted scheduler parameters per algorithm; absent entries use defaults
+ */
+export interface SchedulerParametersDTO {
+  sm2?: SM2ParametersDTO
+  fsrs?: FSRSParametersDTO
+}
+
+/**
+ * Automatic database backup settings
+ */
+export interface BackupSettingsDTO {
+  /** Back up the database on a schedule */
+  enabled: boolean
+  /** Hours between automatic backups */
+  intervalHours: number
+  /** Automatic backups kept; older ones are deleted */
+  retainCount: number
 }
 
 /**
@@ -239,15 +450,102 @@ export interface SettingsDTO {
   ewmaAlpha: number
   targetTimes: Record<number, number>
   antiFrustrationThreshold: number
+  // Spaced repetition algorithm
+  scheduler: SchedulerAlgorithm
+  schedulerParameters: SchedulerParametersDTO
   // Review session settings
   cardsPerSession: number
   newCardsPerDay: number
+  flashcardAnswerMode: FlashcardAnswerMode
   // LLM configuration
   llm: LLMConfigDTO
+  // Database backups
+  backup: BackupSettingsDTO
   // UI theme
   theme: 'light' | 'dark' | 'system'
 }
 
+/**
+ * Request to fit scheduler parameters from review history
+ */
+export interface OptimizeScheduleDTO {
+  /** Persist the fitted parameters when they improve predictions */
+  apply: boolean
+}
+
+/**
+ * How well a scheduler predicts the user's recall (lower is better)
+ */
+export interface PredictionMetricsDTO {
+  logLoss: number
+  rmse: number
+}
+
+/**
+ * Before/after report from the scheduler optimizer
+ */
+export interface ScheduleOptimizationReportDTO {
+  algorithm: SchedulerAlgorithm
+  /** Number of reviews whose recall was predicted */
+  reviewCount: number
+  before: PredictionMetricsDTO
+  after: PredictionMetricsDTO
+  /** Fitted parameters for the active algorithm */
+  parameters: SchedulerParametersDTO
+  /** Whether the fitted parameters predict recall better */
+  improved: boolean
+  /** Whether the fitted parameters were saved to settings */
+  applied: boolean
+}
+
+/**
+ * Options for rebuilding mastery and schedules from the event log
+ */
+export interface ReplayOptionsDTO {
+  /** Report the changes without writing them */
+  dryRun: boolean
+}
+
+/**
+ * Before/after values of a global dimension mastery row
+ */
+export interface MasteryChangeDTO {
+  dimension: Dimension
+  before: MasteryDTO
+  after: MasteryDTO
+}
+
+/**
+ * Before/after values of a concept's mastery for one dimension
+ */
+export interface ConceptMasteryChangeDTO extends MasteryChangeDTO {
+  conceptId: string
+}
+
+/**
+ * Before/after schedule of a reviewed variant (before null = no schedule stored yet)
+ */
+export interface ScheduleChangeDTO {
+  variantId: string
+  conceptId: string
+  before: ScheduleDTO | null
+  after: ScheduleDTO
+}
+
+/**
+ * Differences between stored state and the state replayed from events
+ */
+export interface ReplayReportDTO {
+  /** Number of events replayed */
+  eventCount: number
+  dryRun: boolean
+  /** Whether the changes were written to the database */
+  applied: boolean
+  masteryChanges: MasteryChangeDTO[]
+  conceptMasteryChanges: ConceptMasteryChangeDTO[]
+  scheduleChanges: ScheduleChangeDTO[]
+}
+
 /**
  * Result of LLM API connection test
  */
@@ -314,6 +612,43 @@ export interface WeaknessHeatmapEntryDTO {
   dimensions: Record<Dimension, WeaknessSeverity>
 }
 
+/**
+ * LLM calls added up for a feature, or for one model within it
+ */
+export interface LLMUsageBreakdownDTO {
+  feature: LLMUsageFeature
+  /** Provider and model of the row, null on a feature total */
+  provider: LLMConfigDTO['provider'] | null
+  model: string | null
+  calls: number
+  failedCalls: number
+  /** Calls stopped by the monthly budget */
+  blockedCalls: number
+  promptTokens: number
+  completionTokens: number
+  /** Average latency of calls that reached the provider (ms), null when none did */
+  meanLatencyMs: number | null
+  /** Estimated spend in USD */
+  costUsd: number
+  /** Successful calls to models without a known price, left out of costUsd */
+  unpricedCalls: number
+}
+
+/**
+ * LLM usage and spend for the current calendar month
+ */
+export interface LLMUsageReportDTO {
+  /** Start of the month the report covers (ISO 8601) */
+  periodStart: string
+  /** Configured monthly budget in USD, null when there is none */
+  budgetUsd: number | null
+  spentUsd: number
+  /** One total per feature that made calls */
+  features: LLMUsageBreakdownDTO[]
+  /** One row per feature, provider and model, most expensive first within a feature */
+  models: LLMUsageBreakdownDTO[]
+}
+
 // -----------------------------------------------------------------------------
 // Open Response Evaluation Types
 // -----------------------------------------------------------------------------
@@ -368,6 +703,508 @@ export interface EvaluationRequest {
   dimension: Dimension
 }
 
+/**
+ * Options for re-scoring stored open responses
+ */
+export interface EvaluationReplayOptionsDTO {
+  /** Model of the configured provider to score with; defaults to the configured model */
+  model?: string
+  /** Most recent responses to re-score (1-500, default 50) */
+  limit?: number
+}
+
+/**
+ * A stored open response and its replayed evaluation
+ */
+export interface EvaluationReplayItemDTO {
+  eventId: string
+  conceptName: string
+  question: string
+  userResponse: string
+  /** When the response was originally submitted */
+  reviewedAt: string
+  /** Score stored with the review, null if it was not evaluated */
+  storedScore: number | null
+  /** Rating the review was recorded with */
+  storedRating: Rating
+  /** Replayed score, null if the evaluation failed */
+  score: number | null
+  /** Rating the replayed score suggests */
+  rating: Rating | null
+  /** Whether the replayed evaluation came from the cache */
+  cached: boolean
+  /** Why the evaluation failed */
+  error?: string
+}
+
+/**
+ * Stored and replayed evaluations of the most recent open responses
+ */
+export interface EvaluationReplayReportDTO {
+  provider: LLMConfigDTO['provider']
+  model: string
+  promptVersion: string
+  items: EvaluationReplayItemDTO[]
+  /** Evaluations answered from the cache without an LLM call */
+  cachedCount: number
+  failedCount: number
+  /** Mean |replayed - stored| score over responses with both, null if none */
+  meanAbsoluteDifference: number | null
+  /** Share of replayed ratings equal to the stored rating, null if none */
+  ratingAgreement: number | null
+  /** Why no response could be re-scored */
+  error?: LLMErrorDTO
+}
+
+/**
+ * A stored LLM evaluation and the user's verdict on it
+ */
+export interface EvaluatedResponseDTO {
+  eventId: string
+  conceptName: string
+  question: string
+  userResponse: string
+  dimension: Dimension
+  /** When the response was submitted */
+  reviewedAt: string
+  /** Model that evaluated, null for reviews logged before models were recorded */
+  model: string | null
+  score: number
+  feedback: string | null
+  /** Rating the LLM gave */
+  llmRating: Rating
+  /** Rating the user set instead, null if not disputed */
+  humanRating: Rating | null
+  /** When the user last set a rating */
+  overriddenAt: string | null
+}
+
+/**
+ * Replaces or clears the rating of an evaluated review
+ */
+export interface EvaluationOverrideDTO {
+  eventId: string
+  /** The user's rating, or null to restore the LLM's rating */
+  rating: Rating | null
+}
+
+/**
+ * The overridden evaluation and the mastery and schedule corrections applied
+ */
+export interface EvaluationOverrideResultDTO {
+  response: EvaluatedResponseDTO
+  replay: ReplayReportDTO
+}
+
+/**
+ * Agreement between an LLM's evaluations and the user's verdicts
+ *
+ * An evaluation the user did not dispute counts as confirmed.
+ */
+export interface EvaluationCalibrationDTO {
+  /** Evaluating model, null for reviews logged before models were recorded */
+  model: string | null
+  /** Dimension of the row, null for all dimensions of the model */
+  dimension: Dimension | null
+  count: number
+  /** Evaluations whose rating the user changed */
+  overrideCount: number
+  /** Share of evaluations whose rating matches the verdict */
+  agreement: number
+  meanScore: number
+  /** Mean LLM score minus the verdict's score; positive means too generous */
+  bias: number
+  /** Mean distance between LLM score and the verdict's score */
+  meanAbsoluteError: number
+}
+
+// -----------------------------------------------------------------------------
+// Background Job Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Lifecycle of a background generation job
+ *
+ * queued -> running -> completed | failed, or back to queued for a retry.
+ * Queued and running jobs can be cancelled; failed and cancelled jobs retried.
+ */
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * A background job generating variants for one concept, dimension and difficulty
+ */
+export interface GenerationJobDTO {
+  id: string
+  conceptId: string
+  conceptName: string
+  dimension: Dimension
+  difficulty: number
+  /** Variants requested */
+  count: number
+  status: GenerationJobStatus
+  attempts: number
+  /** Most recent failure message */
+  error: string | null
+  /** Variants saved when the job completed */
+  variantsCreated: number
+  /** ISO time before which the job will not run (retry or rate-limit wait) */
+  runAfter: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Queues generation for every combination of concepts, dimensions and difficulties
+ */
+export interface EnqueueGenerationDTO {
+  conceptIds: string[]
+  dimensions: Dimension[]
+  /** Difficulty levels (1-5) */
+  difficulties: number[]
+  /** Variants per job (1-10) */
+  count: number
+}
+
+/**
+ * Recent jobs plus the queue's in-flight state
+ */
+export interface JobQueueStatusDTO {
+  jobs: GenerationJobDTO[]
+  running: number
+  /** ISO time a rate limit pauses the queue until, or null */
+  pausedUntil: string | null
+}
+
+/**
+ * Options for queueing generation of the variants concepts are missing
+ */
+export interface FillGapsDTO {
+  /** Concepts to inspect; all concepts when omitted */
+  conceptIds?: string[]
+  /** Difficulty levels (1-5) every dimension except cloze should cover */
+  difficulties: number[]
+  /** Variants every dimension x difficulty cell should hold */
+  perCell: number
+  /** Variants cells of weak or dodged dimensions should hold */
+  weakPerCell: number
+  /** Report the gaps without queueing any jobs */
+  dryRun: boolean
+}
+
+/**
+ * A concept's dimension x difficulty cell with fewer variants than its target
+ */
+export interface VariantGapDTO {
+  conceptId: string
+  conceptName: string
+  dimension: Dimension
+  difficulty: number
+  /** Variants already in the cell */
+  existing: number
+  /** Variants queued for generation in the cell */
+  pending: number
+  target: number
+  /** Variants to generate */
+  missing: number
+  /** 'weak' and 'dodged' come from the weakness profile; 'missing' is below the baseline */
+  reason: 'weak' | 'dodged' | 'missing'
+}
+
+/**
+ * Gaps found and the jobs queued to fill them
+ */
+export interface FillGapsResultDTO {
+  gaps: VariantGapDTO[]
+  /** Queued jobs, one per gap; empty on a dry run */
+  jobs: GenerationJobDTO[]
+}
+
+// -----------------------------------------------------------------------------
+// Import Types
+// -----------------------------------------------------------------------------
+
+/**
+ * An Anki deck (.apkg) or collection (.colpkg) package to import
+ */
+export interface AnkiImportDTO {
+  fileName: string
+  /** Contents of the package file */
+  data: Uint8Array
+  /** Convert the package's review log into review events */
+  includeReviewHistory: boolean
+  /** Report what would be imported without writing anything */
+  dryRun: boolean
+}
+
+/**
+ * A note or card left out of an import
+ */
+export interface ImportSkippedItemDTO {
+  kind: 'note' | 'card'
+  /** Short text identifying the item, such as the note's first field */
+  label: string
+  reason: string
+}
+
+/**
+ * What an Anki import created, or would create on a dry run
+ */
+export interface AnkiImportReportDTO {
+  fileName: string
+  dryRun: boolean
+  conceptCount: number
+  variantCount: number
+  /** Variants per guessed dimension */
+  dimensionCounts: Record<Dimension, number>
+  eventCount: number
+  skipped: ImportSkippedItemDTO[]
+  /** Review log entries left out: manual reschedules and reviews of skipped cards */
+  skippedReviewCount: number
+  /** Notes whose images or audio were dropped */
+  notesWithMedia: number
+}
+
+/**
+ * Concept and variant fields a CSV column can be imported into
+ */
+export type CsvImportField =
+  | 'name'
+  | 'definition'
+  | 'facts'
+  | 'dimension'
+  | 'difficulty'
+  | 'front'
+  | 'back'
+  | 'hints'
+  | 'questionType'
+
+/**
+ * Cell separator of CSV (comma or semicolon) and TSV (tab) files
+ */
+export type CsvDelimiter = ',' | '\t' | ';'
+
+/**
+ * What to do with rows naming a concept that already exists: leave them
+ * out, or add their facts and variants to the existing concept
+ */
+export type CsvDuplicateHandling = 'skip' | 'merge'
+
+/**
+ * CSV or TSV text to preview or import
+ */
+export interface CsvImportDTO {
+  text: string
+  /** Cell separator; detected from the first row when omitted */
+  delimiter?: CsvDelimiter
+  /** Whether the first row holds column names rather than data */
+  hasHeader: boolean
+  /** Column index per field; guessed from the column names when omitted */
+  mapping?: Partial<Record<CsvImportField, number>>
+  onDuplicate: CsvDuplicateHandling
+  /** Report what would be imported without writing anything */
+  dryRun: boolean
+}
+
+/**
+ * How one data row would be imported
+ *
+ * 'create' starts a new concept, 'add' adds to a concept created by an
+ * earlier row, 'merge' adds to an existing concept, 'skip' is a row of an
+ * existing concept left out, and 'error' a row that fails validation.
+ */
+export interface CsvRowPreviewDTO {
+  /** Row number in the file, counting the header row */
+  rowNumber: number
+  name: string
+  status: 'create' | 'add' | 'merge' | 'skip' | 'error'
+  /** The row's variant, when it has one */
+  variant: { dimension: Dimension; difficulty: number; front: string } | null
+  errors: string[]
+}
+
+/**
+ * Preview or result of a CSV import
+ */
+export interface CsvImportReportDTO {
+  dryRun: boolean
+  delimiter: CsvDelimiter
+  /** Column names from the header row, or "Column N" without one */
+  columns: string[]
+  /** The column mapping used */
+  mapping: Partial<Record<CsvImportField, number>>
+  rows: CsvRowPreviewDTO[]
+  conceptsCreated: number
+  conceptsMerged: number
+  variantsCreated: number
+  skippedCount: number
+  errorCount: number
+}
+
+/**
+ * A folder of Markdown notes, such as an Obsidian vault, to import
+ */
+export interface MarkdownImportDTO {
+  /** Folder scanned for .md files, subfolders included */
+  folderPath: string
+  /** Heading level (1-6) that starts a concept in notes not tagged "concept"; defaults to 2 */
+  headingLevel?: number
+  /** Report what would be imported without writing anything */
+  dryRun: boolean
+}
+
+/**
+ * What importing a concept of a note does
+ */
+export type MarkdownConceptStatus = 'create' | 'update' | 'unchanged' | 'skip'
+
+/**
+ * A concept read from a note and what importing it does
+ */
+export interface MarkdownConceptPreviewDTO {
+  /** Note path relative to the folder, plus "#Heading" for heading concepts */
+  source: string
+  name: string
+  definition: string
+  facts: string[]
+  status: MarkdownConceptStatus
+  /** Why the concept is skipped */
+  reason: string | null
+}
+
+/**
+ * Preview or result of a Markdown import
+ */
+export interface MarkdownImportReportDTO {
+  folderPath: string
+  dryRun: boolean
+  noteCount: number
+  concepts: MarkdownConceptPreviewDTO[]
+  /** Concepts per status */
+  counts: Record<MarkdownConceptStatus, number>
+  /** Notes holding no concept, by path relative to the folder */
+  skippedNotes: Array<{ path: string; reason: string }>
+  /** Names of concepts imported from the folder before whose note or heading is gone */
+  missing: string[]
+}
+
+// -----------------------------------------------------------------------------
+// Data Transfer Types
+// -----------------------------------------------------------------------------
+
+/**
+ * File format of a data export
+ */
+export type DataExportFormat = 'json' | 'yaml'
+
+/**
+ * What to export
+ */
+export interface DataExportOptionsDTO {
+  format: DataExportFormat
+  /** Include the review history */
+  includeEvents: boolean
+}
+
+/**
+ * Number of records per table of the study data
+ */
+export interface DataCountsDTO {
+  concepts: number
+  variants: number
+  schedules: number
+  /** Per-dimension mastery rows */
+  mastery: number
+  /** Per-concept, per-dimension mastery rows */
+  conceptMastery: number
+  events: number
+}
+
+/**
+ * An exported data document
+ */
+export interface DataExportDTO {
+  /** Suggested file name, such as adaptive-mastery-2026-01-28.yaml */
+  fileName: string
+  content: string
+  counts: DataCountsDTO
+}
+
+/**
+ * How an import treats the stored study data: delete it first, or keep it
+ * and add the records it is missing
+ */
+export type DataImportStrategy = 'merge' | 'replace'
+
+/**
+ * A data document to check or import
+ */
+export interface DataImportDTO {
+  /** Contents of a JSON or YAML data document */
+  content: string
+  strategy: DataImportStrategy
+  /** Validate the document and count its records without writing anything */
+  dryRun: boolean
+}
+
+/**
+ * Result of checking or importing a data document
+ */
+export interface DataImportReportDTO {
+  dryRun: boolean
+  strategy: DataImportStrategy
+  schemaVersion: number
+  exportedAt: string | null
+  /** Whether the document holds review history */
+  includesEvents: boolean
+  /** Records in the document */
+  inFile: DataCountsDTO
+  /** Records stored before the import */
+  stored: DataCountsDTO
+  /** Records written; null on a dry run */
+  written: DataCountsDTO | null
+}
+
+// -----------------------------------------------------------------------------
+// Backup Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Why a backup was made: on schedule, on request, or to keep the data a
+ * restore replaced
+ */
+export type BackupKind = 'automatic' | 'manual' | 'pre-restore'
+
+/**
+ * A database backup file
+ */
+export interface BackupInfoDTO {
+  fileName: string
+  kind: BackupKind
+  createdAt: string
+  sizeBytes: number
+}
+
+/**
+ * The backups directory and its backups, newest first
+ */
+export interface BackupListDTO {
+  directory: string
+  backups: BackupInfoDTO[]
+}
+
+/**
+ * Result of restoring a backup
+ */
+export interface BackupRestoreReportDTO {
+  restored: BackupInfoDTO
+  /** Backup of the data the restore replaced */
+  safetyBackup: BackupInfoDTO
+  /** Migrations run to bring the backup up to this version of the app */
+  migrationsApplied: number
+  /** Records of the restored database */
+  counts: DataCountsDTO
+}
+
 // -----------------------------------------------------------------------------
 // IPC Channel Definitions
 // -----------------------------------------------------------------------------
@@ -388,30 +1225,46 @@ export interface IPCChannels {
   'concepts:create': { args: CreateConceptDTO; result: ConceptDTO }
   'concepts:update': { args: UpdateConceptDTO; result: ConceptDTO }
   'concepts:delete': { args: string; result: void }
+  'concepts:importCsv': { args: CsvImportDTO; result: CsvImportReportDTO }
 
   // Variant operations
   'variants:getByConceptId': { args: string; result: VariantDTO[] }
   'variants:create': { args: CreateVariantDTO; result: VariantDTO }
   'variants:update': { args: UpdateVariantDTO; result: VariantDTO }
   'variants:delete': { args: string; result: void }
+  'variants:generate': { args: GenerateVariantsDTO; result: GenerateVariantsResultDTO }
+  'variants:createMany': { args: CreateVariantDTO[]; result: VariantDTO[] }
+  'variants:generateDistractors': {
+    args: GenerateDistractorsDTO
+    result: GenerateDistractorsResultDTO
+  }
 
   // Review operations
   'review:getNextCard': { args: void; result: ReviewCardDTO | null }
   'review:submit': { args: ReviewSubmitDTO; result: ReviewResultDTO }
   'review:getDueCount': { args: void; result: DueCountDTO }
+  'review:startSession': { args: void; result: DueCountDTO }
 
   // Mastery operations
   'mastery:getProfile': { args: void; result: MasteryProfileDTO }
   'mastery:getByDimension': { args: Dimension; result: MasteryDTO }
+  'mastery:getByConcept': { args: string; result: ConceptMasteryProfileDTO }
+  'mastery:getAllConcepts': { args: void; result: ConceptMasteryProfileDTO[] }
+  'mastery:recompute': { args: void; result: MasteryProfileDTO }
 
   // Schedule operations
   'schedule:getDue': { args: void; result: ScheduleDTO[] }
   'schedule:update': { args: UpdateScheduleDTO; result: ScheduleDTO }
+  'schedule:optimize': { args: OptimizeScheduleDTO; result: ScheduleOptimizationReportDTO }
+
+  // Event log replay
+  'replay:run': { args: ReplayOptionsDTO; result: ReplayReportDTO }
 
   // Settings operations
   'settings:get': { args: void; result: SettingsDTO }
   'settings:set': { args: Partial<SettingsDTO>; result: SettingsDTO }
   'settings:testConnection': { args: LLMConfigDTO; result: ConnectionTestResultDTO }
+  'settings:getLLMStatus': { args: void; result: LLMStatusDTO }
 
   // Analytics operations
   'analytics:getMasteryTimeline': {
@@ -430,9 +1283,45 @@ export interface IPCChannels {
     args: { days: number }
     result: WeaknessHeatmapEntryDTO[]
   }
+  'analytics:getLLMUsage': { args: void; result: LLMUsageReportDTO }
 
   // Evaluation operations (for open response LLM evaluation)
   'evaluation:evaluate': { args: EvaluationRequest; result: LLMEvaluationResult }
+  'evaluation:replay': { args: EvaluationReplayOptionsDTO; result: EvaluationReplayReportDTO }
+  'evaluation:getHistory': { args: { limit: number }; result: EvaluatedResponseDTO[] }
+  'evaluation:override': { args: EvaluationOverrideDTO; result: EvaluationOverrideResultDTO }
+  'evaluation:getCalibration': { args: void; result: EvaluationCalibrationDTO[] }
+
+  // Background generation jobs
+  'jobs:getStatus': { args: void; result: JobQueueStatusDTO }
+  'jobs:enqueueGeneration': { args: EnqueueGenerationDTO; result: GenerationJobDTO[] }
+  'jobs:cancel': { args: string; result: GenerationJobDTO }
+  'jobs:retry': { args: string; result: GenerationJobDTO }
+  'jobs:clearFinished': { args: void; result: number }
+  'jobs:fillGaps': { args: FillGapsDTO; result: FillGapsResultDTO }
+
+  // Import operations
+  'import:anki': { args: AnkiImportDTO; result: AnkiImportReportDTO }
+  'import:chooseFolder': { args: void; result: string | null }
+  'import:markdown': { args: MarkdownImportDTO; result: MarkdownImportReportDTO }
+
+  // Data export and import
+  'data:export': { args: DataExportOptionsDTO; result: DataExportDTO }
+  'data:import': { args: DataImportDTO; result: DataImportReportDTO }
+
+  // Database backups
+  'backup:list': { args: void; result: BackupListDTO }
+  'backup:create': { args: void; result: BackupInfoDTO }
+  'backup:restore': { args: string; result: BackupRestoreReportDTO }
+}
+
+/**
+ * Events pushed from the main process to the renderer, mapping
+ * channel names to their payload types
+ */
+export interface IPCEvents {
+  /** A background generation job changed state */
+  'jobs:progress': GenerationJobDTO
 }
 
 /**
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Fuzzy matching of typed answers against a model answer
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Scores a typed answer locally, without an LLM: both texts are normalized,
+ * then compared by token overlap (word-level F1, order-insensitive) and by
+ * edit distance (character-level, typo-tolerant). The better of the two is
+ * the score, so short answers with typos and long answers with reordered
+ * words both match well. A word-level diff drives the reveal highlighting.
+ *
+ * Suggested rating thresholds:
+ * - score >= 0.9 → 'good' (correct, allowing small typos)
+ * - score >= 0.6 → 'hard' (mostly correct)
+ * - otherwise    → 'again'
+ * 'easy' is never suggested; the learner can still pick it.
+ *
+ * Features: Answer normalization, token overlap, edit distance with transpositions, word diff
+ * Main APIs: normalizeAnswer(), editDistance(), scoreTypedAnswer(), suggestRating(), diffAnswer()
+ * Constraints: Pure functions; quadratic in answer length (fine for card-sized text)
+ * Patterns: Shared by renderer (suggestion, diff) and tests
+ */
+
+import type { Rating } from '../types/ipc'
+
+/** Minimum score suggested as 'good' */
+const GOOD_THRESHOLD = 0.9
+
+/** Minimum score suggested as 'hard' */
+const HARD_THRESHOLD = 0.6
+
+/**
+ * Similarity scores for a typed answer
+ */
+export interface TypedAnswerScore {
+  /** Overall score between 0 and 1 */
+  score: number
+  /** Word-level F1 overlap between 0 and 1 */
+  tokenOverlap: number
+  /** 1 - normalized edit distance, between 0 and 1 */
+  editSimilarity: number
+  /** Whether the normalized answers are identical */
+  exact: boolean
+}
+
+/**
+ * A word of the answer diff
+ *
+ * 'match' words appear in both answers, 'missing' only in the expected
+ * answer, and 'extra' only in the typed answer.
+ */
+export interface AnswerDiffSegment {
+  kind: 'match' | 'missing' | 'extra'
+  text: string
+}
+
+/**
+ * Normalizes an answer for comparison
+ *
+ * Case, accents, punctuation and extra whitespace are ignored.
+ *
+ * @example
+ * normalizeAnswer('  Café  au-lait! ') // 'cafe au lait'
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Splits normalized text into words
+ */
+function tokenize(text: string): string[] {
+  const normalized = normalizeAnswer(text)
+  return normalized.length > 0 ? normalized.split(' ') : []
+}
+
+/**
+ * Computes the edit distance between two strings
+ *
+ * Counts single-character insertions, deletions, substitutions and
+ * transpositions of adjacent characters (optimal string alignment), so a
+ * swapped pair of letters costs one edit like any other typo.
+ *
+ * @returns Minimum number of edits to turn a into b
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  // d[i][j] = distance between the first i characters of a and first j of b
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+  for (let i = 1; i <= a.length; i++) {
+    const row = d[i] ?? []
+    const previous = d[i - 1] ?? []
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let distance = Math.min(
+        (previous[j] ?? 0) + 1,
+        (row[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, (d[i - 2]?.[j - 2] ?? 0) + 1)
+      }
+      row[j] = distance
+    }
+  }
+  return d[a.length]?.[b.length] ?? 0
+}
+
+/**
+ * Computes word-level F1 overlap, counting repeated words once per occurrence
+ */
+function computeTokenOverlap(expected: string[], given: string[]): number {
+  if (expected.length === 0 || given.length === 0) return 0
+
+  const remaining = new Map<string, number>()
+  for (const token of expected) {
+    remaining.set(token, (remaining.get(token) ?? 0) + 1)
+  }
+  let shared = 0
+  for (const token of given) {
+    const count = remaining.get(token) ?? 0
+    if (count > 0) {
+      shared += 1
+      remaining.set(token, count - 1)
+    }
+  }
+
+  return (2 * shared) / (expected.length + given.length)
+}
+
+/**
+ * Scores a typed answer against the expected answer
+ *
+ * @param expected - The model answer (variant back)
+ * @param given - The learner's typed answer
+ * @returns Overall score and its components
+ *
+ * @example
+ * scoreTypedAnswer('mitochondria', 'mitochondira').score // ≈ 0.92 (one transposition)
+ */
+export function scoreTypedAnswer(expected: string, given: string): TypedAnswerScore {
+  const normalizedExpected = normalizeAnswer(expected)
+  const normalizedGiven = normalizeAnswer(given)
+
+  if (normalizedGiven.length === 0) {
+    return { score: 0, tokenOverlap: 0, editSimilarity: 0, exact: false }
+  }
+  if (normalizedExpected === normalizedGiven) {
+    return { score: 1, tokenOverlap: 1, editSimilarity: 1, exact: true }
+  }
+
+  const tokenOverlap = computeTokenOverlap(tokenize(expected), tokenize(given))
+  const longest = Math.max(normalizedExpected.length, normalizedGiven.length)
+  const editSimilarity = 1 - editDistance(normalizedExpected, normalizedGiven) / longest
+
+  return {
+    score: Math.max(tokenOverlap, editSimilarity),
+    tokenOverlap,
+    editSimilarity,
+    exact: false,
+  }
+}
+
+/**
+ * Suggests a rating for a typed answer score
+ *
+ * @param score - Overall score from scoreTypedAnswer
+ * @returns 'good', 'hard' or 'again'
+ */
+export function suggestRating(score: number): Rating {
+  if (score >= GOOD_THRESHOLD) return 'good'
+  if (score >= HARD_THRESHOLD) return 'hard'
+  return 'again'
+}
+
+/**
+ * Diffs the typed answer against the expected answer word by word
+ *
+ * Words are compared after normalization but returned as written, using
+ * a longest-common-subsequence alignment.
+ *
+ * @returns Segments in reading order; missing words appear before extra words at each gap
+ */
+export function diffAnswer(expected: string, given: string): AnswerDiffSegment[] {
+  const expectedWords = expected.split(/\s+/).filter((w) => w.length > 0)
+  const givenWords = given.split(/\s+/).filter((w) => w.length > 0)
+  const expectedKeys = expectedWords.map(normalizeAnswer)
+  const givenKeys = givenWords.map(normalizeAnswer)
+
+  // lcs[i][j] = LCS length of expectedKeys[i..] and givenKeys[j..]
+  const lcs = Array.from({ length: expectedKeys.length + 1 }, () =>
+    new Array<number>(givenKeys.length + 1).fill(0)
+  )
+  for (let i = expectedKeys.length - 1; i >= 0; i--) {
+    for (let j = givenKeys.length - 1; j >= 0; j--) {
+      const row = lcs[i] ?? []
+      row[j] =
+        expectedKeys[i] === givenKeys[j]
+          ? (lcs[i + 1]?.[j + 1] ?? 0) + 1
+          : Math.max(lcs[i + 1]?.[j] ?? 0, row[j + 1] ?? 0)
+    }
+  }
+
+  const segments: AnswerDiffSegment[] = []
+  let i = 0
+  let j = 0
+  while (i < expectedWords.length || j < givenWords.length) {
+    if (i < expectedWords.length && j < givenWords.length && expectedKeys[i] === givenKeys[j]) {
+      segments.push({ kind: 'match', text: givenWords[j] ?? '' })
+      i++
+      j++
+    } else if (
+      i < expectedWords.length &&
+      (j >= givenWords.length || (lcs[i + 1]?.[j] ?? 0) >= (lcs[i]?.[j + 1] ?? 0))
+    ) {
+      segments.push({ kind: 'missing', text: expectedWords[i] ?? '' })
+      i++
+    } else {
+      segments.push({ kind: 'extra', text: givenWords[j] ?? '' })
+      j++
+    }
+  }
+
+  return segments
+}
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Cloze-deletion markup parsing and answer checking
+ * @lastmodified 2026-01-28T00:00:00Z
+ *
+ * Parses Anki-style `{{c1::term}}` and `{{c1::term::hint}}` markup. Each
+ * distinct cloze index becomes one card: deletions with that index are
+ * blanked, every other deletion shows its answer. Several deletions may
+ * share an index and are then blanked together on the same card.
+ *
+ * Shared by the main process (one variant per index) and the renderer
+ * (review blanks, typed-answer checking, editor preview).
+ *
+ * Features: Markup parsing, per-index card rendering, normalized answer checking
+ * Main APIs: parseClozeDeletions(), getClozeIndices(), splitClozeText(),
+ *            renderClozeCard(), generateClozeCards(), checkClozeAnswers()
+ * Constraints: Pure functions; nested deletions are not supported
+ * Patterns: Segment list for rendering, so callers never re-parse markup
+ */
+
+import { normalizeAnswer } from './answer-matching'
+
+/**
+ * Matches one deletion: cloze index, answer, and optional hint.
+ * The answer and hint may not contain "}}" or "::".
+ */
+const CLOZE_PATTERN = /\{\{c(\d+)::((?:(?!::|\}\}).)+?)(?:::((?:(?!\}\}).)*?))?\}\}/g
+
+/** Placeholder shown for a blank without a hint */
+const BLANK_PLACEHOLDER = '[...]'
+
+/**
+ * A single `{{cN::answer::hint}}` deletion in the source text
+ */
+export interface ClozeDeletion {
+  /** Cloze index (the N in cN), 1 or greater */
+  index: number
+  /** Text hidden by the deletion */
+  answer: string
+  /** Optional hint shown in place of the answer */
+  hint?: string
+}
+
+/**
+ * A piece of cloze text prepared for one card
+ *
+ * Text segments include the answers of deletions that are not being tested.
+ */
+export type ClozeSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'blank'; answer: string; hint?: string }
+
+/**
+ * One generated cloze card
+ */
+export interface ClozeCard {
+  /** Cloze index this card tests */
+  index: number
+  /** Prompt with the tested deletions blanked */
+  front: string
+  /** Full text with every deletion filled in */
+  back: string
+  /** Expected answers, in order of appearance */
+  answers: string[]
+}
+
+/**
+ * Finds every deletion in the text, in order of appearance
+ *
+ * @param text - Text containing cloze markup
+ * @returns Deletions with index 1 or greater
+ */
+export function parseClozeDeletions(text: string): ClozeDeletion[] {
+  const deletions: ClozeDeletion[] = []
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = parseInt(match[1] ?? '', 10)
+    const answer = match[2]?.trim() ?? ''
+    const hint = match[3]?.trim()
+    if (index >= 1 && answer.length > 0) {
+      deletions.push({ index, answer, ...(hint !== undefined && hint !== '' && { hint }) })
+    }
+  }
+  return deletions
+}
+
+/**
+ * Lists the distinct cloze indices in the text
+ *
+ * @returns Indices in ascending order (empty if the text has no markup)
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set(parseClozeDeletions(text).map((deletion) => deletion.index))
+  return [...indices].sort((a, b) => a - b)
+}
+
+/**
+ * Checks whether the text contains at least one cloze deletion
+ */
+export function hasClozeMarkup(text: string): boolean {
+  return parseClozeDeletions(text).length > 0
+}
+
+/**
+ * Splits cloze text into plain text and the blanks for one cloze index
+ *
+ * @param text - Text containing cloze markup
+ * @param index - Cloze index to blank
+ * @returns Segments in order; adjacent text is merged
+ *
+ * @example
+ * splitClozeText('{{c1::Paris}} is in {{c2::France}}', 2)
+ * // [{ kind: 'text', text: 'Paris is in ' }, { kind: 'blank', answer: 'France' }]
+ */
+export function splitClozeText(text: string, index: number): ClozeSegment[] {
+  const segments: ClozeSegment[] = []
+  const pushText = (value: string): void => {
+    if (value.length === 0) return
+    const last = segments[segments.length - 1]
+    if (last?.kind === 'text') {
+      last.text += value
+    } else {
+      segments.push({ kind: 'text', text: value })
+    }
+  }
+
+  let cursor = 0
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const start = match.index ?? 0
+    const matchIndex = parseInt(match[1] ?? '', 10)
+    const answer = match[2]?.trim() ?? ''
+    const hint = match[3]?.trim()
+
+    pushText(text.slice(cursor, start))
+    if (matchIndex === index) {
+      segments.push({
+        kind: 'blank',
+        answer,
+        ...(hint !== undefined && hint !== '' && { hint }),
+      })
+    } else {
+      pushText(answer)
+    }
+    cursor = start + match[0].length
+  }
+  pushText(text.slice(cursor))
+
+  return segments
+}
+
+/**
+ * Renders the card for one cloze index as plain text
+ *
+ * Blanks show `[hint]` when a hint is given, otherwise `[...]`.
+ */
+export function renderClozeCard(text: string, index: number): ClozeCard {
+  const segments = splitClozeText(text, index)
+  const front = segments
+    .map((segment) => {
+      if (segment.kind === 'text') return segment.text
+      return segment.hint !== undefined ? `[${segment.hint}]` : BLANK_PLACEHOLDER
+    })
+    .join('')
+  const back = segments
+    .map((segment) => (segment.kind === 'text' ? segment.text : segment.answer))
+    .join('')
+  const answers = segments.flatMap((segment) => (segment.kind === 'blank' ? [segment.answer] : []))
+
+  return { index, front, back, answers }
+}
+
+/**
+ * Generates one card per distinct cloze index
+ *
+ * @returns Cards in ascending index order (empty if the text has no markup)
+ */
+export function generateClozeCards(text: string): ClozeCard[] {
+  return getClozeIndices(text).map((index) => renderClozeCard(text, index))
+}
+
+/**
+ * Checks typed answers against the expected answers of a cloze card
+ *
+ * @param expected - Expected answers, in order of appearance
+ * @param responses - Typed answers, one per blank
+ * @returns Whether each blank was answered correctly
+ */
+export function checkClozeAnswers(expected: string[], responses: string[]): boolean[] {
+  return expected.map(
+    (answer, i) => normalizeAnswer(responses[i] ?? '') === normalizeAnswer(answer)
+  )
+}
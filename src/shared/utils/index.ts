@@ -1,9 +1,10 @@
 /**
  * @fileoverview Shared utilities barrel export
- * @lastmodified 2025-01-16T00:00:00Z
+ * @lastmodified 2026-01-28T00:00:00Z
  *
  * Features: Centralized exports for shared utility functions
- * Main APIs: Result type and utilities, ID generators
+ * Main APIs: Result type and utilities, ID generators, cloze markup parsing,
+ *   typed answer matching
  * Constraints: Re-exports only, no additional logic
  * Patterns: Barrel pattern for clean imports
  */
@@ -14,3 +15,24 @@ export {
   generateEventId,
   generateVariantId,
 } from './id-generator'
+export {
+  diffAnswer,
+  editDistance,
+  normalizeAnswer,
+  scoreTypedAnswer,
+  suggestRating,
+  type AnswerDiffSegment,
+  type TypedAnswerScore,
+} from './answer-matching'
+export {
+  checkClozeAnswers,
+  generateClozeCards,
+  getClozeIndices,
+  hasClozeMarkup,
+  parseClozeDeletions,
+  renderClozeCard,
+  splitClozeText,
+  type ClozeCard,
+  type ClozeDeletion,
+  type ClozeSegment,
+} from './cloze'